@@ -17,7 +17,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       return true;
     
     case 'SET_AUTH':
-      setAuthToken(message.token).then(sendResponse);
+      connectAccount(message.token).then(sendResponse);
       return true;
     
     case 'LOGOUT':
@@ -42,6 +42,28 @@ async function setAuthToken(token) {
   return { success: true };
 }
 
+// Check a token from Margin Settings → Chrome Extension and store it with the account
+async function connectAccount(token) {
+  try {
+    const response = await fetch(`${CONFIG.apiBase}/api/extension/me`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+
+    if (response.status === 401) {
+      return { error: 'Invalid token - create a new one in Margin Settings' };
+    }
+    if (!response.ok) {
+      throw new Error('Could not reach Margin');
+    }
+
+    const user = await response.json();
+    await setAuthToken({ token, user });
+    return { success: true, user };
+  } catch (error) {
+    return { error: error.message };
+  }
+}
+
 // Clear auth
 async function clearAuth() {
   await chrome.storage.local.remove(CONFIG.storageKey);
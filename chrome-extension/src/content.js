@@ -14,12 +14,15 @@
   let currentData = null;
   let websocket = null;
   let reconnectTimeout = null;
+  let reconnectDelay = 5000;
+  let countdownInterval = null;
 
   // Configuration - Update this URL to your deployed Margin app
   const CONFIG = {
     wsUrl: 'wss://workspace-tsimpson923.replit.app/ws/auction',
     defaultAnchor: 'bottom-left',
-    storageKey: 'margin-overlay-settings'
+    storageKey: 'margin-overlay-settings',
+    authKey: 'margin-auth'
   };
 
   // Initialize overlay
@@ -137,7 +140,10 @@
   // Dismiss overlay
   function dismissOverlay() {
     overlayContainer.classList.add('margin-hidden');
-    if (websocket) websocket.close();
+    clearTimeout(reconnectTimeout);
+    const ws = websocket;
+    websocket = null;
+    if (ws) ws.close();
     saveSettings();
   }
 
@@ -150,7 +156,7 @@
     return altMatch ? altMatch[1] : null;
   }
 
-  // Extract item details and connect
+  // Extract item ID and connect with the account's extension token
   function extractItemAndConnect() {
     const itemId = extractItemId();
     if (!itemId) {
@@ -158,68 +164,85 @@
       return;
     }
 
-    // Extract price from page
-    const priceEl = document.querySelector('[data-testid="x-price-primary"] .ux-textspans');
-    const price = priceEl ? parseFloat(priceEl.textContent.replace(/[^0-9.]/g, '')) : null;
-
-    // Extract title
-    const titleEl = document.querySelector('h1.x-item-title__mainTitle');
-    const title = titleEl ? titleEl.textContent.trim() : '';
-
-    // For demo: simulate decision (in production, connect to WebSocket)
-    simulateDecision(itemId, title, price);
-  }
-
-  // Simulate decision (replace with real WebSocket in production)
-  function simulateDecision(itemId, title, price) {
-    setTimeout(() => {
-      // Demo data - in production this comes from WebSocket
-      const score = Math.floor(Math.random() * 100);
-      const decision = score >= 70 ? 'flip' : score >= 50 ? 'caution' : 'skip';
-      const maxBid = price ? price * 0.6 : 50;
-      const profit = price ? price * 0.25 : 25;
-
-      currentData = {
-        decision,
-        decisionText: decision === 'flip' ? 'Flip it!' : decision === 'skip' ? 'Skip it!' : 'Be cautious',
-        score,
-        maxBid,
-        profit,
-        itemId
-      };
-
-      updateDisplay();
-    }, 1200);
+    chrome.storage.local.get(CONFIG.authKey, (result) => {
+      const auth = result[CONFIG.authKey];
+      if (!auth || !auth.token) {
+        showError('Connect your Margin account in the extension popup');
+        return;
+      }
+      connectWebSocket(itemId, auth.token);
+    });
   }
 
-  // Connect to WebSocket (production)
-  function connectWebSocket(itemId) {
+  // Live analysis: verdict, max bid and profit follow the current bid
+  function connectWebSocket(itemId, token) {
     if (websocket) websocket.close();
     
     try {
-      websocket = new WebSocket(`${CONFIG.wsUrl}?itemId=${itemId}`);
+      // Token goes in the subprotocol list, not the URL, so it stays out of logs
+      const ws = new WebSocket(`${CONFIG.wsUrl}?itemId=${itemId}`, ['margin-auction', token]);
+      websocket = ws;
+
+      ws.onopen = () => {
+        reconnectDelay = 5000;
+      };
       
-      websocket.onmessage = (event) => {
+      ws.onmessage = (event) => {
         try {
-          currentData = JSON.parse(event.data);
-          updateDisplay();
+          const message = JSON.parse(event.data);
+          if (message.type === 'error') {
+            showError(message.message || 'Analysis failed');
+          } else if (message.type === 'analysis' && message.status === 'pending') {
+            currentData = null;
+            updateDisplay();
+          } else if (message.type === 'analysis') {
+            currentData = message;
+            updateDisplay();
+            if (message.status === 'ended') ws.close(1000);
+          }
         } catch (e) {
           console.error('Margin: Parse error', e);
         }
       };
 
-      websocket.onclose = () => {
-        reconnectTimeout = setTimeout(() => connectWebSocket(itemId), 5000);
+      ws.onclose = (event) => {
+        if (websocket !== ws) return; // replaced or dismissed
+        websocket = null;
+        // Normal close (auction over) or bad item - nothing to reconnect for
+        if (event.code === 1000 || event.code === 4000) return;
+        reconnectTimeout = setTimeout(() => connectWebSocket(itemId, token), reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, 60000);
       };
 
-      websocket.onerror = () => {
-        showError('Connection failed');
+      ws.onerror = () => {
+        if (!currentData) showError('Connection failed - check your extension token');
       };
     } catch (e) {
       showError('WebSocket error');
     }
   }
 
+  function formatTimeLeft(endsAt) {
+    const seconds = Math.max(0, Math.round((new Date(endsAt).getTime() - Date.now()) / 1000));
+    if (seconds === 0) return 'Ended';
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m ${seconds % 60}s`;
+  }
+
+  // Tick the time left between server updates
+  function startCountdown() {
+    clearInterval(countdownInterval);
+    if (!currentData || !currentData.endsAt || currentData.status === 'ended') return;
+    countdownInterval = setInterval(() => {
+      const el = overlayContainer.querySelector('.margin-time-left');
+      if (el) el.textContent = formatTimeLeft(currentData.endsAt);
+    }, 1000);
+  }
+
   // Update overlay display
   function updateDisplay() {
     const content = overlayContainer.querySelector('.margin-content');
@@ -234,8 +257,9 @@
       return;
     }
 
-    const { decision, decisionText, score, maxBid, profit } = currentData;
+    const { decision, decisionText, score, maxBid, minimumBid, canBid, profit, currentBid, bidCount, endsAt, status } = currentData;
     const profitClass = profit >= 0 ? 'positive' : 'negative';
+    const timeLeft = status === 'ended' ? 'Ended' : endsAt ? formatTimeLeft(endsAt) : null;
 
     if (isExpanded) {
       content.className = 'margin-content';
@@ -244,8 +268,22 @@
         <div class="margin-details">
           <div class="margin-stat">
             <span class="margin-stat-label">Max Bid</span>
-            <span class="margin-stat-value">$${maxBid.toFixed(0)}</span>
+            <span class="margin-stat-value">$${maxBid.toFixed(2)}</span>
           </div>
+          ${minimumBid !== undefined ? `
+          <div class="margin-stat">
+            <span class="margin-stat-label">Next Bid</span>
+            <span class="margin-stat-value ${canBid ? '' : 'negative'}">$${minimumBid.toFixed(2)}${canBid ? '' : ' (over max)'}</span>
+          </div>` : ''}
+          <div class="margin-stat">
+            <span class="margin-stat-label">Current Bid</span>
+            <span class="margin-stat-value">$${currentBid.toFixed(2)}${bidCount ? ` (${bidCount})` : ''}</span>
+          </div>
+          ${timeLeft ? `
+          <div class="margin-stat">
+            <span class="margin-stat-label">Time Left</span>
+            <span class="margin-stat-value margin-time-left">${timeLeft}</span>
+          </div>` : ''}
           <div class="margin-stat">
             <span class="margin-stat-label">Est. Profit</span>
             <span class="margin-stat-value ${profitClass}">${profit >= 0 ? '+' : '-'}$${Math.abs(profit).toFixed(0)}</span>
@@ -265,10 +303,12 @@
         <div class="margin-decision ${decision}">${decisionText}</div>
       `;
     }
+    startCountdown();
   }
 
   // Show error
   function showError(message) {
+    clearInterval(countdownInterval);
     const content = overlayContainer.querySelector('.margin-content');
     content.innerHTML = `<div class="margin-error">${message}</div>`;
   }
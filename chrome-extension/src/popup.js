@@ -6,6 +6,9 @@ document.addEventListener('DOMContentLoaded', async () => {
   const loggedOutEl = document.getElementById('logged-out');
   const loggedInEl = document.getElementById('logged-in');
   const loginBtn = document.getElementById('login-btn');
+  const connectBtn = document.getElementById('connect-btn');
+  const tokenInput = document.getElementById('token-input');
+  const tokenErrorEl = document.getElementById('token-error');
   const logoutBtn = document.getElementById('logout-btn');
   const userNameEl = document.getElementById('user-name');
   const userAvatarEl = document.getElementById('user-avatar');
@@ -20,11 +23,29 @@ document.addEventListener('DOMContentLoaded', async () => {
     showLoggedOut();
   }
 
-  // Login button
+  // Connect with a token from Margin Settings
+  connectBtn.addEventListener('click', async () => {
+    const token = tokenInput.value.trim();
+    if (!token) return;
+
+    connectBtn.disabled = true;
+    tokenErrorEl.style.display = 'none';
+    const result = await chrome.runtime.sendMessage({ type: 'SET_AUTH', token });
+    connectBtn.disabled = false;
+
+    if (result && result.user) {
+      tokenInput.value = '';
+      showLoggedIn(result.user);
+    } else {
+      tokenErrorEl.textContent = (result && result.error) || 'Could not connect';
+      tokenErrorEl.style.display = 'block';
+    }
+  });
+
+  // Open Margin Settings to create a token
   loginBtn.addEventListener('click', () => {
-    // Open main app for authentication
     chrome.tabs.create({
-      url: 'https://your-replit-app.repl.co/login?extension=true'
+      url: 'https://workspace-tsimpson923.replit.app/settings'
     });
     window.close();
   });
@@ -41,7 +62,7 @@ document.addEventListener('DOMContentLoaded', async () => {
     
     userNameEl.textContent = user.username || 'User';
     userAvatarEl.textContent = (user.username || 'U')[0].toUpperCase();
-    userTierEl.textContent = user.tier === 'pro' ? 'Pro' : 'Free';
+    userTierEl.textContent = user.tier === 'elite' ? 'Elite' : user.tier === 'pro' ? 'Pro' : 'Free';
   }
 
   function showLoggedOut() {
@@ -44,6 +44,7 @@ const ARProfitOverlay = lazy(() => import("@/pages/ARProfitOverlay"));
 const ProfitDashboard = lazy(() => import("@/pages/ProfitDashboard"));
 const OpenMarketSearch = lazy(() => import("@/pages/OpenMarketSearch"));
 const ExportPage = lazy(() => import("@/pages/ExportPage"));
+const SnipePlannerPage = lazy(() => import("@/pages/SnipePlannerPage"));
 const ExpensesPage = lazy(() => import("@/pages/ExpensesPage"));
 const AppStoreChecklist = lazy(() => import("@/pages/AppStoreChecklist"));
 const CardGradingPage = lazy(() => import("@/pages/CardGradingPage"));
@@ -128,6 +129,10 @@ function Router() {
         <ProtectedRoute component={ExportPage} />
       </Route>
 
+      <Route path="/snipe">
+        <ProtectedRoute component={SnipePlannerPage} />
+      </Route>
+
       <Route path="/partner">
         <ProtectedRoute component={PartnerPage} />
       </Route>
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAgingQueue, useApplyAgingRecommendation, useDismissAgingRecommendation, useRunAgingCheck } from "@/hooks/use-items";
+import { AGING_ACTION_LABELS, type AgingAction } from "@shared/agingInventory";
+import { FEE_SCHEDULES, normalizeFeePlatform } from "@shared/feeSchedule";
+import { Loader2, Hourglass, TrendingDown, Share2, Boxes, RefreshCw, X, Check } from "lucide-react";
+
+const ACTION_STYLES: Record<AgingAction, { icon: typeof TrendingDown; className: string }> = {
+  markdown: { icon: TrendingDown, className: 'bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/30' },
+  crosslist: { icon: Share2, className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/30' },
+  bundle: { icon: Boxes, className: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/30' },
+};
+
+function formatMoney(value: string | null | undefined): string {
+  return value ? `$${parseFloat(value).toFixed(2)}` : '—';
+}
+
+/**
+ * Listed items that have sat past their typical time-to-sell, with what to
+ * do about each (from the daily aging job, or "Check now").
+ */
+export function AgingQueue({ search }: { search: string }) {
+  const { data: queue, isLoading } = useAgingQueue();
+  const runCheck = useRunAgingCheck();
+  const applyRecommendation = useApplyAgingRecommendation();
+  const dismissRecommendation = useDismissAgingRecommendation();
+  const [priceOverrides, setPriceOverrides] = useState<Record<number, string>>({});
+
+  const visible = (queue ?? []).filter(r => r.item.title.toLowerCase().includes(search.toLowerCase()));
+
+  const handleApply = (id: number) => {
+    const override = priceOverrides[id];
+    const price = override ? parseFloat(override) : undefined;
+    applyRecommendation.mutate({ id, price: price !== undefined && !isNaN(price) ? price : undefined });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="aging-queue">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Listed longer than your typical sale for the category.
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => runCheck.mutate()}
+          disabled={runCheck.isPending}
+          data-testid="button-aging-run"
+        >
+          {runCheck.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+          Check now
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-12 px-6" data-testid="aging-empty">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-muted border-2 border-dashed border-border mb-4">
+            <Hourglass className="w-8 h-8 text-muted-foreground/50" />
+          </div>
+          <h3 className="text-lg font-bold mb-2 text-foreground">Nothing going stale</h3>
+          <p className="text-muted-foreground text-sm max-w-xs mx-auto">
+            Listings that sit too long show up here with a price drop, cross-list or bundle suggestion.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {visible.map(rec => {
+            const action = rec.action as AgingAction;
+            const style = ACTION_STYLES[action] ?? ACTION_STYLES.markdown;
+            const Icon = style.icon;
+            const pending = (applyRecommendation.isPending && applyRecommendation.variables?.id === rec.id)
+              || (dismissRecommendation.isPending && dismissRecommendation.variables === rec.id);
+            const currentPlatform = FEE_SCHEDULES[normalizeFeePlatform(rec.item.salePlatform)].label;
+            const targetPlatform = rec.targetPlatform ? FEE_SCHEDULES[normalizeFeePlatform(rec.targetPlatform)].label : null;
+
+            return (
+              <Card key={rec.id} className="p-4" data-testid={`card-aging-${rec.id}`}>
+                <div className="flex justify-between items-start mb-3 gap-2">
+                  <Badge className={`text-xs ${style.className}`} data-testid={`badge-aging-action-${rec.id}`}>
+                    <Icon className="w-3 h-3" />
+                    <span className="ml-1">{AGING_ACTION_LABELS[action] ?? rec.action}</span>
+                  </Badge>
+                  <span className="text-xs text-muted-foreground flex-shrink-0" data-testid={`text-aging-days-${rec.id}`}>
+                    {rec.daysListed}d listed · usually {rec.typicalDaysToSell}d
+                  </span>
+                </div>
+
+                <h3 className="font-semibold text-foreground line-clamp-2 mb-2" data-testid={`text-aging-title-${rec.id}`}>
+                  {rec.item.title}
+                </h3>
+                <p className="text-sm text-muted-foreground mb-3" data-testid={`text-aging-reason-${rec.id}`}>
+                  {rec.reason}
+                </p>
+
+                <div className="space-y-1 text-sm mb-3">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Asking ({currentPlatform})</span>
+                    <span className="font-mono">{formatMoney(rec.askingPrice)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Comp median{rec.compCount > 0 ? ` (${rec.compCount})` : ''}</span>
+                    <span className="font-mono">{formatMoney(rec.compMedian)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Break-even</span>
+                    <span className="font-mono">{formatMoney(rec.breakEvenPrice)}</span>
+                  </div>
+                  {action === 'markdown' && (
+                    <div className="flex justify-between font-semibold">
+                      <span>Suggested price</span>
+                      <span className="font-mono text-amber-600 dark:text-amber-400">{formatMoney(rec.suggestedPrice)}</span>
+                    </div>
+                  )}
+                  {action === 'crosslist' && targetPlatform && (
+                    <div className="flex justify-between font-semibold">
+                      <span>Also list on</span>
+                      <span>{targetPlatform}</span>
+                    </div>
+                  )}
+                  {action === 'bundle' && rec.suggestedPrice && (
+                    <div className="flex justify-between font-semibold">
+                      <span>Quick-sale price</span>
+                      <span className="font-mono">{formatMoney(rec.suggestedPrice)}</span>
+                    </div>
+                  )}
+                </div>
+
+                {action === 'markdown' && (
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    min="0"
+                    placeholder={rec.suggestedPrice ? `New price (${formatMoney(rec.suggestedPrice)})` : 'New price'}
+                    value={priceOverrides[rec.id] ?? ''}
+                    onChange={(e) => setPriceOverrides(prev => ({ ...prev, [rec.id]: e.target.value }))}
+                    className="h-9 mb-3"
+                    data-testid={`input-aging-price-${rec.id}`}
+                  />
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleApply(rec.id)}
+                    disabled={pending}
+                    data-testid={`button-aging-apply-${rec.id}`}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    {action === 'markdown' ? 'Drop price' : 'Done'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => dismissRecommendation.mutate(rec.id)}
+                    disabled={pending}
+                    data-testid={`button-aging-dismiss-${rec.id}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { useAnalyticsSeries } from "@/hooks/use-items";
+import {
+  analyticsMetrics, analyticsSlices, ANALYTICS_METRIC_LABELS, ANALYTICS_SLICE_LABELS, formatMetricValue, getMetricValue,
+  type AnalyticsInterval, type AnalyticsMetric, type AnalyticsSlice,
+} from "@shared/analytics";
+import { format, parseISO } from "date-fns";
+import { Loader2, LineChart as LineChartIcon } from "lucide-react";
+
+const SLICE_COLORS = ['#22c55e', '#3b82f6', '#f59e0b', '#a855f7', '#ef4444', '#14b8a6', '#ec4899', '#84cc16', '#94a3b8'];
+
+const PERIOD_COUNTS: Record<AnalyticsInterval, number> = { week: 12, month: 12 };
+
+function formatPeriod(period: string, interval: AnalyticsInterval): string {
+  return format(parseISO(period), interval === 'month' ? 'MMM yy' : 'MMM d');
+}
+
+/**
+ * Profit/revenue/sell-through/days-to-sell/ROI over time, optionally split by
+ * category, brand, source, platform or purchase-month cohort.
+ */
+export function AnalyticsTrendCard() {
+  const [interval, setIntervalType] = useState<AnalyticsInterval>('week');
+  const [metric, setMetric] = useState<AnalyticsMetric>('profit');
+  const [slice, setSlice] = useState<AnalyticsSlice>('none');
+
+  const { data, isLoading } = useAnalyticsSeries({ interval, slice, periods: PERIOD_COUNTS[interval] });
+
+  const series = data?.series ?? [];
+  const chartConfig: ChartConfig = Object.fromEntries(series.map((line, i) => [
+    `s${i}`,
+    { label: slice === 'none' ? ANALYTICS_METRIC_LABELS[metric] : line.key, color: SLICE_COLORS[i % SLICE_COLORS.length] },
+  ]));
+  const chartData = (data?.periods ?? []).map((period, p) => {
+    const row: Record<string, string | number | null> = { period: formatPeriod(period, interval) };
+    series.forEach((line, i) => {
+      const value = getMetricValue(line.points[p], metric);
+      row[`s${i}`] = value !== null && (metric === 'sellThrough' || metric === 'roi') ? Math.round(value * 1000) / 10 : value;
+    });
+    return row;
+  });
+  const percentMetric = metric === 'sellThrough' || metric === 'roi';
+  const tickFormatter = (value: number) => percentMetric ? `${value}%` : metric === 'avgDaysToSell' ? `${value}d` : `$${value}`;
+
+  return (
+    <Card data-testid="card-analytics-trend">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <LineChartIcon className="h-4 w-4 text-primary" />
+          Trends
+        </CardTitle>
+        <Tabs value={interval} onValueChange={(v) => setIntervalType(v as AnalyticsInterval)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="week" className="flex-1" data-testid="tab-analytics-week">Weekly</TabsTrigger>
+            <TabsTrigger value="month" className="flex-1" data-testid="tab-analytics-month">Monthly</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="grid grid-cols-2 gap-2 pt-1">
+          <Select value={metric} onValueChange={(v) => setMetric(v as AnalyticsMetric)}>
+            <SelectTrigger className="h-9" data-testid="select-analytics-metric">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {analyticsMetrics.map(m => (
+                <SelectItem key={m} value={m}>{ANALYTICS_METRIC_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={slice} onValueChange={(v) => setSlice(v as AnalyticsSlice)}>
+            <SelectTrigger className="h-9" data-testid="select-analytics-slice">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {analyticsSlices.map(s => (
+                <SelectItem key={s} value={s}>{s === 'none' ? ANALYTICS_SLICE_LABELS[s] : `By ${ANALYTICS_SLICE_LABELS[s].toLowerCase()}`}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-2">
+        {isLoading || !data ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+              {slice === 'none' ? (
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} fontSize={10} />
+                  <YAxis tickLine={false} axisLine={false} fontSize={10} width={40} tickFormatter={tickFormatter} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="s0" fill="var(--color-s0)" radius={[3, 3, 0, 0]} />
+                </BarChart>
+              ) : (
+                <LineChart data={chartData}>
+                  <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} fontSize={10} />
+                  <YAxis tickLine={false} axisLine={false} fontSize={10} width={40} tickFormatter={tickFormatter} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  {series.map((_, i) => (
+                    <Line key={i} dataKey={`s${i}`} stroke={`var(--color-s${i})`} strokeWidth={2} dot={false} connectNulls />
+                  ))}
+                </LineChart>
+              )}
+            </ChartContainer>
+
+            <div className="mt-3 space-y-1" data-testid="list-analytics-slices">
+              {series.map((line, i) => (
+                <div key={line.key} className="flex items-center justify-between text-sm py-1 border-b last:border-0">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: SLICE_COLORS[i % SLICE_COLORS.length] }} />
+                    <span className="truncate">{slice === 'none' ? `Last ${data.periods.length} ${interval}s` : line.key}</span>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground flex-shrink-0">
+                    <span>{line.total.itemsSold} sold</span>
+                    <span className="font-semibold text-foreground">{formatMetricValue(getMetricValue(line.total, metric), metric)}</span>
+                  </div>
+                </div>
+              ))}
+              {slice === 'none' && data.total.expenses !== null && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
+                  <span>After ${Math.round(data.total.expenses).toLocaleString()} expenses</span>
+                  <span className="font-semibold text-foreground">{formatMetricValue(data.total.netProfit, 'profit')} net</span>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { useCashFlowForecast } from "@/hooks/use-items";
+import { format, parseISO } from "date-fns";
+import { Loader2, Wallet, CalendarCheck } from "lucide-react";
+
+const chartConfig: ChartConfig = {
+  expected: { label: "Expected", color: "#22c55e" },
+  band: { label: "80% range", color: "#22c55e" },
+};
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+/**
+ * Next 90 days of expected sale proceeds (with a confidence band), what's
+ * tied up in stock, and when this month's buys pay for themselves.
+ */
+export function CashFlowForecastCard() {
+  const { data: forecast, isLoading } = useCashFlowForecast();
+  const [capitalView, setCapitalView] = useState<'category' | 'source'>('category');
+
+  if (isLoading || !forecast) {
+    return (
+      <Card className="p-4 flex justify-center" data-testid="card-cash-flow">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </Card>
+    );
+  }
+
+  if (forecast.capital.itemCount === 0 && forecast.breakEven.spend === 0) return null;
+
+  const chartData = forecast.weeks.map(week => ({
+    week: format(parseISO(week.weekStart), 'MMM d'),
+    expected: week.expected,
+    band: [week.low, week.high],
+  }));
+  const { breakEven, capital, assumptions } = forecast;
+  const slices = capitalView === 'category' ? capital.byCategory : capital.bySource;
+  const recoveredPct = breakEven.spend > 0 ? Math.min(100, Math.round((breakEven.recovered / breakEven.spend) * 100)) : 0;
+
+  return (
+    <Card className="p-4" data-testid="card-cash-flow">
+      <div className="flex items-center gap-2 mb-3">
+        <Wallet className="w-5 h-5 text-green-500" />
+        <h2 className="font-bold">Cash-Flow Forecast</h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-center mb-3">
+        <div>
+          <p className="text-xl font-bold text-green-500" data-testid="text-forecast-expected">
+            {formatDollars(forecast.total.expected)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            next 90 days ({formatDollars(forecast.total.low)}–{formatDollars(forecast.total.high)})
+          </p>
+        </div>
+        <div>
+          <p className="text-xl font-bold" data-testid="text-capital-tied-up">{formatDollars(capital.cost)}</p>
+          <p className="text-xs text-muted-foreground">tied up in {capital.itemCount} items</p>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+        <ComposedChart data={chartData}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" />
+          <XAxis dataKey="week" tickLine={false} axisLine={false} fontSize={10} interval={2} />
+          <YAxis tickLine={false} axisLine={false} fontSize={10} width={40} tickFormatter={(value: number) => `$${value}`} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Area dataKey="band" stroke="none" fill="var(--color-band)" fillOpacity={0.15} />
+          <Line dataKey="expected" stroke="var(--color-expected)" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ChartContainer>
+
+      {breakEven.spend > 0 && (
+        <div className="mt-4 space-y-1" data-testid="forecast-break-even">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-1 font-medium">
+              <CalendarCheck className="w-4 h-4 text-primary" />
+              This month's buys
+            </span>
+            <span className="font-semibold" data-testid="text-break-even-date">
+              {breakEven.breakEvenDate
+                ? breakEven.recovered >= breakEven.spend
+                  ? 'Paid back'
+                  : `Break even ~${format(parseISO(breakEven.breakEvenDate), 'MMM d')}`
+                : 'Not within a year'}
+            </span>
+          </div>
+          <Progress value={recoveredPct} className="h-1.5" />
+          <p className="text-xs text-muted-foreground">
+            {formatDollars(breakEven.recovered)} of {formatDollars(breakEven.spend)} back so far
+            · {formatDollars(breakEven.expectedRecovery)} expected within a year
+          </p>
+        </div>
+      )}
+
+      {slices.length > 0 && (
+        <div className="mt-4">
+          <Tabs value={capitalView} onValueChange={(v) => setCapitalView(v as 'category' | 'source')}>
+            <TabsList className="w-full">
+              <TabsTrigger value="category" className="flex-1" data-testid="tab-capital-category">By category</TabsTrigger>
+              <TabsTrigger value="source" className="flex-1" data-testid="tab-capital-source">By source</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="mt-2 space-y-1" data-testid="list-capital-slices">
+            {slices.map(slice => (
+              <div key={slice.key} className="flex items-center justify-between text-sm py-1 border-b last:border-0">
+                <span className="truncate">{slice.key}</span>
+                <div className="flex items-center gap-3 text-xs text-muted-foreground flex-shrink-0">
+                  <span>{slice.itemCount} items</span>
+                  {slice.estimatedValue > 0 && <span>~{formatDollars(slice.estimatedValue)} est.</span>}
+                  <span className="font-semibold text-foreground">{formatDollars(slice.cost)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[11px] text-muted-foreground mt-3">
+        Assumes {Math.round(assumptions.weeklySellThrough * 100)}% of stock sells each week
+        {assumptions.sellThroughBasis === 'default' ? ' (default until you have more sales)' : ''}
+        {assumptions.realizationBasis === 'history' ? ` at ${Math.round(assumptions.realizationRate * 100)}% of estimated resale` : ''}.
+        {assumptions.unpricedCount > 0 && ` ${assumptions.unpricedCount} items without a resale estimate aren't counted.`}
+      </p>
+    </Card>
+  );
+}
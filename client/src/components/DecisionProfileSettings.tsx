@@ -0,0 +1,252 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { api, salePlatforms } from "@shared/routes";
+import type { DecisionProfile } from "@shared/decisionEngine";
+import type { ReplayResult } from "@shared/decisionReplay";
+import { History, Loader2, Scale } from "lucide-react";
+
+const PLATFORM_LABELS: Record<string, string> = {
+  ebay: 'eBay',
+  mercari: 'Mercari',
+  poshmark: 'Poshmark',
+  facebook: 'Facebook',
+  offerup: 'OfferUp',
+  whatnot: 'Whatnot',
+  stockx: 'StockX',
+  other: 'Other',
+};
+
+/**
+ * Editor for the user's decision profile (margin threshold, min profit,
+ * fixed costs, outbound shipping and fee rate per platform).
+ * Every save creates a new profile version on the server.
+ */
+export function DecisionProfileSettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DecisionProfile | null>(null);
+  const [replay, setReplay] = useState<ReplayResult | null>(null);
+
+  const { data: profile } = useQuery<DecisionProfile>({
+    queryKey: [api.decisionProfile.get.path],
+  });
+
+  useEffect(() => {
+    if (profile) setDraft(profile);
+  }, [profile]);
+
+  // Any edit invalidates the last replay preview
+  useEffect(() => {
+    setReplay(null);
+  }, [draft]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: DecisionProfile) => {
+      const { version, ...body } = next;
+      const res = await apiRequest('PUT', api.decisionProfile.update.path, body);
+      return res.json() as Promise<DecisionProfile>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: `Decision profile saved (v${saved.version})` });
+      queryClient.invalidateQueries({ queryKey: [api.decisionProfile.get.path] });
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to save decision profile", variant: "destructive" });
+    }
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (next: DecisionProfile) => {
+      const { version, ...body } = next;
+      const res = await apiRequest('POST', api.decisionProfile.replay.path, body);
+      return res.json() as Promise<ReplayResult>;
+    },
+    onSuccess: (result) => setReplay(result),
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to replay scan history", variant: "destructive" });
+    }
+  });
+
+  if (!draft) return null;
+
+  const setNumber = (field: 'minNetProfit' | 'fixedCosts' | 'defaultOutboundShipping', value: string) => {
+    const parsed = parseFloat(value);
+    setDraft({ ...draft, [field]: isNaN(parsed) ? 0 : parsed });
+  };
+
+  const setFeeRate = (platform: string, value: string) => {
+    const parsed = parseFloat(value);
+    setDraft({
+      ...draft,
+      platformFeeRates: { ...draft.platformFeeRates, [platform]: isNaN(parsed) ? 0 : parsed / 100 },
+    });
+  };
+
+  const marginPercent = Math.round(draft.marginThreshold * 100);
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Scale className="w-4 h-4 text-green-500" />
+          <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Decision Profile</h3>
+        </div>
+        <Badge variant="outline" className="text-[10px]" data-testid="badge-decision-profile-version">
+          {draft.version === 0 ? 'Default' : `v${draft.version}`}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Your fees and costs for Flip/Skip verdicts. Saving creates a new version so past scans stay explainable.
+      </p>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <Label className="text-sm">Minimum margin</Label>
+            <span className="text-sm font-bold text-green-600">{marginPercent}%</span>
+          </div>
+          <Slider
+            value={[marginPercent]}
+            onValueChange={(values) => setDraft({ ...draft, marginThreshold: values[0] / 100 })}
+            min={5}
+            max={60}
+            step={1}
+            data-testid="slider-decision-margin"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Min profit $</Label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={draft.minNetProfit}
+              onChange={(e) => setNumber('minNetProfit', e.target.value)}
+              data-testid="input-decision-min-profit"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Fixed costs $</Label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={draft.fixedCosts}
+              onChange={(e) => setNumber('fixedCosts', e.target.value)}
+              data-testid="input-decision-fixed-costs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Ship out $</Label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              value={draft.defaultOutboundShipping}
+              onChange={(e) => setNumber('defaultOutboundShipping', e.target.value)}
+              data-testid="input-decision-outbound-shipping"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Default sale platform</Label>
+          <Select
+            value={draft.defaultPlatform}
+            onValueChange={(value) => setDraft({ ...draft, defaultPlatform: value })}
+          >
+            <SelectTrigger data-testid="select-decision-platform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {salePlatforms.map((platform) => (
+                <SelectItem key={platform} value={platform}>{PLATFORM_LABELS[platform]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Fee rate by platform (%)</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {salePlatforms.map((platform) => (
+              <div key={platform} className="flex items-center gap-2">
+                <span className="text-xs w-16 text-muted-foreground">{PLATFORM_LABELS[platform]}</span>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  className="h-8"
+                  value={Math.round((draft.platformFeeRates[platform] ?? 0) * 1000) / 10}
+                  onChange={(e) => setFeeRate(platform, e.target.value)}
+                  data-testid={`input-fee-rate-${platform}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {replay && (
+        <div className="mt-4 rounded-md border p-3 space-y-1 text-xs" data-testid="panel-decision-replay">
+          <p className="font-medium">
+            Replayed {replay.replayedItems} of {replay.totalItems} past scans
+          </p>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Flips → Skips</span>
+            <span data-testid="text-replay-flips-to-skips">{replay.flipsToSkips.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Skips → Flips</span>
+            <span data-testid="text-replay-skips-to-flips">{replay.skipsToFlips.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Projected profit change</span>
+            <span
+              className={replay.projectedProfitChange >= 0 ? 'text-green-600 font-medium' : 'text-red-500 font-medium'}
+              data-testid="text-replay-profit-change"
+            >
+              {replay.projectedProfitChange >= 0 ? '+' : '-'}${Math.abs(replay.projectedProfitChange).toFixed(2)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Sold money-makers rejected</span>
+            <span
+              className={replay.soldMoneyMakersRejected > 0 ? 'text-red-500 font-medium' : ''}
+              data-testid="text-replay-money-makers-rejected"
+            >
+              {replay.soldMoneyMakersRejected} of {replay.soldMoneyMakers}
+            </span>
+          </div>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full mt-4"
+        onClick={() => replayMutation.mutate(draft)}
+        disabled={replayMutation.isPending}
+        data-testid="button-replay-decision-profile"
+      >
+        {replayMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <History className="w-4 h-4 mr-2" />}
+        Test Against My Scans
+      </Button>
+
+      <Button
+        className="w-full mt-2"
+        onClick={() => saveMutation.mutate(draft)}
+        disabled={saveMutation.isPending}
+        data-testid="button-save-decision-profile"
+      >
+        {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+        Save Decision Profile
+      </Button>
+    </Card>
+  );
+}
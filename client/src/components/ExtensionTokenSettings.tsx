@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { api } from "@shared/routes";
+import { Copy, KeyRound, Loader2, Puzzle } from "lucide-react";
+
+interface ExtensionTokenStatus {
+  hasToken: boolean;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Connect the Chrome extension (auction overlay). The token is shown once
+ * when created - creating another disconnects the old one.
+ */
+export function ExtensionTokenSettings() {
+  const { toast } = useToast();
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: status } = useQuery<ExtensionTokenStatus>({
+    queryKey: [api.extension.token.path],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', api.extension.createToken.path);
+      return res.json() as Promise<{ token: string; createdAt: string }>;
+    },
+    onSuccess: (result) => {
+      setNewToken(result.token);
+      queryClient.invalidateQueries({ queryKey: [api.extension.token.path] });
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to create extension token", variant: "destructive" });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', api.extension.revokeToken.path);
+    },
+    onSuccess: () => {
+      setNewToken(null);
+      toast({ title: "Extension disconnected" });
+      queryClient.invalidateQueries({ queryKey: [api.extension.token.path] });
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to disconnect extension", variant: "destructive" });
+    }
+  });
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({ title: "Token copied - paste it into the Margin extension" });
+  };
+
+  const isBusy = createMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <Card className="p-4">
+      <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-3">Chrome Extension</h3>
+      <div className="space-y-3">
+        <div className="flex items-start gap-3">
+          <Puzzle className="w-5 h-5 mt-0.5" />
+          <div>
+            <span className="font-medium">Auction Overlay</span>
+            <p className="text-xs text-muted-foreground">
+              Live max bid and Flip/Skip on eBay auctions. Uses one scan per listing.
+            </p>
+            {status?.hasToken && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-extension-token-status">
+                Connected {status.createdAt ? new Date(status.createdAt).toLocaleDateString() : ''}
+                {status.lastUsedAt ? ` · last used ${new Date(status.lastUsedAt).toLocaleDateString()}` : ' · not used yet'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {newToken && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input value={newToken} readOnly className="font-mono text-xs" data-testid="input-extension-token" />
+              <Button variant="outline" size="icon" onClick={copyToken} data-testid="button-copy-extension-token">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Paste this into the extension popup. It won't be shown again.
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => createMutation.mutate()}
+            disabled={isBusy}
+            data-testid="button-create-extension-token"
+          >
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+            {status?.hasToken ? "New Token" : "Connect Extension"}
+          </Button>
+          {status?.hasToken && (
+            <Button
+              variant="outline"
+              onClick={() => revokeMutation.mutate()}
+              disabled={isBusy}
+              data-testid="button-revoke-extension-token"
+            >
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useImportInventory } from "@/hooks/use-items";
+import {
+  importFields, importFormats, IMPORT_FIELD_LABELS, IMPORT_FORMAT_LABELS, MAX_IMPORT_CSV_LENGTH,
+  type ImportColumnMapping, type ImportField, type ImportFormat, type ImportPreview, type ImportRowStatus,
+} from "@shared/inventoryImport";
+import { AlertCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/30',
+  duplicate: 'bg-muted text-muted-foreground',
+  skipped: 'bg-muted text-muted-foreground',
+  invalid: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/30',
+};
+
+const PREVIEW_ROW_LIMIT = 50;
+
+// Fields worth mapping by hand on a generic spreadsheet
+const MAPPABLE_FIELDS: ImportField[] = importFields.filter(field => field !== 'netProceeds' && field !== 'quantity');
+
+interface InventoryImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Import sold/listed items from an eBay, Mercari or Poshmark export (or any
+ * spreadsheet with mapped columns). Always previews first; only rows marked
+ * "new" are saved.
+ */
+export function InventoryImportDialog({ open, onOpenChange }: InventoryImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInventory = useImportInventory();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto');
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setCsv(null);
+    setFormat('auto');
+    setMapping({});
+    setPreview(null);
+    setFileError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) reset();
+  };
+
+  const runPreview = async (text: string, nextFormat: ImportFormat | 'auto', nextMapping: ImportColumnMapping) => {
+    const result = await importInventory.mutateAsync({ csv: text, format: nextFormat, mapping: nextMapping, dryRun: true });
+    setPreview(result.preview);
+  };
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    if (file.size > MAX_IMPORT_CSV_LENGTH) {
+      setFileError('That file is too large - split it into smaller exports.');
+      return;
+    }
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setMapping({});
+    await runPreview(text, format, {});
+  };
+
+  const handleFormatChange = (value: string) => {
+    const nextFormat = value as ImportFormat | 'auto';
+    setFormat(nextFormat);
+    if (csv) runPreview(csv, nextFormat, mapping);
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    const nextMapping = { ...mapping, [field]: header === 'none' ? '' : header };
+    setMapping(nextMapping);
+    if (csv) runPreview(csv, format, nextMapping);
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+    await importInventory.mutateAsync({ csv, format, mapping, dryRun: false });
+    handleOpenChange(false);
+  };
+
+  const isPreviewing = importInventory.isPending && importInventory.variables?.dryRun !== false;
+  const isImporting = importInventory.isPending && importInventory.variables?.dryRun === false;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Inventory</DialogTitle>
+          <DialogDescription>
+            Bring in past sales and listings from a marketplace export or your own spreadsheet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleFile(file);
+          }}
+          data-testid="input-import-file"
+        />
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1 justify-start"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importInventory.isPending}
+              data-testid="button-pick-import-file"
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              <span className="truncate">{fileName ?? 'Choose CSV file'}</span>
+            </Button>
+            <Select value={format} onValueChange={handleFormatChange}>
+              <SelectTrigger className="w-44" data-testid="select-import-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect format</SelectItem>
+                {importFormats.map(f => (
+                  <SelectItem key={f} value={f}>{IMPORT_FORMAT_LABELS[f]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {fileError && (
+            <p className="text-sm text-red-500 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {fileError}
+            </p>
+          )}
+
+          {isPreviewing && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {preview && !isPreviewing && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-xs" data-testid="import-summary">
+                <Badge variant="outline">{IMPORT_FORMAT_LABELS[preview.format]}</Badge>
+                <Badge className={STATUS_STYLES.new}>{preview.summary.new} new</Badge>
+                {preview.summary.duplicate > 0 && <Badge className={STATUS_STYLES.duplicate}>{preview.summary.duplicate} duplicates</Badge>}
+                {preview.summary.skipped > 0 && <Badge className={STATUS_STYLES.skipped}>{preview.summary.skipped} skipped</Badge>}
+                {preview.summary.invalid > 0 && <Badge className={STATUS_STYLES.invalid}>{preview.summary.invalid} can't read</Badge>}
+              </div>
+
+              {preview.warnings.map(warning => (
+                <p key={warning} className="text-xs text-amber-600 dark:text-amber-400 flex items-start gap-1">
+                  <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </p>
+              ))}
+
+              {preview.format === 'generic' && (
+                <div className="grid grid-cols-2 gap-2" data-testid="import-mapping">
+                  {MAPPABLE_FIELDS.map(field => (
+                    <div key={field}>
+                      <Label className="text-xs">{IMPORT_FIELD_LABELS[field]}</Label>
+                      <Select
+                        value={mapping[field] || preview.mapping[field] || 'none'}
+                        onValueChange={(v) => handleMappingChange(field, v)}
+                      >
+                        <SelectTrigger className="h-8" data-testid={`select-import-map-${field}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Not in file</SelectItem>
+                          {preview.headers.filter(Boolean).map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="border rounded-md divide-y text-sm" data-testid="import-preview-rows">
+                {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map((row, i) => (
+                  <div key={`${row.rowNumber}-${i}`} className="flex items-center justify-between gap-2 px-2 py-1.5">
+                    <div className="min-w-0">
+                      <p className="truncate">{row.item?.title ?? `Row ${row.rowNumber}`}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {row.item
+                          ? [
+                              row.item.status,
+                              row.item.salePrice !== null ? `$${row.item.salePrice.toFixed(2)}` : row.item.listPrice !== null ? `$${row.item.listPrice.toFixed(2)}` : null,
+                              row.item.soldDate ?? row.item.listedDate,
+                            ].filter(Boolean).join(' · ')
+                          : row.reason}
+                      </p>
+                    </div>
+                    <Badge className={`text-[10px] flex-shrink-0 ${STATUS_STYLES[row.status]}`} title={row.reason ?? undefined}>
+                      {row.status}
+                    </Badge>
+                  </div>
+                ))}
+                {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                  <p className="text-xs text-muted-foreground text-center py-2">
+                    and {preview.rows.length - PREVIEW_ROW_LIMIT} more rows
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || preview.summary.new === 0 || importInventory.isPending}
+            data-testid="button-confirm-import"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Import {preview?.summary.new ?? 0} items
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,556 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  useLots, useCreateLot, useUpdateLot, useDeleteLot, useAddLotItems, useRemoveLotItem, useSetLotWeights, useSourcingLocations,
+} from "@/hooks/use-items";
+import { lotAllocationMethods, LOT_ALLOCATION_LABELS, allocateLotCost, type LotAllocationMethod } from "@shared/lots";
+import { isDisposedStatus, isSoldStatus } from "@shared/inventoryLifecycle";
+import type { InventoryItem } from "@shared/schema";
+import { format } from "date-fns";
+import { ArrowLeft, Boxes, Loader2, Plus, Trash2, X } from "lucide-react";
+
+interface DraftLotItem {
+  title: string;
+  estimatedResale: string;
+  allocationWeight: string;
+}
+
+const emptyDraftItem = (): DraftLotItem => ({ title: '', estimatedResale: '', allocationWeight: '1' });
+
+interface LotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  inventory: InventoryItem[];
+  initialLotId?: number | null;
+}
+
+type LotsView = { kind: 'list' } | { kind: 'new' } | { kind: 'lot'; id: number };
+
+/**
+ * Box lots and bulk buys: one purchase spread across many inventory items.
+ * Cost + tax is re-allocated by the server whenever items or the method change.
+ */
+export function LotsDialog({ open, onOpenChange, inventory, initialLotId }: LotsDialogProps) {
+  const [view, setView] = useState<LotsView>({ kind: 'list' });
+
+  useEffect(() => {
+    if (open) {
+      setView(initialLotId ? { kind: 'lot', id: initialLotId } : { kind: 'list' });
+    }
+  }, [open, initialLotId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        {view.kind === 'list' && (
+          <LotList onNew={() => setView({ kind: 'new' })} onOpenLot={(id) => setView({ kind: 'lot', id })} />
+        )}
+        {view.kind === 'new' && (
+          <NewLotForm onBack={() => setView({ kind: 'list' })} onCreated={(id) => setView({ kind: 'lot', id })} />
+        )}
+        {view.kind === 'lot' && (
+          <LotDetail id={view.id} inventory={inventory} onBack={() => setView({ kind: 'list' })} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LotList({ onNew, onOpenLot }: { onNew: () => void; onOpenLot: (id: number) => void }) {
+  const { data: lots, isLoading } = useLots();
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Lots</DialogTitle>
+        <DialogDescription>
+          Box lots and bulk buys, with the cost split across the items you pulled from them.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2 py-2">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : lots && lots.length > 0 ? (
+          lots.map(lot => (
+            <button
+              key={lot.id}
+              className="w-full text-left rounded-lg border border-border/50 p-3 hover-elevate"
+              onClick={() => onOpenLot(lot.id)}
+              data-testid={`button-open-lot-${lot.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{lot.name}</span>
+                <span className="font-mono text-sm">${lot.roi.totalCost.toFixed(2)}</span>
+              </div>
+              <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                <span>
+                  {format(new Date(lot.purchaseDate), 'MMM d, yyyy')}
+                  {lot.sourceLocationName && ` · ${lot.sourceLocationName}`}
+                </span>
+                <span>{lot.roi.soldCount}/{lot.roi.itemCount} sold</span>
+              </div>
+            </button>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No lots yet.</p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button className="w-full" onClick={onNew} data-testid="button-new-lot">
+          <Plus className="w-4 h-4 mr-1" />
+          New Lot
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function NewLotForm({ onBack, onCreated }: { onBack: () => void; onCreated: (id: number) => void }) {
+  const createLot = useCreateLot();
+  const { data: sourcingLocations } = useSourcingLocations();
+
+  const [name, setName] = useState('');
+  const [totalCost, setTotalCost] = useState('');
+  const [tax, setTax] = useState('');
+  const [purchaseDate, setPurchaseDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [sourceLocationId, setSourceLocationId] = useState<number | null>(null);
+  const [allocationMethod, setAllocationMethod] = useState<LotAllocationMethod>('even');
+  const [items, setItems] = useState<DraftLotItem[]>([emptyDraftItem()]);
+
+  const namedItems = items.filter(item => item.title.trim());
+  const cost = (parseFloat(totalCost) || 0) + (parseFloat(tax) || 0);
+  const preview = allocateLotCost(
+    cost,
+    namedItems.map((item, i) => ({ id: i, estimatedResale: item.estimatedResale, allocationWeight: item.allocationWeight })),
+    allocationMethod
+  );
+
+  const updateItem = (index: number, updates: Partial<DraftLotItem>) => {
+    setItems(current => current.map((item, i) => i === index ? { ...item, ...updates } : item));
+  };
+
+  const handleCreate = async () => {
+    const lot = await createLot.mutateAsync({
+      name: name.trim(),
+      totalCost,
+      tax: tax || undefined,
+      sourceLocationId,
+      purchaseDate,
+      allocationMethod,
+      items: namedItems.map(item => ({
+        title: item.title.trim(),
+        estimatedResale: item.estimatedResale || undefined,
+        allocationWeight: allocationMethod === 'manual' ? parseFloat(item.allocationWeight) || 0 : undefined,
+      })),
+    });
+    onCreated(lot.id);
+  };
+
+  let previewIndex = 0;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onBack} data-testid="button-lots-back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          New Lot
+        </DialogTitle>
+        <DialogDescription>What you paid for the whole lot, and what you pulled from it.</DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-3 py-2">
+        <div>
+          <Label>Name</Label>
+          <Input
+            placeholder="e.g. Estate sale box lot"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-lot-name"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label>Cost</Label>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="40.00"
+              value={totalCost}
+              onChange={(e) => setTotalCost(e.target.value)}
+              data-testid="input-lot-cost"
+            />
+          </div>
+          <div>
+            <Label>Tax</Label>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={tax}
+              onChange={(e) => setTax(e.target.value)}
+              data-testid="input-lot-tax"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label>Date</Label>
+            <Input
+              type="date"
+              value={purchaseDate}
+              onChange={(e) => setPurchaseDate(e.target.value)}
+              data-testid="input-lot-date"
+            />
+          </div>
+          <div>
+            <Label>Location</Label>
+            <Select
+              value={sourceLocationId ? String(sourceLocationId) : 'none'}
+              onValueChange={(v) => setSourceLocationId(v === 'none' ? null : parseInt(v))}
+            >
+              <SelectTrigger data-testid="select-lot-location">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {sourcingLocations?.map(location => (
+                  <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label>Split cost</Label>
+          <Select value={allocationMethod} onValueChange={(v) => setAllocationMethod(v as LotAllocationMethod)}>
+            <SelectTrigger data-testid="select-lot-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {lotAllocationMethods.map(method => (
+                <SelectItem key={method} value={method}>{LOT_ALLOCATION_LABELS[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex text-xs text-muted-foreground gap-2 pr-10">
+            <span className="flex-1">Item</span>
+            <span className="w-20">{allocationMethod === 'manual' ? 'Weight' : 'Est. resale'}</span>
+            <span className="w-14 text-right">Cost</span>
+          </div>
+          {items.map((item, index) => {
+            const share = item.title.trim() ? preview[previewIndex++]?.purchasePrice : undefined;
+            return (
+              <div key={index} className="flex gap-2 items-center" data-testid={`lot-item-${index}`}>
+                <Input
+                  className="flex-1"
+                  placeholder="Item title"
+                  value={item.title}
+                  onChange={(e) => updateItem(index, { title: e.target.value })}
+                  data-testid={`input-lot-item-title-${index}`}
+                />
+                {allocationMethod === 'manual' ? (
+                  <Input
+                    className="w-20"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={item.allocationWeight}
+                    onChange={(e) => updateItem(index, { allocationWeight: e.target.value })}
+                    data-testid={`input-lot-item-weight-${index}`}
+                  />
+                ) : (
+                  <Input
+                    className="w-20"
+                    type="number"
+                    step="0.01"
+                    placeholder="$"
+                    value={item.estimatedResale}
+                    onChange={(e) => updateItem(index, { estimatedResale: e.target.value })}
+                    data-testid={`input-lot-item-resale-${index}`}
+                  />
+                )}
+                <span className="w-14 text-right font-mono text-xs text-muted-foreground">
+                  {share !== undefined ? `$${share.toFixed(2)}` : ''}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-muted-foreground"
+                  onClick={() => setItems(current => current.filter((_, i) => i !== index))}
+                  disabled={items.length === 1}
+                  data-testid={`button-remove-lot-item-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => setItems(current => [...current, emptyDraftItem()])}
+            data-testid="button-add-lot-item"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Item
+          </Button>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onBack}>Cancel</Button>
+        <Button
+          onClick={handleCreate}
+          disabled={!name.trim() || !(parseFloat(totalCost) >= 0) || createLot.isPending}
+          data-testid="button-create-lot"
+        >
+          {createLot.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Create Lot
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function LotDetail({ id, inventory, onBack }: { id: number; inventory: InventoryItem[]; onBack: () => void }) {
+  const { data: lots } = useLots();
+  const updateLot = useUpdateLot();
+  const deleteLot = useDeleteLot();
+  const addItems = useAddLotItems();
+  const removeItem = useRemoveLotItem();
+  const setWeights = useSetLotWeights();
+
+  const lot = lots?.find(l => l.id === id);
+  const [weights, setWeightInputs] = useState<Record<number, string>>({});
+  const [newTitle, setNewTitle] = useState('');
+  const [newResale, setNewResale] = useState('');
+  const [existingItemId, setExistingItemId] = useState<string>('');
+
+  useEffect(() => {
+    if (lot) {
+      setWeightInputs(Object.fromEntries(lot.items.map(item => [item.id, item.allocationWeight ?? '1'])));
+    }
+  }, [lot]);
+
+  if (!lot) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const method = lot.allocationMethod as LotAllocationMethod;
+  // Unsold stock that isn't already in this lot
+  const candidates = inventory.filter(item =>
+    item.lotId !== lot.id && !isSoldStatus(item.status) && !isDisposedStatus(item.status)
+  );
+
+  const handleAddNew = () => {
+    addItems.mutate(
+      { id: lot.id, items: [{ title: newTitle.trim(), estimatedResale: newResale || undefined }] },
+      { onSuccess: () => { setNewTitle(''); setNewResale(''); } }
+    );
+  };
+
+  const handleAddExisting = () => {
+    addItems.mutate(
+      { id: lot.id, itemIds: [parseInt(existingItemId)] },
+      { onSuccess: () => setExistingItemId('') }
+    );
+  };
+
+  const handleSaveWeights = () => {
+    setWeights.mutate({
+      id: lot.id,
+      weights: lot.items.map(item => ({ itemId: item.id, weight: Math.max(0, parseFloat(weights[item.id]) || 0) })),
+    });
+  };
+
+  const handleDelete = () => {
+    deleteLot.mutate(lot.id, { onSuccess: onBack });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onBack} data-testid="button-lots-back">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <Boxes className="w-5 h-5 text-primary" />
+          <span className="truncate">{lot.name}</span>
+        </DialogTitle>
+        <DialogDescription>
+          ${lot.totalCost}{parseFloat(lot.tax) > 0 && ` + $${lot.tax} tax`}
+          {' · '}{format(new Date(lot.purchaseDate), 'MMM d, yyyy')}
+          {lot.sourceLocationName && ` · ${lot.sourceLocationName}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-lg border border-border/50 p-2">
+            <span className="text-xs text-muted-foreground block">Back</span>
+            <span className="font-mono font-bold" data-testid="text-lot-proceeds">${lot.roi.netProceeds.toFixed(0)}</span>
+          </div>
+          <div className="rounded-lg border border-border/50 p-2">
+            <span className="text-xs text-muted-foreground block">ROI</span>
+            <span className={`font-mono font-bold ${lot.roi.profit >= 0 ? 'text-green-500' : 'text-red-500'}`} data-testid="text-lot-roi">
+              {lot.roi.roi !== null ? `${Math.round(lot.roi.roi * 100)}%` : '—'}
+            </span>
+          </div>
+          <div className="rounded-lg border border-border/50 p-2">
+            <span className="text-xs text-muted-foreground block">Sold</span>
+            <span className="font-mono font-bold">{lot.roi.soldCount}/{lot.roi.itemCount}</span>
+          </div>
+        </div>
+
+        <div>
+          <Label>Split cost</Label>
+          <Select
+            value={method}
+            onValueChange={(v) => updateLot.mutate({ id: lot.id, allocationMethod: v as LotAllocationMethod })}
+            disabled={updateLot.isPending}
+          >
+            <SelectTrigger data-testid="select-lot-detail-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {lotAllocationMethods.map(m => (
+                <SelectItem key={m} value={m}>{LOT_ALLOCATION_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {lot.items.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-2">No items in this lot yet.</p>
+          )}
+          {lot.items.map(item => (
+            <div key={item.id} className="flex gap-2 items-center" data-testid={`lot-detail-item-${item.id}`}>
+              <span className="flex-1 text-sm truncate">{item.title}</span>
+              {method === 'manual' && (
+                <Input
+                  className="w-16 h-8"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={weights[item.id] ?? '1'}
+                  onChange={(e) => setWeightInputs(current => ({ ...current, [item.id]: e.target.value }))}
+                  data-testid={`input-lot-weight-${item.id}`}
+                />
+              )}
+              {isSoldStatus(item.status) && <Badge variant="outline" className="text-[10px]">Sold</Badge>}
+              <span className="w-16 text-right font-mono text-sm">${item.purchasePrice}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-muted-foreground"
+                onClick={() => removeItem.mutate({ id: lot.id, itemId: item.id })}
+                disabled={removeItem.isPending}
+                data-testid={`button-remove-from-lot-${item.id}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {method === 'manual' && lot.items.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={handleSaveWeights}
+              disabled={setWeights.isPending}
+              data-testid="button-save-lot-weights"
+            >
+              {setWeights.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Weights
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t border-border/50 pt-3">
+          <Label>Add to lot</Label>
+          <div className="flex gap-2">
+            <Input
+              className="flex-1"
+              placeholder="New item title"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              data-testid="input-lot-new-title"
+            />
+            <Input
+              className="w-20"
+              type="number"
+              step="0.01"
+              placeholder="Est. $"
+              value={newResale}
+              onChange={(e) => setNewResale(e.target.value)}
+              data-testid="input-lot-new-resale"
+            />
+            <Button
+              size="icon"
+              onClick={handleAddNew}
+              disabled={!newTitle.trim() || addItems.isPending}
+              data-testid="button-lot-add-new"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+          {candidates.length > 0 && (
+            <div className="flex gap-2">
+              <Select value={existingItemId} onValueChange={setExistingItemId}>
+                <SelectTrigger className="flex-1" data-testid="select-lot-existing-item">
+                  <SelectValue placeholder="Or move an inventory item..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(item => (
+                    <SelectItem key={item.id} value={String(item.id)}>{item.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                onClick={handleAddExisting}
+                disabled={!existingItemId || addItems.isPending}
+                data-testid="button-lot-add-existing"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="ghost"
+          className="text-red-500"
+          onClick={handleDelete}
+          disabled={deleteLot.isPending}
+          data-testid="button-delete-lot"
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Delete Lot
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,323 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUpload } from "@/hooks/use-upload";
+import { useScanReceipt, useApplyReceipt, useSourcingLocations } from "@/hooks/use-items";
+import { allocateReceiptTotal, type ReceiptProposal, type ReceiptProposalKind } from "@shared/receipts";
+import { expenseCategories } from "@shared/routes";
+import { format } from "date-fns";
+import { AlertTriangle, Camera, Loader2, Package, Receipt as ReceiptIcon, X } from "lucide-react";
+
+type ExpenseCategoryValue = typeof expenseCategories[number];
+
+interface DraftItem {
+  title: string;
+  basePrice: number;
+  purchasePrice: string;
+}
+
+interface ReceiptScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: readonly { value: string; label: string }[];
+}
+
+/**
+ * Upload a receipt photo, read it with OCR and save it as one expense or as
+ * inventory items (tax spread across the items so they add up to the total).
+ */
+export function ReceiptScanDialog({ open, onOpenChange, categories }: ReceiptScanDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { uploadFile, isUploading } = useUpload({ endpoint: "/api/receipts/upload-url" });
+  const scanReceipt = useScanReceipt();
+  const applyReceipt = useApplyReceipt();
+  const { data: sourcingLocations } = useSourcingLocations();
+
+  const [receiptId, setReceiptId] = useState<number | null>(null);
+  const [proposal, setProposal] = useState<ReceiptProposal | null>(null);
+  const [kind, setKind] = useState<ReceiptProposalKind>('expense');
+  const [category, setCategory] = useState<ExpenseCategoryValue>('other');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [sourceLocationId, setSourceLocationId] = useState<number | null>(null);
+  const [items, setItems] = useState<DraftItem[]>([]);
+
+  const reset = () => {
+    setReceiptId(null);
+    setProposal(null);
+    setKind('expense');
+    setCategory('other');
+    setDescription('');
+    setAmount('');
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+    setSourceLocationId(null);
+    setItems([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) reset();
+  };
+
+  const handleFile = async (file: File) => {
+    const upload = await uploadFile(file);
+    if (!upload) return;
+    const { receipt, proposal } = await scanReceipt.mutateAsync(upload.objectPath);
+
+    setReceiptId(receipt.id);
+    setProposal(proposal);
+    setKind(proposal.kind);
+    setCategory(expenseCategories.includes(proposal.expense.category as ExpenseCategoryValue)
+      ? proposal.expense.category as ExpenseCategoryValue
+      : 'other');
+    setDescription(proposal.expense.description);
+    setAmount(proposal.expense.amount.toFixed(2));
+    setDate(proposal.expense.date ?? format(new Date(), 'yyyy-MM-dd'));
+    setItems(proposal.items.map(item => ({
+      title: item.title,
+      basePrice: item.basePrice,
+      purchasePrice: item.purchasePrice.toFixed(2),
+    })));
+  };
+
+  const itemsTotal = items.reduce((sum, item) => sum + (parseFloat(item.purchasePrice) || 0), 0);
+  const itemsOff = proposal ? Math.abs(itemsTotal - proposal.itemsTotal) > 0.005 : false;
+
+  // After removing or re-pricing items, spread the items' share of the receipt
+  // total over what's left
+  const respreadTotal = () => {
+    if (!proposal) return;
+    const prices = allocateReceiptTotal(items.map(item => item.basePrice), proposal.itemsTotal);
+    setItems(items.map((item, i) => ({ ...item, purchasePrice: prices[i].toFixed(2) })));
+  };
+
+  const updateItem = (index: number, updates: Partial<DraftItem>) => {
+    setItems(current => current.map((item, i) => i === index ? { ...item, ...updates } : item));
+  };
+
+  const handleSave = async () => {
+    if (receiptId === null) return;
+    if (kind === 'expense') {
+      await applyReceipt.mutateAsync({ id: receiptId, kind, category, description, amount, date });
+    } else {
+      await applyReceipt.mutateAsync({
+        id: receiptId,
+        kind,
+        purchaseDate: date,
+        sourceLocationId,
+        items: items.map(item => ({ title: item.title, purchasePrice: item.purchasePrice })),
+      });
+    }
+    handleOpenChange(false);
+  };
+
+  const isReading = isUploading || scanReceipt.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scan Receipt</DialogTitle>
+          <DialogDescription>
+            Save a receipt as an expense, or as inventory with the tax split across the items.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleFile(file);
+          }}
+          data-testid="input-receipt-file"
+        />
+
+        {!proposal ? (
+          <div className="py-8 text-center">
+            <Button
+              size="lg"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading}
+              data-testid="button-pick-receipt"
+            >
+              {isReading ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Camera className="w-5 h-5 mr-2" />}
+              {isUploading ? 'Uploading...' : scanReceipt.isPending ? 'Reading receipt...' : 'Take or Choose Photo'}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Receipt total</span>
+              <span className="font-mono font-bold" data-testid="text-receipt-total">${proposal.total.toFixed(2)}</span>
+            </div>
+
+            {proposal.warnings.length > 0 && (
+              <div className="rounded-lg bg-amber-500/10 border border-amber-500/30 p-2 space-y-1">
+                {proposal.warnings.map((warning, i) => (
+                  <p key={i} className="text-xs text-amber-700 dark:text-amber-400 flex gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={kind === 'expense' ? 'default' : 'outline'}
+                onClick={() => setKind('expense')}
+                data-testid="button-receipt-as-expense"
+              >
+                <ReceiptIcon className="w-4 h-4 mr-1" />
+                Expense
+              </Button>
+              <Button
+                variant={kind === 'inventory' ? 'default' : 'outline'}
+                onClick={() => setKind('inventory')}
+                disabled={items.length === 0}
+                data-testid="button-receipt-as-inventory"
+              >
+                <Package className="w-4 h-4 mr-1" />
+                Inventory ({items.length})
+              </Button>
+            </div>
+
+            <div>
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                data-testid="input-receipt-date"
+              />
+            </div>
+
+            {kind === 'expense' ? (
+              <>
+                <div>
+                  <Label>Category</Label>
+                  <Select value={category} onValueChange={(v) => setCategory(v as ExpenseCategoryValue)}>
+                    <SelectTrigger data-testid="select-receipt-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.filter(cat => cat.value !== 'mileage').map(cat => (
+                        <SelectItem key={cat.value} value={cat.value}>{cat.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Description</Label>
+                  <Input
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    data-testid="input-receipt-description"
+                  />
+                </div>
+                <div>
+                  <Label>Amount</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    data-testid="input-receipt-amount"
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <Label>Sourcing Location</Label>
+                  <Select
+                    value={sourceLocationId ? String(sourceLocationId) : 'none'}
+                    onValueChange={(v) => setSourceLocationId(v === 'none' ? null : parseInt(v))}
+                  >
+                    <SelectTrigger data-testid="select-receipt-location">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {sourcingLocations?.map(location => (
+                        <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  {items.map((item, index) => (
+                    <div key={index} className="flex gap-2 items-center" data-testid={`receipt-item-${index}`}>
+                      <Input
+                        className="flex-1"
+                        value={item.title}
+                        onChange={(e) => updateItem(index, { title: e.target.value })}
+                        data-testid={`input-receipt-item-title-${index}`}
+                      />
+                      <Input
+                        className="w-24"
+                        type="number"
+                        step="0.01"
+                        value={item.purchasePrice}
+                        onChange={(e) => updateItem(index, { purchasePrice: e.target.value })}
+                        data-testid={`input-receipt-item-price-${index}`}
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-muted-foreground"
+                        onClick={() => setItems(current => current.filter((_, i) => i !== index))}
+                        disabled={items.length === 1}
+                        data-testid={`button-remove-receipt-item-${index}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Items total
+                    {itemsOff && <Badge variant="outline" className="ml-2 text-amber-600 border-amber-500/30">≠ receipt</Badge>}
+                  </span>
+                  <span className="font-mono">${itemsTotal.toFixed(2)}</span>
+                </div>
+                {itemsOff && (
+                  <Button variant="outline" className="w-full" onClick={respreadTotal} data-testid="button-respread-total">
+                    Spread ${proposal.itemsTotal.toFixed(2)} across these items
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {proposal && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={applyReceipt.isPending}
+              data-testid="button-save-receipt"
+            >
+              {applyReceipt.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {kind === 'expense' ? 'Save Expense' : `Add ${items.length} Items`}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
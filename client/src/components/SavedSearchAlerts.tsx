@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { api, buildUrl } from "@shared/routes";
+import { scanCategories, type PriceAlertListing, type ScanCategory } from "@shared/schema";
+import { savedSearchConditions, type SavedSearchCondition } from "@shared/savedSearch";
+import { ExternalLink, Loader2, Search } from "lucide-react";
+
+const CONDITION_LABELS: Record<SavedSearchCondition, string> = {
+  any: "Any condition",
+  new: "New",
+  used: "Used",
+};
+
+/**
+ * New saved search - alerts on new eBay listings for a query that would be a FLIP.
+ */
+export function SavedSearchDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [category, setCategory] = useState<ScanCategory>("Other");
+  const [condition, setCondition] = useState<SavedSearchCondition>("any");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [minMargin, setMinMargin] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', api.priceAlerts.createSearch.path, {
+        searchQuery,
+        category,
+        condition,
+        maxPrice: maxPrice ? Number(maxPrice) : undefined,
+        minMarginPercent: minMargin ? Number(minMargin) : undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-alerts'] });
+      toast({ title: "Saved search created", description: "We'll notify you when a new listing would be a flip." });
+      setSearchQuery("");
+      setMaxPrice("");
+      setMinMargin("");
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to create saved search", variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Saved Search</DialogTitle>
+          <DialogDescription>
+            New eBay listings are checked against sold comps and your decision profile. You only hear about flips.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="saved-search-query">Search</Label>
+            <Input
+              id="saved-search-query"
+              placeholder="e.g. Seiko SKX007"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              data-testid="input-saved-search-query"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(v) => setCategory(v as ScanCategory)}>
+                <SelectTrigger data-testid="select-saved-search-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scanCategories.map(c => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Condition</Label>
+              <Select value={condition} onValueChange={(v) => setCondition(v as SavedSearchCondition)}>
+                <SelectTrigger data-testid="select-saved-search-condition">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedSearchConditions.map(c => (
+                    <SelectItem key={c} value={c}>{CONDITION_LABELS[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-max-price">Max price ($)</Label>
+              <Input
+                id="saved-search-max-price"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                placeholder="No limit"
+                value={maxPrice}
+                onChange={(e) => setMaxPrice(e.target.value)}
+                data-testid="input-saved-search-max-price"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-min-margin">Min margin (%)</Label>
+              <Input
+                id="saved-search-min-margin"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                max="90"
+                placeholder="Profile default"
+                value={minMargin}
+                onChange={(e) => setMinMargin(e.target.value)}
+                data-testid="input-saved-search-min-margin"
+              />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={searchQuery.trim().length < 2 || createMutation.isPending}
+            data-testid="button-create-saved-search"
+          >
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            Save Search
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Flips a saved search has found so far.
+ */
+export function SavedSearchDeals({ alertId }: { alertId: number }) {
+  const path = buildUrl(api.priceAlerts.listings.path, { id: alertId });
+  const { data: deals, isLoading } = useQuery<PriceAlertListing[]>({
+    queryKey: [path],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground mt-2" />;
+  }
+  if (!deals?.length) {
+    return <p className="text-xs text-muted-foreground mt-2">No flips yet - new listings are checked every 30 minutes.</p>;
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      {deals.map(deal => (
+        <a
+          key={deal.id}
+          href={deal.url || `https://www.ebay.com/itm/${deal.ebayItemId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 text-xs hover:underline"
+          data-testid={`link-saved-search-deal-${deal.id}`}
+        >
+          <span className="flex-1 truncate">{deal.title}</span>
+          <span className="font-medium">${parseFloat(deal.price).toFixed(2)}</span>
+          {deal.marginPercent && <span className="text-green-600">{deal.marginPercent}%</span>}
+          <ExternalLink className="w-3 h-3 text-muted-foreground" />
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSourcingScorecards } from "@/hooks/use-items";
+import {
+  DAY_OF_WEEK_LABELS, HEATMAP_TIME_BUCKETS, type SourcingHeatmap, type SourcingScorecard,
+} from "@shared/sourcingScorecards";
+import { Loader2, MapPin, CalendarClock } from "lucide-react";
+
+function formatDollars(value: number): string {
+  const rounded = Math.round(value);
+  return rounded < 0 ? `-$${Math.abs(rounded).toLocaleString()}` : `$${rounded.toLocaleString()}`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function bucketLabel(bucket: string): string {
+  return HEATMAP_TIME_BUCKETS.find(b => b.key === bucket)?.label ?? bucket;
+}
+
+function ScorecardRow({ scorecard }: { scorecard: SourcingScorecard }) {
+  const stats = [
+    { label: 'Spent', value: formatDollars(scorecard.spend) },
+    { label: 'Bought', value: String(scorecard.itemsBought) },
+    { label: 'ROI', value: formatPercent(scorecard.roi) },
+    { label: 'Hit rate', value: scorecard.scans > 0 ? `${formatPercent(scorecard.hitRate)} of ${scorecard.scans}` : '—' },
+    { label: 'Days to sell', value: scorecard.avgDaysToSell === null ? '—' : `${Math.round(scorecard.avgDaysToSell)}d` },
+    { label: 'Mileage', value: scorecard.tripCount > 0 ? formatDollars(scorecard.mileageCost) : '—' },
+  ];
+
+  return (
+    <div className="py-3 border-b last:border-0" data-testid={`scorecard-location-${scorecard.locationId}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="font-semibold truncate">{scorecard.name}</span>
+          <Badge variant="outline" className="text-[10px] flex-shrink-0">{scorecard.type.replace('_', ' ')}</Badge>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <p
+            className={`font-bold ${scorecard.netProfit >= 0 ? 'text-green-500' : 'text-red-500'}`}
+            data-testid={`text-scorecard-net-${scorecard.locationId}`}
+          >
+            {formatDollars(scorecard.netProfit)}
+          </p>
+          <p className="text-[10px] text-muted-foreground">
+            {scorecard.mileageCost > 0 ? 'profit after mileage' : 'realized profit'}
+          </p>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+        {stats.map(stat => (
+          <div key={stat.label} className="flex justify-between gap-1">
+            <span className="text-muted-foreground">{stat.label}</span>
+            <span className="font-medium">{stat.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PurchaseHeatmap({ heatmap }: { heatmap: SourcingHeatmap }) {
+  const maxProfit = Math.max(0, ...heatmap.cells.map(cell => Math.abs(cell.profit)));
+  const cellStyle = (profit: number) => {
+    if (maxProfit === 0 || profit === 0) return undefined;
+    const alpha = 0.15 + 0.75 * (Math.abs(profit) / maxProfit);
+    return { backgroundColor: profit > 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})` };
+  };
+
+  return (
+    <div data-testid="sourcing-heatmap">
+      <div className="grid grid-cols-[2.5rem_repeat(4,1fr)] gap-1 text-[10px]">
+        <span />
+        {HEATMAP_TIME_BUCKETS.map(bucket => (
+          <span key={bucket.key} className="text-center text-muted-foreground">{bucket.label}</span>
+        ))}
+        {DAY_OF_WEEK_LABELS.map((day, dayOfWeek) => (
+          <div key={day} className="contents">
+            <span className="text-muted-foreground self-center">{day}</span>
+            {HEATMAP_TIME_BUCKETS.map(bucket => {
+              const cell = heatmap.cells.find(c => c.dayOfWeek === dayOfWeek && c.bucket === bucket.key);
+              const isBest = heatmap.best?.dayOfWeek === dayOfWeek && heatmap.best.bucket === bucket.key;
+              return (
+                <div
+                  key={bucket.key}
+                  className={`h-7 rounded flex items-center justify-center bg-muted/40 ${isBest ? 'ring-2 ring-primary' : ''}`}
+                  style={cell ? cellStyle(cell.profit) : undefined}
+                  title={cell ? `${cell.itemsBought} bought · ${formatDollars(cell.spend)} spent · ${formatDollars(cell.profit)} profit` : undefined}
+                  data-testid={`heatmap-cell-${dayOfWeek}-${bucket.key}`}
+                >
+                  {cell && cell.itemsBought > 0 ? cell.itemsBought : ''}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2" data-testid="text-heatmap-best">
+        {heatmap.best
+          ? `Best: ${DAY_OF_WEEK_LABELS[heatmap.best.dayOfWeek]} ${bucketLabel(heatmap.best.bucket).toLowerCase()} (~${formatDollars(heatmap.best.avgProfit)} profit per sale)`
+          : heatmap.bestDay
+            ? `Best day: ${DAY_OF_WEEK_LABELS[heatmap.bestDay.dayOfWeek]} (~${formatDollars(heatmap.bestDay.avgProfit)} profit per sale)`
+            : 'Not enough sales yet to pick a best time.'}
+        {heatmap.untimedItems > 0 && ` ${heatmap.untimedItems} purchases without a time only count toward their day.`}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Which sourcing locations pay off (profit after mileage, ROI, scan hit
+ * rate) and which days/times purchases there have done best.
+ */
+export function SourcingScorecardsCard() {
+  const { data, isLoading } = useSourcingScorecards();
+  const [heatmapScope, setHeatmapScope] = useState<string>('all');
+
+  if (isLoading) {
+    return (
+      <Card className="p-4 flex justify-center" data-testid="card-sourcing-scorecards">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </Card>
+    );
+  }
+  if (!data || data.locations.length === 0) return null;
+
+  const scoped = data.locations.find(l => String(l.locationId) === heatmapScope);
+  const heatmap = scoped?.heatmap ?? data.heatmap;
+
+  return (
+    <Card data-testid="card-sourcing-scorecards">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MapPin className="h-4 w-4 text-primary" />
+          Sourcing Locations
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Worth the drive? Profit from sold items, less mileage to get there
+        </p>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div>
+          {data.locations.map(scorecard => (
+            <ScorecardRow key={scorecard.locationId} scorecard={scorecard} />
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <span className="flex items-center gap-1 text-sm font-medium">
+              <CalendarClock className="w-4 h-4 text-primary" />
+              When you buy
+            </span>
+            <Select value={heatmapScope} onValueChange={setHeatmapScope}>
+              <SelectTrigger className="h-8 w-40" data-testid="select-heatmap-location">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All purchases</SelectItem>
+                {data.locations.map(location => (
+                  <SelectItem key={location.locationId} value={String(location.locationId)}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <PurchaseHeatmap heatmap={heatmap} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
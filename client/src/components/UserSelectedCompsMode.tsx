@@ -17,7 +17,7 @@ interface UserSelectableListing {
   condition: string;
   imageUrl: string | null;
   link: string;
-  dateSold: string;
+  dateSold: string | null;
 }
 
 interface UserCompsSearchResult {
@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api } from "@shared/routes";
+import { api, buildUrl } from "@shared/routes";
 import { z } from "zod";
+import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 
 export function useItems() {
@@ -167,6 +168,19 @@ export function useInventory() {
   });
 }
 
+export function useInventoryHistory(id: number | null) {
+  const url = id !== null ? buildUrl(api.inventory.history.path, { id }) : null;
+  return useQuery({
+    queryKey: [url],
+    queryFn: async () => {
+      const res = await fetch(url!);
+      if (!res.ok) throw new Error("Failed to fetch inventory history");
+      return api.inventory.history.responses[200].parse(await res.json());
+    },
+    enabled: url !== null,
+  });
+}
+
 type CreateInventoryInput = z.infer<typeof api.inventory.create.input>;
 
 export function useCreateInventoryItem() {
@@ -178,7 +192,8 @@ export function useCreateInventoryItem() {
       const res = await fetch(api.inventory.create.path, {
         method: 'POST',
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(input),
+        // Bought today in the user's time zone, not the server's
+        body: JSON.stringify({ purchaseDate: format(new Date(), 'yyyy-MM-dd'), ...input }),
       });
 
       if (!res.ok) {
@@ -224,10 +239,13 @@ export function useUpdateInventoryItem() {
       }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { id }) => {
       queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
+      queryClient.invalidateQueries({ queryKey: [buildUrl(api.inventory.history.path, { id })] });
     },
     onError: (error: Error) => {
+      // A status conflict means our copy is stale - reload it
+      queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
       toast({
         variant: "destructive",
         title: "Update Failed",
@@ -379,6 +397,7 @@ export function useDeleteExpense() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: [api.mileage.trips.path] });
       toast({
         title: "Expense Removed",
         description: "Expense has been deleted.",
@@ -442,6 +461,600 @@ export function useUpdateExpense() {
   });
 }
 
+// ========== MILEAGE TRIP HOOKS ==========
+
+export type MileageTripInput = z.input<typeof api.mileage.createTrip.input>;
+
+export function useMileageTrips(taxYear?: number) {
+  const url = taxYear ? `${api.mileage.trips.path}?year=${taxYear}` : api.mileage.trips.path;
+  return useQuery({
+    queryKey: [api.mileage.trips.path, taxYear],
+    queryFn: async () => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch trips");
+      return api.mileage.trips.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useMileageByLocation(taxYear?: number) {
+  const url = taxYear ? `${api.mileage.byLocation.path}?year=${taxYear}` : api.mileage.byLocation.path;
+  return useQuery({
+    queryKey: [api.mileage.byLocation.path, taxYear],
+    queryFn: async () => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch mileage by location");
+      return api.mileage.byLocation.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// A trip owns its mileage expense and charges inventory, so all three refresh
+function invalidateMileage(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.mileage.trips.path] });
+  queryClient.invalidateQueries({ queryKey: [api.mileage.byLocation.path] });
+  queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+  queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
+}
+
+export function useCreateMileageTrip() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (input: MileageTripInput) => {
+      const res = await fetch(api.mileage.createTrip.path, {
+        method: api.mileage.createTrip.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to log trip");
+      }
+      return api.mileage.createTrip.responses[201].parse(await res.json());
+    },
+    onSuccess: (trip) => {
+      invalidateMileage(queryClient);
+      toast({
+        title: "Trip Logged",
+        description: `${trip.deductibleMiles} deductible miles recorded.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Log Trip",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useDeleteMileageTrip() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.mileage.deleteTrip.path, { id }), {
+        method: api.mileage.deleteTrip.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to delete trip");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateMileage(queryClient);
+      toast({
+        title: "Trip Removed",
+        description: "The trip and its mileage expense have been deleted.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+// ========== ANALYTICS HOOKS ==========
+
+export type AnalyticsSeriesQuery = z.input<typeof api.analytics.series.input>;
+
+export function useAnalyticsSummary() {
+  return useQuery({
+    queryKey: [api.analytics.summary.path],
+    queryFn: async () => {
+      const res = await fetch(api.analytics.summary.path);
+      if (!res.ok) throw new Error("Failed to fetch analytics");
+      return api.analytics.summary.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useAnalyticsSeries(query: AnalyticsSeriesQuery, options: { enabled?: boolean } = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) params.set(key, String(value));
+  }
+  const url = `${api.analytics.series.path}?${params.toString()}`;
+  return useQuery({
+    queryKey: [api.analytics.series.path, query],
+    queryFn: async () => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch analytics");
+      return api.analytics.series.responses[200].parse(await res.json());
+    },
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useCashFlowForecast() {
+  return useQuery({
+    queryKey: [api.forecast.cashFlow.path],
+    queryFn: async () => {
+      const res = await fetch(api.forecast.cashFlow.path);
+      if (!res.ok) throw new Error("Failed to fetch cash-flow forecast");
+      return api.forecast.cashFlow.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// ========== LOT HOOKS ==========
+
+export type LotInput = z.input<typeof api.lots.create.input>;
+export type LotUpdateInput = z.input<typeof api.lots.update.input>;
+export type LotAddItemsInput = z.input<typeof api.lots.addItems.input>;
+
+export function useLots() {
+  return useQuery({
+    queryKey: [api.lots.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.lots.list.path);
+      if (!res.ok) throw new Error("Failed to fetch lots");
+      return api.lots.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// Lot changes re-price their items, so inventory refreshes too
+function invalidateLots(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.lots.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
+}
+
+export function useCreateLot() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (input: LotInput) => {
+      const res = await fetch(api.lots.create.path, {
+        method: api.lots.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to create lot");
+      }
+      return api.lots.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (lot) => {
+      invalidateLots(queryClient);
+      toast({
+        title: "Lot Created",
+        description: `$${lot.roi.totalCost.toFixed(2)} split across ${lot.items.length} items.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Create Lot",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useUpdateLot() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: LotUpdateInput & { id: number }) => {
+      const res = await fetch(buildUrl(api.lots.update.path, { id }), {
+        method: api.lots.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to update lot");
+      }
+      return api.lots.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      invalidateLots(queryClient);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useDeleteLot() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.lots.delete.path, { id }), {
+        method: api.lots.delete.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to delete lot");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateLots(queryClient);
+      toast({
+        title: "Lot Deleted",
+        description: "Its items stay in inventory at their current cost.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useAddLotItems() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: LotAddItemsInput & { id: number }) => {
+      const res = await fetch(buildUrl(api.lots.addItems.path, { id }), {
+        method: api.lots.addItems.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to add items");
+      }
+      return api.lots.addItems.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      invalidateLots(queryClient);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Add Items",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useRemoveLotItem() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, itemId }: { id: number; itemId: number }) => {
+      const res = await fetch(buildUrl(api.lots.removeItem.path, { id, itemId }), {
+        method: api.lots.removeItem.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to remove item");
+      }
+      return api.lots.removeItem.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      invalidateLots(queryClient);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Remove Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useSetLotWeights() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, weights }: { id: number; weights: { itemId: number; weight: number }[] }) => {
+      const res = await fetch(buildUrl(api.lots.setWeights.path, { id }), {
+        method: api.lots.setWeights.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weights }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to save weights");
+      }
+      return api.lots.setWeights.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      invalidateLots(queryClient);
+      toast({
+        title: "Weights Saved",
+        description: "Lot cost has been re-allocated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Save Weights",
+        description: error.message,
+      });
+    },
+  });
+}
+
+// ========== INVENTORY IMPORT HOOKS ==========
+
+export type InventoryImportInput = z.input<typeof api.inventory.import.input>;
+
+// Dry runs return the preview without toasting; a real import refreshes everything built on inventory
+export function useImportInventory() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (input: InventoryImportInput) => {
+      const res = await fetch(api.inventory.import.path, {
+        method: api.inventory.import.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to read CSV");
+      }
+      return api.inventory.import.responses[200].parse(await res.json());
+    },
+    onSuccess: (result, input) => {
+      if (input.dryRun !== false) return;
+      queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.analytics.series.path] });
+      queryClient.invalidateQueries({ queryKey: [api.analytics.summary.path] });
+      toast({
+        title: "Import Complete",
+        description: `${result.imported} item${result.imported === 1 ? "" : "s"} added to inventory.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+// ========== AGING INVENTORY HOOKS ==========
+
+export function useAgingQueue() {
+  return useQuery({
+    queryKey: [api.aging.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.aging.list.path);
+      if (!res.ok) throw new Error("Failed to fetch aging inventory");
+      return api.aging.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// A markdown re-prices the item, so inventory refreshes too
+function invalidateAging(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.aging.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
+}
+
+export function useRunAgingCheck() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch(api.aging.run.path, { method: api.aging.run.method });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to check aging inventory");
+      }
+      return api.aging.run.responses[200].parse(await res.json());
+    },
+    onSuccess: (result) => {
+      invalidateAging(queryClient);
+      toast({
+        title: "Aging Check Complete",
+        description: result.stale === 0
+          ? "Nothing has been listed longer than usual."
+          : `${result.stale} stale listing${result.stale === 1 ? "" : "s"}, ${result.updated} re-priced against fresh comps.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Aging Check Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useApplyAgingRecommendation() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, price }: { id: number; price?: number }) => {
+      const res = await fetch(buildUrl(api.aging.apply.path, { id }), {
+        method: api.aging.apply.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(price !== undefined ? { price } : {}),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to apply recommendation");
+      }
+      return api.aging.apply.responses[200].parse(await res.json());
+    },
+    onSuccess: (recommendation) => {
+      invalidateAging(queryClient);
+      toast({
+        title: recommendation.action === 'markdown' ? "Price Dropped" : "Marked as Done",
+        description: recommendation.action === 'markdown'
+          ? "Update the price on your live listing to match."
+          : "We'll check on this item again in two weeks.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Apply",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useDismissAgingRecommendation() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.aging.dismiss.path, { id }), {
+        method: api.aging.dismiss.method,
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to dismiss recommendation");
+      }
+      return api.aging.dismiss.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      invalidateAging(queryClient);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Dismiss Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+// ========== RECEIPT HOOKS ==========
+
+export type ReceiptApplyInput = z.input<typeof api.receipts.apply.input>;
+
+export function useScanReceipt() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (objectPath: string) => {
+      const res = await fetch(api.receipts.scan.path, {
+        method: api.receipts.scan.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ objectPath }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to read receipt");
+      }
+      return api.receipts.scan.responses[201].parse(await res.json());
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Receipt Scan Failed",
+        description: error.message,
+      });
+    },
+  });
+}
+
+export function useApplyReceipt() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: ReceiptApplyInput & { id: number }) => {
+      const res = await fetch(buildUrl(api.receipts.apply.path, { id }), {
+        method: api.receipts.apply.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to save receipt");
+      }
+      return api.receipts.apply.responses[201].parse(await res.json());
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: [api.inventory.list.path] });
+      toast({
+        title: "Receipt Saved",
+        description: result.items
+          ? `${result.items.length} items added to inventory.`
+          : "Your expense has been recorded.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to Save Receipt",
+        description: error.message,
+      });
+    },
+  });
+}
+
 // ========== SOURCING LOCATION HOOKS ==========
 
 export interface SourcingLocation {
@@ -500,3 +1113,17 @@ export function useCreateSourcingLocation() {
   });
 }
 
+
+export function useSourcingScorecards() {
+  // Heatmap slots are in the browser's time zone
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  const url = `${api.sourcingLocations.scorecards.path}?${new URLSearchParams({ tz: timeZone }).toString()}`;
+  return useQuery({
+    queryKey: [api.sourcingLocations.scorecards.path, timeZone],
+    queryFn: async () => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error("Failed to fetch sourcing scorecards");
+      return api.sourcingLocations.scorecards.responses[200].parse(await res.json());
+    },
+  });
+}
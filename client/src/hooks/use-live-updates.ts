@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useToast } from './use-toast';
+import { LIVE_UPDATES_PATH, type LiveMessage, type ScanStage } from '@shared/liveUpdates';
+import { api, buildUrl } from '@shared/routes';
+import { queryClient } from '@/lib/queryClient';
+
+/**
+ * Per-user live updates - batch progress, scan stages and price alerts - over
+ * one WebSocket shared by every subscribed component. The socket opens with
+ * the first subscriber, reconnects with backoff while anyone is listening and
+ * closes with the last one.
+ */
+
+interface Subscriber {
+  onMessage: (message: LiveMessage) => void;
+  onReconnect?: () => void; // messages may have been missed - refetch
+}
+
+const subscribers = new Set<Subscriber>();
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = 1000;
+let hasConnected = false;
+
+function connect() {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectDelay = 1000;
+    if (hasConnected) subscribers.forEach(s => s.onReconnect?.());
+    hasConnected = true;
+  };
+
+  ws.onmessage = (event) => {
+    let message: LiveMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    subscribers.forEach(s => s.onMessage(message));
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (subscribers.size === 0) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (subscribers.size > 0 && !socket) connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, 30000);
+  };
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  const ws = socket;
+  socket = null;
+  hasConnected = false;
+  ws?.close();
+}
+
+export function useLiveUpdates(
+  onMessage: (message: LiveMessage) => void,
+  options: { enabled?: boolean; onReconnect?: () => void } = {}
+) {
+  const { enabled = true } = options;
+  const handlersRef = useRef({ onMessage, onReconnect: options.onReconnect });
+  handlersRef.current = { onMessage, onReconnect: options.onReconnect };
+
+  useEffect(() => {
+    if (!enabled) return;
+    const subscriber: Subscriber = {
+      onMessage: (message) => handlersRef.current.onMessage(message),
+      onReconnect: () => handlersRef.current.onReconnect?.(),
+    };
+    subscribers.add(subscriber);
+    if (!socket && !reconnectTimer) connect();
+
+    return () => {
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0) disconnect();
+    };
+  }, [enabled]);
+}
+
+// Tags a scan request so its stage updates can be matched
+export function createScanId(): string {
+  return `scan-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Stage of the scan currently in flight (one at a time). Call beginScan()
+ * for the scanId to send with the request and endScan() when it returns.
+ */
+export function useScanStage(options: { enabled?: boolean } = {}) {
+  const [progress, setProgress] = useState<{ stage: ScanStage; title: string | null } | null>(null);
+  const scanIdRef = useRef<string | null>(null);
+
+  useLiveUpdates((message) => {
+    if (message.type !== 'scan_stage' || message.scanId !== scanIdRef.current) return;
+    setProgress(prev => ({ stage: message.stage, title: message.title ?? prev?.title ?? null }));
+  }, options);
+
+  const beginScan = useCallback(() => {
+    const scanId = createScanId();
+    scanIdRef.current = scanId;
+    setProgress(null);
+    return scanId;
+  }, []);
+
+  const endScan = useCallback(() => {
+    scanIdRef.current = null;
+    setProgress(null);
+  }, []);
+
+  return { stage: progress?.stage ?? null, title: progress?.title ?? null, beginScan, endScan };
+}
+
+/**
+ * Toast price alerts and saved-search flips that fire while the page is open
+ * (push covers the rest).
+ */
+export function useLivePriceAlerts(options: { enabled?: boolean } = {}) {
+  const { toast } = useToast();
+
+  useLiveUpdates((message) => {
+    if (message.type === 'saved_search') {
+      const [best] = message.deals;
+      toast({
+        title: message.deals.length === 1 ? `New flip for "${message.searchQuery}"` : `${message.deals.length} new flips for "${message.searchQuery}"`,
+        description: `${best.title} - $${best.price.toFixed(2)}, ${best.marginPercent}% margin`,
+      });
+      queryClient.invalidateQueries({ queryKey: [buildUrl(api.priceAlerts.listings.path, { id: message.alertId })] });
+      return;
+    }
+    if (message.type !== 'price_alert') return;
+    toast({
+      title: 'Price Alert!',
+      description: `${message.title} is now $${message.price.toFixed(2)} (max buy $${message.maxBuyPrice.toFixed(2)})`,
+    });
+  }, options);
+}
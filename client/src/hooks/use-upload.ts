@@ -14,6 +14,7 @@ interface UploadResponse {
 }
 
 interface UseUploadOptions {
+  endpoint?: string; // presigned URL route, e.g. /api/receipts/upload-url
   onSuccess?: (response: UploadResponse) => void;
   onError?: (error: Error) => void;
 }
@@ -62,7 +63,7 @@ export function useUpload(options: UseUploadOptions = {}) {
    */
   const requestUploadUrl = useCallback(
     async (file: File): Promise<UploadResponse> => {
-      const response = await fetch("/api/uploads/request-url", {
+      const response = await fetch(options.endpoint ?? "/api/uploads/request-url", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -76,12 +77,12 @@ export function useUpload(options: UseUploadOptions = {}) {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "Failed to get upload URL");
+        throw new Error(errorData.error || errorData.message || "Failed to get upload URL");
       }
 
       return response.json();
     },
-    []
+    [options.endpoint]
   );
 
   /**
@@ -162,7 +163,7 @@ export function useUpload(options: UseUploadOptions = {}) {
       headers?: Record<string, string>;
     }> => {
       // Use the actual file properties to request a per-file presigned URL
-      const response = await fetch("/api/uploads/request-url", {
+      const response = await fetch(options.endpoint ?? "/api/uploads/request-url", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -185,7 +186,7 @@ export function useUpload(options: UseUploadOptions = {}) {
         headers: { "Content-Type": file.type || "application/octet-stream" },
       };
     },
-    []
+    [options.endpoint]
   );
 
   return {
@@ -14,6 +14,7 @@ import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { format } from "date-fns";
 
 type ScanResult = {
   title: string;
@@ -288,6 +289,7 @@ export default function ARProfitOverlay() {
       await apiRequest("POST", "/api/inventory", {
         title: itemToAdd.title,
         purchasePrice: price.toString(),
+        purchaseDate: format(new Date(), 'yyyy-MM-dd'),
         estimatedResale: itemToAdd.expectedSale?.toString() || null,
         category: itemToAdd.category,
         imageUrl: itemToAdd.thumbnail || null,
@@ -1,4 +1,3 @@
-import { useQuery } from "@tanstack/react-query";
 import { BottomNav } from "@/components/BottomNav";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,36 +5,12 @@ import { Loader2, TrendingUp, Award, Target, DollarSign, BarChart3, ArrowRight }
 import { MarginLogoFull } from "@/components/MarginLogo";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-
-interface AnalyticsData {
-  topBrands: Array<{
-    brand: string;
-    sold: number;
-    profit: number;
-  }>;
-  categoryProfit: Array<{
-    category: string;
-    avgProfit: number;
-    itemsSold: number;
-    totalProfit: number;
-  }>;
-  sellThrough: {
-    rate: number;
-    sold: number;
-    listed: number;
-  };
-  summary: {
-    totalProfit: number;
-    avgProfitPerItem: number;
-    totalSold: number;
-    totalListed: number;
-  };
-}
+import { AnalyticsTrendCard } from "@/components/AnalyticsTrendCard";
+import { SourcingScorecardsCard } from "@/components/SourcingScorecardsCard";
+import { useAnalyticsSummary } from "@/hooks/use-items";
 
 export default function AnalyticsPage() {
-  const { data: analytics, isLoading, error } = useQuery<AnalyticsData>({
-    queryKey: ['/api/analytics'],
-  });
+  const { data: analytics, isLoading, error } = useAnalyticsSummary();
 
   if (isLoading) {
     return (
@@ -139,6 +114,10 @@ export default function AnalyticsPage() {
               </Card>
             </div>
 
+            <AnalyticsTrendCard />
+
+            <SourcingScorecardsCard />
+
             {/* Top Brands Section */}
             <Card>
               <CardHeader className="pb-2">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useExtractItem, useConfirmAndAnalyze, useScanStatus } from "@/hooks/use-items";
+import { useExtractItem, useConfirmAndAnalyze, useScanStatus, useSourcingLocations } from "@/hooks/use-items";
 import { useQueryClient } from "@tanstack/react-query";
 import { useLocation, useSearch } from "wouter";
 import { BottomNav } from "@/components/BottomNav";
@@ -9,7 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { ScanLine, Loader2, Link as LinkIcon, AlertCircle, CheckCircle, ArrowLeft, Edit2, Sparkles, Zap, Camera, Layers, ShoppingBag, MonitorPlay, Watch, Target, Trophy, Globe, RefreshCw, CreditCard, Award } from "lucide-react";
+import { ScanLine, Loader2, MapPin, Link as LinkIcon, AlertCircle, CheckCircle, ArrowLeft, Edit2, Sparkles, Zap, Camera, Layers, ShoppingBag, MonitorPlay, Watch, Target, Trophy, Globe, RefreshCw, CreditCard, Award } from "lucide-react";
 import { ApiErrorDisplay } from "@/components/ApiErrorDisplay";
 import { getUserFriendlyErrorMessage } from "@/lib/api-errors";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -176,6 +176,22 @@ export default function AnalyzePage() {
   
   const extractMutation = useExtractItem();
   const confirmMutation = useConfirmAndAnalyze();
+  const { data: sourcingLocations } = useSourcingLocations();
+  // Where the user is sourcing right now - tags scans for location hit rates
+  const [scanLocationId, setScanLocationId] = useState<number | null>(() => {
+    const stored = parseInt(localStorage.getItem('margin_sourcing_location') || '');
+    return isNaN(stored) ? null : stored;
+  });
+  const activeScanLocationId = sourcingLocations?.some(l => l.id === scanLocationId) ? scanLocationId : null;
+  const handleScanLocationChange = (value: string) => {
+    const id = value === 'none' ? null : parseInt(value);
+    setScanLocationId(id);
+    if (id === null) {
+      localStorage.removeItem('margin_sourcing_location');
+    } else {
+      localStorage.setItem('margin_sourcing_location', String(id));
+    }
+  };
   const { data: scanStatus, refetch: refetchScanStatus } = useScanStatus();
   const queryClient = useQueryClient();
   const { preferences, updatePreference } = usePreferences();
@@ -295,6 +311,7 @@ export default function AnalyzePage() {
           query: confirmedTitle.trim(),
           category,
           scanMode,
+          sourceLocationId: activeScanLocationId,
         }),
       });
       
@@ -406,6 +423,7 @@ export default function AnalyzePage() {
         compSource,
         sourceType,
         scanMode,
+        sourceLocationId: activeScanLocationId,
         // Watch metadata from library matching (auto-fill dropdowns)
         // Check candidate.brand from OCR/visual matching as primary source
         watchBrand: cameraCandidate?.watchMeta?.watchBrand || cameraCandidate?.brand || (cameraCandidate as any)?.brandDetected?.toLowerCase() || null,
@@ -667,6 +685,24 @@ export default function AnalyzePage() {
                 </button>
               </div>
 
+              {sourcingLocations && sourcingLocations.length > 0 && (
+                <div className="flex items-center justify-center gap-2 mt-3">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">Sourcing at</span>
+                  <Select value={activeScanLocationId ? String(activeScanLocationId) : 'none'} onValueChange={handleScanLocationChange}>
+                    <SelectTrigger className="h-8 w-auto min-w-32" data-testid="select-scan-location">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not set</SelectItem>
+                      {sourcingLocations.map(location => (
+                        <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Bottom Note */}
               <p className="text-xs text-muted-foreground text-center mt-4">
                 We check sold prices and calculate profit after fees.
@@ -7,6 +7,7 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import {
@@ -18,18 +19,21 @@ import {
 } from "@/components/ui/dialog";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveUpdates, useLivePriceAlerts, useScanStage } from "@/hooks/use-live-updates";
 import { apiRequest } from "@/lib/queryClient";
 import { 
   Layers, Play, CheckCircle, XCircle, Clock, 
   Loader2, ArrowLeft, Sparkles, Camera, Upload,
   ThumbsUp, ThumbsDown, Trash2, Image, X, DollarSign,
-  AlertTriangle, RefreshCw
+  AlertTriangle, RefreshCw, Link2
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { MarginLogoFull, MarginLogoMark } from "@/components/MarginLogo";
 import { JudgmentOverlay } from "@/components/JudgmentAnimation";
-import type { BatchSession, BatchItem } from "@shared/schema";
+import { MAX_BATCH_ITEMS, MAX_BATCH_PHOTOS, type BatchSession, type BatchItem } from "@shared/schema";
+import { SCAN_STAGE_LABELS } from "@shared/liveUpdates";
 import { getShippingAllowance, getCategoryFeeRate } from "@shared/pricingEngine";
+import { calculateMaxBuyForProfitPercent, DEFAULT_DECISION_PROFILE, type DecisionProfile } from "@shared/decisionEngine";
 
 interface BatchSessionResponse {
   session: BatchSession;
@@ -91,11 +95,8 @@ function applyCategoryCap(price: number, title: string | null, category?: string
 }
 
 interface ProcessResult {
-  complete: boolean;
-  item?: BatchItem;
-  session?: BatchSession;
-  analysisResult?: any;
-  error?: string;
+  queued: number;
+  session: BatchSession;
 }
 
 export default function BatchScanPage() {
@@ -103,8 +104,9 @@ export default function BatchScanPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
-  const [isProcessing, setIsProcessing] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [showLinksModal, setShowLinksModal] = useState(false);
+  const [linksText, setLinksText] = useState("");
   
   // Cost input modal state
   const [showCostModal, setShowCostModal] = useState(false);
@@ -162,18 +164,30 @@ export default function BatchScanPage() {
     return settings[category] || settings['Other'] || 25;
   };
 
+  // User's decision profile - fees, fixed costs and outbound shipping for max buy math
+  const { data: decisionProfile } = useQuery<DecisionProfile>({
+    queryKey: ['/api/decision-profile'],
+    enabled: isPro,
+  });
+  
+  // Max buy for the current profit %. A saved profile (version > 0) supplies fees,
+  // fixed costs and outbound shipping; otherwise fall back to category defaults with $2 fixed costs.
+  const computeBatchMaxBuy = (sellPrice: number, category: string): number => {
+    const hasSavedProfile = !!decisionProfile && decisionProfile.version > 0;
+    return calculateMaxBuyForProfitPercent({
+      sellPrice,
+      profitPercent,
+      profile: hasSavedProfile ? decisionProfile : { ...DEFAULT_DECISION_PROFILE, fixedCosts: 2 },
+      feeRate: hasSavedProfile ? undefined : getCategoryFeeRate(category),
+      outboundShipping: hasSavedProfile ? undefined : getShippingAllowance(category),
+    });
+  };
+
   // Real-time slider update effect - compute maxBuy from sellPrice and profitPercent
   useEffect(() => {
     if (baseSellPrice !== null && identifiedTitle && identifiedCategory) {
-      const feeRate = getCategoryFeeRate(identifiedCategory);
-      const shippingCost = getShippingAllowance(identifiedCategory);
-      const fixedCosts = 2;
-      
       // Formula: profitGoal = sellPrice * profitPercent, maxBuy = floor(sellPrice - fees - shipping - fixedCosts - profitGoal)
-      const profitGoal = baseSellPrice * (profitPercent / 100);
-      const fees = baseSellPrice * feeRate;
-      let maxBuyPrice = Math.floor(baseSellPrice - fees - shippingCost - fixedCosts - profitGoal);
-      if (maxBuyPrice < 0) maxBuyPrice = 0;
+      let maxBuyPrice = computeBatchMaxBuy(baseSellPrice, identifiedCategory);
       
       // Guard: maxBuy must be < sellPrice
       if (maxBuyPrice >= baseSellPrice) maxBuyPrice = Math.floor(baseSellPrice * 0.5);
@@ -181,13 +195,35 @@ export default function BatchScanPage() {
       maxBuyPrice = applyCategoryCap(maxBuyPrice, identifiedTitle, identifiedCategory);
       setSuggestedMaxPrice(Math.round(maxBuyPrice));
     }
-  }, [profitPercent, baseSellPrice, identifiedTitle, identifiedCategory]);
+  }, [profitPercent, baseSellPrice, identifiedTitle, identifiedCategory, decisionProfile]);
 
   // Fetch batch session - this is the single source of truth
   const { data: batchData, isLoading, refetch } = useQuery<BatchSessionResponse>({
     queryKey: ['/api/batch/session'],
     enabled: isPro,
   });
+  // The queue runs on the server - a submitted batch keeps going with the app closed
+  const isProcessing = batchData?.session.status === 'processing';
+  
+  // Live progress from the batch job queue
+  useLiveUpdates((message) => {
+    if (message.type !== 'batch') return;
+    const { session, item } = message;
+    queryClient.setQueryData<BatchSessionResponse>(['/api/batch/session'], (prev) => {
+      if (!prev || prev.session.id !== session.id) return prev;
+      return {
+        session,
+        // Photo items arrive without their image - keep the one we have
+        items: item ? prev.items.map(i => i.id === item.id ? { ...i, ...item } : i) : prev.items,
+      };
+    });
+    if (session.status === 'completed' && !item) {
+      queryClient.invalidateQueries({ queryKey: ['/api/items'] });
+      toast({ title: "Batch complete!", description: "All items have been processed." });
+    }
+  }, { enabled: isPro, onReconnect: refetch });
+  useLivePriceAlerts({ enabled: isPro });
+  const scanStage = useScanStage({ enabled: isPro });
   
   // Fetch user's items to check which have been user-decided (FLIP IT/SKIP IT)
   const { data: userItems } = useQuery<Array<{ id: number; userDecision: string | null }>>({
@@ -218,9 +254,11 @@ export default function BatchScanPage() {
       appliedProfitPercent?: number;
       priceGuideSource?: 'sold_comps' | 'estimate';
     }) => {
-      const res = await apiRequest('POST', '/api/batch/scanAndAnalyze', { imageBase64, buyPrice, maxBuyPrice, appliedProfitPercent, priceGuideSource });
+      const scanId = scanStage.beginScan();
+      const res = await apiRequest('POST', '/api/batch/scanAndAnalyze', { imageBase64, buyPrice, maxBuyPrice, appliedProfitPercent, priceGuideSource, scanId });
       return res.json();
     },
+    onSettled: () => scanStage.endScan(),
     onSuccess: (data) => {
       refetch();
       if (data.success && data.analysisResult) {
@@ -248,7 +286,24 @@ export default function BatchScanPage() {
     }
   });
 
-  // Process mutation
+  // Add eBay links mutation (bulk - one URL per line)
+  const addLinksMutation = useMutation({
+    mutationFn: async (urls: string[]): Promise<BatchItem[]> => {
+      const res = await apiRequest('POST', '/api/batch/items', { inputType: 'url', inputValues: urls });
+      return res.json();
+    },
+    onSuccess: (added) => {
+      refetch();
+      setShowLinksModal(false);
+      setLinksText("");
+      toast({ title: `Added ${added.length} link${added.length !== 1 ? 's' : ''} to queue` });
+    },
+    onError: (err: any) => {
+      toast({ title: err.message || "Failed to add links", variant: "destructive" });
+    }
+  });
+
+  // Submit mutation - hands the batch to the server-side job queue
   const processMutation = useMutation({
     mutationFn: async (): Promise<ProcessResult> => {
       const res = await apiRequest('POST', '/api/batch/process');
@@ -256,13 +311,12 @@ export default function BatchScanPage() {
     },
     onSuccess: (data) => {
       refetch();
-      if (data.complete) {
-        setIsProcessing(false);
-        toast({ title: "Batch complete!", description: "All items have been processed." });
-      }
+      toast({ 
+        title: `Processing ${data.queued} item${data.queued !== 1 ? 's' : ''}`, 
+        description: "You can close the app - we'll notify you when the batch is done." 
+      });
     },
     onError: (err: any) => {
-      setIsProcessing(false);
       toast({ title: err.message || "Processing failed", variant: "destructive" });
     }
   });
@@ -378,14 +432,7 @@ export default function BatchScanPage() {
               const expectedSalePrice = priceGuideData.debug.expectedSalePrice;
               setBaseSellPrice(expectedSalePrice); // Store for slider real-time updates
               
-              const feeRate = getCategoryFeeRate(category);
-              const shippingCost = getShippingAllowance(category);
-              const fixedCosts = 2;
-              
-              const profitGoal = expectedSalePrice * (profitPercent / 100);
-              const fees = expectedSalePrice * feeRate;
-              let maxBuyPrice = Math.floor(expectedSalePrice - fees - shippingCost - fixedCosts - profitGoal);
-              if (maxBuyPrice < 0) maxBuyPrice = 0;
+              let maxBuyPrice = computeBatchMaxBuy(expectedSalePrice, category);
               
               // Guard: maxBuy must be < sellPrice
               if (maxBuyPrice >= expectedSalePrice) maxBuyPrice = Math.floor(expectedSalePrice * 0.5);
@@ -404,16 +451,9 @@ export default function BatchScanPage() {
                 const parts = estimatedValue.split('-');
                 const expectedSalePrice = parseFloat(parts[parts.length - 1] || parts[0]);
                 
-                const feeRate = getCategoryFeeRate(category);
-                const shippingCost = getShippingAllowance(category);
-                const fixedCosts = 2;
-                
                 setBaseSellPrice(expectedSalePrice);
                 
-                const profitGoal = expectedSalePrice * (profitPercent / 100);
-                const fees = expectedSalePrice * feeRate;
-                let maxBuyPrice = Math.floor(expectedSalePrice - fees - shippingCost - fixedCosts - profitGoal);
-                if (maxBuyPrice < 0) maxBuyPrice = 0;
+                let maxBuyPrice = computeBatchMaxBuy(expectedSalePrice, category);
                 
                 // GUARD: maxBuy must be < sellPrice
                 if (maxBuyPrice >= expectedSalePrice) {
@@ -443,16 +483,9 @@ export default function BatchScanPage() {
               const parts = estimatedValue.split('-');
               const expectedSalePrice = parseFloat(parts[parts.length - 1] || parts[0]);
               
-              const feeRate = getCategoryFeeRate(category);
-              const shippingCost = getShippingAllowance(category);
-              const fixedCosts = 2;
-              
               setBaseSellPrice(expectedSalePrice);
               
-              const profitGoal = expectedSalePrice * (profitPercent / 100);
-              const fees = expectedSalePrice * feeRate;
-              let maxBuyPrice = Math.floor(expectedSalePrice - fees - shippingCost - fixedCosts - profitGoal);
-              if (maxBuyPrice < 0) maxBuyPrice = 0;
+              let maxBuyPrice = computeBatchMaxBuy(expectedSalePrice, category);
               
               // GUARD: maxBuy must be < sellPrice
               if (maxBuyPrice >= expectedSalePrice) {
@@ -532,14 +565,7 @@ export default function BatchScanPage() {
         const expectedSalePrice = priceGuideData.debug.expectedSalePrice;
         setBaseSellPrice(expectedSalePrice);
         
-        const feeRate = getCategoryFeeRate(identifiedCategory);
-        const shippingCost = getShippingAllowance(identifiedCategory);
-        const fixedCosts = 2;
-        
-        const profitGoal = expectedSalePrice * (profitPercent / 100);
-        const fees = expectedSalePrice * feeRate;
-        let maxBuyPrice = Math.floor(expectedSalePrice - fees - shippingCost - fixedCosts - profitGoal);
-        if (maxBuyPrice < 0) maxBuyPrice = 0;
+        let maxBuyPrice = computeBatchMaxBuy(expectedSalePrice, identifiedCategory);
         
         if (maxBuyPrice >= expectedSalePrice) {
           setSuggestedMaxPrice(null);
@@ -562,7 +588,7 @@ export default function BatchScanPage() {
     } finally {
       setIsRefetchingPrice(false);
     }
-  }, [identifiedTitle, identifiedCategory, isRefetchingPrice, profitPercent]);
+  }, [identifiedTitle, identifiedCategory, isRefetchingPrice, profitPercent, decisionProfile]);
 
   // Handle condition toggle
   const handleConditionChange = useCallback((newCondition: 'used' | 'new') => {
@@ -595,7 +621,8 @@ export default function BatchScanPage() {
     setIsCapturing(true);
     let addedCount = 0;
     const items = batchData?.items || [];
-    const maxToAdd = Math.min(files.length, 20 - items.length);
+    const photoCount = items.filter(i => i.inputType !== 'url').length;
+    const maxToAdd = Math.min(files.length, MAX_BATCH_PHOTOS - photoCount, MAX_BATCH_ITEMS - items.length);
     
     for (let i = 0; i < maxToAdd; i++) {
       const file = files[i];
@@ -633,27 +660,26 @@ export default function BatchScanPage() {
     galleryInputRef.current?.click();
   }, []);
 
-  // Start processing all pending items
-  const handleStartProcessing = async () => {
+  // Submit all pending items to the server-side queue
+  const handleStartProcessing = () => {
     const pendingItems = items.filter(i => i.status === 'pending');
     if (pendingItems.length === 0) {
       toast({ title: "No items to process", variant: "destructive" });
       return;
     }
     
-    setIsProcessing(true);
-    processNextItem();
+    processMutation.mutate();
   };
 
-  const processNextItem = async () => {
-    try {
-      const result = await processMutation.mutateAsync();
-      if (!result.complete) {
-        setTimeout(processNextItem, 500);
-      }
-    } catch {
-      setIsProcessing(false);
+  const handleAddLinks = () => {
+    const urls = Array.from(new Set(
+      linksText.split(/\s+/).filter(line => /^https?:\/\//i.test(line))
+    ));
+    if (urls.length === 0) {
+      toast({ title: "Paste at least one eBay listing link", variant: "destructive" });
+      return;
     }
+    addLinksMutation.mutate(urls);
   };
 
   const session = batchData?.session;
@@ -668,6 +694,8 @@ export default function BatchScanPage() {
     !batchItem.itemId || !userDecidedItemIds.has(batchItem.itemId)
   );
   const pendingCount = items.filter(i => i.status === 'pending').length;
+  const allItems = batchData?.items || [];
+  const photosFull = allItems.filter(i => i.inputType !== 'url').length >= MAX_BATCH_PHOTOS || allItems.length >= MAX_BATCH_ITEMS;
   const completedCount = items.filter(i => i.status === 'completed').length;
   const failedCount = items.filter(i => i.status === 'failed').length;
   const progress = items.length > 0 ? ((completedCount + failedCount) / items.length) * 100 : 0;
@@ -692,7 +720,7 @@ export default function BatchScanPage() {
             <Sparkles className="w-12 h-12 mx-auto mb-4 text-primary" />
             <h2 className="text-xl font-bold mb-2">Batch Scanning is Pro Only</h2>
             <p className="text-muted-foreground mb-4">
-              Upgrade to Pro to scan up to 20 items at once during sourcing trips.
+              Upgrade to Pro to scan up to {MAX_BATCH_ITEMS} items at once during sourcing trips.
             </p>
             <Button onClick={() => setLocation('/settings')} data-testid="button-upgrade-pro">
               Upgrade to Pro - $24.99/mo
@@ -785,7 +813,7 @@ export default function BatchScanPage() {
                 <Button
                   className="flex-1 bg-green-500 text-white"
                   onClick={handleScanClick}
-                  disabled={isCapturing || scanAndAnalyzeMutation.isPending || isProcessing || items.length >= 20}
+                  disabled={isCapturing || scanAndAnalyzeMutation.isPending || isProcessing || photosFull}
                   data-testid="button-batch-scan"
                 >
                   {isCapturing || scanAndAnalyzeMutation.isPending ? (
@@ -793,12 +821,14 @@ export default function BatchScanPage() {
                   ) : (
                     <Camera className="w-4 h-4 mr-2" />
                   )}
-                  {scanAndAnalyzeMutation.isPending ? 'Analyzing...' : 'Scan & Analyze'}
+                  {scanAndAnalyzeMutation.isPending
+                    ? (scanStage.stage ? SCAN_STAGE_LABELS[scanStage.stage] : 'Analyzing...')
+                    : 'Scan & Analyze'}
                 </Button>
                 <Button
                   variant="outline"
                   onClick={handleUploadClick}
-                  disabled={isCapturing || scanAndAnalyzeMutation.isPending || isProcessing || items.length >= 20}
+                  disabled={isCapturing || scanAndAnalyzeMutation.isPending || isProcessing || photosFull}
                   data-testid="button-batch-upload"
                 >
                   {isCapturing ? (
@@ -808,10 +838,19 @@ export default function BatchScanPage() {
                   )}
                   Upload
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowLinksModal(true)}
+                  disabled={isProcessing || allItems.length >= MAX_BATCH_ITEMS}
+                  data-testid="button-batch-add-links"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Links
+                </Button>
               </div>
               
               <p className="text-xs text-muted-foreground">
-                {items.length}/20 items • Scan instantly analyzes each item
+                {allItems.length}/{MAX_BATCH_ITEMS} items • Scan instantly analyzes each item
               </p>
             </Card>
           </>
@@ -844,7 +883,7 @@ export default function BatchScanPage() {
                   <div>
                     <p className="font-medium">Processing batch...</p>
                     <p className="text-sm text-muted-foreground">
-                      {completedCount + failedCount} of {items.length} complete
+                      {completedCount + failedCount} of {items.length} complete • safe to close the app
                     </p>
                   </div>
                 </div>
@@ -1057,12 +1096,45 @@ export default function BatchScanPage() {
             <Camera className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <h3 className="text-lg font-semibold mb-2">Batch Mode Active</h3>
             <p className="text-muted-foreground text-sm">
-              Rapid-fire decisions. Up to 20 items queued.
+              Rapid-fire decisions. Up to {MAX_BATCH_PHOTOS} photos or {MAX_BATCH_ITEMS} eBay links queued.
             </p>
           </Card>
         )}
       </div>
       
+      {/* Paste eBay links modal */}
+      <Dialog open={showLinksModal} onOpenChange={setShowLinksModal}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add eBay Links</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="batch-links">One listing link per line</Label>
+            <Textarea
+              id="batch-links"
+              value={linksText}
+              onChange={(e) => setLinksText(e.target.value)}
+              placeholder="https://www.ebay.com/itm/123456789"
+              rows={8}
+              data-testid="input-batch-links"
+            />
+            <p className="text-xs text-muted-foreground">
+              {MAX_BATCH_ITEMS - allItems.length} more items fit in this batch
+            </p>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleAddLinks}
+              disabled={addLinksMutation.isPending || !linksText.trim()}
+              data-testid="button-confirm-add-links"
+            >
+              {addLinksMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add to Queue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Price Range Modal */}
       <Dialog open={showCostModal} onOpenChange={(open) => {
         if (!open) {
@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { useExpenses, useExpenseSummary, useCreateExpense, useDeleteExpense, useUpdateExpense, useInventory, type BusinessExpense } from "@/hooks/use-items";
+import { useExpenses, useExpenseSummary, useCreateExpense, useDeleteExpense, useUpdateExpense, useInventory, useSourcingLocations, useMileageTrips, useCreateMileageTrip, useDeleteMileageTrip, type BusinessExpense } from "@/hooks/use-items";
 import { BottomNav } from "@/components/BottomNav";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,13 +9,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Plus, Trash2, Car, Package, DollarSign, Calculator, Download, ChevronDown, TrendingUp, Settings, Pencil, Calendar, FileText } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Trash2, Car, Package, DollarSign, Calculator, Download, ChevronDown, TrendingUp, Settings, Pencil, Calendar, FileText, MapPin, Route, X, ScanLine } from "lucide-react";
 import { HistoryPageSkeleton } from "@/components/ScanLoadingSkeleton";
+import { ReceiptScanDialog } from "@/components/ReceiptScanDialog";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
 import { MarginLogoFull } from "@/components/MarginLogo";
 import { Link } from "wouter";
 import { format, getMonth, parseISO } from "date-fns";
+import { isDisposedStatus, isSoldStatus, getInventoryStatusLabel } from "@shared/inventoryLifecycle";
+import { EXPENSE_CATEGORY_LINES, SCHEDULE_C_LINES } from "@shared/scheduleC";
+import { getMileageRate, computeTripMileage, calculateMileageDeduction, tripStopPurposes, type TripStopPurpose } from "@shared/mileage";
+import type { ExpenseCategory } from "@shared/schema";
 
 const MONTHS = [
   { value: 'all', label: 'All Months' },
@@ -45,20 +51,22 @@ const EXPENSE_CATEGORIES = [
   { value: 'other', label: 'Other', icon: Package },
 ] as const;
 
-const IRS_MILEAGE_RATE_2025 = 0.70; // 2025 IRS standard mileage rate
-
-const SCHEDULE_C_MAPPING: Record<string, { line: string; description: string }> = {
-  mileage: { line: 'Line 9', description: 'Car and truck expenses' },
-  shipping_supplies: { line: 'Line 22', description: 'Supplies' },
-  platform_fees: { line: 'Line 10', description: 'Commissions and fees' },
-  software: { line: 'Line 27a', description: 'Other expenses - Software' },
-  equipment: { line: 'Line 13', description: 'Depreciation and section 179 expense' },
-  office_supplies: { line: 'Line 18', description: 'Office expense' },
-  storage: { line: 'Line 20b', description: 'Rent or lease - Other business property' },
-  education: { line: 'Line 27a', description: 'Other expenses - Education' },
-  other: { line: 'Line 27a', description: 'Other expenses' },
+const STOP_PURPOSE_LABELS: Record<TripStopPurpose, string> = {
+  sourcing: 'Sourcing',
+  shipping: 'Shipping',
+  supplies: 'Supplies',
+  personal: 'Personal',
 };
 
+interface TripStopForm {
+  sourcingLocationId: number | null;
+  label: string;
+  purpose: TripStopPurpose;
+  legMiles: string;
+}
+
+const emptyStop = (): TripStopForm => ({ sourcingLocationId: null, label: '', purpose: 'sourcing', legMiles: '' });
+
 export default function ExpensesPage() {
   const currentYear = new Date().getFullYear();
   const currentMonth = new Date().getMonth();
@@ -67,6 +75,10 @@ export default function ExpensesPage() {
   const { data: expenses, isLoading } = useExpenses(selectedYear);
   const { data: summary } = useExpenseSummary(selectedYear);
   const { data: inventory } = useInventory();
+  const { data: sourcingLocations } = useSourcingLocations();
+  const { data: trips } = useMileageTrips(selectedYear);
+  const createTrip = useCreateMileageTrip();
+  const deleteTrip = useDeleteMileageTrip();
   const createExpense = useCreateExpense();
   const deleteExpense = useDeleteExpense();
   const updateExpense = useUpdateExpense();
@@ -87,6 +99,28 @@ export default function ExpensesPage() {
   const [formEndLocation, setFormEndLocation] = useState('');
   const [formNotes, setFormNotes] = useState('');
 
+  const [tripModalOpen, setTripModalOpen] = useState(false);
+  const [receiptModalOpen, setReceiptModalOpen] = useState(false);
+  const [tripDate, setTripDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [tripStart, setTripStart] = useState('Home');
+  const [tripRoundTrip, setTripRoundTrip] = useState(true);
+  const [tripReturnMiles, setTripReturnMiles] = useState('');
+  const [tripNotes, setTripNotes] = useState('');
+  const [tripStops, setTripStops] = useState<TripStopForm[]>([emptyStop()]);
+
+  // The rate in force on the expense date; the server stamps its own copy on save
+  const formRate = getMileageRate(formDate).rate;
+  const tripRate = getMileageRate(tripDate).rate;
+
+  const tripPreview = useMemo(() => computeTripMileage(
+    tripStops.map(stop => ({ legMiles: parseFloat(stop.legMiles) || 0, purpose: stop.purpose })),
+    { roundTrip: tripRoundTrip, returnMiles: parseFloat(tripReturnMiles) || 0 }
+  ), [tripStops, tripRoundTrip, tripReturnMiles]);
+
+  const tripExpenseIds = useMemo(() => {
+    return new Set((trips ?? []).map(trip => trip.expenseId).filter((id): id is number => id !== null));
+  }, [trips]);
+
   const filteredExpenses = useMemo(() => {
     if (!expenses) return [];
     if (selectedMonth === 'all') return expenses;
@@ -140,12 +174,27 @@ export default function ExpensesPage() {
   const soldItemsThisYear = useMemo(() => {
     if (!inventory) return [];
     return inventory.filter(item => {
-      if (item.status !== 'sold' || !item.soldDate) return false;
+      if (!isSoldStatus(item.status) || !item.soldDate) return false;
       const soldYear = new Date(item.soldDate).getFullYear();
       return soldYear === selectedYear;
     });
   }, [inventory, selectedYear]);
 
+  // Donated and written-off inventory leaves the books at cost (part of COGS, no revenue)
+  const disposedItemsThisYear = useMemo(() => {
+    if (!inventory) return [];
+    return inventory.filter(item => {
+      if (!isDisposedStatus(item.status) || !item.disposedDate) return false;
+      return new Date(item.disposedDate).getFullYear() === selectedYear;
+    });
+  }, [inventory, selectedYear]);
+
+  const inventoryLosses = useMemo(() => {
+    return disposedItemsThisYear.reduce((sum, item) => {
+      return sum + parseFloat(item.purchasePrice || '0');
+    }, 0);
+  }, [disposedItemsThisYear]);
+
   const grossRevenue = useMemo(() => {
     return soldItemsThisYear.reduce((sum, item) => {
       return sum + parseFloat(item.actualSalePrice || '0');
@@ -155,8 +204,8 @@ export default function ExpensesPage() {
   const costOfGoodsSold = useMemo(() => {
     return soldItemsThisYear.reduce((sum, item) => {
       return sum + parseFloat(item.purchasePrice || '0');
-    }, 0);
-  }, [soldItemsThisYear]);
+    }, inventoryLosses);
+  }, [soldItemsThisYear, inventoryLosses]);
 
   const grossProfit = grossRevenue - costOfGoodsSold;
   const netProfit = grossProfit - ytdTotal;
@@ -200,7 +249,7 @@ export default function ExpensesPage() {
 
     let amount = formAmount;
     if (formCategory === 'mileage' && formMiles) {
-      amount = String(parseFloat(formMiles) * IRS_MILEAGE_RATE_2025);
+      amount = String(calculateMileageDeduction(parseFloat(formMiles), formRate));
     }
 
     if (!amount || parseFloat(amount) <= 0) {
@@ -214,7 +263,6 @@ export default function ExpensesPage() {
       amount,
       date: formDate,
       miles: formCategory === 'mileage' ? formMiles : undefined,
-      mileageRate: formCategory === 'mileage' ? String(IRS_MILEAGE_RATE_2025) : undefined,
       startLocation: formCategory === 'mileage' ? formStartLocation : undefined,
       endLocation: formCategory === 'mileage' ? formEndLocation : undefined,
       notes: formNotes || undefined,
@@ -255,7 +303,7 @@ export default function ExpensesPage() {
 
     let amount = formAmount;
     if (formCategory === 'mileage' && formMiles) {
-      amount = String(parseFloat(formMiles) * IRS_MILEAGE_RATE_2025);
+      amount = String(calculateMileageDeduction(parseFloat(formMiles), formRate));
     }
 
     if (!amount || parseFloat(amount) <= 0) {
@@ -270,7 +318,6 @@ export default function ExpensesPage() {
       amount,
       date: formDate,
       miles: formCategory === 'mileage' ? formMiles : null,
-      mileageRate: formCategory === 'mileage' ? String(IRS_MILEAGE_RATE_2025) : null,
       startLocation: formCategory === 'mileage' ? formStartLocation : null,
       endLocation: formCategory === 'mileage' ? formEndLocation : null,
       notes: formNotes || null,
@@ -310,6 +357,59 @@ export default function ExpensesPage() {
     toast({ title: "Exported", description: `${expenses.length} expenses exported to CSV` });
   };
 
+  // Mileage split by the IRS rate each expense was stamped with (rates change by date)
+  const mileageByRate = useMemo(() => {
+    const byRate = new Map<number, number>();
+    expenses?.filter(e => e.category === 'mileage').forEach(e => {
+      const rate = e.mileageRate ? parseFloat(e.mileageRate) : getMileageRate(e.date).rate;
+      byRate.set(rate, (byRate.get(rate) ?? 0) + parseFloat(e.miles || '0'));
+    });
+    return Array.from(byRate.entries())
+      .map(([rate, miles]) => ({ rate, miles }))
+      .sort((a, b) => a.rate - b.rate);
+  }, [expenses]);
+
+  const resetTripForm = () => {
+    setTripDate(format(new Date(), 'yyyy-MM-dd'));
+    setTripStart('Home');
+    setTripRoundTrip(true);
+    setTripReturnMiles('');
+    setTripNotes('');
+    setTripStops([emptyStop()]);
+  };
+
+  const updateTripStop = (index: number, updates: Partial<TripStopForm>) => {
+    setTripStops(stops => stops.map((stop, i) => i === index ? { ...stop, ...updates } : stop));
+  };
+
+  const handleLogTrip = async () => {
+    if (tripStops.some(stop => !stop.sourcingLocationId && !stop.label.trim())) {
+      toast({ variant: "destructive", title: "Every stop needs a location or a name" });
+      return;
+    }
+    if (tripPreview.totalMiles <= 0) {
+      toast({ variant: "destructive", title: "Miles required" });
+      return;
+    }
+
+    await createTrip.mutateAsync({
+      date: tripDate,
+      startLocation: tripStart || 'Home',
+      roundTrip: tripRoundTrip,
+      returnMiles: tripRoundTrip ? parseFloat(tripReturnMiles) || 0 : 0,
+      notes: tripNotes || undefined,
+      stops: tripStops.map(stop => ({
+        sourcingLocationId: stop.sourcingLocationId ?? undefined,
+        label: stop.label.trim() || undefined,
+        purpose: stop.purpose,
+        legMiles: parseFloat(stop.legMiles) || 0,
+      })),
+    });
+
+    setTripModalOpen(false);
+    resetTripForm();
+  };
+
   const handleExportScheduleC = () => {
     const expensesByCategory: Record<string, number> = {};
     expenses?.forEach(e => {
@@ -321,12 +421,13 @@ export default function ExpensesPage() {
 
     const scheduleByLine: Record<string, { description: string; amount: number }> = {};
     Object.entries(expensesByCategory).forEach(([category, amount]) => {
-      const mapping = SCHEDULE_C_MAPPING[category];
+      const mapping = EXPENSE_CATEGORY_LINES[category as ExpenseCategory];
       if (mapping) {
-        if (!scheduleByLine[mapping.line]) {
-          scheduleByLine[mapping.line] = { description: mapping.description, amount: 0 };
+        const line = `Line ${mapping.line}`;
+        if (!scheduleByLine[line]) {
+          scheduleByLine[line] = { description: SCHEDULE_C_LINES[mapping.line], amount: 0 };
         }
-        scheduleByLine[mapping.line].amount += amount;
+        scheduleByLine[line].amount += amount;
       }
     });
 
@@ -363,6 +464,9 @@ export default function ExpensesPage() {
     report += `${'='.repeat(60)}\n`;
     report += `Gross Revenue:.............. $${grossRevenue.toFixed(2)}\n`;
     report += `Cost of Goods Sold:......... $${costOfGoodsSold.toFixed(2)}\n`;
+    if (inventoryLosses > 0) {
+      report += `  incl. donated/written off:  $${inventoryLosses.toFixed(2)}\n`;
+    }
     report += `Gross Profit:............... $${grossProfit.toFixed(2)}\n`;
     report += `Total Expenses:............. $${ytdTotal.toFixed(2)}\n`;
     report += `-`.repeat(40) + `\n`;
@@ -379,8 +483,22 @@ export default function ExpensesPage() {
       report += `${soldDate} ${title} Cost: $${cost.toFixed(2)} Sale: $${sale.toFixed(2)} Profit: $${profit.toFixed(2)}\n`;
     });
 
+    if (disposedItemsThisYear.length > 0) {
+      report += `\nDETAIL - DONATED / WRITTEN OFF (${disposedItemsThisYear.length} items)\n`;
+      report += `-`.repeat(40) + `\n`;
+      disposedItemsThisYear.forEach(item => {
+        const disposedDate = item.disposedDate ? format(new Date(item.disposedDate), 'MM/dd') : 'N/A';
+        const title = item.title.substring(0, 35).padEnd(35);
+        const cost = parseFloat(item.purchasePrice || '0');
+        report += `${disposedDate} ${title} ${getInventoryStatusLabel(item.status)}: -$${cost.toFixed(2)}\n`;
+      });
+    }
+
     report += `\n${'='.repeat(60)}\n`;
-    report += `Total Mileage: ${ytdMileage.toFixed(0)} miles @ $${IRS_MILEAGE_RATE_2025}/mile\n`;
+    report += `Total Mileage: ${ytdMileage.toFixed(0)} miles\n`;
+    mileageByRate.forEach(({ rate, miles }) => {
+      report += `  ${miles.toFixed(0)} miles @ $${rate}/mile\n`;
+    });
     report += `This report is for informational purposes. Consult a tax professional.\n`;
 
     const blob = new Blob([report], { type: 'text/plain' });
@@ -483,6 +601,22 @@ export default function ExpensesPage() {
               <Plus className="w-4 h-4 mr-2" />
               Add Expense
             </Button>
+            <Button 
+              variant="outline"
+              onClick={() => setTripModalOpen(true)}
+              data-testid="button-log-trip"
+            >
+              <Route className="w-4 h-4 mr-1" />
+              Trip
+            </Button>
+            <Button 
+              variant="outline"
+              size="icon"
+              onClick={() => setReceiptModalOpen(true)}
+              data-testid="button-scan-receipt"
+            >
+              <ScanLine className="w-4 h-4" />
+            </Button>
             <Button 
               variant="outline" 
               onClick={handleExportCSV}
@@ -526,6 +660,50 @@ export default function ExpensesPage() {
           </Card>
         )}
 
+        {trips && trips.length > 0 && (
+          <Card className="p-4" data-testid="card-trips">
+            <h3 className="font-semibold mb-3 flex items-center gap-2">
+              <Route className="w-4 h-4" />
+              Trips ({trips.length})
+            </h3>
+            <div className="space-y-3">
+              {trips.map(trip => (
+                <div key={trip.id} className="flex justify-between items-start gap-2" data-testid={`row-trip-${trip.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(trip.date), 'MMM d, yyyy')} · {trip.deductibleMiles} of {trip.totalMiles} mi deductible
+                    </p>
+                    <p className="text-sm truncate">
+                      {[trip.startLocation, ...trip.stops.map(stop => stop.label), ...(trip.roundTrip ? [trip.startLocation] : [])].join(' → ')}
+                    </p>
+                    {trip.stops.some(stop => parseFloat(stop.mileageCost || '0') > 0 && stop.sourcingLocationId) && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {trip.stops
+                          .filter(stop => stop.sourcingLocationId && parseFloat(stop.mileageCost || '0') > 0)
+                          .map(stop => `${stop.label}: $${parseFloat(stop.mileageCost || '0').toFixed(2)}`)
+                          .join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className="font-mono font-medium">${parseFloat(trip.amount).toFixed(2)}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteTrip.mutate(trip.id)}
+                      disabled={deleteTrip.isPending}
+                      data-testid={`button-delete-trip-${trip.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {isLoading ? (
           <HistoryPageSkeleton />
         ) : filteredExpenses.length > 0 ? (
@@ -562,15 +740,17 @@ export default function ExpensesPage() {
                     <div className="text-right flex-shrink-0">
                       <p className="font-mono font-bold text-lg">${parseFloat(expense.amount).toFixed(2)}</p>
                       <div className="flex gap-1 mt-1 justify-end">
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="text-muted-foreground"
-                          onClick={() => openEditModal(expense)}
-                          data-testid={`button-edit-expense-${expense.id}`}
-                        >
-                          <Pencil className="w-4 h-4" />
-                        </Button>
+                        {!tripExpenseIds.has(expense.id) && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="text-muted-foreground"
+                            onClick={() => openEditModal(expense)}
+                            data-testid={`button-edit-expense-${expense.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           size="icon"
                           variant="ghost"
@@ -698,8 +878,8 @@ export default function ExpensesPage() {
                   />
                   {formMiles && (
                     <p className="text-xs text-muted-foreground mt-1">
-                      Deduction: ${(parseFloat(formMiles) * IRS_MILEAGE_RATE_2025).toFixed(2)} 
-                      <span className="ml-1">(@ ${IRS_MILEAGE_RATE_2025}/mi)</span>
+                      Deduction: ${calculateMileageDeduction(parseFloat(formMiles) || 0, formRate).toFixed(2)} 
+                      <span className="ml-1">(@ ${formRate}/mi)</span>
                     </p>
                   )}
                 </div>
@@ -828,8 +1008,8 @@ export default function ExpensesPage() {
                   />
                   {formMiles && (
                     <p className="text-xs text-muted-foreground mt-1">
-                      Deduction: ${(parseFloat(formMiles) * IRS_MILEAGE_RATE_2025).toFixed(2)} 
-                      <span className="ml-1">(@ ${IRS_MILEAGE_RATE_2025}/mi)</span>
+                      Deduction: ${calculateMileageDeduction(parseFloat(formMiles) || 0, formRate).toFixed(2)} 
+                      <span className="ml-1">(@ ${formRate}/mi)</span>
                     </p>
                   )}
                 </div>
@@ -877,6 +1057,182 @@ export default function ExpensesPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={tripModalOpen} onOpenChange={(open) => {
+        setTripModalOpen(open);
+        if (!open) resetTripForm();
+      }}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Log Trip</DialogTitle>
+            <DialogDescription>
+              Each stop's miles are charged to the inventory you bought there that day.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Date</Label>
+                <Input 
+                  type="date"
+                  value={tripDate}
+                  onChange={(e) => setTripDate(e.target.value)}
+                  data-testid="input-trip-date"
+                />
+              </div>
+              <div>
+                <Label>Start</Label>
+                <Input 
+                  placeholder="Home"
+                  value={tripStart}
+                  onChange={(e) => setTripStart(e.target.value)}
+                  data-testid="input-trip-start"
+                />
+              </div>
+            </div>
+
+            {tripStops.map((stop, index) => (
+              <div key={index} className="rounded-lg border border-border/50 p-3 space-y-2" data-testid={`trip-stop-${index}`}>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium flex items-center gap-1">
+                    <MapPin className="w-3 h-3" />
+                    Stop {index + 1}
+                  </span>
+                  {tripStops.length > 1 && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 text-muted-foreground"
+                      onClick={() => setTripStops(stops => stops.filter((_, i) => i !== index))}
+                      data-testid={`button-remove-stop-${index}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+                <Select
+                  value={stop.sourcingLocationId ? String(stop.sourcingLocationId) : 'other'}
+                  onValueChange={(v) => updateTripStop(index, { sourcingLocationId: v === 'other' ? null : parseInt(v) })}
+                >
+                  <SelectTrigger data-testid={`select-stop-location-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="other">Other place</SelectItem>
+                    {sourcingLocations?.map(location => (
+                      <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!stop.sourcingLocationId && (
+                  <Input 
+                    placeholder="Post office"
+                    value={stop.label}
+                    onChange={(e) => updateTripStop(index, { label: e.target.value })}
+                    data-testid={`input-stop-label-${index}`}
+                  />
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={stop.purpose} onValueChange={(v) => updateTripStop(index, { purpose: v as TripStopPurpose })}>
+                    <SelectTrigger data-testid={`select-stop-purpose-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tripStopPurposes.map(purpose => (
+                        <SelectItem key={purpose} value={purpose}>{STOP_PURPOSE_LABELS[purpose]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input 
+                    type="number"
+                    placeholder="Miles from last stop"
+                    value={stop.legMiles}
+                    onChange={(e) => updateTripStop(index, { legMiles: e.target.value })}
+                    data-testid={`input-stop-miles-${index}`}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setTripStops(stops => [...stops, emptyStop()])}
+              disabled={tripStops.length >= 20}
+              data-testid="button-add-stop"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Stop
+            </Button>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="trip-round-trip">Return to start</Label>
+              <Switch
+                id="trip-round-trip"
+                checked={tripRoundTrip}
+                onCheckedChange={setTripRoundTrip}
+                data-testid="switch-trip-round-trip"
+              />
+            </div>
+            {tripRoundTrip && (
+              <div>
+                <Label>Return Miles</Label>
+                <Input 
+                  type="number"
+                  placeholder="8"
+                  value={tripReturnMiles}
+                  onChange={(e) => setTripReturnMiles(e.target.value)}
+                  data-testid="input-trip-return-miles"
+                />
+              </div>
+            )}
+
+            <div>
+              <Label>Notes (optional)</Label>
+              <Textarea 
+                placeholder="Additional details..."
+                value={tripNotes}
+                onChange={(e) => setTripNotes(e.target.value)}
+                data-testid="input-trip-notes"
+              />
+            </div>
+
+            <div className="bg-muted/50 rounded-lg p-3 text-sm space-y-1" data-testid="trip-preview">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total miles</span>
+                <span className="font-mono">{tripPreview.totalMiles}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Deductible miles</span>
+                <span className="font-mono">{tripPreview.deductibleMiles}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Deduction (@ ${tripRate}/mi)</span>
+                <span className="font-mono">${calculateMileageDeduction(tripPreview.deductibleMiles, tripRate).toFixed(2)}</span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTripModalOpen(false)}>Cancel</Button>
+            <Button 
+              onClick={handleLogTrip}
+              disabled={createTrip.isPending}
+              data-testid="button-save-trip"
+            >
+              {createTrip.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Trip
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ReceiptScanDialog
+        open={receiptModalOpen}
+        onOpenChange={setReceiptModalOpen}
+        categories={EXPENSE_CATEGORIES}
+      />
+
       <Dialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <DialogContent className="max-w-sm">
           <DialogHeader>
@@ -7,37 +7,26 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Download, FileSpreadsheet, FileText, Calendar, TrendingUp, DollarSign, ShoppingCart, AlertCircle } from "lucide-react";
+import { Download, FileSpreadsheet, FileText, Calendar, TrendingUp, DollarSign, Package, AlertCircle, Printer } from "lucide-react";
+import type { ScheduleCReport } from "@shared/scheduleC";
+import { api, expenseCategories } from "@shared/routes";
+import {
+  exportDatasets, exportFileFormats, journalStyles, EXPORT_DATASET_LABELS, EXPORT_FORMAT_LABELS, JOURNAL_STYLE_LABELS,
+  type ExportDataset, type ExportFileFormat, type JournalStyle,
+} from "@shared/dataExport";
 
-interface TaxReport {
-  year: number;
-  summary: {
-    totalScans: number;
-    totalFlips: number;
-    totalSkips: number;
-    totalCost: number;
-    totalRevenue: number;
-    totalProfit: number;
-    totalFees: number;
-    netIncome: number;
-    averageMargin: number;
-  };
-  categoryBreakdown: Array<{
-    category: string;
-    count: number;
-    cost: number;
-    revenue: number;
-    profit: number;
-  }>;
-  monthlyBreakdown: Array<{
-    month: string;
-    count: number;
-    cost: number;
-    revenue: number;
-    profit: number;
-  }>;
-  disclaimer: string;
-}
+const ITEM_CATEGORIES = ["Shoes", "Watches", "Trading Cards", "Collectibles", "Electronics", "Other"];
+
+const DATASET_DESCRIPTIONS: Record<ExportDataset, string> = {
+  inventory: "Every inventory item with cost, sale and profit (filtered by purchase date)",
+  sales: "Sold items with fees, shipping and net profit (filtered by sold date)",
+  expenses: "Business expenses, including mileage",
+  scans: "Your scan history with decisions",
+  batches: "Batch scan sessions, one row per scanned item",
+  journal: "Double-entry journal - sales, COGS, fees, shipping, purchases and expenses - ready to import",
+};
+
+type TaxReport = ScheduleCReport & { disclaimer: string };
 
 export default function ExportPage() {
   const { toast } = useToast();
@@ -46,6 +35,9 @@ export default function ExportPage() {
   const [csvStartDate, setCsvStartDate] = useState("");
   const [csvEndDate, setCsvEndDate] = useState("");
   const [csvCategory, setCsvCategory] = useState("all");
+  const [dataset, setDataset] = useState<ExportDataset>("inventory");
+  const [fileFormat, setFileFormat] = useState<ExportFileFormat>("csv");
+  const [journalStyle, setJournalStyle] = useState<JournalStyle>("quickbooks");
   const [isExporting, setIsExporting] = useState(false);
 
   const { data: user, isLoading: userLoading } = useQuery<{ subscriptionTier?: string; isAdmin?: boolean }>({
@@ -73,11 +65,14 @@ export default function ExportPage() {
     setIsExporting(true);
     try {
       const params = new URLSearchParams();
-      if (csvStartDate) params.append("startDate", csvStartDate);
-      if (csvEndDate) params.append("endDate", csvEndDate);
+      params.append("dataset", dataset);
+      params.append("format", fileFormat);
+      if (dataset === "journal") params.append("journalStyle", journalStyle);
+      if (csvStartDate) params.append("from", csvStartDate);
+      if (csvEndDate) params.append("to", csvEndDate);
       if (csvCategory !== "all") params.append("category", csvCategory);
 
-      const res = await fetch(`/api/export/csv?${params.toString()}`);
+      const res = await fetch(`${api.exports.download.path}?${params.toString()}`);
       if (!res.ok) {
         if (res.status === 403) {
           toast({
@@ -87,25 +82,28 @@ export default function ExportPage() {
           });
           return;
         }
-        throw new Error("Export failed");
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || "Export failed");
       }
 
       const blob = await res.blob();
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1]
+        ?? `margin-${dataset}-${new Date().toISOString().split("T")[0]}.${fileFormat}`;
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `margin-export-${new Date().toISOString().split("T")[0]}.csv`;
+      a.download = filename;
       a.click();
       window.URL.revokeObjectURL(url);
 
       toast({
         title: "Export Complete",
-        description: "Your scan history has been downloaded.",
+        description: `${EXPORT_DATASET_LABELS[dataset]} downloaded as ${EXPORT_FORMAT_LABELS[fileFormat]}.`,
       });
     } catch (err) {
       toast({
         title: "Export Failed",
-        description: "Could not export data. Please try again.",
+        description: err instanceof Error && err.message !== "Export failed" ? err.message : "Could not export data. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -113,22 +111,22 @@ export default function ExportPage() {
     }
   };
 
-  const handleTaxDownload = async () => {
+  const handleTaxCsvDownload = async () => {
     try {
-      const res = await fetch(`/api/export/tax-report/download?year=${selectedYear}`);
+      const res = await fetch(`/api/export/tax-report/download?year=${selectedYear}&format=csv`);
       if (!res.ok) throw new Error("Download failed");
 
       const blob = await res.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `margin-tax-report-${selectedYear}.txt`;
+      a.download = `margin-schedule-c-${selectedYear}.csv`;
       a.click();
       window.URL.revokeObjectURL(url);
 
       toast({
         title: "Report Downloaded",
-        description: `Tax summary for ${selectedYear} has been downloaded.`,
+        description: `Schedule C package for ${selectedYear} has been downloaded.`,
       });
     } catch (err) {
       toast({
@@ -139,6 +137,11 @@ export default function ExportPage() {
     }
   };
 
+  // Printable version opens in a new tab - print or save as PDF from there
+  const handleTaxPrint = () => {
+    window.open(`/api/export/tax-report/download?year=${selectedYear}&format=html`, "_blank");
+  };
+
   if (userLoading) {
     return (
       <div className="container max-w-2xl mx-auto p-4 pt-8 flex justify-center">
@@ -165,7 +168,7 @@ export default function ExportPage() {
               <div className="text-sm text-muted-foreground">
                 <p>Elite includes:</p>
                 <ul className="mt-2 space-y-1">
-                  <li>CSV data export</li>
+                  <li>CSV, Excel and QuickBooks/Xero exports</li>
                   <li>Annual tax reports</li>
                   <li>Permanent scan history</li>
                   <li>3 team seats</li>
@@ -189,7 +192,7 @@ export default function ExportPage() {
     <div className="container max-w-4xl mx-auto p-4 pb-24">
       <div className="mb-6">
         <h1 className="text-2xl font-bold">Data Export</h1>
-        <p className="text-muted-foreground">Export your scan history and generate tax reports</p>
+        <p className="text-muted-foreground">Export your inventory, sales and expenses and generate tax reports</p>
       </div>
 
       <div className="grid gap-6">
@@ -197,13 +200,65 @@ export default function ExportPage() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <FileSpreadsheet className="w-5 h-5" />
-              Export Scan History
+              Export Data
             </CardTitle>
             <CardDescription>
-              Download your complete scan history as a CSV file for spreadsheet analysis
+              Download your records for spreadsheets, backups or your accounting software
             </CardDescription>
           </CardHeader>
           <CardContent>
+            <div className="grid gap-4 sm:grid-cols-3 mb-4">
+              <div className="space-y-2">
+                <Label>Data</Label>
+                <Select
+                  value={dataset}
+                  onValueChange={(v) => {
+                    setDataset(v as ExportDataset);
+                    setCsvCategory("all");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-export-dataset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {exportDatasets.map((d) => (
+                      <SelectItem key={d} value={d}>{EXPORT_DATASET_LABELS[d]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={fileFormat} onValueChange={(v) => setFileFormat(v as ExportFileFormat)}>
+                  <SelectTrigger data-testid="select-export-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {exportFileFormats.map((f) => (
+                      <SelectItem key={f} value={f}>{EXPORT_FORMAT_LABELS[f]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {dataset === "journal" && (
+                <div className="space-y-2">
+                  <Label>Accounting software</Label>
+                  <Select value={journalStyle} onValueChange={(v) => setJournalStyle(v as JournalStyle)}>
+                    <SelectTrigger data-testid="select-journal-style">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {journalStyles.map((style) => (
+                        <SelectItem key={style} value={style}>{JOURNAL_STYLE_LABELS[style]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground mb-4" data-testid="text-export-description">
+              {DATASET_DESCRIPTIONS[dataset]}
+            </p>
             <div className="grid gap-4 sm:grid-cols-3">
               <div className="space-y-2">
                 <Label htmlFor="startDate">Start Date</Label>
@@ -227,18 +282,19 @@ export default function ExportPage() {
               </div>
               <div className="space-y-2">
                 <Label>Category</Label>
-                <Select value={csvCategory} onValueChange={setCsvCategory}>
+                <Select value={csvCategory} onValueChange={setCsvCategory} disabled={dataset === "batches"}>
                   <SelectTrigger data-testid="select-category">
                     <SelectValue placeholder="All categories" />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Categories</SelectItem>
-                    <SelectItem value="Shoes">Shoes</SelectItem>
-                    <SelectItem value="Watches">Watches</SelectItem>
-                    <SelectItem value="Trading Cards">Trading Cards</SelectItem>
-                    <SelectItem value="Collectibles">Collectibles</SelectItem>
-                    <SelectItem value="Electronics">Electronics</SelectItem>
-                    <SelectItem value="Other">Other</SelectItem>
+                    {dataset === "expenses"
+                      ? expenseCategories.map((c) => (
+                          <SelectItem key={c} value={c} className="capitalize">{c.replace(/_/g, " ")}</SelectItem>
+                        ))
+                      : ITEM_CATEGORIES.map((c) => (
+                          <SelectItem key={c} value={c}>{c}</SelectItem>
+                        ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -250,7 +306,7 @@ export default function ExportPage() {
               data-testid="button-export-csv"
             >
               <Download className="w-4 h-4 mr-2" />
-              {isExporting ? "Exporting..." : "Download CSV"}
+              {isExporting ? "Exporting..." : `Download ${EXPORT_FORMAT_LABELS[fileFormat]}`}
             </Button>
           </CardContent>
         </Card>
@@ -262,7 +318,7 @@ export default function ExportPage() {
               Tax Report
             </CardTitle>
             <CardDescription>
-              Generate an annual summary for tax purposes
+              Schedule C built from your inventory sales, cost of goods sold and expenses
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -284,12 +340,21 @@ export default function ExportPage() {
               </div>
               <Button
                 variant="outline"
-                onClick={handleTaxDownload}
+                onClick={handleTaxCsvDownload}
                 className="mt-6"
                 data-testid="button-download-tax"
               >
                 <Download className="w-4 h-4 mr-2" />
-                Download Report
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleTaxPrint}
+                className="mt-6"
+                data-testid="button-print-tax"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Printable
               </Button>
             </div>
 
@@ -300,20 +365,20 @@ export default function ExportPage() {
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                   <div className="p-4 rounded-lg bg-muted/50">
                     <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
-                      <ShoppingCart className="w-4 h-4" />
-                      Total Flips
+                      <DollarSign className="w-4 h-4" />
+                      Gross Receipts
                     </div>
-                    <div className="text-2xl font-bold" data-testid="text-total-flips">
-                      {taxReport.summary.totalFlips}
+                    <div className="text-2xl font-bold" data-testid="text-total-revenue">
+                      ${taxReport.income.grossReceipts.toLocaleString()}
                     </div>
                   </div>
                   <div className="p-4 rounded-lg bg-muted/50">
                     <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
-                      <DollarSign className="w-4 h-4" />
-                      Total Revenue
+                      <Package className="w-4 h-4" />
+                      COGS
                     </div>
-                    <div className="text-2xl font-bold" data-testid="text-total-revenue">
-                      ${taxReport.summary.totalRevenue.toLocaleString()}
+                    <div className="text-2xl font-bold" data-testid="text-cogs">
+                      ${taxReport.income.costOfGoodsSold.toLocaleString()}
                     </div>
                   </div>
                   <div className="p-4 rounded-lg bg-muted/50">
@@ -322,62 +387,83 @@ export default function ExportPage() {
                       Gross Profit
                     </div>
                     <div className="text-2xl font-bold text-green-600" data-testid="text-gross-profit">
-                      ${taxReport.summary.totalProfit.toLocaleString()}
+                      ${taxReport.income.grossProfit.toLocaleString()}
                     </div>
                   </div>
                   <div className="p-4 rounded-lg bg-muted/50">
                     <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
                       <Calendar className="w-4 h-4" />
-                      Net Income
+                      Net Profit
                     </div>
-                    <div className="text-2xl font-bold text-green-600" data-testid="text-net-income">
-                      ${taxReport.summary.netIncome.toLocaleString()}
+                    <div className={`text-2xl font-bold ${taxReport.netProfit >= 0 ? 'text-green-600' : 'text-red-500'}`} data-testid="text-net-income">
+                      ${taxReport.netProfit.toLocaleString()}
                     </div>
                   </div>
                 </div>
 
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div>
-                    <h3 className="font-medium mb-3">By Category</h3>
+                    <h3 className="font-medium mb-3">Cost of Goods Sold</h3>
                     <div className="space-y-2">
-                      {taxReport.categoryBreakdown.map((cat) => (
+                      {[
+                        { line: '35', label: 'Beginning inventory', amount: taxReport.cogs.beginningInventory },
+                        { line: '36', label: `Purchases (${taxReport.appendix.purchases.length} items)`, amount: taxReport.cogs.purchases },
+                        { line: '41', label: `Ending inventory (${taxReport.appendix.endingInventory.length} items)`, amount: -taxReport.cogs.endingInventory },
+                        { line: '42', label: 'Cost of goods sold', amount: taxReport.cogs.costOfGoodsSold },
+                      ].map((row) => (
                         <div
-                          key={cat.category}
+                          key={row.line}
                           className="flex items-center justify-between p-2 rounded bg-muted/30"
+                          data-testid={`row-cogs-${row.line}`}
                         >
-                          <span className="text-sm">{cat.category}</span>
-                          <div className="flex items-center gap-3">
-                            <Badge variant="secondary">{cat.count} items</Badge>
-                            <span className="text-sm font-medium text-green-600">
-                              +${cat.profit.toFixed(0)}
-                            </span>
-                          </div>
+                          <span className="text-sm">
+                            <Badge variant="secondary" className="mr-2">{row.line}</Badge>
+                            {row.label}
+                          </span>
+                          <span className="text-sm font-medium font-mono">
+                            {row.amount < 0 ? '-' : ''}${Math.abs(row.amount).toFixed(2)}
+                          </span>
                         </div>
                       ))}
                     </div>
                   </div>
 
                   <div>
-                    <h3 className="font-medium mb-3">Monthly Breakdown</h3>
+                    <h3 className="font-medium mb-3">Expenses by Line</h3>
                     <div className="space-y-2 max-h-48 overflow-y-auto">
-                      {taxReport.monthlyBreakdown.map((month) => (
+                      {taxReport.expenseLines.length > 0 ? taxReport.expenseLines.map((line) => (
                         <div
-                          key={month.month}
+                          key={line.line}
                           className="flex items-center justify-between p-2 rounded bg-muted/30"
+                          data-testid={`row-expense-line-${line.line}`}
                         >
-                          <span className="text-sm">{month.month}</span>
-                          <div className="flex items-center gap-3">
-                            <Badge variant="secondary">{month.count} flips</Badge>
-                            <span className="text-sm font-medium text-green-600">
-                              +${month.profit.toFixed(0)}
-                            </span>
-                          </div>
+                          <span className="text-sm">
+                            <Badge variant="secondary" className="mr-2">{line.line}</Badge>
+                            {line.description}
+                          </span>
+                          <span className="text-sm font-medium font-mono">
+                            ${line.amount.toFixed(2)}
+                          </span>
                         </div>
-                      ))}
+                      )) : (
+                        <p className="text-sm text-muted-foreground">No expenses recorded for {taxReport.taxYear}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between p-2 mt-2 border-t text-sm font-medium">
+                      <span>Total expenses (line 28)</span>
+                      <span className="font-mono">${taxReport.totalExpenses.toFixed(2)}</span>
                     </div>
                   </div>
                 </div>
 
+                {taxReport.warnings.length > 0 && (
+                  <ul className="text-xs text-muted-foreground space-y-1 list-disc pl-5" data-testid="list-tax-warnings">
+                    {taxReport.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+
                 <div className="text-xs text-muted-foreground p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
                   {taxReport.disclaimer}
                 </div>
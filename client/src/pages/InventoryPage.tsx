@@ -1,4 +1,4 @@
-import { useInventory, useUpdateInventoryItem, useDeleteInventoryItem } from "@/hooks/use-items";
+import { useInventory, useUpdateInventoryItem, useDeleteInventoryItem, useInventoryHistory, useAgingQueue } from "@/hooks/use-items";
 import { BottomNav } from "@/components/BottomNav";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,23 +6,38 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { formatDistanceToNow } from "date-fns";
-import { Loader2, Package, DollarSign, TrendingUp, ShoppingCart, Tag, Trash2, CheckCircle, Search, Scan, ExternalLink, Copy, Undo2, Settings, Receipt } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, Package, DollarSign, TrendingUp, ShoppingCart, Tag, Trash2, CheckCircle, Search, Scan, ExternalLink, Copy, Undo2, Settings, Receipt, Sparkles, Camera, Truck, PackageCheck, RotateCcw, Gift, XCircle, History, ArrowRightLeft, Boxes, FileUp } from "lucide-react";
 import { HistoryPageSkeleton } from "@/components/ScanLoadingSkeleton";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { motion } from "framer-motion";
 import { useState, useMemo, useEffect } from "react";
 import { MarginLogoFull } from "@/components/MarginLogo";
 import { Link, useSearch } from "wouter";
 import { safeNumber } from "@shared/calculations";
+import { calculateSaleNetProfit } from "@shared/feeSchedule";
+import {
+  INVENTORY_TRANSITIONS,
+  canTransitionInventory,
+  getInventoryStatusLabel,
+  isDisposedStatus,
+  isInStockStatus,
+  isSoldStatus,
+} from "@shared/inventoryLifecycle";
+import type { InventoryStatus } from "@shared/schema";
 import { WinCard } from "@/components/WinCard";
+import { LotsDialog } from "@/components/LotsDialog";
+import { InventoryImportDialog } from "@/components/InventoryImportDialog";
+import { AgingQueue } from "@/components/AgingQueue";
 
-type StatusFilter = 'all' | 'bought' | 'listed' | 'sold';
+type StatusFilter = 'all' | 'bought' | 'listed' | 'aging' | 'sold' | 'closed';
 type InventoryItem = NonNullable<ReturnType<typeof useInventory>['data']>[number];
 
 export default function InventoryPage() {
   const { data: inventory, isLoading } = useInventory();
+  const { data: agingQueue } = useAgingQueue();
   const updateItem = useUpdateInventoryItem();
   const deleteItem = useDeleteInventoryItem();
   const [search, setSearch] = useState("");
@@ -31,7 +46,7 @@ export default function InventoryPage() {
   const [statusFilter, setStatusFilter] = useState<StatusFilter>(urlStatus || 'all');
   
   useEffect(() => {
-    if (urlStatus && ['all', 'bought', 'listed', 'sold'].includes(urlStatus)) {
+    if (urlStatus && ['all', 'bought', 'listed', 'aging', 'sold', 'closed'].includes(urlStatus)) {
       setStatusFilter(urlStatus);
     }
   }, [urlStatus]);
@@ -42,6 +57,14 @@ export default function InventoryPage() {
   const [deleteTargetId, setDeleteTargetId] = useState<number | null>(null);
   const [listingModalOpen, setListingModalOpen] = useState(false);
   const [listingModalItem, setListingModalItem] = useState<InventoryItem | null>(null);
+  const [statusModalItem, setStatusModalItem] = useState<InventoryItem | null>(null);
+  const [nextStatus, setNextStatus] = useState<InventoryStatus | "">("");
+  const [statusNote, setStatusNote] = useState("");
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [lotsOpen, setLotsOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [lotsInitialId, setLotsInitialId] = useState<number | null>(null);
+  const { data: history, isLoading: historyLoading } = useInventoryHistory(historyItem?.id ?? null);
   const [winCardOpen, setWinCardOpen] = useState(false);
   const [winCardData, setWinCardData] = useState<{
     itemTitle: string;
@@ -52,17 +75,29 @@ export default function InventoryPage() {
   } | null>(null);
   const { toast } = useToast();
 
+  // Fees come from the shared platform fee schedule (or the actual fee recorded
+  // on the sale) so profit here matches the decision engine and P&L export
+  const getNetProfit = (item: InventoryItem, salePrice: number, shipping: number): number => {
+    return calculateSaleNetProfit({
+      salePrice,
+      purchasePrice: safeNumber(item.purchasePrice, 0),
+      outboundShipping: shipping,
+      platform: item.salePlatform,
+      category: item.category,
+      platformFeeActual: item.platformFeeActual ? safeNumber(item.platformFeeActual, 0) : null,
+    }).netProfit;
+  };
+
   const getActualProfit = (item: InventoryItem): number | null => {
     if (!item.actualSalePrice || !item.purchasePrice) return null;
     
     const salePrice = safeNumber(item.actualSalePrice, 0);
     const purchase = safeNumber(item.purchasePrice, 0);
-    const fees = safeNumber(item.feesEstimate, 0);
     const shipping = safeNumber(item.outboundShippingActual || item.shippingEstimate, 5);
     
     if (salePrice === 0 || purchase === 0) return null;
     
-    return salePrice - purchase - fees - shipping;
+    return getNetProfit(item, salePrice, shipping);
   };
 
   const getEstimatedProfit = (item: InventoryItem): number | null => {
@@ -70,18 +105,18 @@ export default function InventoryPage() {
     
     const resale = safeNumber(item.estimatedResale, 0);
     const purchase = safeNumber(item.purchasePrice, 0);
-    const fees = safeNumber(item.feesEstimate, 0);
     const shipping = safeNumber(item.shippingEstimate, 5);
     
     if (resale === 0 || purchase === 0) return null;
     
-    return resale - purchase - fees - shipping;
+    return getNetProfit(item, resale, shipping);
   };
 
   const stats = useMemo(() => {
-    const boughtItems = inventory?.filter(i => i.status === 'bought') || [];
+    const boughtItems = inventory?.filter(i => isInStockStatus(i.status) && i.status !== 'listed') || [];
     const listedItems = inventory?.filter(i => i.status === 'listed') || [];
-    const soldItems = inventory?.filter(i => i.status === 'sold') || [];
+    const soldItems = inventory?.filter(i => isSoldStatus(i.status)) || [];
+    const disposedItems = inventory?.filter(i => isDisposedStatus(i.status)) || [];
     const unsoldItems = [...boughtItems, ...listedItems];
     
     const totalInvested = unsoldItems.reduce((sum, item) => {
@@ -93,10 +128,15 @@ export default function InventoryPage() {
       return sum + (profit ?? 0);
     }, 0);
     
+    // Donated / written-off items count against realized profit at cost
+    const disposedCost = disposedItems.reduce((sum, item) => {
+      return sum + safeNumber(item.purchasePrice, 0);
+    }, 0);
+
     const soldProfit = soldItems.reduce((sum, item) => {
       const profit = getActualProfit(item);
       return sum + (profit ?? 0);
-    }, 0);
+    }, 0) - disposedCost;
     
     const profitableFlips = soldItems.filter(i => {
       const profit = getActualProfit(i);
@@ -112,6 +152,7 @@ export default function InventoryPage() {
       boughtCount: boughtItems.length,
       listedCount: listedItems.length,
       soldCount: soldItems.length,
+      disposedCount: disposedItems.length,
       totalInvested,
       expectedProfit,
       soldProfit,
@@ -124,14 +165,24 @@ export default function InventoryPage() {
     if (!matchesSearch) return false;
     
     if (statusFilter === 'all') return true;
+    if (statusFilter === 'bought') return isInStockStatus(item.status) && item.status !== 'listed';
+    if (statusFilter === 'sold') return isSoldStatus(item.status);
+    if (statusFilter === 'closed') return isDisposedStatus(item.status);
     return item.status === statusFilter;
   });
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'bought': return 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/30';
+      case 'needs_cleaning':
+      case 'photographed': return 'bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/30';
       case 'listed': return 'bg-green-500/10 text-amber-600 dark:text-green-400 border-green-500/30';
-      case 'sold': return 'bg-green-500 text-white border-green-500';
+      case 'sold':
+      case 'shipped':
+      case 'delivered': return 'bg-green-500 text-white border-green-500';
+      case 'returned': return 'bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/30';
+      case 'donated':
+      case 'written_off': return 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/30';
       default: return 'bg-muted text-muted-foreground';
     }
   };
@@ -139,8 +190,15 @@ export default function InventoryPage() {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'bought': return <ShoppingCart className="w-3 h-3" />;
+      case 'needs_cleaning': return <Sparkles className="w-3 h-3" />;
+      case 'photographed': return <Camera className="w-3 h-3" />;
       case 'listed': return <Tag className="w-3 h-3" />;
       case 'sold': return <CheckCircle className="w-3 h-3" />;
+      case 'shipped': return <Truck className="w-3 h-3" />;
+      case 'delivered': return <PackageCheck className="w-3 h-3" />;
+      case 'returned': return <RotateCcw className="w-3 h-3" />;
+      case 'donated': return <Gift className="w-3 h-3" />;
+      case 'written_off': return <XCircle className="w-3 h-3" />;
       default: return null;
     }
   };
@@ -158,9 +216,8 @@ export default function InventoryPage() {
     
     const sellPrice = parseFloat(soldPriceInput) || 0;
     const buyPrice = parseFloat(soldModalItem.purchasePrice || "0") || 0;
-    const fees = parseFloat(soldModalItem.feesEstimate || "0") || 0;
     const shipping = parseFloat(soldModalItem.shippingEstimate || "5") || 5;
-    const profit = sellPrice - buyPrice - fees - shipping;
+    const profit = getNetProfit(soldModalItem, sellPrice, shipping);
     
     updateItem.mutate({
       id: soldModalItem.id,
@@ -188,6 +245,43 @@ export default function InventoryPage() {
     });
   };
 
+  const openSoldModal = (item: InventoryItem) => {
+    setSoldModalItem(item);
+    // Fix floating-point precision by rounding to 2 decimal places
+    const resaleValue = item.estimatedResale ? parseFloat(item.estimatedResale) : 0;
+    setSoldPriceInput(resaleValue > 0 ? resaleValue.toFixed(2) : "");
+    setSoldModalOpen(true);
+  };
+
+  const openStatusModal = (item: InventoryItem) => {
+    setStatusModalItem(item);
+    setNextStatus("");
+    setStatusNote("");
+  };
+
+  // "Sold" needs a price, so it hands off to the sold modal
+  const handleStatusChange = () => {
+    if (!statusModalItem || !nextStatus) return;
+
+    if (nextStatus === 'sold') {
+      const item = statusModalItem;
+      setStatusModalItem(null);
+      openSoldModal(item);
+      return;
+    }
+
+    updateItem.mutate({
+      id: statusModalItem.id,
+      status: nextStatus,
+      statusNote: statusNote.trim() || null,
+    }, {
+      onSuccess: () => {
+        toast({ title: `Marked ${getInventoryStatusLabel(nextStatus)}` });
+        setStatusModalItem(null);
+      }
+    });
+  };
+
   const handleDelete = () => {
     if (deleteTargetId === null) return;
     deleteItem.mutate(deleteTargetId, {
@@ -211,6 +305,24 @@ export default function InventoryPage() {
                 <Badge variant="outline" className="font-mono text-xs" data-testid="badge-total-inventory">
                   {inventory?.length || 0} Items
                 </Badge>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-muted-foreground"
+                  onClick={() => { setLotsInitialId(null); setLotsOpen(true); }}
+                  data-testid="button-lots"
+                >
+                  <Boxes className="w-5 h-5" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-muted-foreground"
+                  onClick={() => setImportOpen(true)}
+                  data-testid="button-import-inventory"
+                >
+                  <FileUp className="w-5 h-5" />
+                </Button>
                 <Link href="/expenses">
                   <Button size="icon" variant="ghost" className="text-muted-foreground" data-testid="button-expenses">
                     <Receipt className="w-5 h-5" />
@@ -252,14 +364,14 @@ export default function InventoryPage() {
               }`}>
                 <span className={`text-xs block mb-1 ${
                   stats.soldCount > 0 ? 'text-green-400 dark:text-[#4ade80] font-medium' : 'text-muted-foreground'
-                }`}>Sold Profit</span>
+                }`}>{stats.disposedCount > 0 ? 'Realized' : 'Sold Profit'}</span>
                 <p className={`font-mono font-bold text-base ${
-                  stats.soldCount > 0 
+                  stats.soldCount + stats.disposedCount > 0 
                     ? (stats.soldProfit > 0 ? 'text-green-400' : stats.soldProfit < 0 ? 'text-red-500' : 'text-foreground')
                     : 'text-muted-foreground/50'
                 }`} data-testid="stat-sold-profit">
-                  {stats.soldCount > 0 
-                    ? `${stats.soldProfit >= 0 ? '+' : ''}$${stats.soldProfit.toFixed(0)}`
+                  {stats.soldCount + stats.disposedCount > 0 
+                    ? (stats.soldProfit >= 0 ? `+$${stats.soldProfit.toFixed(0)}` : `–$${Math.abs(stats.soldProfit).toFixed(0)}`)
                     : '$0'
                   }
                 </p>
@@ -298,7 +410,7 @@ export default function InventoryPage() {
                   className="flex-1 data-[state=active]:bg-card data-[state=active]:shadow-md data-[state=active]:font-semibold data-[state=active]:text-foreground" 
                   data-testid="tab-bought"
                 >
-                  Bought
+                  Stock
                 </TabsTrigger>
                 <TabsTrigger 
                   value="listed" 
@@ -307,6 +419,18 @@ export default function InventoryPage() {
                 >
                   Listed
                 </TabsTrigger>
+                <TabsTrigger
+                  value="aging"
+                  className="flex-1 data-[state=active]:bg-card data-[state=active]:shadow-md data-[state=active]:font-semibold data-[state=active]:text-foreground"
+                  data-testid="tab-aging"
+                >
+                  Aging
+                  {agingQueue && agingQueue.length > 0 && (
+                    <span className="ml-1 text-[10px] font-mono text-amber-600 dark:text-amber-400" data-testid="text-aging-count">
+                      {agingQueue.length}
+                    </span>
+                  )}
+                </TabsTrigger>
                 <TabsTrigger 
                   value="sold" 
                   className="flex-1 data-[state=active]:bg-card data-[state=active]:shadow-md data-[state=active]:font-semibold data-[state=active]:text-foreground" 
@@ -314,6 +438,13 @@ export default function InventoryPage() {
                 >
                   Sold
                 </TabsTrigger>
+                <TabsTrigger
+                  value="closed"
+                  className="flex-1 data-[state=active]:bg-card data-[state=active]:shadow-md data-[state=active]:font-semibold data-[state=active]:text-foreground"
+                  data-testid="tab-closed"
+                >
+                  Closed
+                </TabsTrigger>
               </TabsList>
             </Tabs>
           </div>
@@ -321,7 +452,9 @@ export default function InventoryPage() {
       </header>
 
       <main className="px-4 py-6 space-y-4">
-        {isLoading ? (
+        {statusFilter === 'aging' ? (
+          <AgingQueue search={search} />
+        ) : isLoading ? (
           <HistoryPageSkeleton />
         ) : filteredItems && filteredItems.length > 0 ? (
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -340,7 +473,7 @@ export default function InventoryPage() {
                     <div className="flex justify-between items-start mb-3 gap-2">
                       <Badge className={`text-xs ${getStatusColor(item.status)}`} data-testid={`badge-status-${item.id}`}>
                         {getStatusIcon(item.status)}
-                        <span className="ml-1 capitalize">{item.status}</span>
+                        <span className="ml-1">{getInventoryStatusLabel(item.status)}</span>
                       </Badge>
                       <span className="text-xs text-muted-foreground flex-shrink-0">
                         {item.purchaseDate && formatDistanceToNow(new Date(item.purchaseDate), { addSuffix: true })}
@@ -353,10 +486,24 @@ export default function InventoryPage() {
                     
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Purchase</span>
+                        <span className="text-muted-foreground flex items-center gap-1">
+                          Purchase
+                          {item.lotId && (
+                            <button
+                              className="inline-flex"
+                              onClick={() => { setLotsInitialId(item.lotId); setLotsOpen(true); }}
+                              data-testid={`button-item-lot-${item.id}`}
+                            >
+                              <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                                <Boxes className="w-3 h-3 mr-0.5" />
+                                Lot
+                              </Badge>
+                            </button>
+                          )}
+                        </span>
                         <span className="font-mono font-medium">${item.purchasePrice}</span>
                       </div>
-                      {item.status === 'sold' && item.actualSalePrice ? (
+                      {isSoldStatus(item.status) && item.actualSalePrice ? (
                         <>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Sold For</span>
@@ -375,6 +522,15 @@ export default function InventoryPage() {
                             </div>
                           )}
                         </>
+                      ) : isDisposedStatus(item.status) ? (
+                        <div className="flex justify-between items-center pt-3 mt-2 rounded-lg px-3 py-2 -mx-1 bg-red-500/10">
+                          <span className="font-medium text-red-500">
+                            {getInventoryStatusLabel(item.status)}{item.disposedDate ? ` ${format(new Date(item.disposedDate), 'MMM d')}` : ''}
+                          </span>
+                          <span className="font-mono font-bold text-lg text-red-500" data-testid={`text-disposed-loss-${item.id}`}>
+                            -${safeNumber(item.purchasePrice, 0).toFixed(2)}
+                          </span>
+                        </div>
                       ) : item.estimatedResale ? (
                         <>
                           <div className="flex justify-between">
@@ -436,7 +592,7 @@ export default function InventoryPage() {
                           Undo Sold
                         </Button>
                       )}
-                      {item.status === 'bought' && (
+                      {isInStockStatus(item.status) && item.status !== 'listed' && (
                         <Button
                           size="sm"
                           variant="outline"
@@ -452,17 +608,11 @@ export default function InventoryPage() {
                           List Item
                         </Button>
                       )}
-                      {(item.status === 'bought' || item.status === 'listed') && (
+                      {isInStockStatus(item.status) && canTransitionInventory(item.status, 'sold') && (
                         <Button
                           size="sm"
                           className="flex-1 bg-green-500 hover:bg-green-600 text-white"
-                          onClick={() => {
-                            setSoldModalItem(item);
-                            // Fix floating-point precision by rounding to 2 decimal places
-                            const resaleValue = item.estimatedResale ? parseFloat(item.estimatedResale) : 0;
-                            setSoldPriceInput(resaleValue > 0 ? resaleValue.toFixed(2) : "");
-                            setSoldModalOpen(true);
-                          }}
+                          onClick={() => openSoldModal(item)}
                           disabled={updateItem.isPending}
                           data-testid={`button-sold-${item.id}`}
                         >
@@ -470,6 +620,27 @@ export default function InventoryPage() {
                           Mark Sold
                         </Button>
                       )}
+                      {(INVENTORY_TRANSITIONS[item.status as InventoryStatus] ?? []).length > 0 && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="text-muted-foreground hover:text-foreground"
+                          onClick={() => openStatusModal(item)}
+                          disabled={updateItem.isPending}
+                          data-testid={`button-change-status-${item.id}`}
+                        >
+                          <ArrowRightLeft className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => setHistoryItem(item)}
+                        data-testid={`button-history-${item.id}`}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
                       <Button
                         size="icon"
                         variant="ghost"
@@ -645,7 +816,7 @@ export default function InventoryPage() {
                 </p>
                 {listingModalItem.estimatedResale && listingModalItem.purchasePrice && (
                   <p className="text-xs text-muted-foreground mt-1">
-                    Expected profit: ${(parseFloat(listingModalItem.estimatedResale) - parseFloat(listingModalItem.purchasePrice) - parseFloat(listingModalItem.feesEstimate || "0") - parseFloat(listingModalItem.shippingEstimate || "5")).toFixed(2)}
+                    Expected profit: ${(getEstimatedProfit(listingModalItem) ?? 0).toFixed(2)}
                   </p>
                 )}
               </div>
@@ -713,6 +884,142 @@ export default function InventoryPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Change Status Modal */}
+      <Dialog open={statusModalItem !== null} onOpenChange={(open) => !open && setStatusModalItem(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5" />
+              Change Status
+            </DialogTitle>
+            <DialogDescription>
+              Every change is kept in the item's timeline.
+            </DialogDescription>
+          </DialogHeader>
+
+          {statusModalItem && (
+            <div className="space-y-4">
+              <div className="bg-secondary/50 rounded-lg p-3">
+                <p className="text-sm font-medium line-clamp-2">{statusModalItem.title}</p>
+                <p className="text-xs text-muted-foreground mt-1">Currently: {getInventoryStatusLabel(statusModalItem.status)}</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Move to</label>
+                <Select value={nextStatus} onValueChange={(v) => setNextStatus(v as InventoryStatus)}>
+                  <SelectTrigger data-testid="select-next-status">
+                    <SelectValue placeholder="Choose a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(INVENTORY_TRANSITIONS[statusModalItem.status as InventoryStatus] ?? []).map(status => (
+                      <SelectItem key={status} value={status} data-testid={`option-status-${status}`}>
+                        {getInventoryStatusLabel(status)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {nextStatus && isDisposedStatus(nextStatus) && (
+                  <p className="text-xs text-red-500">
+                    This is final. The ${safeNumber(statusModalItem.purchasePrice, 0).toFixed(2)} cost is booked as a loss.
+                  </p>
+                )}
+                {nextStatus === 'returned' && (
+                  <p className="text-xs text-muted-foreground">
+                    The sale is reversed and the item goes back into stock.
+                  </p>
+                )}
+              </div>
+
+              {nextStatus !== 'sold' && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium" htmlFor="status-note">
+                    Note (optional)
+                  </label>
+                  <Textarea
+                    id="status-note"
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    placeholder="e.g. Buyer said it didn't fit"
+                    className="resize-none text-sm"
+                    rows={2}
+                    maxLength={500}
+                    data-testid="textarea-status-note"
+                  />
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setStatusModalItem(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleStatusChange}
+                  disabled={!nextStatus || updateItem.isPending}
+                  data-testid="button-confirm-status"
+                >
+                  {updateItem.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                  {nextStatus === 'sold' ? 'Next' : 'Save'}
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Status Timeline */}
+      <Dialog open={historyItem !== null} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Timeline
+            </DialogTitle>
+            <DialogDescription className="line-clamp-2">
+              {historyItem?.title}
+            </DialogDescription>
+          </DialogHeader>
+
+          {historyLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : history && history.length > 0 ? (
+            <ol className="relative border-l border-border ml-2 space-y-4" data-testid="list-status-history">
+              {history.map(entry => (
+                <li key={entry.id} className="ml-4" data-testid={`history-entry-${entry.id}`}>
+                  <span className={`absolute -left-2 w-4 h-4 rounded-full border ${getStatusColor(entry.toStatus)}`} />
+                  <div className="flex items-center gap-1.5 text-sm font-medium">
+                    {getStatusIcon(entry.toStatus)}
+                    {entry.fromStatus
+                      ? `${getInventoryStatusLabel(entry.fromStatus)} → ${getInventoryStatusLabel(entry.toStatus)}`
+                      : getInventoryStatusLabel(entry.toStatus)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.createdAt && format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}
+                  </p>
+                  {entry.note && (
+                    <p className="text-xs text-foreground/80 mt-1">{entry.note}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No status changes recorded yet.
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <LotsDialog
+        open={lotsOpen}
+        onOpenChange={setLotsOpen}
+        inventory={inventory ?? []}
+        initialLotId={lotsInitialId}
+      />
+
+      <InventoryImportDialog open={importOpen} onOpenChange={setImportOpen} />
+
       {winCardData && (
         <WinCard
           isOpen={winCardOpen}
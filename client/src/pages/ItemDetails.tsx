@@ -9,7 +9,7 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
-import { ArrowLeft, ExternalLink, Share2, CheckCircle, Check, TrendingUp, TrendingDown, Minus, ChevronDown, Calculator, Package, Loader2, Sparkles, Truck, Zap, X, RefreshCw, AlertTriangle, DollarSign, Save, Camera, ThumbsUp, ThumbsDown, FileText, Copy, CheckCheck, Tag } from "lucide-react";
+import { ArrowLeft, ExternalLink, Share2, CheckCircle, Check, TrendingUp, TrendingDown, Minus, ChevronDown, Calculator, Package, Loader2, Sparkles, Truck, Zap, X, RefreshCw, AlertTriangle, DollarSign, Save, Camera, ThumbsUp, ThumbsDown, FileText, Copy, CheckCheck, Tag, Store, Gavel } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { apiRequest } from "@/lib/queryClient";
@@ -17,15 +17,19 @@ import { Link } from "wouter";
 import { motion } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
-import { PLATFORM_FEE_RATE, OUTBOUND_SHIPPING_DEFAULT, formatShippingDisplay, calculatePlatformFees, calculateNetProfit, parseShipping, safeNumber, safeToFixed } from "@shared/calculations";
+import { OUTBOUND_SHIPPING_DEFAULT, formatShippingDisplay, calculateNetProfit, parseShipping, safeNumber, safeToFixed } from "@shared/calculations";
 import type { CompsResult, SoldComp } from "@shared/schema";
 import { computeCompsStats } from "@/lib/comps";
 import { getFlipTierInfo, getFlipTierInfoByProfit, generateEbaySearchUrl, FLIP_THRESHOLDS, getFlipScoreBreakdown, getFlipHeadline, calculateROI, formatROI, getMomentumBadges, calculateFlipScore, type MomentumIndicator } from "@shared/flipScore";
-import { type DecisionResult, getMarginBand, calculateDecision } from "@shared/decisionEngine";
+import { type DecisionResult, type DecisionProfile, getMarginBand, calculateDecision, DEFAULT_DECISION_PROFILE } from "@shared/decisionEngine";
+import { calculateFeeBreakdown } from "@shared/feeSchedule";
 import { JudgmentAnimation } from "@/components/JudgmentAnimation";
 import { getAutoSuggestedBand, getBandSuggestions } from "@shared/watchLibrary";
 import { BuyModeResults } from "@/components/BuyModeResults";
 import { MultiPlatformListing } from "@/components/MultiPlatformListing";
+import type { PlatformPayoutComparison } from "@shared/platformPayouts";
+import type { MarketTrend } from "@shared/compTrend";
+import type { LiquidityResult } from "@shared/liquidity";
 import { LearningModeBanner } from "@/components/LearningModeBanner";
 import { SkipSuggestion } from "@/components/ScanEfficiency";
 
@@ -70,6 +74,11 @@ export default function ItemDetails() {
   const [costSaved, setCostSaved] = useState(false);
   const queryClient = useQueryClient();
   
+  // Active decision profile - the verdict is re-run against it as the cost is edited
+  const { data: decisionProfile } = useQuery<DecisionProfile>({
+    queryKey: ['/api/decision-profile'],
+  });
+  
   // Parse batch navigation context from URL
   const searchParams = new URLSearchParams(location.split('?')[1] || '');
   const batchItemIds = searchParams.get('batch')?.split(',').map(Number).filter(n => !isNaN(n)) || [];
@@ -337,6 +346,14 @@ export default function ItemDetails() {
     ? 0 
     : safeNumber(item.outboundShipping, OUTBOUND_SHIPPING_DEFAULT);
   
+  // Fees on the profile's sale platform from the shared fee schedule, as the server prices them
+  const activeProfile = decisionProfile ?? DEFAULT_DECISION_PROFILE;
+  const saleFees = calculateFeeBreakdown({
+    platform: activeProfile.defaultPlatform,
+    category: item.category,
+    salePrice: avgSoldPrice,
+  });
+  
   // Calculate net profit using single source of truth with safe number parsing
   let netProfit = 0;
   try {
@@ -344,7 +361,7 @@ export default function ItemDetails() {
       avgSoldPrice,
       buyPrice: safeNumber(item.buyPrice || item.price, 0),
       shippingIn: parseShipping(item.shippingIn || item.shipping),
-      platformFeeRate: safeNumber(item.platformFeeRate, PLATFORM_FEE_RATE),
+      platformFeeRate: saleFees.effectiveRate,
       outboundShipping: effectiveOutboundShipping,
     };
     console.log("ITEM DETAILS - profit calculation inputs:", profitInputs);
@@ -380,6 +397,8 @@ export default function ItemDetails() {
     decisionTrace?: string[];
     maxBuy?: number;
     marketValue?: number;
+    marketTrend?: MarketTrend | null;
+    liquidity?: LiquidityResult | null;
   } | null;
   
   const marginDecision = (() => {
@@ -389,13 +408,17 @@ export default function ItemDetails() {
       const expectedSalePrice = storedDecision?.marketValue || avgSoldPrice;
       
       // Always recalculate with current effectiveBuyPrice to ensure UI stays in sync
-      // This handles both user input changes and saved cost updates
-      if (expectedSalePrice > 0 && effectiveBuyPrice > 0) {
+      // This handles both user input changes and saved cost updates. Same inputs
+      // as the server's verdict: the user's profile, its sale platform and the category.
+      // Until the profile loads, show the stored verdict.
+      if (decisionProfile && expectedSalePrice > 0 && effectiveBuyPrice > 0) {
         return calculateDecision({
           buyPrice: effectiveBuyPrice,
           shippingIn,
           expectedSalePrice,
-          platformFeeRate: PLATFORM_FEE_RATE,
+          profile: decisionProfile,
+          salePlatform: decisionProfile.defaultPlatform,
+          category: item.category,
           outboundShipping: effectiveOutboundShipping,
         });
       }
@@ -469,7 +492,8 @@ export default function ItemDetails() {
       netProfit,
       compsCount,
       spreadPercent,
-      hasComps: hasCompsData
+      hasComps: hasCompsData,
+      liquidityGrade: storedDecision?.liquidity?.grade
     });
     
     // Get momentum badges for high-quality flips
@@ -477,7 +501,8 @@ export default function ItemDetails() {
       buyPrice,
       netProfit,
       compsCount,
-      spreadPercent
+      spreadPercent,
+      liquidityGrade: storedDecision?.liquidity?.grade
     });
     
     scoreBreakdown = getFlipScoreBreakdown(
@@ -486,7 +511,8 @@ export default function ItemDetails() {
       compsCount, 
       spreadPercent, 
       marginPercent,
-      roi
+      roi,
+      storedDecision?.liquidity
     );
     console.log("ITEM DETAILS - ROI score:", flipScore, "ROI:", roi, "badges:", momentumBadges);
   } catch (err) {
@@ -503,9 +529,18 @@ export default function ItemDetails() {
           </Button>
         </Link>
         <h1 className="font-semibold text-sm uppercase tracking-wide opacity-70">Analysis Result</h1>
-        <Button variant="ghost" size="icon" className="-mr-2" onClick={handleShare} data-testid="button-share">
-          <Share2 className="w-5 h-5" />
-        </Button>
+        <div className="flex items-center -mr-2">
+          {/\/itm\/\d+/.test(item.url) && (
+            <Link href={`/snipe?item=${item.id}`}>
+              <Button variant="ghost" size="icon" data-testid="button-plan-snipe">
+                <Gavel className="w-5 h-5" />
+              </Button>
+            </Link>
+          )}
+          <Button variant="ghost" size="icon" onClick={handleShare} data-testid="button-share">
+            <Share2 className="w-5 h-5" />
+          </Button>
+        </div>
       </div>
 
       <div className="p-4 space-y-6">
@@ -542,6 +577,58 @@ export default function ItemDetails() {
               ? "Profitable at current market prices." 
               : "You lose money on this item."}
           </motion.p>
+
+          {/* Sold-comp price trend (recency-weighted) */}
+          {storedDecision?.marketTrend && storedDecision.marketTrend.direction !== 'unknown' && (
+            <div
+              className={cn(
+                "flex items-center justify-center gap-1.5 text-xs mb-3",
+                storedDecision.marketTrend.direction === 'rising' && "text-green-600 dark:text-green-400",
+                storedDecision.marketTrend.direction === 'falling' && "text-red-500",
+                storedDecision.marketTrend.direction === 'flat' && "text-muted-foreground"
+              )}
+              data-testid="text-market-trend"
+            >
+              {storedDecision.marketTrend.direction === 'rising' ? (
+                <TrendingUp className="w-3.5 h-3.5" />
+              ) : storedDecision.marketTrend.direction === 'falling' ? (
+                <TrendingDown className="w-3.5 h-3.5" />
+              ) : (
+                <Minus className="w-3.5 h-3.5" />
+              )}
+              <span className="capitalize">{storedDecision.marketTrend.direction}</span>
+              <span>
+                {(storedDecision.marketTrend.percentPer30Days ?? 0) >= 0 ? '+' : ''}
+                {storedDecision.marketTrend.percentPer30Days}%/30d
+              </span>
+              <span className="text-muted-foreground">
+                · ~${storedDecision.marketTrend.projectedValue.toFixed(0)} by {new Date(storedDecision.marketTrend.projectedSaleDate + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              </span>
+            </div>
+          )}
+
+          {/* Liquidity: sell-through vs. active listings */}
+          {storedDecision?.liquidity && storedDecision.liquidity.grade !== 'unknown' && (
+            <div
+              className={cn(
+                "flex items-center justify-center gap-1.5 text-xs mb-3",
+                (storedDecision.liquidity.grade === 'D' || storedDecision.liquidity.grade === 'F') ? "text-red-500" : "text-muted-foreground"
+              )}
+              data-testid="text-liquidity"
+            >
+              {momentumBadges.some(b => b.badge === 'fast_turn') && (
+                <Zap className="w-3.5 h-3.5 text-yellow-500" data-testid="badge-fast-turn" />
+              )}
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0" data-testid="badge-liquidity-grade">
+                {storedDecision.liquidity.grade}
+              </Badge>
+              <span>{storedDecision.liquidity.label}</span>
+              <span>· {Math.round((storedDecision.liquidity.sellThroughRate ?? 0) * 100)}% sell-through</span>
+              <span>
+                · ~{storedDecision.liquidity.estimatedDaysToSell}{storedDecision.liquidity.estimatedDaysToSell !== null && storedDecision.liquidity.estimatedDaysToSell >= 365 ? '+' : ''} days
+              </span>
+            </div>
+          )}
           
           {/* Margin visual display */}
           {marginBand && marginDecision && (
@@ -1104,9 +1191,9 @@ export default function ItemDetails() {
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">− Platform Fees ({Math.round(safeNumber(item.platformFeeRate, PLATFORM_FEE_RATE) * 100)}%)</span>
+                    <span className="text-sm text-muted-foreground">− {saleFees.platformLabel} Fees ({Math.round(saleFees.effectiveRate * 1000) / 10}%)</span>
                     <span className="text-sm font-mono font-medium text-red-400" data-testid="calc-fees">
-                      −${safeToFixed(calculatePlatformFees(avgSoldPrice, safeNumber(item.platformFeeRate, PLATFORM_FEE_RATE)), 2)}
+                      −${safeToFixed(saleFees.totalFees, 2)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center">
@@ -1161,6 +1248,9 @@ export default function ItemDetails() {
           </Collapsible>
         </motion.div>
 
+        {/* Cross-Platform Payout Section */}
+        <PlatformPayoutSection item={item} />
+
         {/* Watch Metadata Section */}
         <WatchMetadataSection item={item} />
 
@@ -1597,7 +1687,7 @@ export default function ItemDetails() {
                   title: item.confirmedTitle || item.title || "Unknown Item",
                   purchasePrice: item.buyPrice || item.price || "0",
                   estimatedResale: avgSoldPrice > 0 ? safeToFixed(safeNumber(avgSoldPrice, 0), 2) : null,
-                  feesEstimate: avgSoldPrice > 0 ? safeToFixed(safeNumber(avgSoldPrice, 0) * PLATFORM_FEE_RATE, 2) : null,
+                  feesEstimate: avgSoldPrice > 0 ? safeToFixed(saleFees.totalFees, 2) : null,
                   shippingEstimate: item.outboundShipping || String(OUTBOUND_SHIPPING_DEFAULT),
                   condition: item.condition || null,
                 }, {
@@ -3734,3 +3824,118 @@ function GradingReadinessSection({ item }: { item: any }) {
     </motion.div>
   );
 }
+
+// Cross-Platform Payout Section - net payout per marketplace and where to list
+function PlatformPayoutSection({ item }: { item: any }) {
+  const [isOpen, setIsOpen] = useState(false);
+  
+  // Comps are pulled live from each platform, so only fetch once the section is opened
+  const { data, isLoading, isError } = useQuery<PlatformPayoutComparison & { itemId: number; chrono24SearchUrl: string | null }>({
+    queryKey: [`/api/items/${item.id}/platform-payouts`],
+    enabled: isOpen,
+    staleTime: 10 * 60 * 1000,
+  });
+  
+  const recommended = data?.platforms.find(p => p.platform === data.recommended);
+  
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.16 }}
+    >
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <Card className="overflow-hidden">
+          <CollapsibleTrigger asChild>
+            <button 
+              className="w-full p-4 flex items-center justify-between gap-2 text-left hover-elevate"
+              data-testid="button-platform-payouts-toggle"
+            >
+              <div className="flex items-center gap-2">
+                <Store className="w-4 h-4 text-primary" />
+                <span className="font-medium text-sm">Where to List</span>
+                {recommended && (
+                  <Badge variant="outline" className="text-xs text-green-600 dark:text-green-400" data-testid="badge-recommended-platform">
+                    {recommended.label}
+                  </Badge>
+                )}
+              </div>
+              <ChevronDown className={cn("w-4 h-4 transition-transform", isOpen && "rotate-180")} />
+            </button>
+          </CollapsibleTrigger>
+          
+          <CollapsibleContent>
+            <div className="px-4 pb-4 space-y-3">
+              {isLoading && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Checking sold prices on each platform...
+                </div>
+              )}
+              
+              {isError && (
+                <p className="text-sm text-muted-foreground">Could not load platform prices. Try again later.</p>
+              )}
+              
+              {data && data.platforms.length > 0 && (
+                <div className="grid grid-cols-1 gap-2">
+                  {data.platforms.map((payout) => (
+                    <div
+                      key={payout.platform}
+                      className={cn(
+                        "rounded-md border p-3 space-y-1",
+                        payout.platform === data.recommended && "border-green-500/50 bg-green-500/5"
+                      )}
+                      data-testid={`card-payout-${payout.platform}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium">{payout.label}</span>
+                        <span className="text-sm font-mono font-bold" data-testid={`text-net-payout-${payout.platform}`}>
+                          ${safeToFixed(payout.netPayout, 2)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {payout.source === 'chrono24_asking' ? 'Adj. asking' : 'Median sold'} ${safeToFixed(payout.expectedPrice, 2)} · {payout.compCount} comps
+                        </span>
+                        <span>
+                          −${safeToFixed(payout.fees.totalFees, 2)} fees{payout.shipping > 0 ? ` · −$${safeToFixed(payout.shipping, 2)} ship` : ''}
+                        </span>
+                      </div>
+                      {payout.netProfit !== null && (
+                        <div className="text-xs">
+                          <span className="text-muted-foreground">Profit at your cost: </span>
+                          <span className={payout.netProfit >= 0 ? "text-green-500" : "text-red-400"}>
+                            {payout.netProfit < 0 ? "−" : "+"}${safeToFixed(Math.abs(payout.netProfit), 2)}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              
+              {data && (
+                <p className="text-xs text-muted-foreground" data-testid="text-payout-recommendation">
+                  {data.recommendationReason}
+                </p>
+              )}
+              
+              {data?.chrono24SearchUrl && !data.platforms.some(p => p.platform === 'chrono24') && (
+                <a
+                  href={data.chrono24SearchUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-primary inline-flex items-center gap-1"
+                  data-testid="link-chrono24-search"
+                >
+                  Check Chrono24 prices <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          </CollapsibleContent>
+        </Card>
+      </Collapsible>
+    </motion.div>
+  );
+}
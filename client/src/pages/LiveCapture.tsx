@@ -6,7 +6,9 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useLivePriceAlerts, useScanStage } from "@/hooks/use-live-updates";
 import { apiRequest } from "@/lib/queryClient";
+import { SCAN_STAGE_LABELS } from "@shared/liveUpdates";
 
 type CaptureState = 'idle' | 'capturing' | 'scanning' | 'cooldown';
 type Platform = 'desktop' | 'ios' | 'android' | 'macos-app';
@@ -371,6 +373,8 @@ export default function LiveCapture() {
   const { platform, supportsScreenCapture, usesCameraCapture } = usePlatform();
   
   const [state, setState] = useState<CaptureState>('idle');
+  const { stage: scanStage, beginScan, endScan } = useScanStage();
+  useLivePriceAlerts();
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
@@ -540,7 +544,8 @@ export default function LiveCapture() {
       const response = await apiRequest('POST', '/api/live-capture/analyze', { 
         imageBase64,
         buyPrice: userBuyPrice,
-        ocrHints: ocrHints || undefined
+        ocrHints: ocrHints || undefined,
+        scanId: beginScan()
       }, signal);
       
       // Check if aborted
@@ -624,8 +629,10 @@ export default function LiveCapture() {
       setError(err.message || 'Analysis failed');
       playSound('error', soundEnabled);
       setState('idle');
+    } finally {
+      endScan();
     }
-  }, [buyPriceInput, addToCache, soundEnabled, voiceEnabled]);
+  }, [buyPriceInput, addToCache, soundEnabled, voiceEnabled, beginScan, endScan]);
 
   const captureScreenFrame = useCallback(async () => {
     // TRIPLE GUARD: state check + ref debounce
@@ -1265,7 +1272,7 @@ export default function LiveCapture() {
                 {(state === 'capturing' || state === 'scanning') && (
                   <span className="flex items-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    Analyzing...
+                    {scanStage ? SCAN_STAGE_LABELS[scanStage] : 'Analyzing...'}
                   </span>
                 )}
                 {state === 'cooldown' && (
@@ -13,6 +13,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { calculateFeeBreakdown } from "@shared/feeSchedule";
+import { format } from "date-fns";
 
 interface SoldListing {
   id: string;
@@ -82,8 +84,9 @@ export default function OpenMarketSearch() {
         title: listing.title,
         imageUrl: listing.imageUrl,
         purchasePrice: maxBuy.toFixed(2),
+        purchaseDate: format(new Date(), 'yyyy-MM-dd'),
         estimatedResale: listing.totalPrice.toFixed(2),
-        feesEstimate: (listing.totalPrice * 0.13).toFixed(2),
+        feesEstimate: calculateFeeBreakdown({ platform: "ebay", salePrice: listing.totalPrice }).totalFees.toFixed(2),
       });
       toast({
         title: "Added to Inventory",
@@ -4,7 +4,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { 
   Target, TrendingUp, Trophy, Flame, Calendar, 
   DollarSign, Zap, Star, CheckCircle, Plus, 
-  ArrowRight, Sparkles, Award, Crown
+  ArrowRight, Sparkles, Award, Crown, Boxes
 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,6 +17,8 @@ import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useLots, useAnalyticsSeries } from "@/hooks/use-items";
+import { CashFlowForecastCard } from "@/components/CashFlowForecastCard";
 
 type UserStatsData = {
   totalScans: number;
@@ -71,6 +73,9 @@ export default function ProfitDashboard() {
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  const { data: lots } = useLots();
+  const { data: monthly } = useAnalyticsSeries({ interval: 'month', periods: 2 });
+  const [lastMonth, thisMonth] = monthly?.series[0]?.points ?? [];
 
   const { data: stats, isLoading: statsLoading } = useQuery<UserStatsData>({
     queryKey: ['/api/gamification/stats'],
@@ -296,6 +301,90 @@ export default function ProfitDashboard() {
           </Card>
         </div>
 
+        {thisMonth && lastMonth && (thisMonth.itemsSold > 0 || lastMonth.itemsSold > 0) && (
+          <Card className="p-4" data-testid="card-month-sales">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <Calendar className="w-5 h-5 text-green-500" />
+                <h2 className="font-bold">Sales This Month</h2>
+              </div>
+              <Link href="/analytics">
+                <Button variant="ghost" size="sm" data-testid="link-analytics">
+                  Trends
+                  <ArrowRight className="w-4 h-4 ml-1" />
+                </Button>
+              </Link>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className={`text-xl font-bold ${thisMonth.profit >= 0 ? 'text-green-500' : 'text-red-500'}`} data-testid="text-month-profit">
+                  ${Math.round(thisMonth.profit)}
+                </p>
+                <p className="text-xs text-muted-foreground">profit</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold">{thisMonth.itemsSold}</p>
+                <p className="text-xs text-muted-foreground">sold</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold">{thisMonth.roi !== null ? `${Math.round(thisMonth.roi * 100)}%` : '—'}</p>
+                <p className="text-xs text-muted-foreground">ROI</p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 text-center">
+              Last month: ${Math.round(lastMonth.profit)} on {lastMonth.itemsSold} sold
+              {thisMonth.netProfit !== null && thisMonth.expenses ? ` · $${Math.round(thisMonth.netProfit)} after expenses` : ''}
+            </p>
+          </Card>
+        )}
+
+        <CashFlowForecastCard />
+
+        {lots && lots.length > 0 && (
+          <Card className="p-4" data-testid="card-lot-roi">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <Boxes className="w-5 h-5 text-primary" />
+                <h2 className="font-bold">Lot ROI</h2>
+              </div>
+              <Link href="/inventory">
+                <Button variant="ghost" size="sm" data-testid="link-lots-inventory">
+                  Manage
+                  <ArrowRight className="w-4 h-4 ml-1" />
+                </Button>
+              </Link>
+            </div>
+
+            <div className="space-y-3">
+              {lots.slice(0, 5).map(lot => {
+                const { roi } = lot;
+                const recoveredPct = roi.recovered !== null ? Math.round(roi.recovered * 100) : null;
+                return (
+                  <div key={lot.id} className="space-y-1" data-testid={`lot-roi-${lot.id}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium truncate">{lot.name}</span>
+                      <span className={`text-sm font-bold ${roi.profit >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {roi.roi !== null ? `${roi.roi >= 0 ? '+' : ''}${Math.round(roi.roi * 100)}%` : '—'}
+                      </span>
+                    </div>
+                    <Progress value={Math.min(recoveredPct ?? 0, 100)} className="h-1.5" />
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        ${roi.netProceeds.toFixed(0)} of ${roi.totalCost.toFixed(0)} back
+                        {recoveredPct !== null && ` (${recoveredPct}%)`}
+                      </span>
+                      <span>
+                        {roi.soldCount}/{roi.itemCount} sold
+                        {roi.openCount > 0 && roi.openEstimatedValue > 0 && ` · ~$${roi.openEstimatedValue.toFixed(0)} left`}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
+
         <Card className="p-4">
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-2">
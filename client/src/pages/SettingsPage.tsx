@@ -22,6 +22,8 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Slider } from "@/components/ui/slider";
 import { useMutation } from "@tanstack/react-query";
 import { CancellationFlow } from "@/components/CancellationFlow";
+import { DecisionProfileSettings } from "@/components/DecisionProfileSettings";
+import { ExtensionTokenSettings } from "@/components/ExtensionTokenSettings";
 
 interface AffiliateStats {
   referralCode: string;
@@ -476,6 +478,9 @@ export default function SettingsPage() {
             </Card>
           )}
 
+          {/* Decision Profile - thresholds and fees behind every Flip/Skip verdict */}
+          <DecisionProfileSettings />
+
           {/* Pro Subscription Management - Only show for Pro users */}
           {isPro && !isAdmin && (
             <Card className="p-4">
@@ -701,6 +706,9 @@ export default function SettingsPage() {
             </div>
           </Card>
 
+          {/* Chrome Extension */}
+          <ExtensionTokenSettings />
+
           {/* Data Export */}
           <Card className="p-4">
             <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider mb-3">Your Data</h3>
@@ -0,0 +1,344 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { format } from "date-fns";
+import { BottomNav } from "@/components/BottomNav";
+import { MarginLogoFull } from "@/components/MarginLogo";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useItems } from "@/hooks/use-items";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { api, buildUrl } from "@shared/routes";
+import { DEFAULT_SNIPE_REMINDER_MINUTES, SNIPE_REMINDER_MINUTES, type SnipePlanResponse } from "@shared/snipePlanner";
+import type { AuctionWatch } from "@shared/schema";
+import { Bell, Gavel, Loader2, Trash2 } from "lucide-react";
+
+const formatMoney = (value: number | null | undefined) =>
+  value === null || value === undefined ? "—" : `$${value.toFixed(2)}`;
+
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+
+const parseOptional = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+/**
+ * Snipe planner - the highest bid that still clears your margin target after
+ * sales tax and eBay's bid increments, plus a watch list that reminds you
+ * before each auction ends.
+ */
+export default function SnipePlannerPage() {
+  const { toast } = useToast();
+  const searchString = useSearch();
+  const { data: items } = useItems();
+
+  const [itemId, setItemId] = useState<string>(() => new URLSearchParams(searchString).get("item") || "");
+  const [currentBid, setCurrentBid] = useState("");
+  const [bidCount, setBidCount] = useState("");
+  const [shipping, setShipping] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [taxPercent, setTaxPercent] = useState("");
+  const [remindMinutes, setRemindMinutes] = useState(String(DEFAULT_SNIPE_REMINDER_MINUTES));
+  const [plan, setPlan] = useState<SnipePlanResponse | null>(null);
+
+  const { data: settings } = useQuery<{ salesTaxRate: number }>({
+    queryKey: [api.snipe.settings.path],
+  });
+
+  const { data: watches } = useQuery<AuctionWatch[]>({
+    queryKey: [api.snipe.watches.path],
+  });
+
+  useEffect(() => {
+    if (settings) setTaxPercent(String(Math.round(settings.salesTaxRate * 10000) / 100));
+  }, [settings]);
+
+  const planMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await apiRequest('POST', api.snipe.plan.path, body);
+      return res.json() as Promise<SnipePlanResponse>;
+    },
+    onSuccess: (result) => {
+      setPlan(result);
+      setCurrentBid(String(result.listing.currentBid));
+      setBidCount(String(result.listing.bidCount));
+      setShipping(String(result.listing.shippingIn));
+      setEndsAt(toLocalInput(result.listing.endsAt));
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to plan bid", variant: "destructive" });
+    }
+  });
+
+  const taxMutation = useMutation({
+    mutationFn: async (salesTaxRate: number) => {
+      await apiRequest('PUT', api.snipe.updateSettings.path, { salesTaxRate });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.snipe.settings.path] });
+      toast({ title: "Sales tax rate saved" });
+      if (itemId) planMutation.mutate(buildPlanRequest());
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to save sales tax rate", variant: "destructive" });
+    }
+  });
+
+  const saveWatchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', api.snipe.saveWatch.path, {
+        itemId: Number(itemId),
+        currentBid: Number(currentBid) || 0,
+        bidCount: Number(bidCount) || 0,
+        shipping: Number(shipping) || 0,
+        endsAt: new Date(endsAt).toISOString(),
+        remindMinutesBefore: Number(remindMinutes),
+      });
+      return res.json() as Promise<AuctionWatch>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.snipe.watches.path] });
+      toast({ title: `We'll remind you ${remindMinutes} min before it ends` });
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to save watch", variant: "destructive" });
+    }
+  });
+
+  const deleteWatchMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', buildUrl(api.snipe.deleteWatch.path, { id }));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.snipe.watches.path] });
+    },
+    onError: (error: any) => {
+      toast({ title: error.message || "Failed to remove watch", variant: "destructive" });
+    }
+  });
+
+  function buildPlanRequest(): Record<string, unknown> {
+    return {
+      itemId: Number(itemId),
+      currentBid: parseOptional(currentBid),
+      bidCount: parseOptional(bidCount),
+      shipping: parseOptional(shipping),
+      endsAt: endsAt ? new Date(endsAt).toISOString() : undefined,
+    };
+  }
+
+  // New item: let the server fill in the live listing
+  const selectItem = (value: string) => {
+    setItemId(value);
+    setPlan(null);
+    setCurrentBid("");
+    setBidCount("");
+    setShipping("");
+    setEndsAt("");
+    planMutation.mutate({ itemId: Number(value) });
+  };
+
+  useEffect(() => {
+    if (itemId && !plan) planMutation.mutate({ itemId: Number(itemId) });
+    // Only for the ?item= link the page was opened with
+  }, []);
+
+  const saveTax = () => {
+    const percent = Number(taxPercent);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 20) {
+      toast({ title: "Sales tax must be between 0% and 20%", variant: "destructive" });
+      return;
+    }
+    taxMutation.mutate(Math.round(percent * 100) / 10000);
+  };
+
+  const recentItems = (items || []).slice(0, 50);
+
+  return (
+    <div className="min-h-screen bg-background pb-24">
+      <header className="sticky top-0 z-10">
+        <div className="h-1 bg-gradient-to-r from-[#22c55e] via-[#4ade80] to-[#3b82f6]" />
+        <div className="bg-background/95 backdrop-blur-md border-b border-border/50">
+          <div className="px-4 pt-4 pb-3 flex justify-between items-center">
+            <MarginLogoFull height={48} />
+            <Gavel className="w-5 h-5 text-muted-foreground" />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-4 max-w-2xl mx-auto">
+        <div>
+          <h1 className="text-2xl font-bold">Snipe Planner</h1>
+          <p className="text-sm text-muted-foreground">Your max bid after sales tax and eBay's bid increments</p>
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Auction</h3>
+          <div className="space-y-1">
+            <Label>Scanned item</Label>
+            <Select value={itemId} onValueChange={selectItem}>
+              <SelectTrigger data-testid="select-snipe-item">
+                <SelectValue placeholder="Pick a scan" />
+              </SelectTrigger>
+              <SelectContent>
+                {recentItems.map(item => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.confirmedTitle || item.title || `Scan #${item.id}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="snipe-current-bid">Current bid</Label>
+              <Input id="snipe-current-bid" type="number" inputMode="decimal" min="0" step="0.01" value={currentBid} onChange={(e) => setCurrentBid(e.target.value)} data-testid="input-snipe-current-bid" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snipe-bid-count">Bids</Label>
+              <Input id="snipe-bid-count" type="number" inputMode="numeric" min="0" step="1" value={bidCount} onChange={(e) => setBidCount(e.target.value)} data-testid="input-snipe-bid-count" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snipe-shipping">Shipping</Label>
+              <Input id="snipe-shipping" type="number" inputMode="decimal" min="0" step="0.01" value={shipping} onChange={(e) => setShipping(e.target.value)} data-testid="input-snipe-shipping" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snipe-ends-at">Ends</Label>
+              <Input id="snipe-ends-at" type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} data-testid="input-snipe-ends-at" />
+            </div>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => planMutation.mutate(buildPlanRequest())}
+            disabled={!itemId || planMutation.isPending}
+            data-testid="button-plan-snipe"
+          >
+            {planMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Gavel className="w-4 h-4 mr-2" />}
+            Plan Bid
+          </Button>
+        </Card>
+
+        {plan && (
+          <Card className="p-4 space-y-3" data-testid="card-snipe-plan">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Your Bid</h3>
+              <Badge variant={plan.plan.canBid ? "default" : "destructive"} data-testid="badge-snipe-can-bid">
+                {plan.plan.maxBid === null ? "No comps" : plan.plan.canBid ? "Bid" : "Past your max"}
+              </Badge>
+            </div>
+            <div className="text-center">
+              <p className="text-xs text-muted-foreground">Max bid</p>
+              <p className="text-3xl font-bold" data-testid="text-snipe-max-bid">{formatMoney(plan.plan.maxBid)}</p>
+              {plan.plan.allInAtMaxBid !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {formatMoney(plan.plan.allInAtMaxBid)} all-in with shipping and {formatMoney(plan.plan.salesTaxAtMaxBid)} tax
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Next bid</p>
+                <p className="font-medium" data-testid="text-snipe-minimum-bid">{formatMoney(plan.plan.minimumBid)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Headroom</p>
+                <p className="font-medium" data-testid="text-snipe-headroom">{formatMoney(plan.plan.headroom)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Stop at</p>
+                <p className="font-medium" data-testid="text-snipe-stop-at">{formatMoney(plan.plan.stopAt)}</p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Sells for {formatMoney(plan.expectedSalePrice)} · max buy {formatMoney(plan.maxBuy)} · bids go up {formatMoney(plan.plan.bidIncrement)} at this price.
+              {plan.plan.stopAt !== null && ` Once the current bid passes ${formatMoney(plan.plan.stopAt)}, walk away.`}
+            </p>
+            <div className="flex gap-2">
+              <Select value={remindMinutes} onValueChange={setRemindMinutes}>
+                <SelectTrigger className="w-32" data-testid="select-snipe-reminder">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SNIPE_REMINDER_MINUTES.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{minutes} min before</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => saveWatchMutation.mutate()}
+                disabled={!endsAt || saveWatchMutation.isPending}
+                data-testid="button-save-snipe-watch"
+              >
+                {saveWatchMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Bell className="w-4 h-4 mr-2" />}
+                Remind Me
+              </Button>
+            </div>
+            {!endsAt && <p className="text-xs text-muted-foreground">Add the end time to get a reminder.</p>}
+          </Card>
+        )}
+
+        <Card className="p-4 space-y-3">
+          <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Sales Tax</h3>
+          <p className="text-xs text-muted-foreground">eBay charges sales tax on the bid and shipping, so it comes out of your max bid.</p>
+          <div className="flex gap-2 items-center">
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              max="20"
+              step="0.01"
+              value={taxPercent}
+              onChange={(e) => setTaxPercent(e.target.value)}
+              className="w-28"
+              data-testid="input-snipe-sales-tax"
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+            <Button variant="outline" onClick={saveTax} disabled={taxMutation.isPending} data-testid="button-save-sales-tax">
+              Save
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="p-4 space-y-3">
+          <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-wider">Watch List</h3>
+          {!watches?.length ? (
+            <p className="text-sm text-muted-foreground">No auctions on your watch list yet.</p>
+          ) : (
+            watches.map(watch => {
+              const ended = new Date(watch.endsAt).getTime() <= Date.now();
+              return (
+                <div key={watch.id} className="flex items-center gap-3" data-testid={`row-snipe-watch-${watch.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <Link href={`/snipe?item=${watch.itemId}`} className="font-medium text-sm truncate block">{watch.title}</Link>
+                    <p className="text-xs text-muted-foreground">
+                      {ended ? "Ended" : `Ends ${format(new Date(watch.endsAt), "MMM d, h:mm a")}`}
+                      {` · bid ${formatMoney(parseFloat(watch.currentBid))}`}
+                      {` · max ${watch.maxBid !== null ? formatMoney(parseFloat(watch.maxBid)) : "—"}`}
+                      {!ended && (watch.reminderSentAt ? " · reminded" : ` · ${watch.remindMinutesBefore} min reminder`)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteWatchMutation.mutate(watch.id)}
+                    disabled={deleteWatchMutation.isPending}
+                    data-testid={`button-delete-snipe-watch-${watch.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </Card>
+      </main>
+
+      <BottomNav />
+    </div>
+  );
+}
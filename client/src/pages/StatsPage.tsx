@@ -9,12 +9,15 @@ import { Progress } from "@/components/ui/progress";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { useAnalyticsSeries } from "@/hooks/use-items";
+import { format, parseISO } from "date-fns";
 import { 
   TrendingUp, DollarSign, Target, Award, 
-  ThumbsUp, ThumbsDown, Bell, Trash2, Loader2,
+  ThumbsUp, ThumbsDown, Bell, Trash2, Loader2, Search,
   BarChart3, Zap, Calendar, Clock, Trophy, Flame, CheckCircle, Settings
 } from "lucide-react";
 import { Link } from "wouter";
+import { SavedSearchDialog, SavedSearchDeals } from "@/components/SavedSearchAlerts";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface UserStats {
@@ -59,6 +62,9 @@ interface PriceAlert {
   maxBuyPrice?: string;
   alertTriggered: boolean;
   createdAt: string;
+  searchQuery?: string | null; // saved search
+  category?: string | null;
+  minMarginPercent?: string | null;
 }
 
 export default function StatsPage() {
@@ -67,6 +73,7 @@ export default function StatsPage() {
   const queryClient = useQueryClient();
   const [, navigate] = useLocation();
   const [votingId, setVotingId] = useState<number | null>(null);
+  const [savedSearchOpen, setSavedSearchOpen] = useState(false);
 
   // Fetch user stats
   const { data: stats, isLoading: statsLoading } = useQuery<UserStats>({
@@ -74,6 +81,10 @@ export default function StatsPage() {
     enabled: !!user,
   });
 
+  // Realized profit per week from sold inventory
+  const { data: salesTrend } = useAnalyticsSeries({ interval: 'week', periods: 8 }, { enabled: !!user });
+  const salesPoints = salesTrend?.series[0]?.points ?? [];
+
   // Fetch mystery flip
   const { data: mysteryFlip, isLoading: mysteryLoading } = useQuery<MysteryFlip>({
     queryKey: ['/api/mystery-flip'],
@@ -260,6 +271,45 @@ export default function StatsPage() {
               </Card>
             )}
 
+            {/* Weekly Sales Profit */}
+            {salesPoints.some(point => point.itemsSold > 0) && (
+              <Card className="p-4" data-testid="card-sales-trend">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <DollarSign className="w-4 h-4 text-green-500" />
+                    <span className="text-sm font-medium">Weekly Sales Profit</span>
+                  </div>
+                  <Link href="/analytics">
+                    <span className="text-xs text-primary">Details</span>
+                  </Link>
+                </div>
+                <div className="flex items-end justify-between gap-2 h-16">
+                  {salesPoints.map((point) => {
+                    const maxProfit = Math.max(...salesPoints.map(p => Math.abs(p.profit)), 1);
+                    const height = (Math.abs(point.profit) / maxProfit) * 100;
+                    return (
+                      <div key={point.period} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                        <div
+                          className={`w-full rounded-t ${point.profit < 0 ? 'bg-red-500/70' : 'bg-green-500'}`}
+                          style={{ height: `${Math.max(height, 4)}%`, opacity: point.itemsSold > 0 ? 1 : 0.3 }}
+                          title={`$${Math.round(point.profit)} on ${point.itemsSold} sold`}
+                        />
+                        <span className="text-[10px] text-muted-foreground">
+                          {format(parseISO(point.period), 'M/d')}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+                {salesTrend && (
+                  <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                    <span>{salesTrend.total.itemsSold} sold in 8 weeks</span>
+                    {salesTrend.total.avgDaysToSell !== null && <span>{Math.round(salesTrend.total.avgDaysToSell)} days avg to sell</span>}
+                  </div>
+                )}
+              </Card>
+            )}
+
             {/* Best Category */}
             {stats.bestCategory !== 'None' && (
               <Card className="p-4">
@@ -315,7 +365,17 @@ export default function StatsPage() {
             <Badge variant="outline" className="ml-auto">
               {priceAlerts.length} watching
             </Badge>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSavedSearchOpen(true)}
+              data-testid="button-new-saved-search"
+            >
+              <Search className="w-4 h-4 mr-1" />
+              Search
+            </Button>
           </div>
+          <SavedSearchDialog open={savedSearchOpen} onOpenChange={setSavedSearchOpen} />
 
           {alertsLoading ? (
             <Card className="p-8 flex justify-center">
@@ -326,7 +386,7 @@ export default function StatsPage() {
               <Bell className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
               <p className="text-sm text-muted-foreground mb-2">No price alerts yet</p>
               <p className="text-xs text-muted-foreground">
-                When you skip an item, you can watch it for price drops
+                When you skip an item, you can watch it for price drops - or save a search to hear about new flips
               </p>
             </Card>
           ) : (
@@ -336,16 +396,28 @@ export default function StatsPage() {
                   <div className="flex items-center justify-between">
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium truncate">{alert.title}</p>
-                      <div className="flex items-center gap-2 mt-1">
-                        <span className="text-xs text-muted-foreground">
-                          Was: ${alert.originalPrice}
-                        </span>
-                        {alert.alertTriggered && (
-                          <Badge variant="default" className="bg-green-500 text-xs">
-                            Price Dropped!
-                          </Badge>
-                        )}
-                      </div>
+                      {alert.searchQuery ? (
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge variant="secondary" className="text-xs">Saved search</Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {alert.category}
+                            {alert.maxBuyPrice ? ` · under $${alert.maxBuyPrice}` : ''}
+                            {alert.minMarginPercent ? ` · ${alert.minMarginPercent}%+ margin` : ''}
+                          </span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="text-xs text-muted-foreground">
+                            Was: ${alert.originalPrice}
+                          </span>
+                          {alert.alertTriggered && (
+                            <Badge variant="default" className="bg-green-500 text-xs">
+                              Price Dropped!
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                      {alert.searchQuery && <SavedSearchDeals alertId={alert.id} />}
                     </div>
                     <Button
                       variant="ghost"
@@ -9,9 +9,11 @@ import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveUpdates, useLivePriceAlerts } from "@/hooks/use-live-updates";
 import { apiRequest } from "@/lib/queryClient";
 import { incrementScanCount, markYardSaleComplete } from "@/components/FeedbackGate";
 import { getCategoryFeeMultiplier, getShippingAllowance } from "@shared/pricingEngine";
+import { SCAN_STAGE_LABELS, type ScanStage } from "@shared/liveUpdates";
 import { 
   Camera, ArrowLeft, Volume2, VolumeX, DollarSign,
   CheckCircle, XCircle, Loader2, ShoppingBag, TrendingUp,
@@ -25,6 +27,7 @@ interface ScannedItem {
   id: string;
   imageBase64: string;
   status: 'scanning' | 'complete' | 'error';
+  scanStage?: ScanStage; // live pipeline stage while scanning
   title?: string;
   category?: string;
   brand?: string;
@@ -224,6 +227,17 @@ export default function YardSaleMode() {
     .filter(item => item.swipeConfirmed && item.verdict === 'flip' && item.estimatedProfit && item.estimatedProfit > 0)
     .reduce((sum, item) => sum + (item.estimatedProfit || 0), 0);
 
+  // Pipeline stages for in-flight scans - the local item id doubles as the scanId
+  useLiveUpdates((message) => {
+    if (message.type !== 'scan_stage') return;
+    setScannedItems(prev => prev.map(item =>
+      item.id === message.scanId && item.status === 'scanning'
+        ? { ...item, scanStage: message.stage, title: message.title ?? item.title }
+        : item
+    ));
+  }, { enabled: isActive });
+  useLivePriceAlerts({ enabled: isActive });
+
   // Start a fresh batch session when entering active mode
   useEffect(() => {
     if (isActive && scannedItems.length === 0) {
@@ -407,7 +421,8 @@ export default function YardSaleMode() {
     mutationFn: async ({ imageBase64, itemId }: { imageBase64: string; itemId: string }) => {
       const res = await apiRequest('POST', '/api/batch/scanAndAnalyze', { 
         imageBase64,
-        condition: 'Used' // Yard sale items are always Used by default
+        condition: 'Used', // Yard sale items are always Used by default
+        scanId: itemId
       });
       return { ...(await res.json()), localItemId: itemId };
     },
@@ -1095,7 +1110,12 @@ export default function YardSaleMode() {
                       
                       <div className="flex-1 min-w-0">
                         {item.status === 'scanning' ? (
-                          <p className="text-sm text-muted-foreground">Analyzing...</p>
+                          <div className="min-w-0">
+                            {item.title && <p className="text-sm font-medium truncate">{item.title}</p>}
+                            <p className="text-sm text-muted-foreground" data-testid={`text-scan-stage-${item.id}`}>
+                              {item.scanStage ? SCAN_STAGE_LABELS[item.scanStage] : 'Analyzing...'}
+                            </p>
+                          </div>
                         ) : item.status === 'error' ? (
                           <div className="flex items-center gap-2">
                             <p className="text-sm text-destructive flex-1">{item.error}</p>
@@ -1106,7 +1126,7 @@ export default function YardSaleMode() {
                                 e.stopPropagation();
                                 // Re-scan the item
                                 setScannedItems(prev => prev.map(i => 
-                                  i.id === item.id ? { ...i, status: 'scanning' as const, error: undefined } : i
+                                  i.id === item.id ? { ...i, status: 'scanning' as const, scanStage: undefined, error: undefined } : i
                                 ));
                                 scanMutation.mutate({ imageBase64: item.imageBase64, itemId: item.id });
                               }}
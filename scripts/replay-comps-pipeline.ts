@@ -0,0 +1,74 @@
+/**
+ * End-to-end comps → decision run against recorded API fixtures.
+ *
+ * Run offline (CI, no keys, no network) against server/__fixtures__/api:
+ *   npm run test:pipeline
+ * The database is never queried - the comp cache runs in memory - so the
+ * script's DATABASE_URL is only a placeholder.
+ *
+ * Re-record with real keys after adding a case or when a provider changes:
+ *   API_FIXTURES=record npx tsx scripts/replay-comps-pipeline.ts
+ * then trim listing IDs, image URLs and seller names from the new fixtures
+ * before committing them, and set the case's expectedVerdict.
+ */
+
+import { fetchMergedComps } from '../server/comp-providers';
+import { getFixtureMode } from '../server/api-fixtures';
+import { calculateDecision, type DecisionVerdict } from '../shared/decisionEngine';
+
+interface PipelineCase {
+  query: string;
+  category: string;
+  buyPrice: number;
+  expectedVerdict: DecisionVerdict; // asserted on replay
+}
+
+const PIPELINE_CASES: PipelineCase[] = [
+  { query: 'Nintendo Switch OLED console', category: 'Electronics', buyPrice: 120, expectedVerdict: 'flip' },
+  { query: 'Nintendo Switch OLED console', category: 'Electronics', buyPrice: 175, expectedVerdict: 'skip' },
+  { query: 'Pokemon Charizard Base Set holo', category: 'Trading Cards', buyPrice: 150, expectedVerdict: 'flip' },
+  { query: 'Seiko SKX007 automatic dive watch', category: 'Watches', buyPrice: 90, expectedVerdict: 'flip' },
+];
+
+async function runPipeline() {
+  const mode = getFixtureMode();
+  console.log(`Comps pipeline (fixtures: ${mode})\n`);
+  let failures = 0;
+
+  for (const testCase of PIPELINE_CASES) {
+    const comps = await fetchMergedComps({ query: testCase.query, category: testCase.category, itemTitle: testCase.query });
+    const decision = calculateDecision({
+      buyPrice: testCase.buyPrice,
+      shippingIn: 0,
+      expectedSalePrice: comps.medianPrice,
+      compCount: comps.comps.length,
+      category: testCase.category,
+    });
+
+    const sources = comps.sources.map(s => `${s.id}=${s.error ? 'error' : s.compCount}`).join(', ');
+    console.log(`${testCase.query} @ $${testCase.buyPrice}`);
+    console.log(`  comps: ${comps.comps.length} (${sources || 'no providers'}), median $${comps.medianPrice ?? '-'}`);
+    console.log(`  verdict: ${decision.verdict} (${decision.marginPercent}% margin, max buy $${decision.maxBuy ?? '-'})`);
+
+    const providerErrors = comps.sources.filter(s => s.error);
+    if (mode === 'replay' && providerErrors.length > 0) {
+      failures++;
+      console.log(`  FAIL: ${providerErrors.map(s => `${s.id}: ${s.error}`).join('; ')}`);
+    }
+    if (mode === 'replay' && decision.verdict !== testCase.expectedVerdict) {
+      failures++;
+      console.log(`  FAIL: expected ${testCase.expectedVerdict}`);
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} failure(s)`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+runPipeline().catch(error => {
+  console.error('Pipeline run failed:', error);
+  process.exit(1);
+});
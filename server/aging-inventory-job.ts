@@ -0,0 +1,199 @@
+/**
+ * Aging Inventory Job
+ *
+ * Once a day, finds listed items that have sat past the user's typical
+ * time-to-sell for their category, re-pulls comps for each through the comp
+ * provider registry and stores a recommendation (drop price, cross-list or
+ * bundle/liquidate) - see @shared/agingInventory for the rules.
+ *
+ * Each user gets one push per run, only when new items went stale.
+ * Recommendations are refreshed at most every REFRESH_DAYS, and an item the
+ * user dismissed or acted on is left alone for SNOOZE_DAYS.
+ */
+
+import { and, eq, isNotNull, sql } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { inventoryItems } from '@shared/schema';
+import { SOLD_STATUSES } from '@shared/inventoryLifecycle';
+import { comparePlatformPayouts, type PlatformPayout } from '@shared/platformPayouts';
+import { rankAgingItems, recommendAgingAction, type AgingRecommendationInput, type SellTimeBaselines } from '@shared/agingInventory';
+import { fetchMergedComps, getPlatformPriceInputs } from './comp-providers';
+import { notifyAgingInventory } from './push-service';
+
+const CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000; // Daily
+const MAX_ITEMS_PER_USER = 10; // comp lookups per user per run, most overdue first
+const REFRESH_DAYS = 7;
+const SNOOZE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Median listed → sold days per category (lowercased) and overall.
+ */
+async function getSellTimeBaselines(userId: number): Promise<SellTimeBaselines> {
+  const statuses = sql.join(SOLD_STATUSES.map(status => sql`${status}`), sql`, `);
+  const result = await db.execute(sql`
+    SELECT lower(category) AS category,
+           grouping(lower(category)) AS is_total,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY extract(epoch FROM (sold_date - listed_date)) / 86400) AS median_days,
+           count(*)::int AS sales
+    FROM inventory_items
+    WHERE user_id = ${userId}
+      AND status IN (${statuses})
+      AND listed_date IS NOT NULL
+      AND sold_date IS NOT NULL
+      AND sold_date >= listed_date
+    GROUP BY GROUPING SETS ((lower(category)), ())
+  `);
+
+  const baselines: SellTimeBaselines = { categories: {}, overall: null };
+  for (const row of result.rows as { category: string | null; is_total: number; median_days: string | number; sales: number }[]) {
+    const baseline = { medianDays: Math.round(Number(row.median_days)), sales: Number(row.sales) };
+    if (Number(row.is_total) === 1) {
+      baselines.overall = baseline;
+    } else if (row.category) {
+      baselines.categories[row.category] = baseline;
+    }
+  }
+  return baselines;
+}
+
+/**
+ * Rank one user's listed items and refresh recommendations for the stale ones.
+ * Returns how many recommendations were written and how many are new.
+ */
+export async function runAgingCheckForUser(
+  userId: number,
+  options: { notify?: boolean } = {}
+): Promise<{ stale: number; updated: number; created: number }> {
+  const listed = await db.select().from(inventoryItems)
+    .where(and(eq(inventoryItems.userId, userId), eq(inventoryItems.status, 'listed'), isNotNull(inventoryItems.listedDate)));
+  if (listed.length === 0) return { stale: 0, updated: 0, created: 0 };
+
+  const now = new Date();
+  const ranked = rankAgingItems(listed, await getSellTimeBaselines(userId), now);
+  const latest = new Map((await storage.getLatestAgingRecommendations(userId)).map(r => [r.inventoryItemId, r]));
+
+  const due = ranked.filter(({ item }) => {
+    const previous = latest.get(item.id);
+    if (!previous) return true;
+    if (previous.status === 'open') return now.getTime() - previous.updatedAt.getTime() >= REFRESH_DAYS * DAY_MS;
+    return !previous.resolvedAt || now.getTime() - previous.resolvedAt.getTime() >= SNOOZE_DAYS * DAY_MS;
+  }).slice(0, MAX_ITEMS_PER_USER);
+
+  const created: { id: number; title: string }[] = [];
+  let updated = 0;
+
+  for (const { item, daysListed, typicalDaysToSell, ageRatio } of due) {
+    const category = item.category || 'Other';
+    let comps: AgingRecommendationInput['comps'] = { medianPrice: null, lowPrice: null, count: 0 };
+    let payouts: PlatformPayout[] = [];
+    try {
+      const merged = await fetchMergedComps({
+        query: item.title,
+        category,
+        condition: item.condition || undefined,
+        itemTitle: item.title,
+        imageUrl: item.imageUrl || undefined,
+      });
+      const soldCount = merged.sources.filter(s => s.priceKind === 'sold').reduce((sum, s) => sum + s.compCount, 0);
+      comps = { medianPrice: merged.medianPrice, lowPrice: merged.lowPrice, count: soldCount };
+      payouts = comparePlatformPayouts(getPlatformPriceInputs(merged), { category: item.category }).platforms;
+    } catch (error) {
+      // Comps are best-effort - the recommendation falls back to age alone
+      console.error(`[AgingInventory] Comps failed for item ${item.id}:`, error);
+    }
+
+    const recommendation = recommendAgingAction({
+      askingPrice: item.estimatedResale,
+      purchasePrice: item.purchasePrice,
+      shippingEstimate: item.shippingEstimate,
+      platform: item.salePlatform,
+      category: item.category,
+      ageRatio,
+      comps,
+      payouts,
+    });
+
+    const saved = await storage.saveAgingRecommendation(userId, item.id, {
+      action: recommendation.action,
+      daysListed,
+      typicalDaysToSell,
+      ageRatio: ageRatio.toString(),
+      askingPrice: item.estimatedResale,
+      suggestedPrice: recommendation.suggestedPrice !== null ? recommendation.suggestedPrice.toFixed(2) : null,
+      breakEvenPrice: recommendation.breakEvenPrice.toFixed(2),
+      targetPlatform: recommendation.targetPlatform,
+      compMedian: comps.medianPrice !== null ? comps.medianPrice.toFixed(2) : null,
+      compCount: comps.count,
+      reason: recommendation.reason,
+    });
+    updated++;
+    if (saved.created) created.push({ id: saved.recommendation.id, title: item.title });
+
+    // Small delay between comp lookups to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, 300));
+  }
+
+  if (options.notify && created.length > 0) {
+    await notifyAgingInventory(userId, created.length, created[0].title);
+    await storage.markAgingRecommendationsNotified(created.map(c => c.id));
+  }
+
+  return { stale: ranked.length, updated, created: created.length };
+}
+
+async function checkAgingInventory(): Promise<void> {
+  console.log('[AgingInventory] Starting aging check...');
+
+  const users = await db.selectDistinct({ userId: inventoryItems.userId })
+    .from(inventoryItems)
+    .where(and(eq(inventoryItems.status, 'listed'), isNotNull(inventoryItems.listedDate)));
+
+  let stale = 0;
+  let created = 0;
+  for (const { userId } of users) {
+    try {
+      const result = await runAgingCheckForUser(userId, { notify: true });
+      stale += result.stale;
+      created += result.created;
+    } catch (error) {
+      console.error(`[AgingInventory] Check failed for user ${userId}:`, error);
+    }
+  }
+
+  console.log(`[AgingInventory] Aging check complete: ${users.length} users, ${stale} stale items, ${created} new recommendations`);
+}
+
+let checkInterval: NodeJS.Timeout | null = null;
+
+export function startAgingInventoryJob(): void {
+  if (checkInterval) {
+    console.log('[AgingInventory] Job already running');
+    return;
+  }
+
+  console.log('[AgingInventory] Starting aging inventory job (daily)');
+
+  // Run immediately on start - recently refreshed items are skipped, so restarts are cheap
+  checkAgingInventory().catch(err => {
+    console.error('[AgingInventory] Initial check failed:', err);
+  });
+
+  // Then run once a day
+  checkInterval = setInterval(() => {
+    checkAgingInventory().catch(err => {
+      console.error('[AgingInventory] Scheduled check failed:', err);
+    });
+  }, CHECK_INTERVAL_MS);
+}
+
+export function stopAgingInventoryJob(): void {
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+    console.log('[AgingInventory] Job stopped');
+  }
+}
+
+export { checkAgingInventory };
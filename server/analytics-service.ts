@@ -0,0 +1,468 @@
+/**
+ * Analytics Service
+ *
+ * SQL aggregations behind AnalyticsPage, StatsPage and ProfitDashboard.
+ * Inventory is summed per period (and slice) in Postgres - nothing loads
+ * every item into memory. Expenses and scans (items) are summed per period
+ * for the unsliced series.
+ *
+ * FEES: the actual fee recorded on a sale wins; otherwise the platform's
+ * schedule from FEE_SCHEDULES is applied in SQL (tiers, flat/minimum fees,
+ * per-order and processing fees). eBay category overrides are not applied
+ * here, so estimated fees on sneakers/watches can differ slightly from the
+ * item's own P&L.
+ *
+ * Metric definitions and period math live in @shared/analytics; sourcing
+ * scorecard math lives in @shared/sourcingScorecards.
+ */
+
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  EMPTY_RAW_POINT,
+  UNKNOWN_SLICE,
+  addRawPoints,
+  finalizeAnalyticsPoint,
+  mergeSmallSlices,
+  toPeriodKey,
+  type AnalyticsInterval,
+  type AnalyticsPeriod,
+  type AnalyticsRawPoint,
+  type AnalyticsSeriesResponse,
+  type AnalyticsSlice,
+  type SalesBreakdown,
+} from "@shared/analytics";
+import {
+  EMPTY_SOURCING_TOTALS,
+  buildSourcingHeatmap,
+  buildSourcingScorecard,
+  rankSourcingScorecards,
+  type SourcingHeatmapRow,
+  type SourcingRawTotals,
+  type SourcingScorecardsResponse,
+} from "@shared/sourcingScorecards";
+import { FEE_SCHEDULES, type FeePlatform, type FeeSchedule } from "@shared/feeSchedule";
+import { SOLD_STATUSES, DISPOSED_STATUSES } from "@shared/inventoryLifecycle";
+
+const DEFAULT_SLICE_LIMIT = 8;
+
+function statusList(statuses: readonly string[]): SQL {
+  return sql.join(statuses.map(status => sql`${status}`), sql`, `);
+}
+
+// Fee schedule constants are inlined, not bound as parameters
+function num(value: number): SQL {
+  return sql.raw(String(value));
+}
+
+const IS_SOLD = sql`i.status IN (${statusList(SOLD_STATUSES)})`;
+const ACQUIRED_AT = sql`COALESCE(i.purchase_date, i.created_at)`;
+// When the item left stock (sold or disposed); NULL while it is still on hand
+const EXITED_AT = sql`CASE
+  WHEN ${IS_SOLD} THEN i.sold_date
+  WHEN i.status IN (${statusList(DISPOSED_STATUSES)}) THEN i.disposed_date
+  ELSE NULL END`;
+const SALE_PRICE = sql`COALESCE(i.actual_sale_price::numeric, 0)`;
+
+function scheduleFeeSql(schedule: FeeSchedule): SQL {
+  // Marginal tiers: each band charges its rate on the part of the price inside it
+  let lower = 0;
+  const tierParts: SQL[] = [];
+  for (const tier of schedule.tiers) {
+    const upper = tier.upTo === null ? SALE_PRICE : sql`LEAST(${SALE_PRICE}, ${num(tier.upTo)})`;
+    tierParts.push(sql`GREATEST(${upper} - ${num(lower)}, 0) * ${num(tier.rate)}`);
+    if (tier.upTo === null) break;
+    lower = tier.upTo;
+  }
+  let sellingFee = sql`(${sql.join(tierParts, sql` + `)})`;
+  if (schedule.minimumFee) {
+    sellingFee = sql`GREATEST(${sellingFee}, ${num(schedule.minimumFee)})`;
+  }
+  const fixedFee = schedule.fixedFeeSmallOrder
+    ? sql`CASE WHEN ${SALE_PRICE} < ${num(schedule.fixedFeeSmallOrder.below)} THEN ${num(schedule.fixedFeeSmallOrder.fee)} ELSE ${num(schedule.fixedFee)} END`
+    : num(schedule.fixedFee);
+  const processingFee = sql`(${SALE_PRICE} * ${num(schedule.processingRate)} + ${num(schedule.processingFixed)})`;
+
+  const fee = sql`(${sellingFee} + ${fixedFee} + ${processingFee})`;
+  if (!schedule.flatFeeBelow) return fee;
+  return sql`CASE WHEN ${SALE_PRICE} < ${num(schedule.flatFeeBelow.below)} THEN ${num(schedule.flatFeeBelow.fee)} ELSE ${fee} END`;
+}
+
+// Mirrors normalizeFeePlatform: blank means eBay, unknown means "other"
+function estimatedFeeSql(): SQL {
+  const platform = sql`LOWER(TRIM(COALESCE(i.sale_platform, '')))`;
+  const platforms = Object.keys(FEE_SCHEDULES) as FeePlatform[];
+  const cases = platforms.map(key => sql`WHEN ${platform} = ${key} THEN ${scheduleFeeSql(FEE_SCHEDULES[key])}`);
+  return sql`CASE
+    WHEN ${SALE_PRICE} <= 0 THEN 0
+    ${sql.join(cases, sql` `)}
+    WHEN ${platform} = '' OR ${platform} LIKE '%ebay%' THEN ${scheduleFeeSql(FEE_SCHEDULES.ebay)}
+    WHEN ${platform} LIKE '%facebook%' OR ${platform} LIKE '%marketplace%' THEN ${scheduleFeeSql(FEE_SCHEDULES.facebook)}
+    ELSE ${scheduleFeeSql(FEE_SCHEDULES.other)} END`;
+}
+
+const FEES = sql`COALESCE(i.platform_fee_actual::numeric, ${estimatedFeeSql()})`;
+const SHIPPING = sql`COALESCE(i.outbound_shipping_actual::numeric, i.shipping_estimate::numeric, 0)`;
+
+function sliceKeySql(slice: AnalyticsSlice): SQL {
+  const orUnknown = (column: SQL) => sql`COALESCE(NULLIF(TRIM(${column}), ''), ${UNKNOWN_SLICE})`;
+  switch (slice) {
+    case 'category': return orUnknown(sql`i.category`);
+    case 'brand': return orUnknown(sql`i.brand`);
+    case 'sourceLocation': return orUnknown(sql`i.source_location_name`);
+    case 'salePlatform': return orUnknown(sql`LOWER(i.sale_platform)`);
+    case 'cohort': return sql`TO_CHAR(${ACQUIRED_AT}, 'YYYY-MM')`;
+    default: return sql`'all'`;
+  }
+}
+
+// (idx, start, end) rows for the periods, joined against like a table
+function periodsValues(periods: AnalyticsPeriod[]): SQL {
+  const rows = periods.map((period, idx) =>
+    sql`(${idx}::int, ${period.start.toISOString()}::timestamp, ${period.end.toISOString()}::timestamp)`
+  );
+  return sql`(VALUES ${sql.join(rows, sql`, `)}) AS p(idx, start_at, end_at)`;
+}
+
+interface RawRow {
+  idx: number;
+  slice_key: string;
+  items_sold: string | number;
+  revenue: string | number | null;
+  cost: string | number | null;
+  fees: string | number | null;
+  shipping: string | number | null;
+  days_to_sell: string | number | null;
+  items_available: string | number;
+  items_acquired: string | number;
+}
+
+function toRawPoint(row: RawRow): AnalyticsRawPoint {
+  return {
+    itemsSold: Number(row.items_sold) || 0,
+    revenue: Number(row.revenue) || 0,
+    cost: Number(row.cost) || 0,
+    fees: Number(row.fees) || 0,
+    shipping: Number(row.shipping) || 0,
+    daysToSellTotal: Number(row.days_to_sell) || 0,
+    itemsAvailable: Number(row.items_available) || 0,
+    itemsAcquired: Number(row.items_acquired) || 0,
+  };
+}
+
+/**
+ * Raw inventory sums per (period, slice). Only items in stock at some point
+ * during a period join that period, which is also the sell-through base.
+ */
+async function queryInventoryPeriods(userId: number, periods: AnalyticsPeriod[], slice: AnalyticsSlice): Promise<RawRow[]> {
+  const soldInPeriod = sql`${IS_SOLD} AND i.sold_date >= p.start_at AND i.sold_date < p.end_at`;
+  const result = await db.execute(sql`
+    SELECT
+      p.idx AS idx,
+      ${sliceKeySql(slice)} AS slice_key,
+      COUNT(*) FILTER (WHERE ${soldInPeriod}) AS items_sold,
+      SUM(${SALE_PRICE}) FILTER (WHERE ${soldInPeriod}) AS revenue,
+      SUM(i.purchase_price::numeric) FILTER (WHERE ${soldInPeriod}) AS cost,
+      SUM(${FEES}) FILTER (WHERE ${soldInPeriod}) AS fees,
+      SUM(${SHIPPING}) FILTER (WHERE ${soldInPeriod}) AS shipping,
+      SUM(GREATEST(EXTRACT(EPOCH FROM (i.sold_date - ${ACQUIRED_AT})) / 86400, 0)) FILTER (WHERE ${soldInPeriod}) AS days_to_sell,
+      COUNT(*) AS items_available,
+      COUNT(*) FILTER (WHERE ${ACQUIRED_AT} >= p.start_at) AS items_acquired
+    FROM ${periodsValues(periods)}
+    JOIN inventory_items i
+      ON i.user_id = ${userId}
+      AND ${ACQUIRED_AT} < p.end_at
+      AND (${EXITED_AT} IS NULL OR ${EXITED_AT} >= p.start_at)
+    GROUP BY p.idx, slice_key
+  `);
+  return result.rows as unknown as RawRow[];
+}
+
+/**
+ * Business expenses, scans and FLIP verdicts per period.
+ */
+async function queryActivityPeriods(userId: number, periods: AnalyticsPeriod[]) {
+  const values = periodsValues(periods);
+  const [expenseResult, scanResult] = await Promise.all([
+    db.execute(sql`
+      SELECT p.idx AS idx, SUM(e.amount::numeric) AS expenses
+      FROM ${values}
+      JOIN business_expenses e
+        ON e.user_id = ${userId} AND e.expense_date >= p.start_at AND e.expense_date < p.end_at
+      GROUP BY p.idx
+    `),
+    db.execute(sql`
+      SELECT p.idx AS idx, COUNT(*) AS scans, COUNT(*) FILTER (WHERE s.decision_verdict = 'flip') AS flips
+      FROM ${values}
+      JOIN items s
+        ON s.user_id = ${userId} AND s.created_at >= p.start_at AND s.created_at < p.end_at
+      GROUP BY p.idx
+    `),
+  ]);
+
+  const activity = periods.map(() => ({ expenses: 0, scans: 0, flips: 0 }));
+  for (const row of expenseResult.rows as { idx: number; expenses: string | null }[]) {
+    activity[row.idx].expenses = Number(row.expenses) || 0;
+  }
+  for (const row of scanResult.rows as { idx: number; scans: string; flips: string }[]) {
+    activity[row.idx].scans = Number(row.scans) || 0;
+    activity[row.idx].flips = Number(row.flips) || 0;
+  }
+  return activity;
+}
+
+export interface AnalyticsSeriesOptions {
+  interval: AnalyticsInterval;
+  periods: AnalyticsPeriod[];
+  slice: AnalyticsSlice;
+  limit?: number; // slices kept before the rest fold into "Other"
+}
+
+export async function getAnalyticsSeries(userId: number, options: AnalyticsSeriesOptions): Promise<AnalyticsSeriesResponse> {
+  const { interval, periods, slice } = options;
+  const periodKeys = periods.map(period => toPeriodKey(period.start));
+  if (periods.length === 0) {
+    return { interval, slice, periods: [], series: [], total: finalizeAnalyticsPoint('', EMPTY_RAW_POINT) };
+  }
+
+  // The whole range as one period gives correct totals (sell-through isn't additive)
+  const range: AnalyticsPeriod = { start: periods[0].start, end: periods[periods.length - 1].end };
+  const [rows, totalRows, activity] = await Promise.all([
+    queryInventoryPeriods(userId, periods, slice),
+    queryInventoryPeriods(userId, [range], slice),
+    slice === 'none' ? queryActivityPeriods(userId, periods) : Promise.resolve(null),
+  ]);
+
+  const slices = new Map<string, { points: AnalyticsRawPoint[]; total: AnalyticsRawPoint }>();
+  const sliceFor = (key: string) => {
+    let entry = slices.get(key);
+    if (!entry) {
+      entry = { points: periods.map(() => ({ ...EMPTY_RAW_POINT })), total: { ...EMPTY_RAW_POINT } };
+      slices.set(key, entry);
+    }
+    return entry;
+  };
+  for (const row of rows) {
+    const entry = sliceFor(row.slice_key);
+    entry.points[row.idx] = addRawPoints(entry.points[row.idx], toRawPoint(row));
+  }
+  let grandTotal = { ...EMPTY_RAW_POINT };
+  for (const row of totalRows) {
+    const raw = toRawPoint(row);
+    const entry = sliceFor(row.slice_key);
+    entry.total = addRawPoints(entry.total, raw);
+    grandTotal = addRawPoints(grandTotal, raw);
+  }
+  if (slice === 'none' && slices.size === 0) {
+    sliceFor('all');
+  }
+
+  const rangeActivity = activity?.reduce((sum, a) => ({
+    expenses: sum.expenses + a.expenses,
+    scans: sum.scans + a.scans,
+    flips: sum.flips + a.flips,
+  }), { expenses: 0, scans: 0, flips: 0 });
+
+  const series = mergeSmallSlices(slices, options.limit ?? DEFAULT_SLICE_LIMIT).map(entry => ({
+    key: entry.key,
+    points: entry.points.map((raw, i) => finalizeAnalyticsPoint(periodKeys[i], raw, activity?.[i])),
+    total: finalizeAnalyticsPoint(periodKeys[0], entry.total, rangeActivity),
+  }));
+
+  return {
+    interval,
+    slice,
+    periods: periodKeys,
+    series,
+    total: finalizeAnalyticsPoint(periodKeys[0], grandTotal, rangeActivity),
+  };
+}
+
+/**
+ * All-time brand and category leaders from the inventory's own brand/category
+ * columns, plus overall sell-through (sold ÷ ever listed or sold).
+ */
+export async function getSalesBreakdown(userId: number): Promise<SalesBreakdown> {
+  const profit = sql`(${SALE_PRICE} - i.purchase_price::numeric - ${FEES} - ${SHIPPING})`;
+  const soldOnly = sql`i.user_id = ${userId} AND ${IS_SOLD} AND i.actual_sale_price IS NOT NULL`;
+
+  const [brandResult, categoryResult, totalsResult] = await Promise.all([
+    db.execute(sql`
+      SELECT TRIM(i.brand) AS brand, COUNT(*) AS sold, SUM(${profit}) AS profit
+      FROM inventory_items i
+      WHERE ${soldOnly} AND NULLIF(TRIM(i.brand), '') IS NOT NULL
+      GROUP BY TRIM(i.brand)
+      ORDER BY profit DESC
+      LIMIT 10
+    `),
+    db.execute(sql`
+      SELECT ${sliceKeySql('category')} AS category, COUNT(*) AS sold, SUM(${profit}) AS profit
+      FROM inventory_items i
+      WHERE ${soldOnly}
+      GROUP BY 1
+    `),
+    db.execute(sql`
+      SELECT
+        COUNT(*) FILTER (WHERE ${IS_SOLD} AND i.actual_sale_price IS NOT NULL) AS sold,
+        COUNT(*) FILTER (WHERE i.status = 'listed' OR ${IS_SOLD}) AS listed,
+        SUM(${profit}) FILTER (WHERE ${IS_SOLD} AND i.actual_sale_price IS NOT NULL) AS profit
+      FROM inventory_items i
+      WHERE i.user_id = ${userId}
+    `),
+  ]);
+
+  const topBrands = (brandResult.rows as { brand: string; sold: string; profit: string }[]).map(row => ({
+    brand: row.brand,
+    sold: Number(row.sold),
+    profit: Math.round(Number(row.profit) || 0),
+  }));
+
+  const categoryProfit = (categoryResult.rows as { category: string; sold: string; profit: string }[])
+    .map(row => {
+      const itemsSold = Number(row.sold);
+      const totalProfit = Number(row.profit) || 0;
+      return {
+        category: row.category,
+        avgProfit: itemsSold > 0 ? Math.round(totalProfit / itemsSold) : 0,
+        itemsSold,
+        totalProfit: Math.round(totalProfit),
+      };
+    })
+    .sort((a, b) => b.avgProfit - a.avgProfit);
+
+  const totals = totalsResult.rows[0] as { sold: string; listed: string; profit: string | null } | undefined;
+  const totalSold = Number(totals?.sold) || 0;
+  const totalListed = Number(totals?.listed) || 0;
+  const totalProfit = Number(totals?.profit) || 0;
+
+  return {
+    topBrands,
+    categoryProfit,
+    sellThrough: {
+      rate: totalListed > 0 ? Math.round((totalSold / totalListed) * 100) : 0,
+      sold: totalSold,
+      listed: totalListed,
+    },
+    summary: {
+      totalProfit: Math.round(totalProfit),
+      avgProfitPerItem: totalSold > 0 ? Math.round(totalProfit / totalSold) : 0,
+      totalSold,
+      totalListed,
+    },
+  };
+}
+
+/**
+ * Per-location spend, realized profit, scan hit rate and mileage, plus the
+ * day-of-week × time-of-day purchase heatmap in the given IANA time zone.
+ */
+export async function getSourcingScorecards(userId: number, timeZone: string): Promise<SourcingScorecardsResponse> {
+  const profit = sql`(${SALE_PRICE} - i.purchase_price::numeric - ${FEES} - ${SHIPPING})`;
+  const soldWithPrice = sql`${IS_SOLD} AND i.actual_sale_price IS NOT NULL`;
+  // Dates picked without a time land on UTC midnight - keep their calendar day, drop the hour
+  const untimed = sql`${ACQUIRED_AT} = DATE_TRUNC('day', ${ACQUIRED_AT})`;
+  const localAcquiredAt = sql`CASE WHEN ${untimed} THEN ${ACQUIRED_AT} ELSE (${ACQUIRED_AT} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone} END`;
+
+  const [locations, mileage, inventoryResult, scanResult, heatmapResult] = await Promise.all([
+    storage.getSourcingLocations(userId),
+    storage.getMileageByLocation(userId),
+    db.execute(sql`
+      SELECT
+        i.source_location_id AS location_id,
+        COUNT(*) AS items_bought,
+        SUM(i.purchase_price::numeric) AS spend,
+        COUNT(*) FILTER (WHERE ${soldWithPrice}) AS items_sold,
+        SUM(${SALE_PRICE}) FILTER (WHERE ${soldWithPrice}) AS revenue,
+        SUM(i.purchase_price::numeric) FILTER (WHERE ${soldWithPrice}) AS sold_cost,
+        SUM(${FEES}) FILTER (WHERE ${soldWithPrice}) AS fees,
+        SUM(${SHIPPING}) FILTER (WHERE ${soldWithPrice}) AS shipping,
+        SUM(GREATEST(EXTRACT(EPOCH FROM (i.sold_date - ${ACQUIRED_AT})) / 86400, 0)) FILTER (WHERE ${soldWithPrice} AND i.sold_date IS NOT NULL) AS days_to_sell
+      FROM inventory_items i
+      WHERE i.user_id = ${userId} AND i.source_location_id IS NOT NULL
+      GROUP BY i.source_location_id
+    `),
+    db.execute(sql`
+      SELECT
+        s.source_location_id AS location_id,
+        COUNT(*) AS scans,
+        COUNT(*) FILTER (WHERE s.user_decision = 'flip' OR EXISTS (
+          SELECT 1 FROM inventory_items inv WHERE inv.item_id = s.id AND inv.user_id = ${userId}
+        )) AS hits
+      FROM items s
+      WHERE s.user_id = ${userId} AND s.source_location_id IS NOT NULL
+      GROUP BY s.source_location_id
+    `),
+    db.execute(sql`
+      SELECT
+        i.source_location_id AS location_id,
+        EXTRACT(DOW FROM ${localAcquiredAt})::int AS day_of_week,
+        CASE WHEN ${untimed} THEN NULL ELSE EXTRACT(HOUR FROM ${localAcquiredAt})::int END AS hour,
+        COUNT(*) AS items_bought,
+        SUM(i.purchase_price::numeric) AS spend,
+        COUNT(*) FILTER (WHERE ${soldWithPrice}) AS items_sold,
+        SUM(${profit}) FILTER (WHERE ${soldWithPrice}) AS profit
+      FROM inventory_items i
+      WHERE i.user_id = ${userId}
+      GROUP BY 1, 2, 3
+    `),
+  ]);
+
+  const totals = new Map<number, SourcingRawTotals>();
+  const totalsFor = (locationId: number) => {
+    let entry = totals.get(locationId);
+    if (!entry) {
+      entry = { ...EMPTY_SOURCING_TOTALS };
+      totals.set(locationId, entry);
+    }
+    return entry;
+  };
+  for (const row of inventoryResult.rows as Record<string, string | number | null>[]) {
+    const entry = totalsFor(Number(row.location_id));
+    entry.itemsBought = Number(row.items_bought) || 0;
+    entry.spend = Number(row.spend) || 0;
+    entry.itemsSold = Number(row.items_sold) || 0;
+    entry.revenue = Number(row.revenue) || 0;
+    entry.soldCost = Number(row.sold_cost) || 0;
+    entry.fees = Number(row.fees) || 0;
+    entry.shipping = Number(row.shipping) || 0;
+    entry.daysToSellTotal = Number(row.days_to_sell) || 0;
+  }
+  for (const row of scanResult.rows as { location_id: number; scans: string; hits: string }[]) {
+    const entry = totalsFor(Number(row.location_id));
+    entry.scans = Number(row.scans) || 0;
+    entry.hits = Number(row.hits) || 0;
+  }
+  for (const row of mileage) {
+    const entry = totalsFor(row.sourcingLocationId);
+    entry.mileageCost = row.mileageCost;
+    entry.miles = row.miles;
+    entry.tripCount = row.tripCount;
+  }
+
+  const heatmapRows = new Map<number | null, SourcingHeatmapRow[]>();
+  const allHeatmapRows: SourcingHeatmapRow[] = [];
+  for (const row of heatmapResult.rows as Record<string, string | number | null>[]) {
+    const heatmapRow: SourcingHeatmapRow = {
+      dayOfWeek: Number(row.day_of_week),
+      hour: row.hour === null ? null : Number(row.hour),
+      itemsBought: Number(row.items_bought) || 0,
+      spend: Number(row.spend) || 0,
+      itemsSold: Number(row.items_sold) || 0,
+      profit: Number(row.profit) || 0,
+    };
+    const locationId = row.location_id === null ? null : Number(row.location_id);
+    heatmapRows.set(locationId, [...(heatmapRows.get(locationId) ?? []), heatmapRow]);
+    allHeatmapRows.push(heatmapRow);
+  }
+
+  const scorecards = locations.map(location =>
+    buildSourcingScorecard(location, totals.get(location.id) ?? EMPTY_SOURCING_TOTALS, heatmapRows.get(location.id) ?? [])
+  );
+
+  return {
+    timeZone,
+    locations: rankSourcingScorecards(scorecards),
+    heatmap: buildSourcingHeatmap(allHeatmapRows),
+  };
+}
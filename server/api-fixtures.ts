@@ -0,0 +1,152 @@
+/**
+ * API Fixtures - Record/Replay for External Market APIs
+ *
+ * Sits under the eBay, SerpAPI, PriceCharting, Mercari, PSA and Ximilar
+ * clients so the comp and decision pipeline can run without network or keys.
+ *
+ * MODES (API_FIXTURES):
+ * - unset / "off": plain fetch (production)
+ * - "record": real request, response saved to API_FIXTURES_DIR/<service>/<key>.json
+ * - "replay": served from disk only - a missing fixture throws, nothing hits the network
+ *
+ * Fixture key = hash of method + URL + body, with credentials stripped from the
+ * URL (api_key, appid, token, ...) so recordings match across keys and never
+ * store secrets. Auth headers are never part of the key or the file, and OAuth
+ * access tokens are scrubbed from recorded bodies.
+ *
+ * In replay mode the clients' "is configured" checks still read env keys,
+ * so placeholder credentials are filled in for any that are missing.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export type FixtureService = 'ebay' | 'serpapi' | 'pricecharting' | 'mercari' | 'psa' | 'ximilar';
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+interface ApiFixture {
+  service: FixtureService;
+  request: { method: string; url: string };
+  response: { status: number; statusText: string; contentType: string | null; body: string };
+  recordedAt: string;
+}
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'server', '__fixtures__', 'api');
+
+// Query params that carry credentials - stripped from fixture keys and files
+const SECRET_PARAMS = /^(api_key|apikey|key|appid|app_id|security-appname|t|token|access_token|client_secret)$/i;
+
+// Env keys the clients check before calling out; filled with placeholders on replay
+const REPLAY_CREDENTIALS = [
+  'EBAY_CLIENT_ID',
+  'EBAY_CLIENT_SECRET',
+  'SERPAPI_KEY',
+  'PRICECHARTING_API_KEY',
+  'PSA_API_TOKEN',
+  'XIMILAR_API_TOKEN',
+];
+
+export class MissingFixtureError extends Error {
+  constructor(public service: FixtureService, public url: string, public fixturePath: string) {
+    super(`[Fixtures] No ${service} fixture for ${url} (expected ${fixturePath}). Record it with API_FIXTURES=record.`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.API_FIXTURES || '').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function getFixturesDir(): string {
+  return process.env.API_FIXTURES_DIR ? path.resolve(process.env.API_FIXTURES_DIR) : DEFAULT_FIXTURES_DIR;
+}
+
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of Array.from(parsed.searchParams.keys())) {
+      if (SECRET_PARAMS.test(name)) parsed.searchParams.set(name, 'REDACTED');
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function bodyToString(body: RequestInit['body']): string {
+  if (!body) return '';
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  return '';
+}
+
+export function getFixtureKey(method: string, url: string, body?: RequestInit['body']): string {
+  return createHash('sha256')
+    .update(`${method.toUpperCase()} ${redactUrl(url)}\n${bodyToString(body)}`)
+    .digest('hex')
+    .slice(0, 24);
+}
+
+function getFixturePath(service: FixtureService, key: string): string {
+  return path.join(getFixturesDir(), service, `${key}.json`);
+}
+
+/**
+ * Drop-in fetch for external market API clients.
+ */
+export async function fixtureFetch(
+  service: FixtureService,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const mode = getFixtureMode();
+  if (mode === 'off') return fetch(url, init);
+
+  const method = (init.method || 'GET').toUpperCase();
+  const fixturePath = getFixturePath(service, getFixtureKey(method, url, init.body));
+
+  if (mode === 'replay') {
+    if (!existsSync(fixturePath)) {
+      throw new MissingFixtureError(service, redactUrl(url), fixturePath);
+    }
+    const fixture: ApiFixture = JSON.parse(readFileSync(fixturePath, 'utf-8'));
+    return new Response(fixture.response.body, {
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      headers: fixture.response.contentType ? { 'content-type': fixture.response.contentType } : undefined,
+    });
+  }
+
+  const response = await fetch(url, init);
+  const body = await response.text();
+  const fixture: ApiFixture = {
+    service,
+    request: { method, url: redactUrl(url) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type'),
+      // OAuth token responses: any token string works on replay
+      body: body.replace(/"access_token"\s*:\s*"[^"]*"/g, '"access_token":"REDACTED"'),
+    },
+    recordedAt: new Date().toISOString(),
+  };
+  mkdirSync(path.dirname(fixturePath), { recursive: true });
+  writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+  console.log(`[Fixtures] Recorded ${service} ${method} ${fixture.request.url} → ${path.relative(process.cwd(), fixturePath)}`);
+
+  // The body was consumed for the recording - hand the client an identical copy
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: fixture.response.contentType ? { 'content-type': fixture.response.contentType } : undefined,
+  });
+}
+
+if (getFixtureMode() === 'replay') {
+  for (const name of REPLAY_CREDENTIALS) {
+    if (!process.env[name]) process.env[name] = 'replay';
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Auction Advisor Tests
+ */
+
+import { DEFAULT_DECISION_PROFILE } from '@shared/decisionEngine';
+import type { EbayItemDetails } from './ebay-api';
+
+const storage = vi.hoisted(() => ({
+  useExtensionToken: vi.fn(),
+  getActiveDecisionProfile: vi.fn(),
+  getUser: vi.fn(),
+  canUserScan: vi.fn(),
+}));
+const fetchItemById = vi.hoisted(() => vi.fn());
+
+vi.mock('./storage', () => ({ storage }));
+vi.mock('./ebay-api', () => ({ fetchItemById }));
+
+import {
+  authenticateExtensionToken,
+  buildAuctionUpdate,
+  generateExtensionToken,
+  getAuctionAnalysis,
+  getPollIntervalMs,
+  getWatchedListing,
+  hashExtensionToken,
+  setAuctionAnalyzer,
+  toAuctionListing,
+  watchListing,
+  type AuctionBaseline,
+  type AuctionListing,
+} from './auction-advisor';
+
+const details = (overrides: Partial<EbayItemDetails> = {}): EbayItemDetails => ({
+  itemId: '123456789012',
+  title: 'Seiko SKX007',
+  price: '80.00',
+  condition: 'Used',
+  shipping: '$10.00',
+  isAuction: true,
+  currentBid: '95.00',
+  bidCount: 4,
+  endsAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  ...overrides,
+});
+
+const baseline: AuctionBaseline = {
+  scanItemId: 7,
+  category: 'Watches',
+  expectedSalePrice: 250,
+  compCount: 8,
+  compConfidence: 'high',
+  dataSourceConfidence: 'high',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getActiveDecisionProfile.mockResolvedValue(DEFAULT_DECISION_PROFILE);
+  storage.getUser.mockResolvedValue({ id: 1, salesTaxRate: '0.0825' });
+  storage.canUserScan.mockResolvedValue({ allowed: true, remaining: 4, limit: 5 });
+});
+
+describe('Extension tokens', () => {
+  it('should only look up well-formed tokens, by hash', async () => {
+    const { token, tokenHash } = generateExtensionToken();
+    expect(token).toMatch(/^mgn_[0-9a-f]{48}$/);
+    expect(tokenHash).toBe(hashExtensionToken(token));
+
+    storage.useExtensionToken.mockResolvedValue(5);
+    expect(await authenticateExtensionToken(token)).toBe(5);
+    expect(storage.useExtensionToken).toHaveBeenCalledWith(tokenHash);
+
+    expect(await authenticateExtensionToken('not-a-token')).toBeNull();
+    expect(await authenticateExtensionToken(undefined)).toBeNull();
+    expect(storage.useExtensionToken).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Auction listings', () => {
+  it('should price auctions at the current bid and fixed-price listings at the asking price', () => {
+    expect(toAuctionListing(details())).toMatchObject({ currentPrice: 95, shippingIn: 10, isAuction: true, bidCount: 4 });
+    expect(toAuctionListing(details({ isAuction: false, endsAt: 'not a date' }))).toMatchObject({ currentPrice: 80, isAuction: false, endsAt: null });
+  });
+
+  it('should poll faster as the auction ends and stop once it has', () => {
+    const now = Date.now();
+    const listing = (msLeft: number): AuctionListing => ({ ...toAuctionListing(details()), endsAt: new Date(now + msLeft) });
+
+    expect(getPollIntervalMs(listing(90 * 1000), now)).toBe(5000);
+    expect(getPollIntervalMs(listing(10 * 60 * 1000), now)).toBe(10000);
+    expect(getPollIntervalMs(listing(2 * 60 * 60 * 1000), now)).toBe(60000);
+    expect(getPollIntervalMs(listing(-1000), now)).toBeNull();
+    expect(getPollIntervalMs({ ...listing(1000), isAuction: false }, now)).toBe(5 * 60 * 1000);
+  });
+
+  it('should report an ended auction with no time left', () => {
+    const listing = toAuctionListing(details());
+    const update = buildAuctionUpdate(
+      { baseline, profile: DEFAULT_DECISION_PROFILE, salesTaxRate: 0 },
+      listing,
+      listing.endsAt!.getTime() + 1000
+    );
+    expect(update).toMatchObject({ status: 'ended', timeLeftSeconds: 0, currentBid: 95, decision: 'flip' });
+    expect(update.maxBid).toBeGreaterThan(update.minimumBid);
+  });
+});
+
+describe('Auction analysis', () => {
+  it('should scan a listing once per user and reuse the baseline', async () => {
+    const analyzer = vi.fn().mockResolvedValue(baseline);
+    setAuctionAnalyzer(analyzer);
+
+    const listing = details({ itemId: '200000000001' });
+    const [first, second] = await Promise.all([getAuctionAnalysis(1, listing), getAuctionAnalysis(1, listing)]);
+    const third = await getAuctionAnalysis(1, listing);
+
+    expect(analyzer).toHaveBeenCalledTimes(1);
+    expect(first.baseline).toBe(baseline);
+    expect(second.baseline).toBe(baseline);
+    expect(third.salesTaxRate).toBe(0.0825);
+  });
+
+  it('should forget the baseline once the auction ends', async () => {
+    const analyzer = vi.fn().mockResolvedValue(baseline);
+    setAuctionAnalyzer(analyzer);
+    const ended = details({ itemId: '200000000003', endsAt: new Date(Date.now() - 1000).toISOString() });
+    fetchItemById.mockResolvedValue(ended);
+
+    await getAuctionAnalysis(1, ended);
+    const stop = watchListing('200000000003', vi.fn());
+    await vi.waitFor(() => expect(fetchItemById).toHaveBeenCalledTimes(1));
+    await getWatchedListing('200000000003');
+    await getAuctionAnalysis(1, ended);
+    stop();
+
+    expect(analyzer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse to scan past the daily limit', async () => {
+    const analyzer = vi.fn().mockResolvedValue(baseline);
+    setAuctionAnalyzer(analyzer);
+    storage.canUserScan.mockResolvedValue({ allowed: false, remaining: 0, limit: 5 });
+
+    await expect(getAuctionAnalysis(2, details({ itemId: '200000000002' }))).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(analyzer).not.toHaveBeenCalled();
+  });
+});
+
+describe('Listing polls', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should poll a listing once however many clients watch it', async () => {
+    vi.useFakeTimers();
+    fetchItemById.mockResolvedValue(details({ itemId: '300000000001', endsAt: new Date(Date.now() + 60 * 1000).toISOString() }));
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const stopFirst = watchListing('300000000001', first);
+    const stopSecond = watchListing('300000000001', second);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(fetchItemById).toHaveBeenCalledTimes(2); // initial fetch + one poll
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    stopFirst();
+    stopSecond();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(fetchItemById).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Auction Advisor - live max bid for the Chrome extension overlay
+ *
+ * The overlay watches one eBay listing over /ws/auction. The first time a
+ * user watches a listing it is scanned through the normal analyze pipeline
+ * (comps, decision engine, scan history), which counts against their daily
+ * scan quota. That scan is kept as the user's baseline for the listing, and
+ * every poll re-runs calculateDecision with their decision profile against
+ * the current bid - the verdict, max bid and profit follow the auction
+ * without spending more scans. The max bid comes from the snipe planner
+ * (@shared/snipePlanner): the decision engine's max buy less sales tax,
+ * checked against eBay's bid increments.
+ *
+ * Each listing is polled once however many users watch it, faster as the
+ * auction nears its end, and no more once it has ended.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { storage } from './storage';
+import { fetchItemById, type EbayItemDetails } from './ebay-api';
+import { AppError, ErrorCode } from './error-handling';
+import { parseShipping } from '@shared/calculations';
+import {
+  calculateDecision,
+  type DataSourceConfidence,
+  type DecisionProfile,
+  type DecisionResult,
+  type DecisionVerdict,
+} from '@shared/decisionEngine';
+import { planSnipeBid, type SnipePlan } from '@shared/snipePlanner';
+import type { Item } from '@shared/schema';
+
+const BASELINE_TTL_MS = 6 * 60 * 60 * 1000;
+const FIXED_PRICE_POLL_MS = 5 * 60 * 1000;
+
+// Poll interval by time left: [time left under, interval]
+const AUCTION_POLL_SCHEDULE: Array<[number, number]> = [
+  [2 * 60 * 1000, 5000],
+  [15 * 60 * 1000, 10000],
+  [60 * 60 * 1000, 30000],
+  [Infinity, 60000],
+];
+
+/**
+ * Listing state the overlay tracks between polls.
+ */
+export interface AuctionListing {
+  itemId: string;
+  title: string;
+  currentPrice: number; // current bid for auctions, asking price otherwise
+  shippingIn: number;
+  isAuction: boolean;
+  bidCount: number;
+  endsAt: Date | null;
+}
+
+/**
+ * A user's scan of a listing - everything the decision needs except the price.
+ */
+export interface AuctionBaseline {
+  scanItemId: number; // scan history item created by the analysis
+  category: string;
+  expectedSalePrice: number | null;
+  compCount?: number;
+  compConfidence?: 'high' | 'low';
+  dataSourceConfidence: DataSourceConfidence;
+}
+
+/**
+ * Scans a listing for a user through the analyze pipeline. Throw an AppError
+ * to report a listing that can't be scanned.
+ */
+export type AuctionAnalyzer = (userId: number, details: EbayItemDetails) => Promise<AuctionBaseline>;
+
+export interface AuctionUpdate {
+  type: 'analysis';
+  itemId: string;
+  status: 'live' | 'ended';
+  decision: DecisionVerdict;
+  decisionText: string;
+  score: number;
+  maxBid: number;
+  minimumBid: number;
+  canBid: boolean;
+  stopAt: number | null;
+  profit: number;
+  currentBid: number;
+  bidCount: number;
+  endsAt: string | null;
+  timeLeftSeconds: number | null;
+}
+
+export interface UserAuctionAnalysis {
+  baseline: AuctionBaseline;
+  profile: DecisionProfile;
+  salesTaxRate: number;
+}
+
+let analyzer: AuctionAnalyzer | null = null;
+const baselines = new Map<string, { baseline: AuctionBaseline; expiresAt: number }>();
+const pendingBaselines = new Map<string, Promise<AuctionBaseline>>();
+
+export function setAuctionAnalyzer(fn: AuctionAnalyzer): void {
+  analyzer = fn;
+}
+
+// Baselines are dropped once past their TTL (swept whenever one is added)
+// and as soon as the listing's auction ends, so the map only holds listings
+// someone is still bidding on
+function pruneBaselines(now: number = Date.now()): void {
+  baselines.forEach((entry, key) => {
+    if (entry.expiresAt <= now) baselines.delete(key);
+  });
+}
+
+function forgetListingBaselines(itemId: string): void {
+  baselines.forEach((_, key) => {
+    if (key.endsWith(`:${itemId}`)) baselines.delete(key);
+  });
+}
+
+// ============ Extension tokens ============
+
+// Only the hash is stored; the token itself is shown to the user once
+export function hashExtensionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateExtensionToken(): { token: string; tokenHash: string } {
+  const token = `mgn_${randomBytes(24).toString('hex')}`;
+  return { token, tokenHash: hashExtensionToken(token) };
+}
+
+/**
+ * User id for a token presented by the extension, or null if it isn't valid.
+ */
+export async function authenticateExtensionToken(token: unknown): Promise<number | null> {
+  if (typeof token !== 'string' || !token.startsWith('mgn_') || token.length > 100) return null;
+  const userId = await storage.useExtensionToken(hashExtensionToken(token));
+  return userId ?? null;
+}
+
+// ============ Analysis ============
+
+export function toAuctionListing(details: EbayItemDetails): AuctionListing {
+  const endsAt = details.endsAt ? new Date(details.endsAt) : null;
+  return {
+    itemId: details.itemId,
+    title: details.title,
+    currentPrice: parseFloat((details.isAuction && details.currentBid) || details.price) || 0,
+    shippingIn: parseShipping(details.shipping),
+    isAuction: !!details.isAuction,
+    bidCount: details.bidCount ?? 0,
+    endsAt: endsAt && !isNaN(endsAt.getTime()) ? endsAt : null,
+  };
+}
+
+/**
+ * The user's scan of a listing - from cache when they've scanned it in the
+ * last few hours, otherwise a new scan (checked against their quota first).
+ */
+export async function getAuctionAnalysis(userId: number, details: EbayItemDetails): Promise<UserAuctionAnalysis> {
+  const key = `${userId}:${details.itemId}`;
+  const { profile, salesTaxRate } = await getUserBidSettings(userId);
+
+  const cached = baselines.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { baseline: cached.baseline, profile, salesTaxRate };
+  }
+
+  let pending = pendingBaselines.get(key);
+  if (!pending) {
+    pending = scanListing(userId, details).finally(() => pendingBaselines.delete(key));
+    pendingBaselines.set(key, pending);
+  }
+  const baseline = await pending;
+  pruneBaselines();
+  baselines.set(key, { baseline, expiresAt: Date.now() + BASELINE_TTL_MS });
+  return { baseline, profile, salesTaxRate };
+}
+
+/**
+ * Decision profile and sales tax rate the user's bids are planned with.
+ */
+export async function getUserBidSettings(userId: number): Promise<Omit<UserAuctionAnalysis, 'baseline'>> {
+  const [profile, user] = await Promise.all([
+    storage.getActiveDecisionProfile(userId),
+    storage.getUser(userId),
+  ]);
+  return { profile, salesTaxRate: parseFloat(user?.salesTaxRate ?? '0') || 0 };
+}
+
+/**
+ * Baseline from a scan history item (what the analyze pipeline stored).
+ */
+export function toAuctionBaseline(item: Item): AuctionBaseline {
+  const decision = item.decisionData as DecisionResult | null;
+  const compConfidence = decision?._diagnostics?.compConfidence;
+  return {
+    scanItemId: item.id,
+    category: item.category || 'Other',
+    expectedSalePrice: decision?.marketValue ?? null,
+    compCount: decision?._diagnostics?.compCount,
+    compConfidence: compConfidence === 'high' || compConfidence === 'low' ? compConfidence : undefined,
+    dataSourceConfidence: decision?.dataSourceConfidence ?? 'none',
+  };
+}
+
+async function scanListing(userId: number, details: EbayItemDetails): Promise<AuctionBaseline> {
+  if (!analyzer) {
+    throw new AppError(ErrorCode.INTERNAL_ERROR, new Error('Auction analysis is not available'));
+  }
+
+  const scanStatus = await storage.canUserScan(userId);
+  if (!scanStatus.allowed) {
+    throw new AppError(ErrorCode.FORBIDDEN, new Error(`Daily scan limit reached (${scanStatus.limit}/day). Upgrade to Pro for unlimited scans.`));
+  }
+
+  console.log(`[AuctionAdvisor] Scanning eBay item ${details.itemId} for user ${userId}`);
+  return analyzer(userId, details);
+}
+
+/**
+ * Decision at the listing's current price and the snipe plan for it.
+ */
+export function planAuctionBid(
+  analysis: UserAuctionAnalysis,
+  listing: AuctionListing
+): { decision: DecisionResult; plan: SnipePlan } {
+  const { baseline, profile } = analysis;
+  const decision = calculateDecision({
+    buyPrice: listing.currentPrice,
+    shippingIn: listing.shippingIn,
+    expectedSalePrice: baseline.expectedSalePrice,
+    profile,
+    salePlatform: profile.defaultPlatform,
+    category: baseline.category,
+    dataSourceConfidence: baseline.dataSourceConfidence,
+    compCount: baseline.compCount,
+    compConfidence: baseline.compConfidence,
+  });
+  const plan = planSnipeBid({
+    maxBuy: decision.maxBuy,
+    shippingIn: listing.shippingIn,
+    salesTaxRate: analysis.salesTaxRate,
+    currentBid: listing.currentPrice,
+    bidCount: listing.bidCount,
+  });
+  return { decision, plan };
+}
+
+/**
+ * Verdict, max bid and profit for the user at the listing's current price.
+ */
+export function buildAuctionUpdate(
+  analysis: UserAuctionAnalysis,
+  listing: AuctionListing,
+  now: number = Date.now()
+): AuctionUpdate {
+  const { decision, plan } = planAuctionBid(analysis, listing);
+  const timeLeftMs = listing.endsAt ? listing.endsAt.getTime() - now : null;
+  return {
+    type: 'analysis',
+    itemId: listing.itemId,
+    status: timeLeftMs !== null && timeLeftMs <= 0 ? 'ended' : 'live',
+    decision: decision.verdict,
+    decisionText: decision.label,
+    score: decision.confidence,
+    maxBid: plan.maxBid ?? 0,
+    minimumBid: plan.minimumBid,
+    canBid: plan.canBid,
+    stopAt: plan.stopAt,
+    profit: Math.round((decision._diagnostics?.netProfit ?? 0) * 100) / 100,
+    currentBid: listing.currentPrice,
+    bidCount: listing.bidCount,
+    endsAt: listing.endsAt?.toISOString() ?? null,
+    timeLeftSeconds: timeLeftMs !== null ? Math.max(0, Math.round(timeLeftMs / 1000)) : null,
+  };
+}
+
+// ============ Listing polls ============
+
+/**
+ * Time until the next poll, or null once the auction is over.
+ */
+export function getPollIntervalMs(listing: AuctionListing, now: number = Date.now()): number | null {
+  if (!listing.isAuction || !listing.endsAt) return FIXED_PRICE_POLL_MS;
+  const timeLeftMs = listing.endsAt.getTime() - now;
+  if (timeLeftMs <= 0) return null;
+  const [, interval] = AUCTION_POLL_SCHEDULE.find(([under]) => timeLeftMs < under)!;
+  return Math.min(interval, timeLeftMs + 1000); // one last poll just after the end
+}
+
+interface ListingWatch {
+  listeners: Set<(details: EbayItemDetails) => void>;
+  latest: Promise<EbayItemDetails | null>;
+  timer: NodeJS.Timeout | null;
+}
+
+const watches = new Map<string, ListingWatch>();
+
+function fetchListing(itemId: string): Promise<EbayItemDetails | null> {
+  return fetchItemById(itemId).catch(err => {
+    console.error(`[AuctionAdvisor] Poll of eBay item ${itemId} failed:`, err);
+    return null;
+  });
+}
+
+function schedulePoll(itemId: string, watch: ListingWatch, details: EbayItemDetails | null): void {
+  const interval = details ? getPollIntervalMs(toAuctionListing(details)) : FIXED_PRICE_POLL_MS;
+  if (interval === null) {
+    console.log(`[AuctionAdvisor] eBay item ${itemId} has ended - polling stopped`);
+    forgetListingBaselines(itemId);
+    return;
+  }
+
+  watch.timer = setTimeout(() => {
+    watch.timer = null;
+    const next = fetchListing(itemId);
+    next.then(fresh => {
+      if (watches.get(itemId) !== watch) return;
+      // A failed poll keeps the last good listing
+      if (fresh) {
+        watch.latest = next;
+        watch.listeners.forEach(listener => listener(fresh));
+      }
+      schedulePoll(itemId, watch, fresh ?? details);
+    });
+  }, interval);
+}
+
+/**
+ * Poll a listing while anyone watches it. The listener gets every fresh
+ * poll; the latest listing is available from getWatchedListing. Returns the
+ * unsubscribe function.
+ */
+export function watchListing(itemId: string, listener: (details: EbayItemDetails) => void): () => void {
+  let watch = watches.get(itemId);
+  if (!watch) {
+    const created: ListingWatch = { listeners: new Set(), latest: fetchListing(itemId), timer: null };
+    watches.set(itemId, created);
+    created.latest.then(details => {
+      if (watches.get(itemId) === created) schedulePoll(itemId, created, details);
+    });
+    watch = created;
+  }
+  const active = watch;
+  active.listeners.add(listener);
+
+  return () => {
+    active.listeners.delete(listener);
+    if (active.listeners.size === 0 && watches.get(itemId) === active) {
+      if (active.timer) clearTimeout(active.timer);
+      watches.delete(itemId);
+    }
+  };
+}
+
+/**
+ * Most recent poll of a watched listing (waits for the first one).
+ */
+export async function getWatchedListing(itemId: string): Promise<EbayItemDetails | null> {
+  const watch = watches.get(itemId);
+  return watch ? watch.latest : fetchListing(itemId);
+}
@@ -0,0 +1,83 @@
+/**
+ * Auction Reminder Job
+ *
+ * Every minute, finds watch-list auctions (snipe planner) that are within
+ * their reminder lead time of ending, refreshes the current bid from eBay
+ * and pushes a reminder with the user's max bid - or a heads-up that the
+ * price is already past it. Each watch is reminded once; saving it again
+ * re-arms the reminder.
+ */
+
+import { storage } from './storage';
+import { fetchItemById } from './ebay-api';
+import { notifyAuctionEnding } from './push-service';
+import { getMinimumBid } from '@shared/snipePlanner';
+import type { AuctionWatch } from '@shared/schema';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+async function sendReminder(watch: AuctionWatch, now: Date): Promise<void> {
+  let currentBid = parseFloat(watch.currentBid);
+  let bidCount = watch.bidCount;
+  let endsAt = watch.endsAt;
+
+  if (watch.ebayItemId) {
+    const listing = await fetchItemById(watch.ebayItemId).catch(() => null);
+    if (listing?.isAuction) {
+      currentBid = parseFloat(listing.currentBid || listing.price) || currentBid;
+      bidCount = listing.bidCount ?? bidCount;
+      if (listing.endsAt) endsAt = new Date(listing.endsAt);
+    }
+  }
+
+  const maxBid = watch.maxBid !== null ? parseFloat(watch.maxBid) : null;
+  const canBid = maxBid !== null && getMinimumBid(currentBid, bidCount) <= maxBid;
+  const minutesLeft = Math.max(1, Math.round((endsAt.getTime() - now.getTime()) / 60000));
+
+  await storage.markAuctionReminderSent(watch.id, {
+    currentBid: currentBid.toFixed(2),
+    bidCount,
+    endsAt,
+  });
+  await notifyAuctionEnding(watch.userId, watch.title, minutesLeft, currentBid, canBid ? maxBid : null);
+}
+
+async function checkAuctionReminders(): Promise<void> {
+  const now = new Date();
+  const due = await storage.getDueAuctionReminders(now);
+  if (due.length === 0) return;
+
+  console.log(`[AuctionReminder] Sending ${due.length} auction reminder(s)`);
+  for (const watch of due) {
+    try {
+      await sendReminder(watch, now);
+    } catch (error) {
+      console.error(`[AuctionReminder] Reminder failed for watch ${watch.id}:`, error);
+    }
+  }
+}
+
+let checkInterval: NodeJS.Timeout | null = null;
+
+export function startAuctionReminderJob(): void {
+  if (checkInterval) {
+    console.log('[AuctionReminder] Job already running');
+    return;
+  }
+
+  console.log('[AuctionReminder] Starting auction reminder job (every minute)');
+
+  checkInterval = setInterval(() => {
+    checkAuctionReminders().catch(err => {
+      console.error('[AuctionReminder] Check failed:', err);
+    });
+  }, CHECK_INTERVAL_MS);
+}
+
+export function stopAuctionReminderJob(): void {
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+    console.log('[AuctionReminder] Job stopped');
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Batch Job Queue Tests
+ */
+
+import type { BatchItem, BatchSession } from '@shared/schema';
+import { AppError, ErrorCode } from './error-handling';
+
+const storage = vi.hoisted(() => ({
+  claimNextBatchJob: vi.fn(),
+  updateBatchItem: vi.fn(),
+  rescheduleBatchJob: vi.fn(),
+  getBatchSession: vi.fn(),
+  incrementBatchProcessed: vi.fn(),
+  completeBatchSessionIfDone: vi.fn(),
+  getBatchItems: vi.fn(),
+  releaseStaleBatchJobs: vi.fn(),
+}));
+
+vi.mock('./storage', () => ({ storage }));
+vi.mock('./push-service', () => ({ notifyBatchComplete: vi.fn(() => Promise.resolve()) }));
+// One attempt per claim - the backoff delays aren't what's under test
+vi.mock('./retry-strategy', () => ({ retryWithBackoff: vi.fn((fn: () => Promise<unknown>) => fn()) }));
+
+import { setBatchJobProcessor, wakeBatchQueue, type BatchJobResult } from './batch-queue';
+
+const job = (overrides: Partial<BatchItem> = {}) => ({
+  id: 1,
+  batchId: 10,
+  userId: 7,
+  inputType: 'url',
+  inputValue: 'https://www.ebay.com/itm/123456789',
+  status: 'processing',
+  itemId: null,
+  attempts: 1,
+  errorMessage: null,
+  ...overrides,
+} as BatchItem);
+
+const result: BatchJobResult = {
+  itemId: 55,
+  title: 'Seiko SKX007',
+  decisionVerdict: 'flip',
+  decisionScore: 32,
+  marginPercent: '32',
+};
+
+const runQueued = async (next: BatchItem) => {
+  storage.claimNextBatchJob.mockResolvedValueOnce(next).mockResolvedValue(undefined);
+  wakeBatchQueue();
+  await vi.waitFor(() => expect(storage.incrementBatchProcessed.mock.calls.length + storage.rescheduleBatchJob.mock.calls.length).toBe(1));
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.updateBatchItem.mockImplementation((id: number, _userId: number, updates: Partial<BatchItem>) =>
+    Promise.resolve(job({ id, ...updates })));
+  storage.rescheduleBatchJob.mockImplementation((id: number) => Promise.resolve(job({ id, status: 'pending' })));
+  storage.getBatchSession.mockResolvedValue({ id: 10 } as BatchSession);
+  storage.completeBatchSessionIfDone.mockResolvedValue(undefined);
+});
+
+describe('Batch job queue', () => {
+  it('should claim a job, save its scan and mark it completed', async () => {
+    const processor = vi.fn().mockResolvedValue(result);
+    setBatchJobProcessor(processor);
+
+    await runQueued(job({ id: 1 }));
+
+    expect(storage.claimNextBatchJob).toHaveBeenCalledWith({ inputTypes: ['url', 'photo', 'camera'], excludeUserIds: [] });
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(storage.updateBatchItem).toHaveBeenNthCalledWith(1, 1, 7, result);
+    expect(storage.updateBatchItem).toHaveBeenNthCalledWith(2, 1, 7, expect.objectContaining({ status: 'completed', errorMessage: null }));
+  });
+
+  it('should put a retryable failure back in the queue', async () => {
+    setBatchJobProcessor(vi.fn().mockRejectedValue(new AppError(ErrorCode.EBAY_UNAVAILABLE, new Error('eBay is down'))));
+
+    await runQueued(job({ id: 2, attempts: 1 }));
+
+    expect(storage.rescheduleBatchJob).toHaveBeenCalledWith(2, expect.any(Date), 'eBay is down');
+    expect(storage.updateBatchItem).not.toHaveBeenCalled();
+    expect(storage.incrementBatchProcessed).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter a permanent failure', async () => {
+    setBatchJobProcessor(vi.fn().mockRejectedValue(new AppError(ErrorCode.INVALID_INPUT, new Error('Not an eBay listing URL'))));
+
+    await runQueued(job({ id: 3, attempts: 1 }));
+
+    expect(storage.rescheduleBatchJob).not.toHaveBeenCalled();
+    expect(storage.updateBatchItem).toHaveBeenCalledWith(3, 7, expect.objectContaining({ status: 'failed', errorMessage: 'Not an eBay listing URL' }));
+  });
+
+  it('should dead-letter a retryable failure on the last attempt', async () => {
+    setBatchJobProcessor(vi.fn().mockRejectedValue(new AppError(ErrorCode.EBAY_UNAVAILABLE, new Error('eBay is down'))));
+
+    await runQueued(job({ id: 4, attempts: 3 }));
+
+    expect(storage.rescheduleBatchJob).not.toHaveBeenCalled();
+    expect(storage.updateBatchItem).toHaveBeenCalledWith(4, 7, expect.objectContaining({ status: 'failed', errorMessage: 'eBay is down' }));
+  });
+
+  it('should not scan a job again once its item is saved', async () => {
+    const processor = vi.fn().mockResolvedValue(result);
+    setBatchJobProcessor(processor);
+
+    await runQueued(job({ id: 5, attempts: 2, itemId: 55, errorMessage: 'Connection terminated' }));
+
+    expect(processor).not.toHaveBeenCalled();
+    expect(storage.updateBatchItem).toHaveBeenCalledTimes(1);
+    expect(storage.updateBatchItem).toHaveBeenCalledWith(5, 7, expect.objectContaining({ status: 'completed', errorMessage: null }));
+  });
+
+  it('should keep the saved scan when marking the job done fails', async () => {
+    const processor = vi.fn().mockResolvedValue(result);
+    setBatchJobProcessor(processor);
+    storage.updateBatchItem
+      .mockResolvedValueOnce(job({ id: 6, ...result }))
+      .mockRejectedValueOnce(new AppError(ErrorCode.DATABASE_CONNECTION_FAILED, new Error('Connection terminated')));
+
+    await runQueued(job({ id: 6, attempts: 1 }));
+
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(storage.updateBatchItem).toHaveBeenNthCalledWith(1, 6, 7, result);
+    expect(storage.rescheduleBatchJob).toHaveBeenCalledWith(6, expect.any(Date), 'Connection terminated');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Batch Job Queue
+ *
+ * Each pending batch item of a submitted session (status 'processing') is a
+ * job. Workers claim jobs from Postgres with FOR UPDATE SKIP LOCKED, so the
+ * queue survives restarts and can run on more than one instance - the client
+ * only submits a batch and watches progress, and closing the app doesn't
+ * stop it.
+ *
+ * - Concurrency: WORKER_CONCURRENCY jobs at once, at most PER_USER_CONCURRENCY
+ *   for any one user so a 200-URL batch doesn't starve everyone else
+ * - Rate limits: one token bucket per provider (eBay for URLs, vision for
+ *   photos); when a bucket is empty its jobs simply stay queued
+ * - Retries: quick in-process retries through retryWithBackoff, then the job
+ *   goes back to pending with nextAttemptAt pushed out. The scan's itemId is
+ *   saved on the job as soon as the processor returns, so a job retried after
+ *   that point is only marked done, never scanned twice. Permanent errors (bad
+ *   URL, scan limit) and jobs out of attempts are dead-lettered: status
+ *   'failed' with the reason in errorMessage
+ * - Recovery: a job locked longer than LEASE_MS (its worker died) is put back
+ *
+ * Progress is emitted on batchEvents; the user gets a push when a batch finishes.
+ */
+
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import type { BatchItem, BatchSession } from '@shared/schema';
+import { retryWithBackoff } from './retry-strategy';
+import { toAppError } from './error-handling';
+import { notifyBatchComplete } from './push-service';
+
+const POLL_INTERVAL_MS = 3000;
+const WORKER_CONCURRENCY = 3;
+const PER_USER_CONCURRENCY = 2;
+const MAX_ATTEMPTS = 3;
+const IN_PROCESS_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1 min, then 2 min between attempts
+const LEASE_MS = 5 * 60 * 1000;
+
+export type BatchJobProvider = 'ebay' | 'vision';
+
+// Jobs per minute, with a small burst
+const PROVIDER_LIMITS: Record<BatchJobProvider, { perMinute: number; burst: number }> = {
+  ebay: { perMinute: 30, burst: 5 },
+  vision: { perMinute: 10, burst: 3 },
+};
+
+const PROVIDER_INPUT_TYPES: Record<BatchJobProvider, string[]> = {
+  ebay: ['url'],
+  vision: ['photo', 'camera'],
+};
+
+function getJobProvider(inputType: string): BatchJobProvider {
+  return inputType === 'url' ? 'ebay' : 'vision';
+}
+
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(private perMinute: number, private burst: number) {
+    this.tokens = burst;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 60000) * this.perMinute);
+    this.refilledAt = now;
+  }
+
+  hasToken(): boolean {
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  // Provider said slow down - no new jobs for it until the bucket refills
+  empty(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+}
+
+const buckets: Record<BatchJobProvider, TokenBucket> = {
+  ebay: new TokenBucket(PROVIDER_LIMITS.ebay.perMinute, PROVIDER_LIMITS.ebay.burst),
+  vision: new TokenBucket(PROVIDER_LIMITS.vision.perMinute, PROVIDER_LIMITS.vision.burst),
+};
+
+/**
+ * What a processed job writes back to its batch item.
+ */
+export type BatchJobResult = Pick<BatchItem, 'itemId' | 'title' | 'decisionVerdict' | 'decisionScore' | 'marginPercent'>;
+
+/**
+ * Runs one job. Throw an AppError to control retries - retryable codes are
+ * retried, anything else fails the item straight away.
+ */
+export type BatchJobProcessor = (job: BatchItem) => Promise<BatchJobResult>;
+
+export interface BatchProgressEvent {
+  userId: number;
+  session: BatchSession;
+  item?: BatchItem;
+}
+
+export const batchEvents = new EventEmitter();
+
+let processor: BatchJobProcessor | null = null;
+const running = new Map<number, number>(); // job id -> user id
+let pumping = false;
+let pumpAgain = false;
+let pollInterval: NodeJS.Timeout | null = null;
+
+export function setBatchJobProcessor(fn: BatchJobProcessor): void {
+  processor = fn;
+}
+
+async function publish(userId: number, batchId: number, item?: BatchItem): Promise<void> {
+  const session = await storage.getBatchSession(batchId, userId);
+  if (session) batchEvents.emit('progress', { userId, session, item } satisfies BatchProgressEvent);
+}
+
+async function finishJob(job: BatchItem, item: BatchItem | undefined): Promise<void> {
+  await storage.incrementBatchProcessed(job.batchId);
+  await publish(job.userId, job.batchId, item);
+
+  const completed = await storage.completeBatchSessionIfDone(job.batchId);
+  if (!completed) return;
+
+  const items = await storage.getBatchItems(completed.id, job.userId);
+  const flips = items.filter(i => i.decisionVerdict === 'flip').length;
+  const failed = items.filter(i => i.status === 'failed').length;
+  console.log(`[BatchQueue] Batch ${completed.id} finished: ${items.length} items, ${flips} flips, ${failed} failed`);
+  batchEvents.emit('progress', { userId: job.userId, session: completed } satisfies BatchProgressEvent);
+  await notifyBatchComplete(job.userId, items.length, flips, failed).catch(err => {
+    console.error('[BatchQueue] Completion push failed:', err);
+  });
+}
+
+async function deadLetter(job: BatchItem, reason: string): Promise<void> {
+  console.error(`[BatchQueue] Job ${job.id} failed after ${job.attempts} attempt(s): ${reason}`);
+  const item = await storage.updateBatchItem(job.id, job.userId, {
+    status: 'failed',
+    errorMessage: reason,
+    lockedAt: null,
+    processedAt: new Date(),
+  });
+  await finishJob(job, item);
+}
+
+async function runJob(job: BatchItem, run: BatchJobProcessor): Promise<void> {
+  const provider = getJobProvider(job.inputType);
+  await publish(job.userId, job.batchId, job);
+
+  // Claimed again after its worker died on the last allowed attempt
+  if (job.attempts > MAX_ATTEMPTS) {
+    await deadLetter(job, `Gave up after ${MAX_ATTEMPTS} attempts${job.errorMessage ? `: ${job.errorMessage}` : ''}`);
+    return;
+  }
+
+  try {
+    // A job that already has its scan (it failed after the scan was saved)
+    // only needs marking done - running it again would create a second item
+    if (!job.itemId) {
+      const result = await retryWithBackoff(() => run(job), {
+        maxRetries: IN_PROCESS_RETRIES,
+        initialDelayMs: 2000,
+        maxDelayMs: 10000,
+        onRetry: (attempt, delay, error) => {
+          console.log(`[BatchQueue] Job ${job.id} retry ${attempt}/${IN_PROCESS_RETRIES} in ${Math.round(delay)}ms: ${error.message}`);
+        },
+      });
+      await storage.updateBatchItem(job.id, job.userId, result);
+    }
+    const item = await storage.updateBatchItem(job.id, job.userId, {
+      status: 'completed',
+      errorMessage: null,
+      lockedAt: null,
+      processedAt: new Date(),
+    });
+    await finishJob(job, item);
+  } catch (error) {
+    const appError = toAppError(error);
+    const reason = appError.originalError?.message || appError.message;
+    if (appError.getStatusCode() === 429) buckets[provider].empty();
+
+    if (!appError.isRetryable() || job.attempts >= MAX_ATTEMPTS) {
+      await deadLetter(job, reason);
+      return;
+    }
+
+    const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+    console.warn(`[BatchQueue] Job ${job.id} attempt ${job.attempts}/${MAX_ATTEMPTS} failed, retrying in ${delay / 1000}s: ${reason}`);
+    const item = await storage.rescheduleBatchJob(job.id, new Date(Date.now() + delay), reason);
+    await publish(job.userId, job.batchId, item);
+  }
+}
+
+/**
+ * Claim jobs until the workers are busy, the providers are out of tokens or
+ * nothing is due.
+ */
+async function pump(): Promise<void> {
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+  pumping = true;
+  try {
+    do {
+      pumpAgain = false;
+      while (processor && running.size < WORKER_CONCURRENCY) {
+        const inputTypes = (Object.keys(buckets) as BatchJobProvider[])
+          .filter(provider => buckets[provider].hasToken())
+          .flatMap(provider => PROVIDER_INPUT_TYPES[provider]);
+        if (inputTypes.length === 0) break;
+
+        const perUser = new Map<number, number>();
+        running.forEach(userId => perUser.set(userId, (perUser.get(userId) || 0) + 1));
+        const excludeUserIds = Array.from(perUser).filter(([, count]) => count >= PER_USER_CONCURRENCY).map(([userId]) => userId);
+
+        const job = await storage.claimNextBatchJob({ inputTypes, excludeUserIds });
+        if (!job) break;
+
+        buckets[getJobProvider(job.inputType)].take();
+        running.set(job.id, job.userId);
+        runJob(job, processor)
+          .catch(err => console.error(`[BatchQueue] Job ${job.id} crashed:`, err))
+          .finally(() => {
+            running.delete(job.id);
+            void pump();
+          });
+      }
+    } while (pumpAgain);
+  } catch (error) {
+    console.error('[BatchQueue] Claim failed:', error);
+  } finally {
+    pumping = false;
+  }
+}
+
+async function poll(): Promise<void> {
+  const released = await storage.releaseStaleBatchJobs(new Date(Date.now() - LEASE_MS));
+  if (released > 0) console.log(`[BatchQueue] Released ${released} stale job(s)`);
+  await pump();
+}
+
+/**
+ * Look for work now instead of on the next poll - call after submitting a batch.
+ */
+export function wakeBatchQueue(): void {
+  void pump();
+}
+
+export function startBatchJobQueue(): void {
+  if (pollInterval) {
+    console.log('[BatchQueue] Queue already running');
+    return;
+  }
+
+  console.log(`[BatchQueue] Starting batch job queue (${WORKER_CONCURRENCY} workers)`);
+
+  // Pick up batches left mid-flight by the last run
+  poll().catch(err => {
+    console.error('[BatchQueue] Initial poll failed:', err);
+  });
+
+  pollInterval = setInterval(() => {
+    poll().catch(err => {
+      console.error('[BatchQueue] Poll failed:', err);
+    });
+  }, POLL_INTERVAL_MS);
+}
+
+export function stopBatchJobQueue(): void {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+    console.log('[BatchQueue] Queue stopped');
+  }
+}
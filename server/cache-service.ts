@@ -1,15 +1,58 @@
 /**
  * Cache Service
- * 
- * In-memory cache with Redis-ready interface.
- * Category-aware TTL based on market volatility.
- * Easy to swap to Redis in production without changing application code.
+ *
+ * Shared comp cache with a pluggable backend.
+ * - PostgresCacheBackend (default): persists in comps_cache, so paid SerpAPI /
+ *   eBay lookups survive restarts and are shared across instances
+ * - MemoryCacheBackend: in-process Map (COMP_CACHE_BACKEND=memory, local dev)
+ *
+ * Category-aware TTL based on market volatility (CATEGORY_TTL).
+ * Stale-while-revalidate: expired entries are served immediately while a
+ * background refresh runs, and double as last-known-good when a fetch fails.
+ * Hit/miss metrics are tracked per namespace (key prefix before the first ':').
  */
 
+import { storage } from "./storage";
+
 export interface CacheEntry<T> {
   data: T;
-  expiresAt: number;
-  source: 'cached' | 'fresh';
+  category: string | null;
+  createdAt: number;
+  expiresAt: number; // fresh until
+  staleUntil: number; // served stale / as fallback until
+}
+
+export type CacheSource = 'cached' | 'fresh' | 'stale' | 'fallback';
+
+export interface CacheFetchResult<T> {
+  data: T;
+  source: CacheSource; // stale = served while revalidating, fallback = fetch failed
+  ageMs: number;
+}
+
+export interface CacheSetOptions {
+  category?: string | null;
+  ttlMs?: number; // overrides the category TTL
+  staleMs?: number; // how long past expiry the entry may still be served
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry<unknown> | null>;
+  set(key: string, namespace: string, entry: CacheEntry<unknown>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(namespace?: string): Promise<number>;
+  count(namespace?: string): Promise<{ total: number; fresh: number }>;
+  purgeStale(): Promise<number>;
+}
+
+export interface NamespaceMetrics {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  fallbacks: number;
+  revalidations: number;
+  errors: number;
 }
 
 /**
@@ -17,19 +60,19 @@ export interface CacheEntry<T> {
  * Cards trade frequently → short TTL
  * Shoes/watches are stable → longer TTL
  */
-const CATEGORY_TTL: Record<string, number> = {
+export const CATEGORY_TTL: Record<string, number> = {
   // Volatile markets (prices change fast)
   'trading-cards': 24 * 60 * 60 * 1000, // 24 hours
   'pokemon': 24 * 60 * 60 * 1000,
   'sports-cards': 24 * 60 * 60 * 1000,
   'magic': 24 * 60 * 60 * 1000,
-  
+
   // Semi-volatile markets (weekly updates)
   'collectibles': 7 * 24 * 60 * 60 * 1000, // 7 days
   'electronics': 7 * 24 * 60 * 60 * 1000,
   'handbags': 7 * 24 * 60 * 60 * 1000,
   'vintage': 7 * 24 * 60 * 60 * 1000,
-  
+
   // Stable markets (monthly updates)
   'shoes': 28 * 24 * 60 * 60 * 1000, // 4 weeks
   'watches': 21 * 24 * 60 * 60 * 1000, // 3 weeks
@@ -37,170 +80,398 @@ const CATEGORY_TTL: Record<string, number> = {
   'gaming': 14 * 24 * 60 * 60 * 1000, // 2 weeks
   'tools': 14 * 24 * 60 * 60 * 1000,
   'antiques': 14 * 24 * 60 * 60 * 1000,
-  
+
   // Default (1 week)
   'default': 7 * 24 * 60 * 60 * 1000,
 };
 
+// Expired entries stay usable (stale / last-known-good) for this long
+const DEFAULT_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // Purge dead entries hourly
+
+/**
+ * Get TTL for category
+ */
+export function getCategoryTTL(category?: string | null): number {
+  if (!category) return CATEGORY_TTL['default'];
+
+  const normalized = category.toLowerCase().replace(/['’]/g, '').replace(/\s+/g, '-');
+  if (CATEGORY_TTL[normalized]) return CATEGORY_TTL[normalized];
+  if (normalized.includes('watch')) return CATEGORY_TTL['watches']; // Men's / Women's Watches
+  return CATEGORY_TTL['default'];
+}
+
+/**
+ * In-process backend - lost on restart, not shared between instances
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, { namespace: string; entry: CacheEntry<unknown> }>();
+
+  async get(key: string): Promise<CacheEntry<unknown> | null> {
+    const stored = this.entries.get(key);
+    if (!stored) return null;
+    if (stored.entry.staleUntil < Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return stored.entry;
+  }
+
+  async set(key: string, namespace: string, entry: CacheEntry<unknown>): Promise<void> {
+    this.entries.set(key, { namespace, entry });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(namespace?: string): Promise<number> {
+    let cleared = 0;
+    this.entries.forEach((stored, key) => {
+      if (!namespace || stored.namespace === namespace) {
+        this.entries.delete(key);
+        cleared++;
+      }
+    });
+    return cleared;
+  }
+
+  async count(namespace?: string): Promise<{ total: number; fresh: number }> {
+    const now = Date.now();
+    let total = 0;
+    let fresh = 0;
+    this.entries.forEach((stored) => {
+      if (namespace && stored.namespace !== namespace) return;
+      if (stored.entry.staleUntil < now) return;
+      total++;
+      if (stored.entry.expiresAt > now) fresh++;
+    });
+    return { total, fresh };
+  }
+
+  async purgeStale(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    this.entries.forEach((stored, key) => {
+      if (stored.entry.staleUntil < now) {
+        this.entries.delete(key);
+        purged++;
+      }
+    });
+    return purged;
+  }
+}
+
+/**
+ * Postgres backend (comps_cache table)
+ */
+export class PostgresCacheBackend implements CacheBackend {
+  readonly name = 'postgres';
+
+  async get(key: string): Promise<CacheEntry<unknown> | null> {
+    const row = await storage.getCompsCache(key);
+    if (!row) return null;
+    return {
+      data: row.data,
+      category: row.category,
+      createdAt: row.createdAt ? row.createdAt.getTime() : Date.now(),
+      expiresAt: row.expiresAt.getTime(),
+      staleUntil: row.staleUntil.getTime(),
+    };
+  }
+
+  async set(key: string, namespace: string, entry: CacheEntry<unknown>): Promise<void> {
+    await storage.setCompsCache({
+      queryKey: key,
+      namespace,
+      data: entry.data,
+      category: entry.category,
+      expiresAt: new Date(entry.expiresAt),
+      staleUntil: new Date(entry.staleUntil),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await storage.deleteCompsCache(key);
+  }
+
+  async clear(namespace?: string): Promise<number> {
+    return storage.clearCompsCache(namespace);
+  }
+
+  async count(namespace?: string): Promise<{ total: number; fresh: number }> {
+    return storage.countCompsCache(namespace);
+  }
+
+  async purgeStale(): Promise<number> {
+    return storage.purgeStaleCompsCache();
+  }
+}
+
 class CacheService {
-  private cache = new Map<string, CacheEntry<any>>();
-  private readonly cleanupInterval = 60000; // Clean up expired entries every minute
+  private metrics = new Map<string, NamespaceMetrics>();
+  private revalidating = new Map<string, Promise<unknown>>();
+
+  constructor(private backend: CacheBackend) {
+    this.startPurgeInterval();
+  }
 
-  constructor() {
-    this.startCleanupInterval();
+  get backendName(): string {
+    return this.backend.name;
   }
 
   /**
-   * Get value from cache if not expired
+   * Get value from cache if still fresh (stale entries are ignored)
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) return null;
-    if (entry.expiresAt < Date.now()) {
-      this.cache.delete(key);
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.read<T>(key);
+    if (!entry || entry.expiresAt < Date.now()) {
+      this.track(key, 'misses');
       return null;
     }
-    
-    return entry.data as T;
+    this.track(key, 'hits');
+    return entry.data;
+  }
+
+  /**
+   * Get value if fresh ('cached') or within the stale window ('stale').
+   * For callers that run their own revalidation.
+   */
+  async lookup<T>(key: string): Promise<CacheFetchResult<T> | null> {
+    const entry = await this.read<T>(key);
+    if (!entry) {
+      this.track(key, 'misses');
+      return null;
+    }
+    const now = Date.now();
+    const source: CacheSource = entry.expiresAt >= now ? 'cached' : 'stale';
+    this.track(key, source === 'cached' ? 'hits' : 'staleHits');
+    return { data: entry.data, source, ageMs: now - entry.createdAt };
+  }
+
+  /**
+   * Get value even if expired (within the stale window) - for last-known-good fallbacks
+   */
+  async getStale<T>(key: string): Promise<CacheFetchResult<T> | null> {
+    const entry = await this.read<T>(key);
+    if (!entry) return null;
+    const now = Date.now();
+    const source: CacheSource = entry.expiresAt >= now ? 'cached' : 'fallback';
+    this.track(key, source === 'cached' ? 'hits' : 'fallbacks');
+    return { data: entry.data, source, ageMs: now - entry.createdAt };
   }
 
   /**
-   * Set value in cache with TTL
+   * Set value in cache with category TTL (or explicit ttlMs)
    */
-  set<T>(key: string, data: T, ttlMs: number): void {
-    this.cache.set(key, {
+  async set<T>(key: string, data: T, options: CacheSetOptions = {}): Promise<void> {
+    const now = Date.now();
+    const ttlMs = options.ttlMs ?? getCategoryTTL(options.category);
+    const entry: CacheEntry<T> = {
       data,
-      expiresAt: Date.now() + ttlMs,
-      source: 'fresh',
-    });
+      category: options.category ?? null,
+      createdAt: now,
+      expiresAt: now + ttlMs,
+      staleUntil: now + ttlMs + (options.staleMs ?? DEFAULT_STALE_MS),
+    };
+    try {
+      await this.backend.set(key, getNamespace(key), entry);
+    } catch (error: any) {
+      this.track(key, 'errors');
+      console.error(`[Cache] Write failed for ${key}:`, error.message);
+    }
   }
 
   /**
-   * Get from cache OR fetch fresh, automatically caching result
+   * Get from cache OR fetch fresh, automatically caching result.
+   *
+   * - Fresh entry → 'cached'
+   * - Expired entry within stale window → 'stale', refreshed in the background
+   * - No entry → fetch → 'fresh' (fetch errors propagate)
    */
   async getOrFetch<T>(
     key: string,
     fetcher: () => Promise<T>,
-    category?: string
-  ): Promise<{ data: T; source: 'cached' | 'fresh' }> {
-    const cached = this.get<T>(key);
-    
-    if (cached !== null) {
-      return { data: cached, source: 'cached' };
+    options: CacheSetOptions | string = {}
+  ): Promise<CacheFetchResult<T>> {
+    const setOptions: CacheSetOptions = typeof options === 'string' ? { category: options } : options;
+    const entry = await this.read<T>(key);
+    const now = Date.now();
+
+    if (entry && entry.expiresAt >= now) {
+      this.track(key, 'hits');
+      return { data: entry.data, source: 'cached', ageMs: now - entry.createdAt };
     }
 
-    try {
-      const fresh = await fetcher();
-      const ttl = this.getTTL(category);
-      this.set(key, fresh, ttl);
-      return { data: fresh, source: 'fresh' };
-    } catch (error) {
-      // If fetch fails, check if there's stale data we can fall back to
-      const entry = this.cache.get(key);
-      if (entry) {
-        console.warn(`[Cache] Fetch failed for ${key}, using stale data (expired ${Math.round((Date.now() - entry.expiresAt) / 1000)}s ago)`);
-        return { data: entry.data, source: 'cached' };
-      }
-      throw error;
+    if (entry) {
+      this.track(key, 'staleHits');
+      this.revalidate(key, fetcher, setOptions);
+      return { data: entry.data, source: 'stale', ageMs: now - entry.createdAt };
     }
-  }
 
-  /**
-   * Delete specific key
-   */
-  delete(key: string): void {
-    this.cache.delete(key);
+    this.track(key, 'misses');
+    const fresh = await fetcher();
+    await this.set(key, fresh, setOptions);
+    return { data: fresh, source: 'fresh', ageMs: 0 };
   }
 
   /**
-   * Clear all cache
+   * Delete specific key
    */
-  clear(): void {
-    this.cache.clear();
+  async delete(key: string): Promise<void> {
+    await this.backend.delete(key);
   }
 
   /**
-   * Get TTL for category
+   * Clear all cache (or one namespace) and reset its metrics
    */
-  private getTTL(category?: string): number {
-    if (!category) return CATEGORY_TTL['default'];
-    
-    const normalized = category.toLowerCase().replace(/\s+/g, '-');
-    return CATEGORY_TTL[normalized] || CATEGORY_TTL['default'];
+  async clear(namespace?: string): Promise<number> {
+    const cleared = await this.backend.clear(namespace);
+    if (namespace) {
+      this.metrics.delete(namespace);
+    } else {
+      this.metrics.clear();
+    }
+    return cleared;
   }
 
   /**
    * Get cache stats for monitoring
    */
-  getStats() {
-    let totalEntries = 0;
-    let expiredEntries = 0;
-
-    this.cache.forEach((entry) => {
-      totalEntries++;
-      if (entry.expiresAt < Date.now()) {
-        expiredEntries++;
-      }
+  async getStats(namespace?: string) {
+    const counts = await this.backend.count(namespace).catch(() => ({ total: 0, fresh: 0 }));
+    const namespaces: Record<string, NamespaceMetrics & { hitRate: string }> = {};
+
+    this.metrics.forEach((m, ns) => {
+      if (namespace && ns !== namespace) return;
+      const lookups = m.hits + m.staleHits + m.misses;
+      namespaces[ns] = {
+        ...m,
+        hitRate: lookups > 0 ? (((m.hits + m.staleHits) / lookups) * 100).toFixed(1) + '%' : '0%',
+      };
     });
 
     return {
-      totalEntries,
-      expiredEntries,
-      activeEntries: totalEntries - expiredEntries,
-      percentExpired: totalEntries > 0 ? (expiredEntries / totalEntries * 100).toFixed(1) : '0',
+      backend: this.backend.name,
+      totalEntries: counts.total,
+      freshEntries: counts.fresh,
+      staleEntries: counts.total - counts.fresh,
+      namespaces,
     };
   }
 
+  getMetrics(namespace: string): NamespaceMetrics {
+    return { ...emptyMetrics(), ...this.metrics.get(namespace) };
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return (await this.backend.get(key)) as CacheEntry<T> | null;
+    } catch (error: any) {
+      // A broken cache must never break comps - treat as a miss
+      this.track(key, 'errors');
+      console.error(`[Cache] Read failed for ${key}:`, error.message);
+      return null;
+    }
+  }
+
+  private revalidate<T>(key: string, fetcher: () => Promise<T>, options: CacheSetOptions): void {
+    if (this.revalidating.has(key)) return;
+
+    this.track(key, 'revalidations');
+    const refresh = fetcher()
+      .then(fresh => this.set(key, fresh, options))
+      .catch((error: any) => {
+        this.track(key, 'errors');
+        console.warn(`[Cache] Background refresh failed for ${key}: ${error.message}`);
+      })
+      .finally(() => this.revalidating.delete(key));
+    this.revalidating.set(key, refresh);
+  }
+
+  private track(key: string, metric: keyof NamespaceMetrics): void {
+    const namespace = getNamespace(key);
+    const m = this.metrics.get(namespace) ?? emptyMetrics();
+    m[metric]++;
+    this.metrics.set(namespace, m);
+  }
+
   /**
-   * Clean up expired entries every minute
+   * Purge entries past their stale window
    */
-  private startCleanupInterval(): void {
-    setInterval(() => {
-      let cleaned = 0;
-      const now = Date.now();
-
-      this.cache.forEach((entry, key) => {
-        if (entry.expiresAt < now) {
-          this.cache.delete(key);
-          cleaned++;
+  private startPurgeInterval(): void {
+    setInterval(async () => {
+      try {
+        const purged = await this.backend.purgeStale();
+        if (purged > 0) {
+          console.log(`[Cache] Purged ${purged} dead entries`);
         }
-      });
-
-      if (cleaned > 0) {
-        console.log(`[Cache] Cleaned up ${cleaned} expired entries`);
+      } catch (error: any) {
+        console.error(`[Cache] Purge failed:`, error.message);
       }
-    }, this.cleanupInterval);
+    }, PURGE_INTERVAL_MS).unref();
   }
 }
 
+function getNamespace(key: string): string {
+  const idx = key.indexOf(':');
+  return idx > 0 ? key.slice(0, idx) : 'default';
+}
+
+function emptyMetrics(): NamespaceMetrics {
+  return { hits: 0, staleHits: 0, misses: 0, fallbacks: 0, revalidations: 0, errors: 0 };
+}
+
+function createBackend(): CacheBackend {
+  return process.env.COMP_CACHE_BACKEND === 'memory'
+    ? new MemoryCacheBackend()
+    : new PostgresCacheBackend();
+}
+
 // Export singleton instance
-export const cache = new CacheService();
+export const cache = new CacheService(createBackend());
 
 /**
  * Cache key builders for type safety
+ * The segment before the first ':' is the metrics namespace.
  */
 export const cacheKeys = {
   // eBay comps for specific item
   ebayComps: (itemId: string) => `ebay:comps:${itemId}`,
-  
+
+  // Sold comps pipeline (getSoldCompsWithCache)
+  soldComps: (title: string, category: string) =>
+    `comps:${title.toLowerCase().trim()}:${category.toLowerCase().trim()}`.slice(0, 250),
+
+  // User-selectable sold listings (sold-listings-provider)
+  soldListings: (query: string, minPrice?: number, maxPrice?: number) =>
+    `sold_listings:${query.toLowerCase().trim()}|${minPrice || ''}|${maxPrice || ''}`,
+
+  // One comp provider's result (comp provider registry)
+  providerComps: (providerId: string, query: { query: string; category: string; itemTitle?: string; imageUrl?: string; limit?: number }) =>
+    `${providerId}:${[query.query, query.category, query.itemTitle, query.imageUrl, query.limit].map(v => String(v ?? '').toLowerCase().trim()).join('|')}`.slice(0, 250),
+
+  // Mercari sold items
+  mercariSold: (keyword: string, minPrice?: number, maxPrice?: number) =>
+    `mercari:${keyword.toLowerCase().trim()}|${minPrice || ''}|${maxPrice || ''}`,
+
   // OpenAI identification result
   aiIdentification: (imageHash: string) => `ai:id:${imageHash}`,
-  
+
   // Category pricing trends
   categoryTrend: (category: string, period: '7d' | '30d' | '90d') => `cat:trend:${category}:${period}`,
-  
+
   // Historical comps (fallback when API is down)
   historicalComps: (category: string) => `historical:comps:${category}`,
-  
+
   // eBay token cache
   ebayAccessToken: () => 'ebay:token',
-  
+
   // Stripe session cache
   stripeSession: (userId: string) => `stripe:session:${userId}`,
-  
+
   // Card-specific caching
   cardComps: (cardNumber: string, set: string) => `card:comps:${set}:${cardNumber}`,
   cardPricing: (cardNumber: string) => `card:pricing:${cardNumber}`,
 };
-
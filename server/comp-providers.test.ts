@@ -0,0 +1,72 @@
+/**
+ * Comp Provider Registry Tests
+ */
+
+import type { SoldComp } from '@shared/schema';
+
+vi.hoisted(() => {
+  process.env.COMP_CACHE_BACKEND = 'memory';
+});
+
+vi.mock('./storage', () => ({ storage: {} }));
+vi.mock('./ebay-api', () => ({ classifyCondition: () => 'used' }));
+vi.mock('./serpapi', () => ({}));
+vi.mock('./pricecharting-api', () => ({}));
+vi.mock('./mercari-api', () => ({}));
+vi.mock('./chrono24-api', () => ({}));
+vi.mock('./ximilar-api', () => ({}));
+
+import { cache } from './cache-service';
+import { fetchMergedComps, registerCompProvider } from './comp-providers';
+
+const comp = (soldPrice: number): SoldComp => ({
+  soldPrice,
+  shippingCost: 'Free',
+  dateSold: '2026-10-01',
+  condition: 'Used',
+  title: `Test sale ${soldPrice}`,
+});
+
+const query = { query: 'Widget', category: 'Test Category' };
+const fetch = vi.fn();
+
+registerCompProvider({
+  id: 'test_sold',
+  label: 'Test sold',
+  platform: 'ebay',
+  priceKind: 'sold',
+  categories: ['Test Category'],
+  isConfigured: () => true,
+  fetch,
+});
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  await cache.clear();
+});
+
+describe('Comp provider registry', () => {
+  it('should serve a repeat search from the shared cache', async () => {
+    fetch.mockResolvedValue([comp(100), comp(120)]);
+
+    const first = await fetchMergedComps(query, { providerIds: ['test_sold'] });
+    const second = await fetchMergedComps(query, { providerIds: ['test_sold'] });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(second.comps).toEqual(first.comps);
+    expect(second.sources[0]).toEqual(expect.objectContaining({ id: 'test_sold', compCount: 2 }));
+    expect(cache.getMetrics('test_sold')).toEqual(expect.objectContaining({ hits: 1, misses: 1 }));
+  });
+
+  it('should not cache an empty result', async () => {
+    fetch.mockResolvedValueOnce([]).mockResolvedValueOnce([comp(100)]);
+
+    const first = await fetchMergedComps(query, { providerIds: ['test_sold'] });
+    const second = await fetchMergedComps(query, { providerIds: ['test_sold'] });
+
+    expect(first.comps).toEqual([]);
+    expect(first.sources[0].error).toBeUndefined();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(second.comps).toHaveLength(1);
+  });
+});
@@ -0,0 +1,470 @@
+/**
+ * Comp Provider Registry
+ *
+ * One interface for every comp source (eBay Finding API, SerpAPI, PriceCharting,
+ * Mercari, Chrono24, Ximilar). Callers ask for comps once; the registry picks
+ * the providers that cover the item's category, queries them in parallel,
+ * normalizes everything to SoldComp and merges the results.
+ *
+ * MERGE RULES:
+ * 1. Every provider soft-fails on its own - a dead source just drops out
+ * 2. Fallback-only providers (paid, e.g. SerpAPI) run only when the primary
+ *    sold sources return fewer than MIN_PRIMARY_SOLD_COMPS
+ * 3. Cross-posted listings (same normalized title, price within
+ *    DUPLICATE_PRICE_TOLERANCE) are kept once - sold beats asking, then
+ *    registration order
+ * 4. Stats use sold prices only; asking-price comps (Chrono24, Ximilar) are
+ *    returned for display when includeAskingPrices is set
+ *
+ * Each comp carries its provider id in `source`, and the result lists what
+ * every provider contributed (or why it failed) in `sources`.
+ *
+ * Provider results go through the shared comp cache (./cache-service) with the
+ * category TTL and stale-while-revalidate, so a repeat search doesn't hit -
+ * or pay for - the source again. Empty results are never cached.
+ *
+ * The scan pipeline (./scan-comps) queries the eBay sold providers one at a
+ * time in its own priority order; comp search, aging and alerts use every
+ * provider.
+ *
+ * Adding a source = registerCompProvider() from its own module. Routes never change.
+ */
+
+import type { CompSourceSummary, CompsResult, SoldComp } from '@shared/schema';
+import { FEE_SCHEDULES, type FeePlatform } from '@shared/feeSchedule';
+import { medianPrice, type PlatformPriceInput } from '@shared/platformPayouts';
+import { classifyCondition, fetchSoldItemsFromFindingApi, getEbayCategoryId } from './ebay-api';
+import { fetchSoldItemsFromSerpApi } from './serpapi';
+import { isPriceChartingEligible, priceChartingToComps, searchPriceCharting } from './pricecharting-api';
+import { searchMercariSoldItems } from './mercari-api';
+import { chrono24ToComps, extractWatchBrand, extractWatchModel, fetchChrono24Listings } from './chrono24-api';
+import { getCardPricing } from './ximilar-api';
+import { withTimeout } from './retry-strategy';
+import { ErrorCode } from './error-handling';
+import { cache, cacheKeys } from './cache-service';
+
+export interface CompQuery {
+  query: string;
+  category: string;
+  condition?: string;
+  itemTitle?: string; // full item title, used for category/eligibility detection
+  imageUrl?: string; // image-based providers (Ximilar)
+  limit?: number;
+}
+
+export interface CompProvider {
+  id: string;
+  label: string;
+  platform: string; // marketplace the prices come from (FeePlatform key)
+  priceKind: 'sold' | 'asking';
+  fallbackOnly?: boolean;
+  ownCache?: boolean; // already reads through the shared cache itself
+  categories: string[] | 'all';
+  isConfigured(): boolean;
+  supports?(query: CompQuery): boolean; // finer eligibility than category
+  fetch(query: CompQuery): Promise<SoldComp[]>;
+}
+
+export interface MergedCompsResult extends CompsResult {
+  sources: CompSourceSummary[];
+  duplicatesRemoved: number;
+}
+
+export const MIN_PRIMARY_SOLD_COMPS = 5;
+export const DUPLICATE_PRICE_TOLERANCE = 0.03; // 3%
+const PROVIDER_TIMEOUT_MS = 15000;
+const DEFAULT_LIMIT = 30;
+
+const WATCH_CATEGORIES = ['Watches', "Men's Watches", "Women's Watches"];
+
+// Thrown by a provider fetch that found nothing, so the empty page isn't cached
+const NO_COMPS = new Error('No comps found');
+
+const providers: CompProvider[] = [];
+
+/**
+ * Register a comp source. Re-registering an id replaces the old provider in place.
+ */
+export function registerCompProvider(provider: CompProvider): void {
+  const existing = providers.findIndex(p => p.id === provider.id);
+  if (existing >= 0) {
+    providers[existing] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
+
+export function getCompProviders(): CompProvider[] {
+  return [...providers];
+}
+
+export function getCompProvider(id: string): CompProvider | undefined {
+  return providers.find(p => p.id === id);
+}
+
+/**
+ * Configured providers covering a category, in priority (registration) order.
+ */
+export function getProvidersForCategory(category: string): CompProvider[] {
+  return providers.filter(p =>
+    p.isConfigured() && (p.categories === 'all' || p.categories.includes(category))
+  );
+}
+
+/**
+ * Low/median/high/average/spread over sold prices.
+ * Average trims outliers (2 each end at 5+ comps, 1 each end at 3-4).
+ */
+export function calculateCompStats(comps: SoldComp[]): {
+  lowPrice: number | null;
+  medianPrice: number | null;
+  highPrice: number | null;
+  averagePrice: number | null;
+  spreadPercent: number | null;
+  variance: number | null;
+  priceRange: { min: number; max: number } | null;
+} {
+  if (comps.length === 0) {
+    return {
+      lowPrice: null,
+      medianPrice: null,
+      highPrice: null,
+      averagePrice: null,
+      spreadPercent: null,
+      variance: null,
+      priceRange: null,
+    };
+  }
+
+  const prices = comps.map(c => c.soldPrice).sort((a, b) => a - b);
+  const lowPrice = prices[0];
+  const highPrice = prices[prices.length - 1];
+
+  const mid = Math.floor(prices.length / 2);
+  const medianPrice = prices.length % 2 !== 0
+    ? prices[mid]
+    : (prices[mid - 1] + prices[mid]) / 2;
+
+  // Remove outliers: ignore bottom 2 and top 2 sales for better average
+  // Only apply if we have at least 5 comps (so we keep at least 1 after trimming)
+  let trimmedPrices = prices;
+  if (prices.length >= 5) {
+    trimmedPrices = prices.slice(2, prices.length - 2);
+  } else if (prices.length >= 3) {
+    // For 3-4 comps, just remove the single highest and lowest
+    trimmedPrices = prices.slice(1, prices.length - 1);
+  }
+  // For 1-2 comps, use all prices (no trimming possible)
+
+  const averagePrice = trimmedPrices.reduce((sum, p) => sum + p, 0) / trimmedPrices.length;
+
+  const spreadPercent = medianPrice > 0
+    ? Math.round(((highPrice - lowPrice) / medianPrice) * 100)
+    : null;
+
+  const variance = prices.length >= 2
+    ? prices.reduce((sum, p) => sum + Math.pow(p - averagePrice, 2), 0) / prices.length
+    : null;
+
+  return {
+    lowPrice,
+    medianPrice,
+    highPrice,
+    averagePrice,
+    spreadPercent,
+    variance,
+    priceRange: { min: lowPrice, max: highPrice },
+  };
+}
+
+function bucketStats(comps: SoldComp[]): { count: number; medianPrice: number | null; lowPrice: number | null; highPrice: number | null } {
+  const stats = calculateCompStats(comps);
+  return { count: comps.length, medianPrice: stats.medianPrice, lowPrice: stats.lowPrice, highPrice: stats.highPrice };
+}
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .slice(0, 80);
+}
+
+/**
+ * Drop cross-posted duplicates. `ranked` must already be in keep-first order.
+ * Only comps from different sources can match (two eBay sales at the same
+ * price are two sales); comps without a title can't be matched and are kept.
+ */
+export function dedupeComps(ranked: SoldComp[]): { comps: SoldComp[]; duplicatesRemoved: number } {
+  const kept: SoldComp[] = [];
+  const byTitle = new Map<string, { price: number; source?: string }[]>();
+  let duplicatesRemoved = 0;
+
+  for (const comp of ranked) {
+    const key = comp.title ? normalizeTitle(comp.title) : '';
+    if (key) {
+      const seen = byTitle.get(key) || [];
+      const isDuplicate = seen.some(prev =>
+        prev.source !== comp.source &&
+        Math.abs(prev.price - comp.soldPrice) <= Math.max(prev.price, comp.soldPrice) * DUPLICATE_PRICE_TOLERANCE
+      );
+      if (isDuplicate) {
+        duplicatesRemoved++;
+        continue;
+      }
+      seen.push({ price: comp.soldPrice, source: comp.source });
+      byTitle.set(key, seen);
+    }
+    kept.push(comp);
+  }
+
+  return { comps: kept, duplicatesRemoved };
+}
+
+async function runProvider(
+  provider: CompProvider,
+  query: CompQuery
+): Promise<{ comps: SoldComp[]; summary: CompSourceSummary }> {
+  const startTime = Date.now();
+  const summary: CompSourceSummary = {
+    id: provider.id,
+    label: provider.label,
+    platform: provider.platform,
+    priceKind: provider.priceKind,
+    compCount: 0,
+    durationMs: 0,
+  };
+
+  const fetchComps = async () => {
+    const raw = await provider.fetch(query);
+    if (raw.length === 0) throw NO_COMPS;
+    return raw;
+  };
+
+  try {
+    const raw = await withTimeout(
+      provider.ownCache
+        ? provider.fetch(query)
+        : cache.getOrFetch(cacheKeys.providerComps(provider.id, query), fetchComps, query.category).then(r => r.data),
+      PROVIDER_TIMEOUT_MS,
+      ErrorCode.INTERNAL_ERROR
+    );
+    const comps = raw
+      .filter(c => c.soldPrice > 0)
+      .map(c => ({ ...c, totalPrice: c.totalPrice ?? c.soldPrice, source: provider.id }));
+    summary.compCount = comps.length;
+    summary.durationMs = Date.now() - startTime;
+    return { comps, summary };
+  } catch (error: any) {
+    summary.durationMs = Date.now() - startTime;
+    if (error === NO_COMPS) return { comps: [], summary };
+    const message = error?.originalError?.message || error?.message || 'Unknown error';
+    console.error(`[CompProviders] ${provider.id} failed:`, message);
+    summary.error = message;
+    return { comps: [], summary };
+  }
+}
+
+/**
+ * Query every provider for the category in parallel and merge the results.
+ */
+export async function fetchMergedComps(
+  query: CompQuery,
+  options: { includeAskingPrices?: boolean; providerIds?: string[] } = {}
+): Promise<MergedCompsResult> {
+  const candidates = getProvidersForCategory(query.category).filter(p =>
+    (!options.providerIds || options.providerIds.includes(p.id)) &&
+    (options.includeAskingPrices || p.priceKind === 'sold') &&
+    (!p.supports || p.supports(query))
+  );
+  const primary = candidates.filter(p => !p.fallbackOnly);
+  const fallbacks = candidates.filter(p => p.fallbackOnly);
+
+  const results = await Promise.all(primary.map(p => runProvider(p, query)));
+
+  const primarySoldCount = results
+    .filter(r => r.summary.priceKind === 'sold')
+    .reduce((sum, r) => sum + r.comps.length, 0);
+  if (fallbacks.length > 0 && primarySoldCount < MIN_PRIMARY_SOLD_COMPS) {
+    console.log(`[CompProviders] Only ${primarySoldCount} sold comps from primary sources - trying ${fallbacks.map(p => p.id).join(', ')}`);
+    results.push(...await Promise.all(fallbacks.map(p => runProvider(p, query))));
+  }
+
+  // Keep-first order: sold before asking, then provider priority
+  const priority = (id: string) => candidates.findIndex(p => p.id === id);
+  const ranked = results
+    .slice()
+    .sort((a, b) =>
+      (a.summary.priceKind === b.summary.priceKind ? 0 : a.summary.priceKind === 'sold' ? -1 : 1) ||
+      priority(a.summary.id) - priority(b.summary.id)
+    )
+    .flatMap(r => r.comps);
+  const { comps, duplicatesRemoved } = dedupeComps(ranked);
+
+  // Per-source count after dedupe, so attribution adds up to comps.length
+  const sources = results.map(r => ({
+    ...r.summary,
+    compCount: comps.filter(c => c.source === r.summary.id).length,
+  }));
+
+  const soldIds = new Set(sources.filter(s => s.priceKind === 'sold').map(s => s.id));
+  const soldComps = comps.filter(c => c.source && soldIds.has(c.source));
+  const stats = calculateCompStats(soldComps);
+
+  const contributing = sources.filter(s => s.compCount > 0).map(s => `${s.id}=${s.compCount}`);
+  console.log(`[CompProviders] "${query.query}" (${query.category}): ${contributing.join(', ') || 'no comps'}${duplicatesRemoved > 0 ? `, ${duplicatesRemoved} duplicates removed` : ''}`);
+
+  return {
+    comps,
+    ...stats,
+    searchQuery: query.query,
+    source: comps.length > 0 ? 'merged' : 'none',
+    message: comps.length === 0 ? 'No comps found from any source' : undefined,
+    conditionStats: {
+      newLike: bucketStats(soldComps.filter(c => classifyCondition(c.condition || '') === 'newLike')),
+      used: bucketStats(soldComps.filter(c => classifyCondition(c.condition || '') === 'used')),
+    },
+    sources,
+    duplicatesRemoved,
+  };
+}
+
+/**
+ * One expected price per marketplace in a merged result: sold comps when
+ * there are any, else asking prices (comparePlatformPayouts discounts those).
+ */
+export function getPlatformPriceInputs(merged: MergedCompsResult): PlatformPriceInput[] {
+  const priceInputs: PlatformPriceInput[] = [];
+  for (const platform of Array.from(new Set(merged.sources.map(s => s.platform)))) {
+    if (!(platform in FEE_SCHEDULES)) continue;
+    const pricesFor = (priceKind: 'sold' | 'asking') => {
+      const ids = merged.sources.filter(s => s.platform === platform && s.priceKind === priceKind).map(s => s.id);
+      return merged.comps.filter(c => c.source && ids.includes(c.source)).map(c => c.soldPrice);
+    };
+    const soldPrices = pricesFor('sold');
+    const askingPrices = pricesFor('asking');
+    const useSold = soldPrices.length > 0 || askingPrices.length === 0;
+    const median = medianPrice(useSold ? soldPrices : askingPrices);
+    priceInputs.push({
+      platform: platform as FeePlatform,
+      expectedPrice: median,
+      isAskingPrice: !useSold,
+      compCount: useSold ? soldPrices.length : askingPrices.length,
+      source: `${platform}_${useSold ? 'sold' : 'asking'}`,
+    });
+  }
+  return priceInputs;
+}
+
+// ============================================================================
+// BUILT-IN PROVIDERS (registration order = dedupe priority)
+// ============================================================================
+
+registerCompProvider({
+  id: 'ebay_finding',
+  label: 'eBay sold',
+  platform: 'ebay',
+  priceKind: 'sold',
+  categories: 'all',
+  isConfigured: () => !!process.env.EBAY_CLIENT_ID,
+  async fetch(query) {
+    const result = await fetchSoldItemsFromFindingApi(query.query, {
+      categoryId: getEbayCategoryId(query.category, query.itemTitle || query.query),
+      limit: query.limit || DEFAULT_LIMIT,
+      itemCategory: query.category,
+    });
+    return result.comps;
+  },
+});
+
+registerCompProvider({
+  id: 'pricecharting',
+  label: 'PriceCharting',
+  platform: 'ebay', // PriceCharting aggregates eBay sales
+  priceKind: 'sold',
+  categories: 'all',
+  isConfigured: () => !!process.env.PRICECHARTING_API_KEY,
+  supports: (query) => isPriceChartingEligible(query.itemTitle || query.query, query.category),
+  async fetch(query) {
+    return priceChartingToComps(await searchPriceCharting(query.query));
+  },
+});
+
+registerCompProvider({
+  id: 'mercari',
+  label: 'Mercari sold',
+  platform: 'mercari',
+  priceKind: 'sold',
+  ownCache: true,
+  categories: 'all',
+  isConfigured: () => true, // public search, no key
+  async fetch(query) {
+    const result = await searchMercariSoldItems(query.query, { limit: Math.min(query.limit || DEFAULT_LIMIT, 20) });
+    if (!result.success) throw new Error(result.error || 'Mercari search failed');
+    return result.items.map(item => ({
+      soldPrice: item.soldPrice,
+      shippingCost: 'Unknown',
+      dateSold: null, // search results don't say when it sold
+      condition: item.condition || 'Used',
+      totalPrice: item.soldPrice,
+      title: item.title,
+      imageUrl: item.imageUrl,
+    }));
+  },
+});
+
+registerCompProvider({
+  id: 'serpapi',
+  label: 'eBay sold (SerpAPI)',
+  platform: 'ebay',
+  priceKind: 'sold',
+  fallbackOnly: true, // paid per search
+  categories: 'all',
+  isConfigured: () => !!process.env.SERPAPI_KEY,
+  async fetch(query) {
+    const result = await fetchSoldItemsFromSerpApi(query.query, { limit: query.limit || DEFAULT_LIMIT });
+    if (!result.success && result.error) throw new Error(result.error);
+    return result.comps;
+  },
+});
+
+registerCompProvider({
+  id: 'chrono24',
+  label: 'Chrono24 asking',
+  platform: 'chrono24',
+  priceKind: 'asking',
+  categories: WATCH_CATEGORIES,
+  isConfigured: () => !!process.env.CHRONO24_API_KEY,
+  async fetch(query) {
+    const title = query.itemTitle || query.query;
+    const brand = extractWatchBrand(title);
+    const model = extractWatchModel(title);
+    const searchQuery = brand && model ? `${brand} ${model}` : query.query;
+    const result = await fetchChrono24Listings(searchQuery, { limit: 10 });
+    return result ? chrono24ToComps(result.listings) : [];
+  },
+});
+
+registerCompProvider({
+  id: 'ximilar',
+  label: 'Ximilar card pricing',
+  platform: 'ebay',
+  priceKind: 'asking', // current marketplace listings
+  categories: ['Trading Cards'],
+  isConfigured: () => !!process.env.XIMILAR_API_TOKEN,
+  supports: (query) => !!query.imageUrl,
+  async fetch(query) {
+    const response = await getCardPricing(query.imageUrl!, process.env.XIMILAR_API_TOKEN!, ['ebay']);
+    const record = response.records?.[0];
+    return (record?.pricing || [])
+      .filter(p => p.price && (!p.currency || p.currency === 'USD'))
+      .map(p => ({
+        soldPrice: p.price!,
+        shippingCost: 'Unknown',
+        dateSold: 'Active listing',
+        condition: p.condition || 'Ungraded',
+        totalPrice: p.price!,
+        // No per-listing title: every row is the same card, so titles would collapse in dedupe
+      }));
+  },
+});
@@ -16,9 +16,8 @@
  */
 
 import { logCompsRequest } from './comps-logger';
-import { fetchSoldItemsFromSerpApi } from './serpapi';
-import { searchPriceCharting, isLikelyVideoGame, getMarketValue } from './pricecharting-api';
-import { buildWatchCompQuery, cleanSoldComps, CleanedCompResult } from './watch-comp-processor';
+import { getMarketValue } from './pricecharting-api';
+import { fixtureFetch } from './api-fixtures';
 
 // ============================================================
 // EBAY API DEBUG & RETRY INFRASTRUCTURE
@@ -153,7 +152,7 @@ async function fetchWithRetry(
       apiStats.totalCalls++;
       currentScanCallCount++;
       
-      const response = await fetch(url, options);
+      const response = await fixtureFetch('ebay', url, options);
       
       // Success or 4xx client error - don't retry
       if (response.ok || (response.status >= 400 && response.status < 500)) {
@@ -263,11 +262,12 @@ export function getAverageCallsPerScan(): number {
 export interface SoldComp {
   soldPrice: number;
   shippingCost: string;
-  dateSold: string;
+  dateSold: string | null;
   condition: string;
   totalPrice?: number; // Optional - computed when available
   title?: string;
   imageUrl?: string;
+  source?: string; // comp provider id (set by the comp provider registry)
 }
 
 export interface SellerSignals {
@@ -336,10 +336,20 @@ const eBayCategoryMap: Record<string, string> = {
   'Other': '',
 };
 
+/**
+ * eBay category ID for an app category, auto-detecting from the title when
+ * the category is missing or unmapped. Empty string = search all categories.
+ */
+export function getEbayCategoryId(category: string | null | undefined, title?: string): string {
+  if (category && eBayCategoryMap[category]) return eBayCategoryMap[category];
+  const detected = title ? detectCategoryFromTitle(title) : '';
+  return (detected && eBayCategoryMap[detected]) || '';
+}
+
 /**
  * Auto-detect category from item title using keyword matching
  */
-function detectCategoryFromTitle(title: string): string {
+export function detectCategoryFromTitle(title: string): string {
   const lowerTitle = title.toLowerCase();
   
   // Gaming/Controllers
@@ -707,7 +717,7 @@ export async function fetchFromMarketplaceInsights(
     
     const apiUrl = `https://api.ebay.com/buy/marketplace_insights/v1_beta/item_sales/search?q=${encodeURIComponent(searchQuery)}${categoryParam}${dateFilter}&limit=${limit}`;
 
-    const response = await fetch(apiUrl, {
+    const response = await fixtureFetch('ebay', apiUrl, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
@@ -907,6 +917,69 @@ export async function fetchFromBrowseAPI(
   }
 }
 
+/**
+ * Active listing from a Browse API search (saved search alerts)
+ */
+export interface EbayListingSummary {
+  itemId: string; // legacy numeric item ID, as in ebay.com/itm/<id>
+  title: string;
+  price: number;
+  shippingIn: number;
+  condition: string;
+  url: string;
+  imageUrl?: string;
+  listedAt?: string; // ISO timestamp
+}
+
+/**
+ * Newest fixed-price listings for a query, optionally capped at maxPrice and
+ * filtered to new or used condition. Null when the Browse API is unavailable.
+ */
+export async function searchNewListings(
+  searchQuery: string,
+  options: { category?: string; condition?: 'new' | 'used'; maxPrice?: number | null; limit?: number } = {}
+): Promise<EbayListingSummary[] | null> {
+  const accessToken = await getAccessToken('https://api.ebay.com/oauth/api_scope');
+  if (!accessToken) return null;
+
+  try {
+    const categoryId = getEbayCategoryId(options.category, searchQuery);
+    const categoryParam = categoryId ? `&category_ids=${categoryId}` : '';
+    const filters = ['buyingOptions:{FIXED_PRICE}'];
+    if (options.maxPrice) filters.push(`price:[..${options.maxPrice}]`, 'priceCurrency:USD');
+    if (options.condition) filters.push(`conditions:{${options.condition === 'new' ? 'NEW' : 'USED'}}`);
+
+    const apiUrl = `https://api.ebay.com/buy/browse/v1/item_summary/search?q=${encodeURIComponent(searchQuery)}${categoryParam}&filter=${encodeURIComponent(filters.join(','))}&sort=newlyListed&limit=${options.limit || 20}`;
+    const response = await fetchWithRetry(apiUrl, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
+        'Accept': 'application/json',
+      },
+    }, { errorType: 'browse_500' });
+
+    if (!response.ok) {
+      console.error(`[eBay API] Listing search failed for "${searchQuery}": ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    return (data.itemSummaries || []).map((item: any): EbayListingSummary => ({
+      itemId: item.legacyItemId || String(item.itemId || '').split('|')[1] || item.itemId,
+      title: item.title,
+      price: parseFloat(item.price?.value || '0'),
+      shippingIn: parseFloat(item.shippingOptions?.[0]?.shippingCost?.value || '0'),
+      condition: item.condition || 'Not specified',
+      url: item.itemWebUrl || `https://www.ebay.com/itm/${item.legacyItemId}`,
+      imageUrl: item.image?.imageUrl || item.thumbnailImages?.[0]?.imageUrl,
+      listedAt: item.itemCreationDate,
+    }));
+  } catch (error) {
+    console.error(`[eBay API] Listing search error for "${searchQuery}":`, error);
+    return null;
+  }
+}
+
 /**
  * Unified comps fetcher with automatic fallback
  * 
@@ -1096,7 +1169,7 @@ function detectControllerFamily(title: string): ControllerFamily | null {
  * Filter comps to remove irrelevant results based on title similarity
  * Uses product family matching for controllers and relevance scoring for others
  */
-function filterRelevantComps(comps: SoldComp[], searchQuery: string, itemTitle?: string): SoldComp[] {
+export function filterRelevantComps(comps: SoldComp[], searchQuery: string, itemTitle?: string): SoldComp[] {
   const title = itemTitle || searchQuery;
   const normalizedTitle = normalizeTitle(title);
   const queryTokens = extractKeyTokens(title);
@@ -1152,213 +1225,6 @@ function filterRelevantComps(comps: SoldComp[], searchQuery: string, itemTitle?:
   return filtered.map(f => f.comp);
 }
 
-export async function fetchCompsWithFallback(
-  searchQuery: string,
-  category: string,
-  options?: { 
-    limit?: number; 
-    conditionMatch?: string;
-    preferBrowse?: boolean;
-    itemTitle?: string;
-  }
-): Promise<{ comps: SoldComp[]; source: DataSourceType; confidence: ConfidenceLevel; cleanedResult?: CleanedCompResult } | null> {
-  
-  // Auto-detect category from search query or item title if not provided
-  let effectiveCategory = category;
-  if (!effectiveCategory || effectiveCategory === 'Other' || !eBayCategoryMap[effectiveCategory]) {
-    const detectedCategory = detectCategoryFromTitle(options?.itemTitle || searchQuery);
-    if (detectedCategory) {
-      effectiveCategory = detectedCategory;
-      console.log(`[eBay API] Auto-detected category: ${effectiveCategory} from title`);
-    }
-  }
-  
-  // Priority 1: Try PriceCharting for video games, trading cards, collectibles
-  // Exclude gaming accessories (controllers, headsets, etc.) - PriceCharting often returns wrong products for these
-  const itemText = (options?.itemTitle || searchQuery).toLowerCase();
-  const isGamingAccessory = /\b(controller|headset|headphones|charging|dock|stand|cable|adapter|skin|case|grip|thumbstick|joystick|gamepad|remote)\b/i.test(itemText);
-  
-  // Sports Cards should NEVER use PriceCharting - it only has video games, not vintage baseball/football/basketball cards
-  // PriceCharting returns garbage like "Tom and Jerry comics" for "1968 Topps Nolan Ryan"
-  const isSportsCard = effectiveCategory === 'Trading Cards' || 
-    /\b(topps|panini|bowman|fleer|donruss|upper deck|prizm|select|optic|mosaic|score|stadium club)\b/i.test(itemText);
-  
-  // PriceCharting only for TCG/video games, not sports cards
-  const isPokemonOrTCG = /\b(pokemon|magic the gathering|yugioh|mtg)\b/i.test(itemText);
-  
-  const isPriceChartingCategory = 
-    !isGamingAccessory && 
-    !isSportsCard && // Skip PriceCharting for sports cards - use Finding API instead
-    (
-      isPokemonOrTCG ||
-      isLikelyVideoGame(options?.itemTitle || searchQuery)
-    );
-  
-  if (isPriceChartingCategory && process.env.PRICECHARTING_API_KEY) {
-    console.log(`[eBay API] Trying PriceCharting for category: ${effectiveCategory}`);
-    const pcResult = await searchPriceCharting(searchQuery);
-    
-    if (pcResult.success && (pcResult.prices.loose || pcResult.prices.cib || pcResult.prices.new)) {
-      console.log(`[eBay API] PriceCharting found: ${pcResult.productName}`);
-      
-      // Convert PriceCharting prices to SoldComp format
-      const comps: SoldComp[] = [];
-      
-      if (pcResult.prices.loose) {
-        comps.push({
-          soldPrice: pcResult.prices.loose,
-          shippingCost: 'Free',
-          dateSold: 'PriceCharting (loose)',
-          condition: 'Used',
-          totalPrice: pcResult.prices.loose,
-          title: `${pcResult.productName} (Loose)`,
-        });
-      }
-      if (pcResult.prices.cib) {
-        comps.push({
-          soldPrice: pcResult.prices.cib,
-          shippingCost: 'Free',
-          dateSold: 'PriceCharting (CIB)',
-          condition: 'Used - Complete',
-          totalPrice: pcResult.prices.cib,
-          title: `${pcResult.productName} (Complete in Box)`,
-        });
-      }
-      if (pcResult.prices.new) {
-        comps.push({
-          soldPrice: pcResult.prices.new,
-          shippingCost: 'Free',
-          dateSold: 'PriceCharting (new/sealed)',
-          condition: 'New',
-          totalPrice: pcResult.prices.new,
-          title: `${pcResult.productName} (Sealed)`,
-        });
-      }
-      if (pcResult.prices.graded) {
-        comps.push({
-          soldPrice: pcResult.prices.graded,
-          shippingCost: 'Free',
-          dateSold: 'PriceCharting (graded)',
-          condition: 'Graded',
-          totalPrice: pcResult.prices.graded,
-          title: `${pcResult.productName} (Graded)`,
-        });
-      }
-      
-      if (comps.length > 0) {
-        return { comps, source: 'pricecharting', confidence: 'high' };
-      }
-    }
-  }
-  
-  // Priority 2: eBay Finding API for SOLD items (FREE - no SerpAPI cost)
-  const isWatchCategory = effectiveCategory === 'Watches' || 
-    effectiveCategory === "Men's Watches" || 
-    effectiveCategory === "Women's Watches";
-  
-  // For watches, build tighter query with brand + family + model/movement
-  let effectiveQuery = searchQuery;
-  if (isWatchCategory && options?.itemTitle) {
-    const watchQuery = buildWatchCompQuery(options.itemTitle);
-    if (watchQuery.query.length > 5) {
-      effectiveQuery = watchQuery.query;
-      console.log(`[eBay API] Using tight watch query: "${effectiveQuery}" (identifiers: ${JSON.stringify(watchQuery.identifiers)})`);
-    }
-  }
-  
-  // Try eBay Finding API first (FREE)
-  const categoryId = eBayCategoryMap[effectiveCategory];
-  console.log(`[eBay API] Trying Finding API for sold items: "${effectiveQuery}" (category: ${effectiveCategory})`);
-  const findingResult = await fetchSoldItemsFromFindingApi(effectiveQuery, {
-    categoryId,
-    limit: options?.limit || 30,
-  });
-  
-  if (findingResult.success && findingResult.comps.length > 0) {
-    console.log(`[eBay API] Finding API returned ${findingResult.comps.length} sold items`);
-    
-    // For watches, use advanced cleaning
-    if (isWatchCategory) {
-      // Filter to only comps with valid totalPrice for cleanSoldComps
-      const compsWithPrice = findingResult.comps
-        .filter(c => c.totalPrice !== undefined && c.totalPrice > 0)
-        .map(c => ({ ...c, totalPrice: c.totalPrice as number }));
-      const cleanedResult = cleanSoldComps(compsWithPrice, effectiveQuery);
-      console.log(`[eBay API] Watch comp cleaning: ${findingResult.comps.length} -> ${cleanedResult.compCount} clean comps`);
-      
-      if (cleanedResult.success && cleanedResult.compCount >= 3) {
-        return { 
-          comps: cleanedResult.comps, 
-          source: 'finding_api', 
-          confidence: cleanedResult.compCount >= 8 ? 'high' : 'medium',
-          cleanedResult
-        };
-      }
-    } else {
-      // Non-watch: use standard filtering
-      const filteredComps = filterRelevantComps(findingResult.comps, effectiveQuery, options?.itemTitle);
-      if (filteredComps.length > 0) {
-        return { comps: filteredComps, source: 'finding_api', confidence: 'medium' };
-      }
-    }
-  }
-  
-  // Priority 3: SerpAPI fallback (if Finding API fails or returns insufficient results)
-  if (process.env.SERPAPI_KEY) {
-    console.log(`[eBay API] Falling back to SerpAPI for: "${effectiveQuery}"`);
-    const serpApiResult = await fetchSoldItemsFromSerpApi(effectiveQuery, {
-      limit: options?.limit || 30,
-    });
-    
-    if (serpApiResult.success && serpApiResult.comps.length > 0) {
-      console.log(`[eBay API] SerpAPI returned ${serpApiResult.comps.length} raw sold items`);
-      
-      // For watches, use advanced cleaning (remove parts/repair/bundles, use median, trim outliers)
-      if (isWatchCategory) {
-        // Filter to only comps with valid totalPrice for cleanSoldComps
-        const serpCompsWithPrice = serpApiResult.comps
-          .filter(c => c.totalPrice !== undefined && c.totalPrice > 0)
-          .map(c => ({ ...c, totalPrice: c.totalPrice as number }));
-        const cleanedResult = cleanSoldComps(serpCompsWithPrice, effectiveQuery);
-        console.log(`[eBay API] Watch comp cleaning: ${serpApiResult.comps.length} -> ${cleanedResult.compCount} clean comps, confidence: ${cleanedResult.confidence}`);
-        
-        if (cleanedResult.success && cleanedResult.compCount >= 8) {
-          // HIGH confidence only with ≥8 clean comps
-          return { 
-            comps: cleanedResult.comps, 
-            source: 'serpapi', 
-            confidence: 'high',
-            cleanedResult // Include cleaned stats for decision engine
-          };
-        } else if (cleanedResult.success && cleanedResult.compCount > 0) {
-          // Low confidence with <8 comps
-          console.log(`[eBay API] Low comp confidence: ${cleanedResult.compCount}/8 required comps`);
-          return { 
-            comps: cleanedResult.comps, 
-            source: 'serpapi', 
-            confidence: 'low',
-            cleanedResult
-          };
-        }
-      } else {
-        // Non-watch: use standard filtering
-        const filteredComps = filterRelevantComps(serpApiResult.comps, effectiveQuery, options?.itemTitle);
-        if (filteredComps.length > 0) {
-          return { comps: filteredComps, source: 'serpapi', confidence: 'medium' };
-        }
-      }
-    }
-  }
-
-  // REMOVED: Browse API fallback
-  // Browse API returns ACTIVE listings, not sold items.
-  // Estimating sold prices from active listings is inaccurate and misleading.
-  // If we can't get real sold data, return null to trigger Research Mode.
-  
-  console.log(`[Comps] No real sold data found for "${searchQuery}" - will require Research Mode`);
-  return null;
-}
-
 /**
  * Condition bucket classification for new vs used pricing
  */
@@ -1392,7 +1258,7 @@ export interface ConditionSeparatedComps {
  * - Used (3000): Pre-owned
  * - For parts or not working (7000)
  */
-function classifyCondition(condition: string): 'newLike' | 'used' {
+export function classifyCondition(condition: string): 'newLike' | 'used' {
   const lowerCondition = condition.toLowerCase();
   
   // New-like conditions
@@ -1411,97 +1277,6 @@ function classifyCondition(condition: string): 'newLike' | 'used' {
   return 'used';
 }
 
-/**
- * Compute stats for a set of comps
- */
-function computeBucketStats(comps: SoldComp[]): ConditionBucketStats {
-  if (comps.length === 0) {
-    return { comps, count: 0, medianPrice: null, lowPrice: null, highPrice: null };
-  }
-  
-  const prices = comps.map(c => c.totalPrice).filter((p): p is number => p !== undefined && p > 0).sort((a, b) => a - b);
-  
-  if (prices.length === 0) {
-    return { comps, count: 0, medianPrice: null, lowPrice: null, highPrice: null };
-  }
-  
-  const mid = Math.floor(prices.length / 2);
-  const medianPrice = prices.length % 2 === 0 
-    ? (prices[mid - 1] + prices[mid]) / 2 
-    : prices[mid];
-  
-  return {
-    comps,
-    count: prices.length,
-    medianPrice: Math.round(medianPrice * 100) / 100,
-    lowPrice: Math.round(prices[0] * 100) / 100,
-    highPrice: Math.round(prices[prices.length - 1] * 100) / 100,
-  };
-}
-
-/**
- * Fetch comps and separate them into new-like vs used buckets
- * Returns stats for each bucket to support condition-aware pricing
- */
-export async function fetchCompsByCondition(
-  searchQuery: string,
-  category: string,
-  options?: { 
-    limit?: number; 
-    itemTitle?: string;
-    preferBrowse?: boolean;
-  }
-): Promise<ConditionSeparatedComps | null> {
-  // Fetch more comps to ensure we have enough for both buckets
-  const fetchLimit = Math.max((options?.limit || 10) * 3, 30);
-  
-  const result = await fetchCompsWithFallback(searchQuery, category, {
-    ...options,
-    limit: fetchLimit,
-  });
-  
-  if (!result || result.comps.length === 0) {
-    return null;
-  }
-  
-  // Separate comps by condition
-  const newLikeComps: SoldComp[] = [];
-  const usedComps: SoldComp[] = [];
-  
-  for (const comp of result.comps) {
-    const bucket = classifyCondition(comp.condition);
-    if (bucket === 'newLike') {
-      newLikeComps.push(comp);
-    } else {
-      usedComps.push(comp);
-    }
-  }
-  
-  // For watches with cleanedResult, use the pre-computed cleaned median instead of recalculating
-  // This ensures parts/repair/bundles are excluded and outliers are trimmed
-  let allStats: ConditionBucketStats;
-  if (result.cleanedResult && result.cleanedResult.success) {
-    allStats = {
-      comps: result.comps,
-      count: result.cleanedResult.compCount,
-      medianPrice: result.cleanedResult.medianPrice,
-      lowPrice: result.cleanedResult.lowPrice,
-      highPrice: result.cleanedResult.highPrice,
-    };
-    console.log(`[eBay API] Using cleaned median for watches: $${result.cleanedResult.medianPrice} (${result.cleanedResult.compCount} clean comps)`);
-  } else {
-    allStats = computeBucketStats(result.comps);
-  }
-  
-  return {
-    newLike: computeBucketStats(newLikeComps),
-    used: computeBucketStats(usedComps),
-    all: allStats,
-    source: result.source,
-    confidence: result.confidence,
-  };
-}
-
 /**
  * Get eBay deep link for manual search
  * Always uses 90-day lookback for sold items
@@ -1568,7 +1343,7 @@ export async function fetchBrowseAPIWithSignals(
 
     const apiUrl = `https://api.ebay.com/buy/browse/v1/item_summary/search?q=${encodeURIComponent(searchQuery)}${categoryParam}${filterParams}&sort=price&limit=${limit}`;
 
-    const response = await fetch(apiUrl, {
+    const response = await fixtureFetch('ebay', apiUrl, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
@@ -1701,6 +1476,11 @@ export interface EbayItemDetails {
   imageUrl?: string;
   itemId: string;
   categoryId?: string;
+  // Auction state - set when the listing takes bids
+  isAuction?: boolean;
+  currentBid?: string;
+  bidCount?: number;
+  endsAt?: string; // ISO timestamp
 }
 
 /**
@@ -1720,7 +1500,7 @@ export async function fetchItemById(itemId: string): Promise<EbayItemDetails | n
     // For numeric IDs, we need to use the search endpoint instead
     const apiUrl = `https://api.ebay.com/buy/browse/v1/item/v1|${itemId}|0`;
 
-    const response = await fetch(apiUrl, {
+    const response = await fixtureFetch('ebay', apiUrl, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
@@ -1751,7 +1531,7 @@ async function fetchItemBySearch(itemId: string, accessToken: string): Promise<E
     // Search using the item ID as a query - eBay often returns the item
     const searchUrl = `https://api.ebay.com/buy/browse/v1/item_summary/search?q=${itemId}&limit=5`;
 
-    const response = await fetch(searchUrl, {
+    const response = await fixtureFetch('ebay', searchUrl, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
@@ -1791,6 +1571,20 @@ async function fetchItemBySearch(itemId: string, accessToken: string): Promise<E
   }
 }
 
+/**
+ * Auction fields shared by getItem and item_summary responses
+ */
+function parseAuctionFields(data: any): Pick<EbayItemDetails, 'isAuction' | 'currentBid' | 'bidCount' | 'endsAt'> {
+  const isAuction = Array.isArray(data.buyingOptions) && data.buyingOptions.includes('AUCTION');
+  if (!isAuction) return { isAuction: false };
+  return {
+    isAuction,
+    currentBid: data.currentBidPrice?.value ? parseFloat(data.currentBidPrice.value).toFixed(2) : undefined,
+    bidCount: typeof data.bidCount === 'number' ? data.bidCount : 0,
+    endsAt: data.itemEndDate || undefined,
+  };
+}
+
 /**
  * Parse full item response from getItem endpoint
  */
@@ -1818,6 +1612,7 @@ function parseItemResponse(data: any, itemId: string): EbayItemDetails {
     imageUrl: data.image?.imageUrl,
     itemId,
     categoryId: data.categoryId,
+    ...parseAuctionFields(data),
   };
 }
 
@@ -1847,6 +1642,7 @@ function parseItemSummaryResponse(item: any, itemId: string): EbayItemDetails {
     imageUrl: item.image?.imageUrl || item.thumbnailImages?.[0]?.imageUrl,
     itemId,
     categoryId: item.categoryId,
+    ...parseAuctionFields(item),
   };
 }
 
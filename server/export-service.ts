@@ -0,0 +1,505 @@
+/**
+ * Export Service
+ *
+ * Streams a user's data as CSV, XLSX or JSON - inventory, sales, expenses,
+ * scans, batch scans, the double-entry journal (@shared/dataExport) and the
+ * legacy P&L sheet. Rows are read in id-ordered pages of EXPORT_PAGE_SIZE
+ * and written as they arrive (waiting on the response to drain), so large
+ * accounts never sit in memory.
+ *
+ * FILTERS: from/to (YYYY-MM-DD, inclusive, server local time) apply to each
+ * dataset's own date - purchase date for inventory, sold date for sales,
+ * expense date, scan date, batch item date; journal entries use the date of
+ * the event they record. category matches the item category (the expense
+ * category for expenses); a category-filtered journal leaves out expenses,
+ * which have no item category.
+ */
+
+import { and, asc, eq, gt, gte, inArray, lte, type SQL } from "drizzle-orm";
+import type { Response } from "express";
+import type { Writable } from "stream";
+import { once } from "events";
+import { db } from "./db";
+import { XlsxStreamWriter } from "./xlsx-stream";
+import {
+  batchItems,
+  batchSessions,
+  businessExpenses,
+  inventoryItems,
+  items,
+  type BatchItem,
+  type BatchSession,
+  type BusinessExpense,
+  type InventoryItem,
+  type Item,
+} from "@shared/schema";
+import {
+  EXPORT_DATASET_LABELS,
+  buildDisposalJournal,
+  buildExpenseJournal,
+  buildPurchaseJournal,
+  buildSaleJournal,
+  formatExportDate,
+  getJournalColumns,
+  roundExportMoney,
+  toCsvLine,
+  type ExportCell,
+  type ExportColumn,
+  type ExportDataset,
+  type ExportFileFormat,
+  type JournalLine,
+  type JournalStyle,
+} from "@shared/dataExport";
+import { calculateFeeBreakdown, calculateSaleNetProfit } from "@shared/feeSchedule";
+import { DISPOSED_STATUSES, SOLD_STATUSES, getInventoryStatusLabel, isDisposedStatus, isSoldStatus } from "@shared/inventoryLifecycle";
+
+const EXPORT_PAGE_SIZE = 500;
+
+export interface ExportFilters {
+  from?: string;
+  to?: string;
+  category?: string;
+}
+
+export interface ExportRequest extends ExportFilters {
+  dataset: ExportDataset;
+  format: ExportFileFormat;
+  journalStyle?: JournalStyle;
+}
+
+interface ExportSource<T> {
+  sheetName: string;
+  columns: ExportColumn<T>[];
+  pages: AsyncIterable<T[]>;
+}
+
+const CONTENT_TYPES: Record<ExportFileFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+// ============ ROW SOURCES ============
+
+async function* keysetPages<T extends { id: number }>(
+  load: (afterId: number, limit: number) => Promise<T[]>
+): AsyncGenerator<T[]> {
+  let afterId = 0;
+  while (true) {
+    const rows = await load(afterId, EXPORT_PAGE_SIZE);
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_PAGE_SIZE) return;
+    afterId = rows[rows.length - 1].id;
+  }
+}
+
+function dateRange(column: Parameters<typeof gte>[0], filters: ExportFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.from) conditions.push(gte(column, new Date(`${filters.from}T00:00:00`)));
+  if (filters.to) conditions.push(lte(column, new Date(`${filters.to}T23:59:59.999`)));
+  return conditions;
+}
+
+function inventoryPages(userId: number, conditions: SQL[]): AsyncGenerator<InventoryItem[]> {
+  return keysetPages((afterId, limit) =>
+    db.select().from(inventoryItems)
+      .where(and(eq(inventoryItems.userId, userId), gt(inventoryItems.id, afterId), ...conditions))
+      .orderBy(asc(inventoryItems.id))
+      .limit(limit)
+  );
+}
+
+function inventoryCategory(filters: ExportFilters): SQL[] {
+  return filters.category ? [eq(inventoryItems.category, filters.category)] : [];
+}
+
+async function* mapPages<T, R>(pages: AsyncIterable<T[]>, map: (rows: T[]) => R[]): AsyncGenerator<R[]> {
+  for await (const rows of pages) {
+    const mapped = map(rows);
+    if (mapped.length > 0) yield mapped;
+  }
+}
+
+// ============ INVENTORY & SALES ============
+
+interface ItemMoney {
+  item: InventoryItem;
+  cost: number;
+  salePrice: number | null;
+  fees: number | null;
+  feesEstimated: boolean;
+  shipping: number;
+  netProfit: number | null;
+}
+
+// Same math as the item P&L: actual fee if recorded, else the fee schedule
+function getItemMoney(item: InventoryItem): ItemMoney {
+  const cost = parseFloat(item.purchasePrice || '0');
+  const shipping = parseFloat(item.outboundShippingActual || item.shippingEstimate || '0');
+  const platformFeeActual = item.platformFeeActual ? parseFloat(item.platformFeeActual) : null;
+
+  if (isSoldStatus(item.status) && item.actualSalePrice) {
+    const salePrice = parseFloat(item.actualSalePrice);
+    const { fees, netProfit } = calculateSaleNetProfit({
+      salePrice,
+      purchasePrice: cost,
+      outboundShipping: shipping,
+      platform: item.salePlatform,
+      category: item.category,
+      platformFeeActual,
+    });
+    return { item, cost, salePrice, fees, feesEstimated: platformFeeActual === null, shipping, netProfit };
+  }
+  if (isDisposedStatus(item.status)) {
+    return { item, cost, salePrice: null, fees: null, feesEstimated: false, shipping: 0, netProfit: roundExportMoney(-cost) };
+  }
+  const fees = item.estimatedResale
+    ? calculateFeeBreakdown({ platform: item.salePlatform, category: item.category, salePrice: parseFloat(item.estimatedResale) }).totalFees
+    : parseFloat(item.feesEstimate || '0');
+  return { item, cost, salePrice: null, fees, feesEstimated: true, shipping, netProfit: null };
+}
+
+function daysBetween(start: Date | null, end: Date | null): number | null {
+  if (!start || !end) return null;
+  return Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 86400000));
+}
+
+const inventoryColumns: ExportColumn<ItemMoney>[] = [
+  { key: 'id', header: 'ID', type: 'number', value: r => r.item.id },
+  { key: 'title', header: 'Title', type: 'text', value: r => r.item.title },
+  { key: 'category', header: 'Category', type: 'text', value: r => r.item.category },
+  { key: 'brand', header: 'Brand', type: 'text', value: r => r.item.brand },
+  { key: 'condition', header: 'Condition', type: 'text', value: r => r.item.condition },
+  { key: 'status', header: 'Status', type: 'text', value: r => getInventoryStatusLabel(r.item.status) },
+  { key: 'purchaseDate', header: 'Purchase Date', type: 'date', value: r => formatExportDate(r.item.purchaseDate || r.item.createdAt) },
+  { key: 'listedDate', header: 'Listed Date', type: 'date', value: r => formatExportDate(r.item.listedDate) },
+  { key: 'soldDate', header: 'Sold Date', type: 'date', value: r => formatExportDate(r.item.soldDate) },
+  { key: 'disposedDate', header: 'Disposed Date', type: 'date', value: r => formatExportDate(r.item.disposedDate) },
+  { key: 'purchasePrice', header: 'Purchase Price', type: 'number', value: r => roundExportMoney(r.cost) },
+  { key: 'estimatedResale', header: 'Estimated Resale', type: 'number', value: r => r.item.estimatedResale ? roundExportMoney(parseFloat(r.item.estimatedResale)) : null },
+  { key: 'salePrice', header: 'Sale Price', type: 'number', value: r => r.salePrice },
+  { key: 'platform', header: 'Platform', type: 'text', value: r => r.item.salePlatform },
+  { key: 'fees', header: 'Platform Fees', type: 'number', value: r => r.fees },
+  { key: 'shipping', header: 'Shipping', type: 'number', value: r => roundExportMoney(r.shipping) },
+  { key: 'netProfit', header: 'Net Profit', type: 'number', value: r => r.netProfit },
+  { key: 'source', header: 'Source Location', type: 'text', value: r => r.item.sourceLocationName },
+  { key: 'storageLocation', header: 'Storage Location', type: 'text', value: r => r.item.storageLocation },
+  { key: 'externalId', header: 'External ID', type: 'text', value: r => r.item.externalId },
+];
+
+const salesColumns: ExportColumn<ItemMoney>[] = [
+  { key: 'soldDate', header: 'Sold Date', type: 'date', value: r => formatExportDate(r.item.soldDate) },
+  { key: 'id', header: 'ID', type: 'number', value: r => r.item.id },
+  { key: 'title', header: 'Title', type: 'text', value: r => r.item.title },
+  { key: 'category', header: 'Category', type: 'text', value: r => r.item.category },
+  { key: 'platform', header: 'Platform', type: 'text', value: r => r.item.salePlatform },
+  { key: 'purchaseDate', header: 'Purchase Date', type: 'date', value: r => formatExportDate(r.item.purchaseDate || r.item.createdAt) },
+  { key: 'salePrice', header: 'Sale Price', type: 'number', value: r => r.salePrice },
+  { key: 'cost', header: 'Cost', type: 'number', value: r => roundExportMoney(r.cost) },
+  { key: 'fees', header: 'Platform Fees', type: 'number', value: r => r.fees },
+  { key: 'feesEstimated', header: 'Fees Estimated', type: 'text', value: r => r.feesEstimated ? 'yes' : 'no' },
+  { key: 'shipping', header: 'Shipping', type: 'number', value: r => roundExportMoney(r.shipping) },
+  { key: 'netProfit', header: 'Net Profit', type: 'number', value: r => r.netProfit },
+  { key: 'daysToSell', header: 'Days to Sell', type: 'number', value: r => daysBetween(r.item.purchaseDate, r.item.soldDate) },
+];
+
+// Legacy P&L sheet (/api/exports/pnl) - accountant-ready, no intelligence signals
+const pnlColumns: ExportColumn<ItemMoney>[] = [
+  { key: 'title', header: 'Item Name', type: 'text', value: r => r.item.title },
+  { key: 'category', header: 'Category', type: 'text', value: r => r.item.condition || '' }, // condition as category proxy
+  { key: 'purchaseDate', header: 'Purchase Date', type: 'date', value: r => formatExportDate(r.item.purchaseDate || r.item.createdAt) },
+  {
+    key: 'saleDate', header: 'Sale Date', type: 'date',
+    value: r => formatExportDate(r.salePrice !== null ? r.item.soldDate : isDisposedStatus(r.item.status) ? r.item.disposedDate : null),
+  },
+  { key: 'purchasePrice', header: 'Purchase Price', type: 'text', value: r => r.cost.toFixed(2) },
+  { key: 'salePrice', header: 'Sale Price', type: 'text', value: r => r.salePrice !== null ? r.salePrice.toFixed(2) : isDisposedStatus(r.item.status) ? '0.00' : '' },
+  { key: 'fees', header: 'Platform Fees', type: 'text', value: r => (r.fees ?? 0).toFixed(2) },
+  { key: 'shipping', header: 'Shipping Cost', type: 'text', value: r => r.shipping.toFixed(2) },
+  { key: 'netProfit', header: 'Net Profit', type: 'text', value: r => r.netProfit !== null ? r.netProfit.toFixed(2) : '' },
+  {
+    key: 'status', header: 'Status', type: 'text',
+    value: r => r.salePrice !== null || isDisposedStatus(r.item.status) || r.item.status === 'listed' || r.item.status === 'returned'
+      ? getInventoryStatusLabel(r.item.status)
+      : 'In Stock',
+  },
+  { key: 'source', header: 'Source', type: 'text', value: r => r.item.itemId ? 'Margin Scan' : 'Manual Entry' },
+];
+
+// ============ EXPENSES, SCANS & BATCHES ============
+
+const expenseColumns: ExportColumn<BusinessExpense>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: e => formatExportDate(e.date) },
+  { key: 'id', header: 'ID', type: 'number', value: e => e.id },
+  { key: 'category', header: 'Category', type: 'text', value: e => e.category },
+  { key: 'description', header: 'Description', type: 'text', value: e => e.description },
+  { key: 'amount', header: 'Amount', type: 'number', value: e => roundExportMoney(parseFloat(e.amount)) },
+  { key: 'miles', header: 'Miles', type: 'number', value: e => e.miles ? parseFloat(e.miles) : null },
+  { key: 'mileageRate', header: 'Mileage Rate', type: 'number', value: e => e.mileageRate ? parseFloat(e.mileageRate) : null },
+  { key: 'startLocation', header: 'From', type: 'text', value: e => e.startLocation },
+  { key: 'endLocation', header: 'To', type: 'text', value: e => e.endLocation },
+  { key: 'taxYear', header: 'Tax Year', type: 'number', value: e => e.taxYear },
+  { key: 'notes', header: 'Notes', type: 'text', value: e => e.notes },
+];
+
+function scanNumbers(item: Item) {
+  const buyPrice = item.buyPrice ? parseFloat(item.buyPrice.toString()) : 0;
+  const flipPrice = item.flipPrice ? parseFloat(item.flipPrice.toString()) : 0;
+  return { buyPrice, flipPrice, profit: flipPrice - buyPrice };
+}
+
+const scanColumns: ExportColumn<Item>[] = [
+  { key: 'date', header: 'Date', type: 'date', value: item => formatExportDate(item.createdAt) },
+  { key: 'title', header: 'Title', type: 'text', value: item => item.confirmedTitle || item.title || '' },
+  { key: 'category', header: 'Category', type: 'text', value: item => item.category || 'Other' },
+  { key: 'condition', header: 'Condition', type: 'text', value: item => item.condition || 'Unknown' },
+  { key: 'buyPrice', header: 'Buy Price', type: 'number', value: item => roundExportMoney(scanNumbers(item).buyPrice) },
+  { key: 'expectedSalePrice', header: 'Expected Sale Price', type: 'number', value: item => roundExportMoney(scanNumbers(item).flipPrice) },
+  { key: 'estimatedProfit', header: 'Estimated Profit', type: 'number', value: item => roundExportMoney(scanNumbers(item).profit) },
+  {
+    key: 'marginPercent', header: 'Margin %', type: 'number',
+    value: item => {
+      const { flipPrice, profit } = scanNumbers(item);
+      return flipPrice > 0 ? Math.round((profit / flipPrice) * 1000) / 10 : 0;
+    },
+  },
+  { key: 'decision', header: 'Decision', type: 'text', value: item => item.userDecision || 'pending' },
+  { key: 'verdict', header: 'Verdict', type: 'text', value: item => item.decisionVerdict || item.recommendation || '' },
+];
+
+type BatchRow = { item: BatchItem; session: BatchSession };
+
+const batchColumns: ExportColumn<BatchRow>[] = [
+  { key: 'batchId', header: 'Batch ID', type: 'number', value: r => r.session.id },
+  { key: 'batchStatus', header: 'Batch Status', type: 'text', value: r => r.session.status },
+  { key: 'batchStarted', header: 'Batch Started', type: 'date', value: r => formatExportDate(r.session.startedAt) },
+  { key: 'id', header: 'Item ID', type: 'number', value: r => r.item.id },
+  { key: 'inputType', header: 'Input Type', type: 'text', value: r => r.item.inputType },
+  { key: 'input', header: 'Input', type: 'text', value: r => r.item.inputValue },
+  { key: 'status', header: 'Status', type: 'text', value: r => r.item.status },
+  { key: 'title', header: 'Title', type: 'text', value: r => r.item.title },
+  { key: 'buyPrice', header: 'Buy Price', type: 'number', value: r => r.item.buyPrice ? parseFloat(r.item.buyPrice) : null },
+  { key: 'maxBuyPrice', header: 'Max Buy Price', type: 'number', value: r => r.item.maxBuyPrice ? parseFloat(r.item.maxBuyPrice) : null },
+  { key: 'targetProfitPercent', header: 'Target Profit %', type: 'number', value: r => r.item.appliedProfitPercent },
+  { key: 'priceSource', header: 'Price Source', type: 'text', value: r => r.item.priceGuideSource },
+  { key: 'verdict', header: 'Verdict', type: 'text', value: r => r.item.decisionVerdict },
+  { key: 'score', header: 'Score', type: 'number', value: r => r.item.decisionScore },
+  { key: 'marginPercent', header: 'Margin %', type: 'number', value: r => r.item.marginPercent ? parseFloat(r.item.marginPercent) : null },
+  { key: 'action', header: 'Action', type: 'text', value: r => r.item.userAction },
+  { key: 'error', header: 'Error', type: 'text', value: r => r.item.errorMessage },
+  { key: 'processedAt', header: 'Processed', type: 'date', value: r => formatExportDate(r.item.processedAt) },
+];
+
+// ============ JOURNAL ============
+
+async function* journalPages(userId: number, filters: ExportFilters): AsyncGenerator<JournalLine[]> {
+  const category = inventoryCategory(filters);
+
+  yield* mapPages(inventoryPages(userId, [...dateRange(inventoryItems.purchaseDate, filters), ...category]), rows =>
+    rows.flatMap(item => buildPurchaseJournal({
+      id: item.id,
+      title: item.title,
+      date: formatExportDate(item.purchaseDate || item.createdAt)!,
+      cost: parseFloat(item.purchasePrice || '0'),
+    }))
+  );
+
+  const sold = [inArray(inventoryItems.status, SOLD_STATUSES), ...dateRange(inventoryItems.soldDate, filters), ...category];
+  yield* mapPages(inventoryPages(userId, sold), rows =>
+    rows.map(getItemMoney).filter(r => r.salePrice !== null && r.item.soldDate).flatMap(r => buildSaleJournal({
+      id: r.item.id,
+      title: r.item.title,
+      soldDate: formatExportDate(r.item.soldDate)!,
+      platform: r.item.salePlatform,
+      salePrice: r.salePrice!,
+      cost: r.cost,
+      fees: r.fees ?? 0,
+      shipping: r.shipping,
+    }))
+  );
+
+  const disposed = [inArray(inventoryItems.status, DISPOSED_STATUSES), ...dateRange(inventoryItems.disposedDate, filters), ...category];
+  yield* mapPages(inventoryPages(userId, disposed), rows =>
+    rows.filter(item => item.disposedDate).flatMap(item => buildDisposalJournal({
+      id: item.id,
+      title: item.title,
+      date: formatExportDate(item.disposedDate)!,
+      cost: parseFloat(item.purchasePrice || '0'),
+      status: item.status,
+    }))
+  );
+
+  if (filters.category) return;
+  yield* mapPages(expensePages(userId, filters), rows =>
+    rows.flatMap(expense => buildExpenseJournal({
+      id: expense.id,
+      date: formatExportDate(expense.date)!,
+      category: expense.category,
+      description: expense.description,
+      amount: parseFloat(expense.amount),
+    }))
+  );
+}
+
+function expensePages(userId: number, filters: ExportFilters): AsyncGenerator<BusinessExpense[]> {
+  const conditions = [...dateRange(businessExpenses.date, filters)];
+  if (filters.category) conditions.push(eq(businessExpenses.category, filters.category));
+  return keysetPages((afterId, limit) =>
+    db.select().from(businessExpenses)
+      .where(and(eq(businessExpenses.userId, userId), gt(businessExpenses.id, afterId), ...conditions))
+      .orderBy(asc(businessExpenses.id))
+      .limit(limit)
+  );
+}
+
+function getExportSource(userId: number, request: ExportRequest): ExportSource<any> {
+  const { dataset } = request;
+  const sheetName = EXPORT_DATASET_LABELS[dataset];
+
+  switch (dataset) {
+    case 'inventory':
+      return {
+        sheetName,
+        columns: inventoryColumns,
+        pages: mapPages(
+          inventoryPages(userId, [...dateRange(inventoryItems.purchaseDate, request), ...inventoryCategory(request)]),
+          rows => rows.map(getItemMoney)
+        ),
+      };
+    case 'sales':
+      return {
+        sheetName,
+        columns: salesColumns,
+        pages: mapPages(
+          inventoryPages(userId, [
+            inArray(inventoryItems.status, SOLD_STATUSES),
+            ...dateRange(inventoryItems.soldDate, request),
+            ...inventoryCategory(request),
+          ]),
+          rows => rows.map(getItemMoney).filter(r => r.salePrice !== null)
+        ),
+      };
+    case 'expenses':
+      return { sheetName, columns: expenseColumns, pages: expensePages(userId, request) };
+    case 'scans': {
+      const conditions = [...dateRange(items.createdAt, request)];
+      if (request.category) conditions.push(eq(items.category, request.category));
+      return {
+        sheetName,
+        columns: scanColumns,
+        pages: keysetPages((afterId, limit) =>
+          db.select().from(items)
+            .where(and(eq(items.userId, userId), gt(items.id, afterId), ...conditions))
+            .orderBy(asc(items.id))
+            .limit(limit)
+        ),
+      };
+    }
+    case 'batches':
+      return {
+        sheetName,
+        columns: batchColumns,
+        pages: mapPages(
+          keysetPages(async (afterId, limit) => {
+            const rows = await db.select({ item: batchItems, session: batchSessions })
+              .from(batchItems)
+              .innerJoin(batchSessions, eq(batchItems.batchId, batchSessions.id))
+              .where(and(eq(batchItems.userId, userId), gt(batchItems.id, afterId), ...dateRange(batchItems.createdAt, request)))
+              .orderBy(asc(batchItems.id))
+              .limit(limit);
+            return rows.map(row => ({ id: row.item.id, row }));
+          }),
+          rows => rows.map(({ row }) => row)
+        ),
+      };
+    case 'journal':
+      return {
+        sheetName: 'Journal',
+        columns: getJournalColumns(request.journalStyle ?? 'quickbooks'),
+        pages: journalPages(userId, request),
+      };
+  }
+}
+
+// ============ WRITERS ============
+
+interface ExportWriter {
+  start(): Promise<void>;
+  writeRows(rows: ExportCell[][]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+async function writeText(out: Writable, text: string): Promise<void> {
+  if (text && !out.write(text)) await once(out, 'drain');
+}
+
+function createWriter(out: Writable, format: ExportFileFormat, source: ExportSource<unknown>): ExportWriter {
+  const headers = source.columns.map(column => column.header);
+
+  if (format === 'xlsx') {
+    const xlsx = new XlsxStreamWriter(out, source.sheetName);
+    return {
+      start: () => xlsx.start(headers),
+      writeRows: rows => xlsx.writeRows(rows),
+      finish: () => xlsx.finish(),
+    };
+  }
+
+  if (format === 'json') {
+    let first = true;
+    return {
+      start: () => writeText(out, '['),
+      writeRows: rows => {
+        const text = rows.map(cells => {
+          const record: Record<string, ExportCell> = {};
+          source.columns.forEach((column, i) => { record[column.key] = cells[i]; });
+          const json = (first ? '\n' : ',\n') + JSON.stringify(record);
+          first = false;
+          return json;
+        }).join('');
+        return writeText(out, text);
+      },
+      finish: () => writeText(out, first ? ']' : '\n]'),
+    };
+  }
+
+  return {
+    start: () => writeText(out, toCsvLine(headers)),
+    writeRows: rows => writeText(out, rows.map(cells => '\n' + toCsvLine(cells)).join('')),
+    finish: async () => {},
+  };
+}
+
+async function streamSource<T>(res: Response, source: ExportSource<T>, format: ExportFileFormat, filename: string): Promise<void> {
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  const writer = createWriter(res, format, source as ExportSource<unknown>);
+  await writer.start();
+  for await (const page of source.pages) {
+    await writer.writeRows(page.map(row => source.columns.map(column => column.value(row) ?? null)));
+  }
+  await writer.finish();
+  res.end();
+}
+
+export function getExportFilename(request: Pick<ExportRequest, 'dataset' | 'format' | 'journalStyle'>, now = new Date()): string {
+  const name = request.dataset === 'journal' ? `journal-${request.journalStyle ?? 'quickbooks'}` : request.dataset;
+  return `margin-${name}-${now.toISOString().split('T')[0]}.${request.format}`;
+}
+
+/**
+ * Stream one dataset to the response. Once headers are sent a failure can
+ * only cut the download short - the caller should destroy the response.
+ */
+export async function sendDataExport(res: Response, userId: number, request: ExportRequest, filename = getExportFilename(request)): Promise<void> {
+  await streamSource(res, getExportSource(userId, request), request.format, filename);
+}
+
+export async function sendPnlExport(res: Response, userId: number, filename: string): Promise<void> {
+  await streamSource(res, {
+    sheetName: 'P&L',
+    columns: pnlColumns,
+    pages: mapPages(inventoryPages(userId, []), rows => rows.map(getItemMoney)),
+  }, 'csv', filename);
+}
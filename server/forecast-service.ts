@@ -0,0 +1,74 @@
+/**
+ * Cash-Flow Forecast Service
+ *
+ * Loads what the forecast in @shared/cashFlowForecast needs: in-stock items,
+ * this month's buys, weekly sell-through per category (last 12 weeks, from
+ * the analytics service) and how close sale prices land to estimatedResale.
+ */
+
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import { inventoryItems } from "@shared/schema";
+import { IN_STOCK_STATUSES, SOLD_STATUSES } from "@shared/inventoryLifecycle";
+import { getRecentPeriods } from "@shared/analytics";
+import {
+  buildCashFlowForecast,
+  getWeeklySellThroughRates,
+  type CashFlowForecast,
+  type RealizationStats,
+} from "@shared/cashFlowForecast";
+import { getAnalyticsSeries } from "./analytics-service";
+
+const SELL_THROUGH_WEEKS = 12;
+const REALIZATION_DAYS = 365;
+
+/**
+ * actualSalePrice ÷ estimatedResale over the past year's sales. Ratios
+ * outside 0.1-5 are typos or mis-estimates and are left out.
+ */
+async function getRealizationStats(userId: number): Promise<RealizationStats | null> {
+  const statuses = sql.join(SOLD_STATUSES.map(status => sql`${status}`), sql`, `);
+  const result = await db.execute(sql`
+    WITH ratios AS (
+      SELECT actual_sale_price::numeric / estimated_resale::numeric AS ratio
+      FROM inventory_items
+      WHERE user_id = ${userId}
+        AND status IN (${statuses})
+        AND sold_date >= NOW() - (${REALIZATION_DAYS} * INTERVAL '1 day')
+        AND estimated_resale::numeric > 0
+        AND actual_sale_price::numeric > 0
+    )
+    SELECT AVG(ratio) AS mean, COALESCE(STDDEV_SAMP(ratio), 0) AS sd, COUNT(*)::int AS count
+    FROM ratios
+    WHERE ratio BETWEEN 0.1 AND 5
+  `);
+  const row = result.rows[0] as { mean: string | null; sd: string | number; count: number } | undefined;
+  if (!row || row.mean === null) return null;
+  return { mean: Number(row.mean), sd: Number(row.sd), count: Number(row.count) };
+}
+
+export async function getCashFlowForecast(userId: number, now = new Date()): Promise<CashFlowForecast> {
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const [items, monthItems, series, realization] = await Promise.all([
+    db.select().from(inventoryItems)
+      .where(and(eq(inventoryItems.userId, userId), inArray(inventoryItems.status, IN_STOCK_STATUSES))),
+    db.select().from(inventoryItems)
+      .where(and(eq(inventoryItems.userId, userId), gte(inventoryItems.purchaseDate, monthStart))),
+    getAnalyticsSeries(userId, {
+      interval: 'week',
+      periods: getRecentPeriods('week', SELL_THROUGH_WEEKS, now),
+      slice: 'category',
+      limit: 100, // every category keeps its own rate
+    }),
+    getRealizationStats(userId),
+  ]);
+
+  return buildCashFlowForecast({
+    items,
+    monthItems,
+    sellThrough: getWeeklySellThroughRates(series.series),
+    realization,
+    now,
+  });
+}
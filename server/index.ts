@@ -19,6 +19,9 @@ import { runCardImageSeeder } from './card-image-seeder';
 import { runSerpApiWatchSeeder as runWatchImageSeeder } from './serpapi-watch-seeder';
 import { preWarmOpenAIClient } from './visual-matching';
 import { startPriceAlertChecker } from './price-alert-checker';
+import { startAgingInventoryJob } from './aging-inventory-job';
+import { startBatchJobQueue } from './batch-queue';
+import { startAuctionReminderJob } from './auction-reminder-job';
 
 // Global error handlers for production stability
 process.on('unhandledRejection', (reason, promise) => {
@@ -208,6 +211,12 @@ app.use((req, res, next) => {
       startEmailScheduler();
       // Start price alert background checker
       startPriceAlertChecker();
+      // Start daily aging inventory check (stale listings → markdown recommendations)
+      startAgingInventoryJob();
+      // Start batch scan job queue (resumes batches left mid-flight)
+      startBatchJobQueue();
+      // Start snipe planner reminders (watched auctions about to end)
+      startAuctionReminderJob();
       
       // Auto-seed visual matching libraries on startup
       // Priority: Trading Cards > Watches > Electronics (user-selected high-value categories)
@@ -2,7 +2,7 @@
  * Mercari Sold Comps Provider - Bulletproof Architecture
  * 
  * Features:
- * ✔ 24-hour caching layer (reduces server load)
+ * ✔ 24-hour shared caching layer (server/cache-service.ts, stale-while-revalidate)
  * ✔ Rotating user-agents (appears as normal browser traffic)
  * ✔ Request throttle (1-2 req/sec max)
  * ✔ Error-tolerant parsing (won't crash if Mercari changes fields)
@@ -12,10 +12,14 @@
  * Strategy: Scrape Mercari's search results page for sold items
  */
 
+import { cache, cacheKeys } from './cache-service';
+import { fixtureFetch } from './api-fixtures';
+
 const MERCARI_BASE_URL = 'https://www.mercari.com';
 
 // Cache configuration
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const CACHE_NAMESPACE = 'mercari';
 const MIN_REQUEST_INTERVAL_MS = 600; // ~1.5 req/sec max
 const REQUEST_TIMEOUT_MS = 8000;
 
@@ -31,17 +35,6 @@ const USER_AGENTS = [
 let lastRequestTime = 0;
 let userAgentIndex = 0;
 
-// In-memory cache with 24-hour TTL
-interface CacheEntry {
-  items: MercariSoldItem[];
-  timestamp: number;
-  success: boolean;
-}
-const compsCache = new Map<string, CacheEntry>();
-
-// Last known good results (fallback when everything fails)
-const lastKnownGoodResults = new Map<string, MercariSoldItem[]>();
-
 export interface MercariSoldItem {
   id: string;
   title: string;
@@ -76,21 +69,6 @@ async function throttle(): Promise<void> {
   lastRequestTime = Date.now();
 }
 
-function getCacheKey(keyword: string, options?: { minPrice?: number; maxPrice?: number }): string {
-  return `${keyword.toLowerCase().trim()}|${options?.minPrice || ''}|${options?.maxPrice || ''}`;
-}
-
-function cleanExpiredCache(): void {
-  const now = Date.now();
-  const keysToDelete: string[] = [];
-  compsCache.forEach((entry, key) => {
-    if (now - entry.timestamp > CACHE_TTL_MS) {
-      keysToDelete.push(key);
-    }
-  });
-  keysToDelete.forEach(key => compsCache.delete(key));
-}
-
 /**
  * Parse sold items from Mercari search HTML
  * Error-tolerant: won't crash if structure changes
@@ -173,60 +151,40 @@ function parseSearchResults(html: string): MercariSoldItem[] {
 }
 
 /**
- * Search Mercari for sold items with full protection
+ * Fetch one page of sold items from Mercari (no caching)
+ * Throws on HTTP errors, timeouts and empty results so they are never cached.
  */
-export async function searchMercariSoldItems(
+async function fetchMercariSoldPage(
   keyword: string,
-  options: {
-    limit?: number;
-    minPrice?: number;
-    maxPrice?: number;
-  } = {}
-): Promise<MercariSearchResult> {
+  options: { minPrice?: number; maxPrice?: number }
+): Promise<MercariSoldItem[]> {
   const startTime = Date.now();
-  const cacheKey = getCacheKey(keyword, options);
   
-  // Clean expired cache entries
-  cleanExpiredCache();
+  // Throttle requests
+  await throttle();
   
-  // Check cache first (24-hour TTL)
-  const cached = compsCache.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    console.log(`[Mercari] Cache hit for: "${keyword}" (${cached.items.length} items)`);
-    return {
-      success: true,
-      items: cached.items.slice(0, options.limit || 30),
-      totalResults: cached.items.length,
-      source: 'cache',
-      responseTimeMs: Date.now() - startTime,
-    };
+  // Build search URL for sold items
+  const params = new URLSearchParams({
+    keyword: keyword,
+    itemStatuses: 'sold_out', // Filter to sold items only
+    sortBy: 'SORT_BY_UPDATED_TIME',
+  });
+  
+  if (options.minPrice) {
+    params.append('minPrice', String(options.minPrice));
+  }
+  if (options.maxPrice) {
+    params.append('maxPrice', String(options.maxPrice));
   }
+
+  const url = `${MERCARI_BASE_URL}/search/?${params.toString()}`;
+  console.log(`[Mercari] Fetching: "${keyword}" (sold items)`);
+  
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
   
   try {
-    // Throttle requests
-    await throttle();
-    
-    // Build search URL for sold items
-    const params = new URLSearchParams({
-      keyword: keyword,
-      itemStatuses: 'sold_out', // Filter to sold items only
-      sortBy: 'SORT_BY_UPDATED_TIME',
-    });
-    
-    if (options.minPrice) {
-      params.append('minPrice', String(options.minPrice));
-    }
-    if (options.maxPrice) {
-      params.append('maxPrice', String(options.maxPrice));
-    }
-
-    const url = `${MERCARI_BASE_URL}/search/?${params.toString()}`;
-    console.log(`[Mercari] Fetching: "${keyword}" (sold items)`);
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-    
-    const response = await fetch(url, {
+    const response = await fixtureFetch('mercari', url, {
       method: 'GET',
       headers: {
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
@@ -240,33 +198,54 @@ export async function searchMercariSoldItems(
       signal: controller.signal,
     });
     
-    clearTimeout(timeoutId);
-    
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`);
     }
     
     const html = await response.text();
     const items = parseSearchResults(html);
+    console.log(`[Mercari] Found ${items.length} sold items for "${keyword}" in ${Date.now() - startTime}ms`);
     
-    // Cache the results
-    if (items.length > 0) {
-      compsCache.set(cacheKey, {
-        items,
-        timestamp: Date.now(),
-        success: true,
-      });
-      // Also save as last known good
-      lastKnownGoodResults.set(cacheKey, items);
+    if (items.length === 0) {
+      throw new Error('No sold items found');
     }
+    return items;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Search Mercari for sold items with full protection
+ */
+export async function searchMercariSoldItems(
+  keyword: string,
+  options: {
+    limit?: number;
+    minPrice?: number;
+    maxPrice?: number;
+  } = {}
+): Promise<MercariSearchResult> {
+  const startTime = Date.now();
+  const cacheKey = cacheKeys.mercariSold(keyword, options.minPrice, options.maxPrice);
+  
+  try {
+    // Shared cache first (24-hour TTL, stale entries refreshed in the background)
+    const { data: items, source } = await cache.getOrFetch(
+      cacheKey,
+      () => fetchMercariSoldPage(keyword, options),
+      { ttlMs: CACHE_TTL_MS }
+    );
     
-    console.log(`[Mercari] Found ${items.length} sold items for "${keyword}" in ${Date.now() - startTime}ms`);
+    if (source !== 'fresh') {
+      console.log(`[Mercari] Cache ${source === 'stale' ? 'stale hit (revalidating)' : 'hit'} for: "${keyword}" (${items.length} items)`);
+    }
     
     return {
-      success: items.length > 0,
+      success: true,
       items: items.slice(0, options.limit || 30),
       totalResults: items.length,
-      source: 'live',
+      source: source === 'fresh' ? 'live' : 'cache',
       responseTimeMs: Date.now() - startTime,
     };
     
@@ -278,13 +257,13 @@ export async function searchMercariSoldItems(
     console.error(`[Mercari] Fetch failed (soft fail):`, errorMessage);
     
     // SOFT FAIL: Return last known good results if available
-    const lastKnown = lastKnownGoodResults.get(cacheKey);
-    if (lastKnown && lastKnown.length > 0) {
-      console.log(`[Mercari] Returning ${lastKnown.length} cached fallback items`);
+    const lastKnown = await cache.getStale<MercariSoldItem[]>(cacheKey);
+    if (lastKnown && lastKnown.data.length > 0) {
+      console.log(`[Mercari] Returning ${lastKnown.data.length} cached fallback items`);
       return {
         success: true,
-        items: lastKnown.slice(0, options.limit || 30),
-        totalResults: lastKnown.length,
+        items: lastKnown.data.slice(0, options.limit || 30),
+        totalResults: lastKnown.data.length,
         source: 'fallback',
         responseTimeMs: Date.now() - startTime,
       };
@@ -313,6 +292,7 @@ export async function testMercariConnection(): Promise<{
 }> {
   try {
     const result = await searchMercariSoldItems('nike shoes', { limit: 5 });
+    const stats = await cache.getStats(CACHE_NAMESPACE);
     
     return {
       success: result.success,
@@ -321,7 +301,7 @@ export async function testMercariConnection(): Promise<{
         : `Mercari returned no results: ${result.error || 'unknown'}`,
       sampleData: result.items[0],
       cacheStats: {
-        size: compsCache.size,
+        size: stats.totalEntries,
         ttlHours: CACHE_TTL_MS / (60 * 60 * 1000),
       },
     };
@@ -336,32 +316,24 @@ export async function testMercariConnection(): Promise<{
 /**
  * Get cache statistics
  */
-export function getMercariCacheStats(): { 
+export async function getMercariCacheStats(): Promise<{ 
   entries: number; 
-  totalItems: number;
-  oldestEntry?: Date;
-} {
-  let totalItems = 0;
-  let oldestTimestamp = Date.now();
-  
-  compsCache.forEach(entry => {
-    totalItems += entry.items.length;
-    if (entry.timestamp < oldestTimestamp) {
-      oldestTimestamp = entry.timestamp;
-    }
-  });
+  freshEntries: number;
+  hitRate: string;
+}> {
+  const stats = await cache.getStats(CACHE_NAMESPACE);
   
   return {
-    entries: compsCache.size,
-    totalItems,
-    oldestEntry: compsCache.size > 0 ? new Date(oldestTimestamp) : undefined,
+    entries: stats.totalEntries,
+    freshEntries: stats.freshEntries,
+    hitRate: stats.namespaces[CACHE_NAMESPACE]?.hitRate ?? '0%',
   };
 }
 
 /**
  * Clear Mercari cache
  */
-export function clearMercariCache(): void {
-  compsCache.clear();
+export async function clearMercariCache(): Promise<void> {
+  await cache.clear(CACHE_NAMESPACE);
   console.log('[Mercari] Cache cleared');
 }
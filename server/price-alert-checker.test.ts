@@ -0,0 +1,95 @@
+/**
+ * Price Alert Checker Tests
+ */
+
+import { DEFAULT_DECISION_PROFILE } from '@shared/decisionEngine';
+import type { PriceAlert } from '@shared/schema';
+import type { EbayListingSummary } from './ebay-api';
+
+// Just enough of the drizzle builder for checkSavedSearch
+const state = vi.hoisted(() => ({ seen: [] as { ebayItemId: string }[], inserted: [] as Record<string, unknown>[] }));
+const db = vi.hoisted(() => ({
+  update: vi.fn(() => ({ set: () => ({ where: () => Promise.resolve() }) })),
+  select: vi.fn(() => ({ from: () => ({ where: () => Promise.resolve(state.seen) }) })),
+  insert: vi.fn(() => ({
+    values: (row: Record<string, unknown>) => {
+      state.inserted.push(row);
+      return { onConflictDoNothing: () => ({ returning: () => Promise.resolve([{ id: state.inserted.length }]) }) };
+    },
+  })),
+}));
+const storage = vi.hoisted(() => ({ getActiveDecisionProfile: vi.fn() }));
+const searchNewListings = vi.hoisted(() => vi.fn());
+const fetchMergedComps = vi.hoisted(() => vi.fn());
+const notifySavedSearchDeals = vi.hoisted(() => vi.fn());
+const sendToUser = vi.hoisted(() => vi.fn());
+
+vi.mock('./db', () => ({ db }));
+vi.mock('./storage', () => ({ storage }));
+vi.mock('./ebay-api', () => ({ searchNewListings }));
+vi.mock('./comp-providers', () => ({ fetchMergedComps }));
+vi.mock('./push-service', () => ({ notifyPriceAlert: vi.fn(), notifySavedSearchDeals }));
+vi.mock('./websocket', () => ({ sendToUser }));
+
+import { checkSavedSearch } from './price-alert-checker';
+
+const alert = { id: 3, userId: 1, category: 'Watches', maxBuyPrice: '100', minMarginPercent: null, condition: 'any' } as PriceAlert;
+
+const listing = (itemId: string, price: number): EbayListingSummary => ({
+  itemId,
+  title: `Seiko SKX007 ${itemId}`,
+  price,
+  shippingIn: 0,
+  condition: 'Used',
+  url: `https://www.ebay.com/itm/${itemId}`,
+});
+
+const comps = (medianPrice: number | null, soldCount: number) => ({
+  medianPrice,
+  sources: [{ id: 'ebay_finding', priceKind: 'sold', compCount: soldCount }],
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  state.seen = [];
+  state.inserted = [];
+  storage.getActiveDecisionProfile.mockResolvedValue(DEFAULT_DECISION_PROFILE);
+});
+
+describe('Price alert checker saved searches', () => {
+  it('should record every decided listing and notify once for the flips', async () => {
+    searchNewListings.mockResolvedValue([listing('111111111111', 60), listing('222222222222', 180)]);
+    fetchMergedComps.mockResolvedValue(comps(200, 10));
+
+    await checkSavedSearch(alert, 'seiko skx007');
+
+    expect(state.inserted.map(row => [row.ebayItemId, row.verdict, row.notifiedAt !== null])).toEqual([
+      ['111111111111', 'flip', true],
+      ['222222222222', 'skip', false],
+    ]);
+    expect(notifySavedSearchDeals).toHaveBeenCalledTimes(1);
+    expect(notifySavedSearchDeals).toHaveBeenCalledWith(1, 'seiko skx007', 1, expect.stringContaining('111111111111'), 60, expect.any(Number));
+    expect(sendToUser).toHaveBeenCalledWith(1, expect.objectContaining({ type: 'saved_search', alertId: 3 }));
+  });
+
+  it('should skip listings it has already decided', async () => {
+    searchNewListings.mockResolvedValue([listing('111111111111', 60)]);
+    state.seen = [{ ebayItemId: '111111111111' }];
+
+    await checkSavedSearch(alert, 'seiko skx007');
+
+    expect(fetchMergedComps).not.toHaveBeenCalled();
+    expect(state.inserted).toEqual([]);
+    expect(db.update).toHaveBeenCalled(); // lastChecked still moves
+  });
+
+  it('should leave a listing unrecorded when its comps fail so it is retried', async () => {
+    searchNewListings.mockResolvedValue([listing('111111111111', 60)]);
+    fetchMergedComps.mockRejectedValue(new Error('eBay down'));
+
+    await checkSavedSearch(alert, 'seiko skx007');
+
+    expect(state.inserted).toEqual([]);
+    expect(notifySavedSearchDeals).not.toHaveBeenCalled();
+  });
+});
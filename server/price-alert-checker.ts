@@ -1,10 +1,31 @@
+/**
+ * Price Alert Checker
+ *
+ * Every 30 minutes, works through active alerts (least recently checked
+ * first, round-robin across users). Two kinds:
+ * - Item alerts re-check one eBay listing and fire once when its price
+ *   drops to the user's max buy
+ * - Saved searches (searchQuery set) pull the newest listings for the query,
+ *   price each one through the comp providers and decide it with the user's
+ *   decision profile - see @shared/savedSearch. Every decided listing is
+ *   recorded in priceAlertListings so it's never checked or notified twice,
+ *   and the search stays active
+ */
+
 import { db } from './db';
-import { priceAlerts } from '@shared/schema';
-import { eq, and, asc } from 'drizzle-orm';
-import { notifyPriceAlert } from './push-service';
+import { storage } from './storage';
+import { priceAlerts, priceAlertListings, type PriceAlert } from '@shared/schema';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { decideSavedSearchListing, type SavedSearchComps } from '@shared/savedSearch';
+import { notifyPriceAlert, notifySavedSearchDeals } from './push-service';
+import { sendToUser } from './websocket';
+import { searchNewListings } from './ebay-api';
+import { fetchMergedComps } from './comp-providers';
 
 const CHECK_INTERVAL_MS = 30 * 60 * 1000; // Check every 30 minutes
-const BATCH_SIZE = 20; // Process 20 alerts per cycle, ordered by lastChecked
+const BATCH_SIZE = 20; // Process 20 alerts per cycle, ordered by lastChecked within each user
+const SEARCH_RESULTS_LIMIT = 30; // newest listings pulled per saved search
+const MAX_NEW_LISTINGS_PER_SEARCH = 5; // comp lookups per saved search per cycle; the rest wait
 
 interface EbayItemPrice {
   itemId: string;
@@ -94,6 +115,169 @@ async function fetchEbayPrice(ebayItemId: string, accessToken: string): Promise<
   }
 }
 
+async function checkItemAlert(alert: PriceAlert, accessToken: string): Promise<void> {
+  if (!alert.ebayItemId) {
+    // Mark as checked even without eBay ID
+    await db
+      .update(priceAlerts)
+      .set({ lastChecked: new Date() })
+      .where(eq(priceAlerts.id, alert.id));
+    return;
+  }
+
+  const priceData = await fetchEbayPrice(alert.ebayItemId, accessToken);
+  
+  // Always update lastChecked to ensure rotation even on failures
+  if (!priceData) {
+    await db
+      .update(priceAlerts)
+      .set({ lastChecked: new Date() })
+      .where(eq(priceAlerts.id, alert.id));
+    return;
+  }
+
+  // Update the alert with current price
+  await db
+    .update(priceAlerts)
+    .set({
+      currentPrice: priceData.currentPrice.toString(),
+      lastChecked: new Date(),
+      isActive: priceData.available,
+    })
+    .where(eq(priceAlerts.id, alert.id));
+
+  // Check if price dropped below threshold
+  const maxBuyPrice = alert.maxBuyPrice ? parseFloat(alert.maxBuyPrice) : null;
+  
+  if (maxBuyPrice && priceData.currentPrice <= maxBuyPrice && priceData.available) {
+    console.log(`[PriceAlert] Price drop detected for "${alert.title}": $${priceData.currentPrice} <= $${maxBuyPrice}`);
+    
+    // Trigger notification - push, plus any open app via the live channel
+    await notifyPriceAlert(
+      alert.userId,
+      alert.title,
+      priceData.currentPrice,
+      maxBuyPrice
+    );
+    sendToUser(alert.userId, {
+      type: 'price_alert',
+      alertId: alert.id,
+      title: alert.title,
+      price: priceData.currentPrice,
+      maxBuyPrice,
+      ebayItemId: alert.ebayItemId,
+    });
+
+    // Mark alert as triggered
+    await db
+      .update(priceAlerts)
+      .set({
+        alertTriggered: true,
+        alertTriggeredAt: new Date(),
+      })
+      .where(eq(priceAlerts.id, alert.id));
+  }
+}
+
+export async function checkSavedSearch(alert: PriceAlert, searchQuery: string): Promise<void> {
+  const category = alert.category || 'Other';
+  const maxPrice = alert.maxBuyPrice ? parseFloat(alert.maxBuyPrice) : null;
+  const minMarginPercent = alert.minMarginPercent ? parseFloat(alert.minMarginPercent) : null;
+  const condition = alert.condition === 'new' || alert.condition === 'used' ? alert.condition : undefined;
+
+  const listings = await searchNewListings(searchQuery, { category, condition, maxPrice, limit: SEARCH_RESULTS_LIMIT });
+  await db
+    .update(priceAlerts)
+    .set({ lastChecked: new Date() })
+    .where(eq(priceAlerts.id, alert.id));
+  if (!listings || listings.length === 0) return;
+
+  const seen = await db
+    .select({ ebayItemId: priceAlertListings.ebayItemId })
+    .from(priceAlertListings)
+    .where(and(
+      eq(priceAlertListings.alertId, alert.id),
+      inArray(priceAlertListings.ebayItemId, listings.map(l => l.itemId))
+    ));
+  const seenIds = new Set(seen.map(s => s.ebayItemId));
+  const fresh = listings.filter(l => !seenIds.has(l.itemId)).slice(0, MAX_NEW_LISTINGS_PER_SEARCH);
+  if (fresh.length === 0) return;
+
+  const profile = await storage.getActiveDecisionProfile(alert.userId);
+  const deals: Array<{ ebayItemId: string; title: string; price: number; marginPercent: number; url: string | null }> = [];
+
+  for (const listing of fresh) {
+    let comps: SavedSearchComps;
+    try {
+      const merged = await fetchMergedComps({
+        query: listing.title,
+        category,
+        condition: listing.condition,
+        itemTitle: listing.title,
+        imageUrl: listing.imageUrl,
+      });
+      const soldCount = merged.sources.filter(s => s.priceKind === 'sold').reduce((sum, s) => sum + s.compCount, 0);
+      comps = { medianPrice: merged.medianPrice, soldCount };
+    } catch (error) {
+      // Not recorded as seen, so it's retried next cycle
+      console.error(`[PriceAlert] Comps failed for listing ${listing.itemId}:`, error);
+      continue;
+    }
+
+    const { decision, isDeal, reason } = decideSavedSearchListing(
+      listing,
+      { category, maxPrice, minMarginPercent },
+      comps,
+      profile
+    );
+    const [recorded] = await db
+      .insert(priceAlertListings)
+      .values({
+        alertId: alert.id,
+        ebayItemId: listing.itemId,
+        title: listing.title,
+        url: listing.url,
+        imageUrl: listing.imageUrl || null,
+        price: listing.price.toFixed(2),
+        shippingIn: listing.shippingIn.toFixed(2),
+        verdict: decision.verdict,
+        marginPercent: decision.marginPercent.toString(),
+        netProfit: decision._diagnostics ? decision._diagnostics.netProfit.toFixed(2) : null,
+        expectedSalePrice: comps.medianPrice !== null ? comps.medianPrice.toFixed(2) : null,
+        notifiedAt: isDeal ? new Date() : null,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (isDeal && recorded) {
+      console.log(`[PriceAlert] Saved search "${searchQuery}": "${listing.title}" at $${listing.price} - ${reason}`);
+      deals.push({
+        ebayItemId: listing.itemId,
+        title: listing.title,
+        price: listing.price,
+        marginPercent: decision.marginPercent,
+        url: listing.url,
+      });
+    }
+
+    // Small delay between comp lookups to avoid rate limiting
+    await new Promise(resolve => setTimeout(resolve, 300));
+  }
+
+  if (deals.length === 0) return;
+
+  // One push per search per cycle, led by the best margin
+  deals.sort((a, b) => b.marginPercent - a.marginPercent);
+  const [best] = deals;
+  await notifySavedSearchDeals(alert.userId, searchQuery, deals.length, best.title, best.price, best.marginPercent);
+  sendToUser(alert.userId, {
+    type: 'saved_search',
+    alertId: alert.id,
+    searchQuery,
+    deals,
+  });
+}
+
 async function checkPriceAlerts(): Promise<void> {
   console.log('[PriceAlert] Starting price check cycle...');
 
@@ -104,10 +288,16 @@ async function checkPriceAlerts(): Promise<void> {
     return;
   }
 
-  // Get active alerts ordered by lastChecked (null first, then oldest)
-  // This ensures rotation through all alerts across cycles
-  const activeAlerts = await db
-    .select()
+  // Get active alerts ordered by lastChecked (never checked first, then oldest)
+  // This ensures rotation through all alerts across cycles. Fair share: every
+  // user's most overdue alert comes before anyone's second, so one user's
+  // pile of alerts can't fill the batch
+  const overdue = sql`${priceAlerts.lastChecked} asc nulls first`;
+  const ranked = db
+    .select({
+      id: priceAlerts.id,
+      userRank: sql<number>`row_number() over (partition by ${priceAlerts.userId} order by ${overdue})`.as('user_rank'),
+    })
     .from(priceAlerts)
     .where(
       and(
@@ -115,8 +305,14 @@ async function checkPriceAlerts(): Promise<void> {
         eq(priceAlerts.alertTriggered, false)
       )
     )
-    .orderBy(asc(priceAlerts.lastChecked))
-    .limit(BATCH_SIZE);
+    .as('ranked');
+  const activeAlerts = (await db
+    .select({ alert: priceAlerts })
+    .from(priceAlerts)
+    .innerJoin(ranked, eq(ranked.id, priceAlerts.id))
+    .orderBy(ranked.userRank, overdue)
+    .limit(BATCH_SIZE))
+    .map(row => row.alert);
 
   if (activeAlerts.length === 0) {
     console.log('[PriceAlert] No active alerts to check');
@@ -126,58 +322,14 @@ async function checkPriceAlerts(): Promise<void> {
   console.log(`[PriceAlert] Checking ${activeAlerts.length} alerts...`);
 
   for (const alert of activeAlerts) {
-    if (!alert.ebayItemId) {
-      // Mark as checked even without eBay ID
-      await db
-        .update(priceAlerts)
-        .set({ lastChecked: new Date() })
-        .where(eq(priceAlerts.id, alert.id));
-      continue;
-    }
-
-    const priceData = await fetchEbayPrice(alert.ebayItemId, accessToken);
-    
-    // Always update lastChecked to ensure rotation even on failures
-    if (!priceData) {
-      await db
-        .update(priceAlerts)
-        .set({ lastChecked: new Date() })
-        .where(eq(priceAlerts.id, alert.id));
-      continue;
-    }
-
-    // Update the alert with current price
-    await db
-      .update(priceAlerts)
-      .set({
-        currentPrice: priceData.currentPrice.toString(),
-        lastChecked: new Date(),
-        isActive: priceData.available,
-      })
-      .where(eq(priceAlerts.id, alert.id));
-
-    // Check if price dropped below threshold
-    const maxBuyPrice = alert.maxBuyPrice ? parseFloat(alert.maxBuyPrice) : null;
-    
-    if (maxBuyPrice && priceData.currentPrice <= maxBuyPrice && priceData.available) {
-      console.log(`[PriceAlert] Price drop detected for "${alert.title}": $${priceData.currentPrice} <= $${maxBuyPrice}`);
-      
-      // Trigger notification
-      await notifyPriceAlert(
-        alert.userId,
-        alert.title,
-        priceData.currentPrice,
-        maxBuyPrice
-      );
-
-      // Mark alert as triggered
-      await db
-        .update(priceAlerts)
-        .set({
-          alertTriggered: true,
-          alertTriggeredAt: new Date(),
-        })
-        .where(eq(priceAlerts.id, alert.id));
+    try {
+      if (alert.searchQuery) {
+        await checkSavedSearch(alert, alert.searchQuery);
+      } else {
+        await checkItemAlert(alert, accessToken);
+      }
+    } catch (error) {
+      console.error(`[PriceAlert] Check failed for alert ${alert.id}:`, error);
     }
 
     // Small delay between API calls to avoid rate limiting
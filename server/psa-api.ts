@@ -8,6 +8,8 @@
  * Swagger: https://api.psacard.com/publicapi/swagger
  */
 
+import { fixtureFetch } from './api-fixtures';
+
 const PSA_API_BASE = 'https://api.psacard.com/publicapi';
 
 export interface PSACertData {
@@ -109,7 +111,7 @@ export async function lookupPSACert(certNumber: string): Promise<PSALookupResult
   try {
     requestCount++;
     
-    const response = await fetch(`${PSA_API_BASE}/cert/GetByCertNumber/${cleanCertNumber}`, {
+    const response = await fixtureFetch('psa', `${PSA_API_BASE}/cert/GetByCertNumber/${cleanCertNumber}`, {
       method: 'GET',
       headers: {
         'Authorization': `bearer ${token}`,
@@ -128,6 +128,24 @@ export async function notifyPriceAlert(
   });
 }
 
+export async function notifySavedSearchDeals(
+  userId: number,
+  searchQuery: string,
+  dealCount: number,
+  bestTitle: string,
+  bestPrice: number,
+  bestMarginPercent: number
+): Promise<void> {
+  await sendPushToUser(userId, {
+    title: dealCount === 1 ? `New flip for "${searchQuery}"` : `${dealCount} new flips for "${searchQuery}"`,
+    body: `${bestTitle} - $${bestPrice.toFixed(2)}, ${bestMarginPercent}% margin`,
+    tag: 'saved-search',
+    data: {
+      url: '/stats',
+    },
+  });
+}
+
 export async function notifyScanComplete(
   userId: number,
   verdict: 'flip' | 'skip',
@@ -148,3 +166,62 @@ export async function notifyScanComplete(
     },
   });
 }
+
+export async function notifyAgingInventory(
+  userId: number,
+  staleCount: number,
+  topItemName: string
+): Promise<void> {
+  const body = staleCount === 1
+    ? `${topItemName} has been listed longer than usual - see what to do with it`
+    : `${topItemName} and ${staleCount - 1} more listed items are going stale`;
+
+  await sendPushToUser(userId, {
+    title: 'Aging Inventory',
+    body,
+    tag: 'aging-inventory',
+    data: {
+      url: '/inventory?status=aging',
+    },
+  });
+}
+
+export async function notifyBatchComplete(
+  userId: number,
+  scannedCount: number,
+  flipCount: number,
+  failedCount: number
+): Promise<void> {
+  const flips = flipCount === 1 ? '1 flip' : `${flipCount} flips`;
+  const failed = failedCount > 0 ? ` (${failedCount} couldn't be scanned)` : '';
+
+  await sendPushToUser(userId, {
+    title: 'Batch Scan Finished',
+    body: `${flips} out of ${scannedCount} items${failed}`,
+    tag: 'batch-complete',
+    data: {
+      url: '/batch',
+    },
+  });
+}
+
+export async function notifyAuctionEnding(
+  userId: number,
+  itemName: string,
+  minutesLeft: number,
+  currentBid: number,
+  maxBid: number | null // null once no valid bid clears the margin target
+): Promise<void> {
+  const plan = maxBid !== null
+    ? `now $${currentBid.toFixed(2)}, bid up to $${maxBid.toFixed(2)}`
+    : `now $${currentBid.toFixed(2)} - past your max bid`;
+
+  await sendPushToUser(userId, {
+    title: `Auction ends in ${minutesLeft} min`,
+    body: `${itemName}: ${plan}`,
+    tag: 'auction-ending',
+    data: {
+      url: '/snipe',
+    },
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Receipt OCR Providers
+ *
+ * Reads merchant, date, subtotal, tax, total and line items off a receipt
+ * image. Providers are pluggable; routes only call extractReceipt().
+ *
+ * PROVIDER SELECTION (RECEIPT_OCR_PROVIDER):
+ * - unset: first configured provider in registration order
+ * - "<id>": that provider only (e.g. "stub" for local dev and tests)
+ *
+ * STUB: returns RECEIPT_OCR_STUB_FILE (a JSON ReceiptExtraction) when set,
+ * otherwise a built-in estate sale receipt - no network, no keys.
+ *
+ * Output always goes through normalizeReceiptExtraction() so routes get the
+ * same shape whatever the provider sent back.
+ */
+
+import OpenAI from 'openai';
+import { readFileSync } from 'fs';
+import { normalizeReceiptExtraction, type ReceiptExtraction } from '@shared/receipts';
+
+export interface ReceiptImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ReceiptOcrProvider {
+  id: string;
+  label: string;
+  isConfigured(): boolean;
+  extract(image: ReceiptImage): Promise<unknown>; // raw provider output, normalized by the caller
+}
+
+export class ReceiptOcrUnavailableError extends Error {
+  constructor(message = 'Receipt scanning is not configured') {
+    super(message);
+    this.name = 'ReceiptOcrUnavailableError';
+  }
+}
+
+const providers: ReceiptOcrProvider[] = [];
+
+/**
+ * Register an OCR provider. Re-registering an id replaces the old provider in place.
+ */
+export function registerReceiptOcrProvider(provider: ReceiptOcrProvider): void {
+  const existing = providers.findIndex(p => p.id === provider.id);
+  if (existing >= 0) {
+    providers[existing] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
+
+export function getReceiptOcrProvider(): ReceiptOcrProvider | null {
+  const requested = (process.env.RECEIPT_OCR_PROVIDER || '').toLowerCase();
+  if (requested) {
+    return providers.find(p => p.id === requested) ?? null;
+  }
+  return providers.find(p => p.isConfigured()) ?? null;
+}
+
+export async function extractReceipt(image: ReceiptImage): Promise<{ provider: string; extraction: ReceiptExtraction }> {
+  const provider = getReceiptOcrProvider();
+  if (!provider || !provider.isConfigured()) {
+    throw new ReceiptOcrUnavailableError();
+  }
+  const raw = await provider.extract(image);
+  return { provider: provider.id, extraction: normalizeReceiptExtraction(raw) };
+}
+
+// ============ OPENAI VISION ============
+
+const RECEIPT_PROMPT = `Read this store receipt and return JSON only, in this shape:
+{"merchant": string|null, "date": "YYYY-MM-DD"|null, "subtotal": number|null, "tax": number|null, "total": number|null,
+ "lineItems": [{"description": string, "quantity": number, "amount": number}]}
+- amount is the line total before tax (quantity x unit price); discounts are negative lines
+- Copy item descriptions as printed, expanding obvious abbreviations
+- Use null for anything you cannot read; never guess totals`;
+
+let _openaiClient: OpenAI | null = null;
+function getOpenAIClient(): OpenAI {
+  if (!_openaiClient) {
+    _openaiClient = new OpenAI({
+      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    });
+  }
+  return _openaiClient;
+}
+
+registerReceiptOcrProvider({
+  id: 'openai',
+  label: 'OpenAI Vision',
+  isConfigured: () => !!(process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY),
+  async extract(image) {
+    const dataUrl = `data:${image.contentType};base64,${image.data.toString('base64')}`;
+    const response = await getOpenAIClient().chat.completions.create({
+      model: 'gpt-4o',
+      response_format: { type: 'json_object' },
+      max_tokens: 4000,
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: RECEIPT_PROMPT },
+          { type: 'image_url', image_url: { url: dataUrl, detail: 'high' } },
+        ],
+      }],
+    });
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('[ReceiptOCR] Empty response from vision model');
+    }
+    return JSON.parse(content);
+  },
+});
+
+// ============ STUB (local dev / tests) ============
+
+const STUB_RECEIPT: ReceiptExtraction = {
+  merchant: 'Maple Street Estate Sale',
+  date: new Date().toISOString().split('T')[0],
+  subtotal: 62,
+  tax: 4.34,
+  total: 66.34,
+  lineItems: [
+    { description: 'Pyrex mixing bowl', quantity: 1, amount: 12 },
+    { description: 'Vintage camera', quantity: 1, amount: 25 },
+    { description: 'Paperback books', quantity: 5, amount: 10 },
+    { description: 'Brass candlesticks', quantity: 1, amount: 15 },
+  ],
+};
+
+registerReceiptOcrProvider({
+  id: 'stub',
+  label: 'Stub',
+  isConfigured: () => (process.env.RECEIPT_OCR_PROVIDER || '').toLowerCase() === 'stub',
+  async extract() {
+    const file = process.env.RECEIPT_OCR_STUB_FILE;
+    return file ? JSON.parse(readFileSync(file, 'utf-8')) : STUB_RECEIPT;
+  },
+});
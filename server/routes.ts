@@ -5,14 +5,14 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, hashPassword, comparePasswords } from "./auth";
 import { api } from "@shared/routes";
-import { setupWebSocket } from "./websocket";
+import { setupWebSocket, publishScanStage } from "./websocket";
 import { PLATFORM_FEE_RATE, OUTBOUND_SHIPPING_DEFAULT, parseShipping } from "@shared/calculations";
-import { getCategoryFeeRate, getCategoryFeeMultiplier, getShippingAllowance } from "@shared/pricingEngine";
+import { getCategoryFeeRate, getCategoryFeeMultiplier, getShippingAllowance, getTargetProfit, MIN_MARGIN_PERCENT } from "@shared/pricingEngine";
 import { z } from "zod";
 import { db } from "./db";
-import { users, items, mysteryFlips, mysteryFlipVotes, priceAlerts, brands, brandItems, shopProducts, shopOrders, gamingFamilies, gamingImages, antiqueFamilies, antiqueImages, electronicsFamilies, electronicsImages, toyFamilies, toyImages, userCorrections, watchFamilies as watchFamiliesTable, userAchievements, userStats, profitGoals, AchievementType, pushSubscriptions } from "@shared/schema";
+import { users, items, mysteryFlips, mysteryFlipVotes, priceAlerts, brands, brandItems, shopProducts, shopOrders, gamingFamilies, gamingImages, antiqueFamilies, antiqueImages, electronicsFamilies, electronicsImages, toyFamilies, toyImages, userCorrections, watchFamilies as watchFamiliesTable, userAchievements, userStats, profitGoals, AchievementType, pushSubscriptions, extensionTokens, auctionWatches, priceAlertListings, MAX_BATCH_ITEMS, MAX_BATCH_PHOTOS, type SubscriptionTier } from "@shared/schema";
 import { saveSubscription, removeSubscription, getVapidPublicKey, isPushEnabled } from "./push-service";
-import { eq, and, sql, desc } from "drizzle-orm";
+import { eq, and, sql, desc, isNotNull } from "drizzle-orm";
 import OpenAI from "openai";
 import type { SoldComp, CompsResult } from "@shared/schema";
 import { cache, cacheKeys } from "./cache-service";
@@ -23,16 +23,16 @@ import { logCompsRequest } from "./comps-logger";
 import { parseCardTitle, getParallelsForCard, isSportsCardCategory } from "@shared/cardParallels";
 import { getUncachableStripeClient, getStripePublishableKey } from "./stripeClient";
 import { 
-  fetchCompsWithFallback,
-  fetchCompsByCondition,
   getApiStatus as getEbayApiStatus,
   buildEbaySearchUrl,
-  // fetchBrowseAPIWithSignals - REMOVED: Browse API uses active listings, not sold data
+  fetchBrowseAPIWithSignals, // active listing COUNT for liquidity only - never used for pricing
   getAccessToken as getEbayOAuthToken,
-  fetchItemById
+  fetchItemById,
+  classifyCondition,
+  type EbayItemDetails
 } from "./ebay-api";
+import { fetchCompsWithFallback, fetchCompsByCondition } from "./scan-comps";
 import {
-  getChrono24WatchPricing,
   buildChrono24SearchUrl,
   extractWatchBrand,
   isChrono24Configured
@@ -44,11 +44,38 @@ import {
   analyzeCardFull as ximilarFullAnalysis
 } from "./ximilar-api";
 import { soldListingsProvider, type UserSelectableListing } from "./sold-listings-provider";
+import { fetchMergedComps, calculateCompStats, getCompProviders, getPlatformPriceInputs } from "./comp-providers";
+import { runAgingCheckForUser } from "./aging-inventory-job";
+import { setBatchJobProcessor, wakeBatchQueue, type BatchJobResult } from "./batch-queue";
+import { setAuctionAnalyzer, toAuctionListing, toAuctionBaseline, getUserBidSettings, planAuctionBid, generateExtensionToken, authenticateExtensionToken, type AuctionBaseline, type AuctionListing } from "./auction-advisor";
+import type { SnipePlanResponse } from "@shared/snipePlanner";
+import { MAX_SAVED_SEARCHES } from "@shared/savedSearch";
+import { renderScheduleCCsv, renderScheduleCHtml, TAX_DISCLAIMER } from "./tax-package";
+import { sendDataExport, sendPnlExport } from "./export-service";
+import { getAnalyticsSeries, getSalesBreakdown, getSourcingScorecards } from "./analytics-service";
+import { getCashFlowForecast } from "./forecast-service";
+import { getAnalyticsPeriods, getRecentPeriods } from "@shared/analytics";
 import { 
   calculateDecision,
+  getProfileFeeRate,
   type DecisionInput,
+  type DecisionProfile,
   type DecisionResult
 } from "@shared/decisionEngine";
+import { replayDecisions, type ReplaySale } from "@shared/decisionReplay";
+import { comparePlatformPayouts } from "@shared/platformPayouts";
+import { analyzeCompTrend, type MarketTrend } from "@shared/compTrend";
+import { canTransitionInventory, getInventoryStatusLabel, getTransitionDateUpdates, isSoldStatus } from "@shared/inventoryLifecycle";
+import { calculateLiquidity, type LiquidityResult } from "@shared/liquidity";
+import { buildScheduleC } from "@shared/scheduleC";
+import { calculateMileageDeduction, computeTripMileage, getMileageRate, getTripDayWindow, toCalendarDay, type TripStopPurpose } from "@shared/mileage";
+import { proposeFromReceipt, type ReceiptExtraction } from "@shared/receipts";
+import { computeLotRoi, type LotSummary } from "@shared/lots";
+import { buildImportPreview, IMPORT_FORMAT_LABELS, type ImportedInventoryItem, type ImportFormat } from "@shared/inventoryImport";
+import type { InventoryItem, LotWithItems, BatchItem, Item } from "@shared/schema";
+import type { ImportInventoryItem, LotInventoryItem } from "./storage";
+import { extractReceipt, ReceiptOcrUnavailableError } from "./receipt-ocr";
+import { ObjectStorageService, ObjectNotFoundError } from "./replit_integrations/object_storage";
 import {
   executeCardPipeline,
   shouldUseCardPipeline,
@@ -778,71 +805,6 @@ function buildSearchQuery(title: string, category: string): string {
   return baseQuery;
 }
 
-/**
- * Calculate comp statistics from an array of comps.
- */
-function calculateCompStats(comps: SoldComp[]): {
-  lowPrice: number | null;
-  medianPrice: number | null;
-  highPrice: number | null;
-  averagePrice: number | null;
-  spreadPercent: number | null;
-  variance: number | null;
-  priceRange: { min: number; max: number } | null;
-} {
-  if (comps.length === 0) {
-    return {
-      lowPrice: null,
-      medianPrice: null,
-      highPrice: null,
-      averagePrice: null,
-      spreadPercent: null,
-      variance: null,
-      priceRange: null,
-    };
-  }
-
-  const prices = comps.map(c => c.soldPrice).sort((a, b) => a - b);
-  const lowPrice = prices[0];
-  const highPrice = prices[prices.length - 1];
-  
-  const mid = Math.floor(prices.length / 2);
-  const medianPrice = prices.length % 2 !== 0
-    ? prices[mid]
-    : (prices[mid - 1] + prices[mid]) / 2;
-  
-  // Remove outliers: ignore bottom 2 and top 2 sales for better average
-  // Only apply if we have at least 5 comps (so we keep at least 1 after trimming)
-  let trimmedPrices = prices;
-  if (prices.length >= 5) {
-    trimmedPrices = prices.slice(2, prices.length - 2);
-  } else if (prices.length >= 3) {
-    // For 3-4 comps, just remove the single highest and lowest
-    trimmedPrices = prices.slice(1, prices.length - 1);
-  }
-  // For 1-2 comps, use all prices (no trimming possible)
-  
-  const averagePrice = trimmedPrices.reduce((sum, p) => sum + p, 0) / trimmedPrices.length;
-  
-  const spreadPercent = medianPrice > 0 
-    ? Math.round(((highPrice - lowPrice) / medianPrice) * 100)
-    : null;
-  
-  const variance = prices.length >= 2
-    ? prices.reduce((sum, p) => sum + Math.pow(p - averagePrice, 2), 0) / prices.length
-    : null;
-
-  return {
-    lowPrice,
-    medianPrice,
-    highPrice,
-    averagePrice,
-    spreadPercent,
-    variance,
-    priceRange: { min: lowPrice, max: highPrice },
-  };
-}
-
 // Fixed costs (packaging, supplies, etc.) - fee rates and shipping imported from pricingEngine
 const DEFAULT_FIXED_COSTS = 2;
 
@@ -867,6 +829,7 @@ export interface PriceGuideResult {
   ceilingApplied: boolean;
   clampApplied: boolean;
   inconsistentComps: boolean;
+  marketTrend: MarketTrend | null;
 }
 
 /**
@@ -876,7 +839,7 @@ export interface PriceGuideResult {
  * 1. Parse sold prices into dollars
  * 2. IQR trim outliers
  * 3. Reject 2.5x/0.4x median outliers
- * 4. Calculate median, CV, spread
+ * 4. Calculate median, CV, spread (expected resale = recency-weighted median when sold dates are known)
  * 5. Apply category ceiling
  * 6. Apply sanity ratio clamp
  * 7. Assign strict confidence (HIGH requires no clamps + low variance)
@@ -885,36 +848,38 @@ export interface PriceGuideResult {
 function calculatePriceGuide(
   comps: SoldComp[],
   category: string,
-  options?: { targetMargin?: number; isSoldData?: boolean; buyPrice?: number }
+  options?: { targetMargin?: number; isSoldData?: boolean; buyPrice?: number; profile?: DecisionProfile }
 ): PriceGuideResult | null {
   const isSoldData = options?.isSoldData ?? true;
   const userBuyPrice = options?.buyPrice;
+  const profile = options?.profile;
   
   // Require at least 1 sold comp
   if (!isSoldData || comps.length < 1) {
     return null;
   }
   
-  // Step 1: Parse prices into dollars
-  const rawPrices = comps.map(c => {
+  // Step 1: Parse prices into dollars (keep sold dates aligned for recency weighting)
+  const pricedComps = comps.map(c => {
     let price = c.soldPrice;
     if (price > 10000) {
       price = price / 100;
     }
-    return price;
-  }).filter(p => p > 0);
+    return { price, dateSold: c.dateSold };
+  }).filter(c => c.price > 0);
+  const rawPrices = pricedComps.map(c => c.price);
   
   const originalCount = rawPrices.length;
   if (originalCount < 1) return null;
   
   // Steps 2-5: Process comps using shared pricing engine
-  const compResult = processComps(rawPrices);
-  const { trimmedMedian, cv, spread, lowComp, highComp, finalComps } = compResult;
+  const compResult = processComps(rawPrices, { soldDates: pricedComps.map(c => c.dateSold), category });
+  const { trimmedMedian, cv, spread, lowComp, highComp, finalComps, weightedMedian, trend } = compResult;
   
   if (trimmedMedian <= 0) return null;
   
   const trimmedCount = originalCount - finalComps.length;
-  let expectedResale = trimmedMedian;
+  let expectedResale = weightedMedian;
   
   // Step 6: Apply category ceiling
   const categoryCeiling = getCategoryCeiling(category, trimmedMedian);
@@ -933,18 +898,19 @@ function calculatePriceGuide(
   expectedResale = clampedResale;
   const clampApplied = wasClampApplied;
   
-  // Get category-specific shipping allowance and fee rate from pricingEngine
+  // Get category-specific shipping allowance from pricingEngine.
+  // Fee rate comes from the user's decision profile when available, else the category default.
   const shippingAllowance = getShippingAllowance(category);
-  const feeRate = getCategoryFeeRate(category);
-  const feeMultiplier = getCategoryFeeMultiplier(category);
+  const feeRate = profile ? getProfileFeeRate(profile) : getCategoryFeeRate(category);
+  const feeMultiplier = profile ? 1 - feeRate : getCategoryFeeMultiplier(category);
+  const targetMargin = profile?.marginThreshold ?? MIN_MARGIN_PERCENT;
   
   // STANDARDIZED FORMULA:
   // Net After Fees = Expected Resale × (1 - fee rate)
   const netAfterFees = expectedResale * feeMultiplier;
   
-  // Target Profit = MAX($15, 25% of Expected Resale)
-  const percentBasedProfit = expectedResale * 0.25;
-  const targetProfit = Math.max(15, percentBasedProfit);
+  // Target Profit = MAX($15 or profile minimum, target margin × Expected Resale)
+  const targetProfit = getTargetProfit(expectedResale, profile);
   
   // Max Buy Price = Net After Fees - Target Profit
   // Apply 20% reduction for safety margin in flip mode
@@ -1020,7 +986,7 @@ function calculatePriceGuide(
     shippingCost: shippingAllowance,
     fixedCosts: 0,
     netAfterFees: Math.round(netAfterFees * 100) / 100,
-    targetMargin: 0.25,
+    targetMargin,
     targetProfit: Math.round(targetProfit * 100) / 100,
     soldSampleCount,
     trimmedCount,
@@ -1033,6 +999,7 @@ function calculatePriceGuide(
     ceilingApplied,
     clampApplied,
     inconsistentComps,
+    marketTrend: trend,
   };
 }
 
@@ -1173,12 +1140,50 @@ async function fetchCompsFromMarketplaceInsightsAPI(
   }
 }
 
+// Shape stored in the shared comp cache by getSoldCompsWithCache
+interface CachedSoldComps {
+  version: string;
+  source: NonNullable<CompsResult['source']>;
+  result: CompsResult;
+}
+
+/**
+ * For watches, use gender-specific category for more accurate comps
+ */
+function getEffectiveCompCategory(title: string, category: string): string {
+  if (category !== 'Watches') return category;
+  const watchGender = detectWatchGender(title);
+  if (watchGender === 'womens') return "Women's Watches";
+  if (watchGender === 'mens') return "Men's Watches";
+  return category; // unisex: keep generic 'Watches' category
+}
+
+/**
+ * Comp cache key for getSoldCompsWithCache - readers that peek at the cache
+ * must build it here too. Includes the effective category to prevent
+ * cross-gender cache contamination.
+ */
+function getSoldCompsCacheKey(title: string, category: string): string {
+  return cacheKeys.soldComps(title, getEffectiveCompCategory(title, category));
+}
+
+// Background refreshes in flight, so a burst of stale hits triggers one re-pull
+const soldCompsRevalidations = new Set<string>();
+
+function revalidateSoldComps(queryKey: string, title: string, category: string, condition?: string, options?: { lenient?: boolean }): void {
+  if (soldCompsRevalidations.has(queryKey)) return;
+  soldCompsRevalidations.add(queryKey);
+  getSoldCompsWithCache(title, category, condition, { ...options, skipCache: true })
+    .catch(err => console.error(`[Comps Cache] Background refresh failed for "${title.slice(0, 40)}":`, err))
+    .finally(() => soldCompsRevalidations.delete(queryKey));
+}
+
 /**
  * Get sold comps using unified eBay API layer.
  * STRICT SOLD-DATA-ONLY: Only returns real sold data from verified sources.
  * 
  * ALLOWED Sources (real sold data):
- * 1. Cache (if from allowed source)
+ * 1. Shared comp cache (server/cache-service.ts, category TTL, if from allowed source)
  * 2. PriceCharting API (games/trading cards)
  * 3. SerpAPI with LH_Sold=1 + LH_Complete=1 filters
  * 
@@ -1189,29 +1194,17 @@ async function fetchCompsFromMarketplaceInsightsAPI(
  * 
  * When no real sold data found, returns empty comps to trigger Research Mode.
  */
-async function getSoldCompsWithCache(title: string, category: string, condition?: string, options?: { lenient?: boolean }): Promise<CompsResult> {
+async function getSoldCompsWithCache(title: string, category: string, condition?: string, options?: { lenient?: boolean; skipCache?: boolean }): Promise<CompsResult> {
   const startTime = Date.now();
   const searchQuery = buildSearchQuery(title, category);
   
-  // For watches, use gender-specific category for more accurate comps
-  let effectiveCategory = category;
-  let watchGender: 'mens' | 'womens' | 'unisex' | null = null;
-  if (category === 'Watches') {
-    watchGender = detectWatchGender(title);
-    if (watchGender === 'womens') {
-      effectiveCategory = "Women's Watches";
-    } else if (watchGender === 'mens') {
-      effectiveCategory = "Men's Watches";
-    }
-    // unisex: keep generic 'Watches' category
-  }
+  const effectiveCategory = getEffectiveCompCategory(title, category);
   
   const ebaySearchUrl = buildEbaySearchUrl(searchQuery, effectiveCategory);
   // For watches, also include Chrono24 search URL for luxury watch reference pricing
   const chrono24SearchUrl = category === 'Watches' ? buildChrono24SearchUrl(searchQuery) : undefined;
   
-  // Include effectiveCategory in cache key to prevent cross-gender cache contamination
-  const queryKey = `${title.toLowerCase().trim()}:${effectiveCategory.toLowerCase().trim()}`.slice(0, 200);
+  const queryKey = getSoldCompsCacheKey(title, category);
   
   const fallbackResult: CompsResult = {
     comps: [],
@@ -1233,19 +1226,20 @@ async function getSoldCompsWithCache(title: string, category: string, condition?
 
   // ALLOWED_COMP_SOURCES: Centralized allowlist for sold-data-only enforcement
   // Only these sources are verified to contain real sold data
-  const ALLOWED_COMP_SOURCES_LOCAL = ['serpapi', 'marketplace_insights', 'pricecharting', 'api'];
+  const ALLOWED_COMP_SOURCES_LOCAL = ['serpapi', 'marketplace_insights', 'pricecharting', 'finding_api', 'api'];
   
   // CACHE VERSION: Invalidate old cache entries that may contain non-sold data
   // Increment this when changing data sources to force cache refresh
   const CACHE_VERSION = 'v2_sold_only';
   
   try {
-    const cached = await storage.getCompsCache(queryKey);
+    const cachedEntry = options?.skipCache ? null : await cache.lookup<CachedSoldComps>(queryKey);
+    const cached = cachedEntry?.data;
     if (cached) {
       // VALIDATION: Require cache version AND allowed source
       // Old entries without version or with disallowed source are ignored
-      const cachedVersion = (cached as any).version;
-      const cachedSource = (cached as any).source;
+      const cachedVersion = cached.version;
+      const cachedSource = cached.source;
       
       // STRICT: Only accept cache entries with v2+ version AND allowed source
       const isValidVersion = cachedVersion === CACHE_VERSION;
@@ -1262,19 +1256,20 @@ async function getSoldCompsWithCache(title: string, category: string, condition?
           query: searchQuery,
           category,
           source: 'cache',
-          resultsCount: (cached.comps as SoldComp[]).length,
+          resultsCount: cached.result.comps.length,
           success: true,
           durationMs: Date.now() - startTime,
         });
         
+        // Stale-while-revalidate: serve the expired entry now, refresh in the background
+        if (cachedEntry!.source === 'stale') {
+          console.log(`[Comps Cache] Serving stale comps for "${title.slice(0, 40)}" (${Math.round(cachedEntry!.ageMs / 60000)}m old), refreshing`);
+          revalidateSoldComps(queryKey, title, category, condition, options);
+        }
+        
         // Propagate actual source from cache, NOT normalized 'api'
         return {
-          comps: cached.comps as SoldComp[],
-          lowPrice: cached.lowPrice ? parseFloat(cached.lowPrice) : null,
-          medianPrice: cached.medianPrice ? parseFloat(cached.medianPrice) : null,
-          highPrice: cached.highPrice ? parseFloat(cached.highPrice) : null,
-          spreadPercent: cached.spreadPercent ? parseFloat(cached.spreadPercent) : null,
-          message: cached.message || undefined,
+          ...cached.result,
           searchQuery,
           source: cachedSource, // Propagate original source for provenance
           ebaySearchUrl,
@@ -1387,20 +1382,13 @@ async function getSoldCompsWithCache(title: string, category: string, condition?
         cleanedCompCount: isWatchCat ? cleanedCompCount : compsForStats.length,
       };
 
-      const expiresAt = new Date(Date.now() + 45 * 60 * 1000);
-      await storage.setCompsCache({
-        queryKey,
-        comps: allComps,
-        lowPrice: stats.lowPrice?.toString() || null,
-        medianPrice: stats.medianPrice?.toString() || null,
-        highPrice: stats.highPrice?.toString() || null,
-        spreadPercent: stats.spreadPercent?.toString() || null,
-        message: result.message || null,
-        expiresAt,
+      // Category TTL (24h cards → 4w shoes); stale entries are served while refreshing
+      await cache.set<CachedSoldComps>(queryKey, {
         // SOLD-DATA-ONLY: Include version and source for cache validation
         version: CACHE_VERSION,
         source: sourceLabel,
-      } as any); // Type assertion since we're adding fields for validation
+        result,
+      }, { category });
 
       console.log(`[Comps Cache] Stored ${isWatchCat ? 'cleaned' : 'raw'} stats for "${title.slice(0, 40)}..." median=$${stats.medianPrice} count=${cleanedCompCount}`);
 
@@ -1421,20 +1409,16 @@ async function getSoldCompsWithCache(title: string, category: string, condition?
       durationMs: Date.now() - startTime,
     });
 
-    const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-    await storage.setCompsCache({
-      queryKey,
-      comps: [],
-      lowPrice: null,
-      medianPrice: null,
-      highPrice: null,
-      spreadPercent: null,
-      message: fallbackResult.message || null,
-      expiresAt,
-      // SOLD-DATA-ONLY: Include version, source is 'none' for fallback (no comps)
-      version: CACHE_VERSION,
-      source: 'none',
-    } as any);
+    // Short negative cache, never served stale.
+    // A failed background refresh must not overwrite the last-known-good entry.
+    if (!options?.skipCache) {
+      await cache.set<CachedSoldComps>(queryKey, {
+        // SOLD-DATA-ONLY: Include version, source is 'none' for fallback (no comps)
+        version: CACHE_VERSION,
+        source: 'none',
+        result: fallbackResult,
+      }, { category, ttlMs: 15 * 60 * 1000, staleMs: 0 });
+    }
 
     return fallbackResult;
   } catch (err) {
@@ -1500,15 +1484,40 @@ function adjustConfidenceBySpread(baseConfidence: number, spreadPercent: number
   return Math.min(Math.max(baseConfidence + adjustment, 15), 95);
 }
 
+// Status + JSON body from a handler that also runs outside a request (batch job queue).
+// A 200 carries the handler's result; anything else an error body with a message.
+interface RouteErrorBody {
+  message: string;
+  [detail: string]: unknown;
+}
+
+type RouteReply<T> =
+  | { ok: true; status: 200; body: T }
+  | { ok: false; status: number; body: RouteErrorBody };
+
+function replyOk<T>(body: T): RouteReply<T> {
+  return { ok: true, status: 200, body };
+}
+
+function replyError(status: number, body: RouteErrorBody): RouteReply<never> {
+  return { ok: false, status, body };
+}
+
+// Scan identify response (candidates, session, OCR lock... - built by finalizeScanResult)
+type ScanIdentifyResult = Record<string, unknown>;
+
+// Analyzed scan, as returned by the confirm-and-analyze route
+type AnalyzedItem = Item & { comps: CompsResult };
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   // Setup Auth
-  setupAuth(app);
+  const sessionParser = setupAuth(app);
   
-  // Setup WebSocket for real-time auction overlay
-  setupWebSocket(httpServer);
+  // Setup WebSockets: real-time auction overlay and per-user live updates
+  setupWebSocket(httpServer, sessionParser);
   
   // Serve app store screenshots for download
   app.get("/download/screenshots/:name", (req, res) => {
@@ -1848,7 +1857,7 @@ export async function registerRoutes(
         dailyScans, inventoryItems, businessExpenses, sourcingLocations, 
         scanSessions, batchSessions, batchItems, mysteryFlipVotes, 
         priceAlerts, shopOrders, visualMatchSessions, userCorrections,
-        passwordResetTokens
+        passwordResetTokens, inventoryStatusHistory, decisionProfiles, mileageTrips, receipts, lots, agingRecommendations
       } = await import("@shared/schema");
       
       await db.transaction(async (tx) => {
@@ -1858,7 +1867,12 @@ export async function registerRoutes(
         await tx.delete(scanSessions).where(eq(scanSessions.userId, user.id));
         await tx.delete(items).where(eq(items.userId, user.id));
         await tx.delete(dailyScans).where(eq(dailyScans.userId, user.id));
+        await tx.delete(inventoryStatusHistory).where(eq(inventoryStatusHistory.userId, user.id));
+        await tx.delete(agingRecommendations).where(eq(agingRecommendations.userId, user.id));
         await tx.delete(inventoryItems).where(eq(inventoryItems.userId, user.id));
+        await tx.delete(lots).where(eq(lots.userId, user.id));
+        await tx.delete(mileageTrips).where(eq(mileageTrips.userId, user.id)); // stops cascade
+        await tx.delete(receipts).where(eq(receipts.userId, user.id));
         await tx.delete(businessExpenses).where(eq(businessExpenses.userId, user.id));
         await tx.delete(sourcingLocations).where(eq(sourcingLocations.userId, user.id));
         await tx.delete(userAchievements).where(eq(userAchievements.userId, user.id));
@@ -1871,6 +1885,9 @@ export async function registerRoutes(
         await tx.delete(userCorrections).where(eq(userCorrections.userId, user.id));
         await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, user.id));
         await tx.delete(pushSubscriptions).where(eq(pushSubscriptions.userId, user.id));
+        await tx.delete(extensionTokens).where(eq(extensionTokens.userId, user.id));
+        await tx.delete(auctionWatches).where(eq(auctionWatches.userId, user.id));
+        await tx.delete(decisionProfiles).where(eq(decisionProfiles.userId, user.id));
         
         // Finally delete the user account
         await tx.delete(users).where(eq(users.id, user.id));
@@ -1931,6 +1948,233 @@ export async function registerRoutes(
     }
   });
 
+  // Chrome extension token - the auction overlay authenticates with it
+  app.get(api.extension.token.path, requireAuth, async (req: any, res) => {
+    try {
+      const token = await storage.getExtensionToken(req.user.id);
+      res.json({
+        hasToken: !!token,
+        createdAt: token?.createdAt?.toISOString() ?? null,
+        lastUsedAt: token?.lastUsedAt?.toISOString() ?? null,
+      });
+    } catch (error: any) {
+      console.error("Get extension token error:", error);
+      res.status(500).json({ message: "Failed to get extension token" });
+    }
+  });
+
+  app.post(api.extension.createToken.path, requireAuth, async (req: any, res) => {
+    try {
+      const { token, tokenHash } = generateExtensionToken();
+      const saved = await storage.setExtensionToken(req.user.id, tokenHash);
+      console.log(`[Extension] Issued new token for user ${req.user.id}`);
+      res.json({ token, createdAt: (saved.createdAt ?? new Date()).toISOString() });
+    } catch (error: any) {
+      console.error("Create extension token error:", error);
+      res.status(500).json({ message: "Failed to create extension token" });
+    }
+  });
+
+  app.delete(api.extension.revokeToken.path, requireAuth, async (req: any, res) => {
+    try {
+      const success = await storage.deleteExtensionToken(req.user.id);
+      res.json({ success });
+    } catch (error: any) {
+      console.error("Revoke extension token error:", error);
+      res.status(500).json({ message: "Failed to revoke extension token" });
+    }
+  });
+
+  app.get(api.extension.me.path, async (req, res) => {
+    try {
+      const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+      const userId = await authenticateExtensionToken(token);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Invalid extension token" });
+      }
+      const scanStatus = await storage.canUserScan(user.id);
+      res.json({
+        username: user.username,
+        tier: user.subscriptionTier as SubscriptionTier,
+        scansRemaining: scanStatus.remaining,
+        scansLimit: scanStatus.limit,
+      });
+    } catch (error: any) {
+      console.error("Extension me error:", error);
+      res.status(500).json({ message: "Failed to check extension token" });
+    }
+  });
+
+  // ============ Snipe Planner ============
+
+  // Listing state for a scan history item - values the user entered win,
+  // the rest come from the live eBay listing when the scan was of one
+  const getSnipeListing = async (
+    item: Item,
+    input: { currentBid?: number; bidCount?: number; shipping?: number; endsAt?: string }
+  ): Promise<{ ebayItemId: string | null; listing: AuctionListing }> => {
+    const ebayItemId = item.url.match(/\/itm\/(\d+)/)?.[1] ?? null;
+    const needsLive = input.currentBid === undefined || input.bidCount === undefined
+      || input.shipping === undefined || input.endsAt === undefined;
+    const details = ebayItemId && needsLive ? await fetchItemById(ebayItemId).catch(() => null) : null;
+    const live = details ? toAuctionListing(details) : null;
+    const endsAt = input.endsAt ? new Date(input.endsAt) : live?.endsAt ?? null;
+
+    return {
+      ebayItemId,
+      listing: {
+        itemId: ebayItemId ?? String(item.id),
+        title: item.confirmedTitle || item.title || 'Unknown Item',
+        currentPrice: input.currentBid ?? live?.currentPrice ?? (parseFloat(item.buyPrice || item.price || '0') || 0),
+        shippingIn: input.shipping ?? live?.shippingIn ?? (parseFloat(item.shippingIn || '0') || 0),
+        isAuction: live?.isAuction ?? true,
+        bidCount: input.bidCount ?? live?.bidCount ?? 1,
+        endsAt,
+      },
+    };
+  };
+
+  // Max bid, minimum next bid and where to stop for one scanned item
+  app.post(api.snipe.plan.path, requireAuth, async (req: any, res) => {
+    try {
+      const parseResult = api.snipe.plan.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const firstError = parseResult.error.errors[0];
+        return res.status(400).json({
+          message: firstError?.message || "Invalid snipe plan request",
+          field: firstError?.path?.join('.'),
+        });
+      }
+
+      const { itemId, ...input } = parseResult.data;
+      const item = await storage.getItem(itemId, req.user.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const { ebayItemId, listing } = await getSnipeListing(item, input);
+      const settings = await getUserBidSettings(req.user.id);
+      const baseline = toAuctionBaseline(item);
+      const { decision, plan } = planAuctionBid({ ...settings, baseline }, listing);
+
+      const response: SnipePlanResponse = {
+        item: { id: item.id, title: listing.title, ebayItemId },
+        listing: {
+          currentBid: listing.currentPrice,
+          bidCount: listing.bidCount,
+          shippingIn: listing.shippingIn,
+          endsAt: listing.endsAt?.toISOString() ?? null,
+        },
+        verdict: decision.verdict,
+        expectedSalePrice: baseline.expectedSalePrice,
+        maxBuy: decision.maxBuy,
+        salesTaxRate: settings.salesTaxRate,
+        plan,
+      };
+      res.json(response);
+    } catch (error: any) {
+      console.error("Snipe plan error:", error);
+      res.status(500).json({ message: "Failed to plan bid" });
+    }
+  });
+
+  app.get(api.snipe.settings.path, requireAuth, async (req: any, res) => {
+    try {
+      res.json({ salesTaxRate: parseFloat(req.user.salesTaxRate ?? '0') || 0 });
+    } catch (error: any) {
+      console.error("Get snipe settings error:", error);
+      res.status(500).json({ message: "Failed to get snipe settings" });
+    }
+  });
+
+  app.put(api.snipe.updateSettings.path, requireAuth, async (req: any, res) => {
+    try {
+      const parseResult = api.snipe.updateSettings.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const firstError = parseResult.error.errors[0];
+        return res.status(400).json({
+          message: firstError?.message || "Invalid sales tax rate",
+          field: firstError?.path?.join('.'),
+        });
+      }
+
+      const { salesTaxRate } = parseResult.data;
+      await db.update(users).set({ salesTaxRate: salesTaxRate.toFixed(4) }).where(eq(users.id, req.user.id));
+      res.json({ salesTaxRate });
+    } catch (error: any) {
+      console.error("Update snipe settings error:", error);
+      res.status(500).json({ message: "Failed to update snipe settings" });
+    }
+  });
+
+  // Watch list - auctions with a reminder before they end (server/auction-reminder-job.ts)
+  app.get(api.snipe.watches.path, requireAuth, async (req: any, res) => {
+    try {
+      const watches = await storage.getAuctionWatches(req.user.id);
+      res.json(watches);
+    } catch (error: any) {
+      console.error("Get auction watches error:", error);
+      res.status(500).json({ message: "Failed to get watch list" });
+    }
+  });
+
+  app.post(api.snipe.saveWatch.path, requireAuth, async (req: any, res) => {
+    try {
+      const parseResult = api.snipe.saveWatch.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const firstError = parseResult.error.errors[0];
+        return res.status(400).json({
+          message: firstError?.message || "Invalid watch",
+          field: firstError?.path?.join('.'),
+        });
+      }
+
+      const { itemId, remindMinutesBefore, ...input } = parseResult.data;
+      if (new Date(input.endsAt).getTime() <= Date.now()) {
+        return res.status(400).json({ message: "This auction has already ended", field: "endsAt" });
+      }
+
+      const item = await storage.getItem(itemId, req.user.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+
+      const { ebayItemId, listing } = await getSnipeListing(item, input);
+      const settings = await getUserBidSettings(req.user.id);
+      const { plan } = planAuctionBid({ ...settings, baseline: toAuctionBaseline(item) }, listing);
+
+      const watch = await storage.saveAuctionWatch(req.user.id, {
+        itemId: item.id,
+        ebayItemId,
+        title: listing.title,
+        currentBid: listing.currentPrice.toFixed(2),
+        bidCount: listing.bidCount,
+        shippingIn: listing.shippingIn.toFixed(2),
+        maxBid: plan.maxBid !== null ? plan.maxBid.toFixed(2) : null,
+        endsAt: new Date(input.endsAt),
+        remindMinutesBefore,
+      });
+      res.json(watch);
+    } catch (error: any) {
+      console.error("Save auction watch error:", error);
+      res.status(500).json({ message: "Failed to save watch" });
+    }
+  });
+
+  app.delete(api.snipe.deleteWatch.path, requireAuth, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteAuctionWatch(Number(req.params.id), req.user.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Watch not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Delete auction watch error:", error);
+      res.status(500).json({ message: "Failed to delete watch" });
+    }
+  });
+
   // Default category profit percentages - 6 core categories
   const DEFAULT_CATEGORY_PROFIT_PERCENTS: Record<string, number> = {
     'Watches': 30,
@@ -1980,6 +2224,93 @@ export async function registerRoutes(
     }
   });
 
+  // Get active decision profile (system default when the user has never saved one)
+  app.get(api.decisionProfile.get.path, requireAuth, async (req: any, res) => {
+    try {
+      const profile = await storage.getActiveDecisionProfile(req.user.id);
+      res.json(profile);
+    } catch (error: any) {
+      console.error("Get decision profile error:", error);
+      res.status(500).json({ message: "Failed to get decision profile" });
+    }
+  });
+
+  // Save decision profile - always creates a new version, never edits an old one
+  app.put(api.decisionProfile.update.path, requireAuth, async (req: any, res) => {
+    try {
+      const parseResult = api.decisionProfile.update.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const firstError = parseResult.error.errors[0];
+        return res.status(400).json({
+          message: firstError?.message || "Invalid decision profile",
+          field: firstError?.path?.join('.'),
+        });
+      }
+      
+      const profile = await storage.createDecisionProfileVersion(req.user.id, parseResult.data);
+      console.log(`[DecisionProfile] User ${req.user.id} saved profile v${profile.version}`);
+      res.json(profile);
+    } catch (error: any) {
+      console.error("Update decision profile error:", error);
+      res.status(500).json({ message: "Failed to save decision profile" });
+    }
+  });
+
+  // All stored profile versions, newest first (used to explain historical verdicts)
+  app.get(api.decisionProfile.history.path, requireAuth, async (req: any, res) => {
+    try {
+      const history = await storage.getDecisionProfileHistory(req.user.id);
+      res.json(history);
+    } catch (error: any) {
+      console.error("Get decision profile history error:", error);
+      res.status(500).json({ message: "Failed to get decision profile history" });
+    }
+  });
+
+  // What-if replay: re-run stored scans against proposed thresholds (nothing is saved)
+  app.post(api.decisionProfile.replay.path, requireAuth, async (req: any, res) => {
+    try {
+      const parseResult = api.decisionProfile.replay.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const firstError = parseResult.error.errors[0];
+        return res.status(400).json({
+          message: firstError?.message || "Invalid proposed thresholds",
+          field: firstError?.path?.join('.'),
+        });
+      }
+      
+      const activeProfile = await storage.getActiveDecisionProfile(req.user.id);
+      const proposedProfile: DecisionProfile = {
+        ...activeProfile,
+        ...parseResult.data,
+        platformFeeRates: { ...activeProfile.platformFeeRates, ...parseResult.data.platformFeeRates },
+      };
+      
+      const [userItems, inventory] = await Promise.all([
+        storage.getItems(req.user.id),
+        storage.getInventoryItems(req.user.id),
+      ]);
+      // Actual sales of scanned items are the replay's ground truth
+      const sales = new Map<number, ReplaySale>();
+      for (const inv of inventory) {
+        const salePrice = inv.actualSalePrice ? parseFloat(inv.actualSalePrice) : null;
+        if (inv.itemId === null || !isSoldStatus(inv.status) || salePrice === null) continue;
+        sales.set(inv.itemId, {
+          salePrice,
+          platform: inv.salePlatform,
+          platformFeeActual: inv.platformFeeActual ? parseFloat(inv.platformFeeActual) : null,
+          outboundShipping: inv.outboundShippingActual ? parseFloat(inv.outboundShippingActual) : null,
+        });
+      }
+      const replay = replayDecisions(userItems, activeProfile, proposedProfile, sales);
+      console.log(`[DecisionReplay] User ${req.user.id}: replayed ${replay.replayedItems}/${replay.totalItems} scans, ${replay.flipsToSkips.length} flip→skip, ${replay.skipsToFlips.length} skip→flip, profit change $${replay.projectedProfitChange}`);
+      res.json(replay);
+    } catch (error: any) {
+      console.error("Decision replay error:", error);
+      res.status(500).json({ message: "Failed to replay scan history" });
+    }
+  });
+
   // Change username endpoint
   app.post("/api/user/change-username", requireAuth, async (req: any, res) => {
     try {
@@ -2792,16 +3123,14 @@ export async function registerRoutes(
     return response;
   }
 
-  // Photo-based item identification using OpenAI Vision
-  app.post("/api/scan-sessions/identify", requireAuth, async (req, res) => {
-    console.log('[Identify] === REQUEST RECEIVED ===' );
+  // Photo-based item identification using OpenAI Vision.
+  // Shared by the identify route, instant batch scans and the batch job queue.
+  const identifyScanImage = async (userId: number, input: { imageBase64?: unknown; backImageBase64?: unknown }): Promise<RouteReply<ScanIdentifyResult>> => {
     try {
-      const userId = (req.user as { id: number }).id;
-      
       // Validate request body - front image required, back image optional
-      const { imageBase64, backImageBase64 } = req.body;
+      const { imageBase64, backImageBase64 } = input;
       if (!imageBase64 || typeof imageBase64 !== 'string') {
-        return res.status(400).json({ message: "Image data required" });
+        return replyError(400, { message: "Image data required" });
       }
       
       const hasBackImage = backImageBase64 && typeof backImageBase64 === 'string';
@@ -2812,7 +3141,7 @@ export async function registerRoutes(
       // Check scan limits
       const scanStatus = await storage.canUserScan(userId);
       if (!scanStatus.allowed) {
-        return res.status(429).json({ message: "Daily scan limit reached" });
+        return replyError(429, { message: "Daily scan limit reached" });
       }
 
       // Create scan session early
@@ -2892,7 +3221,7 @@ export async function registerRoutes(
         // QUALITY GATE: Block if image is unusable
         if (!qualityCheckResult.isUsable) {
           console.log(`[VisualFirst] Image quality too low: ${qualityCheckResult.reason}`);
-          return res.status(422).json({
+          return replyError(422, {
             message: "Image quality too low for identification",
             code: "IMAGE_QUALITY_LOW",
             issues: [qualityCheckResult.reason || 'unclear'],
@@ -2916,7 +3245,7 @@ export async function registerRoutes(
           finalResponse.error = 'Could not read watch brand. Please try again with a clearer photo or enter details manually.';
           
           console.log('=== FAST PATH: BRAND_REQUIRED ===');
-          return res.json(finalResponse);
+          return replyOk(finalResponse);
         }
         
         // HIGH CONFIDENCE MATCH - CHECK TIERED GATES
@@ -3025,7 +3354,7 @@ export async function registerRoutes(
             
             const totalDuration = Date.now() - visualFirstStartTime;
             console.log(`[VisualFirst] === FAST PATH COMPLETE: ${totalDuration}ms (saved ~15s) ===`);
-            return res.json(finalResponse);
+            return replyOk(finalResponse);
           }
           
           console.log(`[VisualFirst] Weak match (${matchStrength}, ${(confidence * 100).toFixed(0)}%), falling through to AI pipeline`);
@@ -3568,7 +3897,7 @@ Return JSON:
         console.log('[Identify] VISUAL FUNKO - Returning response with candidates stored in session');
         
         // Return immediately - don't run toy pipeline
-        return res.json({
+        return replyOk({
           ...finalResponse,
           sessionId: session.id,
           requiresSelection: true,
@@ -3708,7 +4037,7 @@ Return JSON:
           });
           
           console.log('=== FINAL_PIPELINE_CONFIRMED: Sending response via TOY_PIPELINE path ===');
-          return res.json(finalResponse);
+          return replyOk(finalResponse);
         }
         
         console.log('[Identify] Not a toy (or low confidence), using standard identification');
@@ -3991,7 +4320,7 @@ Return JSON:
         });
         
         console.log('=== FINAL_PIPELINE_CONFIRMED: Sending response via OPENAI path ===');
-        res.json(finalResponse);
+        return replyOk(finalResponse);
       } catch (visionError: any) {
         console.error("Vision API error:", visionError);
         
@@ -4031,12 +4360,18 @@ Return JSON:
         });
         
         console.log('=== FINAL_PIPELINE_CONFIRMED: Sending FALLBACK response after vision error ===');
-        return res.json(finalResponse);
+        return replyOk(finalResponse);
       }
     } catch (error: any) {
       console.error("Photo scan error:", error);
-      res.status(500).json({ message: "Failed to process image" });
+      return replyError(500, { message: "Failed to process image" });
     }
+  };
+
+  app.post("/api/scan-sessions/identify", requireAuth, async (req, res) => {
+    console.log('[Identify] === REQUEST RECEIVED ===' );
+    const result = await identifyScanImage((req.user as { id: number }).id, req.body);
+    res.status(result.status).json(result.body);
   });
 
   // ============ FAST LIVE CAPTURE ENDPOINT ============
@@ -4047,6 +4382,7 @@ Return JSON:
   // Fast single-endpoint for live capture - combines identify + decision in ~3 seconds
   app.post("/api/live-capture/analyze", requireAuth, async (req, res) => {
     const startTime = Date.now();
+    const scanId = req.body?.scanId; // optional client tag for live stage updates
     try {
       const userId = (req.user as { id: number }).id;
       const { imageBase64, buyPrice, ocrHints } = req.body;
@@ -4075,6 +4411,7 @@ Return JSON:
       if (!scanStatus.allowed) {
         return res.status(429).json({ message: "Daily scan limit reached" });
       }
+      publishScanStage(userId, scanId, 'identify');
 
       // Enhanced vision prompt for live auction streams - OCR-FIRST approach
       const liveStreamVisionPrompt = `LIVE AUCTION STREAM SCREENSHOT - TWO-STAGE IDENTIFICATION
@@ -4246,6 +4583,7 @@ CONFIDENCE RULES:
       if (cachedEntry && Date.now() - cachedEntry.timestamp < LIVE_CAPTURE_CACHE_TTL) {
         console.log(`[LIVE-CAPTURE] Cache hit for "${searchTitle}"`);
         const totalTime = Date.now() - startTime;
+        publishScanStage(userId, scanId, 'decision', { title: searchTitle, verdict: cachedEntry.result.verdict });
         return res.json({
           ...cachedEntry.result,
           cached: true,
@@ -4254,6 +4592,7 @@ CONFIDENCE RULES:
       }
 
       // Try to get cached comps from database first (fast path)
+      publishScanStage(userId, scanId, 'comps', { title: searchTitle });
       let avgPrice = 0;
       let compsCount = 0;
       let maxBuy = 0;
@@ -4261,16 +4600,13 @@ CONFIDENCE RULES:
 
       const compsStartTime = Date.now();
       try {
-        // Check if we have cached comps in database (use searchTitle)
-        const normalizedTitle = searchTitle.replace(/[^\w\s]/g, ' ').trim();
-        const cacheQueryKey = `live_${normalizedTitle.toLowerCase().replace(/\s+/g, '_').slice(0, 50)}`;
-        const cachedComps = await storage.getCompsCache(cacheQueryKey);
+        // Check the shared comp cache first (same key as getSoldCompsWithCache, fresh or stale)
+        const cachedEntry = await cache.lookup<CachedSoldComps>(getSoldCompsCacheKey(searchTitle, identified.category));
+        const cachedComps = cachedEntry?.data.result;
         
         if (cachedComps && cachedComps.medianPrice) {
-          avgPrice = typeof cachedComps.medianPrice === 'string' 
-            ? parseFloat(cachedComps.medianPrice) 
-            : cachedComps.medianPrice;
-          compsCount = Array.isArray(cachedComps.comps) ? cachedComps.comps.length : 0;
+          avgPrice = cachedComps.medianPrice;
+          compsCount = cachedComps.comps.length;
           priceSource = 'cached_comps';
           console.log(`[LIVE-CAPTURE] Using cached comps: $${avgPrice} from ${compsCount} comps`);
         }
@@ -4417,6 +4753,7 @@ CONFIDENCE RULES:
 
       const totalTime = Date.now() - startTime;
       console.log(`[LIVE-CAPTURE] Complete in ${totalTime}ms - ${verdict} for "${identified.title}"`);
+      publishScanStage(userId, scanId, 'decision', { title: searchTitle, verdict });
 
       res.json({
         ...result,
@@ -4426,6 +4763,7 @@ CONFIDENCE RULES:
 
     } catch (error: any) {
       console.error("[LIVE-CAPTURE] Error:", error);
+      publishScanStage((req.user as { id: number }).id, scanId, 'failed', { message: "Analysis failed" });
       res.status(500).json({ message: "Analysis failed" });
     }
   });
@@ -5591,6 +5929,55 @@ Respond in this exact JSON format:
     }
   });
   
+  // Cross-platform net payout: expected price per marketplace after fees and shipping
+  app.get("/api/items/:id/platform-payouts", requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const itemId = parseInt(req.params.id);
+      
+      const item = await storage.getItem(itemId, userId);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      
+      const title = item.confirmedTitle || item.title || "";
+      if (!title) {
+        return res.status(400).json({ message: "Item has no title to search comps for" });
+      }
+      const category = item.category || "Other";
+      const isWatch = category === 'Watches';
+      
+      // Every provider soft-fails independently - a missing platform just drops out of the comparison
+      const merged = await fetchMergedComps(
+        { query: title, category, itemTitle: title },
+        { includeAskingPrices: isWatch }
+      );
+      
+      // One expected price per marketplace: sold comps when there are any, else discounted asking prices
+      const priceInputs = getPlatformPriceInputs(merged);
+      
+      const buyPrice = item.buyPrice ? parseFloat(String(item.buyPrice)) : null;
+      const shippingIn = item.shippingIn ? parseFloat(String(item.shippingIn)) : 0;
+      
+      const comparison = comparePlatformPayouts(priceInputs, {
+        category,
+        costBasis: buyPrice !== null && !isNaN(buyPrice) ? buyPrice + shippingIn : null,
+      });
+      
+      console.log(`[PlatformPayouts] Item ${itemId}: ${comparison.platforms.map(p => `${p.platform}=$${p.netPayout}`).join(', ') || 'no data'} → ${comparison.recommended || 'none'}`);
+      
+      res.json({
+        itemId,
+        ...comparison,
+        sources: merged.sources,
+        chrono24SearchUrl: isWatch ? buildChrono24SearchUrl(title) : null,
+      });
+    } catch (error: any) {
+      console.error("Platform payouts error:", error);
+      res.status(500).json({ message: "Failed to compare platform payouts" });
+    }
+  });
+
   // Generate eBay listing from analyzed item
   app.post("/api/items/:id/generate-listing", requireAuth, async (req: any, res) => {
     try {
@@ -5838,11 +6225,19 @@ Generate a professional, SEO-optimized listing that will attract buyers and maxi
     }
   });
   
+  // Location the user is scanning at (AnalyzePage picker). An unknown id -
+  // e.g. a location deleted since it was picked - is dropped, not rejected.
+  async function resolveScanLocationId(userId: number, value: unknown): Promise<number | null> {
+    if (typeof value !== 'number' || !Number.isInteger(value)) return null;
+    const locations = await storage.getSourcingLocations(userId);
+    return locations.some(l => l.id === value) ? value : null;
+  }
+  
   // Analyze by text query - sold comps driven analysis for general market verdict
   app.post("/api/items/analyze-text", requireAuth, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { query, category, scanMode } = req.body;
+      const { query, category, scanMode, sourceLocationId } = req.body;
       
       if (!query || typeof query !== 'string' || query.trim().length < 3) {
         return res.status(400).json({ message: "Please enter an item description (at least 3 characters)" });
@@ -6040,6 +6435,7 @@ Generate a professional, SEO-optimized listing that will attract buyers and maxi
           inconsistentComps,
         },
         scanMode: scanMode || 'flip',
+        sourceLocationId: await resolveScanLocationId(userId, sourceLocationId),
         watchBrand: null,
         watchFamily: null,
         watchBandType: null,
@@ -6467,25 +6863,24 @@ Generate a professional, SEO-optimized listing that will attract buyers and maxi
     }
   });
 
-  // Step 2: Confirm and Analyze
-  app.post(api.items.confirmAndAnalyze.path, requireAuth, async (req, res) => {
+  // Step 2: Confirm and Analyze - comps and the decision engine on a confirmed scan.
+  // Shared by the analyze route and the batch job queue.
+  const analyzeConfirmedItem = async (userId: number, body: unknown): Promise<RouteReply<AnalyzedItem>> => {
     try {
-      const userId = (req.user as { id: number }).id;
-      
       // Check scan limit
       const scanStatus = await storage.canUserScan(userId);
       if (!scanStatus.allowed) {
-        return res.status(429).json({ 
+        return replyError(429, { 
           message: "Daily scan limit reached (5/day). Upgrade to Pro for unlimited scans.",
           remaining: 0,
           limit: scanStatus.limit,
         });
       }
       
-      const parseResult = api.items.confirmAndAnalyze.input.safeParse(req.body);
+      const parseResult = api.items.confirmAndAnalyze.input.safeParse(body);
       if (!parseResult.success) {
         const firstError = parseResult.error.errors[0];
-        return res.status(400).json({ 
+        return replyError(400, { 
           message: firstError?.message || "Invalid input",
           field: firstError?.path?.join('.') 
         });
@@ -6494,7 +6889,7 @@ Generate a professional, SEO-optimized listing that will attract buyers and maxi
       
       // Validate category is selected (enforce at confirmation step)
       if (!input.category) {
-        return res.status(400).json({
+        return replyError(400, {
           message: "Please select a category before analyzing",
           field: "category"
         });
@@ -6506,8 +6901,10 @@ Generate a professional, SEO-optimized listing that will attract buyers and maxi
       // "Free" or empty/unknown both result in 0 for calculations
       const shippingIn = parseShipping(input.shipping);
       const totalCost = buyPrice + shippingIn;
-      const platformFeePercent = Math.round(PLATFORM_FEE_RATE * 100);
-      const outboundShipping = OUTBOUND_SHIPPING_DEFAULT;
+      const decisionProfile = await storage.getActiveDecisionProfile(userId);
+      const platformFeeRate = getProfileFeeRate(decisionProfile);
+      const platformFeePercent = Math.round(platformFeeRate * 100);
+      const outboundShipping = decisionProfile.defaultOutboundShipping;
       
       // Fetch REAL SOLD COMPS only - no active listings, no Google for-sale prices
       // For "Other" category, require Research Mode (user must manually select comps)
@@ -6534,8 +6931,14 @@ Generate a professional, SEO-optimized listing that will attract buyers and maxi
         : getSoldCompsWithCache(searchQuery, confirmedCategory);
       
       // REMOVED: Google pricing (for-sale prices, NOT sold data)
-      // REMOVED: Browse API (active listings, NOT sold data)
+      // Browse API is used ONLY for the active listing count (sell-through), never for prices
       // If no real sold comps found, system will trigger Research Mode
+      const activeListingsPromise = isOtherCategory
+        ? Promise.resolve(null)
+        : fetchBrowseAPIWithSignals(searchQuery, confirmedCategory, { limit: 1 }).catch(err => {
+            console.error("[LIQUIDITY] Active listings lookup failed:", err);
+            return null;
+          });
       
       // AI prompt: IDENTIFICATION ONLY - never ask AI to estimate prices
       // Pricing comes from real sold comps only, never from AI hallucination
@@ -6561,13 +6964,14 @@ Return a JSON object with EXACTLY these fields:
 }`;
 
       // Run AI and comps fetch concurrently - ONLY real sold data
-      const [completion, ebayCompsResult] = await Promise.all([
+      const [completion, ebayCompsResult, activeListings] = await Promise.all([
         openai.chat.completions.create({
           model: "gpt-4o-mini", // Use mini for speed (just identification, no pricing)
           messages: [{ role: "user", content: prompt }],
           response_format: { type: "json_object" },
         }),
         compsPromise,
+        activeListingsPromise,
       ]);
       
       // Normalize compsResult - ONLY use real sold data
@@ -6682,6 +7086,38 @@ Return a JSON object with EXACTLY these fields:
         console.log(`[CONDITION PRICING] WARNING: No conditionStats available, using overall median: $${conditionSpecificMedian}`);
       }
       
+      // RECENCY WEIGHTING: recent sales count more than 90-day-old ones.
+      // Trend is fitted on the same condition bucket the median came from, and the
+      // recency factor (weighted median / plain median) is applied to that median.
+      const conditionBucket = isUsedCondition ? 'used' : 'newLike';
+      const bucketComps = isVintageCard
+        ? compsResult.comps
+        : compsResult.comps.filter(c => classifyCondition(c.condition || '') === conditionBucket);
+      const trendComps = bucketComps.length > 0 ? bucketComps : compsResult.comps;
+      const marketTrend: MarketTrend | null = trendComps.length > 0
+        ? analyzeCompTrend(
+            trendComps.map(c => ({ price: c.totalPrice ?? c.soldPrice, dateSold: c.dateSold })),
+            { category: confirmedCategory }
+          )
+        : null;
+      if (conditionSpecificMedian && marketTrend && marketTrend.datedCompCount > 0 && marketTrend.recencyFactor !== 1) {
+        const plainMedian = conditionSpecificMedian;
+        conditionSpecificMedian = Math.round(plainMedian * marketTrend.recencyFactor * 100) / 100;
+        console.log(`[RECENCY] Median $${plainMedian} → $${conditionSpecificMedian} (factor ${marketTrend.recencyFactor}, ${marketTrend.datedCompCount} dated comps, trend ${marketTrend.direction})`);
+      }
+      
+      // LIQUIDITY: sell-through from sold comps vs. active listings
+      const liquidity: LiquidityResult | null = isOtherCategory
+        ? null
+        : calculateLiquidity({
+            soldCount: compsResult.comps.length,
+            activeCount: activeListings?.totalListings ?? null,
+            soldDates: compsResult.comps.map(c => c.dateSold),
+          });
+      if (liquidity) {
+        console.log(`[LIQUIDITY] grade=${liquidity.grade} sellThrough=${liquidity.sellThroughRate} days=${liquidity.estimatedDaysToSell} (sold ${liquidity.soldCount}/${liquidity.soldWindowDays}d, active ${liquidity.activeCount})`);
+      }
+      
       const hasValidComps = conditionSpecificMedian && conditionSpecificMedian > 0;
       
       // For watches, require ≥3 clean comps for valid pricing
@@ -6710,8 +7146,10 @@ Return a JSON object with EXACTLY these fields:
         buyPrice: effectiveBuyPrice,
         shippingIn: effectiveShippingIn,
         expectedSalePrice, // null if no valid comps OR watch with <8 comps (condition-specific)
-        platformFeeRate: PLATFORM_FEE_RATE,
-        outboundShipping: 0, // Default to 0, will be refined later
+        profile: decisionProfile,
+        salePlatform: decisionProfile.defaultPlatform, // itemized fee schedule unless the user set a custom rate
+        category: confirmedCategory,
+        outboundShipping,
         dataSourceConfidence,
         dataSourceType: compsResult.source === 'api' ? 'serpapi' as const : 'manual' as const,
         compCount: conditionSpecificCount, // Use condition-specific comp count
@@ -6768,7 +7206,7 @@ Return a JSON object with EXACTLY these fields:
           title: `${input.title} - ${c.condition || 'Unknown'}`,
           price: c.soldPrice || c.totalPrice || 0,
           condition: c.condition,
-          soldDate: c.dateSold,
+          soldDate: c.dateSold ?? undefined,
         }));
         
         cardAnalysisResult = executeCardPipeline(cardScanInput, {
@@ -6850,7 +7288,8 @@ Return a JSON object with EXACTLY these fields:
         actualNetProfit = cardAnalysisResult.decision.profitDollars || 0;
       } else if (hasRealComps && decisionResult?.marginPercent !== undefined && actualAvgPrice !== null) {
         // Calculate from REAL comps only
-        actualNetProfit = actualAvgPrice - effectiveBuyPrice - effectiveShippingIn - (actualAvgPrice * PLATFORM_FEE_RATE);
+        const saleFees = decisionResult._diagnostics?.platformFees ?? actualAvgPrice * platformFeeRate;
+        actualNetProfit = actualAvgPrice - effectiveBuyPrice - effectiveShippingIn - saleFees - outboundShipping;
       }
       // If no real comps, actualNetProfit stays null - Research Mode required
       
@@ -6904,8 +7343,8 @@ Return a JSON object with EXACTLY these fields:
         category: confirmedCategory,
         buyPrice: input.price,
         shippingIn: isShippingVerified ? shippingIn.toFixed(2) : null,
-        platformFeeRate: PLATFORM_FEE_RATE.toString(),
-        outboundShipping: OUTBOUND_SHIPPING_DEFAULT.toFixed(2),
+        platformFeeRate: (decisionResult?.feeBreakdown?.effectiveRate ?? platformFeeRate).toString(),
+        outboundShipping: outboundShipping.toFixed(2),
         lowComp: compsResult.lowPrice?.toString() || null,
         avgComp: compsResult.medianPrice?.toString() || null, // SOLD-DATA-ONLY: Never use AI estimates
         highComp: compsResult.highPrice?.toString() || null,
@@ -6920,7 +7359,7 @@ Return a JSON object with EXACTLY these fields:
         flipPrice: null,
         decisionVerdict: decisionResult?.verdict || null,
         decisionScore: decisionResult?.marginPercent != null ? Math.round(decisionResult.marginPercent) : null,
-        decisionData: decisionResult || null,
+        decisionData: decisionResult ? { ...decisionResult, marketTrend, liquidity } : null,
         watchBrand: input.watchBrand || null,
         watchFamily: input.watchFamily || null,
         watchBandType: input.watchBandType || null,
@@ -6950,15 +7389,22 @@ Return a JSON object with EXACTLY these fields:
         gradingReadiness: null,
         gradingReadinessAnalyzedAt: null,
         scanMode: input.scanMode || 'flip',
+        sourceLocationId: await resolveScanLocationId(userId, input.sourceLocationId),
         watchDialColor: input.watchDialColor || null,
         watchDialStyle: input.watchDialStyle || null,
         watchBezelColor: input.watchBezelColor || null,
         watchMaterials: null,
       });
 
-      // Increment scan count after successful analysis
-      await storage.incrementDailyScanCount(userId);
-      
+      // Increment scan count after successful analysis. The item is saved by
+      // now, so don't fail the scan over the counter - a retried request or
+      // batch job would create a second item
+      try {
+        await storage.incrementDailyScanCount(userId);
+      } catch (countErr) {
+        console.error("Scan count increment failed:", countErr);
+      }
+
       // Upsert hot item for trending feature (fire-and-forget)
       if (confirmedCategory && compsResult.comps && compsResult.comps.length > 0) {
         try {
@@ -7004,14 +7450,19 @@ Return a JSON object with EXACTLY these fields:
       }
 
       // Return item with comps data
-      res.status(200).json({
+      return replyOk({
         ...item,
         comps: compsResult,
       });
     } catch (err) {
       console.error("Analysis error:", err);
-      res.status(500).json({ message: "Failed to finalize analysis" });
+      return replyError(500, { message: "Failed to finalize analysis" });
     }
+  };
+
+  app.post(api.items.confirmAndAnalyze.path, requireAuth, async (req, res) => {
+    const result = await analyzeConfirmedItem((req.user as { id: number }).id, req.body);
+    res.status(result.status).json(result.body);
   });
 
   // List Items (only non-expired items for free users)
@@ -7143,6 +7594,12 @@ Return a JSON object with EXACTLY these fields:
       const userId = (req.user as { id: number }).id;
       const input = parseResult.data;
       
+      // A calendar day - the client sends its local date
+      const purchaseDate = toCalendarDay(input.purchaseDate ?? new Date());
+      if (isNaN(purchaseDate.getTime())) {
+        return res.status(400).json({ message: "Invalid purchase date", field: "purchaseDate" });
+      }
+      
       // Check for duplicate if itemId is provided
       if (input.itemId) {
         const existingItems = await storage.getInventoryItems(userId);
@@ -7153,6 +7610,18 @@ Return a JSON object with EXACTLY these fields:
         }
       }
       
+      // Bought straight from a scan - default to where it was scanned
+      let sourceLocationId = input.sourceLocationId || null;
+      let sourceLocationName = input.sourceLocationName || null;
+      if (!sourceLocationId && input.itemId) {
+        const scan = await storage.getItem(input.itemId, userId);
+        if (scan?.sourceLocationId) {
+          const location = (await storage.getSourcingLocations(userId)).find(l => l.id === scan.sourceLocationId);
+          sourceLocationId = scan.sourceLocationId;
+          sourceLocationName = sourceLocationName ?? location?.name ?? null;
+        }
+      }
+      
       const newItem = await storage.createInventoryItem({
         userId,
         itemId: input.itemId || null,
@@ -7163,7 +7632,7 @@ Return a JSON object with EXACTLY these fields:
         feesEstimate: input.feesEstimate || null,
         shippingEstimate: input.shippingEstimate || null,
         status: 'bought',
-        purchaseDate: new Date(),
+        purchaseDate,
         listedDate: null,
         soldDate: null,
         actualSalePrice: null,
@@ -7172,16 +7641,35 @@ Return a JSON object with EXACTLY these fields:
         notes: input.notes || null,
         category: input.category || null,
         brand: input.brand || null,
-        sourceLocationId: input.sourceLocationId || null,
-        sourceLocationName: input.sourceLocationName || null,
+        sourceLocationId,
+        sourceLocationName,
         storageLocation: input.storageLocation || null,
         salePlatform: input.salePlatform || null,
         platformFeeActual: input.platformFeeActual || null,
+        disposedDate: null,
+        mileageCost: null,
+        mileageTripStopId: null,
+        receiptId: null,
+        lotId: null,
+        allocationWeight: null,
+        externalId: null,
       });
       
-      res.status(201).json(newItem);
-    } catch (err) {
-      console.error("Create inventory error:", err);
+      await storage.addInventoryStatusHistory({
+        inventoryItemId: newItem.id,
+        userId,
+        fromStatus: null,
+        toStatus: 'bought',
+      });
+      
+      // Bought on a logged trip? Re-spread that trip's mileage to include this item
+      if (newItem.sourceLocationId) {
+        await rechargeTripsForDay(userId, purchaseDate);
+      }
+      
+      res.status(201).json(newItem);
+    } catch (err) {
+      console.error("Create inventory error:", err);
       res.status(500).json({ message: "Failed to create inventory item" });
     }
   });
@@ -7199,11 +7687,29 @@ Return a JSON object with EXACTLY these fields:
       const userId = (req.user as { id: number }).id;
       const input = parseResult.data;
       
+      const existing = await storage.getInventoryItem(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      
+      const purchaseDate = input.purchaseDate !== undefined ? toCalendarDay(input.purchaseDate) : undefined;
+      if (purchaseDate && isNaN(purchaseDate.getTime())) {
+        return res.status(400).json({ message: "Invalid purchase date", field: "purchaseDate" });
+      }
+      
+      const statusChanged = input.status !== undefined && input.status !== existing.status;
+      if (statusChanged && !canTransitionInventory(existing.status, input.status!)) {
+        return res.status(400).json({
+          message: `Cannot move item from ${getInventoryStatusLabel(existing.status)} to ${getInventoryStatusLabel(input.status)}`,
+          field: "status",
+        });
+      }
+      
       // Build update object
       const updates: Record<string, unknown> = {};
-      if (input.status !== undefined) updates.status = input.status;
       if (input.listedDate !== undefined) updates.listedDate = input.listedDate ? new Date(input.listedDate) : null;
       if (input.soldDate !== undefined) updates.soldDate = input.soldDate ? new Date(input.soldDate) : null;
+      if (purchaseDate) updates.purchaseDate = purchaseDate;
       if (input.actualSalePrice !== undefined) updates.actualSalePrice = input.actualSalePrice;
       if (input.outboundShippingActual !== undefined) updates.outboundShippingActual = input.outboundShippingActual;
       if (input.notes !== undefined) updates.notes = input.notes;
@@ -7213,12 +7719,42 @@ Return a JSON object with EXACTLY these fields:
       if (input.salePlatform !== undefined) updates.salePlatform = input.salePlatform;
       if (input.platformFeeActual !== undefined) updates.platformFeeActual = input.platformFeeActual;
       
-      const updated = await storage.updateInventoryItem(id, userId, updates);
+      let updated;
+      if (statusChanged) {
+        // Stamp listed/sold/disposed dates the caller didn't send, then record the change
+        const dateUpdates = getTransitionDateUpdates(input.status!, {
+          listedDate: (updates.listedDate as Date | null | undefined) ?? existing.listedDate,
+          soldDate: (updates.soldDate as Date | null | undefined) ?? existing.soldDate,
+        });
+        updated = await storage.transitionInventoryItem(id, userId, { ...updates, ...dateUpdates }, {
+          fromStatus: existing.status,
+          toStatus: input.status!,
+          note: input.statusNote,
+        });
+        // The item exists (checked above), so no row means its status moved on under us
+        if (!updated) {
+          return res.status(409).json({ message: "Item status changed since it was loaded - refresh and try again" });
+        }
+        console.log(`[Inventory] Item ${id}: ${existing.status} → ${input.status}`);
+      } else {
+        updated = await storage.updateInventoryItem(id, userId, updates);
+      }
       
       if (!updated) {
         return res.status(404).json({ message: "Inventory item not found" });
       }
-      
+
+      // Moved to or from a sourcing location or to another day - re-spread the
+      // trip mileage of the day it was on and the day it's on now
+      const previousDay = existing.purchaseDate ?? existing.createdAt ?? new Date();
+      const dayChanged = purchaseDate !== undefined
+        && getTripDayWindow(purchaseDate).start.getTime() !== getTripDayWindow(previousDay).start.getTime();
+      if (dayChanged || (input.sourceLocationId !== undefined && input.sourceLocationId !== existing.sourceLocationId)) {
+        await rechargeTripsForDay(userId, previousDay);
+        if (dayChanged) await rechargeTripsForDay(userId, purchaseDate);
+        updated = (await storage.getInventoryItem(id, userId)) ?? updated;
+      }
+
       res.json(updated);
     } catch (err) {
       console.error("Update inventory error:", err);
@@ -7226,6 +7762,25 @@ Return a JSON object with EXACTLY these fields:
     }
   });
 
+  // Inventory status timeline (oldest first)
+  app.get(api.inventory.history.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      
+      const item = await storage.getInventoryItem(id, userId);
+      if (!item) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      
+      const history = await storage.getInventoryStatusHistory(id, userId);
+      res.json(history);
+    } catch (err) {
+      console.error("Get inventory history error:", err);
+      res.status(500).json({ message: "Failed to get inventory history" });
+    }
+  });
+
   // Delete Inventory Item
   app.delete('/api/inventory/:id', requireAuth, async (req, res) => {
     try {
@@ -7245,6 +7800,157 @@ Return a JSON object with EXACTLY these fields:
     }
   });
 
+  // ========== INVENTORY IMPORT ROUTES ==========
+  
+  // Inventory row for an imported CSV row; dates are calendar days (UTC midnight)
+  function toImportInventoryItem(item: ImportedInventoryItem, format: ImportFormat): ImportInventoryItem {
+    const day = (value: string | null) => value ? new Date(value) : null;
+    const money = (value: number | null) => value !== null ? value.toFixed(2) : null;
+    return {
+      itemId: null,
+      title: item.title,
+      imageUrl: null,
+      brand: item.brand,
+      category: item.category,
+      estimatedResale: money(item.listPrice ?? item.salePrice),
+      purchasePrice: item.purchasePrice.toFixed(2),
+      feesEstimate: null,
+      shippingEstimate: null,
+      status: item.status,
+      // No purchase date in most exports - use the earliest date we have so days-to-sell stays sane
+      purchaseDate: day(item.purchaseDate ?? item.listedDate ?? item.soldDate) ?? new Date(),
+      listedDate: day(item.listedDate),
+      soldDate: day(item.soldDate),
+      disposedDate: null,
+      actualSalePrice: money(item.salePrice),
+      outboundShippingActual: money(item.shipping),
+      condition: item.condition,
+      notes: `Imported from ${IMPORT_FORMAT_LABELS[format]} CSV`,
+      sourceLocationId: null,
+      sourceLocationName: null,
+      storageLocation: null,
+      salePlatform: item.salePlatform,
+      platformFeeActual: money(item.fees),
+      mileageCost: null,
+      mileageTripStopId: null,
+      receiptId: null,
+      lotId: null,
+      allocationWeight: null,
+      externalId: item.externalId,
+    };
+  }
+  
+  // Preview (dryRun) or import a marketplace/spreadsheet CSV
+  app.post(api.inventory.import.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.inventory.import.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid import", field: issue?.path.join('.') });
+      }
+      
+      const userId = (req.user as { id: number }).id;
+      const { csv, format, mapping, dryRun } = parseResult.data;
+      const preview = buildImportPreview(csv, { format, mapping, existing: await storage.getInventoryImportKeys(userId) });
+      if (preview.headers.length === 0) {
+        return res.status(400).json({ message: "That file doesn't look like a CSV with a header row", field: "csv" });
+      }
+      
+      let imported = 0;
+      if (!dryRun) {
+        const items = preview.rows
+          .filter(row => row.status === 'new' && row.item)
+          .map(row => toImportInventoryItem(row.item!, preview.format));
+        imported = await storage.importInventoryItems(userId, items);
+        console.log(`[InventoryImport] User ${userId} imported ${imported} items from ${preview.format}`);
+      }
+      
+      res.json({ preview, imported });
+    } catch (err) {
+      console.error("Inventory import error:", err);
+      res.status(500).json({ message: "Failed to import inventory" });
+    }
+  });
+
+  // ========== AGING INVENTORY ROUTES ==========
+
+  // Open recommendations for stale listings, most overdue first
+  app.get(api.aging.list.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      const queue = await storage.getAgingQueue(userId);
+      res.json(queue);
+    } catch (err) {
+      console.error("Get aging queue error:", err);
+      res.status(500).json({ message: "Failed to get aging inventory" });
+    }
+  });
+
+  // Re-check now instead of waiting for the daily job (no push)
+  app.post(api.aging.run.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      const result = await runAgingCheckForUser(userId);
+      res.json(result);
+    } catch (err) {
+      console.error("Run aging check error:", err);
+      res.status(500).json({ message: "Failed to check aging inventory" });
+    }
+  });
+
+  // Act on a recommendation - a markdown reprices the item
+  app.post(api.aging.apply.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.aging.apply.input.safeParse(req.body ?? {});
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid price", field: issue?.path.join('.') });
+      }
+
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const recommendation = await storage.getAgingRecommendation(id, userId);
+      if (!recommendation || recommendation.status !== 'open') {
+        return res.status(404).json({ message: "Recommendation not found" });
+      }
+
+      let itemUpdates: Partial<InventoryItem> | undefined;
+      if (recommendation.action === 'markdown') {
+        const price = parseResult.data.price ?? (recommendation.suggestedPrice ? parseFloat(recommendation.suggestedPrice) : null);
+        if (price === null) {
+          return res.status(400).json({ message: "Enter the new price", field: "price" });
+        }
+        itemUpdates = { estimatedResale: price.toFixed(2) };
+      }
+
+      const resolved = await storage.resolveAgingRecommendation(id, userId, 'applied', itemUpdates);
+      if (!resolved) {
+        return res.status(404).json({ message: "Recommendation not found" });
+      }
+
+      console.log(`[AgingInventory] Item ${resolved.inventoryItemId}: applied ${resolved.action}${itemUpdates ? ` → $${itemUpdates.estimatedResale}` : ''}`);
+      res.json(resolved);
+    } catch (err) {
+      console.error("Apply aging recommendation error:", err);
+      res.status(500).json({ message: "Failed to apply recommendation" });
+    }
+  });
+
+  app.post(api.aging.dismiss.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const resolved = await storage.resolveAgingRecommendation(id, userId, 'dismissed');
+      if (!resolved) {
+        return res.status(404).json({ message: "Recommendation not found" });
+      }
+      res.json(resolved);
+    } catch (err) {
+      console.error("Dismiss aging recommendation error:", err);
+      res.status(500).json({ message: "Failed to dismiss recommendation" });
+    }
+  });
+
   // ========== BUSINESS EXPENSE ROUTES ==========
   
   // List expenses (optionally filter by tax year)
@@ -7284,10 +7990,13 @@ Return a JSON object with EXACTLY these fields:
       const userId = (req.user as { id: number }).id;
       const input = parseResult.data;
 
-      // Calculate amount for mileage category
+      // Mileage: IRS rate in force on the expense date (client rate is ignored)
       let finalAmount = parseFloat(input.amount);
-      if (input.category === 'mileage' && input.miles && input.mileageRate) {
-        finalAmount = parseFloat(input.miles) * parseFloat(input.mileageRate);
+      let mileageRate: string | null = null;
+      if (input.category === 'mileage' && input.miles) {
+        const { rate } = getMileageRate(input.date || new Date());
+        mileageRate = String(rate);
+        finalAmount = calculateMileageDeduction(parseFloat(input.miles), rate);
       }
       
       const expense = await storage.createBusinessExpense({
@@ -7297,7 +8006,7 @@ Return a JSON object with EXACTLY these fields:
         amount: String(finalAmount),
         date: input.date ? new Date(input.date) : new Date(),
         miles: input.miles || null,
-        mileageRate: input.mileageRate || null,
+        mileageRate,
         startLocation: input.startLocation || null,
         endLocation: input.endLocation || null,
         receiptUrl: input.receiptUrl || null,
@@ -7324,10 +8033,22 @@ Return a JSON object with EXACTLY these fields:
       const userId = (req.user as { id: number }).id;
       const input = parseResult.data;
       
-      // If mileage fields are being updated, recalculate amount
+      const existing = await storage.getBusinessExpense(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (await storage.getMileageTripByExpenseId(id, userId)) {
+        return res.status(400).json({ message: "This expense belongs to a trip. Edit the trip instead.", field: "id" });
+      }
+      
+      // If mileage fields are being updated, recalculate amount at the IRS rate for the date
       let updateData: Record<string, any> = { ...input };
-      if (input.category === 'mileage' && input.miles && input.mileageRate) {
-        updateData.amount = String(parseFloat(input.miles) * parseFloat(input.mileageRate));
+      if ((input.category ?? existing.category) === 'mileage' && input.miles) {
+        const { rate } = getMileageRate(input.date || existing.date);
+        updateData.mileageRate = String(rate);
+        updateData.amount = String(calculateMileageDeduction(parseFloat(input.miles), rate));
+      } else {
+        delete updateData.mileageRate;
       }
       if (input.date) {
         updateData.date = new Date(input.date);
@@ -7352,7 +8073,13 @@ Return a JSON object with EXACTLY these fields:
       const id = parseInt(req.params.id);
       const userId = (req.user as { id: number }).id;
       
-      await storage.deleteBusinessExpense(id, userId);
+      // A trip's expense goes with its trip (and releases the trip's inventory charges)
+      const trip = await storage.getMileageTripByExpenseId(id, userId);
+      if (trip) {
+        await storage.deleteMileageTrip(trip.id, userId);
+      } else {
+        await storage.deleteBusinessExpense(id, userId);
+      }
       res.json({ success: true });
     } catch (err) {
       console.error("Delete expense error:", err);
@@ -7414,179 +8141,719 @@ Return a JSON object with EXACTLY these fields:
     }
   });
 
-  // ========== SALES ANALYTICS ROUTES ==========
+  // Per-location scorecards with the day/time purchase heatmap
+  app.get(api.sourcingLocations.scorecards.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.sourcingLocations.scorecards.input.safeParse(req.query);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid scorecard query", field: issue?.path.join('.') });
+      }
+      
+      const timeZone = parseResult.data.tz || 'UTC';
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+      } catch {
+        return res.status(400).json({ message: "Unknown time zone", field: "tz" });
+      }
+      
+      const userId = (req.user as { id: number }).id;
+      res.json(await getSourcingScorecards(userId, timeZone));
+    } catch (err) {
+      console.error("Sourcing scorecards error:", err);
+      res.status(500).json({ message: "Failed to build sourcing scorecards" });
+    }
+  });
+
+  // ========== MILEAGE ROUTES ==========
   
-  // Helper: Extract brand from item title
-  function extractBrandFromTitle(title: string): string | null {
-    const knownBrands = [
-      // Watches
-      'Rolex', 'Omega', 'Seiko', 'Tag Heuer', 'Citizen', 'Casio', 'Invicta', 'Fossil', 'Tissot', 'Bulova',
-      // Shoes
-      'Nike', 'Jordan', 'Adidas', 'New Balance', 'Yeezy', 'Converse', 'Vans', 'Reebok', 'Puma', 'Asics',
-      // Handbags
-      'Louis Vuitton', 'Gucci', 'Coach', 'Michael Kors', 'Kate Spade', 'Prada', 'Chanel', 'Hermes', 'Dooney',
-      // Tools
-      'Milwaukee', 'DeWalt', 'Makita', 'Ryobi', 'Bosch', 'Craftsman', 'Snap-on', 'Ridgid', 'Kobalt',
-      // Electronics
-      'Apple', 'Samsung', 'Sony', 'Nintendo', 'PlayStation', 'Xbox', 'Bose', 'JBL', 'LG', 'Canon', 'Nikon',
-      // Cards
-      'Panini', 'Topps', 'Bowman', 'Upper Deck', 'Pokemon', 'Yu-Gi-Oh', 'MTG', 'Donruss',
-      // Gaming
-      'PS5', 'PS4', 'Xbox', 'Switch', 'Steam Deck',
-      // Toys
-      'LEGO', 'Hot Wheels', 'Funko', 'Hasbro', 'Mattel', 'Fisher-Price',
-      // Vintage/Antiques
-      'Pyrex', 'Fenton', 'McCoy', 'Roseville', 'Hummel', 'Fiesta'
-    ];
-    
-    const lowerTitle = title.toLowerCase();
+  // Re-spread mileage for trips on the day an item was bought
+  async function rechargeTripsForDay(userId: number, purchaseDate: Date) {
+    await storage.chargeDayMileageToInventory(userId, purchaseDate);
+  }
+  
+  // Validate a trip and work out its miles, rate and per-stop costs
+  async function buildMileageTrip(userId: number, input: z.infer<typeof api.mileage.createTrip.input>) {
+    const tripDate = new Date(input.date);
+    if (isNaN(tripDate.getTime())) {
+      return { error: { message: "Invalid trip date", field: "date" } };
+    }
     
-    for (const brand of knownBrands) {
-      if (lowerTitle.includes(brand.toLowerCase())) {
-        return brand;
+    const locations = await storage.getSourcingLocations(userId);
+    const stops: { sourcingLocationId: number | null; label: string; purpose: TripStopPurpose; legMiles: number }[] = [];
+    for (const stop of input.stops) {
+      const location = stop.sourcingLocationId ? locations.find(l => l.id === stop.sourcingLocationId) : undefined;
+      if (stop.sourcingLocationId && !location) {
+        return { error: { message: "Unknown sourcing location", field: "stops" } };
+      }
+      const label = location?.name ?? stop.label?.trim();
+      if (!label) {
+        return { error: { message: "Each stop needs a sourcing location or a name", field: "stops" } };
       }
+      stops.push({ sourcingLocationId: location?.id ?? null, label, purpose: stop.purpose, legMiles: stop.legMiles });
     }
     
-    // Fallback: use first word if it looks like a brand (capitalized, reasonable length)
-    const firstWord = title.split(/[\s\-\/]/)[0];
-    if (firstWord && firstWord.length >= 3 && firstWord.length <= 20 && /^[A-Z]/.test(firstWord)) {
-      return firstWord;
-    }
+    const mileage = computeTripMileage(stops, { roundTrip: input.roundTrip, returnMiles: input.returnMiles });
+    const { rate } = getMileageRate(input.date);
+    const amount = calculateMileageDeduction(mileage.deductibleMiles, rate);
+    const route = [input.startLocation, ...stops.map(s => s.label), ...(input.roundTrip ? [input.startLocation] : [])];
     
-    return null;
+    return {
+      trip: {
+        date: tripDate,
+        taxYear: tripDate.getUTCFullYear(),
+        startLocation: input.startLocation,
+        roundTrip: input.roundTrip,
+        returnMiles: input.roundTrip ? String(mileage.returnMiles) : null,
+        totalMiles: String(mileage.totalMiles),
+        deductibleMiles: String(mileage.deductibleMiles),
+        mileageRate: String(rate),
+        amount: String(amount),
+        notes: input.notes || null,
+      },
+      stops: stops.map((stop, i) => ({
+        stopOrder: i + 1,
+        sourcingLocationId: stop.sourcingLocationId,
+        label: stop.label,
+        purpose: stop.purpose,
+        legMiles: String(mileage.stops[i].legMiles),
+        allocatedMiles: String(mileage.stops[i].allocatedMiles),
+        mileageCost: String(calculateMileageDeduction(mileage.stops[i].allocatedMiles, rate)),
+      })),
+      expense: {
+        description: `Trip: ${route.join(' → ')}`.slice(0, 500),
+        amount: String(amount),
+        date: tripDate,
+        miles: String(mileage.deductibleMiles),
+        mileageRate: String(rate),
+        startLocation: input.startLocation,
+        endLocation: input.roundTrip ? input.startLocation : stops[stops.length - 1].label,
+        notes: input.notes || null,
+        taxYear: tripDate.getUTCFullYear(),
+      },
+    };
   }
   
-  // Helper: Extract category from item title
-  function extractCategoryFromTitle(title: string): string | null {
-    const lowerTitle = title.toLowerCase();
-    
-    const categoryKeywords: Record<string, string[]> = {
-      'Watches': ['watch', 'timepiece', 'chronograph', 'diver', 'submariner'],
-      'Shoes': ['shoes', 'sneakers', 'jordan', 'yeezy', 'dunks', 'air max', 'boots', 'nike', 'adidas', 'sneaker', 'shoe', 'trainer'],
-      'Electronics': ['phone', 'laptop', 'tablet', 'airpods', 'headphones', 'camera', 'ipad', 'iphone', 'console', 'controller', 'playstation', 'xbox', 'nintendo', 'switch', 'ps5', 'ps4'],
-      'Trading Cards': ['card', 'prizm', 'chrome', 'refractor', 'auto', 'psa', 'bgs', 'graded', 'rookie', 'pokemon', 'topps', 'panini'],
-      'Collectibles': ['lego', 'funko', 'hot wheels', 'action figure', 'toy', 'playset', 'vintage', 'antique', 'pyrex', 'bag', 'purse', 'handbag', 'wallet', 'drill', 'tool']
-    };
-    
-    for (const [category, keywords] of Object.entries(categoryKeywords)) {
-      for (const keyword of keywords) {
-        if (lowerTitle.includes(keyword)) {
-          return category;
-        }
+  // IRS rate in force on a date (defaults to today)
+  app.get(api.mileage.rate.path, requireAuth, async (req, res) => {
+    const date = typeof req.query.date === 'string' && req.query.date ? req.query.date : new Date();
+    res.json(getMileageRate(date));
+  });
+  
+  // List trips (optionally for one tax year)
+  app.get(api.mileage.trips.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      const taxYear = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const trips = await storage.getMileageTrips(userId, taxYear);
+      res.json(trips);
+    } catch (err) {
+      console.error("Get mileage trips error:", err);
+      res.status(500).json({ message: "Failed to get trips" });
+    }
+  });
+  
+  // Log a trip - creates its mileage expense and charges stops to that day's inventory
+  app.post(api.mileage.createTrip.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.mileage.createTrip.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid trip data", field: issue?.path.join('.') });
+      }
+      
+      const userId = (req.user as { id: number }).id;
+      const built = await buildMileageTrip(userId, parseResult.data);
+      if (built.error) {
+        return res.status(400).json(built.error);
       }
+      
+      const trip = await storage.createMileageTrip(userId, built.trip, built.stops, built.expense);
+      console.log(`[Mileage] Trip ${trip.id}: ${trip.deductibleMiles} mi @ $${trip.mileageRate} across ${trip.stops.length} stop(s)`);
+      res.status(201).json(trip);
+    } catch (err) {
+      console.error("Create mileage trip error:", err);
+      res.status(500).json({ message: "Failed to save trip" });
     }
-    
-    return 'Other';
+  });
+  
+  // Replace a trip's details and stops
+  app.put(api.mileage.updateTrip.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.mileage.updateTrip.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid trip data", field: issue?.path.join('.') });
+      }
+      
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const built = await buildMileageTrip(userId, parseResult.data);
+      if (built.error) {
+        return res.status(400).json(built.error);
+      }
+      
+      const trip = await storage.updateMileageTrip(id, userId, built.trip, built.stops, built.expense);
+      if (!trip) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      res.json(trip);
+    } catch (err) {
+      console.error("Update mileage trip error:", err);
+      res.status(500).json({ message: "Failed to update trip" });
+    }
+  });
+  
+  // Delete a trip with its expense
+  app.delete(api.mileage.deleteTrip.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      
+      const deleted = await storage.deleteMileageTrip(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Trip not found" });
+      }
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Delete mileage trip error:", err);
+      res.status(500).json({ message: "Failed to delete trip" });
+    }
+  });
+  
+  // Mileage cost per sourcing location (true cost of sourcing there)
+  app.get(api.mileage.byLocation.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      const taxYear = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const summary = await storage.getMileageByLocation(userId, taxYear);
+      res.json(summary);
+    } catch (err) {
+      console.error("Get mileage by location error:", err);
+      res.status(500).json({ message: "Failed to get mileage by location" });
+    }
+  });
+
+  // ========== LOT ROUTES ==========
+  
+  function withLotRoi(lot: LotWithItems): LotSummary {
+    return { ...lot, roi: computeLotRoi(lot, lot.items) };
+  }
+  
+  // Inventory rows for new lot items - bought with the lot, priced by allocation
+  function buildLotItems(
+    lot: { purchaseDate: Date; sourceLocationId: number | null; sourceLocationName: string | null },
+    items: z.infer<typeof api.lots.create.input>["items"]
+  ): LotInventoryItem[] {
+    return items.map(item => ({
+      itemId: null,
+      title: item.title,
+      imageUrl: null,
+      brand: null,
+      category: item.category || null,
+      estimatedResale: item.estimatedResale || null,
+      feesEstimate: null,
+      shippingEstimate: null,
+      status: 'bought',
+      purchaseDate: lot.purchaseDate,
+      listedDate: null,
+      soldDate: null,
+      disposedDate: null,
+      actualSalePrice: null,
+      outboundShippingActual: null,
+      condition: item.condition || null,
+      notes: null,
+      sourceLocationId: lot.sourceLocationId,
+      sourceLocationName: lot.sourceLocationName,
+      storageLocation: null,
+      salePlatform: null,
+      platformFeeActual: null,
+      mileageCost: null,
+      mileageTripStopId: null,
+      receiptId: null,
+      allocationWeight: item.allocationWeight != null ? String(item.allocationWeight) : null,
+      externalId: null,
+    }));
   }
   
-  // Get sales analytics - top brands, category profit, sell-through rate
-  app.get('/api/analytics', requireAuth, async (req, res) => {
+  // Validate money fields and the sourcing location; returns an error or the location name
+  async function resolveLotFields(userId: number, input: { totalCost?: string; tax?: string | null; sourceLocationId?: number | null; purchaseDate?: string }) {
+    if (input.totalCost !== undefined && !(parseFloat(input.totalCost) >= 0)) {
+      return { error: { message: "Total cost must be zero or more", field: "totalCost" } };
+    }
+    if (input.tax && !(parseFloat(input.tax) >= 0)) {
+      return { error: { message: "Tax must be zero or more", field: "tax" } };
+    }
+    if (input.purchaseDate !== undefined && isNaN(new Date(input.purchaseDate).getTime())) {
+      return { error: { message: "Invalid purchase date", field: "purchaseDate" } };
+    }
+    let sourceLocationName: string | null = null;
+    if (input.sourceLocationId) {
+      const locations = await storage.getSourcingLocations(userId);
+      const location = locations.find(l => l.id === input.sourceLocationId);
+      if (!location) {
+        return { error: { message: "Unknown sourcing location", field: "sourceLocationId" } };
+      }
+      sourceLocationName = location.name;
+    }
+    return { sourceLocationName };
+  }
+  
+  // Lots with ROI (newest first)
+  app.get(api.lots.list.path, requireAuth, async (req, res) => {
     try {
       const userId = (req.user as { id: number }).id;
+      const lotList = await storage.getLots(userId);
+      res.json(lotList.map(withLotRoi));
+    } catch (err) {
+      console.error("Get lots error:", err);
+      res.status(500).json({ message: "Failed to get lots" });
+    }
+  });
+  
+  app.get(api.lots.get.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const lot = await storage.getLot(id, userId);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(withLotRoi(lot));
+    } catch (err) {
+      console.error("Get lot error:", err);
+      res.status(500).json({ message: "Failed to get lot" });
+    }
+  });
+  
+  // Create a lot, optionally with the items pulled from it
+  app.post(api.lots.create.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.lots.create.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid lot data", field: issue?.path.join('.') });
+      }
       
-      // Get all inventory items for this user
-      const allItems = await storage.getInventoryItems(userId);
+      const userId = (req.user as { id: number }).id;
+      const input = parseResult.data;
+      const resolved = await resolveLotFields(userId, input);
+      if (resolved.error) {
+        return res.status(400).json(resolved.error);
+      }
       
-      // Filter to sold items only
-      const soldItems = allItems.filter(item => item.status === 'sold' && item.actualSalePrice);
-      const listedItems = allItems.filter(item => item.status === 'listed' || item.status === 'sold');
+      const lotFields = {
+        name: input.name,
+        totalCost: parseFloat(input.totalCost).toFixed(2),
+        tax: input.tax ? parseFloat(input.tax).toFixed(2) : '0',
+        sourceLocationId: input.sourceLocationId || null,
+        sourceLocationName: resolved.sourceLocationName,
+        purchaseDate: toCalendarDay(input.purchaseDate ?? new Date()),
+        allocationMethod: input.allocationMethod,
+        notes: input.notes || null,
+      };
+      const lot = await storage.createLot(userId, lotFields, buildLotItems(lotFields, input.items));
       
-      // 1. Top-Selling Brands (by items sold and total profit)
-      const brandStats: Record<string, { sold: number; profit: number }> = {};
+      if (lot.sourceLocationId && lot.items.length > 0) {
+        await rechargeTripsForDay(userId, lot.purchaseDate);
+      }
+      console.log(`[Lots] Lot ${lot.id} "${lot.name}": $${lot.totalCost} + $${lot.tax} tax across ${lot.items.length} item(s), ${lot.allocationMethod}`);
+      res.status(201).json(withLotRoi(lot));
+    } catch (err) {
+      console.error("Create lot error:", err);
+      res.status(500).json({ message: "Failed to create lot" });
+    }
+  });
+  
+  // Update cost, tax, location or method - items are re-allocated
+  app.patch(api.lots.update.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.lots.update.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid lot data", field: issue?.path.join('.') });
+      }
       
-      for (const item of soldItems) {
-        // Extract brand from title (first word or common patterns)
-        const brand = extractBrandFromTitle(item.title);
-        if (!brand) continue;
-        
-        if (!brandStats[brand]) {
-          brandStats[brand] = { sold: 0, profit: 0 };
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const input = parseResult.data;
+      const resolved = await resolveLotFields(userId, input);
+      if (resolved.error) {
+        return res.status(400).json(resolved.error);
+      }
+      
+      const updates: Record<string, unknown> = {};
+      if (input.name !== undefined) updates.name = input.name;
+      if (input.totalCost !== undefined) updates.totalCost = parseFloat(input.totalCost).toFixed(2);
+      if (input.tax !== undefined) updates.tax = input.tax ? parseFloat(input.tax).toFixed(2) : '0';
+      if (input.sourceLocationId !== undefined) {
+        updates.sourceLocationId = input.sourceLocationId || null;
+        updates.sourceLocationName = resolved.sourceLocationName;
+      }
+      if (input.purchaseDate !== undefined) updates.purchaseDate = new Date(input.purchaseDate);
+      if (input.allocationMethod !== undefined) updates.allocationMethod = input.allocationMethod;
+      if (input.notes !== undefined) updates.notes = input.notes || null;
+      
+      const lot = await storage.updateLot(id, userId, updates);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(withLotRoi(lot));
+    } catch (err) {
+      console.error("Update lot error:", err);
+      res.status(500).json({ message: "Failed to update lot" });
+    }
+  });
+  
+  // Delete a lot - its items stay in inventory at their allocated cost
+  app.delete(api.lots.delete.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const deleted = await storage.deleteLot(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json({ success: true });
+    } catch (err) {
+      console.error("Delete lot error:", err);
+      res.status(500).json({ message: "Failed to delete lot" });
+    }
+  });
+  
+  // Add existing inventory and/or new items, then re-allocate
+  app.post(api.lots.addItems.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.lots.addItems.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid lot items", field: issue?.path.join('.') });
+      }
+      
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const { itemIds, items: newItems } = parseResult.data;
+      if (itemIds.length === 0 && newItems.length === 0) {
+        return res.status(400).json({ message: "Nothing to add", field: "items" });
+      }
+      
+      const existing = await storage.getLot(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      const lot = await storage.addItemsToLot(id, userId, itemIds, buildLotItems(existing, newItems));
+      res.json(withLotRoi(lot!));
+    } catch (err) {
+      console.error("Add lot items error:", err);
+      res.status(500).json({ message: "Failed to add items to lot" });
+    }
+  });
+  
+  // Take an item out of the lot (it keeps its last allocated cost)
+  app.delete(api.lots.removeItem.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const itemId = parseInt(req.params.itemId);
+      const userId = (req.user as { id: number }).id;
+      const lot = await storage.removeItemFromLot(id, userId, itemId);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(withLotRoi(lot));
+    } catch (err) {
+      console.error("Remove lot item error:", err);
+      res.status(500).json({ message: "Failed to remove item from lot" });
+    }
+  });
+  
+  // Manual allocation weights
+  app.put(api.lots.setWeights.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.lots.setWeights.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid weights", field: issue?.path.join('.') });
+      }
+      
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const lot = await storage.setLotWeights(id, userId, parseResult.data.weights);
+      if (!lot) {
+        return res.status(404).json({ message: "Lot not found" });
+      }
+      res.json(withLotRoi(lot));
+    } catch (err) {
+      console.error("Set lot weights error:", err);
+      res.status(500).json({ message: "Failed to save weights" });
+    }
+  });
+
+  // ========== RECEIPT ROUTES ==========
+  
+  const receiptStorage = new ObjectStorageService();
+  
+  // Presigned URL - the client PUTs the image straight to object storage
+  app.post(api.receipts.uploadUrl.path, requireAuth, async (req, res) => {
+    try {
+      const uploadURL = await receiptStorage.getObjectEntityUploadURL();
+      res.json({ uploadURL, objectPath: receiptStorage.normalizeObjectEntityPath(uploadURL) });
+    } catch (err) {
+      console.error("Receipt upload URL error:", err);
+      res.status(500).json({ message: "Failed to start receipt upload" });
+    }
+  });
+  
+  // OCR an uploaded receipt and propose an expense or inventory lines (nothing is saved but the scan)
+  app.post(api.receipts.scan.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.receipts.scan.input.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid receipt upload", field: "objectPath" });
+      }
+      
+      const userId = (req.user as { id: number }).id;
+      const { objectPath } = parseResult.data;
+      
+      let objectFile;
+      try {
+        objectFile = await receiptStorage.getObjectEntityFile(objectPath);
+      } catch (err) {
+        if (err instanceof ObjectNotFoundError) {
+          return res.status(400).json({ message: "Receipt image not found - upload it again", field: "objectPath" });
+        }
+        throw err;
+      }
+      
+      // Claim the upload so only this user can read it back
+      await receiptStorage.trySetObjectEntityAclPolicy(objectPath, { owner: String(userId), visibility: "private" });
+      const [[data], [metadata]] = await Promise.all([objectFile.download(), objectFile.getMetadata()]);
+      const contentType = metadata.contentType || "image/jpeg";
+      if (!contentType.startsWith("image/")) {
+        return res.status(400).json({ message: "Receipt must be an image", field: "objectPath" });
+      }
+      
+      const { provider, extraction } = await extractReceipt({ data, contentType });
+      const proposal = proposeFromReceipt(extraction);
+      const receipt = await storage.createReceipt({
+        userId,
+        objectPath,
+        ocrProvider: provider,
+        merchant: extraction.merchant,
+        receiptDate: extraction.date,
+        total: String(proposal.total),
+        extraction,
+      });
+      
+      console.log(`[Receipts] Scanned ${receipt.id} via ${provider}: ${extraction.merchant || "unknown merchant"}, ${extraction.lineItems.length} line(s), $${proposal.total.toFixed(2)} → ${proposal.kind}`);
+      res.status(201).json({ receipt, proposal });
+    } catch (err) {
+      if (err instanceof ReceiptOcrUnavailableError) {
+        return res.status(503).json({ message: err.message });
+      }
+      console.error("Receipt scan error:", err);
+      res.status(500).json({ message: "Failed to read receipt" });
+    }
+  });
+  
+  app.get(api.receipts.list.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      const list = await storage.getReceipts(userId);
+      res.json(list);
+    } catch (err) {
+      console.error("Get receipts error:", err);
+      res.status(500).json({ message: "Failed to get receipts" });
+    }
+  });
+  
+  // Stream the receipt image (owner only)
+  app.get(api.receipts.image.path, requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      
+      const receipt = await storage.getReceipt(id, userId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+      const objectFile = await receiptStorage.getObjectEntityFile(receipt.objectPath);
+      await receiptStorage.downloadObject(objectFile, res);
+    } catch (err) {
+      if (err instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Receipt image not found" });
+      }
+      console.error("Get receipt image error:", err);
+      res.status(500).json({ message: "Failed to get receipt image" });
+    }
+  });
+  
+  // Save the confirmed proposal as one expense or a batch of inventory items
+  app.post(api.receipts.apply.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.receipts.apply.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid receipt data", field: issue?.path.join('.') });
+      }
+      
+      const id = parseInt(req.params.id);
+      const userId = (req.user as { id: number }).id;
+      const input = parseResult.data;
+      
+      const receipt = await storage.getReceipt(id, userId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+      if (receipt.status !== 'scanned') {
+        return res.status(400).json({ message: "This receipt has already been saved", field: "id" });
+      }
+      
+      if (input.kind === 'expense') {
+        const date = new Date(input.date);
+        const amount = parseFloat(input.amount);
+        if (isNaN(date.getTime())) {
+          return res.status(400).json({ message: "Invalid date", field: "date" });
+        }
+        if (!(amount > 0)) {
+          return res.status(400).json({ message: "Amount must be greater than zero", field: "amount" });
         }
         
-        const salePrice = parseFloat(item.actualSalePrice || '0');
-        const purchasePrice = parseFloat(item.purchasePrice || '0');
-        const itemFeeRate = getCategoryFeeRate(item.category || undefined);
-        const fees = salePrice * itemFeeRate;
-        const profit = salePrice - purchasePrice - fees;
-        
-        brandStats[brand].sold += 1;
-        brandStats[brand].profit += profit;
+        const expense = await storage.applyReceiptAsExpense(id, userId, {
+          category: input.category,
+          description: input.description,
+          amount: amount.toFixed(2),
+          date,
+          miles: null,
+          mileageRate: null,
+          startLocation: null,
+          endLocation: null,
+          notes: input.notes || null,
+          taxYear: date.getUTCFullYear(),
+        });
+        if (!expense) {
+          return res.status(400).json({ message: "This receipt has already been saved", field: "id" });
+        }
+        console.log(`[Receipts] Receipt ${id} saved as ${input.category} expense $${expense.amount}`);
+        return res.status(201).json({ expense });
+      }
+      
+      const purchaseDate = new Date(input.purchaseDate);
+      if (isNaN(purchaseDate.getTime())) {
+        return res.status(400).json({ message: "Invalid purchase date", field: "purchaseDate" });
+      }
+      if (input.items.some(item => !(parseFloat(item.purchasePrice) >= 0))) {
+        return res.status(400).json({ message: "Every item needs a purchase price", field: "items" });
+      }
+      
+      let sourceLocationName: string | null = null;
+      if (input.sourceLocationId) {
+        const locations = await storage.getSourcingLocations(userId);
+        const location = locations.find(l => l.id === input.sourceLocationId);
+        if (!location) {
+          return res.status(400).json({ message: "Unknown sourcing location", field: "sourceLocationId" });
+        }
+        sourceLocationName = location.name;
+      }
+      
+      const extraction = receipt.extraction as ReceiptExtraction;
+      const created = await storage.applyReceiptAsInventory(id, userId, input.items.map(item => ({
+        itemId: null,
+        title: item.title,
+        imageUrl: null,
+        brand: null,
+        category: input.category || null,
+        estimatedResale: null,
+        purchasePrice: parseFloat(item.purchasePrice).toFixed(2),
+        feesEstimate: null,
+        shippingEstimate: null,
+        status: 'bought',
+        purchaseDate,
+        listedDate: null,
+        soldDate: null,
+        disposedDate: null,
+        actualSalePrice: null,
+        outboundShippingActual: null,
+        condition: null,
+        notes: extraction.merchant ? `Receipt: ${extraction.merchant}` : null,
+        sourceLocationId: input.sourceLocationId || null,
+        sourceLocationName: sourceLocationName ?? extraction.merchant,
+        storageLocation: null,
+        salePlatform: null,
+        platformFeeActual: null,
+        mileageCost: null,
+        mileageTripStopId: null,
+        lotId: null,
+        allocationWeight: null,
+        externalId: null,
+      })));
+      if (!created) {
+        return res.status(400).json({ message: "This receipt has already been saved", field: "id" });
+      }
+      
+      if (input.sourceLocationId) {
+        await rechargeTripsForDay(userId, purchaseDate);
+      }
+      console.log(`[Receipts] Receipt ${id} saved as ${created.length} inventory item(s)`);
+      res.status(201).json({ items: created });
+    } catch (err) {
+      console.error("Apply receipt error:", err);
+      res.status(500).json({ message: "Failed to save receipt" });
+    }
+  });
+
+  // ========== SALES ANALYTICS ROUTES ==========
+  
+  // Sales analytics - top brands, category profit, sell-through (all time)
+  app.get(api.analytics.summary.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      res.json(await getSalesBreakdown(userId));
+    } catch (err) {
+      console.error("Analytics error:", err);
+      res.status(500).json({ message: "Failed to calculate analytics" });
+    }
+  });
+  
+  // Weekly/monthly profit, revenue, sell-through, days-to-sell and ROI, optionally sliced
+  app.get(api.analytics.series.path, requireAuth, async (req, res) => {
+    try {
+      const parseResult = api.analytics.series.input.safeParse(req.query);
+      if (!parseResult.success) {
+        const issue = parseResult.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid analytics query", field: issue?.path.join('.') });
       }
       
-      const topBrands = Object.entries(brandStats)
-        .map(([brand, stats]) => ({ brand, ...stats }))
-        .sort((a, b) => b.profit - a.profit)
-        .slice(0, 10);
-      
-      // 2. Average Profit per Category
-      const categoryStats: Record<string, { totalProfit: number; count: number }> = {};
-      
-      for (const item of soldItems) {
-        // Try to determine category from linked item or title
-        const category = extractCategoryFromTitle(item.title);
-        if (!category) continue;
-        
-        if (!categoryStats[category]) {
-          categoryStats[category] = { totalProfit: 0, count: 0 };
+      const userId = (req.user as { id: number }).id;
+      const { interval, slice, from, to, limit } = parseResult.data;
+      let periods;
+      if (from) {
+        const toDate = to ? new Date(to) : new Date();
+        if (isNaN(new Date(from).getTime()) || isNaN(toDate.getTime()) || new Date(from) > toDate) {
+          return res.status(400).json({ message: "Invalid date range", field: "from" });
         }
-        
-        const salePrice = parseFloat(item.actualSalePrice || '0');
-        const purchasePrice = parseFloat(item.purchasePrice || '0');
-        const catFeeRate = getCategoryFeeRate(category);
-        const fees = salePrice * catFeeRate;
-        const profit = salePrice - purchasePrice - fees;
-        
-        categoryStats[category].totalProfit += profit;
-        categoryStats[category].count += 1;
+        periods = getAnalyticsPeriods(new Date(from), toDate, interval);
+      } else {
+        periods = getRecentPeriods(interval, parseResult.data.periods, to ? new Date(to) : new Date());
       }
       
-      const categoryProfit = Object.entries(categoryStats)
-        .map(([category, stats]) => ({
-          category,
-          avgProfit: stats.count > 0 ? Math.round(stats.totalProfit / stats.count) : 0,
-          itemsSold: stats.count,
-          totalProfit: Math.round(stats.totalProfit)
-        }))
-        .sort((a, b) => b.avgProfit - a.avgProfit);
-      
-      // 3. Sell-Through Rate (items sold / items listed)
-      const totalListed = listedItems.length;
-      const totalSold = soldItems.length;
-      const sellThroughRate = totalListed > 0 ? Math.round((totalSold / totalListed) * 100) : 0;
-      
-      // Calculate total profit
-      const totalProfit = soldItems.reduce((sum, item) => {
-        const salePrice = parseFloat(item.actualSalePrice || '0');
-        const purchasePrice = parseFloat(item.purchasePrice || '0');
-        const soldFeeRate = getCategoryFeeRate(item.category || undefined);
-        const fees = salePrice * soldFeeRate;
-        return sum + (salePrice - purchasePrice - fees);
-      }, 0);
-      
-      // Calculate average profit per item
-      const avgProfitPerItem = soldItems.length > 0 ? Math.round(totalProfit / soldItems.length) : 0;
-      
-      res.json({
-        topBrands,
-        categoryProfit,
-        sellThrough: {
-          rate: sellThroughRate,
-          sold: totalSold,
-          listed: totalListed
-        },
-        summary: {
-          totalProfit: Math.round(totalProfit),
-          avgProfitPerItem,
-          totalSold,
-          totalListed
-        }
-      });
+      res.json(await getAnalyticsSeries(userId, { interval, periods, slice, limit }));
     } catch (err) {
-      console.error("Analytics error:", err);
+      console.error("Analytics series error:", err);
       res.status(500).json({ message: "Failed to calculate analytics" });
     }
   });
 
+  // Expected inflows for the next 90 days, capital tied up and this month's break-even
+  app.get(api.forecast.cashFlow.path, requireAuth, async (req, res) => {
+    try {
+      const userId = (req.user as { id: number }).id;
+      res.json(await getCashFlowForecast(userId));
+    } catch (err) {
+      console.error("Cash-flow forecast error:", err);
+      res.status(500).json({ message: "Failed to build cash-flow forecast" });
+    }
+  });
+
   // ========== BATCH SCANNING ROUTES (Pro Only) ==========
   
   // Helper to check Pro/Elite access
@@ -7677,7 +8944,8 @@ Return a JSON object with EXACTLY these fields:
       }
       
       // Calculate price guide using the robust algorithm with sold data only
-      const priceGuide = calculatePriceGuide(soldComps, category, { isSoldData: true });
+      const decisionProfile = await storage.getActiveDecisionProfile(req.user.id);
+      const priceGuide = calculatePriceGuide(soldComps, category, { isSoldData: true, profile: decisionProfile });
       
       if (!priceGuide) {
         return res.json({
@@ -7729,6 +8997,15 @@ Return a JSON object with EXACTLY these fields:
     }
   });
 
+  // Body of a successful identify/analyze reply, or an AppError the batch job
+  // queue can classify: server errors are retried, bad input and limits are not
+  const unwrapReply = <T,>(step: string, result: RouteReply<T>): T => {
+    if (result.ok) return result.body;
+    const reason = new Error(`${step} failed: ${result.body.message || `HTTP ${result.status}`}`);
+    if (result.status >= 500) throw new AppError(ErrorCode.INTERNAL_ERROR, reason);
+    throw new AppError(result.status === 429 ? ErrorCode.FORBIDDEN : ErrorCode.INVALID_INPUT, reason);
+  };
+
   // Get or create active batch session
   app.get('/api/batch/session', requireAuth, requireProOrElite, async (req: any, res) => {
     try {
@@ -7769,13 +9046,14 @@ Return a JSON object with EXACTLY these fields:
     }
   });
 
-  // Add item to batch queue
+  // Add item(s) to batch queue - URLs can be added in bulk with inputValues
   app.post('/api/batch/items', requireAuth, requireProOrElite, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { inputType, inputValue } = req.body;
+      const { inputType, inputValue, inputValues } = req.body;
+      const values: unknown[] = Array.isArray(inputValues) ? inputValues : [inputValue];
       
-      if (!inputType || !inputValue) {
+      if (!inputType || values.length === 0 || values.some(v => !v || typeof v !== 'string')) {
         return res.status(400).json({ message: "inputType and inputValue are required" });
       }
       
@@ -7783,22 +9061,36 @@ Return a JSON object with EXACTLY these fields:
         return res.status(400).json({ message: "inputType must be 'url', 'camera', or 'photo'" });
       }
       
+      if (inputType !== 'url' && values.length > 1) {
+        return res.status(400).json({ message: "Photos must be added one at a time" });
+      }
+      
       // Get active session
       let session = await storage.getActiveBatchSession(userId);
       if (!session) {
         session = await storage.createBatchSession(userId);
       }
       
-      // Check batch limit (max 20 items per session)
+      // Check batch limits (MAX_BATCH_ITEMS per session, fewer photos)
       const existingItems = await storage.getBatchItems(session.id, userId);
-      if (existingItems.length >= 20) {
+      if (existingItems.length + values.length > MAX_BATCH_ITEMS) {
+        return res.status(400).json({ 
+          message: `Maximum ${MAX_BATCH_ITEMS} items per batch session. Complete this batch before adding more.` 
+        });
+      }
+      if (inputType !== 'url' && existingItems.filter(i => i.inputType !== 'url').length >= MAX_BATCH_PHOTOS) {
         return res.status(400).json({ 
-          message: "Maximum 20 items per batch session. Complete this batch before adding more." 
+          message: `Maximum ${MAX_BATCH_PHOTOS} photos per batch session. Complete this batch before adding more.` 
         });
       }
       
-      const item = await storage.addBatchItem(session.id, userId, inputType, inputValue);
-      res.status(201).json(item);
+      if (!Array.isArray(inputValues)) {
+        const item = await storage.addBatchItem(session.id, userId, inputType, inputValue);
+        return res.status(201).json(item);
+      }
+      
+      const added = await storage.addBatchItems(session.id, userId, inputType, values as string[]);
+      res.status(201).json(added);
     } catch (err) {
       console.error("Add batch item error:", err);
       res.status(500).json({ message: "Failed to add item to batch" });
@@ -7809,7 +9101,7 @@ Return a JSON object with EXACTLY these fields:
   app.post('/api/batch/scanAndAnalyze', requireAuth, requireProOrElite, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { imageBase64, buyPrice, maxBuyPrice, appliedProfitPercent, priceGuideSource, condition } = req.body;
+      const { imageBase64, buyPrice, maxBuyPrice, appliedProfitPercent, priceGuideSource, condition, scanId } = req.body;
       // Default to 'Used' for yard sale/batch mode - items are always assumed used unless explicitly changed
       const itemCondition = condition || 'Used';
       
@@ -7827,9 +9119,9 @@ Return a JSON object with EXACTLY these fields:
       
       // Check batch limit
       const existingItems = await storage.getBatchItems(session.id, userId);
-      if (existingItems.length >= 20) {
+      if (existingItems.filter(i => i.inputType !== 'url').length >= MAX_BATCH_PHOTOS) {
         return res.status(400).json({ 
-          message: "Maximum 20 items per batch. Start a new batch to continue." 
+          message: `Maximum ${MAX_BATCH_PHOTOS} photos per batch. Start a new batch to continue.` 
         });
       }
       
@@ -7841,23 +9133,12 @@ Return a JSON object with EXACTLY these fields:
         // Step 1: VISUAL-FIRST IDENTIFICATION
         // Try Jina CLIP embeddings + pgvector search first, OpenAI Vision as fallback
         console.log(`[BATCH INSTANT] Step 1: Visual-first identification`);
+        publishScanStage(userId, scanId, 'identify');
         
         // OpenAI fallback function (called only if visual library match is weak)
         const openAIFallback = async (imgBase64: string) => {
           console.log(`[BATCH INSTANT] OpenAI fallback triggered`);
-          const identifyRes = await fetchJsonWithDebugInternal(
-            `http://localhost:${process.env.PORT || 5000}/api/scan-sessions/identify`,
-            {
-              method: 'POST',
-              headers: { 
-                'Content-Type': 'application/json',
-                'Cookie': req.headers.cookie 
-              },
-              body: JSON.stringify({ imageBase64: imgBase64 })
-            },
-            'OpenAI-Identify'
-          );
-          return identifyRes;
+          return unwrapReply('OpenAI-Identify', await identifyScanImage(userId, { imageBase64: imgBase64 }));
         };
         
         const visualResult = await identifyWithVisualLibrary(imageBase64, {
@@ -7874,37 +9155,27 @@ Return a JSON object with EXACTLY these fields:
         const identifySource = bestCandidate.source;
         
         console.log(`[BATCH INSTANT] Identified: "${bestCandidate.title}" (${bestCandidate.category}) via ${identifySource}, strength: ${matchStrength}, confidence: ${bestCandidate.confidence.toFixed(3)}`);
+        publishScanStage(userId, scanId, 'comps', { title: bestCandidate.title });
         
         // Step 2: Confirm and analyze - use same endpoint as single scan
         // If user provided buyPrice, use that; otherwise fall back to estimated value
         const priceToUse = buyPrice ? String(buyPrice) : (bestCandidate.estimatedValue?.replace(/[^0-9.]/g, '') || '0');
-        console.log(`[BATCH INSTANT] Step 2: Analyze via /api/items/analyze with price: ${priceToUse}`);
-        const analysisResult = await fetchJsonWithDebugInternal(
-          `http://localhost:${process.env.PORT || 5000}/api/items/analyze`,
-          {
-            method: 'POST',
-            headers: { 
-              'Content-Type': 'application/json',
-              'Cookie': req.headers.cookie 
-            },
-            body: JSON.stringify({
-              url: 'camera://batch-scan', // Placeholder URL for camera scans
-              title: bestCandidate.title,
-              price: priceToUse,
-              condition: itemCondition, // User-selected or default 'Used'
-              category: normalizeCategory(bestCandidate.category),
-              shipping: '0',
-              sourceType: 'camera',
-              compSource: 'none',
-              buyPrice: buyPrice ? String(buyPrice) : undefined
-            })
-          },
-          'Analyze'
-        );
+        console.log(`[BATCH INSTANT] Step 2: Analyze with price: ${priceToUse}`);
+        const analysisResult = unwrapReply('Analyze', await analyzeConfirmedItem(userId, {
+          url: 'camera://batch-scan', // Placeholder URL for camera scans
+          title: bestCandidate.title,
+          price: priceToUse,
+          condition: itemCondition, // User-selected or default 'Used'
+          category: normalizeCategory(bestCandidate.category),
+          shipping: '0',
+          sourceType: 'camera',
+          compSource: 'none',
+          buyPrice: buyPrice ? String(buyPrice) : undefined
+        }));
         
         // Update batch item with results including title, cost, margin, and max buy info
         const itemTitle = analysisResult.title || bestCandidate.title || bestCandidate.category || 'Unknown Item';
-        const marginPercent = analysisResult.decisionData?.marginPercent ?? null;
+        const marginPercent = (analysisResult.decisionData as DecisionResult | null)?.marginPercent ?? null;
         await storage.updateBatchItem(item.id, userId, {
           status: 'completed',
           itemId: analysisResult.id,
@@ -7924,6 +9195,7 @@ Return a JSON object with EXACTLY these fields:
         const updatedSession = await storage.getBatchSession(session.id, userId);
         
         console.log(`[BATCH INSTANT] Complete: ${itemTitle} → ${analysisResult.decisionVerdict}`);
+        publishScanStage(userId, scanId, 'decision', { title: itemTitle, verdict: analysisResult.decisionVerdict ?? undefined });
         
         res.json({ 
           success: true,
@@ -7940,6 +9212,7 @@ Return a JSON object with EXACTLY these fields:
       } catch (processErr: any) {
         const errorDetail = processErr.message || 'Unknown processing error';
         console.error(`[BATCH INSTANT] Failed: ${errorDetail}`);
+        publishScanStage(userId, scanId, 'failed', { message: errorDetail });
         
         await storage.updateBatchItem(item.id, userId, {
           status: 'failed',
@@ -7964,47 +9237,88 @@ Return a JSON object with EXACTLY these fields:
     }
   });
   
-  // Internal helper for fetchJsonWithDebug (reused by multiple endpoints)
-  async function fetchJsonWithDebugInternal(url: string, opts: RequestInit, stepName: string): Promise<any> {
-    console.log(`[STEP] ${stepName}: Starting request to ${url}`);
-    const res = await fetch(url, opts);
-    const ct = res.headers.get("content-type") || "";
-    const raw = await res.text();
-    
-    console.log(`[STEP] ${stepName}: HTTP ${res.status}, ct=${ct}, body=${raw.slice(0, 200)}...`);
-    
-    if (!res.ok || !ct.includes("application/json")) {
-      throw new Error(`${stepName} failed: HTTP ${res.status} ct=${ct} snippet=${raw.slice(0, 300)}`);
-    }
-    
-    try {
-      return JSON.parse(raw);
-    } catch (parseErr) {
-      throw new Error(`${stepName} failed: JSON parse error, raw=${raw.slice(0, 300)}`);
-    }
-  }
-
-  // Helper function for batch processing - validates response before parsing JSON
-  async function fetchJsonWithDebug(url: string, opts: RequestInit, stepName: string): Promise<any> {
-    console.log(`[BATCH STEP] ${stepName}: Starting request to ${url}`);
-    const res = await fetch(url, opts);
-    const ct = res.headers.get("content-type") || "";
-    const raw = await res.text(); // always read text first
+  // Batch job processor - runs one queued item through the same extract,
+  // identify and analyze handlers as a single scan (see server/batch-queue.ts)
+  const processBatchJob = async (job: BatchItem): Promise<BatchJobResult> => {
+    let analyzeInput: Record<string, unknown>;
     
-    console.log(`[BATCH STEP] ${stepName}: HTTP ${res.status}, content-type=${ct}, body=${raw.slice(0, 200)}...`);
-    
-    if (!res.ok || !ct.includes("application/json")) {
-      throw new Error(`${stepName} failed: HTTP ${res.status} ct=${ct} snippet=${raw.slice(0, 300)}`);
+    if (job.inputType === 'url') {
+      const ebayItemId = job.inputValue.match(/\/itm\/(\d+)/)?.[1];
+      if (!ebayItemId) {
+        throw new AppError(ErrorCode.INVALID_INPUT, new Error("Not an eBay listing URL (e.g., ebay.com/itm/123456789)"));
+      }
+      
+      const details = await fetchItemById(ebayItemId);
+      if (!details) {
+        throw new AppError(ErrorCode.EBAY_UNAVAILABLE, new Error(`Could not load eBay item ${ebayItemId}`));
+      }
+      
+      analyzeInput = {
+        url: job.inputValue,
+        title: details.title,
+        price: details.price,
+        shipping: details.shipping,
+        condition: details.condition,
+        category: normalizeCategory(inferCategory(details.title).category),
+      };
+    } else {
+      // Photo/Camera input - visual library first, OpenAI Vision as fallback
+      console.log(`[BATCH] Job ${job.id}: identify (base64 length: ${job.inputValue.length})`);
+      const visualResult = await identifyWithVisualLibrary(job.inputValue, {
+        fallbackToOpenAI: true,
+        openAIIdentifyFn: async (imgBase64: string) =>
+          unwrapReply('Identify', await identifyScanImage(job.userId, { imageBase64: imgBase64 })),
+      });
+      
+      if (!visualResult.success || !visualResult.candidate) {
+        throw new AppError(ErrorCode.INVALID_INPUT, new Error(visualResult.error || 'Could not identify item - try a clearer photo or different angle'));
+      }
+      
+      const bestCandidate = visualResult.candidate;
+      console.log(`[BATCH] Job ${job.id}: identified "${bestCandidate.title}" (${bestCandidate.category}) via ${bestCandidate.source}`);
+      analyzeInput = {
+        url: 'camera://batch-process', // Placeholder URL for camera scans
+        title: bestCandidate.title,
+        price: bestCandidate.estimatedValue?.replace(/[^0-9.]/g, '') || '0',
+        condition: 'Used',
+        category: normalizeCategory(bestCandidate.category),
+        shipping: '0',
+        sourceType: 'camera',
+        compSource: 'none',
+      };
     }
     
-    try {
-      return JSON.parse(raw);
-    } catch (parseErr) {
-      throw new Error(`${stepName} failed: JSON parse error, raw=${raw.slice(0, 300)}`);
-    }
-  }
+    const analysisResult = unwrapReply('Analyze', await analyzeConfirmedItem(job.userId, analyzeInput));
+    const marginPercent = (analysisResult.decisionData as DecisionResult | null)?.marginPercent ?? null;
+    return {
+      itemId: analysisResult.id,
+      title: analysisResult.title || analysisResult.confirmedTitle || 'Unknown Item',
+      decisionVerdict: analysisResult.decisionVerdict || null,
+      decisionScore: analysisResult.decisionScore || null,
+      marginPercent: marginPercent !== null ? String(marginPercent) : null,
+    };
+  };
+  setBatchJobProcessor(processBatchJob);
+
+  // Auction overlay analyzer - scans a listing through the same analyze
+  // handler as a URL scan; the overlay then re-prices it as bids come in
+  // (see server/auction-advisor.ts)
+  const analyzeAuctionListing = async (userId: number, details: EbayItemDetails): Promise<AuctionBaseline> => {
+    const listing = toAuctionListing(details);
+    const category = normalizeCategory(inferCategory(details.title).category);
+    const analysisResult = unwrapReply('Analyze', await analyzeConfirmedItem(userId, {
+      url: `https://www.ebay.com/itm/${details.itemId}`,
+      title: details.title,
+      price: listing.currentPrice.toFixed(2),
+      shipping: details.shipping,
+      condition: details.condition,
+      category,
+    }));
+    return toAuctionBaseline(analysisResult);
+  };
+  setAuctionAnalyzer(analyzeAuctionListing);
 
-  // Process next pending item in batch
+  // Submit the active batch to the job queue - it keeps running if the app is closed
   app.post('/api/batch/process', requireAuth, requireProOrElite, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -8014,168 +9328,22 @@ Return a JSON object with EXACTLY these fields:
         return res.status(404).json({ message: "No active batch session" });
       }
       
-      // Update session to processing
-      if (session.status === 'active') {
-        await storage.updateBatchSession(session.id, userId, { status: 'processing' });
-      }
-      
-      // Atomically claim next pending item (prevents race conditions)
-      const pendingItem = await storage.claimNextPendingBatchItem(session.id, userId);
-      if (!pendingItem) {
-        // All done - complete the session
-        await storage.updateBatchSession(session.id, userId, { 
-          status: 'completed', 
-          completedAt: new Date() 
-        });
-        return res.json({ complete: true, session: await storage.getBatchSession(session.id, userId) });
+      const items = await storage.getBatchItems(session.id, userId);
+      const queued = items.filter(i => i.status === 'pending').length;
+      if (queued === 0) {
+        return res.status(400).json({ message: "No items to process" });
       }
       
-      console.log(`[BATCH] Processing item ${pendingItem.id}, type=${pendingItem.inputType}`);
+      const updated = session.status === 'processing'
+        ? session
+        : await storage.updateBatchSession(session.id, userId, { status: 'processing' });
+      wakeBatchQueue();
       
-      try {
-        // Process the item based on input type
-        let analysisResult: any;
-        
-        if (pendingItem.inputType === 'url') {
-          // Use existing extract+analyze flow for URL
-          const url = pendingItem.inputValue;
-          
-          // Step 1: Extract item details
-          const extractData = await fetchJsonWithDebug(
-            `http://localhost:${process.env.PORT || 5000}/api/items/extract`,
-            {
-              method: 'POST',
-              headers: { 
-                'Content-Type': 'application/json',
-                'Cookie': req.headers.cookie 
-              },
-              body: JSON.stringify({ url })
-            },
-            'Extract'
-          );
-          
-          // Step 2: Analyze the extracted item
-          analysisResult = await fetchJsonWithDebug(
-            `http://localhost:${process.env.PORT || 5000}/api/items/analyze`,
-            {
-              method: 'POST',
-              headers: { 
-                'Content-Type': 'application/json',
-                'Cookie': req.headers.cookie 
-              },
-              body: JSON.stringify({
-                url,
-                title: extractData.title,
-                price: extractData.price,
-                shipping: extractData.shipping,
-                condition: extractData.condition
-              })
-            },
-            'Analyze'
-          );
-        } else {
-          // Photo/Camera input - first identify item via OpenAI Vision, then analyze
-          console.log(`[BATCH] Step: Identify - sending image to vision API (base64 length: ${pendingItem.inputValue?.length || 0})`);
-          
-          const identifyData = await fetchJsonWithDebug(
-            `http://localhost:${process.env.PORT || 5000}/api/scan-sessions/identify`,
-            {
-              method: 'POST',
-              headers: { 
-                'Content-Type': 'application/json',
-                'Cookie': req.headers.cookie 
-              },
-              body: JSON.stringify({
-                imageBase64: pendingItem.inputValue
-              })
-            },
-            'Identify'
-          );
-          
-          console.log(`[BATCH] Identify response: sessionId=${identifyData.sessionId}, candidates=${identifyData.candidates?.length || 0}`);
-          
-          // The identify endpoint returns { sessionId, candidates }
-          // For batch processing, auto-select the best candidate and analyze
-          if (identifyData.candidates && identifyData.candidates.length > 0) {
-            // Auto-select best candidate (first one, sorted by confidence)
-            const bestCandidate = identifyData.candidates[0];
-            console.log(`[BATCH] Selected candidate: "${bestCandidate.title}" (${bestCandidate.category}, confidence: ${bestCandidate.confidence})`);
-            
-            // Step 3: Confirm and analyze the identified item
-            analysisResult = await fetchJsonWithDebug(
-              `http://localhost:${process.env.PORT || 5000}/api/items/analyze`,
-              {
-                method: 'POST',
-                headers: { 
-                  'Content-Type': 'application/json',
-                  'Cookie': req.headers.cookie 
-                },
-                body: JSON.stringify({
-                  url: 'camera://batch-process', // Placeholder URL for camera scans
-                  title: bestCandidate.title,
-                  price: bestCandidate.estimatedValue?.replace(/[^0-9.]/g, '') || '0',
-                  condition: 'Used',
-                  category: bestCandidate.category || 'Electronics',
-                  shipping: '0',
-                  sourceType: 'camera',
-                  compSource: 'none'
-                })
-              },
-              'Analyze'
-            );
-          } else {
-            // No candidates - create a placeholder result with unknown category
-            console.log(`[BATCH] No candidates found, creating unknown item`);
-            throw new Error('Could not identify item - try a clearer photo or different angle');
-          }
-        }
-        
-        // Update batch item with results including title
-        const itemTitle = analysisResult.title || analysisResult.confirmedTitle || 'Unknown Item';
-        await storage.updateBatchItem(pendingItem.id, userId, {
-          status: 'completed',
-          itemId: analysisResult.id,
-          title: itemTitle,
-          decisionVerdict: analysisResult.decisionVerdict || null,
-          decisionScore: analysisResult.decisionScore || null,
-          processedAt: new Date()
-        });
-        
-        await storage.incrementBatchProcessed(session.id);
-        
-        // Get updated session and item
-        const updatedItem = await storage.getBatchItem(pendingItem.id, userId);
-        const updatedSession = await storage.getBatchSession(session.id, userId);
-        
-        res.json({ 
-          complete: false, 
-          item: updatedItem, 
-          session: updatedSession,
-          analysisResult 
-        });
-        
-      } catch (processErr: any) {
-        // Mark item as failed with detailed error
-        const errorDetail = processErr.message || 'Unknown processing error';
-        console.error(`[BATCH] Item ${pendingItem.id} failed: ${errorDetail}`);
-        
-        await storage.updateBatchItem(pendingItem.id, userId, {
-          status: 'failed',
-          errorMessage: errorDetail,
-          processedAt: new Date()
-        });
-        await storage.incrementBatchProcessed(session.id);
-        
-        const updatedItem = await storage.getBatchItem(pendingItem.id, userId);
-        res.json({ 
-          complete: false, 
-          item: updatedItem, 
-          error: errorDetail 
-        });
-      }
+      console.log(`[BATCH] Session ${session.id} submitted: ${queued} item(s) queued`);
+      res.json({ queued, session: updated });
     } catch (err) {
-      console.error("Process batch item error:", err);
-      res.status(500).json({ message: "Failed to process batch item" });
+      console.error("Process batch error:", err);
+      res.status(500).json({ message: "Failed to start batch processing" });
     }
   });
 
@@ -8317,99 +9485,11 @@ Return a JSON object with EXACTLY these fields:
         });
       }
       
-      const inventoryItems = await storage.getInventoryItems(userId);
-      
-      // Build CSV rows
-      const rows: string[] = [];
-      
-      // Header row - Clean accountant-ready format (no intelligence signals)
-      rows.push([
-        'Item Name',
-        'Category', 
-        'Purchase Date',
-        'Sale Date',
-        'Purchase Price',
-        'Sale Price',
-        'Platform Fees',
-        'Shipping Cost',
-        'Net Profit',
-        'Status',
-        'Source'
-      ].join(','));
-      
-      // Helper to escape CSV values
-      const escapeCSV = (val: string | null | undefined): string => {
-        if (val === null || val === undefined) return '';
-        const str = String(val);
-        if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      };
-      
-      // Helper to format date
-      const formatDate = (date: Date | string | null): string => {
-        if (!date) return '';
-        const d = new Date(date);
-        return d.toISOString().split('T')[0]; // YYYY-MM-DD format
-      };
-      
-      // Process all inventory items - one row per item
-      for (const item of inventoryItems) {
-        const cost = parseFloat(item.purchasePrice || '0');
-        const fees = parseFloat(item.feesEstimate || '0');
-        const shipping = parseFloat(item.outboundShippingActual || item.shippingEstimate || '0');
-        
-        // Determine source (eBay scan, camera, manual)
-        const source = item.itemId ? 'Margin Scan' : 'Manual Entry';
-        
-        if (item.status === 'sold' && item.actualSalePrice) {
-          // SOLD ITEMS - Complete transaction
-          const salePrice = parseFloat(item.actualSalePrice);
-          const profit = salePrice - cost - fees - shipping;
-          
-          rows.push([
-            escapeCSV(item.title),
-            escapeCSV(item.condition || ''), // Using condition as category proxy
-            formatDate(item.purchaseDate || item.createdAt),
-            formatDate(item.soldDate),
-            cost.toFixed(2),
-            salePrice.toFixed(2),
-            fees.toFixed(2),
-            shipping.toFixed(2),
-            profit.toFixed(2),
-            'Sold',
-            source
-          ].join(','));
-          
-        } else {
-          // UNSOLD ITEMS (bought/listed) - Current inventory
-          rows.push([
-            escapeCSV(item.title),
-            escapeCSV(item.condition || ''),
-            formatDate(item.purchaseDate || item.createdAt),
-            '', // No sale date yet
-            cost.toFixed(2),
-            '', // No sale price yet
-            fees.toFixed(2),
-            shipping.toFixed(2),
-            '', // No profit yet
-            item.status === 'listed' ? 'Listed' : 'In Stock',
-            source
-          ].join(','));
-        }
-      }
-      
-      // Generate filename with date
-      const filename = `margin-pnl-${new Date().toISOString().split('T')[0]}.csv`;
-      
-      // Set headers for file download
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      
-      res.send(rows.join('\n'));
+      // One row per inventory item: sold, donated/written off, or still in stock
+      await sendPnlExport(res, userId, `margin-pnl-${new Date().toISOString().split('T')[0]}.csv`);
     } catch (err) {
       console.error("Export P&L error:", err);
+      if (res.headersSent) return res.destroy();
       res.status(500).json({ message: "Failed to export P&L" });
     }
   });
@@ -9483,6 +10563,66 @@ Return a JSON object with EXACTLY these fields:
     }
   });
 
+  // Create saved search alert (new listings for a query that would be a FLIP)
+  app.post(api.priceAlerts.createSearch.path, requireAuth, async (req: any, res) => {
+    try {
+      const parseResult = api.priceAlerts.createSearch.input.safeParse(req.body);
+      if (!parseResult.success) {
+        const firstError = parseResult.error.errors[0];
+        return res.status(400).json({
+          message: firstError?.message || "Invalid saved search",
+          field: firstError?.path?.join('.'),
+        });
+      }
+
+      const userId = req.user.id;
+      const [{ count: searchCount }] = await db.select({ count: sql<number>`count(*)::int` }).from(priceAlerts)
+        .where(and(eq(priceAlerts.userId, userId), eq(priceAlerts.isActive, true), isNotNull(priceAlerts.searchQuery)));
+      if (searchCount >= MAX_SAVED_SEARCHES) {
+        return res.status(400).json({ message: `You can have up to ${MAX_SAVED_SEARCHES} saved searches - remove one first` });
+      }
+
+      const { searchQuery, category, condition, maxPrice, minMarginPercent } = parseResult.data;
+      const [alert] = await db.insert(priceAlerts).values({
+        userId,
+        title: searchQuery,
+        originalPrice: maxPrice !== undefined ? String(maxPrice) : "0",
+        maxBuyPrice: maxPrice !== undefined ? String(maxPrice) : null,
+        searchQuery,
+        category,
+        condition,
+        minMarginPercent: minMarginPercent !== undefined ? String(minMarginPercent) : null,
+      }).returning();
+
+      console.log(`[PriceAlert] User ${userId} saved search "${searchQuery}" (${category}, ${condition})`);
+      res.json(alert);
+    } catch (err) {
+      console.error("Create saved search error:", err);
+      res.status(500).json({ message: "Failed to create saved search" });
+    }
+  });
+
+  // Deals a saved search found
+  app.get(api.priceAlerts.listings.path, requireAuth, async (req: any, res) => {
+    try {
+      const alertId = parseInt(req.params.id);
+      const [alert] = await db.select().from(priceAlerts)
+        .where(and(eq(priceAlerts.id, alertId), eq(priceAlerts.userId, req.user.id)));
+      if (!alert) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+
+      const deals = await db.select().from(priceAlertListings)
+        .where(and(eq(priceAlertListings.alertId, alertId), isNotNull(priceAlertListings.notifiedAt)))
+        .orderBy(desc(priceAlertListings.seenAt))
+        .limit(20);
+      res.json(deals);
+    } catch (err) {
+      console.error("Saved search listings error:", err);
+      res.status(500).json({ message: "Failed to get saved search deals" });
+    }
+  });
+
   // ==========================================================
   // SHOP ENDPOINTS - Printful Integration
   // ==========================================================
@@ -11298,253 +12438,97 @@ Return a JSON object with EXACTLY these fields:
     next();
   };
 
-  // Export scan history as CSV
+  // Export scan history as CSV (ExportPage's original download; same as dataset=scans)
   app.get('/api/export/csv', requireAuth, requireElite, async (req: any, res) => {
     try {
-      const userId = req.user.id;
       const { startDate, endDate, category } = req.query;
-      
-      // Get all user's items
-      let allItems = await db.select().from(items)
-        .where(eq(items.userId, userId))
-        .orderBy(desc(items.createdAt));
-      
-      // Apply filters
-      if (startDate) {
-        allItems = allItems.filter(item => 
-          item.createdAt && new Date(item.createdAt) >= new Date(startDate as string)
-        );
+      const asDay = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+      
+      await sendDataExport(res, req.user.id, {
+        dataset: 'scans',
+        format: 'csv',
+        from: asDay(startDate),
+        to: asDay(endDate),
+        category: typeof category === 'string' && category !== 'all' ? category : undefined,
+      }, `margin-export-${new Date().toISOString().split('T')[0]}.csv`);
+    } catch (err: any) {
+      console.error("CSV export error:", err);
+      if (res.headersSent) return res.destroy();
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Export any dataset as CSV, XLSX or JSON - or the accounting journal
+  app.get(api.exports.download.path, requireAuth, requireElite, async (req: any, res) => {
+    try {
+      const parsed = api.exports.download.input.safeParse(req.query);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return res.status(400).json({ message: issue?.message || "Invalid export options", field: issue?.path.join('.') });
       }
-      if (endDate) {
-        allItems = allItems.filter(item => 
-          item.createdAt && new Date(item.createdAt) <= new Date(endDate as string)
-        );
+      if (parsed.data.from && parsed.data.to && parsed.data.from > parsed.data.to) {
+        return res.status(400).json({ message: "Start date must be before end date", field: "from" });
       }
-      if (category && category !== 'all') {
-        allItems = allItems.filter(item => item.category === category);
-      }
-      
-      // Generate CSV headers
-      const headers = [
-        'Date',
-        'Title',
-        'Category',
-        'Condition',
-        'Buy Price',
-        'Expected Sale Price',
-        'Estimated Profit',
-        'Margin %',
-        'Decision',
-        'Verdict'
-      ];
-      
-      // Generate CSV rows
-      const rows = allItems.map(item => {
-        const buyPrice = item.buyPrice ? parseFloat(item.buyPrice.toString()) : 0;
-        const flipPrice = item.flipPrice ? parseFloat(item.flipPrice.toString()) : 0;
-        const profit = flipPrice - buyPrice;
-        const margin = flipPrice > 0 ? ((profit / flipPrice) * 100).toFixed(1) : '0';
-        
-        return [
-          item.createdAt ? new Date(item.createdAt).toISOString().split('T')[0] : '',
-          `"${(item.confirmedTitle || item.title || '').replace(/"/g, '""')}"`,
-          item.category || 'Other',
-          item.condition || 'Unknown',
-          buyPrice.toFixed(2),
-          flipPrice.toFixed(2),
-          profit.toFixed(2),
-          margin,
-          item.userDecision || 'pending',
-          item.decisionVerdict || item.recommendation || ''
-        ];
-      });
       
-      const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-      
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="margin-export-${new Date().toISOString().split('T')[0]}.csv"`);
-      res.send(csv);
+      await sendDataExport(res, req.user.id, parsed.data);
     } catch (err: any) {
-      console.error("CSV export error:", err);
+      console.error("Data export error:", err);
+      if (res.headersSent) return res.destroy();
       res.status(500).json({ message: "Failed to export data" });
     }
   });
 
-  // Tax report summary
+  // Schedule C tax report - built from inventory COGS and business expenses
+  const parseTaxYear = (year: unknown): number | null => {
+    const reportYear = year ? parseInt(year as string) : new Date().getFullYear();
+    return isNaN(reportYear) || reportYear < 2000 || reportYear > 2100 ? null : reportYear;
+  };
+
+  const buildUserScheduleC = async (userId: number, taxYear: number) => {
+    const [inventory, expenses] = await Promise.all([
+      storage.getInventoryItems(userId),
+      storage.getBusinessExpenses(userId, taxYear),
+    ]);
+    return buildScheduleC(taxYear, inventory, expenses);
+  };
+
   app.get('/api/export/tax-report', requireAuth, requireElite, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const { year } = req.query;
-      const reportYear = year ? parseInt(year as string) : new Date().getFullYear();
-      
-      // Get all items from the specified year
-      const startOfYear = new Date(reportYear, 0, 1);
-      const endOfYear = new Date(reportYear, 11, 31, 23, 59, 59);
-      
-      const yearItems = await db.select().from(items)
-        .where(eq(items.userId, userId))
-        .orderBy(desc(items.createdAt));
-      
-      const filteredItems = yearItems.filter(item => {
-        if (!item.createdAt) return false;
-        const itemDate = new Date(item.createdAt);
-        return itemDate >= startOfYear && itemDate <= endOfYear;
-      });
-      
-      // Calculate tax-relevant metrics
-      const flips = filteredItems.filter(item => item.userDecision === 'flip');
-      const skips = filteredItems.filter(item => item.userDecision === 'skip');
-      
-      let totalCost = 0;
-      let totalRevenue = 0;
-      let totalProfit = 0;
-      let totalFees = 0;
-      
-      const categoryBreakdown: Record<string, { count: number; cost: number; revenue: number; profit: number }> = {};
-      const monthlyBreakdown: Record<string, { count: number; cost: number; revenue: number; profit: number }> = {};
-      
-      flips.forEach(item => {
-        const buyPrice = item.buyPrice ? parseFloat(item.buyPrice.toString()) : 0;
-        const flipPrice = item.flipPrice ? parseFloat(item.flipPrice.toString()) : 0;
-        const profit = flipPrice - buyPrice;
-        const fees = flipPrice * 0.13; // Platform fees
-        
-        totalCost += buyPrice;
-        totalRevenue += flipPrice;
-        totalProfit += profit;
-        totalFees += fees;
-        
-        // Category breakdown
-        const cat = item.category || 'Other';
-        if (!categoryBreakdown[cat]) {
-          categoryBreakdown[cat] = { count: 0, cost: 0, revenue: 0, profit: 0 };
-        }
-        categoryBreakdown[cat].count++;
-        categoryBreakdown[cat].cost += buyPrice;
-        categoryBreakdown[cat].revenue += flipPrice;
-        categoryBreakdown[cat].profit += profit;
-        
-        // Monthly breakdown
-        if (item.createdAt) {
-          const month = new Date(item.createdAt).toLocaleString('default', { month: 'short', year: 'numeric' });
-          if (!monthlyBreakdown[month]) {
-            monthlyBreakdown[month] = { count: 0, cost: 0, revenue: 0, profit: 0 };
-          }
-          monthlyBreakdown[month].count++;
-          monthlyBreakdown[month].cost += buyPrice;
-          monthlyBreakdown[month].revenue += flipPrice;
-          monthlyBreakdown[month].profit += profit;
-        }
-      });
+      const reportYear = parseTaxYear(req.query.year);
+      if (reportYear === null) {
+        return res.status(400).json({ message: "Invalid tax year", field: "year" });
+      }
       
-      res.json({
-        year: reportYear,
-        summary: {
-          totalScans: filteredItems.length,
-          totalFlips: flips.length,
-          totalSkips: skips.length,
-          totalCost: parseFloat(totalCost.toFixed(2)),
-          totalRevenue: parseFloat(totalRevenue.toFixed(2)),
-          totalProfit: parseFloat(totalProfit.toFixed(2)),
-          totalFees: parseFloat(totalFees.toFixed(2)),
-          netIncome: parseFloat((totalProfit - totalFees).toFixed(2)),
-          averageMargin: totalRevenue > 0 ? parseFloat(((totalProfit / totalRevenue) * 100).toFixed(1)) : 0,
-        },
-        categoryBreakdown: Object.entries(categoryBreakdown).map(([name, data]) => ({
-          category: name,
-          ...data,
-          cost: parseFloat(data.cost.toFixed(2)),
-          revenue: parseFloat(data.revenue.toFixed(2)),
-          profit: parseFloat(data.profit.toFixed(2)),
-        })),
-        monthlyBreakdown: Object.entries(monthlyBreakdown).map(([month, data]) => ({
-          month,
-          ...data,
-          cost: parseFloat(data.cost.toFixed(2)),
-          revenue: parseFloat(data.revenue.toFixed(2)),
-          profit: parseFloat(data.profit.toFixed(2)),
-        })),
-        disclaimer: "This report is for informational purposes only. Consult a tax professional for official tax advice.",
-      });
+      const report = await buildUserScheduleC(req.user.id, reportYear);
+      res.json({ ...report, disclaimer: TAX_DISCLAIMER });
     } catch (err: any) {
       console.error("Tax report error:", err);
       res.status(500).json({ message: "Failed to generate tax report" });
     }
   });
 
-  // Download tax report as PDF (simplified - returns structured data for client-side PDF generation)
+  // Download the tax package: ?format=csv (attachment) or html (printable, save as PDF)
   app.get('/api/export/tax-report/download', requireAuth, requireElite, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      const { year } = req.query;
-      const reportYear = year ? parseInt(year as string) : new Date().getFullYear();
-      
-      // Get tax report data
-      const startOfYear = new Date(reportYear, 0, 1);
-      const endOfYear = new Date(reportYear, 11, 31, 23, 59, 59);
-      
-      const yearItems = await db.select().from(items)
-        .where(eq(items.userId, userId))
-        .orderBy(desc(items.createdAt));
-      
-      const filteredItems = yearItems.filter(item => {
-        if (!item.createdAt) return false;
-        const itemDate = new Date(item.createdAt);
-        return itemDate >= startOfYear && itemDate <= endOfYear;
-      });
-      
-      const flips = filteredItems.filter(item => item.userDecision === 'flip');
+      const reportYear = parseTaxYear(req.query.year);
+      if (reportYear === null) {
+        return res.status(400).json({ message: "Invalid tax year", field: "year" });
+      }
+      const format = req.query.format === 'csv' ? 'csv' : 'html';
       
-      let totalCost = 0;
-      let totalRevenue = 0;
+      const user = await storage.getUser(req.user.id);
+      const report = await buildUserScheduleC(req.user.id, reportYear);
+      const options = { businessName: user?.username };
       
-      flips.forEach(item => {
-        const buyPrice = item.buyPrice ? parseFloat(item.buyPrice.toString()) : 0;
-        const flipPrice = item.flipPrice ? parseFloat(item.flipPrice.toString()) : 0;
-        totalCost += buyPrice;
-        totalRevenue += flipPrice;
-      });
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="margin-schedule-c-${reportYear}.csv"`);
+        return res.send(renderScheduleCCsv(report, options));
+      }
       
-      const totalProfit = totalRevenue - totalCost;
-      const totalFees = totalRevenue * 0.13;
-      
-      // Generate plain text report for download
-      const reportText = `
-MARGIN TAX SUMMARY REPORT
-=========================
-Year: ${reportYear}
-Generated: ${new Date().toISOString()}
-User: ${user?.username || 'Unknown'}
-
-SUMMARY
--------
-Total Scans: ${filteredItems.length}
-Total Flips: ${flips.length}
-Total Cost of Goods: $${totalCost.toFixed(2)}
-Total Revenue: $${totalRevenue.toFixed(2)}
-Total Gross Profit: $${totalProfit.toFixed(2)}
-Estimated Platform Fees: $${totalFees.toFixed(2)}
-Estimated Net Income: $${(totalProfit - totalFees).toFixed(2)}
-
-ITEM DETAILS
-------------
-${flips.map(item => {
-  const buyPrice = item.buyPrice ? parseFloat(item.buyPrice.toString()) : 0;
-  const flipPrice = item.flipPrice ? parseFloat(item.flipPrice.toString()) : 0;
-  return `${item.createdAt ? new Date(item.createdAt).toISOString().split('T')[0] : 'N/A'} | ${item.confirmedTitle || item.title || 'Unknown'} | Cost: $${buyPrice.toFixed(2)} | Sale: $${flipPrice.toFixed(2)}`;
-}).join('\n')}
-
-DISCLAIMER
-----------
-This report is for informational purposes only and should not be considered tax advice.
-Please consult with a qualified tax professional for your specific tax situation.
-Margin does not provide tax, legal, or accounting advice.
-      `.trim();
-      
-      res.setHeader('Content-Type', 'text/plain');
-      res.setHeader('Content-Disposition', `attachment; filename="margin-tax-report-${reportYear}.txt"`);
-      res.send(reportText);
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Disposition', `inline; filename="margin-schedule-c-${reportYear}.html"`);
+      res.send(renderScheduleCHtml(report, options));
     } catch (err: any) {
       console.error("Tax report download error:", err);
       res.status(500).json({ message: "Failed to download tax report" });
@@ -11561,11 +12545,13 @@ Margin does not provide tax, legal, or accounting advice.
   
   app.get("/api/comps/stats", requireAuth, async (_req, res) => {
     try {
-      const stats = soldListingsProvider.getCacheStats();
+      const stats = await soldListingsProvider.getCacheStats();
+      const sharedCache = await cache.getStats();
       const totalRequests = stats.totalCacheHits + stats.totalLiveRequests;
       res.json({
         success: true,
         ...stats,
+        sharedCache, // hit/miss/stale metrics for every comp provider namespace
         status: totalRequests > 0 
           ? `${stats.primaryCacheSize} cached queries, ${stats.hitRate} hit rate` 
           : 'No requests yet'
@@ -11575,9 +12561,41 @@ Margin does not provide tax, legal, or accounting advice.
     }
   });
   
+  // Merged comps from every registered provider for the category, with per-source attribution
+  app.get("/api/comps/merged", requireAuth, async (req, res) => {
+    try {
+      const query = (req.query.q as string || "").trim();
+      if (!query) {
+        return res.status(400).json({ success: false, error: "Query parameter 'q' is required" });
+      }
+      const category = (req.query.category as string) || "Other";
+      const merged = await fetchMergedComps(
+        { query, category, itemTitle: query },
+        { includeAskingPrices: req.query.includeAsking === 'true' }
+      );
+      res.json({ success: true, ...merged });
+    } catch (err: any) {
+      res.status(500).json({ success: false, error: err.message });
+    }
+  });
+  
+  app.get("/api/comps/providers", requireAdmin, async (_req, res) => {
+    res.json({
+      providers: getCompProviders().map(p => ({
+        id: p.id,
+        label: p.label,
+        platform: p.platform,
+        priceKind: p.priceKind,
+        fallbackOnly: !!p.fallbackOnly,
+        categories: p.categories,
+        configured: p.isConfigured(),
+      })),
+    });
+  });
+  
   app.post("/api/comps/clear-cache", requireAdmin, async (_req, res) => {
     try {
-      soldListingsProvider.clearCache();
+      await soldListingsProvider.clearCache();
       res.json({ success: true, message: "Cache cleared" });
     } catch (err: any) {
       res.status(500).json({ success: false, error: err.message });
@@ -0,0 +1,77 @@
+/**
+ * Scan Comp Pipeline Tests
+ */
+
+import type { SoldComp } from '@shared/schema';
+
+const fetchMergedComps = vi.hoisted(() => vi.fn());
+const filterRelevantComps = vi.hoisted(() => vi.fn());
+
+vi.mock('./comp-providers', () => ({
+  fetchMergedComps,
+  dedupeComps: (comps: SoldComp[]) => ({ comps, duplicatesRemoved: 0 }),
+  MIN_PRIMARY_SOLD_COMPS: 5,
+}));
+vi.mock('./ebay-api', () => ({
+  filterRelevantComps,
+  classifyCondition: () => 'used',
+  detectCategoryFromTitle: () => '',
+  getEbayCategoryId: () => '139971',
+}));
+
+import { fetchCompsWithFallback } from './scan-comps';
+
+const comps = (source: string, count: number): SoldComp[] => Array.from({ length: count }, (_, i) => ({
+  soldPrice: 100 + i,
+  shippingCost: 'Free',
+  dateSold: null,
+  condition: 'Used',
+  totalPrice: 100 + i,
+  title: `Nintendo Switch OLED ${source} ${i}`,
+  source,
+}));
+
+// One provider's result per call, keyed by the provider asked for
+const mockProviders = (byProvider: Record<string, SoldComp[]>) => {
+  fetchMergedComps.mockImplementation((_query: unknown, options: { providerIds: string[] }) =>
+    Promise.resolve({ comps: byProvider[options.providerIds[0]] || [] }));
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  filterRelevantComps.mockImplementation((list: SoldComp[]) => list);
+});
+
+describe('Scan comps', () => {
+  it('should price from PriceCharting alone when it has the product', async () => {
+    mockProviders({ pricecharting: comps('pricecharting', 2), ebay_finding: comps('ebay_finding', 10) });
+
+    const result = await fetchCompsWithFallback('Nintendo Switch OLED', 'Video Games');
+
+    expect(result?.source).toBe('pricecharting');
+    expect(result?.comps).toHaveLength(2);
+    expect(fetchMergedComps).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to SerpAPI when too few Finding comps survive filtering', async () => {
+    const finding = comps('ebay_finding', 10);
+    mockProviders({ ebay_finding: finding, serpapi: comps('serpapi', 6) });
+    filterRelevantComps.mockImplementation((list: SoldComp[]) => list.filter(c => c.source === 'serpapi' || finding.indexOf(c) < 2));
+
+    const result = await fetchCompsWithFallback('Nintendo Switch OLED', 'Video Games');
+
+    expect(fetchMergedComps).toHaveBeenLastCalledWith(expect.anything(), { providerIds: ['serpapi'] });
+    expect(result?.comps).toHaveLength(8);
+    expect(result?.source).toBe('serpapi');
+  });
+
+  it('should not pay for SerpAPI when enough Finding comps survive filtering', async () => {
+    mockProviders({ ebay_finding: comps('ebay_finding', 6) });
+
+    const result = await fetchCompsWithFallback('Nintendo Switch OLED', 'Video Games');
+
+    expect(fetchMergedComps).not.toHaveBeenCalledWith(expect.anything(), { providerIds: ['serpapi'] });
+    expect(result?.source).toBe('finding_api');
+    expect(result?.confidence).toBe('medium');
+  });
+});
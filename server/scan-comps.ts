@@ -0,0 +1,261 @@
+/**
+ * Scan Comp Pipeline
+ *
+ * Sold comps for a scan, priced from eBay sold data only. Every source is
+ * fetched through the comp provider registry (./comp-providers), in priority
+ * order:
+ *
+ * 1. PriceCharting (games/TCG) - prices for the matched product, used as-is
+ *    when it has any
+ * 2. eBay Finding API (free) - relevance-filtered, or cleaned for watches
+ * 3. SerpAPI (paid) - only when fewer than MIN_PRIMARY_SOLD_COMPS Finding comps
+ *    survive that filtering; its comps are merged with the Finding comps and
+ *    filtered again
+ *
+ * No sold data = null, and the scan goes to Research Mode (active listings are
+ * never used for pricing).
+ */
+
+import type { SoldComp } from '@shared/schema';
+import { dedupeComps, fetchMergedComps, MIN_PRIMARY_SOLD_COMPS, type CompQuery } from './comp-providers';
+import {
+  classifyCondition,
+  detectCategoryFromTitle,
+  filterRelevantComps,
+  getEbayCategoryId,
+  type ConditionBucketStats,
+  type ConditionSeparatedComps,
+  type ConfidenceLevel,
+  type DataSourceType,
+} from './ebay-api';
+import { buildWatchCompQuery, cleanSoldComps, type CleanedCompResult } from './watch-comp-processor';
+
+export interface ScanCompsResult {
+  comps: SoldComp[];
+  source: DataSourceType;
+  confidence: ConfidenceLevel;
+  cleanedResult?: CleanedCompResult;
+}
+
+const SCAN_COMP_SOURCES: Record<string, DataSourceType> = {
+  pricecharting: 'pricecharting',
+  ebay_finding: 'finding_api',
+  serpapi: 'serpapi',
+};
+
+/**
+ * Provenance label for a scan's comps: the provider that contributed most.
+ */
+function getScanCompSource(comps: SoldComp[]): DataSourceType {
+  const counts = new Map<string, number>();
+  for (const comp of comps) {
+    if (comp.source) counts.set(comp.source, (counts.get(comp.source) || 0) + 1);
+  }
+  let top: string | null = null;
+  counts.forEach((count, id) => {
+    if (top === null || count > counts.get(top)!) top = id;
+  });
+  return (top && SCAN_COMP_SOURCES[top]) || 'api';
+}
+
+/**
+ * eBay sold listings -> the comps a scan can price from: parts/repair/bundles
+ * removed and outliers trimmed for watches, relevance-filtered otherwise.
+ */
+function toScanComps(comps: SoldComp[], query: string, isWatchCategory: boolean, itemTitle?: string): ScanCompsResult | null {
+  if (comps.length === 0) return null;
+
+  if (isWatchCategory) {
+    // Filter to only comps with valid totalPrice for cleanSoldComps
+    const compsWithPrice = comps
+      .filter(c => c.totalPrice !== undefined && c.totalPrice > 0)
+      .map(c => ({ ...c, totalPrice: c.totalPrice as number }));
+    const cleanedResult = cleanSoldComps(compsWithPrice, query);
+    console.log(`[ScanComps] Watch comp cleaning: ${comps.length} -> ${cleanedResult.compCount} clean comps, confidence: ${cleanedResult.confidence}`);
+    if (!cleanedResult.success || cleanedResult.compCount === 0) return null;
+
+    // HIGH confidence only with ≥8 clean comps
+    if (cleanedResult.compCount < 8) {
+      console.log(`[ScanComps] Low comp confidence: ${cleanedResult.compCount}/8 required comps`);
+    }
+    return {
+      comps: cleanedResult.comps,
+      source: getScanCompSource(cleanedResult.comps),
+      confidence: cleanedResult.compCount >= 8 ? 'high' : cleanedResult.compCount >= 3 ? 'medium' : 'low',
+      cleanedResult, // Include cleaned stats for decision engine
+    };
+  }
+
+  const filteredComps = filterRelevantComps(comps, query, itemTitle);
+  if (filteredComps.length === 0) return null;
+  return { comps: filteredComps, source: getScanCompSource(filteredComps), confidence: 'medium' };
+}
+
+export async function fetchCompsWithFallback(
+  searchQuery: string,
+  category: string,
+  options?: {
+    limit?: number;
+    conditionMatch?: string;
+    preferBrowse?: boolean;
+    itemTitle?: string;
+  }
+): Promise<ScanCompsResult | null> {
+  // Auto-detect category from search query or item title if not provided
+  let effectiveCategory = category;
+  if (!getEbayCategoryId(effectiveCategory)) {
+    const detectedCategory = detectCategoryFromTitle(options?.itemTitle || searchQuery);
+    if (detectedCategory) {
+      effectiveCategory = detectedCategory;
+      console.log(`[ScanComps] Auto-detected category: ${effectiveCategory} from title`);
+    }
+  }
+
+  const isWatchCategory = effectiveCategory === 'Watches' ||
+    effectiveCategory === "Men's Watches" ||
+    effectiveCategory === "Women's Watches";
+
+  // For watches, build tighter query with brand + family + model/movement
+  let effectiveQuery = searchQuery;
+  if (isWatchCategory && options?.itemTitle) {
+    const watchQuery = buildWatchCompQuery(options.itemTitle);
+    if (watchQuery.query.length > 5) {
+      effectiveQuery = watchQuery.query;
+      console.log(`[ScanComps] Using tight watch query: "${effectiveQuery}" (identifiers: ${JSON.stringify(watchQuery.identifiers)})`);
+    }
+  }
+
+  const compQuery: CompQuery = {
+    query: effectiveQuery,
+    category: effectiveCategory,
+    itemTitle: options?.itemTitle,
+    limit: options?.limit || 30,
+  };
+
+  // Priority 1: PriceCharting - its prices are for the matched product already
+  const priceCharting = await fetchMergedComps(compQuery, { providerIds: ['pricecharting'] });
+  if (priceCharting.comps.length > 0) {
+    return { comps: priceCharting.comps, source: 'pricecharting', confidence: 'high' };
+  }
+
+  // Priority 2: eBay Finding API
+  const finding = await fetchMergedComps(compQuery, { providerIds: ['ebay_finding'] });
+  let result = toScanComps(finding.comps, effectiveQuery, isWatchCategory, options?.itemTitle);
+
+  // Priority 3: SerpAPI, decided on the comps left after filtering - a page of
+  // irrelevant Finding results is no better than none
+  const usableCount = result?.cleanedResult?.compCount ?? result?.comps.length ?? 0;
+  if (usableCount < MIN_PRIMARY_SOLD_COMPS) {
+    const serpApi = await fetchMergedComps(compQuery, { providerIds: ['serpapi'] });
+    if (serpApi.comps.length > 0) {
+      console.log(`[ScanComps] Only ${usableCount} usable Finding comps - adding ${serpApi.comps.length} from SerpAPI`);
+      const { comps } = dedupeComps([...finding.comps, ...serpApi.comps]);
+      result = toScanComps(comps, effectiveQuery, isWatchCategory, options?.itemTitle) ?? result;
+    }
+  }
+  if (result) return result;
+
+  // REMOVED: Browse API fallback
+  // Browse API returns ACTIVE listings, not sold items.
+  // Estimating sold prices from active listings is inaccurate and misleading.
+  // If we can't get real sold data, return null to trigger Research Mode.
+
+  console.log(`[Comps] No real sold data found for "${searchQuery}" - will require Research Mode`);
+  return null;
+}
+
+/**
+ * Compute stats for a set of comps
+ */
+function computeBucketStats(comps: SoldComp[]): ConditionBucketStats {
+  if (comps.length === 0) {
+    return { comps, count: 0, medianPrice: null, lowPrice: null, highPrice: null };
+  }
+  
+  const prices = comps.map(c => c.totalPrice).filter((p): p is number => p !== undefined && p > 0).sort((a, b) => a - b);
+  
+  if (prices.length === 0) {
+    return { comps, count: 0, medianPrice: null, lowPrice: null, highPrice: null };
+  }
+  
+  const mid = Math.floor(prices.length / 2);
+  const medianPrice = prices.length % 2 === 0 
+    ? (prices[mid - 1] + prices[mid]) / 2 
+    : prices[mid];
+  
+  return {
+    comps,
+    count: prices.length,
+    medianPrice: Math.round(medianPrice * 100) / 100,
+    lowPrice: Math.round(prices[0] * 100) / 100,
+    highPrice: Math.round(prices[prices.length - 1] * 100) / 100,
+  };
+}
+
+/**
+ * Fetch comps and separate them into new-like vs used buckets
+ * Returns stats for each bucket to support condition-aware pricing
+ */
+export async function fetchCompsByCondition(
+  searchQuery: string,
+  category: string,
+  options?: { 
+    limit?: number; 
+    itemTitle?: string;
+    preferBrowse?: boolean;
+  }
+): Promise<ConditionSeparatedComps | null> {
+  // Fetch more comps to ensure we have enough for both buckets
+  const fetchLimit = Math.max((options?.limit || 10) * 3, 30);
+  
+  const result = await fetchCompsWithFallback(searchQuery, category, {
+    ...options,
+    limit: fetchLimit,
+  });
+  
+  if (!result || result.comps.length === 0) {
+    return null;
+  }
+  
+  // Separate comps by condition
+  const newLikeComps: SoldComp[] = [];
+  const usedComps: SoldComp[] = [];
+  
+  for (const comp of result.comps) {
+    const bucket = classifyCondition(comp.condition);
+    if (bucket === 'newLike') {
+      newLikeComps.push(comp);
+    } else {
+      usedComps.push(comp);
+    }
+  }
+  
+  // For watches with cleanedResult, use the pre-computed cleaned median instead of recalculating
+  // This ensures parts/repair/bundles are excluded and outliers are trimmed.
+  // Recent sales weigh more: the recency-weighted median wins when sale dates were known
+  // (condition buckets stay plain - the scan route applies its own recency factor to those)
+  let allStats: ConditionBucketStats;
+  if (result.cleanedResult && result.cleanedResult.success) {
+    const { medianPrice, weightedMedianPrice, trend } = result.cleanedResult;
+    const useWeighted = !!weightedMedianPrice && !!trend && trend.datedCompCount > 0;
+    allStats = {
+      comps: result.comps,
+      count: result.cleanedResult.compCount,
+      medianPrice: useWeighted ? weightedMedianPrice : medianPrice,
+      lowPrice: result.cleanedResult.lowPrice,
+      highPrice: result.cleanedResult.highPrice,
+    };
+    console.log(`[ScanComps] Using cleaned median for watches: $${allStats.medianPrice}${useWeighted ? ` (recency-weighted, plain $${medianPrice})` : ''} (${result.cleanedResult.compCount} clean comps)`);
+  } else {
+    allStats = computeBucketStats(result.comps);
+  }
+  
+  return {
+    newLike: computeBucketStats(newLikeComps),
+    used: computeBucketStats(usedComps),
+    all: allStats,
+    source: result.source,
+    confidence: result.confidence,
+  };
+}
+
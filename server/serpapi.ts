@@ -8,6 +8,8 @@
  * Free tier: 250 searches/month
  */
 
+import { fixtureFetch } from './api-fixtures';
+
 interface SoldComp {
   soldPrice: number;
   shippingCost: string;
@@ -114,7 +116,7 @@ export async function fetchSoldItemsFromSerpApi(
     const url = `${SERPAPI_BASE}?${params.toString()}`;
     console.log(`[SerpAPI] Fetching sold items for: "${query}"`);
 
-    const response = await fetch(url);
+    const response = await fixtureFetch('serpapi', url);
     
     if (!response.ok) {
       throw new Error(`SerpAPI returned ${response.status}: ${response.statusText}`);
@@ -247,7 +249,7 @@ export interface UserSelectableListing {
   condition: string;
   imageUrl: string | null;
   link: string;
-  dateSold: string;
+  dateSold: string | null;
 }
 
 export interface UserSelectableCompsResult {
@@ -305,7 +307,7 @@ export async function fetchUserSelectableComps(
     const url = `${SERPAPI_BASE}?${params.toString()}`;
     console.log(`[SerpAPI] Fetching user-selectable comps for: "${query}"`);
 
-    const response = await fetch(url);
+    const response = await fixtureFetch('serpapi', url);
     
     if (!response.ok) {
       throw new Error(`SerpAPI returned ${response.status}: ${response.statusText}`);
@@ -2,7 +2,8 @@
  * BULLETPROOF Sold Listings Provider
  * 
  * Architecture:
- * ✅ 24-hour cache layer (reduces API calls by 80%+)
+ * ✅ 24-hour shared cache layer (server/cache-service.ts - persists across restarts)
+ * ✅ Stale-while-revalidate (expired entries served while refreshing)
  * ✅ Last-known-good storage (fallback when API fails)
  * ✅ Fallback chain: cache → live API → last-known-good
  * ✅ Request throttling (prevents rate limits)
@@ -16,69 +17,31 @@
 
 import { fetchUserSelectableComps, type UserSelectableListing, type UserSelectableCompsResult } from "./serpapi";
 import { fetchSoldItemsFromFindingApi } from "./ebay-api";
+import { cache, cacheKeys } from "./cache-service";
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours - aggressive caching
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours when no category is given
 const STALE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days for last-known-good
+const CACHE_NAMESPACE = 'sold_listings';
 const MAX_RESULTS_PER_SEARCH = 30;
 const MIN_REQUEST_INTERVAL_MS = 800; // ~1.25 req/sec max
 const REQUEST_TIMEOUT_MS = 10000; // 10 second timeout
 
 // ============================================================================
-// CACHE STORAGE
+// REQUEST TRACKING
 // ============================================================================
 
-interface CacheEntry {
-  result: UserSelectableCompsResult;
-  timestamp: number;
-  source: 'live' | 'cache' | 'fallback';
-}
-
-// Primary cache (24-hour TTL)
-const primaryCache = new Map<string, CacheEntry>();
-
-// Last-known-good cache (7-day TTL, used when live API fails)
-const lastKnownGoodCache = new Map<string, CacheEntry>();
-
-// Request tracking
+// Cache hits/misses are tracked by the cache service (namespace: sold_listings)
 let lastRequestTime = 0;
-let totalCacheHits = 0;
 let totalLiveRequests = 0;
-let totalFallbacks = 0;
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-function getCacheKey(query: string, minPrice?: number, maxPrice?: number): string {
-  return `${query.toLowerCase().trim()}|${minPrice || ''}|${maxPrice || ''}`;
-}
-
-function cleanExpiredCache(): void {
-  const now = Date.now();
-  
-  // Clean primary cache (24h)
-  const primaryKeysToDelete: string[] = [];
-  primaryCache.forEach((entry, key) => {
-    if (now - entry.timestamp > CACHE_TTL_MS) {
-      primaryKeysToDelete.push(key);
-    }
-  });
-  primaryKeysToDelete.forEach(key => primaryCache.delete(key));
-  
-  // Clean last-known-good cache (7d)
-  const lkgKeysToDelete: string[] = [];
-  lastKnownGoodCache.forEach((entry, key) => {
-    if (now - entry.timestamp > STALE_CACHE_TTL_MS) {
-      lkgKeysToDelete.push(key);
-    }
-  });
-  lkgKeysToDelete.forEach(key => lastKnownGoodCache.delete(key));
-}
-
 async function throttle(): Promise<void> {
   const now = Date.now();
   const timeSinceLastRequest = now - lastRequestTime;
@@ -96,6 +59,7 @@ export interface SoldListingsSearchOptions {
   minPrice?: number;
   maxPrice?: number;
   limit?: number;
+  category?: string; // Category TTL; 24h when omitted
   skipCache?: boolean; // Force fresh fetch
 }
 
@@ -107,15 +71,17 @@ export interface EnhancedCompsResult extends UserSelectableCompsResult {
 
 export interface SoldListingsProvider {
   search(query: string, options?: SoldListingsSearchOptions): Promise<EnhancedCompsResult>;
-  clearCache(): void;
-  getCacheStats(): CacheStats;
+  clearCache(): Promise<void>;
+  getCacheStats(): Promise<CacheStats>;
 }
 
 export interface CacheStats {
-  primaryCacheSize: number;
-  lastKnownGoodSize: number;
+  backend: string;
+  primaryCacheSize: number; // fresh entries
+  lastKnownGoodSize: number; // fresh + stale entries
   ttlHours: number;
   totalCacheHits: number;
+  totalStaleHits: number;
   totalLiveRequests: number;
   totalFallbacks: number;
   hitRate: string;
@@ -129,89 +95,43 @@ class BulletproofSoldListingsProvider implements SoldListingsProvider {
   
   async search(query: string, options: SoldListingsSearchOptions = {}): Promise<EnhancedCompsResult> {
     const startTime = Date.now();
-    const cacheKey = getCacheKey(query, options.minPrice, options.maxPrice);
-    
-    // Clean expired entries
-    cleanExpiredCache();
-    
-    // ========================================================================
-    // STEP 1: Check primary cache (24h TTL)
-    // ========================================================================
-    if (!options.skipCache) {
-      const cached = primaryCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-        totalCacheHits++;
-        const cacheAgeMinutes = Math.round((Date.now() - cached.timestamp) / 60000);
-        console.log(`[Comps] ✅ Cache HIT for "${query}" (${cacheAgeMinutes}m old, ${cached.result.listings.length} items)`);
-        
-        return {
-          ...cached.result,
-          source: 'cache',
-          cacheAge: cacheAgeMinutes,
-          responseTimeMs: Date.now() - startTime,
-        };
-      }
-    }
+    const cacheKey = cacheKeys.soldListings(query, options.minPrice, options.maxPrice);
+    const cacheOptions = {
+      category: options.category,
+      ttlMs: options.category ? undefined : CACHE_TTL_MS,
+      staleMs: STALE_CACHE_TTL_MS,
+    };
+    const fetchLive = () => this.fetchLive(query, options);
     
-    // ========================================================================
-    // STEP 2: Try eBay Finding API (FREE - PRIMARY SOURCE)
-    // Cost-saving mode: Using free eBay APIs instead of paid SerpAPI
-    // ========================================================================
     try {
-      await throttle();
-      totalLiveRequests++;
-      
-      const limit = Math.min(options.limit || MAX_RESULTS_PER_SEARCH, MAX_RESULTS_PER_SEARCH);
-      console.log(`[Comps] 🔄 Fetching LIVE from eBay Finding API (FREE): "${query}" (limit: ${limit})`);
-      
-      const findingResult = await fetchSoldItemsFromFindingApi(query, {
-        limit,
-        minPrice: options.minPrice,
-        maxPrice: options.maxPrice,
-        itemCategory: 'Other'
-      });
+      // ======================================================================
+      // STEP 1: Shared cache (fresh hit, or stale hit refreshed in background)
+      // STEP 2: Live eBay Finding API on a miss
+      // ======================================================================
+      let result: UserSelectableCompsResult;
+      let source: EnhancedCompsResult['source'];
+      let cacheAgeMinutes: number | undefined;
       
-      if (findingResult.success && findingResult.comps.length > 0) {
-        // Convert SoldComp[] to UserSelectableListing[]
-        const listings: UserSelectableListing[] = findingResult.comps.map((comp, idx) => ({
-          id: `finding-${Date.now()}-${idx}`,
-          title: comp.title || 'Unknown Item',
-          soldPrice: comp.soldPrice,
-          shippingCost: (comp.totalPrice || comp.soldPrice) - comp.soldPrice,
-          totalPrice: comp.totalPrice || comp.soldPrice,
-          condition: comp.condition,
-          imageUrl: comp.imageUrl || null,
-          link: `https://www.ebay.com/sch/i.html?_nkw=${encodeURIComponent(query)}&LH_Sold=1&LH_Complete=1`,
-          dateSold: comp.dateSold,
-        }));
-        
-        const result: UserSelectableCompsResult = {
-          success: true,
-          listings,
-          totalResults: listings.length,
-          query,
-        };
-        
-        // Cache the result
-        const entry: CacheEntry = {
-          result,
-          timestamp: Date.now(),
-          source: 'live',
-        };
-        primaryCache.set(cacheKey, entry);
-        lastKnownGoodCache.set(cacheKey, entry);
-        
-        console.log(`[Comps] ✅ LIVE success: ${result.listings.length} items for "${query}" in ${Date.now() - startTime}ms`);
-        
-        return {
-          ...result,
-          source: 'live',
-          responseTimeMs: Date.now() - startTime,
-        };
+      if (options.skipCache) {
+        result = await fetchLive();
+        await cache.set(cacheKey, result, cacheOptions);
+        source = 'live';
+      } else {
+        const cached = await cache.getOrFetch(cacheKey, fetchLive, cacheOptions);
+        result = cached.data;
+        source = cached.source === 'fresh' ? 'live' : 'cache';
+        if (source === 'cache') {
+          cacheAgeMinutes = Math.round(cached.ageMs / 60000);
+          console.log(`[Comps] ✅ Cache ${cached.source === 'stale' ? 'STALE (revalidating)' : 'HIT'} for "${query}" (${cacheAgeMinutes}m old, ${result.listings.length} items)`);
+        }
       }
       
-      // Finding API returned empty - try SerpAPI fallback
-      throw new Error('No results from Finding API');
+      return {
+        ...result,
+        source,
+        cacheAge: cacheAgeMinutes,
+        responseTimeMs: Date.now() - startTime,
+      };
       
     } catch (error: any) {
       console.error(`[Comps] ⚠️ eBay Finding API failed for "${query}":`, error.message);
@@ -219,14 +139,13 @@ class BulletproofSoldListingsProvider implements SoldListingsProvider {
       // ======================================================================
       // STEP 3: Fallback to last-known-good cache
       // ======================================================================
-      const lastKnown = lastKnownGoodCache.get(cacheKey);
-      if (lastKnown && lastKnown.result.listings.length > 0) {
-        totalFallbacks++;
-        const cacheAgeMinutes = Math.round((Date.now() - lastKnown.timestamp) / 60000);
-        console.log(`[Comps] 🔄 Using FALLBACK data for "${query}" (${cacheAgeMinutes}m old, ${lastKnown.result.listings.length} items)`);
+      const lastKnown = await cache.getStale<UserSelectableCompsResult>(cacheKey);
+      if (lastKnown && lastKnown.data.listings.length > 0) {
+        const cacheAgeMinutes = Math.round(lastKnown.ageMs / 60000);
+        console.log(`[Comps] 🔄 Using FALLBACK data for "${query}" (${cacheAgeMinutes}m old, ${lastKnown.data.listings.length} items)`);
         
         return {
-          ...lastKnown.result,
+          ...lastKnown.data,
           source: 'fallback',
           cacheAge: cacheAgeMinutes,
           responseTimeMs: Date.now() - startTime,
@@ -250,30 +169,73 @@ class BulletproofSoldListingsProvider implements SoldListingsProvider {
     }
   }
   
-  clearCache(): void {
-    primaryCache.clear();
-    lastKnownGoodCache.clear();
-    totalCacheHits = 0;
+  /**
+   * Live fetch from eBay Finding API (FREE - PRIMARY SOURCE)
+   * Cost-saving mode: Using free eBay APIs instead of paid SerpAPI
+   * Throws when nothing is found so empty results are never cached.
+   */
+  private async fetchLive(query: string, options: SoldListingsSearchOptions): Promise<UserSelectableCompsResult> {
+    const startTime = Date.now();
+    await throttle();
+    totalLiveRequests++;
+    
+    const limit = Math.min(options.limit || MAX_RESULTS_PER_SEARCH, MAX_RESULTS_PER_SEARCH);
+    console.log(`[Comps] 🔄 Fetching LIVE from eBay Finding API (FREE): "${query}" (limit: ${limit})`);
+    
+    const findingResult = await fetchSoldItemsFromFindingApi(query, {
+      limit,
+      minPrice: options.minPrice,
+      maxPrice: options.maxPrice,
+      itemCategory: 'Other'
+    });
+    
+    if (!findingResult.success || findingResult.comps.length === 0) {
+      throw new Error('No results from Finding API');
+    }
+    
+    // Convert SoldComp[] to UserSelectableListing[]
+    const listings: UserSelectableListing[] = findingResult.comps.map((comp, idx) => ({
+      id: `finding-${Date.now()}-${idx}`,
+      title: comp.title || 'Unknown Item',
+      soldPrice: comp.soldPrice,
+      shippingCost: (comp.totalPrice || comp.soldPrice) - comp.soldPrice,
+      totalPrice: comp.totalPrice || comp.soldPrice,
+      condition: comp.condition,
+      imageUrl: comp.imageUrl || null,
+      link: `https://www.ebay.com/sch/i.html?_nkw=${encodeURIComponent(query)}&LH_Sold=1&LH_Complete=1`,
+      dateSold: comp.dateSold,
+    }));
+    
+    console.log(`[Comps] ✅ LIVE success: ${listings.length} items for "${query}" in ${Date.now() - startTime}ms`);
+    
+    return {
+      success: true,
+      listings,
+      totalResults: listings.length,
+      query,
+    };
+  }
+  
+  async clearCache(): Promise<void> {
+    await cache.clear(CACHE_NAMESPACE);
     totalLiveRequests = 0;
-    totalFallbacks = 0;
     console.log('[Comps] 🗑️ All caches cleared');
   }
   
-  getCacheStats(): CacheStats {
-    cleanExpiredCache();
-    const totalRequests = totalCacheHits + totalLiveRequests;
-    const hitRate = totalRequests > 0 
-      ? ((totalCacheHits / totalRequests) * 100).toFixed(1) + '%'
-      : '0%';
+  async getCacheStats(): Promise<CacheStats> {
+    const stats = await cache.getStats(CACHE_NAMESPACE);
+    const metrics = cache.getMetrics(CACHE_NAMESPACE);
     
     return {
-      primaryCacheSize: primaryCache.size,
-      lastKnownGoodSize: lastKnownGoodCache.size,
+      backend: stats.backend,
+      primaryCacheSize: stats.freshEntries,
+      lastKnownGoodSize: stats.totalEntries,
       ttlHours: CACHE_TTL_MS / (60 * 60 * 1000),
-      totalCacheHits,
+      totalCacheHits: metrics.hits,
+      totalStaleHits: metrics.staleHits,
       totalLiveRequests,
-      totalFallbacks,
-      hitRate,
+      totalFallbacks: metrics.fallbacks,
+      hitRate: stats.namespaces[CACHE_NAMESPACE]?.hitRate ?? '0%',
     };
   }
 }
@@ -308,5 +270,6 @@ export async function prewarmCache(queries: string[]): Promise<void> {
     }
   }
   
-  console.log(`[Comps] Pre-warm complete. Cache size: ${soldListingsProvider.getCacheStats().primaryCacheSize}`);
+  const stats = await soldListingsProvider.getCacheStats();
+  console.log(`[Comps] Pre-warm complete. Cache size: ${stats.primaryCacheSize}`);
 }
@@ -1,6 +1,11 @@
 import { db } from "./db";
-import { users, items, dailyScans, compsCache, inventoryItems, scanSessions, affiliateEarnings, batchSessions, batchItems, passwordResetTokens, partnerProgramSettings, hotItems, businessExpenses, sourcingLocations, type User, type InsertUser, type Item, type DailyScan, type CompsCache, type SoldComp, type InventoryItem, type InsertInventoryItem, type InventoryStatus, type ScanSession, type ScanCandidate, type AffiliateEarning, type BatchSession, type BatchItem, type PasswordResetToken, type PartnerProgramSettings, type CommissionStatus, type HotItem, type InsertHotItem, type BusinessExpense, type InsertBusinessExpense, type SourcingLocation, type InsertSourcingLocation } from "@shared/schema";
-import { eq, desc, and, gt, lt, isNull, or, sql, gte, lte } from "drizzle-orm";
+import { users, items, dailyScans, compsCache, inventoryItems, scanSessions, affiliateEarnings, batchSessions, batchItems, passwordResetTokens, partnerProgramSettings, hotItems, businessExpenses, sourcingLocations, decisionProfiles, type User, type InsertUser, type Item, type DailyScan, type CompsCache, type InventoryItem, type InsertInventoryItem, type InventoryStatus, inventoryStatusHistory, type InventoryStatusHistoryEntry, type ScanSession, type ScanCandidate, type AffiliateEarning, type BatchSession, type BatchItem, type PasswordResetToken, extensionTokens, type ExtensionToken, type PartnerProgramSettings, type CommissionStatus, type HotItem, type InsertHotItem, type BusinessExpense, type InsertBusinessExpense, type SourcingLocation, type InsertSourcingLocation, type DecisionProfileRecord, mileageTrips, mileageTripStops, type MileageTrip, type MileageTripStop, type MileageTripWithStops, receipts, type Receipt, lots, type Lot, type LotWithItems, agingRecommendations, type AgingRecommendation, type AgingRecommendationWithItem, auctionWatches, type AuctionWatch } from "@shared/schema";
+import { getTripDayWindow, splitMileageCost } from "@shared/mileage";
+import { allocateLotCost, getLotTotalCost, type LotAllocationMethod } from "@shared/lots";
+import type { AgingRecommendationStatus } from "@shared/agingInventory";
+import type { ExistingImportKey } from "@shared/inventoryImport";
+import { DEFAULT_DECISION_PROFILE, type DecisionProfile } from "@shared/decisionEngine";
+import { eq, desc, and, gt, lt, isNull, or, sql, gte, lte, asc, inArray } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
@@ -9,13 +14,37 @@ const PostgresSessionStore = connectPg(session);
 
 export interface CompsCacheInput {
   queryKey: string;
-  comps: SoldComp[];
-  lowPrice: string | null;
-  medianPrice: string | null;
-  highPrice: string | null;
-  spreadPercent: string | null;
-  message: string | null;
+  namespace: string;
+  data: unknown;
+  category: string | null;
   expiresAt: Date;
+  staleUntil: Date;
+}
+
+export type NewMileageTrip = Omit<MileageTrip, "id" | "userId" | "expenseId" | "createdAt" | "updatedAt">;
+export type NewMileageTripStop = Omit<MileageTripStop, "id" | "tripId">;
+export type MileageTripExpense = Pick<BusinessExpense, "description" | "amount" | "date" | "miles" | "mileageRate" | "startLocation" | "endLocation" | "notes" | "taxYear">;
+
+export type NewReceipt = Omit<Receipt, "id" | "status" | "appliedAs" | "expenseId" | "itemCount" | "createdAt" | "appliedAt">;
+export type ReceiptExpense = Omit<BusinessExpense, "id" | "userId" | "receiptUrl" | "createdAt" | "updatedAt">;
+export type ReceiptInventoryItem = Omit<InventoryItem, "id" | "userId" | "receiptId" | "createdAt" | "updatedAt">;
+
+export type ImportInventoryItem = Omit<InventoryItem, "id" | "userId" | "createdAt" | "updatedAt">;
+
+export type NewAgingRecommendation = Omit<AgingRecommendation, "id" | "userId" | "inventoryItemId" | "status" | "notifiedAt" | "resolvedAt" | "createdAt" | "updatedAt">;
+
+export type NewLot = Omit<Lot, "id" | "userId" | "createdAt" | "updatedAt">;
+
+export type NewAuctionWatch = Omit<AuctionWatch, "id" | "userId" | "reminderSentAt" | "createdAt">;
+export type LotInventoryItem = Omit<InventoryItem, "id" | "userId" | "lotId" | "purchasePrice" | "createdAt" | "updatedAt">;
+
+export interface SourcingLocationMileage {
+  sourcingLocationId: number;
+  tripCount: number;
+  miles: number;
+  mileageCost: number;
+  itemsCharged: number;
+  inventoryCost: number; // purchase price of the charged items
 }
 
 export interface IStorage {
@@ -61,16 +90,23 @@ export interface IStorage {
   incrementDailyArScanCount(userId: number): Promise<void>;
   canUserArScan(userId: number): Promise<{ allowed: boolean; remaining: number; limit: number }>;
   
-  // Comps cache
+  // Comps cache (backing store for server/cache-service.ts)
   getCompsCache(queryKey: string): Promise<CompsCache | undefined>;
   setCompsCache(input: CompsCacheInput): Promise<void>;
+  deleteCompsCache(queryKey: string): Promise<void>;
+  clearCompsCache(namespace?: string): Promise<number>;
+  countCompsCache(namespace?: string): Promise<{ total: number; fresh: number }>;
+  purgeStaleCompsCache(): Promise<number>;
   
   // Inventory
   getInventoryItems(userId: number): Promise<InventoryItem[]>;
   getInventoryItem(id: number, userId: number): Promise<InventoryItem | undefined>;
   createInventoryItem(item: Omit<InventoryItem, "id" | "createdAt" | "updatedAt">): Promise<InventoryItem>;
   updateInventoryItem(id: number, userId: number, updates: Partial<InventoryItem>): Promise<InventoryItem | undefined>;
+  transitionInventoryItem(id: number, userId: number, updates: Partial<InventoryItem>, change: { fromStatus: string | null; toStatus: InventoryStatus; note?: string | null }): Promise<InventoryItem | undefined>;
   deleteInventoryItem(id: number, userId: number): Promise<boolean>;
+  addInventoryStatusHistory(entry: { inventoryItemId: number; userId: number; fromStatus: string | null; toStatus: InventoryStatus; note?: string | null }): Promise<InventoryStatusHistoryEntry>;
+  getInventoryStatusHistory(inventoryItemId: number, userId: number): Promise<InventoryStatusHistoryEntry[]>;
   
   // Scan sessions (photo-based)
   createScanSession(userId: number): Promise<ScanSession>;
@@ -95,9 +131,74 @@ export interface IStorage {
   createSourcingLocation(location: Omit<SourcingLocation, "id" | "createdAt">): Promise<SourcingLocation>;
   deleteSourcingLocation(id: number, userId: number): Promise<boolean>;
   
+  // Mileage trips (each trip owns its 'mileage' expense row)
+  getMileageTrips(userId: number, taxYear?: number): Promise<MileageTripWithStops[]>;
+  getMileageTrip(id: number, userId: number): Promise<MileageTripWithStops | undefined>;
+  getMileageTripByExpenseId(expenseId: number, userId: number): Promise<MileageTrip | undefined>;
+  getMileageTripsBetween(userId: number, start: Date, end: Date): Promise<MileageTrip[]>;
+  createMileageTrip(userId: number, trip: NewMileageTrip, stops: NewMileageTripStop[], expense: MileageTripExpense): Promise<MileageTripWithStops>;
+  updateMileageTrip(id: number, userId: number, trip: NewMileageTrip, stops: NewMileageTripStop[], expense: MileageTripExpense): Promise<MileageTripWithStops | undefined>;
+  deleteMileageTrip(id: number, userId: number): Promise<boolean>;
+  chargeDayMileageToInventory(userId: number, date: Date): Promise<number>;
+  getMileageByLocation(userId: number, taxYear?: number): Promise<SourcingLocationMileage[]>;
+  
+  // Scanned receipts (applied once, as an expense or as inventory)
+  createReceipt(receipt: NewReceipt): Promise<Receipt>;
+  getReceipt(id: number, userId: number): Promise<Receipt | undefined>;
+  getReceipts(userId: number, limit?: number): Promise<Receipt[]>;
+  applyReceiptAsExpense(id: number, userId: number, expense: ReceiptExpense): Promise<BusinessExpense | undefined>;
+  applyReceiptAsInventory(id: number, userId: number, items: ReceiptInventoryItem[]): Promise<InventoryItem[] | undefined>;
+  
+  // CSV import (dedupe keys for the dry run, then one transaction)
+  getInventoryImportKeys(userId: number): Promise<ExistingImportKey[]>;
+  importInventoryItems(userId: number, items: ImportInventoryItem[]): Promise<number>;
+  
+  // Lots (item purchasePrice is allocated from the lot cost)
+  getLots(userId: number): Promise<LotWithItems[]>;
+  getLot(id: number, userId: number): Promise<LotWithItems | undefined>;
+  createLot(userId: number, lot: NewLot, items: LotInventoryItem[]): Promise<LotWithItems>;
+  updateLot(id: number, userId: number, updates: Partial<NewLot>): Promise<LotWithItems | undefined>;
+  deleteLot(id: number, userId: number): Promise<boolean>;
+  addItemsToLot(id: number, userId: number, itemIds: number[], newItems: LotInventoryItem[]): Promise<LotWithItems | undefined>;
+  removeItemFromLot(id: number, userId: number, itemId: number): Promise<LotWithItems | undefined>;
+  setLotWeights(id: number, userId: number, weights: { itemId: number; weight: number }[]): Promise<LotWithItems | undefined>;
+  reallocateLot(id: number, userId: number): Promise<LotWithItems | undefined>;
+  
+  // Aging inventory (one open recommendation per listed item)
+  getAgingQueue(userId: number): Promise<AgingRecommendationWithItem[]>;
+  getAgingRecommendation(id: number, userId: number): Promise<AgingRecommendation | undefined>;
+  getLatestAgingRecommendations(userId: number): Promise<AgingRecommendation[]>;
+  saveAgingRecommendation(userId: number, inventoryItemId: number, recommendation: NewAgingRecommendation): Promise<{ recommendation: AgingRecommendation; created: boolean }>;
+  resolveAgingRecommendation(id: number, userId: number, status: Exclude<AgingRecommendationStatus, 'open'>, itemUpdates?: Partial<InventoryItem>): Promise<AgingRecommendation | undefined>;
+  markAgingRecommendationsNotified(ids: number[]): Promise<void>;
+  
+  // Snipe planner watch list (one watch per scanned item)
+  getAuctionWatches(userId: number): Promise<AuctionWatch[]>;
+  saveAuctionWatch(userId: number, watch: NewAuctionWatch): Promise<AuctionWatch>;
+  deleteAuctionWatch(id: number, userId: number): Promise<boolean>;
+  getDueAuctionReminders(now: Date): Promise<AuctionWatch[]>;
+  markAuctionReminderSent(id: number, updates: Partial<Pick<AuctionWatch, "currentBid" | "bidCount" | "endsAt">>): Promise<void>;
+  
+  // Decision profiles (versioned)
+  getActiveDecisionProfile(userId: number): Promise<DecisionProfile>;
+  getDecisionProfileHistory(userId: number): Promise<DecisionProfileRecord[]>;
+  createDecisionProfileVersion(userId: number, profile: Omit<DecisionProfile, "version">): Promise<DecisionProfile>;
+  
   sessionStore: session.Store;
 }
 
+export function toDecisionProfile(record: DecisionProfileRecord): DecisionProfile {
+  return {
+    version: record.version,
+    marginThreshold: parseFloat(record.marginThreshold),
+    minNetProfit: parseFloat(record.minNetProfit),
+    fixedCosts: parseFloat(record.fixedCosts),
+    defaultOutboundShipping: parseFloat(record.defaultOutboundShipping),
+    defaultPlatform: record.defaultPlatform,
+    platformFeeRates: { ...DEFAULT_DECISION_PROFILE.platformFeeRates, ...record.platformFeeRates },
+  };
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
@@ -410,31 +511,69 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Returns fresh AND stale entries - the cache service decides how to serve them
   async getCompsCache(queryKey: string): Promise<CompsCache | undefined> {
     const now = new Date();
     const [cached] = await db.select().from(compsCache)
       .where(and(
         eq(compsCache.queryKey, queryKey),
-        gt(compsCache.expiresAt, now)
+        gt(compsCache.staleUntil, now)
       ));
     return cached;
   }
 
   async setCompsCache(input: CompsCacheInput): Promise<void> {
-    // Upsert: delete old entry if exists, then insert new
-    await db.delete(compsCache).where(eq(compsCache.queryKey, input.queryKey));
     await db.insert(compsCache).values({
       queryKey: input.queryKey,
-      comps: input.comps,
-      lowPrice: input.lowPrice,
-      medianPrice: input.medianPrice,
-      highPrice: input.highPrice,
-      spreadPercent: input.spreadPercent,
-      message: input.message,
+      namespace: input.namespace,
+      data: input.data,
+      category: input.category,
       expiresAt: input.expiresAt,
+      staleUntil: input.staleUntil,
+    }).onConflictDoUpdate({
+      target: compsCache.queryKey,
+      set: {
+        namespace: input.namespace,
+        data: input.data,
+        category: input.category,
+        createdAt: new Date(),
+        expiresAt: input.expiresAt,
+        staleUntil: input.staleUntil,
+      },
     });
   }
 
+  async deleteCompsCache(queryKey: string): Promise<void> {
+    await db.delete(compsCache).where(eq(compsCache.queryKey, queryKey));
+  }
+
+  async clearCompsCache(namespace?: string): Promise<number> {
+    const deleted = namespace
+      ? await db.delete(compsCache).where(eq(compsCache.namespace, namespace)).returning({ id: compsCache.id })
+      : await db.delete(compsCache).returning({ id: compsCache.id });
+    return deleted.length;
+  }
+
+  async countCompsCache(namespace?: string): Promise<{ total: number; fresh: number }> {
+    const now = new Date();
+    const [row] = await db.select({
+      total: sql<number>`count(*)::int`,
+      fresh: sql<number>`count(*) filter (where ${compsCache.expiresAt} > ${now})::int`,
+    }).from(compsCache)
+      .where(and(
+        gt(compsCache.staleUntil, now),
+        namespace ? eq(compsCache.namespace, namespace) : undefined
+      ));
+    return { total: row?.total ?? 0, fresh: row?.fresh ?? 0 };
+  }
+
+  async purgeStaleCompsCache(): Promise<number> {
+    const deleted = await db.delete(compsCache)
+      .where(lt(compsCache.staleUntil, new Date()))
+      .returning({ id: compsCache.id });
+    return deleted.length;
+  }
+
   // Inventory CRUD
   async getInventoryItems(userId: number): Promise<InventoryItem[]> {
     return db.select().from(inventoryItems)
@@ -465,14 +604,68 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Status change + history row in one transaction so the timeline never drifts from the item.
+  // Only applies while the item is still in fromStatus - undefined if another change got there first
+  async transitionInventoryItem(
+    id: number,
+    userId: number,
+    updates: Partial<InventoryItem>,
+    change: { fromStatus: string | null; toStatus: InventoryStatus; note?: string | null }
+  ): Promise<InventoryItem | undefined> {
+    const existing = await this.getInventoryItem(id, userId);
+    if (!existing) return undefined;
+    
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(inventoryItems)
+        .set({ ...updates, status: change.toStatus, updatedAt: new Date() })
+        .where(and(
+          eq(inventoryItems.id, id),
+          change.fromStatus === null ? isNull(inventoryItems.status) : eq(inventoryItems.status, change.fromStatus)
+        ))
+        .returning();
+      if (!updated) return undefined;
+      await tx.insert(inventoryStatusHistory).values({
+        inventoryItemId: id,
+        userId,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        note: change.note || null,
+      });
+      return updated;
+    });
+  }
+
   async deleteInventoryItem(id: number, userId: number): Promise<boolean> {
     const existing = await this.getInventoryItem(id, userId);
     if (!existing) return false;
     
     await db.delete(inventoryItems).where(eq(inventoryItems.id, id));
+    if (existing.lotId) {
+      await this.reallocateLot(existing.lotId, userId);
+    }
+    // Its share of the day's mileage goes back to the rest of that day's haul
+    if (existing.mileageTripStopId && existing.purchaseDate) {
+      await this.chargeDayMileageToInventory(userId, existing.purchaseDate);
+    }
     return true;
   }
 
+  // Inventory status history (append-only - no update/delete methods by design)
+  async addInventoryStatusHistory(entry: { inventoryItemId: number; userId: number; fromStatus: string | null; toStatus: InventoryStatus; note?: string | null }): Promise<InventoryStatusHistoryEntry> {
+    const [created] = await db.insert(inventoryStatusHistory).values({
+      ...entry,
+      note: entry.note || null,
+    }).returning();
+    return created;
+  }
+
+  async getInventoryStatusHistory(inventoryItemId: number, userId: number): Promise<InventoryStatusHistoryEntry[]> {
+    return db.select().from(inventoryStatusHistory)
+      .where(and(eq(inventoryStatusHistory.inventoryItemId, inventoryItemId), eq(inventoryStatusHistory.userId, userId)))
+      .orderBy(asc(inventoryStatusHistory.createdAt), asc(inventoryStatusHistory.id));
+  }
+
   // Scan sessions (photo-based)
   async createScanSession(userId: number): Promise<ScanSession> {
     const [session] = await db.insert(scanSessions).values({
@@ -809,6 +1002,19 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  async addBatchItems(batchId: number, userId: number, inputType: string, inputValues: string[]): Promise<BatchItem[]> {
+    if (inputValues.length === 0) return [];
+    const added = await db.insert(batchItems)
+      .values(inputValues.map(inputValue => ({ batchId, userId, inputType, inputValue, status: 'pending' })))
+      .returning();
+
+    await db.update(batchSessions)
+      .set({ totalItems: sql`${batchSessions.totalItems} + ${added.length}` })
+      .where(eq(batchSessions.id, batchId));
+
+    return added;
+  }
+
   async getBatchItems(batchId: number, userId: number): Promise<BatchItem[]> {
     return db.select().from(batchItems)
       .where(and(eq(batchItems.batchId, batchId), eq(batchItems.userId, userId)))
@@ -830,36 +1036,72 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async claimNextPendingBatchItem(batchId: number, userId: number): Promise<BatchItem | undefined> {
-    const [item] = await db.select().from(batchItems)
-      .where(and(
-        eq(batchItems.batchId, batchId), 
-        eq(batchItems.userId, userId),
-        eq(batchItems.status, 'pending')
-      ))
-      .orderBy(batchItems.createdAt)
-      .limit(1);
-    
-    if (!item) return undefined;
-    
+  // Job queue: claim the oldest due pending item of a submitted (processing)
+  // session. SKIP LOCKED lets several workers or instances claim concurrently.
+  async claimNextBatchJob(options: { inputTypes: string[]; excludeUserIds: number[] }): Promise<BatchItem | undefined> {
+    if (options.inputTypes.length === 0) return undefined;
+    const inputTypes = sql.join(options.inputTypes.map(type => sql`${type}`), sql`, `);
+    const excludeUsers = options.excludeUserIds.length > 0
+      ? sql`AND bi.user_id NOT IN (${sql.join(options.excludeUserIds.map(id => sql`${id}`), sql`, `)})`
+      : sql``;
+
     const [claimed] = await db
       .update(batchItems)
-      .set({ status: 'processing' })
+      .set({ status: 'processing', lockedAt: new Date(), attempts: sql`${batchItems.attempts} + 1` })
       .where(and(
-        eq(batchItems.id, item.id),
-        eq(batchItems.status, 'pending')
+        eq(batchItems.status, 'pending'),
+        eq(batchItems.id, sql`(
+          SELECT bi.id FROM batch_items bi
+          JOIN batch_sessions bs ON bs.id = bi.batch_id
+          WHERE bi.status = 'pending'
+            AND bs.status = 'processing'
+            AND (bi.next_attempt_at IS NULL OR bi.next_attempt_at <= now())
+            AND bi.input_type IN (${inputTypes})
+            ${excludeUsers}
+          ORDER BY bi.next_attempt_at NULLS FIRST, bi.id
+          LIMIT 1
+          FOR UPDATE OF bi SKIP LOCKED
+        )`)
       ))
       .returning();
-    
     return claimed;
   }
 
-  async getNextPendingBatchItem(batchId: number): Promise<BatchItem | undefined> {
-    const [item] = await db.select().from(batchItems)
-      .where(and(eq(batchItems.batchId, batchId), eq(batchItems.status, 'pending')))
-      .orderBy(batchItems.createdAt)
-      .limit(1);
-    return item;
+  async rescheduleBatchJob(id: number, nextAttemptAt: Date, errorMessage: string): Promise<BatchItem | undefined> {
+    const [updated] = await db
+      .update(batchItems)
+      .set({ status: 'pending', lockedAt: null, nextAttemptAt, errorMessage })
+      .where(eq(batchItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Jobs whose worker died (restart, crash) go back to pending
+  async releaseStaleBatchJobs(lockedBefore: Date): Promise<number> {
+    const released = await db
+      .update(batchItems)
+      .set({ status: 'pending', lockedAt: null })
+      .where(and(eq(batchItems.status, 'processing'), lt(batchItems.lockedAt, lockedBefore)))
+      .returning({ id: batchItems.id });
+    return released.length;
+  }
+
+  // Completes a submitted session once nothing is left to process. Returns
+  // the session only to the caller that completed it.
+  async completeBatchSessionIfDone(batchId: number): Promise<BatchSession | undefined> {
+    const [completed] = await db
+      .update(batchSessions)
+      .set({ status: 'completed', completedAt: new Date() })
+      .where(and(
+        eq(batchSessions.id, batchId),
+        eq(batchSessions.status, 'processing'),
+        sql`NOT EXISTS (
+          SELECT 1 FROM batch_items
+          WHERE batch_id = ${batchId} AND status IN ('pending', 'processing')
+        )`
+      ))
+      .returning();
+    return completed;
   }
 
   async incrementBatchProcessed(batchId: number): Promise<void> {
@@ -942,6 +1184,40 @@ export class DatabaseStorage implements IStorage {
       .where(eq(passwordResetTokens.id, id));
   }
 
+  // Extension token methods
+  async setExtensionToken(userId: number, tokenHash: string): Promise<ExtensionToken> {
+    const [token] = await db.insert(extensionTokens)
+      .values({ userId, tokenHash })
+      .onConflictDoUpdate({
+        target: extensionTokens.userId,
+        set: { tokenHash, createdAt: new Date(), lastUsedAt: null },
+      })
+      .returning();
+    return token;
+  }
+
+  async getExtensionToken(userId: number): Promise<ExtensionToken | undefined> {
+    const [token] = await db.select().from(extensionTokens)
+      .where(eq(extensionTokens.userId, userId));
+    return token;
+  }
+
+  // Resolves a presented token to its user and records the use
+  async useExtensionToken(tokenHash: string): Promise<number | undefined> {
+    const [token] = await db.update(extensionTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(extensionTokens.tokenHash, tokenHash))
+      .returning();
+    return token?.userId;
+  }
+
+  async deleteExtensionToken(userId: number): Promise<boolean> {
+    const deleted = await db.delete(extensionTokens)
+      .where(eq(extensionTokens.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+
   async updateUserPassword(userId: number, hashedPassword: string): Promise<void> {
     await db.update(users)
       .set({ password: hashedPassword })
@@ -1136,6 +1412,619 @@ export class DatabaseStorage implements IStorage {
       ));
     return true;
   }
+
+  // Mileage trip methods
+  private async attachTripStops(trips: MileageTrip[]): Promise<MileageTripWithStops[]> {
+    if (trips.length === 0) return [];
+    const stops = await db.select()
+      .from(mileageTripStops)
+      .where(inArray(mileageTripStops.tripId, trips.map(t => t.id)))
+      .orderBy(asc(mileageTripStops.stopOrder));
+    return trips.map(trip => ({ ...trip, stops: stops.filter(stop => stop.tripId === trip.id) }));
+  }
+
+  async getMileageTrips(userId: number, taxYear?: number): Promise<MileageTripWithStops[]> {
+    const trips = await db.select()
+      .from(mileageTrips)
+      .where(taxYear
+        ? and(eq(mileageTrips.userId, userId), eq(mileageTrips.taxYear, taxYear))
+        : eq(mileageTrips.userId, userId))
+      .orderBy(desc(mileageTrips.date), desc(mileageTrips.id));
+    return this.attachTripStops(trips);
+  }
+
+  async getMileageTrip(id: number, userId: number): Promise<MileageTripWithStops | undefined> {
+    const [trip] = await db.select()
+      .from(mileageTrips)
+      .where(and(eq(mileageTrips.id, id), eq(mileageTrips.userId, userId)));
+    if (!trip) return undefined;
+    const [withStops] = await this.attachTripStops([trip]);
+    return withStops;
+  }
+
+  async getMileageTripByExpenseId(expenseId: number, userId: number): Promise<MileageTrip | undefined> {
+    const [trip] = await db.select()
+      .from(mileageTrips)
+      .where(and(eq(mileageTrips.expenseId, expenseId), eq(mileageTrips.userId, userId)));
+    return trip;
+  }
+
+  async getMileageTripsBetween(userId: number, start: Date, end: Date): Promise<MileageTrip[]> {
+    return db.select()
+      .from(mileageTrips)
+      .where(and(
+        eq(mileageTrips.userId, userId),
+        gte(mileageTrips.date, start),
+        lt(mileageTrips.date, end)
+      ));
+  }
+
+  async createMileageTrip(userId: number, trip: NewMileageTrip, stops: NewMileageTripStop[], expense: MileageTripExpense): Promise<MileageTripWithStops> {
+    const created = await db.transaction(async (tx) => {
+      const [expenseRow] = await tx.insert(businessExpenses)
+        .values({ ...expense, userId, category: 'mileage', receiptUrl: null })
+        .returning();
+      const [tripRow] = await tx.insert(mileageTrips)
+        .values({ ...trip, userId, expenseId: expenseRow.id })
+        .returning();
+      const stopRows = await tx.insert(mileageTripStops)
+        .values(stops.map(stop => ({ ...stop, tripId: tripRow.id })))
+        .returning();
+      return { ...tripRow, stops: stopRows };
+    });
+    await this.chargeDayMileageToInventory(userId, created.date);
+    return created;
+  }
+
+  async updateMileageTrip(id: number, userId: number, trip: NewMileageTrip, stops: NewMileageTripStop[], expense: MileageTripExpense): Promise<MileageTripWithStops | undefined> {
+    const existing = await this.getMileageTrip(id, userId);
+    if (!existing) return undefined;
+
+    const updated = await db.transaction(async (tx) => {
+      // Stops are replaced wholesale - release the old stops' inventory charges first
+      if (existing.stops.length > 0) {
+        await tx.update(inventoryItems)
+          .set({ mileageCost: null, mileageTripStopId: null })
+          .where(inArray(inventoryItems.mileageTripStopId, existing.stops.map(s => s.id)));
+      }
+      await tx.delete(mileageTripStops).where(eq(mileageTripStops.tripId, id));
+
+      let expenseId = existing.expenseId;
+      if (expenseId) {
+        await tx.update(businessExpenses)
+          .set({ ...expense, updatedAt: new Date() })
+          .where(and(eq(businessExpenses.id, expenseId), eq(businessExpenses.userId, userId)));
+      } else {
+        const [expenseRow] = await tx.insert(businessExpenses)
+          .values({ ...expense, userId, category: 'mileage', receiptUrl: null })
+          .returning();
+        expenseId = expenseRow.id;
+      }
+
+      const [tripRow] = await tx.update(mileageTrips)
+        .set({ ...trip, expenseId, updatedAt: new Date() })
+        .where(eq(mileageTrips.id, id))
+        .returning();
+      const stopRows = await tx.insert(mileageTripStops)
+        .values(stops.map(stop => ({ ...stop, tripId: id })))
+        .returning();
+      return { ...tripRow, stops: stopRows };
+    });
+    await this.chargeDayMileageToInventory(userId, updated.date);
+    if (getTripDayWindow(existing.date).start.getTime() !== getTripDayWindow(updated.date).start.getTime()) {
+      await this.chargeDayMileageToInventory(userId, existing.date);
+    }
+    return updated;
+  }
+
+  async deleteMileageTrip(id: number, userId: number): Promise<boolean> {
+    const existing = await this.getMileageTrip(id, userId);
+    if (!existing) return false;
+
+    await db.transaction(async (tx) => {
+      if (existing.stops.length > 0) {
+        await tx.update(inventoryItems)
+          .set({ mileageCost: null, mileageTripStopId: null })
+          .where(inArray(inventoryItems.mileageTripStopId, existing.stops.map(s => s.id)));
+      }
+      await tx.delete(mileageTrips).where(eq(mileageTrips.id, id));
+      if (existing.expenseId) {
+        await tx.delete(businessExpenses).where(eq(businessExpenses.id, existing.expenseId));
+      }
+    });
+    // Items the day's other trips also charged lose this trip's share
+    await this.chargeDayMileageToInventory(userId, existing.date);
+    return true;
+  }
+
+  /**
+   * Spread each stop's mileage cost over the inventory bought at that
+   * sourcing location on the day. An item bought where two stops (or two
+   * trips) went is charged the sum of their shares; mileageTripStopId points
+   * at the first. Re-run whenever a trip or that day's purchases change;
+   * returns the number of items charged.
+   */
+  async chargeDayMileageToInventory(userId: number, date: Date): Promise<number> {
+    const day = getTripDayWindow(date);
+    const trips = await this.getMileageTripsBetween(userId, day.start, day.end);
+    const stops = trips.length > 0
+      ? await db.select()
+          .from(mileageTripStops)
+          .where(inArray(mileageTripStops.tripId, trips.map(t => t.id)))
+          .orderBy(asc(mileageTripStops.tripId), asc(mileageTripStops.stopOrder))
+      : [];
+
+    return db.transaction(async (tx) => {
+      // Release the day's charges - including items since moved to another day
+      await tx.update(inventoryItems)
+        .set({ mileageCost: null, mileageTripStopId: null })
+        .where(and(
+          eq(inventoryItems.userId, userId),
+          or(
+            and(gte(inventoryItems.purchaseDate, day.start), lt(inventoryItems.purchaseDate, day.end)),
+            stops.length > 0 ? inArray(inventoryItems.mileageTripStopId, stops.map(s => s.id)) : undefined
+          )
+        ));
+
+      const charges = new Map<number, { cents: number; stopId: number }>();
+      for (const stop of stops) {
+        const cost = parseFloat(stop.mileageCost);
+        if (!stop.sourcingLocationId || !(cost > 0)) continue;
+
+        const bought = await tx.select({ id: inventoryItems.id })
+          .from(inventoryItems)
+          .where(and(
+            eq(inventoryItems.userId, userId),
+            eq(inventoryItems.sourceLocationId, stop.sourcingLocationId),
+            gte(inventoryItems.purchaseDate, day.start),
+            lt(inventoryItems.purchaseDate, day.end)
+          ))
+          .orderBy(asc(inventoryItems.id));
+
+        const shares = splitMileageCost(cost, bought.length);
+        bought.forEach((item, i) => {
+          const charge = charges.get(item.id) ?? { cents: 0, stopId: stop.id };
+          charge.cents += Math.round(shares[i] * 100);
+          charges.set(item.id, charge);
+        });
+      }
+
+      for (const [itemId, charge] of Array.from(charges)) {
+        await tx.update(inventoryItems)
+          .set({ mileageCost: String(charge.cents / 100), mileageTripStopId: charge.stopId })
+          .where(eq(inventoryItems.id, itemId));
+      }
+      return charges.size;
+    });
+  }
+
+  async getMileageByLocation(userId: number, taxYear?: number): Promise<SourcingLocationMileage[]> {
+    const tripFilter = taxYear
+      ? and(eq(mileageTrips.userId, userId), eq(mileageTrips.taxYear, taxYear))
+      : eq(mileageTrips.userId, userId);
+
+    const stopTotals = await db.select({
+      sourcingLocationId: mileageTripStops.sourcingLocationId,
+      tripCount: sql<number>`count(distinct ${mileageTripStops.tripId})::int`,
+      miles: sql<string>`coalesce(sum(${mileageTripStops.allocatedMiles}), 0)`,
+      mileageCost: sql<string>`coalesce(sum(${mileageTripStops.mileageCost}), 0)`,
+    })
+      .from(mileageTripStops)
+      .innerJoin(mileageTrips, eq(mileageTripStops.tripId, mileageTrips.id))
+      .where(and(tripFilter, sql`${mileageTripStops.sourcingLocationId} is not null`))
+      .groupBy(mileageTripStops.sourcingLocationId);
+
+    const itemTotals = await db.select({
+      sourcingLocationId: mileageTripStops.sourcingLocationId,
+      itemsCharged: sql<number>`count(${inventoryItems.id})::int`,
+      inventoryCost: sql<string>`coalesce(sum(${inventoryItems.purchasePrice}), 0)`,
+    })
+      .from(inventoryItems)
+      .innerJoin(mileageTripStops, eq(inventoryItems.mileageTripStopId, mileageTripStops.id))
+      .innerJoin(mileageTrips, eq(mileageTripStops.tripId, mileageTrips.id))
+      .where(tripFilter)
+      .groupBy(mileageTripStops.sourcingLocationId);
+
+    return stopTotals.map(row => {
+      const items = itemTotals.find(i => i.sourcingLocationId === row.sourcingLocationId);
+      return {
+        sourcingLocationId: row.sourcingLocationId!,
+        tripCount: row.tripCount,
+        miles: parseFloat(row.miles),
+        mileageCost: parseFloat(row.mileageCost),
+        itemsCharged: items?.itemsCharged ?? 0,
+        inventoryCost: items ? parseFloat(items.inventoryCost) : 0,
+      };
+    });
+  }
+
+  // Receipt methods
+  async createReceipt(receipt: NewReceipt): Promise<Receipt> {
+    const [created] = await db.insert(receipts).values(receipt).returning();
+    return created;
+  }
+
+  async getReceipt(id: number, userId: number): Promise<Receipt | undefined> {
+    const [receipt] = await db.select().from(receipts)
+      .where(and(eq(receipts.id, id), eq(receipts.userId, userId)));
+    return receipt;
+  }
+
+  async getReceipts(userId: number, limit: number = 50): Promise<Receipt[]> {
+    return db.select().from(receipts)
+      .where(eq(receipts.userId, userId))
+      .orderBy(desc(receipts.createdAt))
+      .limit(limit);
+  }
+
+  // Only a 'scanned' receipt can be applied - undefined means missing or already applied
+  async applyReceiptAsExpense(id: number, userId: number, expense: ReceiptExpense): Promise<BusinessExpense | undefined> {
+    return db.transaction(async (tx) => {
+      const [receipt] = await tx.update(receipts)
+        .set({ status: 'applied', appliedAs: 'expense', appliedAt: new Date() })
+        .where(and(eq(receipts.id, id), eq(receipts.userId, userId), eq(receipts.status, 'scanned')))
+        .returning();
+      if (!receipt) return undefined;
+
+      const [created] = await tx.insert(businessExpenses)
+        .values({ ...expense, userId, receiptUrl: receipt.objectPath })
+        .returning();
+      await tx.update(receipts).set({ expenseId: created.id }).where(eq(receipts.id, id));
+      return created;
+    });
+  }
+
+  async applyReceiptAsInventory(id: number, userId: number, items: ReceiptInventoryItem[]): Promise<InventoryItem[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [receipt] = await tx.update(receipts)
+        .set({ status: 'applied', appliedAs: 'inventory', itemCount: items.length, appliedAt: new Date() })
+        .where(and(eq(receipts.id, id), eq(receipts.userId, userId), eq(receipts.status, 'scanned')))
+        .returning();
+      if (!receipt) return undefined;
+
+      const created = await tx.insert(inventoryItems)
+        .values(items.map(item => ({ ...item, userId, receiptId: id })))
+        .returning();
+      await tx.insert(inventoryStatusHistory).values(created.map(item => ({
+        inventoryItemId: item.id,
+        userId,
+        fromStatus: null,
+        toStatus: 'bought',
+        note: 'Added from receipt',
+      })));
+      return created;
+    });
+  }
+
+  // CSV import methods
+  async getInventoryImportKeys(userId: number): Promise<ExistingImportKey[]> {
+    return db.select({
+      id: inventoryItems.id,
+      title: inventoryItems.title,
+      status: inventoryItems.status,
+      salePlatform: inventoryItems.salePlatform,
+      externalId: inventoryItems.externalId,
+      soldDate: inventoryItems.soldDate,
+      actualSalePrice: inventoryItems.actualSalePrice,
+    })
+      .from(inventoryItems)
+      .where(eq(inventoryItems.userId, userId))
+      .orderBy(asc(inventoryItems.id));
+  }
+
+  async importInventoryItems(userId: number, items: ImportInventoryItem[]): Promise<number> {
+    if (items.length === 0) return 0;
+    const CHUNK_SIZE = 500; // keeps each insert under Postgres's bind-parameter limit
+    return db.transaction(async (tx) => {
+      let imported = 0;
+      for (let start = 0; start < items.length; start += CHUNK_SIZE) {
+        const created = await tx.insert(inventoryItems)
+          .values(items.slice(start, start + CHUNK_SIZE).map(item => ({ ...item, userId })))
+          .returning({ id: inventoryItems.id, status: inventoryItems.status });
+        await tx.insert(inventoryStatusHistory).values(created.map(item => ({
+          inventoryItemId: item.id,
+          userId,
+          fromStatus: null,
+          toStatus: item.status,
+          note: 'Imported from CSV',
+        })));
+        imported += created.length;
+      }
+      return imported;
+    });
+  }
+
+  // Lot methods
+  private async attachLotItems(lotRows: Lot[]): Promise<LotWithItems[]> {
+    if (lotRows.length === 0) return [];
+    const lotItems = await db.select()
+      .from(inventoryItems)
+      .where(inArray(inventoryItems.lotId, lotRows.map(l => l.id)))
+      .orderBy(asc(inventoryItems.id));
+    return lotRows.map(lot => ({ ...lot, items: lotItems.filter(item => item.lotId === lot.id) }));
+  }
+
+  async getLots(userId: number): Promise<LotWithItems[]> {
+    const lotRows = await db.select().from(lots)
+      .where(eq(lots.userId, userId))
+      .orderBy(desc(lots.purchaseDate), desc(lots.id));
+    return this.attachLotItems(lotRows);
+  }
+
+  async getLot(id: number, userId: number): Promise<LotWithItems | undefined> {
+    const [lot] = await db.select().from(lots)
+      .where(and(eq(lots.id, id), eq(lots.userId, userId)));
+    if (!lot) return undefined;
+    const [withItems] = await this.attachLotItems([lot]);
+    return withItems;
+  }
+
+  // New items start at $0 and get their share from reallocateLot
+  private async insertLotItems(lot: Lot, items: LotInventoryItem[]): Promise<void> {
+    if (items.length === 0) return;
+    await db.transaction(async (tx) => {
+      const created = await tx.insert(inventoryItems)
+        .values(items.map(item => ({ ...item, userId: lot.userId, lotId: lot.id, purchasePrice: '0' })))
+        .returning();
+      await tx.insert(inventoryStatusHistory).values(created.map(item => ({
+        inventoryItemId: item.id,
+        userId: lot.userId,
+        fromStatus: null,
+        toStatus: 'bought',
+        note: `Added from lot: ${lot.name}`,
+      })));
+    });
+  }
+
+  async createLot(userId: number, lot: NewLot, items: LotInventoryItem[]): Promise<LotWithItems> {
+    const [created] = await db.insert(lots).values({ ...lot, userId }).returning();
+    await this.insertLotItems(created, items);
+    return (await this.reallocateLot(created.id, userId))!;
+  }
+
+  async updateLot(id: number, userId: number, updates: Partial<NewLot>): Promise<LotWithItems | undefined> {
+    const [updated] = await db.update(lots)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(lots.id, id), eq(lots.userId, userId)))
+      .returning();
+    if (!updated) return undefined;
+    return this.reallocateLot(id, userId);
+  }
+
+  // Items stay in inventory at their last allocated cost
+  async deleteLot(id: number, userId: number): Promise<boolean> {
+    const lot = await this.getLot(id, userId);
+    if (!lot) return false;
+    await db.transaction(async (tx) => {
+      await tx.update(inventoryItems)
+        .set({ lotId: null, updatedAt: new Date() })
+        .where(and(eq(inventoryItems.lotId, id), eq(inventoryItems.userId, userId)));
+      await tx.delete(lots).where(eq(lots.id, id));
+    });
+    return true;
+  }
+
+  async addItemsToLot(id: number, userId: number, itemIds: number[], newItems: LotInventoryItem[]): Promise<LotWithItems | undefined> {
+    const lot = await this.getLot(id, userId);
+    if (!lot) return undefined;
+
+    if (itemIds.length > 0) {
+      // Items moving from another lot leave a gap there too
+      const moving = await db.select({ id: inventoryItems.id, lotId: inventoryItems.lotId })
+        .from(inventoryItems)
+        .where(and(inArray(inventoryItems.id, itemIds), eq(inventoryItems.userId, userId)));
+      if (moving.length > 0) {
+        await db.update(inventoryItems)
+          .set({ lotId: id, updatedAt: new Date() })
+          .where(and(inArray(inventoryItems.id, moving.map(m => m.id)), eq(inventoryItems.userId, userId)));
+      }
+      const previousLots = new Set(moving.map(m => m.lotId).filter((lotId): lotId is number => lotId !== null && lotId !== id));
+      for (const previousLotId of Array.from(previousLots)) {
+        await this.reallocateLot(previousLotId, userId);
+      }
+    }
+    await this.insertLotItems(lot, newItems);
+    return this.reallocateLot(id, userId);
+  }
+
+  async removeItemFromLot(id: number, userId: number, itemId: number): Promise<LotWithItems | undefined> {
+    const lot = await this.getLot(id, userId);
+    if (!lot) return undefined;
+    // The lot's cost stays with the lot - the removed item's share goes back to the rest
+    await db.update(inventoryItems)
+      .set({ lotId: null, allocationWeight: null, purchasePrice: "0", updatedAt: new Date() })
+      .where(and(eq(inventoryItems.id, itemId), eq(inventoryItems.lotId, id), eq(inventoryItems.userId, userId)));
+    return this.reallocateLot(id, userId);
+  }
+
+  async setLotWeights(id: number, userId: number, weights: { itemId: number; weight: number }[]): Promise<LotWithItems | undefined> {
+    const lot = await this.getLot(id, userId);
+    if (!lot) return undefined;
+    await db.transaction(async (tx) => {
+      for (const { itemId, weight } of weights) {
+        await tx.update(inventoryItems)
+          .set({ allocationWeight: String(weight) })
+          .where(and(eq(inventoryItems.id, itemId), eq(inventoryItems.lotId, id), eq(inventoryItems.userId, userId)));
+      }
+    });
+    return this.reallocateLot(id, userId);
+  }
+
+  async reallocateLot(id: number, userId: number): Promise<LotWithItems | undefined> {
+    const lot = await this.getLot(id, userId);
+    if (!lot) return undefined;
+    if (lot.items.length === 0) return lot;
+
+    // Sold and disposed items keep their booked cost; only open items are repriced
+    const shares = allocateLotCost(getLotTotalCost(lot), lot.items, lot.allocationMethod as LotAllocationMethod)
+      .filter(share => !share.locked);
+    await db.transaction(async (tx) => {
+      for (const share of shares) {
+        await tx.update(inventoryItems)
+          .set({ purchasePrice: share.purchasePrice.toFixed(2), updatedAt: new Date() })
+          .where(eq(inventoryItems.id, share.id));
+      }
+    });
+    const priceById = new Map(shares.map(share => [share.id, share.purchasePrice.toFixed(2)]));
+    return { ...lot, items: lot.items.map(item => ({ ...item, purchasePrice: priceById.get(item.id) ?? item.purchasePrice })) };
+  }
+
+  // Aging inventory methods
+  async getAgingQueue(userId: number): Promise<AgingRecommendationWithItem[]> {
+    // Items that sold or were delisted since the job ran drop out of the queue
+    const rows = await db.select({ recommendation: agingRecommendations, item: inventoryItems })
+      .from(agingRecommendations)
+      .innerJoin(inventoryItems, eq(agingRecommendations.inventoryItemId, inventoryItems.id))
+      .where(and(
+        eq(agingRecommendations.userId, userId),
+        eq(agingRecommendations.status, 'open'),
+        eq(inventoryItems.status, 'listed'),
+      ))
+      .orderBy(desc(sql`${agingRecommendations.ageRatio}::numeric`), desc(agingRecommendations.daysListed));
+    return rows.map(row => ({ ...row.recommendation, item: row.item }));
+  }
+
+  async getAgingRecommendation(id: number, userId: number): Promise<AgingRecommendation | undefined> {
+    const [recommendation] = await db.select().from(agingRecommendations)
+      .where(and(eq(agingRecommendations.id, id), eq(agingRecommendations.userId, userId)));
+    return recommendation;
+  }
+
+  // Newest recommendation per inventory item, any status
+  async getLatestAgingRecommendations(userId: number): Promise<AgingRecommendation[]> {
+    return db.selectDistinctOn([agingRecommendations.inventoryItemId])
+      .from(agingRecommendations)
+      .where(eq(agingRecommendations.userId, userId))
+      .orderBy(agingRecommendations.inventoryItemId, desc(agingRecommendations.createdAt), desc(agingRecommendations.id));
+  }
+
+  // Refreshes the item's open recommendation in place, or starts a new one
+  async saveAgingRecommendation(userId: number, inventoryItemId: number, recommendation: NewAgingRecommendation): Promise<{ recommendation: AgingRecommendation; created: boolean }> {
+    const [updated] = await db.update(agingRecommendations)
+      .set({ ...recommendation, updatedAt: new Date() })
+      .where(and(
+        eq(agingRecommendations.userId, userId),
+        eq(agingRecommendations.inventoryItemId, inventoryItemId),
+        eq(agingRecommendations.status, 'open'),
+      ))
+      .returning();
+    if (updated) return { recommendation: updated, created: false };
+
+    const [created] = await db.insert(agingRecommendations)
+      .values({ ...recommendation, userId, inventoryItemId })
+      .returning();
+    return { recommendation: created, created: true };
+  }
+
+  async resolveAgingRecommendation(id: number, userId: number, status: Exclude<AgingRecommendationStatus, 'open'>, itemUpdates?: Partial<InventoryItem>): Promise<AgingRecommendation | undefined> {
+    return db.transaction(async (tx) => {
+      const [resolved] = await tx.update(agingRecommendations)
+        .set({ status, resolvedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(agingRecommendations.id, id), eq(agingRecommendations.userId, userId), eq(agingRecommendations.status, 'open')))
+        .returning();
+      if (!resolved) return undefined;
+
+      if (itemUpdates && Object.keys(itemUpdates).length > 0) {
+        await tx.update(inventoryItems)
+          .set({ ...itemUpdates, updatedAt: new Date() })
+          .where(and(eq(inventoryItems.id, resolved.inventoryItemId), eq(inventoryItems.userId, userId)));
+      }
+      return resolved;
+    });
+  }
+
+  async markAgingRecommendationsNotified(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(agingRecommendations)
+      .set({ notifiedAt: new Date() })
+      .where(inArray(agingRecommendations.id, ids));
+  }
+
+  // Snipe planner watch list methods
+  async getAuctionWatches(userId: number): Promise<AuctionWatch[]> {
+    return db.select().from(auctionWatches)
+      .where(eq(auctionWatches.userId, userId))
+      .orderBy(asc(auctionWatches.endsAt));
+  }
+
+  async saveAuctionWatch(userId: number, watch: NewAuctionWatch): Promise<AuctionWatch> {
+    // Saving again re-arms the reminder (end time or lead time may have changed)
+    const [saved] = await db.insert(auctionWatches)
+      .values({ ...watch, userId })
+      .onConflictDoUpdate({
+        target: [auctionWatches.userId, auctionWatches.itemId],
+        set: { ...watch, reminderSentAt: null },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteAuctionWatch(id: number, userId: number): Promise<boolean> {
+    const deleted = await db.delete(auctionWatches)
+      .where(and(eq(auctionWatches.id, id), eq(auctionWatches.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getDueAuctionReminders(now: Date): Promise<AuctionWatch[]> {
+    return db.select().from(auctionWatches)
+      .where(and(
+        isNull(auctionWatches.reminderSentAt),
+        gt(auctionWatches.endsAt, now),
+        lte(sql`${auctionWatches.endsAt} - make_interval(mins => ${auctionWatches.remindMinutesBefore})`, now)
+      ))
+      .orderBy(asc(auctionWatches.endsAt));
+  }
+
+  async markAuctionReminderSent(id: number, updates: Partial<Pick<AuctionWatch, "currentBid" | "bidCount" | "endsAt">>): Promise<void> {
+    await db.update(auctionWatches)
+      .set({ ...updates, reminderSentAt: new Date() })
+      .where(eq(auctionWatches.id, id));
+  }
+
+  // Decision profile methods
+  async getActiveDecisionProfile(userId: number): Promise<DecisionProfile> {
+    const [record] = await db.select()
+      .from(decisionProfiles)
+      .where(eq(decisionProfiles.userId, userId))
+      .orderBy(desc(decisionProfiles.version))
+      .limit(1);
+    return record ? toDecisionProfile(record) : DEFAULT_DECISION_PROFILE;
+  }
+
+  async getDecisionProfileHistory(userId: number): Promise<DecisionProfileRecord[]> {
+    return db.select()
+      .from(decisionProfiles)
+      .where(eq(decisionProfiles.userId, userId))
+      .orderBy(desc(decisionProfiles.version));
+  }
+
+  async createDecisionProfileVersion(userId: number, profile: Omit<DecisionProfile, "version">): Promise<DecisionProfile> {
+    // Two saves at once would both read the same max version and trip the
+    // (user_id, version) unique index - serialize them per user instead.
+    const created = await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('decision_profiles'), ${userId})`);
+      const [latest] = await tx.select({ version: decisionProfiles.version })
+        .from(decisionProfiles)
+        .where(eq(decisionProfiles.userId, userId))
+        .orderBy(desc(decisionProfiles.version))
+        .limit(1);
+      const [row] = await tx.insert(decisionProfiles)
+        .values({
+          userId,
+          version: (latest?.version ?? DEFAULT_DECISION_PROFILE.version) + 1,
+          marginThreshold: profile.marginThreshold.toString(),
+          minNetProfit: profile.minNetProfit.toString(),
+          fixedCosts: profile.fixedCosts.toString(),
+          defaultOutboundShipping: profile.defaultOutboundShipping.toString(),
+          defaultPlatform: profile.defaultPlatform,
+          platformFeeRates: profile.platformFeeRates,
+        })
+        .returning();
+      return row;
+    });
+    return toDecisionProfile(created);
+  }
 }
 
 export const storage = new DatabaseStorage();
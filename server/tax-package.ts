@@ -0,0 +1,233 @@
+/**
+ * Tax Package Renderer
+ *
+ * Turns a ScheduleCReport (shared/scheduleC.ts) into the downloadable tax
+ * package: a CSV for spreadsheets/accountants and a printable HTML page
+ * (print to PDF from the browser). Both carry the per-line totals and the
+ * itemized appendix - sales, disposals, purchases, ending inventory, expenses.
+ */
+
+import { getInventoryStatusLabel } from '@shared/inventoryLifecycle';
+import type { ScheduleCReport } from '@shared/scheduleC';
+import { toCsvLine } from '@shared/dataExport';
+
+export const TAX_DISCLAIMER = "This report is for informational purposes only. Consult a tax professional for official tax advice.";
+
+interface TaxPackageOptions {
+  businessName?: string | null;
+  generatedAt?: Date;
+}
+
+function money(value: number): string {
+  return value.toFixed(2);
+}
+
+function escapeHtml(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+type LineRow = [string, string, number]; // [line, description, amount]
+
+// Parts I & II
+function getIncomeRows(report: ScheduleCReport): LineRow[] {
+  return [
+    ['1', 'Gross receipts or sales', report.income.grossReceipts],
+    ['4', 'Cost of goods sold (line 42)', report.income.costOfGoodsSold],
+    ['5', 'Gross profit', report.income.grossProfit],
+    ...report.expenseLines.map((line): LineRow => [line.line, line.description, line.amount]),
+    ['28', 'Total expenses', report.totalExpenses],
+    ['31', 'Net profit or (loss)', report.netProfit],
+  ];
+}
+
+// Part III
+function getCogsRows(report: ScheduleCReport): LineRow[] {
+  return [
+    ['35', 'Inventory at beginning of year', report.cogs.beginningInventory],
+    ['36', 'Purchases', report.cogs.purchases],
+    ['40', 'Add lines 35 through 39', report.cogs.subtotal],
+    ['41', 'Inventory at end of year', report.cogs.endingInventory],
+    ['42', 'Cost of goods sold', report.cogs.costOfGoodsSold],
+  ];
+}
+
+export function renderScheduleCCsv(report: ScheduleCReport, options: TaxPackageOptions = {}): string {
+  const rows: string[] = [];
+  const push = (...values: (string | number | null | undefined)[]) => rows.push(toCsvLine(values));
+
+  push(`Schedule C - Tax Year ${report.taxYear}`);
+  if (options.businessName) push('Business', options.businessName);
+  push('Generated', (options.generatedAt ?? new Date()).toISOString());
+  rows.push('');
+
+  push('Line', 'Description', 'Amount');
+  for (const [line, description, amount] of [...getIncomeRows(report), ...getCogsRows(report)]) {
+    push(line, description, money(amount));
+  }
+  rows.push('');
+
+  push('Expense Line', 'Detail', 'Amount');
+  for (const line of report.expenseLines) {
+    for (const part of line.breakdown) {
+      push(line.line, part.label, money(part.amount));
+    }
+  }
+  rows.push('');
+
+  push('SALES');
+  push('Sold Date', 'Item', 'Category', 'Platform', 'Purchase Date', 'Sale Price', 'Cost', 'Platform Fees', 'Fees Estimated', 'Shipping', 'Shipping Estimated', 'Net Profit');
+  for (const sale of report.appendix.sales) {
+    push(
+      sale.soldDate, sale.title, sale.category, sale.platform, sale.purchaseDate,
+      money(sale.salePrice), money(sale.cost), money(sale.fees), sale.feesEstimated ? 'yes' : 'no',
+      money(sale.shipping), sale.shippingEstimated ? 'yes' : 'no', money(sale.netProfit)
+    );
+  }
+  rows.push('');
+
+  push('DONATED / WRITTEN OFF');
+  push('Date', 'Item', 'Status', 'Cost');
+  for (const entry of report.appendix.disposals) {
+    push(entry.date, entry.title, getInventoryStatusLabel(entry.status), money(entry.cost));
+  }
+  rows.push('');
+
+  push('PURCHASES');
+  push('Purchase Date', 'Item', 'Current Status', 'Cost');
+  for (const entry of report.appendix.purchases) {
+    push(entry.date, entry.title, getInventoryStatusLabel(entry.status), money(entry.cost));
+  }
+  rows.push('');
+
+  push('ENDING INVENTORY');
+  push('Purchase Date', 'Item', 'Current Status', 'Cost');
+  for (const entry of report.appendix.endingInventory) {
+    push(entry.date, entry.title, getInventoryStatusLabel(entry.status), money(entry.cost));
+  }
+  rows.push('');
+
+  push('EXPENSES');
+  push('Date', 'Category', 'Description', 'Schedule C Line', 'Miles', 'Amount');
+  for (const expense of report.appendix.expenses) {
+    push(expense.date, expense.category, expense.description, expense.line ?? 'excluded (COGS)', expense.miles, money(expense.amount));
+  }
+
+  if (report.warnings.length > 0) {
+    rows.push('');
+    push('NOTES');
+    for (const warning of report.warnings) push(warning);
+  }
+  rows.push('');
+  push(TAX_DISCLAIMER);
+
+  return rows.join('\n');
+}
+
+function htmlTable(headers: string[], body: (string | number | null)[][], numericFrom: number): string {
+  if (body.length === 0) return '<p class="empty">None</p>';
+  const head = headers.map((h, i) => `<th${i >= numericFrom ? ' class="num"' : ''}>${escapeHtml(h)}</th>`).join('');
+  const rows = body
+    .map(row => `<tr>${row.map((cell, i) => `<td${i >= numericFrom ? ' class="num"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('\n');
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${rows}\n</tbody></table>`;
+}
+
+export function renderScheduleCHtml(report: ScheduleCReport, options: TaxPackageOptions = {}): string {
+  const generatedAt = options.generatedAt ?? new Date();
+  const { appendix } = report;
+
+  const summary = htmlTable(
+    ['Line', 'Description', 'Amount'],
+    getIncomeRows(report).map(([line, description, amount]) => [line, description, `$${money(amount)}`]),
+    2
+  );
+  const cogs = htmlTable(
+    ['Line', 'Description', 'Amount'],
+    getCogsRows(report).map(([line, description, amount]) => [line, description, `$${money(amount)}`]),
+    2
+  );
+  const expenseDetail = htmlTable(
+    ['Line', 'Detail', 'Amount'],
+    report.expenseLines.flatMap(line => line.breakdown.map(part => [line.line, part.label, `$${money(part.amount)}`])),
+    2
+  );
+  const sales = htmlTable(
+    ['Sold', 'Item', 'Platform', 'Sale', 'Cost', 'Fees', 'Shipping', 'Net'],
+    appendix.sales.map(s => [
+      s.soldDate, s.title, s.platform,
+      `$${money(s.salePrice)}`, `$${money(s.cost)}`,
+      `$${money(s.fees)}${s.feesEstimated ? '*' : ''}`, `$${money(s.shipping)}${s.shippingEstimated ? '*' : ''}`,
+      `$${money(s.netProfit)}`,
+    ]),
+    3
+  );
+  const inventoryRows = (entries: typeof appendix.purchases) =>
+    entries.map(e => [e.date, e.title, getInventoryStatusLabel(e.status), `$${money(e.cost)}`]);
+  const expenses = htmlTable(
+    ['Date', 'Description', 'Category', 'Line', 'Amount'],
+    appendix.expenses.map(e => [e.date, e.description, e.category, e.line ?? 'excluded', `$${money(e.amount)}`]),
+    4
+  );
+  const notes = report.warnings.length > 0
+    ? `<h2>Notes</h2><ul>${report.warnings.map(w => `<li>${escapeHtml(w)}</li>`).join('')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Schedule C - ${report.taxYear}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; margin: 32px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; border-bottom: 2px solid #111; padding-bottom: 4px; }
+  .meta { color: #555; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { background: #f4f4f4; }
+  .num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+  .empty, .footnote { color: #666; }
+  .disclaimer { margin-top: 32px; font-size: 11px; color: #666; }
+  .print { margin-bottom: 16px; }
+  @media print { .print { display: none; } body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<h1>Schedule C - Profit or Loss From Business</h1>
+<div class="meta">Tax year ${report.taxYear}${options.businessName ? ` &middot; ${escapeHtml(options.businessName)}` : ''} &middot; Generated ${escapeHtml(generatedAt.toISOString().split('T')[0])}</div>
+
+<h2>Parts I &amp; II - Income and Expenses</h2>
+${summary}
+
+<h2>Part III - Cost of Goods Sold</h2>
+${cogs}
+
+<h2>Expense Detail</h2>
+${expenseDetail}
+
+<h2>Appendix A - Sales (${appendix.sales.length})</h2>
+${sales}
+<p class="footnote">* estimated from the platform fee schedule or the shipping estimate</p>
+
+<h2>Appendix B - Donated / Written Off (${appendix.disposals.length})</h2>
+${htmlTable(['Date', 'Item', 'Status', 'Cost'], inventoryRows(appendix.disposals), 3)}
+
+<h2>Appendix C - Purchases (${appendix.purchases.length})</h2>
+${htmlTable(['Purchased', 'Item', 'Current Status', 'Cost'], inventoryRows(appendix.purchases), 3)}
+
+<h2>Appendix D - Ending Inventory (${appendix.endingInventory.length})</h2>
+${htmlTable(['Purchased', 'Item', 'Current Status', 'Cost'], inventoryRows(appendix.endingInventory), 3)}
+
+<h2>Appendix E - Expenses (${appendix.expenses.length})</h2>
+${expenses}
+${notes}
+<p class="disclaimer">${escapeHtml(TAX_DISCLAIMER)}</p>
+</body>
+</html>`;
+}
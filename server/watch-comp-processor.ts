@@ -4,8 +4,11 @@
  * Handles intelligent query building and comp cleaning specifically for watches.
  * Uses brand + family + model/movement identifiers for precise queries.
  * Cleans results by removing parts/repair/bundles, uses MEDIAN, trims outliers.
+ * Also reports a recency-weighted median and price trend from comp sale dates.
  */
 
+import { analyzeCompTrend, type MarketTrend } from "@shared/compTrend";
+
 export interface WatchIdentifiers {
   brand: string;
   family: string;
@@ -25,12 +28,14 @@ export interface CleanedCompResult {
   compCount: number;
   confidence: 'high' | 'low';
   reason?: string;
+  weightedMedianPrice?: number | null; // recency-weighted median of clean comps
+  trend?: MarketTrend | null;
 }
 
 export interface CleanedComp {
   soldPrice: number;
   shippingCost: string;
-  dateSold: string;
+  dateSold: string | null;
   condition: string;
   totalPrice: number;
   title?: string;
@@ -417,10 +422,21 @@ export function cleanSoldComps(rawComps: CleanedComp[], searchQuery: string): Cl
   const MIN_COMPS_FOR_HIGH_CONFIDENCE = 8;
   const confidence = cleanComps.length >= MIN_COMPS_FOR_HIGH_CONFIDENCE ? 'high' : 'low';
   
+  // Recent sales weigh more than 90-day-old ones
+  const trend = analyzeCompTrend(
+    cleanComps.map(c => ({ price: c.soldPrice, dateSold: c.dateSold })),
+    { category: 'Watches' }
+  );
+  if (trend.datedCompCount > 0) {
+    console.log(`[Watch Comp] Recency-weighted median $${trend.weightedMedian} (plain $${trend.median}), trend ${trend.direction}${trend.percentPer30Days !== null ? ` ${trend.percentPer30Days}%/30d` : ''}`);
+  }
+  
   return {
     success: true,
     comps: cleanComps,
     medianPrice: Math.round(medianPrice * 100) / 100,
+    weightedMedianPrice: trend.weightedMedian,
+    trend,
     lowPrice: Math.round(lowPrice * 100) / 100,
     highPrice: Math.round(highPrice * 100) / 100,
     compCount: cleanComps.length,
@@ -0,0 +1,117 @@
+/**
+ * WebSocket Tests
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { RequestHandler } from 'express';
+import { WebSocket } from 'ws';
+import { LIVE_UPDATES_PATH } from '@shared/liveUpdates';
+
+vi.mock('./batch-queue', async () => {
+  const { EventEmitter } = await import('events');
+  return { batchEvents: new EventEmitter() };
+});
+vi.mock('./auction-advisor', () => ({
+  authenticateExtensionToken: vi.fn(),
+  buildAuctionUpdate: vi.fn(),
+  getAuctionAnalysis: vi.fn(),
+  getWatchedListing: vi.fn(),
+  toAuctionListing: vi.fn(),
+  watchListing: vi.fn(),
+}));
+
+import { authenticateExtensionToken } from './auction-advisor';
+import { getSessionUserId, isAllowedOrigin, sendToUser, setupWebSocket } from './websocket';
+
+const upgradeRequest = (headers: IncomingMessage['headers']) => ({ headers } as IncomingMessage);
+
+// Stands in for express-session: cookie "sid=<userId>" is a logged-in user,
+// "sid=fail" a session store that's down
+const sessionParser: RequestHandler = (req, _res, next) => {
+  if (req.headers.cookie === 'sid=fail') return next(new Error('Session store unavailable'));
+  const userId = Number(req.headers.cookie?.match(/sid=(\d+)/)?.[1]);
+  Object.assign(req, { session: userId ? { passport: { user: userId } } : {} });
+  next();
+};
+
+describe('WebSocket live channel auth', () => {
+  it('should only allow the app origin', () => {
+    expect(isAllowedOrigin(upgradeRequest({ host: 'app.example.com', origin: 'https://app.example.com' }))).toBe(true);
+    expect(isAllowedOrigin(upgradeRequest({ host: 'app.example.com', origin: 'https://evil.example.com' }))).toBe(false);
+    expect(isAllowedOrigin(upgradeRequest({ host: 'app.example.com' }))).toBe(false);
+    expect(isAllowedOrigin(upgradeRequest({ host: 'app.example.com', origin: 'null' }))).toBe(false);
+  });
+
+  it('should read the passport user from the session', async () => {
+    expect(await getSessionUserId(upgradeRequest({ cookie: 'sid=7' }), sessionParser)).toBe(7);
+    expect(await getSessionUserId(upgradeRequest({}), sessionParser)).toBeNull();
+  });
+
+  describe('upgrade', () => {
+    let server: Server;
+    let url: string;
+    let auctionUrl: string;
+
+    beforeAll(async () => {
+      server = createServer();
+      setupWebSocket(server, sessionParser);
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      url = `ws://127.0.0.1:${port}${LIVE_UPDATES_PATH}`;
+      auctionUrl = `ws://127.0.0.1:${port}/ws/auction`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const connect = (headers: Record<string, string>, target = url, protocols: string[] = []) => new Promise<WebSocket | number>(resolve => {
+      const ws = new WebSocket(target, protocols, { headers });
+      ws.on('open', () => resolve(ws));
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+    });
+
+    it('should reject cross-site handshakes even with a session', async () => {
+      expect(await connect({ cookie: 'sid=7', origin: 'https://evil.example.com' })).toBe(403);
+    });
+
+    it('should reject handshakes without a session', async () => {
+      expect(await connect({ origin: new URL(url).origin.replace('ws:', 'http:') })).toBe(401);
+    });
+
+    it('should fail the handshake when the session lookup fails', async () => {
+      expect(await connect({ cookie: 'sid=fail', origin: new URL(url).origin.replace('ws:', 'http:') })).toBe(500);
+    });
+
+    it('should read the extension token from the subprotocol', async () => {
+      vi.mocked(authenticateExtensionToken).mockResolvedValueOnce(7);
+      const ws = await connect({}, `${auctionUrl}?itemId=123456789`, ['margin-auction', 'mgn_abc']);
+
+      expect(authenticateExtensionToken).toHaveBeenCalledWith('mgn_abc');
+      expect(ws).toBeInstanceOf(WebSocket);
+      expect((ws as WebSocket).protocol).toBe('margin-auction');
+      (ws as WebSocket).close();
+    });
+
+    it('should ignore an extension token in the query string', async () => {
+      vi.mocked(authenticateExtensionToken).mockResolvedValueOnce(null);
+
+      expect(await connect({}, `${auctionUrl}?itemId=123456789&token=mgn_abc`)).toBe(401);
+      expect(authenticateExtensionToken).toHaveBeenLastCalledWith(null);
+    });
+
+    it('should deliver messages to the logged-in user', async () => {
+      const ws = await connect({ cookie: 'sid=7', origin: new URL(url).origin.replace('ws:', 'http:') });
+      expect(ws).toBeInstanceOf(WebSocket);
+      const socket = ws as WebSocket;
+
+      const received = new Promise<string>(resolve => socket.once('message', data => resolve(data.toString())));
+      expect(sendToUser(7, { type: 'scan_stage', scanId: 'scan-1', stage: 'comps' })).toBe(1);
+      expect(JSON.parse(await received)).toMatchObject({ type: 'scan_stage', scanId: 'scan-1' });
+      expect(sendToUser(8, { type: 'scan_stage', scanId: 'scan-1', stage: 'comps' })).toBe(0);
+
+      socket.close();
+    });
+  });
+});
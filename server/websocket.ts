@@ -1,56 +1,137 @@
 /**
- * WebSocket support for real-time auction overlay updates
+ * WebSocket support
+ *
+ * - /ws/auction: Chrome extension auction overlay. Authenticated with the
+ *   user's extension token, sent as the second WebSocket subprotocol after
+ *   AUCTION_PROTOCOL - browsers can't set handshake headers, and a query
+ *   string ends up in access logs; streams verdict, max bid and profit for
+ *   the watched listing as the current bid and time left change (see
+ *   server/auction-advisor.ts)
+ * - /ws/live (LIVE_UPDATES_PATH): per-user channel for batch progress, scan
+ *   stages and price alerts (see @shared/liveUpdates). Authenticated with the
+ *   login session cookie at upgrade; a user may have several sockets open.
+ *   The cookie is SameSite=None in production, so the upgrade must also come
+ *   from the app's own origin - browsers send cookies on cross-site
+ *   WebSocket handshakes
+ *
+ * Both servers run in noServer mode behind one upgrade handler - two
+ * WebSocketServers attached to the same HTTP server reject each other's
+ * paths. Other upgrades (Vite HMR in development) are left alone.
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Server } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { Request, RequestHandler, Response } from 'express';
+import { LIVE_UPDATES_PATH, isValidScanId, type LiveMessage, type ScanStage, type ScanStageLiveMessage } from '@shared/liveUpdates';
+import type { BatchItem } from '@shared/schema';
+import { batchEvents, type BatchProgressEvent } from './batch-queue';
+import { toAppError } from './error-handling';
+import type { EbayItemDetails } from './ebay-api';
+import {
+  authenticateExtensionToken,
+  buildAuctionUpdate,
+  getAuctionAnalysis,
+  getWatchedListing,
+  toAuctionListing,
+  watchListing,
+  type UserAuctionAnalysis,
+} from './auction-advisor';
+
+const AUCTION_PATH = '/ws/auction';
+const AUCTION_PROTOCOL = 'margin-auction';
+const HEARTBEAT_INTERVAL_MS = 30000;
 
 interface AuctionClient {
   ws: WebSocket;
   itemId: string;
-  userId?: number;
+  userId: number;
+  analysis: UserAuctionAnalysis | null; // set once the listing is scanned
 }
 
 const clients = new Map<WebSocket, AuctionClient>();
 
-export function setupWebSocket(server: Server) {
-  const wss = new WebSocketServer({ 
-    server,
-    path: '/ws/auction'
+// Listing polls by eBay item id - one per item however many clients watch it
+const listingWatches = new Map<string, () => void>();
+
+// Live channel sockets by user
+const userSockets = new Map<number, Set<WebSocket>>();
+
+export function setupWebSocket(server: Server, sessionParser: RequestHandler) {
+  // Echo only the named protocol, never the token
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: protocols => protocols.has(AUCTION_PROTOCOL) ? AUCTION_PROTOCOL : false,
+  });
+  const liveWss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '', `http://${req.headers.host}`);
+
+    if (pathname === AUCTION_PATH) {
+      authenticateExtensionToken(getExtensionToken(req)).then(userId => {
+        if (!userId) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req, userId));
+      }).catch(err => {
+        console.error('[WebSocket] Extension token check failed:', err);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+        socket.destroy();
+      });
+      return;
+    }
+
+    if (pathname === LIVE_UPDATES_PATH) {
+      if (!isAllowedOrigin(req)) {
+        socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      getSessionUserId(req, sessionParser).then(userId => {
+        if (!userId) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        liveWss.handleUpgrade(req, socket, head, ws => liveWss.emit('connection', ws, req, userId));
+      }).catch(err => {
+        console.error('[WebSocket] Session lookup failed:', err);
+        socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+        socket.destroy();
+      });
+    }
   });
 
-  wss.on('connection', (ws, req) => {
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, userId: number) => {
     const url = new URL(req.url || '', `http://${req.headers.host}`);
     const itemId = url.searchParams.get('itemId');
     
-    if (!itemId) {
+    if (!itemId || !isEbayItemId(itemId)) {
       ws.close(4000, 'Missing itemId');
       return;
     }
 
-    console.log(`[WebSocket] Client connected for item: ${itemId}`);
+    console.log(`[WebSocket] User ${userId} connected for item: ${itemId}`);
     
-    clients.set(ws, { ws, itemId });
+    const client: AuctionClient = { ws, itemId, userId, analysis: null };
+    clients.set(ws, client);
 
-    // Send initial analysis if available
-    sendItemAnalysis(ws, itemId);
+    // Send initial analysis
+    subscribeClient(client, itemId);
 
     ws.on('message', async (message) => {
       try {
         const data = JSON.parse(message.toString());
         
-        if (data.type === 'subscribe' && data.itemId) {
-          const client = clients.get(ws);
-          if (client) {
-            client.itemId = data.itemId;
-            await sendItemAnalysis(ws, data.itemId);
-          }
+        if (data.type === 'subscribe' && isEbayItemId(data.itemId)) {
+          subscribeClient(client, data.itemId);
         }
         
-        if (data.type === 'analyze' && data.url) {
-          // Trigger analysis and broadcast result
-          // This would call your existing analysis logic
-          console.log(`[WebSocket] Analysis requested for: ${data.url}`);
+        if (data.type === 'analyze' && typeof data.url === 'string') {
+          const urlItemId = data.url.match(/\/itm\/(?:[^/]*\/)?(\d+)/)?.[1];
+          if (urlItemId) subscribeClient(client, urlItemId);
         }
       } catch (e) {
         console.error('[WebSocket] Message parse error:', e);
@@ -58,61 +139,218 @@ export function setupWebSocket(server: Server) {
     });
 
     ws.on('close', () => {
-      clients.delete(ws);
+      removeClient(ws);
       console.log(`[WebSocket] Client disconnected`);
     });
 
     ws.on('error', (error) => {
       console.error('[WebSocket] Error:', error);
-      clients.delete(ws);
+      removeClient(ws);
+    });
+  });
+
+  liveWss.on('connection', (ws: WebSocket, _req: IncomingMessage, userId: number) => {
+    const sockets = userSockets.get(userId) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    userSockets.set(userId, sockets);
+
+    let alive = true;
+    ws.on('pong', () => { alive = true; });
+    const heartbeat = setInterval(() => {
+      if (!alive) {
+        ws.terminate();
+        return;
+      }
+      alive = false;
+      ws.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const remove = () => {
+      clearInterval(heartbeat);
+      sockets.delete(ws);
+      if (sockets.size === 0) userSockets.delete(userId);
+    };
+    ws.on('close', remove);
+    ws.on('error', (error) => {
+      console.error('[WebSocket] Live channel error:', error);
+      remove();
     });
   });
 
-  console.log('[WebSocket] Server initialized on /ws/auction');
-  
+  // Batch job queue progress → the batch owner's sockets
+  batchEvents.on('progress', ({ userId, session, item }: BatchProgressEvent) => {
+    sendToUser(userId, { type: 'batch', session, item: item ? toLiveBatchItem(item) : null });
+  });
+
+  console.log(`[WebSocket] Server initialized on ${AUCTION_PATH} and ${LIVE_UPDATES_PATH}`);
+
   return wss;
 }
 
-async function sendItemAnalysis(ws: WebSocket, itemId: string) {
+/**
+ * Same-origin check for the live channel handshake. The Origin must be the
+ * host the request came in on, or one of the app's REPLIT_DOMAINS.
+ */
+export function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+
+  let originHost: string;
   try {
-    // Look up item by eBay ID in database
-    // For now, send a placeholder response
-    // In production, query storage for the item
-    
-    const message = {
-      type: 'analysis',
-      itemId,
-      status: 'pending',
-      message: 'Analysis not yet available. Scan this item in the Margin app first.'
-    };
-    
+    originHost = new URL(origin).host;
+  } catch {
+    return false;
+  }
+  const appHosts = (process.env.REPLIT_DOMAINS || '').split(',').map(domain => domain.trim()).filter(Boolean);
+  return originHost === req.headers.host || appHosts.includes(originHost);
+}
+
+// Subprotocols are [AUCTION_PROTOCOL, token]
+function getExtensionToken(req: IncomingMessage): string | null {
+  const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim());
+  const index = protocols.indexOf(AUCTION_PROTOCOL);
+  return index >= 0 ? protocols[index + 1] || null : null;
+}
+
+// express-session only needs the request; passport stores the user id on the session
+type SessionRequest = Request & { session?: { passport?: { user?: unknown } } };
+
+/**
+ * Logged-in user for an upgrade request, read from the session cookie with
+ * the same express-session middleware the HTTP routes use.
+ */
+export function getSessionUserId(req: IncomingMessage, sessionParser: RequestHandler): Promise<number | null> {
+  const request = req as SessionRequest;
+  return new Promise((resolve, reject) => {
+    sessionParser(request, {} as Response, (err?: unknown) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      const userId = request.session?.passport?.user;
+      resolve(typeof userId === 'number' ? userId : null);
+    });
+  });
+}
+
+// Photo items carry the image inline - pages already have it
+function toLiveBatchItem(item: BatchItem) {
+  if (item.inputType === 'url') return item;
+  const { inputValue, ...rest } = item;
+  return rest;
+}
+
+/**
+ * Push a live update to every open socket of a user. Returns how many got it.
+ */
+export function sendToUser(userId: number, message: LiveMessage): number {
+  const sockets = userSockets.get(userId);
+  if (!sockets) return 0;
+
+  const payload = JSON.stringify(message);
+  let sent = 0;
+  sockets.forEach(ws => {
     if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+      ws.send(payload);
+      sent++;
     }
-  } catch (e) {
-    console.error('[WebSocket] Send error:', e);
+  });
+  return sent;
+}
+
+/**
+ * Report a scan's pipeline stage. Requests without a (valid) client scanId
+ * are not being watched, so nothing is sent.
+ */
+export function publishScanStage(
+  userId: number,
+  scanId: unknown,
+  stage: ScanStage,
+  details: Pick<ScanStageLiveMessage, 'title' | 'verdict' | 'message'> = {}
+): void {
+  if (!isValidScanId(scanId)) return;
+  sendToUser(userId, { type: 'scan_stage', scanId, stage, ...details });
+}
+
+function isEbayItemId(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{9,15}$/.test(value);
+}
+
+function sendToClient(client: AuctionClient, message: object) {
+  if (client.ws.readyState === WebSocket.OPEN) {
+    client.ws.send(JSON.stringify(message));
   }
 }
 
+function removeClient(ws: WebSocket) {
+  const client = clients.get(ws);
+  clients.delete(ws);
+  if (client) releaseListingWatch(client.itemId);
+}
+
+// Stop polling a listing nobody watches any more
+function releaseListingWatch(itemId: string) {
+  const watched = Array.from(clients.values()).some(client => client.itemId === itemId);
+  if (watched) return;
+  listingWatches.get(itemId)?.();
+  listingWatches.delete(itemId);
+}
+
 /**
- * Broadcast analysis update to all clients watching this item
+ * Point a client at a listing: poll it, scan it for the user (or reuse their
+ * recent scan) and send the first update. Later polls arrive through
+ * broadcastItemUpdate.
  */
-export function broadcastItemUpdate(itemId: string, data: {
-  decision: 'flip' | 'skip' | 'caution' | 'hold';
-  decisionText: string;
-  score: number;
-  maxBid: number;
-  profit: number;
-}) {
-  const message = JSON.stringify({
+async function subscribeClient(client: AuctionClient, itemId: string) {
+  const previousItemId = client.itemId;
+  client.itemId = itemId;
+  client.analysis = null;
+  if (previousItemId !== itemId) releaseListingWatch(previousItemId);
+
+  if (!listingWatches.has(itemId)) {
+    listingWatches.set(itemId, watchListing(itemId, details => broadcastItemUpdate(itemId, details)));
+  }
+
+  sendToClient(client, {
     type: 'analysis',
     itemId,
-    ...data
+    status: 'pending',
+    message: 'Analyzing...',
   });
 
+  try {
+    const details = await getWatchedListing(itemId);
+    if (!details) {
+      sendToClient(client, { type: 'error', itemId, code: 'ITEM_NOT_FOUND', message: `Could not load eBay item ${itemId}` });
+      return;
+    }
+
+    const analysis = await getAuctionAnalysis(client.userId, details);
+    if (client.itemId !== itemId || !clients.has(client.ws)) return; // moved on meanwhile
+    client.analysis = analysis;
+    sendToClient(client, buildAuctionUpdate(analysis, toAuctionListing(details)));
+  } catch (e) {
+    const appError = toAppError(e);
+    console.error(`[WebSocket] Auction analysis failed for item ${itemId}:`, e);
+    sendToClient(client, {
+      type: 'error',
+      itemId,
+      code: appError.code,
+      message: appError.originalError?.message || appError.message,
+    });
+  }
+}
+
+/**
+ * Send each client watching this listing its own update (verdict and max bid
+ * depend on the user's scan and decision profile).
+ */
+export function broadcastItemUpdate(itemId: string, details: EbayItemDetails) {
+  const listing = toAuctionListing(details);
+
   clients.forEach((client) => {
-    if (client.itemId === itemId && client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(message);
+    if (client.itemId === itemId && client.analysis) {
+      sendToClient(client, buildAuctionUpdate(client.analysis, listing));
     }
   });
 }
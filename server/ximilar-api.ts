@@ -6,6 +6,8 @@
  * Docs: https://docs.ximilar.com/services/collectibles_recognition/
  */
 
+import { fixtureFetch } from './api-fixtures';
+
 const XIMILAR_API_BASE = 'https://api.ximilar.com';
 
 interface XimilarRecord {
@@ -71,7 +73,7 @@ export async function recognizeCollectibles(
   imageUrl: string,
   apiToken: string
 ): Promise<XimilarResponse> {
-  const response = await fetch(`${XIMILAR_API_BASE}/collectibles/v2/recognize`, {
+  const response = await fixtureFetch('ximilar', `${XIMILAR_API_BASE}/collectibles/v2/recognize`, {
     method: 'POST',
     headers: {
       'Authorization': `Token ${apiToken}`,
@@ -103,7 +105,7 @@ export async function identifyCard(
     slabGrade?: boolean; // Extract grade from slab
   } = {}
 ): Promise<XimilarResponse> {
-  const response = await fetch(`${XIMILAR_API_BASE}/collectibles/v2/card_id`, {
+  const response = await fixtureFetch('ximilar', `${XIMILAR_API_BASE}/collectibles/v2/card_id`, {
     method: 'POST',
     headers: {
       'Authorization': `Token ${apiToken}`,
@@ -133,7 +135,7 @@ export async function gradeCard(
   apiToken: string,
   scale: 'PSA' | 'BGS' = 'PSA'
 ): Promise<XimilarResponse> {
-  const response = await fetch(`${XIMILAR_API_BASE}/collectibles/v2/card_grader`, {
+  const response = await fixtureFetch('ximilar', `${XIMILAR_API_BASE}/collectibles/v2/card_grader`, {
     method: 'POST',
     headers: {
       'Authorization': `Token ${apiToken}`,
@@ -159,7 +161,7 @@ export async function analyzeCardCentering(
   imageUrl: string,
   apiToken: string
 ): Promise<XimilarResponse> {
-  const response = await fetch(`${XIMILAR_API_BASE}/collectibles/v2/card_centering`, {
+  const response = await fixtureFetch('ximilar', `${XIMILAR_API_BASE}/collectibles/v2/card_centering`, {
     method: 'POST',
     headers: {
       'Authorization': `Token ${apiToken}`,
@@ -186,7 +188,7 @@ export async function getCardPricing(
   apiToken: string,
   marketplaces: string[] = ['ebay']
 ): Promise<XimilarResponse> {
-  const response = await fetch(`${XIMILAR_API_BASE}/collectibles/v2/pricing`, {
+  const response = await fixtureFetch('ximilar', `${XIMILAR_API_BASE}/collectibles/v2/pricing`, {
     method: 'POST',
     headers: {
       'Authorization': `Token ${apiToken}`,
@@ -0,0 +1,262 @@
+/**
+ * Streaming XLSX Writer
+ *
+ * Writes a single-sheet .xlsx straight to a response without holding the
+ * sheet in memory: the workbook parts are small stored zip entries, and the
+ * worksheet is deflated as rows arrive (zip data descriptor, so sizes and
+ * CRC are written after the data). Strings are inline (no shared-strings
+ * table); the header row is bold. No zip64 - fine below 4GB.
+ */
+
+import zlib from "zlib";
+import { once } from "events";
+import type { Writable } from "stream";
+import type { ExportCell } from "@shared/dataExport";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < buf.length; i++) crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Excel sheet names: max 31 chars, none of []:*?/\
+function toSheetName(name: string): string {
+  return name.replace(/[\[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+}
+
+interface ZipEntry {
+  name: Buffer;
+  flags: number;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+
+export class XlsxStreamWriter {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private rowNumber = 0;
+  private sheet: { deflate: zlib.DeflateRaw; entry: ZipEntry } | null = null;
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+
+  constructor(private out: Writable, private sheetName: string) {
+    const now = new Date();
+    this.dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    this.dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  async start(headers: string[]): Promise<void> {
+    const sheetName = escapeXml(toSheetName(this.sheetName));
+    await this.addStoredFile('[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + '</Types>');
+    await this.addStoredFile('_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>');
+    await this.addStoredFile('xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>');
+    await this.addStoredFile('xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+      + '</Relationships>');
+    // Style 1 = bold header
+    await this.addStoredFile('xl/styles.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+      + '</styleSheet>');
+
+    await this.beginSheet();
+    await this.writeSheetXml(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      + '<sheetData>'
+    );
+    await this.writeRows([headers], 1);
+  }
+
+  async writeRows(rows: ExportCell[][], style = 0): Promise<void> {
+    const styleAttr = style ? ` s="${style}"` : '';
+    let xml = '';
+    for (const row of rows) {
+      this.rowNumber++;
+      xml += `<row r="${this.rowNumber}">`;
+      row.forEach((cell, i) => {
+        if (cell === null || cell === '') return;
+        const ref = `${columnLetter(i)}${this.rowNumber}`;
+        xml += typeof cell === 'number' && isFinite(cell)
+          ? `<c r="${ref}"${styleAttr}><v>${cell}</v></c>`
+          : `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+      });
+      xml += '</row>';
+    }
+    await this.writeSheetXml(xml);
+  }
+
+  async finish(): Promise<void> {
+    await this.writeSheetXml('</sheetData></worksheet>');
+    await this.endSheet();
+
+    const centralStart = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6); // version needed
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(this.dosTime, 12);
+      header.writeUInt16LE(this.dosDate, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42); // extra, comment, disk and attributes stay 0
+      await this.push(Buffer.concat([header, entry.name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralStart, 12);
+    end.writeUInt32LE(centralStart, 16);
+    await this.push(end);
+  }
+
+  private async push(buf: Buffer): Promise<void> {
+    this.offset += buf.length;
+    if (!this.out.write(buf)) await once(this.out, 'drain');
+  }
+
+  private localHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private async addStoredFile(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, 'utf8');
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      flags: 0,
+      method: 0,
+      crc: crc32(data),
+      compressedSize: data.length,
+      size: data.length,
+      offset: this.offset,
+    };
+    this.entries.push(entry);
+    await this.push(this.localHeader(entry));
+    await this.push(data);
+  }
+
+  private async beginSheet(): Promise<void> {
+    const entry: ZipEntry = {
+      name: Buffer.from('xl/worksheets/sheet1.xml', 'utf8'),
+      flags: DATA_DESCRIPTOR_FLAG,
+      method: 8,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+    };
+    this.entries.push(entry);
+    await this.push(this.localHeader(entry));
+
+    // Compressed output goes straight to the response; pause while it drains
+    const deflate = zlib.createDeflateRaw();
+    deflate.on('data', (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      this.offset += chunk.length;
+      if (!this.out.write(chunk)) {
+        deflate.pause();
+        this.out.once('drain', () => deflate.resume());
+      }
+    });
+    this.sheet = { deflate, entry };
+  }
+
+  private async writeSheetXml(xml: string): Promise<void> {
+    if (!this.sheet || !xml) return;
+    const data = Buffer.from(xml, 'utf8');
+    this.sheet.entry.crc = crc32(data, this.sheet.entry.crc);
+    this.sheet.entry.size += data.length;
+    if (!this.sheet.deflate.write(data)) await once(this.sheet.deflate, 'drain');
+  }
+
+  private async endSheet(): Promise<void> {
+    if (!this.sheet) return;
+    const { deflate, entry } = this.sheet;
+    const ended = once(deflate, 'end');
+    deflate.end();
+    await ended;
+    this.sheet = null;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.push(descriptor);
+  }
+}
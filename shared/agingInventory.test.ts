@@ -0,0 +1,41 @@
+/**
+ * Aging Inventory Tests
+ */
+
+import { rankAgingItems, recommendAgingAction } from './agingInventory';
+
+describe('Aging inventory', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  const listedDaysAgo = (days: number) => new Date(now.getTime() - days * 86400000);
+  const baselines = { categories: { shoes: { medianDays: 10, sales: 5 } }, overall: { medianDays: 20, sales: 8 } };
+  const item = { purchasePrice: '20', shippingEstimate: '5', platform: 'ebay', category: 'Shoes' };
+
+  it('should rank listed items against their category time-to-sell', () => {
+    const ranked = rankAgingItems([
+      { id: 1, status: 'listed', category: 'Shoes', listedDate: listedDaysAgo(16) },
+      { id: 2, status: 'listed', category: 'Toys', listedDate: listedDaysAgo(50) }, // no category history: overall 20d
+      { id: 3, status: 'listed', category: 'Shoes', listedDate: listedDaysAgo(12) }, // under MIN_DAYS_LISTED
+      { id: 4, status: 'bought', category: 'Shoes', listedDate: listedDaysAgo(90) },
+    ], baselines, now);
+
+    expect(ranked.map(r => [r.item.id, r.typicalDaysToSell, r.ageRatio])).toEqual([[2, 20, 2.5], [1, 10, 1.6]]);
+  });
+
+  it('should mark down to the comp median, never below break-even', () => {
+    const result = recommendAgingAction({ ...item, askingPrice: '80', ageRatio: 1.6, comps: { medianPrice: 60, lowPrice: 40, count: 8 } });
+
+    expect(result.action).toBe('markdown');
+    expect(result.suggestedPrice).toBe(60);
+    expect(result.breakEvenPrice).toBe(29.28);
+  });
+
+  it('should cross-list when priced at market and bundle when comps miss break-even', () => {
+    const atMarket = recommendAgingAction({ ...item, askingPrice: '62', ageRatio: 1.6, comps: { medianPrice: 60, lowPrice: 40, count: 8 } });
+    const underwater = recommendAgingAction({ ...item, askingPrice: '62', ageRatio: 1.6, comps: { medianPrice: 25, lowPrice: 15, count: 8 } });
+
+    expect(atMarket.action).toBe('crosslist');
+    expect(atMarket.targetPlatform).not.toBe('ebay');
+    expect(underwater.action).toBe('bundle');
+    expect(underwater.suggestedPrice).toBe(15);
+  });
+});
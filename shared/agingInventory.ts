@@ -0,0 +1,241 @@
+/**
+ * Aged Inventory - Staleness & Markdown Recommendations
+ *
+ * A listed item is "aging" once it has sat longer than the user's own typical
+ * time-to-sell for its category. The typical time is the median listed →
+ * sold days over the user's sales in that category, falling back to all
+ * their sales and then DEFAULT_DAYS_TO_SELL when there isn't enough history.
+ *
+ * STALE: listed ≥ MIN_DAYS_LISTED days and ≥ STALE_MULTIPLIER × typical.
+ * Items are ranked by ageRatio (days listed ÷ typical), oldest first.
+ *
+ * RECOMMENDATION (from fresh comps):
+ * 1. bundle - very stale (≥ LIQUIDATE_MULTIPLIER × typical), or the market
+ *    price no longer covers cost + fees + shipping: bundle it or clear it
+ * 2. markdown - comps sit at least MIN_MARKDOWN_PERCENT under the asking
+ *    price: drop to the comp median (never below break-even)
+ * 3. crosslist - the price is in line with the market, so the item needs
+ *    more buyers: list it on the platform that nets the most
+ * Without enough comps, long-stale items get a stepped markdown and the
+ * rest are cross-listed.
+ *
+ * The asking price is the item's estimatedResale; the current platform is
+ * its salePlatform (eBay when unset).
+ */
+
+import { calculateFeeBreakdown, FEE_SCHEDULES, normalizeFeePlatform, type FeePlatform } from './feeSchedule';
+import { TYPICAL_SELLER_SHIPPING, type PlatformPayout } from './platformPayouts';
+
+export const agingActions = ['markdown', 'crosslist', 'bundle'] as const;
+export type AgingAction = typeof agingActions[number];
+
+export const agingRecommendationStatuses = ['open', 'applied', 'dismissed'] as const;
+export type AgingRecommendationStatus = typeof agingRecommendationStatuses[number];
+
+export const AGING_ACTION_LABELS: Record<AgingAction, string> = {
+  markdown: 'Drop price',
+  crosslist: 'Cross-list',
+  bundle: 'Bundle / liquidate',
+};
+
+export const DEFAULT_DAYS_TO_SELL = 30;
+export const MIN_SALES_FOR_BASELINE = 3;
+export const MIN_DAYS_LISTED = 14;
+export const STALE_MULTIPLIER = 1.5;
+export const LIQUIDATE_MULTIPLIER = 3;
+export const MIN_MARKDOWN_PERCENT = 0.05;
+export const NO_COMPS_MARKDOWN_PERCENT = 0.15;
+const MIN_COMPS_FOR_PRICE = 3;
+const NO_COMPS_MARKDOWN_RATIO = 2; // stepped markdown only once this stale
+
+// Shipped marketplaces worth cross-listing to when comps don't cover them
+const CROSSLIST_PLATFORMS: FeePlatform[] = ['ebay', 'mercari', 'poshmark'];
+
+type MoneyValue = string | number | null | undefined;
+
+export interface SellTimeBaseline {
+  medianDays: number;
+  sales: number;
+}
+
+export interface SellTimeBaselines {
+  categories: Record<string, SellTimeBaseline>; // keyed by lowercased category
+  overall: SellTimeBaseline | null;
+}
+
+export interface TypicalDaysToSell {
+  days: number;
+  basis: 'category' | 'overall' | 'default';
+}
+
+export interface AgingItemInput {
+  status: string;
+  category?: string | null;
+  listedDate?: Date | string | null;
+}
+
+export interface AgingRank<T extends AgingItemInput> {
+  item: T;
+  daysListed: number;
+  typicalDaysToSell: number;
+  basis: TypicalDaysToSell['basis'];
+  ageRatio: number; // daysListed / typicalDaysToSell
+}
+
+export interface AgingRecommendationInput {
+  askingPrice: MoneyValue; // estimatedResale
+  purchasePrice: MoneyValue;
+  shippingEstimate?: MoneyValue;
+  platform?: string | null; // where it's listed now
+  category?: string | null;
+  ageRatio: number;
+  comps: { medianPrice: number | null; lowPrice: number | null; count: number };
+  payouts?: PlatformPayout[]; // per-platform comps, from comparePlatformPayouts
+}
+
+export interface AgingRecommendationResult {
+  action: AgingAction;
+  suggestedPrice: number | null;
+  targetPlatform: FeePlatform | null; // crosslist only
+  breakEvenPrice: number;
+  reason: string;
+}
+
+function toNumber(value: MoneyValue): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Whole dollars read like a real listing price; .99 below $20
+function toListingPrice(value: number): number {
+  if (value < 20) return Math.max(0.99, Math.ceil(value) - 0.01);
+  return Math.round(value);
+}
+
+export function getTypicalDaysToSell(category: string | null | undefined, baselines: SellTimeBaselines): TypicalDaysToSell {
+  const byCategory = category ? baselines.categories[category.toLowerCase()] : undefined;
+  if (byCategory && byCategory.sales >= MIN_SALES_FOR_BASELINE) {
+    return { days: Math.max(1, byCategory.medianDays), basis: 'category' };
+  }
+  if (baselines.overall && baselines.overall.sales >= MIN_SALES_FOR_BASELINE) {
+    return { days: Math.max(1, baselines.overall.medianDays), basis: 'overall' };
+  }
+  return { days: DEFAULT_DAYS_TO_SELL, basis: 'default' };
+}
+
+export function getDaysListed(listedDate: Date | string, now = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(listedDate).getTime()) / 86400000));
+}
+
+/**
+ * Listed items past their typical time-to-sell, most overdue first.
+ */
+export function rankAgingItems<T extends AgingItemInput>(items: T[], baselines: SellTimeBaselines, now = new Date()): AgingRank<T>[] {
+  const ranked: AgingRank<T>[] = [];
+  for (const item of items) {
+    if (item.status !== 'listed' || !item.listedDate) continue;
+    const daysListed = getDaysListed(item.listedDate, now);
+    const typical = getTypicalDaysToSell(item.category, baselines);
+    const ageRatio = Math.round((daysListed / typical.days) * 100) / 100;
+    if (daysListed < MIN_DAYS_LISTED || ageRatio < STALE_MULTIPLIER) continue;
+    ranked.push({ item, daysListed, typicalDaysToSell: typical.days, basis: typical.basis, ageRatio });
+  }
+  return ranked.sort((a, b) => b.ageRatio - a.ageRatio || b.daysListed - a.daysListed);
+}
+
+/**
+ * Lowest price that still covers cost, seller-paid shipping and the
+ * platform's fees at that price.
+ */
+export function getBreakEvenPrice(params: {
+  purchasePrice: number;
+  shipping: number;
+  platform?: string | null;
+  category?: string | null;
+}): number {
+  const base = params.purchasePrice + params.shipping;
+  if (base <= 0) return 0;
+  // Fees grow slower than price, so this converges in a few rounds
+  let price = base;
+  for (let i = 0; i < 10; i++) {
+    const fees = calculateFeeBreakdown({ platform: params.platform, category: params.category, salePrice: price }).totalFees;
+    price = base + fees;
+  }
+  return Math.ceil(price * 100) / 100;
+}
+
+// Platform other than the current one that nets the most at this price
+function pickCrosslistPlatform(
+  current: FeePlatform,
+  price: number | null,
+  category: string | null | undefined,
+  payouts: PlatformPayout[]
+): FeePlatform | null {
+  const fromComps = payouts.find(p => p.platform !== current && p.compCount >= MIN_COMPS_FOR_PRICE);
+  if (fromComps) return fromComps.platform;
+  if (price === null || price <= 0) return CROSSLIST_PLATFORMS.find(p => p !== current) ?? null;
+
+  const netFor = (platform: FeePlatform) =>
+    calculateFeeBreakdown({ platform, category, salePrice: price }).netPayout - (TYPICAL_SELLER_SHIPPING[platform] ?? 0);
+  return CROSSLIST_PLATFORMS
+    .filter(p => p !== current)
+    .sort((a, b) => netFor(b) - netFor(a))[0] ?? null;
+}
+
+export function recommendAgingAction(input: AgingRecommendationInput): AgingRecommendationResult {
+  const asking = toNumber(input.askingPrice);
+  const purchasePrice = toNumber(input.purchasePrice) ?? 0;
+  const shipping = toNumber(input.shippingEstimate) ?? 0;
+  const platform = normalizeFeePlatform(input.platform);
+  const breakEvenPrice = getBreakEvenPrice({ purchasePrice, shipping, platform, category: input.category });
+  const market = input.comps.count >= MIN_COMPS_FOR_PRICE ? input.comps.medianPrice : null;
+
+  const bundle = (reason: string): AgingRecommendationResult => ({
+    action: 'bundle',
+    suggestedPrice: input.comps.lowPrice !== null ? roundMoney(input.comps.lowPrice) : null,
+    targetPlatform: null,
+    breakEvenPrice,
+    reason,
+  });
+  const crosslist = (reason: string): AgingRecommendationResult => {
+    const target = pickCrosslistPlatform(platform, asking ?? market, input.category, input.payouts ?? []);
+    return {
+      action: 'crosslist',
+      suggestedPrice: asking,
+      targetPlatform: target,
+      breakEvenPrice,
+      reason: target ? `${reason} - list it on ${FEE_SCHEDULES[target].label} too` : reason,
+    };
+  };
+  const markdown = (to: number, reason: string): AgingRecommendationResult | null => {
+    const price = Math.max(toListingPrice(to), breakEvenPrice);
+    if (asking !== null && price >= asking) return null;
+    return { action: 'markdown', suggestedPrice: roundMoney(price), targetPlatform: null, breakEvenPrice, reason };
+  };
+
+  if (market !== null && market < breakEvenPrice) {
+    return bundle(`Comps sell around $${market.toFixed(2)}, under your $${breakEvenPrice.toFixed(2)} break-even`);
+  }
+  if (input.ageRatio >= LIQUIDATE_MULTIPLIER) {
+    return bundle(`Listed ${input.ageRatio}× longer than your typical sale - bundle it or clear it out`);
+  }
+
+  if (market !== null) {
+    if (asking !== null && market < asking * (1 - MIN_MARKDOWN_PERCENT)) {
+      const result = markdown(market, `Comps sell around $${market.toFixed(2)}, you're asking $${asking.toFixed(2)}`);
+      if (result) return result;
+    }
+    return crosslist(`Priced in line with ${input.comps.count} recent comps`);
+  }
+
+  if (asking !== null && input.ageRatio >= NO_COMPS_MARKDOWN_RATIO) {
+    const result = markdown(asking * (1 - NO_COMPS_MARKDOWN_PERCENT), `No recent comps - step the price down ${Math.round(NO_COMPS_MARKDOWN_PERCENT * 100)}%`);
+    if (result) return result;
+  }
+  return crosslist('Not enough recent comps to reprice');
+}
@@ -0,0 +1,38 @@
+/**
+ * Analytics Tests
+ */
+
+import { EMPTY_RAW_POINT, finalizeAnalyticsPoint, getRecentPeriods, mergeSmallSlices } from './analytics';
+
+describe('Analytics', () => {
+  it('should start weeks on Monday and include the current one', () => {
+    const periods = getRecentPeriods('week', 3, new Date('2026-10-21T15:00:00Z'));
+
+    expect(periods.map(p => p.start.toISOString().split('T')[0])).toEqual(['2026-10-05', '2026-10-12', '2026-10-19']);
+    expect(periods[2].end.toISOString().split('T')[0]).toBe('2026-10-26');
+  });
+
+  it('should derive profit, ROI, sell-through and days to sell from raw sums', () => {
+    const point = finalizeAnalyticsPoint('2026-10-19', {
+      itemsSold: 2, revenue: 100, cost: 30, fees: 13, shipping: 7,
+      daysToSellTotal: 25, itemsAvailable: 8, itemsAcquired: 3,
+    }, { expenses: 20, scans: 5, flips: 2 });
+
+    expect(point.profit).toBe(50);
+    expect(point.roi).toBeCloseTo(1.667, 3);
+    expect(point.sellThrough).toBe(0.25);
+    expect(point.avgDaysToSell).toBe(12.5);
+    expect(point.netProfit).toBe(30);
+  });
+
+  it('should merge small slices by summing before taking ratios', () => {
+    const slice = (itemsSold: number, revenue: number, itemsAvailable: number) => {
+      const raw = { ...EMPTY_RAW_POINT, itemsSold, revenue, itemsAvailable };
+      return { points: [raw], total: raw };
+    };
+    const merged = mergeSmallSlices(new Map([['A', slice(1, 50, 2)], ['B', slice(1, 10, 4)], ['C', slice(0, 0, 4)]]), 1);
+
+    expect(merged.map(s => s.key)).toEqual(['A', 'Other']);
+    expect(finalizeAnalyticsPoint('p', merged[1].total).sellThrough).toBe(0.125);
+  });
+});
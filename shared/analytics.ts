@@ -0,0 +1,244 @@
+/**
+ * Sales Analytics - Periods, Slices & Derived Metrics
+ *
+ * The server sums raw counts and dollars per period (and per slice) in SQL;
+ * everything here is the shared, database-free part:
+ * - which periods a range covers (weeks start Monday, all in UTC)
+ * - how raw sums become the reported metrics
+ * - merging small slices into "Other" without averaging averages
+ *
+ * METRICS (per period):
+ * - revenue / profit: items whose soldDate falls in the period; profit is
+ *   sale - purchase - platform fees - outbound shipping
+ * - sellThrough: sold in the period ÷ items in stock at some point in it
+ * - avgDaysToSell: purchaseDate → soldDate for items sold in the period
+ * - roi: profit ÷ purchase cost of the items sold
+ *
+ * SLICES: category, brand, source location, sale platform, or purchase-month
+ * cohort ("2026-03"). Items missing the field land in "Unknown".
+ */
+
+export const analyticsIntervals = ['week', 'month'] as const;
+export type AnalyticsInterval = typeof analyticsIntervals[number];
+
+export const analyticsSlices = ['none', 'category', 'brand', 'sourceLocation', 'salePlatform', 'cohort'] as const;
+export type AnalyticsSlice = typeof analyticsSlices[number];
+
+export const analyticsMetrics = ['profit', 'revenue', 'sellThrough', 'avgDaysToSell', 'roi'] as const;
+export type AnalyticsMetric = typeof analyticsMetrics[number];
+
+export const ANALYTICS_SLICE_LABELS: Record<AnalyticsSlice, string> = {
+  none: 'All items',
+  category: 'Category',
+  brand: 'Brand',
+  sourceLocation: 'Source',
+  salePlatform: 'Platform',
+  cohort: 'Purchase month',
+};
+
+export const ANALYTICS_METRIC_LABELS: Record<AnalyticsMetric, string> = {
+  profit: 'Profit',
+  revenue: 'Revenue',
+  sellThrough: 'Sell-through',
+  avgDaysToSell: 'Days to sell',
+  roi: 'ROI',
+};
+
+export const MAX_ANALYTICS_PERIODS = 104;
+export const UNKNOWN_SLICE = 'Unknown';
+export const OTHER_SLICE = 'Other';
+
+export interface AnalyticsPeriod {
+  start: Date;
+  end: Date; // exclusive
+}
+
+// Sums the SQL returns per period (and slice)
+export interface AnalyticsRawPoint {
+  itemsSold: number;
+  revenue: number;
+  cost: number; // purchase price of the items sold
+  fees: number;
+  shipping: number;
+  daysToSellTotal: number;
+  itemsAvailable: number;
+  itemsAcquired: number;
+}
+
+export interface AnalyticsPoint {
+  period: string; // YYYY-MM-DD, period start
+  itemsSold: number;
+  itemsAcquired: number;
+  itemsAvailable: number;
+  revenue: number;
+  cost: number;
+  fees: number;
+  shipping: number;
+  profit: number;
+  roi: number | null; // 0.5 = 50%
+  sellThrough: number | null; // 0..1
+  avgDaysToSell: number | null;
+  // Unsliced series only
+  expenses: number | null;
+  netProfit: number | null; // profit - expenses
+  scans: number | null;
+  flips: number | null;
+}
+
+export interface AnalyticsSeriesLine {
+  key: string;
+  points: AnalyticsPoint[];
+  total: AnalyticsPoint; // whole range as one period
+}
+
+export interface AnalyticsSeriesResponse {
+  interval: AnalyticsInterval;
+  slice: AnalyticsSlice;
+  periods: string[];
+  series: AnalyticsSeriesLine[]; // biggest profit first; "Other" last
+  total: AnalyticsPoint;
+}
+
+// All-time leaders shown at the top of AnalyticsPage
+export interface SalesBreakdown {
+  topBrands: { brand: string; sold: number; profit: number }[];
+  categoryProfit: { category: string; avgProfit: number; itemsSold: number; totalProfit: number }[];
+  sellThrough: { rate: number; sold: number; listed: number };
+  summary: { totalProfit: number; avgProfitPerItem: number; totalSold: number; totalListed: number };
+}
+
+export const EMPTY_RAW_POINT: AnalyticsRawPoint = {
+  itemsSold: 0,
+  revenue: 0,
+  cost: 0,
+  fees: 0,
+  shipping: 0,
+  daysToSellTotal: 0,
+  itemsAvailable: 0,
+  itemsAcquired: 0,
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function toPeriodKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function getPeriodStart(date: Date, interval: AnalyticsInterval): Date {
+  if (interval === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - sinceMonday);
+  return day;
+}
+
+function addInterval(date: Date, interval: AnalyticsInterval, count = 1): Date {
+  const next = new Date(date);
+  if (interval === 'month') {
+    next.setUTCMonth(next.getUTCMonth() + count);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 7 * count);
+  }
+  return next;
+}
+
+/**
+ * Periods covering from..to (both inclusive), oldest first.
+ * Capped at MAX_ANALYTICS_PERIODS, keeping the most recent.
+ */
+export function getAnalyticsPeriods(from: Date, to: Date, interval: AnalyticsInterval): AnalyticsPeriod[] {
+  const periods: AnalyticsPeriod[] = [];
+  const last = getPeriodStart(to, interval);
+  for (let start = getPeriodStart(from, interval); start <= last; start = addInterval(start, interval)) {
+    periods.push({ start, end: addInterval(start, interval) });
+  }
+  return periods.slice(-MAX_ANALYTICS_PERIODS);
+}
+
+/**
+ * Default range: the last `count` periods up to and including the current one.
+ */
+export function getRecentPeriods(interval: AnalyticsInterval, count: number, now = new Date()): AnalyticsPeriod[] {
+  const from = addInterval(getPeriodStart(now, interval), interval, -(count - 1));
+  return getAnalyticsPeriods(from, now, interval);
+}
+
+export function addRawPoints(a: AnalyticsRawPoint, b: AnalyticsRawPoint): AnalyticsRawPoint {
+  return {
+    itemsSold: a.itemsSold + b.itemsSold,
+    revenue: a.revenue + b.revenue,
+    cost: a.cost + b.cost,
+    fees: a.fees + b.fees,
+    shipping: a.shipping + b.shipping,
+    daysToSellTotal: a.daysToSellTotal + b.daysToSellTotal,
+    itemsAvailable: a.itemsAvailable + b.itemsAvailable,
+    itemsAcquired: a.itemsAcquired + b.itemsAcquired,
+  };
+}
+
+export function finalizeAnalyticsPoint(
+  period: string,
+  raw: AnalyticsRawPoint,
+  activity?: { expenses: number; scans: number; flips: number }
+): AnalyticsPoint {
+  const profit = raw.revenue - raw.cost - raw.fees - raw.shipping;
+  return {
+    period,
+    itemsSold: raw.itemsSold,
+    itemsAcquired: raw.itemsAcquired,
+    itemsAvailable: raw.itemsAvailable,
+    revenue: roundMoney(raw.revenue),
+    cost: roundMoney(raw.cost),
+    fees: roundMoney(raw.fees),
+    shipping: roundMoney(raw.shipping),
+    profit: roundMoney(profit),
+    roi: raw.cost > 0 ? Math.round((profit / raw.cost) * 1000) / 1000 : null,
+    sellThrough: raw.itemsAvailable > 0 ? Math.round((raw.itemsSold / raw.itemsAvailable) * 1000) / 1000 : null,
+    avgDaysToSell: raw.itemsSold > 0 ? Math.round((raw.daysToSellTotal / raw.itemsSold) * 10) / 10 : null,
+    expenses: activity ? roundMoney(activity.expenses) : null,
+    netProfit: activity ? roundMoney(profit - activity.expenses) : null,
+    scans: activity ? activity.scans : null,
+    flips: activity ? activity.flips : null,
+  };
+}
+
+/**
+ * Keep the `limit` slices with the most profit over the range and fold the
+ * rest into "Other" (raw sums are merged first, so ratios stay correct).
+ */
+export function mergeSmallSlices(
+  slices: Map<string, { points: AnalyticsRawPoint[]; total: AnalyticsRawPoint }>,
+  limit: number
+): { key: string; points: AnalyticsRawPoint[]; total: AnalyticsRawPoint }[] {
+  const profitOf = (raw: AnalyticsRawPoint) => raw.revenue - raw.cost - raw.fees - raw.shipping;
+  const ranked = Array.from(slices.entries())
+    .map(([key, value]) => ({ key, ...value }))
+    .sort((a, b) => profitOf(b.total) - profitOf(a.total) || b.total.itemsSold - a.total.itemsSold || a.key.localeCompare(b.key));
+
+  if (ranked.length <= limit) return ranked;
+
+  const kept = ranked.slice(0, limit);
+  const rest = ranked.slice(limit);
+  const other = rest.reduce((merged, slice) => ({
+    key: OTHER_SLICE,
+    points: merged.points.map((point, i) => addRawPoints(point, slice.points[i])),
+    total: addRawPoints(merged.total, slice.total),
+  }));
+  return [...kept, { ...other, key: OTHER_SLICE }];
+}
+
+export function getMetricValue(point: AnalyticsPoint, metric: AnalyticsMetric): number | null {
+  return point[metric];
+}
+
+export function formatMetricValue(value: number | null, metric: AnalyticsMetric): string {
+  if (value === null) return '—';
+  if (metric === 'sellThrough' || metric === 'roi') return `${Math.round(value * 100)}%`;
+  if (metric === 'avgDaysToSell') return `${Math.round(value)}d`;
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(Math.round(value)).toLocaleString()}`;
+}
@@ -13,6 +13,7 @@
 
 // LOCKED CONSTANTS - DO NOT CHANGE
 export const PLATFORM_FEE_RATE = 0.13; // 13% eBay/PayPal fees - LOCKED
+// Itemized per-platform fees (fixed fees, caps, promoted rates): see shared/feeSchedule.ts
 export const OUTBOUND_SHIPPING_DEFAULT = 0; // Buyer pays shipping - LOCKED
 
 /**
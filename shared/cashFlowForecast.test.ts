@@ -0,0 +1,50 @@
+/**
+ * Cash-Flow Forecast Tests
+ */
+
+import { buildCashFlowForecast, getWeeklySellThroughRates, getWeeklySaleProbabilities } from './cashFlowForecast';
+
+describe('Cash-flow forecast', () => {
+  const now = new Date('2026-10-19T00:00:00Z');
+  const shoes = { status: 'listed', category: 'Shoes', sourceLocationName: 'Goodwill', purchasePrice: '20', estimatedResale: '100', shippingEstimate: '0', salePlatform: 'facebook' };
+
+  it('should use category sell-through only with enough history', () => {
+    const rates = getWeeklySellThroughRates([
+      { key: 'Shoes', points: [{ itemsSold: 3, itemsAvailable: 10 }, { itemsSold: 2, itemsAvailable: 10 }] },
+      { key: 'Toys', points: [{ itemsSold: 1, itemsAvailable: 5 }] },
+    ]);
+
+    expect(rates).toEqual({ overall: 0.24, byCategory: { shoes: 0.25 } });
+    expect(getWeeklySaleProbabilities(0.5, 4, 1)).toEqual([0, 0.5, 0.25, 0.125]);
+  });
+
+  it('should group capital tied up and skip unpriced items in the forecast', () => {
+    const forecast = buildCashFlowForecast({
+      items: [shoes, { status: 'bought', category: 'Toys', sourceLocationName: null, purchasePrice: '10', estimatedResale: null }],
+      monthItems: [],
+      sellThrough: { overall: 0.24, byCategory: { shoes: 0.25 } },
+      realization: { mean: 0.9, sd: 0.1, count: 10 },
+      now,
+    });
+
+    expect(forecast.weeks).toHaveLength(13);
+    expect(forecast.weeks[0].expected).toBe(20.25); // $90 realized, 10% fee, 25% weekly chance
+    expect(forecast.total.low).toBeLessThan(forecast.total.expected);
+    expect(forecast.capital.bySource.map(s => [s.key, s.cost])).toEqual([['Goodwill', 20], ['Unknown', 10]]);
+    expect(forecast.assumptions.unpricedCount).toBe(1);
+  });
+
+  it('should date break-even from realized plus expected proceeds', () => {
+    const forecast = buildCashFlowForecast({
+      items: [shoes],
+      monthItems: [shoes, { status: 'sold', category: 'Toys', purchasePrice: '30', actualSalePrice: '25', platformFeeActual: '0', outboundShippingActual: '0' }],
+      sellThrough: { overall: 0.24, byCategory: { shoes: 0.25 } },
+      realization: { mean: 0.9, sd: 0.1, count: 10 },
+      now,
+    });
+
+    expect(forecast.breakEven.spend).toBe(50);
+    expect(forecast.breakEven.recovered).toBe(25);
+    expect(forecast.breakEven.breakEvenDate).toBe('2026-11-02');
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Cash-Flow Forecast & Capital at Risk
+ *
+ * Projects when the stock on hand turns back into cash, so sourcing budgets
+ * can be planned ahead instead of read off last month's P&L.
+ *
+ * MODEL (per in-stock item with an estimatedResale):
+ * - value: estimatedResale × the user's realization rate (what sales
+ *   actually fetched vs. the estimate), minus platform fees and shipping
+ * - timing: a weekly chance of selling equal to the historical weekly
+ *   sell-through for its category (sold ÷ in stock, last 12 weeks), or
+ *   overall when the category has too little history. Items not yet listed
+ *   start selling UNLISTED_DELAY_WEEKS later.
+ * - band: each item either sells in a week or doesn't, at an uncertain
+ *   price; the band is expected ± CONFIDENCE_Z standard deviations (~80%)
+ *
+ * CAPITAL TIED UP: purchase cost of everything in stock, by category and
+ * by source location.
+ *
+ * BREAK-EVEN: when this month's sourcing spend (cost of items bought this
+ * month) is expected to be earned back - proceeds already realized from
+ * those items plus the forecast for the rest, up to BREAK_EVEN_MAX_WEEKS.
+ */
+
+import { calculateSaleNetProfit } from './feeSchedule';
+import { isDisposedStatus, isSoldStatus } from './inventoryLifecycle';
+import { UNKNOWN_SLICE } from './analytics';
+
+export const FORECAST_WEEKS = 13; // ~90 days
+export const BREAK_EVEN_MAX_WEEKS = 52;
+export const DEFAULT_WEEKLY_SELL_THROUGH = 0.08; // about half sells within 8 weeks
+export const MAX_WEEKLY_SELL_THROUGH = 0.9;
+export const MIN_CATEGORY_ITEM_WEEKS = 20; // in-stock item-weeks before a category gets its own rate
+export const MIN_REALIZATION_SALES = 5;
+export const UNLISTED_DELAY_WEEKS = 1;
+export const CONFIDENCE_Z = 1.28; // 80% band
+const MAX_CAPITAL_SLICES = 8;
+
+type MoneyValue = string | number | null | undefined;
+
+export interface ForecastItemInput {
+  status: string;
+  category?: string | null;
+  sourceLocationName?: string | null;
+  purchasePrice: MoneyValue;
+  estimatedResale?: MoneyValue;
+  shippingEstimate?: MoneyValue;
+  salePlatform?: string | null;
+  actualSalePrice?: MoneyValue;
+  platformFeeActual?: MoneyValue;
+  outboundShippingActual?: MoneyValue;
+}
+
+export interface SellThroughRates {
+  overall: number | null; // null = no history
+  byCategory: Record<string, number>; // keyed by lowercased category
+}
+
+export interface RealizationStats {
+  mean: number; // actualSalePrice / estimatedResale
+  sd: number;
+  count: number;
+}
+
+export interface ForecastWeek {
+  weekStart: string; // YYYY-MM-DD
+  expected: number;
+  low: number;
+  high: number;
+  cumulativeExpected: number;
+}
+
+export interface CapitalSlice {
+  key: string;
+  cost: number;
+  itemCount: number;
+  estimatedValue: number;
+}
+
+export interface CashFlowForecast {
+  weeks: ForecastWeek[];
+  total: { expected: number; low: number; high: number };
+  capital: {
+    cost: number;
+    itemCount: number;
+    estimatedValue: number;
+    byCategory: CapitalSlice[];
+    bySource: CapitalSlice[];
+  };
+  breakEven: {
+    month: string; // YYYY-MM
+    spend: number;
+    recovered: number; // net proceeds already realized from this month's buys
+    expectedRecovery: number; // recovered + forecast within BREAK_EVEN_MAX_WEEKS
+    breakEvenDate: string | null; // null = not within BREAK_EVEN_MAX_WEEKS
+  };
+  assumptions: {
+    weeklySellThrough: number;
+    sellThroughBasis: 'history' | 'default';
+    realizationRate: number;
+    realizationBasis: 'history' | 'default';
+    unpricedCount: number; // in stock without an estimatedResale - not forecast
+    confidence: number;
+  };
+}
+
+function toNumber(value: MoneyValue): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function clampRate(rate: number): number {
+  return Math.min(MAX_WEEKLY_SELL_THROUGH, Math.max(0, rate));
+}
+
+/**
+ * Average weekly sell-through per category from weekly analytics points
+ * (sums first, so busy weeks weigh more than quiet ones).
+ */
+export function getWeeklySellThroughRates(
+  series: { key: string; points: { itemsSold: number; itemsAvailable: number }[] }[]
+): SellThroughRates {
+  const byCategory: Record<string, number> = {};
+  let sold = 0;
+  let available = 0;
+  for (const line of series) {
+    const lineSold = line.points.reduce((sum, p) => sum + p.itemsSold, 0);
+    const lineAvailable = line.points.reduce((sum, p) => sum + p.itemsAvailable, 0);
+    sold += lineSold;
+    available += lineAvailable;
+    if (line.key !== UNKNOWN_SLICE && lineAvailable >= MIN_CATEGORY_ITEM_WEEKS) {
+      byCategory[line.key.toLowerCase()] = clampRate(lineSold / lineAvailable);
+    }
+  }
+  return { overall: available >= MIN_CATEGORY_ITEM_WEEKS ? clampRate(sold / available) : null, byCategory };
+}
+
+/**
+ * Chance the item sells in each of the next `weeks` weeks (geometric).
+ */
+export function getWeeklySaleProbabilities(weeklyRate: number, weeks: number, delayWeeks = 0): number[] {
+  const probabilities: number[] = [];
+  let unsold = 1;
+  for (let week = 0; week < weeks; week++) {
+    if (week < delayWeeks) {
+      probabilities.push(0);
+      continue;
+    }
+    probabilities.push(unsold * weeklyRate);
+    unsold *= 1 - weeklyRate;
+  }
+  return probabilities;
+}
+
+// Cash that comes in when the item sells: price after fees and shipping
+function netProceeds(item: ForecastItemInput, salePrice: number, actual: boolean): number {
+  return calculateSaleNetProfit({
+    salePrice,
+    purchasePrice: 0,
+    outboundShipping: (actual ? toNumber(item.outboundShippingActual) : null) ?? toNumber(item.shippingEstimate) ?? 0,
+    platform: item.salePlatform,
+    category: item.category,
+    platformFeeActual: actual ? toNumber(item.platformFeeActual) : null,
+  }).netProfit;
+}
+
+function addToSlice(slices: Map<string, CapitalSlice>, key: string | null | undefined, cost: number, value: number) {
+  const sliceKey = key?.trim() || UNKNOWN_SLICE;
+  const slice = slices.get(sliceKey) ?? { key: sliceKey, cost: 0, itemCount: 0, estimatedValue: 0 };
+  slice.cost += cost;
+  slice.itemCount++;
+  slice.estimatedValue += value;
+  slices.set(sliceKey, slice);
+}
+
+function finalizeSlices(slices: Map<string, CapitalSlice>): CapitalSlice[] {
+  return Array.from(slices.values())
+    .map(slice => ({ ...slice, cost: roundMoney(slice.cost), estimatedValue: roundMoney(slice.estimatedValue) }))
+    .sort((a, b) => b.cost - a.cost || a.key.localeCompare(b.key))
+    .slice(0, MAX_CAPITAL_SLICES);
+}
+
+export function buildCashFlowForecast(params: {
+  items: ForecastItemInput[]; // in stock
+  monthItems: ForecastItemInput[]; // bought this month, any status
+  sellThrough: SellThroughRates;
+  realization: RealizationStats | null;
+  now?: Date;
+}): CashFlowForecast {
+  const now = params.now ?? new Date();
+  const useRealization = !!params.realization && params.realization.count >= MIN_REALIZATION_SALES;
+  const realizationRate = useRealization ? params.realization!.mean : 1;
+  const realizationSd = useRealization ? params.realization!.sd : 0;
+  const overallRate = params.sellThrough.overall ?? DEFAULT_WEEKLY_SELL_THROUGH;
+
+  // Expected proceeds per week, and its variance, for one item
+  const projectItem = (item: ForecastItemInput, weeks: number) => {
+    const estimate = toNumber(item.estimatedResale);
+    if (estimate === null || estimate <= 0) return null;
+    const mean = Math.max(0, netProceeds(item, estimate * realizationRate, false));
+    const sd = estimate * realizationSd;
+    const categoryRate = item.category ? params.sellThrough.byCategory[item.category.toLowerCase()] : undefined;
+    const rate = categoryRate ?? overallRate;
+    const probabilities = getWeeklySaleProbabilities(rate, weeks, item.status === 'listed' ? 0 : UNLISTED_DELAY_WEEKS);
+    const variance = (p: number) => (mean * mean + sd * sd) * p - mean * mean * p * p;
+    return { mean, probabilities, variance };
+  };
+
+  const expected = new Array(FORECAST_WEEKS).fill(0);
+  const variance = new Array(FORECAST_WEEKS).fill(0);
+  let totalExpected = 0;
+  let totalVariance = 0;
+  let unpricedCount = 0;
+  const byCategory = new Map<string, CapitalSlice>();
+  const bySource = new Map<string, CapitalSlice>();
+  let capitalCost = 0;
+  let capitalValue = 0;
+
+  for (const item of params.items) {
+    const cost = toNumber(item.purchasePrice) ?? 0;
+    const value = toNumber(item.estimatedResale) ?? 0;
+    capitalCost += cost;
+    capitalValue += value;
+    addToSlice(byCategory, item.category, cost, value);
+    addToSlice(bySource, item.sourceLocationName, cost, value);
+
+    const projection = projectItem(item, FORECAST_WEEKS);
+    if (!projection) {
+      unpricedCount++;
+      continue;
+    }
+    projection.probabilities.forEach((p, week) => {
+      expected[week] += projection.mean * p;
+      variance[week] += projection.variance(p);
+    });
+    const sold = projection.probabilities.reduce((sum, p) => sum + p, 0);
+    totalExpected += projection.mean * sold;
+    totalVariance += projection.variance(sold);
+  }
+
+  let cumulative = 0;
+  const weeks: ForecastWeek[] = expected.map((value, week) => {
+    const spread = CONFIDENCE_Z * Math.sqrt(Math.max(0, variance[week]));
+    cumulative += value;
+    return {
+      weekStart: toDateKey(new Date(now.getTime() + week * 7 * 86400000)),
+      expected: roundMoney(value),
+      low: roundMoney(Math.max(0, value - spread)),
+      high: roundMoney(value + spread),
+      cumulativeExpected: roundMoney(cumulative),
+    };
+  });
+  const totalSpread = CONFIDENCE_Z * Math.sqrt(Math.max(0, totalVariance));
+
+  // Break-even on this month's buys
+  let spend = 0;
+  let recovered = 0;
+  const recoveryByWeek = new Array(BREAK_EVEN_MAX_WEEKS).fill(0);
+  for (const item of params.monthItems) {
+    spend += toNumber(item.purchasePrice) ?? 0;
+    if (isSoldStatus(item.status)) {
+      recovered += netProceeds(item, toNumber(item.actualSalePrice) ?? 0, true);
+      continue;
+    }
+    if (isDisposedStatus(item.status)) continue;
+    const projection = projectItem(item, BREAK_EVEN_MAX_WEEKS);
+    projection?.probabilities.forEach((p, week) => {
+      recoveryByWeek[week] += projection.mean * p;
+    });
+  }
+
+  let breakEvenDate: string | null = spend > 0 && recovered >= spend ? toDateKey(now) : null;
+  let expectedRecovery = recovered;
+  for (let week = 0; week < BREAK_EVEN_MAX_WEEKS; week++) {
+    expectedRecovery += recoveryByWeek[week];
+    if (!breakEvenDate && spend > 0 && expectedRecovery >= spend) {
+      breakEvenDate = toDateKey(new Date(now.getTime() + (week + 1) * 7 * 86400000));
+    }
+  }
+
+  return {
+    weeks,
+    total: {
+      expected: roundMoney(totalExpected),
+      low: roundMoney(Math.max(0, totalExpected - totalSpread)),
+      high: roundMoney(totalExpected + totalSpread),
+    },
+    capital: {
+      cost: roundMoney(capitalCost),
+      itemCount: params.items.length,
+      estimatedValue: roundMoney(capitalValue),
+      byCategory: finalizeSlices(byCategory),
+      bySource: finalizeSlices(bySource),
+    },
+    breakEven: {
+      month: now.toISOString().slice(0, 7),
+      spend: roundMoney(spend),
+      recovered: roundMoney(recovered),
+      expectedRecovery: roundMoney(expectedRecovery),
+      breakEvenDate,
+    },
+    assumptions: {
+      weeklySellThrough: Math.round(overallRate * 1000) / 1000,
+      sellThroughBasis: params.sellThrough.overall !== null ? 'history' : 'default',
+      realizationRate: Math.round(realizationRate * 1000) / 1000,
+      realizationBasis: useRealization ? 'history' : 'default',
+      unpricedCount,
+      confidence: 0.8,
+    },
+  };
+}
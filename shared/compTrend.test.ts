@@ -0,0 +1,37 @@
+/**
+ * Comp Trend Tests
+ */
+
+import { analyzeCompTrend } from './compTrend';
+
+describe('Sold-comp recency and trend', () => {
+  const now = new Date('2025-06-30T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  it('should keep the plain median when no comps are dated', () => {
+    const trend = analyzeCompTrend([{ price: 40 }, { price: 50 }, { price: 60 }, { price: 70 }], { now });
+
+    expect(trend.weightedMedian).toBe(55);
+    expect(trend.recencyFactor).toBe(1);
+    expect(trend.direction).toBe('unknown');
+  });
+
+  it('should weight recent sales more heavily', () => {
+    const trend = analyzeCompTrend([
+      { price: 40, dateSold: daysAgo(80) },
+      { price: 42, dateSold: daysAgo(70) },
+      { price: 60, dateSold: daysAgo(3) },
+      { price: 62, dateSold: daysAgo(1) },
+    ], { category: 'Trading Cards', now });
+
+    expect(trend.weightedMedian).toBeGreaterThan(trend.median);
+  });
+
+  it('should detect a falling market and project below the current value', () => {
+    const comps = [100, 95, 90, 85, 80, 75].map((price, i) => ({ price, dateSold: daysAgo(50 - i * 10) }));
+    const trend = analyzeCompTrend(comps, { now });
+
+    expect(trend.direction).toBe('falling');
+    expect(trend.projectedValue).toBeLessThan(trend.weightedMedian);
+  });
+});
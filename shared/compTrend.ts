@@ -0,0 +1,216 @@
+/**
+ * Sold-Comp Time Decay & Price Trend
+ *
+ * Recent sales say more about today's price than sales from last quarter.
+ *
+ * ALGORITHM:
+ * 1. Parse each comp's dateSold (undated comps get the average dated weight)
+ * 2. Weight = 0.5 ^ (ageDays / halfLife) - half-life is shorter in volatile categories
+ * 3. Recency-weighted median over the weighted comps
+ * 4. Trend = least-squares slope of price vs. sale date, as % per 30 days
+ *    (needs MIN_DATED_COMPS_FOR_TREND dated comps spanning MIN_TREND_SPAN_DAYS)
+ * 5. Projected value = weighted median carried forward by the trend over the
+ *    category's typical days-to-sell (capped at ±MAX_PROJECTED_CHANGE)
+ *
+ * Direction: |change| < FLAT_TREND_PERCENT per 30 days = flat.
+ */
+
+export type TrendDirection = 'rising' | 'flat' | 'falling' | 'unknown';
+
+export interface DatedPrice {
+  price: number;
+  dateSold?: string | Date | null;
+}
+
+export interface MarketTrend {
+  direction: TrendDirection;
+  percentPer30Days: number | null; // null when there is not enough dated data
+  median: number; // unweighted median of the same comps
+  weightedMedian: number; // recency-weighted median
+  recencyFactor: number; // weightedMedian / median
+  datedCompCount: number;
+  compCount: number;
+  halfLifeDays: number;
+  daysToSell: number;
+  projectedValue: number; // expected value on the projected sale date
+  projectedSaleDate: string; // ISO date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HALF_LIFE_DAYS = 30;
+export const FLAT_TREND_PERCENT = 3;
+export const MIN_DATED_COMPS_FOR_TREND = 5;
+export const MIN_TREND_SPAN_DAYS = 14;
+export const MAX_PROJECTED_CHANGE = 0.3; // ±30%
+
+// Volatile categories decay faster - a month-old Pokémon card sale is already stale
+export const CATEGORY_HALF_LIFE_DAYS: Record<string, number> = {
+  'Trading Cards': 14,
+  'Collectibles': 21,
+  'Shoes': 21,
+  'Electronics': 21,
+  'Watches': 45,
+  'Other': DEFAULT_HALF_LIFE_DAYS,
+};
+
+// Typical days from listing to sale, used to project the value at sale time
+export const CATEGORY_DAYS_TO_SELL: Record<string, number> = {
+  'Trading Cards': 10,
+  'Collectibles': 21,
+  'Shoes': 14,
+  'Electronics': 10,
+  'Watches': 30,
+  'Other': 21,
+};
+
+export function getHalfLifeDays(category?: string | null): number {
+  return (category && CATEGORY_HALF_LIFE_DAYS[category]) || DEFAULT_HALF_LIFE_DAYS;
+}
+
+export function getTypicalDaysToSell(category?: string | null): number {
+  return (category && CATEGORY_DAYS_TO_SELL[category]) || CATEGORY_DAYS_TO_SELL['Other'];
+}
+
+/**
+ * Parse a comp's dateSold into a Date.
+ * Handles ISO/locale dates, "Sold Jan 5, 2025" and "3 days ago" forms.
+ * Returns null for placeholders like "Recently" or "Active listing".
+ */
+export function parseSoldDate(dateSold: string | Date | null | undefined, now: Date = new Date()): Date | null {
+  if (!dateSold) return null;
+  if (dateSold instanceof Date) return isNaN(dateSold.getTime()) ? null : dateSold;
+
+  const text = dateSold.trim().replace(/^sold\s+/i, '');
+  const lower = text.toLowerCase();
+
+  if (lower === 'today') return now;
+  if (lower === 'yesterday') return new Date(now.getTime() - DAY_MS);
+
+  const relative = lower.match(/^(\d+)\s*(day|week|month)s?\s+ago$/);
+  if (relative) {
+    const amount = parseInt(relative[1]);
+    const days = relative[2] === 'day' ? amount : relative[2] === 'week' ? amount * 7 : amount * 30;
+    return new Date(now.getTime() - days * DAY_MS);
+  }
+
+  // Only trust strings that contain a year - avoids the Date parser guessing
+  if (!/\b(19|20)\d{2}\b/.test(text)) return null;
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime())) return null;
+  if (parsed.getTime() > now.getTime() + DAY_MS) return null; // future dates are bad data
+  return parsed;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Weighted median: smallest value where cumulative weight reaches half the total.
+ * With equal weights this matches the ordinary median.
+ */
+export function weightedMedian(values: number[], weights: number[]): number {
+  const pairs = values
+    .map((value, i) => ({ value, weight: weights[i] ?? 0 }))
+    .filter(p => p.value > 0 && p.weight > 0)
+    .sort((a, b) => a.value - b.value);
+  if (pairs.length === 0) return 0;
+
+  const half = pairs.reduce((sum, p) => sum + p.weight, 0) / 2;
+  let cumulative = 0;
+  for (let i = 0; i < pairs.length; i++) {
+    cumulative += pairs[i].weight;
+    // Exactly half the weight on each side: average the two middle values
+    if (Math.abs(cumulative - half) < 1e-9 && i + 1 < pairs.length) {
+      return (pairs[i].value + pairs[i + 1].value) / 2;
+    }
+    if (cumulative >= half) return pairs[i].value;
+  }
+  return pairs[pairs.length - 1].value;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Recency-weighted median, price trend and projected value for a comp set.
+ */
+export function analyzeCompTrend(
+  comps: DatedPrice[],
+  options: { category?: string | null; now?: Date; daysToSell?: number } = {}
+): MarketTrend {
+  const now = options.now ?? new Date();
+  const halfLifeDays = getHalfLifeDays(options.category);
+  const daysToSell = options.daysToSell ?? getTypicalDaysToSell(options.category);
+
+  const priced = comps.filter(c => c.price > 0);
+  const entries = priced.map(c => {
+    const date = parseSoldDate(c.dateSold ?? null, now);
+    const ageDays = date ? Math.max(0, (now.getTime() - date.getTime()) / DAY_MS) : null;
+    return { price: c.price, ageDays };
+  });
+
+  const dated = entries.filter((e): e is { price: number; ageDays: number } => e.ageDays !== null);
+  const datedWeights = dated.map(e => Math.pow(0.5, e.ageDays / halfLifeDays));
+  const undatedWeight = datedWeights.length > 0
+    ? datedWeights.reduce((sum, w) => sum + w, 0) / datedWeights.length
+    : 1;
+  const weights = entries.map(e => e.ageDays !== null ? Math.pow(0.5, e.ageDays / halfLifeDays) : undatedWeight);
+
+  const prices = entries.map(e => e.price);
+  const plainMedian = median(prices);
+  // Without any dated comps there is nothing to decay - keep the plain median
+  const recencyMedian = dated.length > 0 ? (weightedMedian(prices, weights) || plainMedian) : plainMedian;
+
+  // Least-squares slope of price over time (x = days relative to now, negative = past)
+  let percentPer30Days: number | null = null;
+  const spanDays = dated.length > 0
+    ? Math.max(...dated.map(e => e.ageDays)) - Math.min(...dated.map(e => e.ageDays))
+    : 0;
+  if (dated.length >= MIN_DATED_COMPS_FOR_TREND && spanDays >= MIN_TREND_SPAN_DAYS) {
+    const xs = dated.map(e => -e.ageDays);
+    const ys = dated.map(e => e.price);
+    const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+    let covariance = 0;
+    let varianceX = 0;
+    for (let i = 0; i < xs.length; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+    }
+    if (varianceX > 0 && meanY > 0) {
+      const slopePerDay = covariance / varianceX;
+      percentPer30Days = Math.round(((slopePerDay * 30) / meanY) * 1000) / 10;
+    }
+  }
+
+  let direction: TrendDirection = 'unknown';
+  if (percentPer30Days !== null) {
+    direction = Math.abs(percentPer30Days) < FLAT_TREND_PERCENT
+      ? 'flat'
+      : percentPer30Days > 0 ? 'rising' : 'falling';
+  }
+
+  const projectedChange = percentPer30Days !== null && direction !== 'flat'
+    ? Math.max(-MAX_PROJECTED_CHANGE, Math.min(MAX_PROJECTED_CHANGE, (percentPer30Days / 100) * (daysToSell / 30)))
+    : 0;
+
+  return {
+    direction,
+    percentPer30Days,
+    median: roundMoney(plainMedian),
+    weightedMedian: roundMoney(recencyMedian),
+    recencyFactor: plainMedian > 0 ? Math.round((recencyMedian / plainMedian) * 1000) / 1000 : 1,
+    datedCompCount: dated.length,
+    compCount: priced.length,
+    halfLifeDays,
+    daysToSell,
+    projectedValue: roundMoney(recencyMedian * (1 + projectedChange)),
+    projectedSaleDate: new Date(now.getTime() + daysToSell * DAY_MS).toISOString().split('T')[0],
+  };
+}
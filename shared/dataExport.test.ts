@@ -0,0 +1,44 @@
+/**
+ * Data Export Tests
+ */
+
+import { buildExpenseJournal, buildSaleJournal, getJournalColumns, toCsvLine } from './dataExport';
+
+describe('Data export journals', () => {
+  const balance = (lines: { debit: number; credit: number }[]) =>
+    Math.round(lines.reduce((sum, line) => sum + line.debit - line.credit, 0) * 100);
+
+  it('should book a sale as a balanced journal with fees, shipping and COGS', () => {
+    const lines = buildSaleJournal({ id: 12, title: 'Seiko SKX', soldDate: '2024-03-16', platform: 'ebay', salePrice: 150, cost: 40, fees: 19.88, shipping: 9.1 });
+
+    expect(lines.map(l => [l.account, l.debit, l.credit])).toEqual([
+      ['clearing', 121.02, 0],
+      ['fees', 19.88, 0],
+      ['shipping', 9.1, 0],
+      ['revenue', 0, 150],
+      ['cogs', 40, 0],
+      ['inventory', 0, 40],
+    ]);
+    expect(balance(lines)).toBe(0);
+    expect(new Set(lines.map(l => l.journalNo))).toEqual(new Set(['SALE-12']));
+  });
+
+  it('should credit clearing when fees and shipping exceed the sale and skip inventory-cost expenses', () => {
+    const lines = buildSaleJournal({ id: 3, title: 'Pin', soldDate: '2024-01-02', salePrice: 5, cost: 0, fees: 1.5, shipping: 5 });
+    expect(lines.find(l => l.account === 'clearing')).toMatchObject({ debit: 0, credit: 1.5 });
+    expect(lines.some(l => l.account === 'cogs')).toBe(false);
+    expect(balance(lines)).toBe(0);
+
+    expect(buildExpenseJournal({ id: 1, date: '2024-02-01', category: 'inventory_cost', description: 'Bins', amount: 20 })).toEqual([]);
+    expect(buildExpenseJournal({ id: 2, date: '2024-02-01', category: 'storage', description: 'Unit', amount: 80 }).map(l => l.account))
+      .toEqual(['rent', 'cash']);
+  });
+
+  it('should render QuickBooks and Xero journal rows', () => {
+    const [line] = buildSaleJournal({ id: 12, title: 'Seiko, "SKX"', soldDate: '2024-03-16', salePrice: 150, cost: 40, fees: 0, shipping: 0 });
+    const row = (style: 'quickbooks' | 'xero') => getJournalColumns(style).map(c => c.value(line));
+
+    expect(toCsvLine(row('quickbooks'))).toBe('SALE-12,03/16/2024,Marketplace Clearing,150,,Net payout,"Sale #12: Seiko, ""SKX"""');
+    expect(row('xero')).toEqual(['Sale #12: Seiko, "SKX"', '2024-03-16', 'Net payout', '091', 'Tax Exempt', 150]);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Data Export - datasets, file formats and double-entry journals
+ *
+ * DATASETS: inventory, sales (sold inventory), expenses, scans (items) and
+ * batch scans, plus 'journal' - the same sales, purchases, disposals and
+ * expenses as balanced double-entry lines for an accounting import.
+ * Columns are defined once (ExportColumn) and rendered as CSV, XLSX or JSON
+ * by server/export-service.ts.
+ *
+ * JOURNAL (one balanced journal per event, amounts in cents while building):
+ * - Purchase: Dr Inventory / Cr Cash, on the purchase date
+ * - Sale: Cr Sales Revenue (sale price); Dr Platform Fees, Dr Shipping and
+ *   Dr Marketplace Clearing for the net payout (Cr when fees + shipping
+ *   exceed the sale); Dr COGS / Cr Inventory for the item's cost
+ * - Donated / written off: Dr COGS / Cr Inventory, on the disposal date
+ * - Expense: Dr the category's account / Cr Cash. 'inventory_cost' expenses
+ *   are left out - purchases already come from inventory (same as Schedule C)
+ *
+ * QuickBooks Online imports journals by account name with separate debit and
+ * credit columns; Xero imports by account code with one signed amount
+ * (debit positive). Codes follow Xero's default chart of accounts except
+ * Marketplace Clearing, which has no default - add it or remap on import.
+ */
+
+import type { ExpenseCategory } from './schema';
+
+export const exportDatasets = ['inventory', 'sales', 'expenses', 'scans', 'batches', 'journal'] as const;
+export type ExportDataset = typeof exportDatasets[number];
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  inventory: 'Inventory',
+  sales: 'Sales',
+  expenses: 'Expenses',
+  scans: 'Scan history',
+  batches: 'Batch scans',
+  journal: 'Accounting journal',
+};
+
+export const exportFileFormats = ['csv', 'xlsx', 'json'] as const;
+export type ExportFileFormat = typeof exportFileFormats[number];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFileFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  json: 'JSON',
+};
+
+export const journalStyles = ['quickbooks', 'xero'] as const;
+export type JournalStyle = typeof journalStyles[number];
+
+export const JOURNAL_STYLE_LABELS: Record<JournalStyle, string> = {
+  quickbooks: 'QuickBooks Online',
+  xero: 'Xero',
+};
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn<T> {
+  key: string; // JSON property name
+  header: string; // CSV / spreadsheet header
+  type: 'text' | 'number' | 'date';
+  value: (row: T) => ExportCell;
+}
+
+export function escapeCsvCell(value: ExportCell | undefined): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+export function toCsvLine(cells: (ExportCell | undefined)[]): string {
+  return cells.map(escapeCsvCell).join(',');
+}
+
+export function formatExportDate(date: Date | string | null | undefined): string | null {
+  if (!date) return null;
+  const d = new Date(date);
+  return isNaN(d.getTime()) ? null : d.toISOString().split('T')[0]; // YYYY-MM-DD
+}
+
+export function roundExportMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============ JOURNAL ============
+
+export type JournalAccountKey =
+  | 'cash' | 'clearing' | 'inventory' | 'revenue' | 'cogs' | 'fees' | 'shipping'
+  | 'vehicle' | 'supplies' | 'software' | 'equipment' | 'office' | 'rent' | 'general';
+
+export const JOURNAL_ACCOUNTS: Record<JournalAccountKey, { code: string; name: string }> = {
+  cash: { code: '090', name: 'Business Bank Account' },
+  clearing: { code: '091', name: 'Marketplace Clearing' },
+  inventory: { code: '630', name: 'Inventory Asset' },
+  revenue: { code: '200', name: 'Sales' },
+  cogs: { code: '310', name: 'Cost of Goods Sold' },
+  fees: { code: '404', name: 'Merchant & Platform Fees' },
+  shipping: { code: '425', name: 'Freight & Courier' },
+  vehicle: { code: '449', name: 'Motor Vehicle Expenses' },
+  supplies: { code: '461', name: 'Shipping Supplies' },
+  software: { code: '485', name: 'Subscriptions' },
+  equipment: { code: '429', name: 'Equipment' },
+  office: { code: '453', name: 'Office Expenses' },
+  rent: { code: '469', name: 'Rent' },
+  general: { code: '429', name: 'General Expenses' },
+};
+
+export const EXPENSE_JOURNAL_ACCOUNTS: Record<ExpenseCategory, JournalAccountKey | null> = {
+  mileage: 'vehicle',
+  shipping_supplies: 'supplies',
+  platform_fees: 'fees',
+  inventory_cost: null, // purchases come from inventory
+  software: 'software',
+  equipment: 'equipment',
+  office_supplies: 'office',
+  storage: 'rent',
+  education: 'general',
+  other: 'general',
+};
+
+export interface JournalLine {
+  journalNo: string; // e.g. SALE-12 - every line of one journal shares it
+  date: string; // YYYY-MM-DD
+  narration: string; // journal-level memo
+  account: JournalAccountKey;
+  debit: number;
+  credit: number;
+  memo: string; // line-level memo
+}
+
+export interface JournalSaleInput {
+  id: number;
+  title: string;
+  soldDate: string;
+  platform?: string | null;
+  salePrice: number;
+  cost: number;
+  fees: number;
+  shipping: number;
+}
+
+export interface JournalCostInput {
+  id: number;
+  title: string;
+  date: string;
+  cost: number;
+  status?: string;
+}
+
+export interface JournalExpenseInput {
+  id: number;
+  date: string;
+  category: string;
+  description: string;
+  amount: number;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+function journalBuilder(journalNo: string, date: string, narration: string) {
+  const lines: JournalLine[] = [];
+  // Zero amounts are skipped; negative debits become credits and vice versa
+  const post = (account: JournalAccountKey, cents: number, side: 'debit' | 'credit', memo: string) => {
+    if (cents === 0) return;
+    const flipped = cents < 0;
+    const isDebit = (side === 'debit') !== flipped;
+    const amount = Math.abs(cents) / 100;
+    lines.push({ journalNo, date, narration, account, debit: isDebit ? amount : 0, credit: isDebit ? 0 : amount, memo });
+  };
+  return { lines, post };
+}
+
+export function buildSaleJournal(sale: JournalSaleInput): JournalLine[] {
+  const where = sale.platform ? ` on ${sale.platform}` : '';
+  const { lines, post } = journalBuilder(`SALE-${sale.id}`, sale.soldDate, `Sale #${sale.id}: ${sale.title}${where}`);
+  const price = toCents(sale.salePrice);
+  const fees = toCents(sale.fees);
+  const shipping = toCents(sale.shipping);
+
+  post('clearing', price - fees - shipping, 'debit', 'Net payout');
+  post('fees', fees, 'debit', 'Platform fees');
+  post('shipping', shipping, 'debit', 'Outbound shipping');
+  post('revenue', price, 'credit', 'Sale price');
+  post('cogs', toCents(sale.cost), 'debit', 'Cost of item sold');
+  post('inventory', toCents(sale.cost), 'credit', 'Item leaves inventory');
+  return lines;
+}
+
+export function buildPurchaseJournal(purchase: JournalCostInput): JournalLine[] {
+  const { lines, post } = journalBuilder(`BUY-${purchase.id}`, purchase.date, `Purchase #${purchase.id}: ${purchase.title}`);
+  post('inventory', toCents(purchase.cost), 'debit', 'Item bought');
+  post('cash', toCents(purchase.cost), 'credit', 'Paid for item');
+  return lines;
+}
+
+export function buildDisposalJournal(disposal: JournalCostInput): JournalLine[] {
+  const reason = disposal.status === 'donated' ? 'Donated' : 'Written off';
+  const { lines, post } = journalBuilder(`WO-${disposal.id}`, disposal.date, `${reason} #${disposal.id}: ${disposal.title}`);
+  post('cogs', toCents(disposal.cost), 'debit', reason);
+  post('inventory', toCents(disposal.cost), 'credit', 'Item leaves inventory');
+  return lines;
+}
+
+export function buildExpenseJournal(expense: JournalExpenseInput): JournalLine[] {
+  const account = expense.category in EXPENSE_JOURNAL_ACCOUNTS
+    ? EXPENSE_JOURNAL_ACCOUNTS[expense.category as ExpenseCategory]
+    : 'general';
+  if (!account) return [];
+  const { lines, post } = journalBuilder(`EXP-${expense.id}`, expense.date, `Expense #${expense.id}: ${expense.description}`);
+  post(account, toCents(expense.amount), 'debit', expense.description);
+  post('cash', toCents(expense.amount), 'credit', 'Paid');
+  return lines;
+}
+
+// QuickBooks Online expects MM/DD/YYYY under the default US settings
+function toUsDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+export function getJournalColumns(style: JournalStyle): ExportColumn<JournalLine>[] {
+  if (style === 'xero') {
+    return [
+      { key: 'narration', header: '*Narration', type: 'text', value: line => line.narration },
+      { key: 'date', header: '*Date', type: 'date', value: line => line.date },
+      { key: 'description', header: 'Description', type: 'text', value: line => line.memo },
+      { key: 'accountCode', header: '*AccountCode', type: 'text', value: line => JOURNAL_ACCOUNTS[line.account].code },
+      { key: 'taxRate', header: '*TaxRate', type: 'text', value: () => 'Tax Exempt' },
+      { key: 'amount', header: '*Amount', type: 'number', value: line => roundExportMoney(line.debit - line.credit) },
+    ];
+  }
+  return [
+    { key: 'journalNo', header: 'Journal No', type: 'text', value: line => line.journalNo },
+    { key: 'date', header: 'Journal Date', type: 'text', value: line => toUsDate(line.date) },
+    { key: 'account', header: 'Account', type: 'text', value: line => JOURNAL_ACCOUNTS[line.account].name },
+    { key: 'debit', header: 'Debits', type: 'number', value: line => line.debit || null },
+    { key: 'credit', header: 'Credits', type: 'number', value: line => line.credit || null },
+    { key: 'description', header: 'Description', type: 'text', value: line => line.memo },
+    { key: 'memo', header: 'Memo', type: 'text', value: line => line.narration },
+  ];
+}
@@ -8,7 +8,7 @@
  * 3. Net margin < 25% OR netProfit ≤ 0 → SKIP IT
  */
 
-import { calculateDecision, type DecisionInput } from './decisionEngine';
+import { calculateDecision, DEFAULT_DECISION_PROFILE, type DecisionInput, type DecisionProfile } from './decisionEngine';
 
 describe('calculateDecision - Margin-Based Verdicts', () => {
   
@@ -265,4 +265,62 @@ describe('calculateDecision - Margin-Based Verdicts', () => {
       expect(result.skipReason).toBeUndefined();
     });
   });
+
+  describe('Decision profiles', () => {
+    const mercariProfile: DecisionProfile = {
+      ...DEFAULT_DECISION_PROFILE,
+      version: 3,
+      marginThreshold: 0.35,
+      defaultPlatform: 'mercari',
+      platformFeeRates: { ...DEFAULT_DECISION_PROFILE.platformFeeRates, mercari: 0.10 },
+    };
+
+    it('should record system default profile version 0 when no profile is given', () => {
+      const result = calculateDecision({ buyPrice: 30, shippingIn: 5, expectedSalePrice: 100 });
+
+      expect(result.profileVersion).toBe(0);
+      expect(result.decisionTrace.some(line => line.includes('system default'))).toBe(true);
+    });
+
+    it('should apply the profile margin threshold', () => {
+      const input: DecisionInput = {
+        buyPrice: 50,
+        shippingIn: 5,
+        expectedSalePrice: 100, // ~32% margin at 13% fees
+        platformFeeRate: 0.13,
+      };
+
+      expect(calculateDecision(input).verdict).toBe('flip');
+
+      const result = calculateDecision({ ...input, profile: mercariProfile });
+      expect(result.verdict).toBe('skip');
+      expect(result.skipReason).toBe('low_margin');
+      expect(result.profileVersion).toBe(3);
+      expect(result.decisionTrace.some(line => line.includes('Decision profile v3'))).toBe(true);
+    });
+
+    it('should use the fee rate of the profile default platform', () => {
+      const result = calculateDecision({
+        buyPrice: 30,
+        shippingIn: 0,
+        expectedSalePrice: 100,
+        profile: mercariProfile,
+      });
+
+      expect(result._diagnostics?.platformFees).toBe(10);
+    });
+
+    it('should return skipReason "below_min_profit" when profit is under the profile minimum', () => {
+      const result = calculateDecision({
+        buyPrice: 10,
+        shippingIn: 0,
+        expectedSalePrice: 40, // ~$25 profit, 62% margin
+        platformFeeRate: 0.13,
+        profile: { ...DEFAULT_DECISION_PROFILE, version: 1, minNetProfit: 30, fixedCosts: 0 },
+      });
+
+      expect(result.verdict).toBe('skip');
+      expect(result.skipReason).toBe('below_min_profit');
+    });
+  });
 });
@@ -13,6 +13,10 @@
  * Vision confidence NEVER overrides profitability.
  */
 
+import { calculateFeeBreakdown, FEE_SCHEDULES, getScheduleFeeRate, normalizeFeePlatform, type FeeBreakdown, type FeePlatform } from './feeSchedule';
+import type { MarketTrend } from './compTrend';
+import type { LiquidityResult } from './liquidity';
+
 export type DecisionVerdict = 'flip' | 'skip';
 
 export type DataSourceConfidence = 'high' | 'medium' | 'low' | 'none';
@@ -27,6 +31,11 @@ export interface DecisionInput {
   dataSourceType?: 'pricecharting' | 'marketplace_insights' | 'serpapi' | 'browse_api' | 'manual' | 'none';
   compCount?: number;
   compConfidence?: 'high' | 'low';
+  profile?: DecisionProfile;
+  // Fee schedule inputs - used when platformFeeRate is not given explicitly
+  salePlatform?: string | null;
+  category?: string | null;
+  promotedRate?: number;
 }
 
 export interface DecisionResult {
@@ -40,6 +49,10 @@ export interface DecisionResult {
   marketValue: number | null;
   skipReason?: string;
   lowConfidence?: boolean;
+  profileVersion: number;
+  feeBreakdown?: FeeBreakdown;
+  marketTrend?: MarketTrend | null; // attached by the comps pipeline when stored, not set by calculateDecision
+  liquidity?: LiquidityResult | null; // same - sell-through vs. active listings
   decisionTrace: string[];
   _diagnostics?: {
     netProfit: number;
@@ -52,10 +65,121 @@ export interface DecisionResult {
 }
 
 // LOCKED CONSTANTS - DO NOT CHANGE
+// These are the system defaults (profile version 0). Users may override them
+// with a stored decision profile; the defaults themselves stay locked.
 const MARGIN_THRESHOLD = 0.25; // 25% minimum margin for FLIP - LOCKED
 const DEFAULT_PLATFORM_FEE_RATE = 0.13; // 13% eBay + PayPal - LOCKED
 const DEFAULT_OUTBOUND_SHIPPING = 0; // Buyer pays shipping - LOCKED
 const DEFAULT_FIXED_COSTS = 5; // Packaging, labels, etc. - LOCKED
+const DEFAULT_MIN_NET_PROFIT = 0; // Any positive profit passes Gate 3 - LOCKED
+
+/**
+ * Per-user decision profile.
+ * 
+ * Stored versioned in `decision_profiles`; every save creates a new version so
+ * a historical verdict can always be explained by the profile that produced it.
+ * Version 0 is the built-in system default and is never stored.
+ */
+export interface DecisionProfile {
+  version: number;
+  marginThreshold: number; // 0.25 = 25% minimum net margin
+  minNetProfit: number; // dollars; Gate 3 requires netProfit > minNetProfit
+  fixedCosts: number; // packaging, labels, etc. per item
+  defaultOutboundShipping: number; // seller-paid outbound shipping per item
+  defaultPlatform: string; // sale platform used when none is specified
+  platformFeeRates: Record<string, number>; // fee rate keyed by sale platform
+}
+
+// One flat rate per fee schedule, so a profile left at its defaults prices
+// sales the way the schedule does; eBay keeps the locked 13%
+export const DEFAULT_PLATFORM_FEE_RATES: Record<string, number> = {
+  ...Object.fromEntries((Object.keys(FEE_SCHEDULES) as FeePlatform[]).map(platform => [platform, getScheduleFeeRate(platform)])),
+  ebay: DEFAULT_PLATFORM_FEE_RATE,
+};
+
+export const DEFAULT_DECISION_PROFILE: DecisionProfile = {
+  version: 0,
+  marginThreshold: MARGIN_THRESHOLD,
+  minNetProfit: DEFAULT_MIN_NET_PROFIT,
+  fixedCosts: DEFAULT_FIXED_COSTS,
+  defaultOutboundShipping: DEFAULT_OUTBOUND_SHIPPING,
+  defaultPlatform: 'ebay',
+  platformFeeRates: DEFAULT_PLATFORM_FEE_RATES,
+};
+
+/**
+ * Resolve the fee rate a profile applies to a sale platform.
+ * Falls back to the profile's default platform, then to the locked 13%.
+ */
+export function getProfileFeeRate(profile: DecisionProfile, platform?: string | null): number {
+  const key = platform || profile.defaultPlatform;
+  return profile.platformFeeRates[key]
+    ?? profile.platformFeeRates[profile.defaultPlatform]
+    ?? DEFAULT_PLATFORM_FEE_RATE;
+}
+
+/**
+ * Max buy for a user-chosen profit percent (batch / yard sale slider).
+ * 
+ * maxBuy = floor(sellPrice - fees - outboundShipping - fixedCosts - sellPrice × profitPercent)
+ * Fee rate and outbound shipping can be overridden per call (e.g. category allowances).
+ */
+export function calculateMaxBuyForProfitPercent(params: {
+  sellPrice: number;
+  profitPercent: number; // 25 = 25%
+  profile?: DecisionProfile;
+  feeRate?: number;
+  outboundShipping?: number;
+}): number {
+  const profile = params.profile ?? DEFAULT_DECISION_PROFILE;
+  const feeRate = params.feeRate ?? getProfileFeeRate(profile);
+  const outboundShipping = params.outboundShipping ?? profile.defaultOutboundShipping;
+  const { sellPrice } = params;
+
+  const profitGoal = sellPrice * (params.profitPercent / 100);
+  const fees = sellPrice * feeRate;
+  const maxBuy = Math.floor(sellPrice - fees - outboundShipping - profile.fixedCosts - profitGoal);
+  return maxBuy > 0 ? maxBuy : 0;
+}
+
+/**
+ * Resolve platform fees for a sale.
+ * 
+ * Order: explicit platformFeeRate (flat) → user-customized profile rate for the
+ * platform (flat) → platform fee schedule (itemized) when a sale platform is
+ * known → profile default rate (flat).
+ */
+function resolvePlatformFees(
+  input: DecisionInput,
+  profile: DecisionProfile,
+  expectedSalePrice: number,
+): { platformFees: number; feeRate: number; feeBreakdown?: FeeBreakdown } {
+  if (input.platformFeeRate !== undefined) {
+    return { platformFees: expectedSalePrice * input.platformFeeRate, feeRate: input.platformFeeRate };
+  }
+  if (input.salePlatform) {
+    const platform = normalizeFeePlatform(input.salePlatform);
+    const profileRate = profile.platformFeeRates[platform];
+    const isCustomRate = profileRate !== undefined && profileRate !== DEFAULT_PLATFORM_FEE_RATES[platform];
+    if (!isCustomRate) {
+      const feeBreakdown = calculateFeeBreakdown({
+        platform,
+        category: input.category,
+        salePrice: expectedSalePrice,
+        promotedRate: input.promotedRate,
+      });
+      return { platformFees: feeBreakdown.totalFees, feeRate: feeBreakdown.effectiveRate, feeBreakdown };
+    }
+    return { platformFees: expectedSalePrice * profileRate, feeRate: profileRate };
+  }
+  const feeRate = getProfileFeeRate(profile);
+  return { platformFees: expectedSalePrice * feeRate, feeRate };
+}
+
+function describeProfile(profile: DecisionProfile, platformFeeRate: number): string {
+  const label = profile.version === 0 ? 'system default' : `v${profile.version}`;
+  return `Decision profile ${label}: margin ≥${Math.round(profile.marginThreshold * 1000) / 10}%, min profit $${profile.minNetProfit.toFixed(2)}, fees ${Math.round(platformFeeRate * 1000) / 10}%, fixed costs $${profile.fixedCosts.toFixed(2)}`;
+}
 
 /**
  * ============================================================================
@@ -76,32 +200,38 @@ const DEFAULT_FIXED_COSTS = 5; // Packaging, labels, etc. - LOCKED
  * 
  * FORMULA (LOCKED):
  * - Total Cost = Buy Price + Shipping In
- * - Platform Fees = Expected Sale Price × 13%
+ * - Platform Fees = Expected Sale Price × 13%, or the itemized platform fee
+ *   schedule (shared/feeSchedule.ts) when a sale platform is supplied
  * - Net Profit = Expected Sale Price - Total Cost - Platform Fees - Outbound Shipping
  * - Margin = (Net Profit / Expected Sale Price) × 100
  * - Max Buy = Expected Sale Price - Platform Fees - Outbound Shipping - Fixed Costs - Shipping In - Target Profit
  * 
- * CONSTANTS (LOCKED):
+ * CONSTANTS (LOCKED defaults - overridable per user via DecisionProfile):
  * - Platform Fee Rate: 13% (DEFAULT_PLATFORM_FEE_RATE = 0.13)
  * - Outbound Shipping: $0 (DEFAULT_OUTBOUND_SHIPPING - buyer pays)
  * - Fixed Costs: $5 (DEFAULT_FIXED_COSTS)
  * - Margin Threshold: 25% (MARGIN_THRESHOLD = 0.25)
+ * - Min Net Profit: $0 (DEFAULT_MIN_NET_PROFIT)
  * 
  * This is the SINGLE SOURCE OF TRUTH for non-card profit calculations.
  * ============================================================================
  */
 export function calculateDecision(input: DecisionInput): DecisionResult {
+  const profile = input.profile ?? DEFAULT_DECISION_PROFILE;
   const {
     buyPrice,
     shippingIn,
     expectedSalePrice,
-    platformFeeRate = DEFAULT_PLATFORM_FEE_RATE,
-    outboundShipping = DEFAULT_OUTBOUND_SHIPPING,
+    outboundShipping = profile.defaultOutboundShipping,
     dataSourceConfidence = 'high',
     dataSourceType = 'manual',
     compCount,
     compConfidence,
   } = input;
+  const marginThreshold = profile.marginThreshold;
+  const marginThresholdLabel = `${Math.round(marginThreshold * 1000) / 10}%`;
+  const fees = resolvePlatformFees(input, profile, expectedSalePrice && expectedSalePrice > 0 ? expectedSalePrice : 0);
+  const profileLine = describeProfile(profile, fees.feeRate);
 
   // HARD GATE 1: No valid comps - cannot make decision
   if (expectedSalePrice === null || expectedSalePrice === undefined || expectedSalePrice <= 0) {
@@ -109,6 +239,7 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
       `Gate 1 FAILED: No valid sold comps found`,
       `Cannot calculate profit without market data`,
       `Need sold listings to determine expected sale price`,
+      profileLine,
     ];
     return {
       verdict: 'skip',
@@ -120,6 +251,7 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
       maxBuy: null,
       marketValue: null,
       skipReason: 'no_valid_comps',
+      profileVersion: profile.version,
       decisionTrace: trace,
       _diagnostics: {
         netProfit: 0,
@@ -133,7 +265,7 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
   }
 
   const totalCost = buyPrice + shippingIn;
-  const platformFees = expectedSalePrice * platformFeeRate;
+  const platformFees = fees.platformFees;
   const netProfit = expectedSalePrice - totalCost - platformFees - outboundShipping;
   
   const marginPercent = (netProfit / expectedSalePrice) * 100;
@@ -141,8 +273,8 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
   // Calculate MAX BUY from comps (NO FALLBACK)
   // Formula: maxBuy = expectedSalePrice - platformFees - outboundShipping - fixedCosts - shippingIn - targetProfit
   // Apply 20% safety reduction to all max buy prices
-  const targetProfit = expectedSalePrice * MARGIN_THRESHOLD;
-  const calculatedMaxBuy = expectedSalePrice - platformFees - outboundShipping - DEFAULT_FIXED_COSTS - shippingIn - targetProfit;
+  const targetProfit = Math.max(expectedSalePrice * marginThreshold, profile.minNetProfit);
+  const calculatedMaxBuy = expectedSalePrice - platformFees - outboundShipping - profile.fixedCosts - shippingIn - targetProfit;
   const maxBuy = calculatedMaxBuy > 0 ? Math.floor(calculatedMaxBuy * 0.8) : 0;
 
   // HARD GATE 2: maxBuy ≤ 0 means comps don't support any profitable purchase
@@ -150,7 +282,8 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
     const trace: string[] = [
       `Gate 1 PASSED: Found comps with median $${expectedSalePrice.toFixed(2)}`,
       `Gate 2 FAILED: Max buy price is $0 or less`,
-      `After fees ($${platformFees.toFixed(2)}) and 25% target margin, no room for profit`,
+      `After fees ($${platformFees.toFixed(2)}) and ${marginThresholdLabel} target margin, no room for profit`,
+      profileLine,
     ];
     return {
       verdict: 'skip',
@@ -162,6 +295,8 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
       maxBuy: 0,
       marketValue: expectedSalePrice,
       skipReason: 'max_buy_too_low',
+      profileVersion: profile.version,
+      feeBreakdown: fees.feeBreakdown,
       decisionTrace: trace,
       _diagnostics: {
         netProfit: Math.round(netProfit * 100) / 100,
@@ -174,13 +309,18 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
     };
   }
 
-  // HARD GATE 3: netProfit ≤ 0 = SKIP regardless of margin
-  if (netProfit <= 0) {
+  // HARD GATE 3: netProfit ≤ minimum (default $0) = SKIP regardless of margin
+  if (netProfit <= profile.minNetProfit) {
     const trace: string[] = [
       `Gate 1 PASSED: Found comps with median $${expectedSalePrice.toFixed(2)}`,
       `Gate 2 PASSED: Max buy is $${maxBuy}`,
-      `Gate 3 FAILED: Net profit is -$${Math.abs(netProfit).toFixed(2)}`,
-      `Total cost $${totalCost.toFixed(2)} + fees $${platformFees.toFixed(2)} exceeds sale price`,
+      netProfit <= 0
+        ? `Gate 3 FAILED: Net profit is -$${Math.abs(netProfit).toFixed(2)}`
+        : `Gate 3 FAILED: Net profit $${netProfit.toFixed(2)} is below $${profile.minNetProfit.toFixed(2)} minimum`,
+      netProfit <= 0
+        ? `Total cost $${totalCost.toFixed(2)} + fees $${platformFees.toFixed(2)} exceeds sale price`
+        : `Profit after cost $${totalCost.toFixed(2)} and fees $${platformFees.toFixed(2)} is too thin`,
+      profileLine,
     ];
     return {
       verdict: 'skip',
@@ -191,7 +331,9 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
       dataSourceConfidence,
       maxBuy,
       marketValue: expectedSalePrice,
-      skipReason: 'negative_profit',
+      skipReason: netProfit <= 0 ? 'negative_profit' : 'below_min_profit',
+      profileVersion: profile.version,
+      feeBreakdown: fees.feeBreakdown,
       decisionTrace: trace,
       _diagnostics: {
         netProfit: Math.round(netProfit * 100) / 100,
@@ -204,15 +346,16 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
     };
   }
 
-  // HARD GATE 4: margin < 25% = SKIP
-  const meetsMarginThreshold = marginPercent >= MARGIN_THRESHOLD * 100;
+  // HARD GATE 4: margin < threshold (default 25%) = SKIP
+  const meetsMarginThreshold = marginPercent >= marginThreshold * 100;
   if (!meetsMarginThreshold) {
     const roundedMargin = Math.round(marginPercent * 10) / 10;
     const trace: string[] = [
       `Gate 1 PASSED: Found comps with median $${expectedSalePrice.toFixed(2)}`,
       `Gate 2 PASSED: Max buy is $${maxBuy}`,
       `Gate 3 PASSED: Net profit is $${netProfit.toFixed(2)}`,
-      `Gate 4 FAILED: Margin is ${roundedMargin}%, below 25% threshold`,
+      `Gate 4 FAILED: Margin is ${roundedMargin}%, below ${marginThresholdLabel} threshold`,
+      profileLine,
     ];
     return {
       verdict: 'skip',
@@ -224,6 +367,8 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
       maxBuy,
       marketValue: expectedSalePrice,
       skipReason: 'low_margin',
+      profileVersion: profile.version,
+      feeBreakdown: fees.feeBreakdown,
       decisionTrace: trace,
       _diagnostics: {
         netProfit: Math.round(netProfit * 100) / 100,
@@ -243,8 +388,9 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
     `Gate 1 PASSED: Found comps with median $${expectedSalePrice.toFixed(2)}`,
     `Gate 2 PASSED: Max buy is $${maxBuy}`,
     `Gate 3 PASSED: Net profit is $${roundedProfit}`,
-    `Gate 4 PASSED: Margin is ${roundedMargin}%, exceeds 25% threshold`,
+    `Gate 4 PASSED: Margin is ${roundedMargin}%, exceeds ${marginThresholdLabel} threshold`,
     `All gates passed → FLIP IT!`,
+    profileLine,
   ];
   return {
     verdict: 'flip' as DecisionVerdict,
@@ -255,6 +401,8 @@ export function calculateDecision(input: DecisionInput): DecisionResult {
     dataSourceConfidence,
     maxBuy,
     marketValue: expectedSalePrice,
+    profileVersion: profile.version,
+    feeBreakdown: fees.feeBreakdown,
     decisionTrace: trace,
     _diagnostics: {
       netProfit: roundedProfit,
@@ -0,0 +1,76 @@
+/**
+ * Decision Replay Tests
+ */
+
+import { replayDecisions, type ReplayItem } from './decisionReplay';
+import { DEFAULT_DECISION_PROFILE } from './decisionEngine';
+
+const scan = (overrides: Partial<ReplayItem> = {}): ReplayItem => ({
+  id: 1,
+  title: 'Nike Dunk Low',
+  confirmedTitle: null,
+  category: 'Shoes',
+  buyPrice: '60',
+  price: null,
+  shippingIn: '0',
+  outboundShipping: '0',
+  avgComp: '100',
+  decisionVerdict: 'flip',
+  decisionData: null,
+  flipPrice: null,
+  ...overrides,
+});
+
+describe('Decision replay', () => {
+  it('should count scans without a verdict or comp price as unreplayable', () => {
+    const result = replayDecisions([
+      scan(),
+      scan({ id: 2, decisionVerdict: null }),
+      scan({ id: 3, avgComp: null }),
+    ], DEFAULT_DECISION_PROFILE, DEFAULT_DECISION_PROFILE);
+
+    expect(result.replayedItems).toBe(1);
+    expect(result.unreplayableItems).toBe(2);
+  });
+
+  it('should give an empty diff for identical thresholds', () => {
+    const result = replayDecisions([
+      scan(),
+      scan({ id: 2, decisionVerdict: 'skip' }), // stored under an older profile
+      scan({ id: 3, buyPrice: '95' }),
+    ], DEFAULT_DECISION_PROFILE, { ...DEFAULT_DECISION_PROFILE }, new Map([
+      [3, { salePrice: 100, platform: 'poshmark', platformFeeActual: null, outboundShipping: 0 }],
+    ]));
+
+    expect(result.replayedItems).toBe(3);
+    expect(result.flipsToSkips).toEqual([]);
+    expect(result.skipsToFlips).toEqual([]);
+    expect(result.proposed).toEqual(result.current);
+    expect(result.projectedProfitChange).toBe(0);
+  });
+
+  it('should price both runs on the platform the item sold on', () => {
+    const onEbay = replayDecisions([scan()], DEFAULT_DECISION_PROFILE, DEFAULT_DECISION_PROFILE);
+    const onPoshmark = replayDecisions([scan()], DEFAULT_DECISION_PROFILE, DEFAULT_DECISION_PROFILE, new Map([
+      [1, { salePrice: 100, platform: 'poshmark', platformFeeActual: null, outboundShipping: 0 }],
+    ]));
+
+    expect(onEbay.current.flips).toBe(1);
+    expect(onPoshmark.current.flips).toBe(0); // not the eBay verdict stored at scan time
+    expect(onPoshmark.proposed.flips).toBe(0);
+    expect(onPoshmark.flipsToSkips).toEqual([]);
+  });
+
+  it('should treat an actual sale as a money-maker even when the engine said skip', () => {
+    const result = replayDecisions([
+      scan({ decisionVerdict: 'skip', buyPrice: '70' }),
+      scan({ id: 2, decisionVerdict: 'skip', buyPrice: '70', flipPrice: '60' }),
+    ], DEFAULT_DECISION_PROFILE, DEFAULT_DECISION_PROFILE, new Map([
+      [1, { salePrice: 130, platform: 'ebay', platformFeeActual: 17, outboundShipping: 8 }],
+    ]));
+
+    expect(result.soldMoneyMakers).toBe(1); // the $60 flip lost money
+    expect(result.soldMoneyMakersRejected).toBe(1);
+    expect(result.realizedProfitRejected).toBe(35); // 130 - 70 - 17 - 8
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * What-If Decision Replay
+ *
+ * Re-runs stored scans through calculateDecision with the ACTIVE and a
+ * PROPOSED decision profile so users can tune their thresholds against their
+ * own history.
+ *
+ * Rules:
+ * - Only comps already stored on the item are used (decisionData.marketValue,
+ *   falling back to avgComp). No comp re-pulls, no AI.
+ * - The baseline is recomputed with the active profile on the same inputs as
+ *   the proposal, so identical thresholds always give an empty diff (the
+ *   verdict stored at scan time may come from an older profile or fee basis).
+ * - Items that never got a verdict (incomplete scans) or have no usable comp
+ *   price are counted as unreplayable, never guessed.
+ * - Both runs price fees on each item's category and sale platform (the
+ *   platform it actually sold on, else the active profile default), like a
+ *   live scan would.
+ * - A "money-maker" is a scan the user actually sold - an inventory sale
+ *   linked to it, else flipPrice recorded - at a positive realized profit,
+ *   whatever the engine said at scan time.
+ */
+
+import { calculateDecision, type DecisionProfile, type DecisionVerdict } from './decisionEngine';
+import { calculateSaleNetProfit } from './feeSchedule';
+import type { Item } from './schema';
+
+export type ReplayItem = Pick<
+  Item,
+  'id' | 'title' | 'confirmedTitle' | 'category' | 'buyPrice' | 'price' | 'shippingIn' |
+  'outboundShipping' | 'avgComp' | 'decisionVerdict' | 'decisionData' | 'flipPrice'
+>;
+
+// Sale recorded on the inventory item created from a scan
+export interface ReplaySale {
+  salePrice: number;
+  platform: string | null;
+  platformFeeActual: number | null;
+  outboundShipping: number | null;
+}
+
+export interface ReplayChange {
+  itemId: number;
+  title: string;
+  category: string | null;
+  currentVerdict: DecisionVerdict;
+  proposedVerdict: DecisionVerdict;
+  expectedSalePrice: number;
+  currentNetProfit: number;
+  proposedNetProfit: number;
+  proposedMarginPercent: number;
+  proposedSkipReason?: string;
+  flipPrice: number | null;
+  realizedProfit: number | null;
+}
+
+export interface ReplayResult {
+  profileVersion: number; // version the proposal is based on (the active profile)
+  totalItems: number;
+  replayedItems: number;
+  unreplayableItems: number;
+  current: { flips: number; skips: number; projectedProfit: number };
+  proposed: { flips: number; skips: number; projectedProfit: number };
+  projectedProfitChange: number;
+  flipsToSkips: ReplayChange[];
+  skipsToFlips: ReplayChange[];
+  soldMoneyMakers: number;
+  soldMoneyMakersRejected: number;
+  realizedProfitRejected: number;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value).replace(/[$,]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Replay stored scans against the active and a proposed profile and diff the
+ * verdicts.
+ *
+ * Only flips contribute to projected profit (skips are never bought).
+ * `sales` maps scan id to its inventory sale.
+ */
+export function replayDecisions(
+  items: ReplayItem[],
+  active: DecisionProfile,
+  proposed: DecisionProfile,
+  sales: Map<number, ReplaySale> = new Map()
+): ReplayResult {
+  const result: ReplayResult = {
+    profileVersion: active.version,
+    totalItems: items.length,
+    replayedItems: 0,
+    unreplayableItems: 0,
+    current: { flips: 0, skips: 0, projectedProfit: 0 },
+    proposed: { flips: 0, skips: 0, projectedProfit: 0 },
+    projectedProfitChange: 0,
+    flipsToSkips: [],
+    skipsToFlips: [],
+    soldMoneyMakers: 0,
+    soldMoneyMakersRejected: 0,
+    realizedProfitRejected: 0,
+  };
+
+  for (const item of items) {
+    const wasDecided = item.decisionVerdict === 'flip' || item.decisionVerdict === 'skip';
+    const storedDecision = item.decisionData as { marketValue?: number | null } | null;
+    const expectedSalePrice = toNumber(storedDecision?.marketValue) ?? toNumber(item.avgComp);
+    const buyPrice = toNumber(item.buyPrice) ?? toNumber(item.price);
+
+    if (!wasDecided || expectedSalePrice === null || expectedSalePrice <= 0 || buyPrice === null) {
+      result.unreplayableItems++;
+      continue;
+    }
+
+    const shippingIn = toNumber(item.shippingIn) ?? 0;
+    const storedOutbound = toNumber(item.outboundShipping) ?? active.defaultOutboundShipping;
+
+    const sale = sales.get(item.id);
+    const salePlatform = sale?.platform || active.defaultPlatform;
+    const inputs = { buyPrice, shippingIn, expectedSalePrice, salePlatform, category: item.category };
+    const baseline = calculateDecision({ ...inputs, profile: active });
+    const decision = calculateDecision({ ...inputs, profile: proposed });
+
+    const currentVerdict = baseline.verdict;
+    const currentNetProfit = baseline._diagnostics?.netProfit ?? 0;
+    const proposedNetProfit = decision._diagnostics?.netProfit ?? 0;
+
+    result.replayedItems++;
+    if (currentVerdict === 'flip') {
+      result.current.flips++;
+      result.current.projectedProfit += currentNetProfit;
+    } else {
+      result.current.skips++;
+    }
+    if (decision.verdict === 'flip') {
+      result.proposed.flips++;
+      result.proposed.projectedProfit += proposedNetProfit;
+    } else {
+      result.proposed.skips++;
+    }
+
+    const flipPrice = sale ? sale.salePrice : toNumber(item.flipPrice);
+    const realizedProfit = flipPrice !== null
+      ? calculateSaleNetProfit({
+          salePrice: flipPrice,
+          purchasePrice: buyPrice + shippingIn,
+          outboundShipping: sale?.outboundShipping ?? storedOutbound,
+          platform: salePlatform,
+          category: item.category,
+          platformFeeActual: sale?.platformFeeActual ?? null,
+        }).netProfit
+      : null;
+    const isSoldMoneyMaker = realizedProfit !== null && realizedProfit > 0;
+    if (isSoldMoneyMaker) {
+      result.soldMoneyMakers++;
+      if (decision.verdict === 'skip') {
+        result.soldMoneyMakersRejected++;
+        result.realizedProfitRejected += realizedProfit!;
+      }
+    }
+
+    if (decision.verdict === currentVerdict) continue;
+
+    const change: ReplayChange = {
+      itemId: item.id,
+      title: item.confirmedTitle || item.title || 'Untitled scan',
+      category: item.category,
+      currentVerdict,
+      proposedVerdict: decision.verdict,
+      expectedSalePrice,
+      currentNetProfit: roundMoney(currentNetProfit),
+      proposedNetProfit: roundMoney(proposedNetProfit),
+      proposedMarginPercent: decision.marginPercent,
+      proposedSkipReason: decision.skipReason,
+      flipPrice,
+      realizedProfit,
+    };
+    if (currentVerdict === 'flip') {
+      result.flipsToSkips.push(change);
+    } else {
+      result.skipsToFlips.push(change);
+    }
+  }
+
+  result.current.projectedProfit = roundMoney(result.current.projectedProfit);
+  result.proposed.projectedProfit = roundMoney(result.proposed.projectedProfit);
+  result.projectedProfitChange = roundMoney(result.proposed.projectedProfit - result.current.projectedProfit);
+  result.realizedProfitRejected = roundMoney(result.realizedProfitRejected);
+
+  return result;
+}
@@ -0,0 +1,78 @@
+/**
+ * Fee Schedule Tests
+ */
+
+import { calculateDecision, DEFAULT_DECISION_PROFILE, DEFAULT_PLATFORM_FEE_RATES } from './decisionEngine';
+import { calculateFeeBreakdown } from './feeSchedule';
+
+describe('Platform fee schedule', () => {
+  it('should itemize eBay fees when a sale platform is given', () => {
+    const result = calculateDecision({
+      buyPrice: 30,
+      shippingIn: 0,
+      expectedSalePrice: 100,
+      salePlatform: 'ebay',
+    });
+
+    // 13.25% final value fee + $0.40 per-order fee
+    expect(result._diagnostics?.platformFees).toBe(13.65);
+    expect(result.feeBreakdown?.lines.length).toBe(2);
+  });
+
+  it('should apply the lower eBay sneaker rate at $150 and up', () => {
+    const fees = calculateFeeBreakdown({ platform: 'ebay', category: 'Shoes', salePrice: 200 });
+
+    expect(fees.sellingFee).toBe(16);
+    expect(fees.fixedFee).toBe(0);
+  });
+
+  it('should cap the eBay percentage fee above $7,500', () => {
+    const fees = calculateFeeBreakdown({ platform: 'ebay', salePrice: 10000 });
+
+    expect(fees.sellingFee).toBe(1052.5) // 13.25% of $7,500 + 2.35% of $2,500;
+  });
+
+  it('should add the promoted listing rate on eBay only', () => {
+    expect(calculateFeeBreakdown({ platform: 'ebay', salePrice: 100, promotedRate: 0.05 }).promotedFee).toBe(5);
+    expect(calculateFeeBreakdown({ platform: 'mercari', salePrice: 100, promotedRate: 0.05 }).promotedFee).toBe(0);
+  });
+
+  it('should charge the Poshmark flat fee under $15', () => {
+    expect(calculateFeeBreakdown({ platform: 'poshmark', salePrice: 10 }).totalFees).toBe(2.95);
+    expect(calculateFeeBreakdown({ platform: 'poshmark', salePrice: 50 }).totalFees).toBe(10);
+  });
+
+  it('should prefer a custom profile rate over the schedule', () => {
+    const result = calculateDecision({
+      buyPrice: 30,
+      shippingIn: 0,
+      expectedSalePrice: 100,
+      salePlatform: 'ebay',
+      profile: {
+        ...DEFAULT_DECISION_PROFILE,
+        version: 2,
+        platformFeeRates: { ...DEFAULT_DECISION_PROFILE.platformFeeRates, ebay: 0.10 },
+      },
+    });
+
+    expect(result._diagnostics?.platformFees).toBe(10);
+    expect(result.feeBreakdown).toBeUndefined();
+  });
+
+  it('should default profile rates to the schedules', () => {
+    expect(DEFAULT_PLATFORM_FEE_RATES.facebook).toBe(0.10);
+    expect(DEFAULT_PLATFORM_FEE_RATES.mercari).toBe(0.129);
+    expect(DEFAULT_PLATFORM_FEE_RATES.chrono24).toBe(0.065);
+    expect(DEFAULT_PLATFORM_FEE_RATES.ebay).toBe(0.13);
+
+    const result = calculateDecision({
+      buyPrice: 30,
+      shippingIn: 0,
+      expectedSalePrice: 100,
+      salePlatform: 'facebook',
+      profile: DEFAULT_DECISION_PROFILE,
+    });
+    expect(result.feeBreakdown?.platform).toBe('facebook');
+    expect(result._diagnostics?.platformFees).toBe(10);
+  });
+});
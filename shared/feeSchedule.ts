@@ -0,0 +1,307 @@
+/**
+ * ============================================================================
+ * PLATFORM FEE SCHEDULES
+ * ============================================================================
+ *
+ * Single source of truth for marketplace selling fees.
+ * Used by the decision engine, InventoryPage and the P&L export so that
+ * "net profit" means the same thing everywhere.
+ *
+ * Each schedule combines:
+ * - Percentage fee (tiered: eBay applies a lower rate above the per-item cap)
+ * - Per-order fixed fee
+ * - Payment processing (percentage + fixed)
+ * - Minimum / flat small-sale fees (Poshmark, Facebook, OfferUp)
+ * - Category overrides (eBay sneakers over $150, eBay watches)
+ * - Promoted-listing rate (ad fee on the sale price, where supported)
+ *
+ * Rates reflect published US seller fees; update the table, never the math.
+ * ============================================================================
+ */
+
+export type FeePlatform = 'ebay' | 'mercari' | 'poshmark' | 'facebook' | 'offerup' | 'whatnot' | 'stockx' | 'chrono24' | 'other';
+
+export interface FeeTier {
+  upTo: number | null; // upper bound of this price band, null = no cap
+  rate: number;
+}
+
+export interface FeeSchedule {
+  label: string;
+  tiers: FeeTier[]; // percentage fee bands applied marginally
+  fixedFee: number; // per-order fee
+  fixedFeeSmallOrder?: { below: number; fee: number }; // reduced per-order fee for small sales
+  processingRate: number; // payment processing percentage
+  processingFixed: number; // payment processing fixed amount
+  minimumFee?: number; // floor on the percentage fee
+  flatFeeBelow?: { below: number; fee: number }; // flat fee replaces all fees below a price
+  supportsPromoted: boolean;
+}
+
+export interface CategoryFeeOverride {
+  minPrice: number; // override applies at or above this sale price
+  tiers: FeeTier[];
+  waiveFixedFee: boolean;
+}
+
+export const FEE_SCHEDULES: Record<FeePlatform, FeeSchedule> = {
+  ebay: {
+    label: 'eBay',
+    // Final value fee includes payment processing (managed payments)
+    tiers: [{ upTo: 7500, rate: 0.1325 }, { upTo: null, rate: 0.0235 }],
+    fixedFee: 0.40,
+    fixedFeeSmallOrder: { below: 10, fee: 0.30 },
+    processingRate: 0,
+    processingFixed: 0,
+    supportsPromoted: true,
+  },
+  mercari: {
+    label: 'Mercari',
+    tiers: [{ upTo: null, rate: 0.10 }],
+    fixedFee: 0,
+    processingRate: 0.029,
+    processingFixed: 0.50,
+    supportsPromoted: false,
+  },
+  poshmark: {
+    label: 'Poshmark',
+    tiers: [{ upTo: null, rate: 0.20 }],
+    fixedFee: 0,
+    processingRate: 0,
+    processingFixed: 0,
+    flatFeeBelow: { below: 15, fee: 2.95 },
+    supportsPromoted: false,
+  },
+  facebook: {
+    label: 'Facebook',
+    // Shipped orders; processing included in the selling fee
+    tiers: [{ upTo: null, rate: 0.10 }],
+    fixedFee: 0,
+    processingRate: 0,
+    processingFixed: 0,
+    minimumFee: 0.80,
+    supportsPromoted: false,
+  },
+  offerup: {
+    label: 'OfferUp',
+    tiers: [{ upTo: null, rate: 0.129 }],
+    fixedFee: 0,
+    processingRate: 0,
+    processingFixed: 0,
+    minimumFee: 1.99,
+    supportsPromoted: false,
+  },
+  whatnot: {
+    label: 'Whatnot',
+    tiers: [{ upTo: null, rate: 0.08 }],
+    fixedFee: 0,
+    processingRate: 0.029,
+    processingFixed: 0.30,
+    supportsPromoted: false,
+  },
+  stockx: {
+    label: 'StockX',
+    tiers: [{ upTo: null, rate: 0.09 }],
+    fixedFee: 0,
+    processingRate: 0.03,
+    processingFixed: 0,
+    supportsPromoted: false,
+  },
+  chrono24: {
+    label: 'Chrono24',
+    // Private seller commission; payment processing included
+    tiers: [{ upTo: null, rate: 0.065 }],
+    fixedFee: 0,
+    processingRate: 0,
+    processingFixed: 0,
+    supportsPromoted: false,
+  },
+  other: {
+    label: 'Other',
+    tiers: [{ upTo: null, rate: 0.13 }],
+    fixedFee: 0,
+    processingRate: 0,
+    processingFixed: 0,
+    supportsPromoted: false,
+  },
+};
+
+// eBay category overrides, keyed by normalized category
+const EBAY_CATEGORY_OVERRIDES: Record<string, CategoryFeeOverride> = {
+  // Athletic sneakers $150+: 8% and no per-order fee
+  sneakers: { minPrice: 150, tiers: [{ upTo: null, rate: 0.08 }], waiveFixedFee: true },
+  // Watches: 15% up to $1,000, 6.5% to $7,500, 3% above
+  watches: {
+    minPrice: 0,
+    tiers: [{ upTo: 1000, rate: 0.15 }, { upTo: 7500, rate: 0.065 }, { upTo: null, rate: 0.03 }],
+    waiveFixedFee: false,
+  },
+};
+
+export interface FeeInput {
+  platform?: string | null;
+  category?: string | null;
+  salePrice: number;
+  promotedRate?: number; // 0.05 = 5% promoted listing ad rate
+}
+
+export interface FeeLine {
+  label: string;
+  amount: number;
+}
+
+export interface FeeBreakdown {
+  platform: FeePlatform;
+  platformLabel: string;
+  salePrice: number;
+  sellingFee: number;
+  fixedFee: number;
+  processingFee: number;
+  promotedFee: number;
+  totalFees: number;
+  effectiveRate: number; // totalFees / salePrice
+  netPayout: number; // salePrice - totalFees
+  lines: FeeLine[];
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function normalizeFeePlatform(platform?: string | null): FeePlatform {
+  const key = (platform || '').toLowerCase().trim();
+  if (key in FEE_SCHEDULES) return key as FeePlatform;
+  if (key.includes('ebay')) return 'ebay';
+  if (key.includes('facebook') || key.includes('marketplace')) return 'facebook';
+  return key ? 'other' : 'ebay';
+}
+
+function normalizeFeeCategory(category?: string | null): string | null {
+  const key = (category || '').toLowerCase();
+  if (key.includes('shoe') || key.includes('sneaker')) return 'sneakers';
+  if (key.includes('watch')) return 'watches';
+  return null;
+}
+
+/**
+ * Headline rate of a schedule: its first fee band plus payment processing.
+ * Fixed, minimum and flat small-sale fees aren't in it.
+ */
+export function getScheduleFeeRate(platform: FeePlatform): number {
+  const schedule = FEE_SCHEDULES[platform];
+  return Math.round((schedule.tiers[0].rate + schedule.processingRate) * 10000) / 10000;
+}
+
+function applyTiers(salePrice: number, tiers: FeeTier[]): number {
+  let fee = 0;
+  let lower = 0;
+  for (const tier of tiers) {
+    const upper = tier.upTo ?? Infinity;
+    if (salePrice <= lower) break;
+    fee += (Math.min(salePrice, upper) - lower) * tier.rate;
+    lower = upper;
+  }
+  return fee;
+}
+
+/**
+ * Itemized fees for selling one item on a platform.
+ *
+ * Unknown platforms fall back to the flat 13% "other" schedule; a missing
+ * platform means eBay (the app's default sale channel).
+ */
+export function calculateFeeBreakdown(input: FeeInput): FeeBreakdown {
+  const platform = normalizeFeePlatform(input.platform);
+  const schedule = FEE_SCHEDULES[platform];
+  const salePrice = Math.max(0, input.salePrice || 0);
+
+  let sellingFee = 0;
+  let fixedFee = 0;
+  let processingFee = 0;
+  let promotedFee = 0;
+  const lines: FeeLine[] = [];
+
+  if (salePrice > 0 && schedule.flatFeeBelow && salePrice < schedule.flatFeeBelow.below) {
+    sellingFee = schedule.flatFeeBelow.fee;
+    lines.push({ label: `${schedule.label} flat fee (under $${schedule.flatFeeBelow.below})`, amount: roundMoney(sellingFee) });
+  } else if (salePrice > 0) {
+    const categoryKey = platform === 'ebay' ? normalizeFeeCategory(input.category) : null;
+    const override = categoryKey ? EBAY_CATEGORY_OVERRIDES[categoryKey] : undefined;
+    const useOverride = !!override && salePrice >= override.minPrice;
+    const tiers = useOverride ? override!.tiers : schedule.tiers;
+
+    sellingFee = applyTiers(salePrice, tiers);
+    if (schedule.minimumFee && sellingFee < schedule.minimumFee) {
+      sellingFee = schedule.minimumFee;
+    }
+    lines.push({
+      label: useOverride ? `${schedule.label} selling fee (${categoryKey} rate)` : `${schedule.label} selling fee`,
+      amount: roundMoney(sellingFee),
+    });
+
+    if (!(useOverride && override!.waiveFixedFee)) {
+      fixedFee = schedule.fixedFeeSmallOrder && salePrice < schedule.fixedFeeSmallOrder.below
+        ? schedule.fixedFeeSmallOrder.fee
+        : schedule.fixedFee;
+      if (fixedFee > 0) lines.push({ label: 'Per-order fee', amount: roundMoney(fixedFee) });
+    }
+
+    processingFee = salePrice * schedule.processingRate + schedule.processingFixed;
+    if (processingFee > 0) lines.push({ label: 'Payment processing', amount: roundMoney(processingFee) });
+  }
+
+  if (salePrice > 0 && schedule.supportsPromoted && input.promotedRate && input.promotedRate > 0) {
+    promotedFee = salePrice * input.promotedRate;
+    lines.push({ label: `Promoted listing (${Math.round(input.promotedRate * 1000) / 10}%)`, amount: roundMoney(promotedFee) });
+  }
+
+  const totalFees = roundMoney(sellingFee + fixedFee + processingFee + promotedFee);
+
+  return {
+    platform,
+    platformLabel: schedule.label,
+    salePrice,
+    sellingFee: roundMoney(sellingFee),
+    fixedFee: roundMoney(fixedFee),
+    processingFee: roundMoney(processingFee),
+    promotedFee: roundMoney(promotedFee),
+    totalFees,
+    effectiveRate: salePrice > 0 ? totalFees / salePrice : 0,
+    netPayout: roundMoney(salePrice - totalFees),
+    lines,
+  };
+}
+
+/**
+ * Net profit for a sold (or to-be-sold) inventory item.
+ *
+ * Fees: the actual fee recorded on the sale wins; otherwise the platform's
+ * fee schedule is applied to the sale price.
+ */
+export function calculateSaleNetProfit(params: {
+  salePrice: number;
+  purchasePrice: number;
+  outboundShipping: number;
+  platform?: string | null;
+  category?: string | null;
+  platformFeeActual?: number | null;
+  promotedRate?: number;
+}): { netProfit: number; fees: number; feeBreakdown: FeeBreakdown | null } {
+  const { salePrice, purchasePrice, outboundShipping } = params;
+  const hasActualFee = params.platformFeeActual !== null && params.platformFeeActual !== undefined && !isNaN(params.platformFeeActual);
+  const feeBreakdown = hasActualFee
+    ? null
+    : calculateFeeBreakdown({
+        platform: params.platform,
+        category: params.category,
+        salePrice,
+        promotedRate: params.promotedRate,
+      });
+  const fees = hasActualFee ? params.platformFeeActual! : feeBreakdown!.totalFees;
+
+  return {
+    netProfit: roundMoney(salePrice - purchasePrice - fees - outboundShipping),
+    fees: roundMoney(fees),
+    feeBreakdown,
+  };
+}
@@ -1,3 +1,5 @@
+import type { LiquidityGrade, LiquidityResult } from './liquidity';
+
 export type FlipTier = 'ready' | 'marginal' | 'skip';
 
 export interface FlipTierInfo {
@@ -50,7 +52,7 @@ export const MOMENTUM_BADGES: Record<MomentumBadge, MomentumIndicator> = {
   fast_turn: {
     badge: 'fast_turn',
     label: 'Fast Turn',
-    description: 'High demand, quick sell',
+    description: 'High sell-through, quick sell',
     icon: 'zap',
   },
   solid_margin: {
@@ -78,14 +80,31 @@ export function calculateROI(buyPrice: number, netProfit: number): number {
   return netProfit / buyPrice;
 }
 
+// Sell-through score per liquidity grade (see shared/liquidity.ts)
+const LIQUIDITY_SCORES: Record<Exclude<LiquidityGrade, 'unknown'>, number> = {
+  A: 100,
+  B: 85,
+  C: 65,
+  D: 35,
+  F: 10,
+};
+
+// Slow sellers can't reach the top tiers no matter the margin
+const LIQUIDITY_SCORE_CAPS: Partial<Record<LiquidityGrade, number>> = {
+  D: FLIP_THRESHOLDS.READY - 1,
+  F: FLIP_THRESHOLDS.MARGINAL - 1,
+};
+
 /**
  * Calculate Flip Score optimized for ROI efficiency
  * 
  * Weights:
  * - ROI Multiple: 40% (high ROI = high score even with small profit)
- * - Sell-through confidence: 25% (comps count, data quality)
+ * - Sell-through confidence: 25% (liquidity grade when known, blended with comps count)
  * - Margin safety: 20% (room for error, absolute profit)
  * - Risk factors: 15% (volatility, spread)
+ *
+ * Grade D/F liquidity caps the score below READY/MARGINAL.
  */
 export function calculateFlipScore(params: {
   buyPrice: number;
@@ -93,8 +112,9 @@ export function calculateFlipScore(params: {
   compsCount: number;
   spreadPercent: number | null;
   hasComps: boolean;
+  liquidityGrade?: LiquidityGrade | null;
 }): number {
-  const { buyPrice, netProfit, compsCount, spreadPercent, hasComps } = params;
+  const { buyPrice, netProfit, compsCount, spreadPercent, hasComps, liquidityGrade } = params;
   
   // Calculate ROI multiple
   const roi = calculateROI(buyPrice, netProfit);
@@ -131,6 +151,10 @@ export function calculateFlipScore(params: {
   } else {
     confidenceScore = 40 + compsCount * 10; // 1-2 comps
   }
+  // Real sell-through outweighs comp count when we have it
+  if (liquidityGrade && liquidityGrade !== 'unknown') {
+    confidenceScore = LIQUIDITY_SCORES[liquidityGrade] * 0.7 + confidenceScore * 0.3;
+  }
   
   // === MARGIN SAFETY (20%) ===
   // Absolute profit matters for risk buffer
@@ -173,8 +197,10 @@ export function calculateFlipScore(params: {
     (marginScore * 0.20) +
     (riskScore * 0.15);
   
+  const cap = liquidityGrade ? LIQUIDITY_SCORE_CAPS[liquidityGrade] ?? 100 : 100;
+  
   // Clamp to 0-100 range
-  return Math.min(100, Math.max(0, Math.round(finalScore)));
+  return Math.min(cap, Math.max(0, Math.round(finalScore)));
 }
 
 /**
@@ -185,8 +211,9 @@ export function getMomentumBadges(params: {
   netProfit: number;
   compsCount: number;
   spreadPercent: number | null;
+  liquidityGrade?: LiquidityGrade | null;
 }): MomentumIndicator[] {
-  const { buyPrice, netProfit, compsCount, spreadPercent } = params;
+  const { buyPrice, netProfit, compsCount, spreadPercent, liquidityGrade } = params;
   const badges: MomentumIndicator[] = [];
   
   const roi = calculateROI(buyPrice, netProfit);
@@ -196,8 +223,12 @@ export function getMomentumBadges(params: {
     badges.push(MOMENTUM_BADGES.money_multiplier);
   }
   
-  // Fast Turn: High comps + tight spread = quick sell
-  if (compsCount >= 5 && (spreadPercent === null || spreadPercent <= 25)) {
+  // Fast Turn: measured sell-through (grade A/B) when known,
+  // otherwise high comps + tight spread = quick sell
+  const isFastTurn = liquidityGrade && liquidityGrade !== 'unknown'
+    ? liquidityGrade === 'A' || liquidityGrade === 'B'
+    : compsCount >= 5 && (spreadPercent === null || spreadPercent <= 25);
+  if (isFastTurn) {
     badges.push(MOMENTUM_BADGES.fast_turn);
   }
   
@@ -371,7 +402,8 @@ export function getFlipScoreBreakdown(
   compsCount: number,
   spreadPercent: number | null,
   marginPercent: number | null,
-  roi?: number
+  roi?: number,
+  liquidity?: LiquidityResult | null
 ): FlipScoreBreakdown {
   const factors: { label: string; status: 'good' | 'neutral' | 'poor' }[] = [];
   
@@ -410,6 +442,18 @@ export function getFlipScoreBreakdown(
     }
   }
   
+  // Sell-through (liquidity)
+  if (liquidity && liquidity.sellThroughRate !== null) {
+    const label = `${Math.round(liquidity.sellThroughRate * 100)}% sell-through`;
+    if (liquidity.grade === 'A' || liquidity.grade === 'B') {
+      factors.push({ label, status: 'good' });
+    } else if (liquidity.grade === 'C') {
+      factors.push({ label, status: 'neutral' });
+    } else {
+      factors.push({ label, status: 'poor' });
+    }
+  }
+  
   // Margin percent
   if (marginPercent !== null) {
     if (marginPercent >= 30) {
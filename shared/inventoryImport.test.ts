@@ -0,0 +1,50 @@
+/**
+ * Inventory Import Tests
+ */
+
+import { buildImportPreview, parseCsv, parseImportDate } from './inventoryImport';
+
+describe('Inventory import', () => {
+  const ebayOrders = [
+    '',
+    '"Sales Record Number","Order Number","Item Number","Item Title","Quantity","Sold For","Sale Date"',
+    '"1","12-345","999","Nike Air Max 90","2","$100.00","Mar-15-24"',
+    '"2","12-346","998","Seiko SKX","1","$150.00","Mar-16-24"',
+    '"2 record(s) downloaded,from Mar 1 to Mar 31"',
+  ].join('\n');
+
+  it('should parse quoted CSV fields and marketplace date styles', () => {
+    expect(parseCsv('a,"b ""q"", c"\r\n1,"x\ny"')).toEqual([['a', 'b "q", c'], ['1', 'x\ny']]);
+    expect(['03/15/2024', 'Mar-15-24', 'Mar 15, 2024', '13/40/2024'].map(parseImportDate))
+      .toEqual(['2024-03-15', '2024-03-15', '2024-03-15', null]);
+  });
+
+  it('should split multi-quantity eBay orders and dedupe against existing sales', () => {
+    const preview = buildImportPreview(ebayOrders, {
+      existing: [{ id: 7, title: 'Seiko SKX', status: 'sold', salePlatform: 'ebay', externalId: null, soldDate: '2024-03-16', actualSalePrice: '150.00' }],
+    });
+
+    expect(preview.format).toBe('ebay_orders');
+    expect(preview.rows.map(r => [r.status, r.item?.salePrice, r.item?.externalId, r.duplicateOfId])).toEqual([
+      ['new', 50, '12-345:999', null],
+      ['new', 50, '12-345:999#2', null],
+      ['duplicate', 150, '12-346:998', 7],
+    ]);
+  });
+
+  it('should derive Poshmark fees from net earnings and skip cancelled Mercari orders', () => {
+    const poshmark = buildImportPreview([
+      'Order Date,Listing Title,Order Price,Seller Shipping Discount,Net Earnings,Order Id,Order Status',
+      '05/01/2024,Lululemon Leggings,$50.00,$2.00,$38.00,p1,Shipped',
+    ].join('\n'), { existing: [] });
+    const mercari = buildImportPreview([
+      'Item Id,Sold Date,Item Title,Order Status,Item Price,Mercari Selling Fee',
+      'm1,2024-04-02,Funko Pop,Completed,$40.00,-$4.00',
+      'm2,2024-04-03,Lego,Cancelled,$20.00,',
+    ].join('\n'), { existing: [] });
+
+    expect(poshmark.rows[0].item).toMatchObject({ salePlatform: 'poshmark', salePrice: 50, fees: 10, shipping: 2, soldDate: '2024-05-01' });
+    expect(mercari.summary).toMatchObject({ new: 1, skipped: 1 });
+    expect(mercari.rows[0].item?.fees).toBe(4);
+  });
+});
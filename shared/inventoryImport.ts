@@ -0,0 +1,573 @@
+/**
+ * Inventory Import - Marketplace & Spreadsheet CSVs
+ *
+ * Turns a CSV export into inventory items the user previews (dry run) before
+ * anything is saved:
+ * - ebay_orders: Seller Hub "Orders" report - sold items
+ * - ebay_listings: Seller Hub "Active listings" report - listed items
+ * - mercari: Mercari sales export - sold items, fees itemized
+ * - poshmark: Poshmark sales report - sold items, fees from net earnings
+ * - generic: any spreadsheet, columns mapped by the user
+ * The format is detected from the header row unless the user picks one.
+ *
+ * MAPPING: each field reads the first matching header (case/punctuation
+ * blind). Fees and shipping add up every matching column. Without fee
+ * columns, fees = sale price - net proceeds - seller shipping. Marketplace
+ * exports carry no cost, so purchasePrice is 0 unless a cost column exists.
+ * A row with quantity > 1 becomes one item per unit, money split evenly.
+ *
+ * DEDUPE: a row is a duplicate when an existing item (or an earlier row in
+ * the file) has the same platform + order/listing id. Failing that, it is
+ * matched on title + sold day + sale price (sold) or title + platform
+ * (listed/bought) - each existing item absorbs at most one row, so three
+ * identical sales only match three existing ones.
+ *
+ * Dates are kept as calendar days (YYYY-MM-DD).
+ */
+
+import type { FeePlatform } from './feeSchedule';
+
+export const importFormats = ['ebay_orders', 'ebay_listings', 'mercari', 'poshmark', 'generic'] as const;
+export type ImportFormat = typeof importFormats[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  ebay_orders: 'eBay orders',
+  ebay_listings: 'eBay active listings',
+  mercari: 'Mercari sales',
+  poshmark: 'Poshmark sales',
+  generic: 'Other spreadsheet',
+};
+
+export const importFields = [
+  'title', 'salePrice', 'fees', 'shipping', 'netProceeds', 'soldDate', 'purchasePrice', 'purchaseDate',
+  'listPrice', 'listedDate', 'category', 'brand', 'condition', 'quantity', 'externalId', 'platform',
+] as const;
+export type ImportField = typeof importFields[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  title: 'Title',
+  salePrice: 'Sale price',
+  fees: 'Platform fees',
+  shipping: 'Shipping you paid',
+  netProceeds: 'Net proceeds',
+  soldDate: 'Sold date',
+  purchasePrice: 'Cost',
+  purchaseDate: 'Purchase date',
+  listPrice: 'List price',
+  listedDate: 'Listed date',
+  category: 'Category',
+  brand: 'Brand',
+  condition: 'Condition',
+  quantity: 'Quantity',
+  externalId: 'Order / listing ID',
+  platform: 'Platform',
+};
+
+// Field → CSV header the user picked (generic format)
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_CSV_LENGTH = 10 * 1024 * 1024;
+const MAX_UNITS_PER_ROW = 50;
+
+const SUMMED_FIELDS: ImportField[] = ['fees', 'shipping'];
+const JOINED_FIELDS: ImportField[] = ['externalId']; // order + line ids
+
+interface FormatProfile {
+  platform: FeePlatform | null; // null = from the row's platform column
+  listed?: boolean; // rows are live listings, not sales
+  signature: string[]; // headers that identify the export
+  columns: Partial<Record<ImportField, string[]>>;
+  skipWhen?: { column: string; pattern: RegExp; reason: string };
+}
+
+const FORMAT_PROFILES: Record<Exclude<ImportFormat, 'generic'>, FormatProfile> = {
+  ebay_orders: {
+    platform: 'ebay',
+    signature: ['Order Number', 'Item Title', 'Sold For'],
+    columns: {
+      title: ['Item Title'],
+      salePrice: ['Sold For'],
+      soldDate: ['Sale Date', 'Paid On Date'],
+      quantity: ['Quantity'],
+      externalId: ['Order Number', 'Item Number'],
+    },
+  },
+  ebay_listings: {
+    platform: 'ebay',
+    listed: true,
+    signature: ['Item number', 'Title', 'Start date'],
+    columns: {
+      title: ['Title'],
+      listPrice: ['Current price', 'Start price'],
+      listedDate: ['Start date'],
+      quantity: ['Available quantity'],
+      condition: ['Condition'],
+      category: ['eBay category 1 name'],
+      externalId: ['Item number'],
+    },
+  },
+  mercari: {
+    platform: 'mercari',
+    signature: ['Item Id', 'Item Title', 'Item Price'],
+    columns: {
+      title: ['Item Title'],
+      salePrice: ['Item Price'],
+      fees: ['Mercari Selling Fee', 'Payment Processing Fee Charged To Seller', 'Shipping Adjustment Fee', 'Penalty Fee'],
+      shipping: ['Seller Shipping Fee'],
+      netProceeds: ['Net Seller Proceeds'],
+      soldDate: ['Sold Date', 'Completed Date'],
+      externalId: ['Item Id'],
+    },
+    skipWhen: { column: 'Order Status', pattern: /cancel/i, reason: 'Cancelled order' },
+  },
+  poshmark: {
+    platform: 'poshmark',
+    signature: ['Order Id', 'Listing Title', 'Order Price'],
+    columns: {
+      title: ['Listing Title'],
+      salePrice: ['Order Price'],
+      shipping: ['Seller Shipping Discount', 'Upgraded Shipping Label Fee'],
+      netProceeds: ['Net Earnings'],
+      soldDate: ['Order Date'],
+      listedDate: ['Listing Date'],
+      purchasePrice: ['Cost Price'],
+      category: ['Category', 'Department'],
+      brand: ['Brand'],
+      externalId: ['Order Id'],
+    },
+    skipWhen: { column: 'Order Status', pattern: /cancel/i, reason: 'Cancelled order' },
+  },
+};
+
+// Headers a generic spreadsheet commonly uses, for the suggested mapping
+const GENERIC_ALIASES: Record<ImportField, string[]> = {
+  title: ['Title', 'Item', 'Item Title', 'Item Name', 'Name', 'Description', 'Listing Title'],
+  salePrice: ['Sale Price', 'Sold Price', 'Sold For', 'Sold', 'Price Sold', 'Order Price', 'Item Price'],
+  fees: ['Fees', 'Fee', 'Platform Fees', 'Selling Fees'],
+  shipping: ['Shipping', 'Shipping Cost', 'Shipping Paid', 'Postage'],
+  netProceeds: ['Net', 'Net Proceeds', 'Net Earnings', 'Payout'],
+  soldDate: ['Sold Date', 'Date Sold', 'Sale Date', 'Order Date'],
+  purchasePrice: ['Cost', 'Purchase Price', 'Cost Price', 'Paid', 'COGS', 'Buy Price'],
+  purchaseDate: ['Purchase Date', 'Date Purchased', 'Bought', 'Date Bought', 'Acquired'],
+  listPrice: ['List Price', 'Listing Price', 'Asking Price', 'Price'],
+  listedDate: ['Listed Date', 'Date Listed', 'Listing Date'],
+  category: ['Category', 'Department'],
+  brand: ['Brand'],
+  condition: ['Condition'],
+  quantity: ['Quantity', 'Qty'],
+  externalId: ['Order ID', 'Order Number', 'SKU', 'Item ID', 'Listing ID'],
+  platform: ['Platform', 'Marketplace', 'Sold On', 'Channel'],
+};
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'skipped' | 'invalid';
+
+export interface ImportedInventoryItem {
+  title: string;
+  status: 'sold' | 'listed' | 'bought';
+  salePlatform: FeePlatform | null;
+  salePrice: number | null;
+  fees: number | null; // null = estimate from the fee schedule
+  shipping: number | null;
+  soldDate: string | null;
+  purchasePrice: number;
+  purchaseDate: string | null;
+  listPrice: number | null;
+  listedDate: string | null;
+  category: string | null;
+  brand: string | null;
+  condition: string | null;
+  externalId: string | null;
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number; // 1-based CSV row, header included
+  status: ImportRowStatus;
+  reason: string | null;
+  item: ImportedInventoryItem | null;
+  duplicateOfId: number | null; // existing inventory item, when known
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  headers: string[];
+  mapping: ImportColumnMapping; // what each field was read from
+  rows: ImportPreviewRow[];
+  summary: Record<ImportRowStatus, number> & { total: number };
+  warnings: string[];
+}
+
+// Existing inventory, just what dedupe needs
+export interface ExistingImportKey {
+  id: number;
+  title: string;
+  status: string;
+  salePlatform: string | null;
+  externalId: string | null;
+  soldDate: Date | string | null;
+  actualSalePrice: string | null;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields, doubled quotes, commas/newlines in quotes,
+ * CRLF or LF line endings, optional byte-order mark.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function filledCells(row: string[]): number {
+  return row.filter(cell => cell.trim() !== '').length;
+}
+
+// eBay reports open with blank lines; the header is the first row with a few columns
+function findHeaderRow(rows: string[][]): number {
+  return rows.findIndex(row => filledCells(row) >= 2);
+}
+
+export function detectImportFormat(headers: string[]): ImportFormat {
+  const present = new Set(headers.map(normalizeHeader));
+  for (const format of importFormats) {
+    if (format === 'generic') continue;
+    if (FORMAT_PROFILES[format].signature.every(h => present.has(normalizeHeader(h)))) return format;
+  }
+  return 'generic';
+}
+
+/**
+ * Best guess at which header holds each field of a generic spreadsheet.
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  const byNormalized = new Map(headers.map(h => [normalizeHeader(h), h]));
+  const used = new Set<string>();
+  const mapping: ImportColumnMapping = {};
+  for (const field of importFields) {
+    const match = GENERIC_ALIASES[field].map(alias => byNormalized.get(normalizeHeader(alias))).find(h => h && !used.has(h));
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  }
+  return mapping;
+}
+
+export function parseImportMoney(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+  const digits = trimmed.replace(/[^0-9.]/g, '');
+  if (!digits || isNaN(parseFloat(digits))) return null;
+  const amount = Math.round(parseFloat(digits) * 100) / 100;
+  return negative ? -amount : amount;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toIsoDay(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Calendar day from the date styles marketplace exports use: 2024-03-15,
+ * 03/15/2024, 3/15/24, Mar-15-24, Mar 15, 2024 (time of day is dropped).
+ */
+export function parseImportDate(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toIsoDay(+match[1], +match[2], +match[3]);
+
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (match) return toIsoDay(+match[3], +match[1], +match[2]);
+
+  match = trimmed.match(/^([A-Za-z]{3})[A-Za-z]*[-\s](\d{1,2}),?[-\s](\d{2,4})/);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].toLowerCase());
+    return month >= 0 ? toIsoDay(+match[3], month + 1, +match[2]) : null;
+  }
+  return null;
+}
+
+function toImportPlatform(value: string | null): FeePlatform | null {
+  const key = (value || '').toLowerCase().trim();
+  if (!key) return null;
+  const platforms: FeePlatform[] = ['ebay', 'mercari', 'poshmark', 'facebook', 'offerup', 'whatnot', 'stockx'];
+  return platforms.find(p => key.includes(p)) ?? (key.includes('marketplace') ? 'facebook' : 'other');
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function dayOf(value: Date | string | null): string | null {
+  if (!value) return null;
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/**
+ * idKey: platform + order/listing id. matchKey: what the item looks like
+ * (title + sold day + price, or title + platform while unsold).
+ */
+export function getImportDedupeKeys(item: {
+  title: string;
+  status: string;
+  salePlatform: string | null;
+  externalId: string | null;
+  soldDate: Date | string | null;
+  salePrice: number | null;
+}): { idKey: string | null; matchKey: string | null } {
+  const platform = toImportPlatform(item.salePlatform) ?? 'ebay';
+  const idKey = item.externalId ? `id:${platform}:${item.externalId.trim().toLowerCase()}` : null;
+  const title = normalizeTitle(item.title);
+  const soldDay = dayOf(item.soldDate);
+  if (soldDay && item.salePrice !== null) return { idKey, matchKey: `sold:${title}:${soldDay}:${item.salePrice.toFixed(2)}` };
+  return { idKey, matchKey: item.status === 'sold' ? null : `stock:${title}:${platform}` };
+}
+
+// Split money across units; rounding leftovers land on the first unit
+function splitAmount(amount: number | null, units: number): (number | null)[] {
+  if (amount === null) return Array(units).fill(null);
+  const cents = Math.round(amount * 100);
+  const base = Math.trunc(cents / units);
+  return Array.from({ length: units }, (_, i) => (base + (i === 0 ? cents - base * units : 0)) / 100);
+}
+
+function resolveColumns(
+  headers: string[],
+  format: ImportFormat,
+  mapping: ImportColumnMapping | undefined
+): Partial<Record<ImportField, number[]>> {
+  const indexOf = new Map<string, number>();
+  headers.forEach((header, i) => {
+    const key = normalizeHeader(header);
+    if (key && !indexOf.has(key)) indexOf.set(key, i);
+  });
+
+  const columns: Partial<Record<ImportField, number[]>> = {};
+  if (format === 'generic') {
+    const effective = { ...suggestColumnMapping(headers), ...mapping };
+    for (const field of importFields) {
+      const header = effective[field];
+      const index = header ? indexOf.get(normalizeHeader(header)) : undefined;
+      if (index !== undefined) columns[field] = [index];
+    }
+    return columns;
+  }
+
+  for (const [field, aliases] of Object.entries(FORMAT_PROFILES[format].columns) as [ImportField, string[]][]) {
+    const found = aliases.map(alias => indexOf.get(normalizeHeader(alias))).filter((i): i is number => i !== undefined);
+    if (found.length === 0) continue;
+    columns[field] = SUMMED_FIELDS.includes(field) || JOINED_FIELDS.includes(field) ? found : [found[0]];
+  }
+  return columns;
+}
+
+function mapRow(
+  row: string[],
+  columns: Partial<Record<ImportField, number[]>>,
+  profile: FormatProfile | null
+): { items: ImportedInventoryItem[] } | { error: string } {
+  const text = (field: ImportField): string | null => {
+    const indexes = columns[field];
+    if (!indexes) return null;
+    const values = indexes.map(i => (row[i] ?? '').trim()).filter(Boolean);
+    return values.length > 0 ? values.join(':') : null;
+  };
+  const money = (field: ImportField): number | null => {
+    const indexes = columns[field];
+    if (!indexes) return null;
+    const amounts = indexes.map(i => parseImportMoney(row[i])).filter((a): a is number => a !== null);
+    return amounts.length > 0 ? Math.round(amounts.reduce((sum, a) => sum + Math.abs(a), 0) * 100) / 100 : null;
+  };
+
+  const title = text('title');
+  if (!title) return { error: 'Missing title' };
+
+  const salePrice = money('salePrice');
+  const listPrice = money('listPrice');
+  const soldDate = parseImportDate(text('soldDate'));
+  const shipping = money('shipping');
+  const netProceeds = money('netProceeds');
+  let fees = money('fees');
+  if (fees === null && salePrice !== null && netProceeds !== null) {
+    fees = Math.max(0, Math.round((salePrice - netProceeds - (shipping ?? 0)) * 100) / 100);
+  }
+
+  const sold = !profile?.listed && (salePrice !== null || soldDate !== null);
+  if (profile && !profile.listed && !sold) return { error: 'No sale price or date' };
+  const status: ImportedInventoryItem['status'] = sold ? 'sold' : listPrice !== null ? 'listed' : 'bought';
+  if (status === 'sold' && !soldDate) return { error: 'Sold row without a valid sold date' };
+
+  const quantity = Math.min(MAX_UNITS_PER_ROW, Math.max(1, Math.floor(parseImportMoney(text('quantity')) ?? 1)));
+  const salePrices = splitAmount(sold ? salePrice ?? 0 : null, quantity);
+  const feeShares = splitAmount(fees, quantity);
+  const shippingShares = splitAmount(shipping, quantity);
+  const costShares = splitAmount(money('purchasePrice') ?? 0, quantity);
+  const listPrices = splitAmount(listPrice, quantity);
+  const externalId = text('externalId');
+
+  const items = Array.from({ length: quantity }, (_, unit): ImportedInventoryItem => ({
+    title: title.slice(0, 500),
+    status,
+    salePlatform: profile?.platform ?? toImportPlatform(text('platform')),
+    salePrice: salePrices[unit],
+    fees: feeShares[unit],
+    shipping: shippingShares[unit],
+    soldDate: sold ? soldDate : null,
+    purchasePrice: costShares[unit] ?? 0,
+    purchaseDate: parseImportDate(text('purchaseDate')),
+    listPrice: listPrices[unit],
+    listedDate: parseImportDate(text('listedDate')),
+    category: text('category'),
+    brand: text('brand'),
+    condition: text('condition'),
+    externalId: externalId && unit > 0 ? `${externalId}#${unit + 1}` : externalId,
+  }));
+  return { items };
+}
+
+/**
+ * Parse, map and dedupe a CSV export without saving anything.
+ */
+export function buildImportPreview(
+  csv: string,
+  options: { format?: ImportFormat | 'auto'; mapping?: ImportColumnMapping; existing: ExistingImportKey[] }
+): ImportPreview {
+  const rows = parseCsv(csv);
+  const headerIndex = findHeaderRow(rows);
+  const headers = headerIndex >= 0 ? rows[headerIndex].map(h => h.trim()) : [];
+  const format = !options.format || options.format === 'auto' ? detectImportFormat(headers) : options.format;
+  const profile = format === 'generic' ? null : FORMAT_PROFILES[format];
+  const columns = resolveColumns(headers, format, options.mapping);
+  const warnings: string[] = [];
+
+  const mapping: ImportColumnMapping = {};
+  for (const [field, indexes] of Object.entries(columns) as [ImportField, number[]][]) {
+    mapping[field] = indexes.map(i => headers[i]).join(' + ');
+  }
+  if (headers.length > 0 && !columns.title) warnings.push('No title column found - pick one to import.');
+  if (!columns.purchasePrice) warnings.push('No cost column - items import at $0 cost, so profit will look high until you add what you paid.');
+
+  // idKey → existing item id (null = earlier row in this file)
+  const ids = new Map<string, number | null>();
+  // matchKey → existing item ids not yet matched to a row
+  const unmatched = new Map<string, number[]>();
+  const fileMatchKeys = new Set<string>();
+  for (const existing of options.existing) {
+    const { idKey, matchKey } = getImportDedupeKeys({
+      title: existing.title,
+      status: existing.status,
+      salePlatform: existing.salePlatform,
+      externalId: existing.externalId,
+      soldDate: existing.soldDate,
+      salePrice: existing.actualSalePrice !== null ? parseFloat(existing.actualSalePrice) : null,
+    });
+    if (idKey) ids.set(idKey, existing.id);
+    if (matchKey) unmatched.set(matchKey, [...(unmatched.get(matchKey) ?? []), existing.id]);
+  }
+  const findDuplicate = (item: ImportedInventoryItem): { reason: string; duplicateOfId: number | null } | null => {
+    const { idKey, matchKey } = getImportDedupeKeys(item);
+    if (idKey && ids.has(idKey)) {
+      const duplicateOfId = ids.get(idKey)!;
+      return { reason: duplicateOfId ? 'Already in inventory' : 'Repeated in this file', duplicateOfId };
+    }
+    const candidates = matchKey ? unmatched.get(matchKey) : undefined;
+    if (candidates && candidates.length > 0) {
+      return { reason: 'Already in inventory', duplicateOfId: candidates.shift()! };
+    }
+    if (!idKey && matchKey && fileMatchKeys.has(matchKey)) {
+      return { reason: 'Repeated in this file', duplicateOfId: null };
+    }
+    if (idKey) ids.set(idKey, null);
+    if (matchKey) fileMatchKeys.add(matchKey);
+    return null;
+  };
+
+  const previewRows: ImportPreviewRow[] = [];
+  const dataRows = headerIndex >= 0 ? rows.slice(headerIndex + 1) : [];
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    warnings.push(`Only the first ${MAX_IMPORT_ROWS} rows are imported.`);
+  }
+
+  dataRows.slice(0, MAX_IMPORT_ROWS).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    // Blank lines and "N record(s) downloaded" footers
+    if (filledCells(row) < 2) return;
+
+    const skip = profile?.skipWhen;
+    if (skip) {
+      const index = headers.findIndex(h => normalizeHeader(h) === normalizeHeader(skip.column));
+      if (index >= 0 && skip.pattern.test(row[index] ?? '')) {
+        previewRows.push({ rowNumber, status: 'skipped', reason: skip.reason, item: null, duplicateOfId: null });
+        return;
+      }
+    }
+
+    const mapped = mapRow(row, columns, profile);
+    if ('error' in mapped) {
+      previewRows.push({ rowNumber, status: 'invalid', reason: mapped.error, item: null, duplicateOfId: null });
+      return;
+    }
+
+    for (const item of mapped.items) {
+      const duplicate = findDuplicate(item);
+      previewRows.push(duplicate
+        ? { rowNumber, status: 'duplicate', reason: duplicate.reason, item, duplicateOfId: duplicate.duplicateOfId }
+        : { rowNumber, status: 'new', reason: null, item, duplicateOfId: null });
+    }
+  });
+
+  const summary = { total: previewRows.length, new: 0, duplicate: 0, skipped: 0, invalid: 0 };
+  for (const row of previewRows) summary[row.status]++;
+
+  return { format, headers, mapping, rows: previewRows, summary, warnings };
+}
@@ -0,0 +1,23 @@
+/**
+ * Inventory Lifecycle Tests
+ */
+
+import { canTransitionInventory, getTransitionDateUpdates } from './inventoryLifecycle';
+
+describe('Inventory Lifecycle', () => {
+  it('should allow returns but keep donated and written-off items final', () => {
+    expect(canTransitionInventory('sold', 'returned')).toBe(true);
+    expect(canTransitionInventory('listed', 'bought')).toBe(true);
+    expect(canTransitionInventory('donated', 'listed')).toBe(false);
+    expect(canTransitionInventory('shipped', 'bought')).toBe(false);
+  });
+
+  it('should stamp and clear dates on transition', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const soldDate = new Date('2026-02-20T12:00:00Z');
+
+    expect(getTransitionDateUpdates('shipped', { soldDate }, now)).toEqual({ soldDate });
+    expect(getTransitionDateUpdates('returned', { soldDate }, now)).toEqual({ soldDate: null });
+    expect(getTransitionDateUpdates('written_off', {}, now)).toEqual({ disposedDate: now });
+  });
+});
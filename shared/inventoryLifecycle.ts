@@ -0,0 +1,98 @@
+/**
+ * Inventory Lifecycle - Statuses & Transitions
+ *
+ * An inventory item moves through prep (cleaning, photos), selling (listed,
+ * sold) and fulfilment (shipped, delivered). It can also come back (returned)
+ * or leave without a sale (donated, written off).
+ *
+ * P&L GROUPS:
+ * - In stock: bought, needs_cleaning, photographed, listed, returned
+ *   (a return puts the item back on the shelf and reverses the sale)
+ * - Sold: sold, shipped, delivered - revenue counts from soldDate
+ * - Disposed: donated, written_off - cost is a loss as of disposedDate
+ *
+ * Every change is appended to inventory_status_history; the server rejects
+ * any move that is not in INVENTORY_TRANSITIONS.
+ */
+
+import type { InventoryStatus } from './schema';
+
+export const INVENTORY_STATUS_LABELS: Record<InventoryStatus, string> = {
+  bought: 'Bought',
+  needs_cleaning: 'Needs Cleaning',
+  photographed: 'Photographed',
+  listed: 'Listed',
+  sold: 'Sold',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  returned: 'Returned',
+  donated: 'Donated',
+  written_off: 'Written Off',
+};
+
+// Allowed next statuses. Donated and written-off items are final.
+export const INVENTORY_TRANSITIONS: Record<InventoryStatus, InventoryStatus[]> = {
+  bought: ['needs_cleaning', 'photographed', 'listed', 'sold', 'donated', 'written_off'],
+  needs_cleaning: ['photographed', 'listed', 'sold', 'donated', 'written_off'],
+  photographed: ['needs_cleaning', 'listed', 'sold', 'donated', 'written_off'],
+  listed: ['bought', 'photographed', 'sold', 'donated', 'written_off'], // bought/photographed = delisted
+  sold: ['listed', 'shipped', 'delivered', 'returned'], // listed = buyer cancelled; delivered = local pickup
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned'],
+  returned: ['needs_cleaning', 'photographed', 'listed', 'sold', 'donated', 'written_off'],
+  donated: [],
+  written_off: [],
+};
+
+export const SOLD_STATUSES: InventoryStatus[] = ['sold', 'shipped', 'delivered'];
+export const DISPOSED_STATUSES: InventoryStatus[] = ['donated', 'written_off'];
+export const IN_STOCK_STATUSES: InventoryStatus[] = ['bought', 'needs_cleaning', 'photographed', 'listed', 'returned'];
+
+export function isSoldStatus(status: string | null | undefined): boolean {
+  return SOLD_STATUSES.includes(status as InventoryStatus);
+}
+
+export function isDisposedStatus(status: string | null | undefined): boolean {
+  return DISPOSED_STATUSES.includes(status as InventoryStatus);
+}
+
+export function isInStockStatus(status: string | null | undefined): boolean {
+  return IN_STOCK_STATUSES.includes(status as InventoryStatus);
+}
+
+export function getInventoryStatusLabel(status: string | null | undefined): string {
+  return INVENTORY_STATUS_LABELS[status as InventoryStatus] ?? (status || 'Unknown');
+}
+
+/**
+ * Whether an item may move from one status to another.
+ * Staying on the same status is always allowed (a no-op, nothing is recorded).
+ */
+export function canTransitionInventory(from: string, to: InventoryStatus): boolean {
+  if (from === to) return true;
+  return (INVENTORY_TRANSITIONS[from as InventoryStatus] ?? []).includes(to);
+}
+
+/**
+ * Date fields to stamp when an item enters a status (only those not already set
+ * by the caller). Moving back into stock clears the sale or disposal date.
+ */
+export function getTransitionDateUpdates(
+  to: InventoryStatus,
+  current: { listedDate?: Date | null; soldDate?: Date | null },
+  now: Date = new Date()
+): { listedDate?: Date | null; soldDate?: Date | null; disposedDate?: Date | null } {
+  if (to === 'listed') {
+    return { listedDate: current.listedDate ?? now, soldDate: null, disposedDate: null };
+  }
+  if (isSoldStatus(to)) {
+    return { soldDate: current.soldDate ?? now };
+  }
+  if (isDisposedStatus(to)) {
+    return { disposedDate: now };
+  }
+  if (to === 'returned') {
+    return { soldDate: null };
+  }
+  return {};
+}
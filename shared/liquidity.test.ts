@@ -0,0 +1,22 @@
+/**
+ * Liquidity Tests
+ */
+
+import { calculateLiquidity } from './liquidity';
+import { calculateFlipScore, getMomentumBadges } from './flipScore';
+
+describe('Liquidity', () => {
+  it('should grade sell-through from sold vs. active counts', () => {
+    expect(calculateLiquidity({ soldCount: 30, activeCount: 10 }).grade).toBe('A');
+    expect(calculateLiquidity({ soldCount: 3, activeCount: 90 }).grade).toBe('F');
+    expect(calculateLiquidity({ soldCount: 3, activeCount: null }).grade).toBe('unknown');
+  });
+
+  it('should drop Fast Turn and cap the score for shelf sitters', () => {
+    const params = { buyPrice: 20, netProfit: 40, compsCount: 12, spreadPercent: 10, hasComps: true };
+
+    expect(getMomentumBadges(params).map(b => b.badge)).toContain('fast_turn');
+    expect(getMomentumBadges({ ...params, liquidityGrade: 'F' }).map(b => b.badge)).not.toContain('fast_turn');
+    expect(calculateFlipScore({ ...params, liquidityGrade: 'F' })).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Liquidity Model - Sell-Through & Days-to-Sell
+ *
+ * Margin says how much an item makes; liquidity says whether it sells at all.
+ * A 40%-margin item that sits for a year ties up cash and shelf space.
+ *
+ * INPUTS:
+ * - Sold comps (count + sale dates) from the sold-comps pipeline
+ * - Active listing count from the eBay Browse API (fetchBrowseAPIWithSignals)
+ *
+ * ALGORITHM:
+ * 1. Sales rate = sold comps ÷ the window they cover (oldest dated sale,
+ *    SOLD_LOOKBACK_DAYS when fewer than MIN_DATED_SALES_FOR_WINDOW are dated)
+ * 2. Sell-through = sold ÷ (sold + active), with sold scaled to the lookback
+ * 3. Days-to-sell = active supply ÷ sales rate (days to clear current listings)
+ * 4. Grade from sell-through (LIQUIDITY_GRADE_THRESHOLDS)
+ *
+ * No active count (or no market at all) = grade 'unknown' (never guessed).
+ */
+
+import { parseSoldDate } from './compTrend';
+
+export type LiquidityGrade = 'A' | 'B' | 'C' | 'D' | 'F' | 'unknown';
+
+export interface LiquidityResult {
+  grade: LiquidityGrade;
+  label: string;
+  sellThroughRate: number | null; // 0-1, null when active count is unknown
+  estimatedDaysToSell: number | null; // capped at MAX_DAYS_TO_SELL
+  soldCount: number;
+  activeCount: number | null;
+  soldWindowDays: number;
+  salesPerDay: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SOLD_LOOKBACK_DAYS = 90; // eBay sold search window
+export const MIN_SOLD_WINDOW_DAYS = 7;
+export const MIN_DATED_SALES_FOR_WINDOW = 3;
+export const MAX_DAYS_TO_SELL = 365;
+
+// Minimum sell-through for each grade (eBay reseller rules of thumb)
+export const LIQUIDITY_GRADE_THRESHOLDS: { grade: Exclude<LiquidityGrade, 'unknown'>; minSellThrough: number; label: string }[] = [
+  { grade: 'A', minSellThrough: 0.6, label: 'Sells fast' },
+  { grade: 'B', minSellThrough: 0.4, label: 'Steady seller' },
+  { grade: 'C', minSellThrough: 0.25, label: 'Average demand' },
+  { grade: 'D', minSellThrough: 0.1, label: 'Slow mover' },
+  { grade: 'F', minSellThrough: 0, label: 'Shelf sitter' },
+];
+
+/**
+ * Sell-through, days-to-sell and liquidity grade for one item.
+ */
+export function calculateLiquidity(params: {
+  soldCount: number;
+  activeCount: number | null;
+  soldDates?: (string | Date | null | undefined)[];
+  now?: Date;
+}): LiquidityResult {
+  const now = params.now ?? new Date();
+  const soldCount = Math.max(0, params.soldCount);
+  const activeCount = params.activeCount !== null && params.activeCount >= 0 ? params.activeCount : null;
+
+  // Sold comps are capped by the fetch limit, so measure the window they actually span
+  const ages = (params.soldDates ?? [])
+    .map(d => parseSoldDate(d ?? null, now))
+    .filter((d): d is Date => d !== null)
+    .map(d => Math.max(0, (now.getTime() - d.getTime()) / DAY_MS));
+  const soldWindowDays = ages.length >= MIN_DATED_SALES_FOR_WINDOW
+    ? Math.min(SOLD_LOOKBACK_DAYS, Math.max(MIN_SOLD_WINDOW_DAYS, Math.ceil(Math.max(...ages))))
+    : SOLD_LOOKBACK_DAYS;
+  const salesPerDay = soldCount / soldWindowDays;
+
+  if (activeCount === null || (soldCount === 0 && activeCount === 0)) {
+    return {
+      grade: 'unknown',
+      label: 'Not enough market data',
+      sellThroughRate: null,
+      estimatedDaysToSell: null,
+      soldCount,
+      activeCount,
+      soldWindowDays,
+      salesPerDay: Math.round(salesPerDay * 100) / 100,
+    };
+  }
+
+  const soldInLookback = salesPerDay * SOLD_LOOKBACK_DAYS;
+  const sellThroughRate = soldInLookback + activeCount > 0
+    ? soldInLookback / (soldInLookback + activeCount)
+    : 0;
+  const estimatedDaysToSell = salesPerDay > 0
+    ? Math.min(MAX_DAYS_TO_SELL, Math.max(1, Math.round(activeCount / salesPerDay)))
+    : MAX_DAYS_TO_SELL;
+
+  const tier = LIQUIDITY_GRADE_THRESHOLDS.find(t => sellThroughRate >= t.minSellThrough)
+    ?? LIQUIDITY_GRADE_THRESHOLDS[LIQUIDITY_GRADE_THRESHOLDS.length - 1];
+
+  return {
+    grade: tier.grade,
+    label: tier.label,
+    sellThroughRate: Math.round(sellThroughRate * 1000) / 1000,
+    estimatedDaysToSell,
+    soldCount,
+    activeCount,
+    soldWindowDays,
+    salesPerDay: Math.round(salesPerDay * 100) / 100,
+  };
+}
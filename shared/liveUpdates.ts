@@ -0,0 +1,67 @@
+/**
+ * Live Updates - messages on the per-user WebSocket channel
+ *
+ * One authenticated socket per open app (LIVE_UPDATES_PATH, bound to the
+ * login session) carries everything the server wants to push while a page
+ * is open:
+ * - batch: a batch session or one of its items changed (job queue progress)
+ * - scan_stage: a scan moved through identify → comps → decision. The client
+ *   tags the scan request with a scanId and matches stages against it
+ * - price_alert: a watched listing dropped to the user's max buy price
+ * - saved_search: a saved search found new listings that would be a FLIP
+ *
+ * Photo batch items are sent without inputValue (the inline image) - the
+ * page already has it from /api/batch/session.
+ */
+
+import type { BatchItem, BatchSession } from './schema';
+
+export const LIVE_UPDATES_PATH = '/ws/live';
+
+export const scanStages = ['identify', 'comps', 'decision', 'failed'] as const;
+export type ScanStage = typeof scanStages[number];
+
+export const SCAN_STAGE_LABELS: Record<ScanStage, string> = {
+  identify: 'Identifying item...',
+  comps: 'Pulling sold comps...',
+  decision: 'Decision ready',
+  failed: 'Scan failed',
+};
+
+export interface BatchLiveMessage {
+  type: 'batch';
+  session: BatchSession;
+  item: (Omit<BatchItem, 'inputValue'> & { inputValue?: string }) | null;
+}
+
+export interface ScanStageLiveMessage {
+  type: 'scan_stage';
+  scanId: string;
+  stage: ScanStage;
+  title?: string; // once identified
+  verdict?: string; // with 'decision'
+  message?: string; // with 'failed'
+}
+
+export interface PriceAlertLiveMessage {
+  type: 'price_alert';
+  alertId: number;
+  title: string;
+  price: number;
+  maxBuyPrice: number;
+  ebayItemId: string | null;
+}
+
+export interface SavedSearchLiveMessage {
+  type: 'saved_search';
+  alertId: number;
+  searchQuery: string;
+  deals: Array<{ ebayItemId: string; title: string; price: number; marginPercent: number; url: string | null }>;
+}
+
+export type LiveMessage = BatchLiveMessage | ScanStageLiveMessage | PriceAlertLiveMessage | SavedSearchLiveMessage;
+
+// Client-generated scan ids are echoed back, so keep them short and plain
+export function isValidScanId(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(value);
+}
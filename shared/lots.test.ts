@@ -0,0 +1,50 @@
+/**
+ * Lots Tests
+ */
+
+import { allocateLotCost, computeLotRoi } from './lots';
+
+describe('Lots', () => {
+  it('should split lot cost evenly down to the cent', () => {
+    const prices = allocateLotCost(10, [{ id: 1 }, { id: 2 }, { id: 3 }], 'even').map(p => p.purchasePrice);
+
+    expect(prices).toEqual([3.34, 3.33, 3.33]);
+  });
+
+  it('should weight items without an estimate at the average estimate', () => {
+    const prices = allocateLotCost(12, [
+      { id: 1, estimatedResale: '30' },
+      { id: 2, estimatedResale: null },
+      { id: 3, estimatedResale: 10 },
+    ], 'estimatedResale').map(p => p.purchasePrice);
+
+    expect(prices).toEqual([6, 4, 2]);
+  });
+
+  it('should keep sold and disposed costs and split only the remainder', () => {
+    const shares = allocateLotCost(30, [
+      { id: 1, status: 'sold', purchasePrice: '10' },
+      { id: 2, status: 'donated', purchasePrice: '10' },
+      { id: 3, status: 'bought', purchasePrice: '10' },
+      { id: 4, status: 'listed', purchasePrice: null },
+    ], 'even');
+
+    expect(shares.map(s => s.purchasePrice)).toEqual([10, 10, 5, 5]);
+    expect(shares.map(s => s.locked)).toEqual([true, true, false, false]);
+  });
+
+  it('should count the whole lot cost against net proceeds of sold items', () => {
+    const roi = computeLotRoi({ totalCost: '40', tax: '2.80' }, [
+      { status: 'sold', actualSalePrice: '30', platformFeeActual: '4', outboundShippingActual: '6' },
+      { status: 'bought', estimatedResale: '25' },
+      { status: 'donated' },
+    ]);
+
+    expect(roi.totalCost).toBe(42.8);
+    expect(roi.netProceeds).toBe(20);
+    expect(roi.profit).toBe(-22.8);
+    expect(roi.recovered).toBeCloseTo(0.467, 3);
+    expect(roi.openCount).toBe(1);
+    expect(roi.openEstimatedValue).toBe(25);
+  });
+});
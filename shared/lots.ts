@@ -0,0 +1,183 @@
+/**
+ * Lots - Cost Allocation & ROI
+ *
+ * A lot is one purchase (a $40 box lot, a storage unit, a bulk auction win)
+ * that turns into many inventory items. The lot's cost plus tax is spread
+ * across its items' purchasePrice, in cents, always adding up exactly.
+ *
+ * ALLOCATION METHODS:
+ * - even: every item gets the same share
+ * - estimatedResale: in proportion to each item's estimatedResale; items
+ *   with no estimate are weighted at the average of those that have one
+ * - manual: in proportion to allocationWeight set per item (default 1)
+ *
+ * The server re-runs the allocation whenever an item joins or leaves the
+ * lot, or the lot's cost, tax or method changes. Sold and disposed items keep
+ * the cost they closed with - their COGS is already booked - so only what's
+ * left of the lot cost is spread across the items still in stock. An item
+ * that leaves the lot goes back to $0; its cost stays with the lot.
+ *
+ * ROI counts the whole lot cost against what the sold items netted, so a lot
+ * "pays for itself" once recovered ≥ 100%.
+ */
+
+import { allocateReceiptTotal } from './receipts';
+import { calculateSaleNetProfit } from './feeSchedule';
+import { isDisposedStatus, isSoldStatus } from './inventoryLifecycle';
+import type { LotWithItems } from './schema';
+
+export const lotAllocationMethods = ['even', 'estimatedResale', 'manual'] as const;
+export type LotAllocationMethod = typeof lotAllocationMethods[number];
+
+export const LOT_ALLOCATION_LABELS: Record<LotAllocationMethod, string> = {
+  even: 'Even split',
+  estimatedResale: 'By est. resale',
+  manual: 'Manual weights',
+};
+
+type MoneyValue = string | number | null | undefined;
+
+export interface LotItemInput {
+  id: number;
+  estimatedResale?: MoneyValue;
+  allocationWeight?: MoneyValue;
+  status?: string | null;
+  purchasePrice?: MoneyValue;
+}
+
+export interface LotRoiItemInput {
+  status: string;
+  estimatedResale?: MoneyValue;
+  actualSalePrice?: MoneyValue;
+  platformFeeActual?: MoneyValue;
+  outboundShippingActual?: MoneyValue;
+  shippingEstimate?: MoneyValue;
+  salePlatform?: string | null;
+  category?: string | null;
+}
+
+export interface LotRoi {
+  totalCost: number; // cost + tax
+  itemCount: number;
+  soldCount: number;
+  disposedCount: number;
+  openCount: number;
+  revenue: number;
+  netProceeds: number; // revenue - fees - shipping on sold items
+  profit: number; // netProceeds - totalCost
+  roi: number | null; // profit / totalCost
+  recovered: number | null; // netProceeds / totalCost
+  openEstimatedValue: number; // estimatedResale of items still in stock
+}
+
+export type LotSummary = LotWithItems & { roi: LotRoi };
+
+function toNumber(value: MoneyValue): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getLotTotalCost(lot: { totalCost: MoneyValue; tax?: MoneyValue }): number {
+  return roundMoney((toNumber(lot.totalCost) ?? 0) + (toNumber(lot.tax) ?? 0));
+}
+
+/**
+ * Weight of each item under a method (same order as the input).
+ */
+export function getLotWeights(items: LotItemInput[], method: LotAllocationMethod): number[] {
+  if (method === 'manual') {
+    return items.map(item => Math.max(0, toNumber(item.allocationWeight) ?? 1));
+  }
+  if (method === 'estimatedResale') {
+    const known = items.map(item => toNumber(item.estimatedResale)).filter((v): v is number => v !== null && v > 0);
+    const fallback = known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : 1;
+    return items.map(item => {
+      const estimate = toNumber(item.estimatedResale);
+      return estimate !== null && estimate > 0 ? estimate : fallback;
+    });
+  }
+  return items.map(() => 1);
+}
+
+/**
+ * Sold or disposed - the item's share of the lot is final.
+ */
+export function isLotCostLocked(item: { status?: string | null }): boolean {
+  return isSoldStatus(item.status) || isDisposedStatus(item.status);
+}
+
+/**
+ * Purchase price for every item in the lot. Locked items keep their current
+ * price; the rest of the cost is split across open items. All-zero weights
+ * fall back to an even split.
+ */
+export function allocateLotCost(
+  totalCost: number,
+  items: LotItemInput[],
+  method: LotAllocationMethod
+): { id: number; purchasePrice: number; locked: boolean }[] {
+  const openItems = items.filter(item => !isLotCostLocked(item));
+  const lockedCost = items
+    .filter(isLotCostLocked)
+    .reduce((sum, item) => sum + (toNumber(item.purchasePrice) ?? 0), 0);
+  const shares = allocateReceiptTotal(getLotWeights(openItems, method), Math.max(0, roundMoney(totalCost - lockedCost)));
+  const shareById = new Map(openItems.map((item, i) => [item.id, shares[i]]));
+
+  return items.map(item => {
+    const share = shareById.get(item.id);
+    return share === undefined
+      ? { id: item.id, purchasePrice: toNumber(item.purchasePrice) ?? 0, locked: true }
+      : { id: item.id, purchasePrice: share, locked: false };
+  });
+}
+
+export function computeLotRoi(lot: { totalCost: MoneyValue; tax?: MoneyValue }, items: LotRoiItemInput[]): LotRoi {
+  const totalCost = getLotTotalCost(lot);
+  let revenue = 0;
+  let netProceeds = 0;
+  let soldCount = 0;
+  let disposedCount = 0;
+  let openEstimatedValue = 0;
+
+  for (const item of items) {
+    if (isSoldStatus(item.status)) {
+      const salePrice = toNumber(item.actualSalePrice) ?? 0;
+      const shipping = toNumber(item.outboundShippingActual) ?? toNumber(item.shippingEstimate) ?? 0;
+      const { netProfit } = calculateSaleNetProfit({
+        salePrice,
+        purchasePrice: 0, // the lot cost is counted once, below
+        outboundShipping: shipping,
+        platform: item.salePlatform,
+        category: item.category,
+        platformFeeActual: toNumber(item.platformFeeActual),
+      });
+      revenue += salePrice;
+      netProceeds += netProfit;
+      soldCount++;
+    } else if (isDisposedStatus(item.status)) {
+      disposedCount++;
+    } else {
+      openEstimatedValue += toNumber(item.estimatedResale) ?? 0;
+    }
+  }
+
+  const profit = netProceeds - totalCost;
+  return {
+    totalCost,
+    itemCount: items.length,
+    soldCount,
+    disposedCount,
+    openCount: items.length - soldCount - disposedCount,
+    revenue: roundMoney(revenue),
+    netProceeds: roundMoney(netProceeds),
+    profit: roundMoney(profit),
+    roi: totalCost > 0 ? Math.round((profit / totalCost) * 1000) / 1000 : null,
+    recovered: totalCost > 0 ? Math.round((netProceeds / totalCost) * 1000) / 1000 : null,
+    openEstimatedValue: roundMoney(openEstimatedValue),
+  };
+}
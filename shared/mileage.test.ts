@@ -0,0 +1,47 @@
+/**
+ * Mileage Tests
+ */
+
+import { getMileageRate, computeTripMileage, splitMileageCost, getTripDayWindow, toCalendarDay } from './mileage';
+
+describe('Mileage', () => {
+  it('should use the rate in force on the trip date', () => {
+    expect(getMileageRate('2022-06-30').rate).toBe(0.585);
+    expect(getMileageRate('2022-07-01').rate).toBe(0.625);
+    expect(getMileageRate('2025-12-31').rate).toBe(0.70);
+  });
+
+  it('should share the return leg across business stops only', () => {
+    const trip = computeTripMileage([
+      { legMiles: 5, purpose: 'sourcing' },
+      { legMiles: 3, purpose: 'personal' },
+      { legMiles: 2, purpose: 'shipping' },
+    ], { roundTrip: true, returnMiles: 6 });
+
+    expect(trip.totalMiles).toBe(16);
+    expect(trip.deductibleMiles).toBe(13);
+    expect(trip.stops.map(s => s.allocatedMiles)).toEqual([8, 0, 5]);
+  });
+
+  it('should split a stop cost across items to the cent', () => {
+    const parts = splitMileageCost(10, 3);
+    expect(parts).toEqual([3.34, 3.33, 3.33]);
+    expect(parts.reduce((sum, p) => sum + p, 0)).toBeCloseTo(10, 2);
+  });
+
+  it('should put a trip and a purchase later that day in the same UTC day', () => {
+    const trip = getTripDayWindow(new Date('2026-05-02'));
+    const purchase = getTripDayWindow(new Date('2026-05-02T21:45:00Z'));
+
+    expect(purchase).toEqual(trip);
+    expect(trip.start.toISOString()).toBe('2026-05-02T00:00:00.000Z');
+    expect(trip.end.toISOString()).toBe('2026-05-03T00:00:00.000Z');
+  });
+
+  it('should store a purchase date as its calendar day at UTC midnight', () => {
+    expect(toCalendarDay('2026-05-02').toISOString()).toBe('2026-05-02T00:00:00.000Z');
+    expect(toCalendarDay(new Date('2026-05-02T21:45:00Z'))).toEqual(getTripDayWindow(new Date('2026-05-02')).start);
+    // Rate lookups read the same UTC day, whatever the server's time zone
+    expect(getMileageRate(toCalendarDay('2022-07-01')).rate).toBe(0.625);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Mileage - IRS Standard Rates & Trip Math
+ *
+ * RATES: IRS business standard mileage rate by effective date. The rate in
+ * force on the day of the drive applies, so mid-year changes (July 2022)
+ * are handled. The server always stamps the rate; client values are ignored.
+ *
+ * TRIPS: start → stop → stop → ... (→ start when round trip). Each stop
+ * records the leg miles from the previous point and may link to a sourcing
+ * location. Deductible miles:
+ * - A leg into a business stop is deductible; a leg into a personal stop is not
+ * - The return leg is deductible when the trip has any business stop, and is
+ *   shared evenly across the business stops
+ *
+ * Each business stop's allocated miles × rate is its mileage cost, which the
+ * server charges to inventory bought at that sourcing location on the trip day.
+ * Trip dates and purchase dates are calendar days stored as UTC midnight, so
+ * "the trip day" is the UTC day (getTripDayWindow).
+ */
+
+export interface MileageRatePeriod {
+  effectiveDate: string; // YYYY-MM-DD, rate applies from this day on
+  rate: number; // dollars per mile
+}
+
+// Keep sorted by effectiveDate; add new years as the IRS announces them
+export const IRS_MILEAGE_RATES: MileageRatePeriod[] = [
+  { effectiveDate: '2019-01-01', rate: 0.58 },
+  { effectiveDate: '2020-01-01', rate: 0.575 },
+  { effectiveDate: '2021-01-01', rate: 0.56 },
+  { effectiveDate: '2022-01-01', rate: 0.585 },
+  { effectiveDate: '2022-07-01', rate: 0.625 },
+  { effectiveDate: '2023-01-01', rate: 0.655 },
+  { effectiveDate: '2024-01-01', rate: 0.67 },
+  { effectiveDate: '2025-01-01', rate: 0.70 },
+  { effectiveDate: '2026-01-01', rate: 0.725 },
+];
+
+export const tripStopPurposes = ['sourcing', 'shipping', 'supplies', 'personal'] as const;
+export type TripStopPurpose = typeof tripStopPurposes[number];
+
+export interface TripStopMiles {
+  legMiles: number; // from the previous stop (or the start)
+  purpose: TripStopPurpose;
+}
+
+export interface TripMileage {
+  totalMiles: number;
+  deductibleMiles: number;
+  returnMiles: number;
+  stops: { legMiles: number; allocatedMiles: number }[];
+}
+
+function roundMiles(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toDayKey(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const month = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(d.getUTCDate()).padStart(2, '0');
+  return `${d.getUTCFullYear()}-${month}-${day}`;
+}
+
+/**
+ * IRS rate in force on a date. Dates before the table use its first rate.
+ */
+export function getMileageRate(date: Date | string): MileageRatePeriod {
+  const day = toDayKey(date);
+  let current = IRS_MILEAGE_RATES[0];
+  for (const period of IRS_MILEAGE_RATES) {
+    if (period.effectiveDate <= day) current = period;
+  }
+  return current;
+}
+
+export function calculateMileageDeduction(miles: number, rate: number): number {
+  return Math.round(miles * rate * 100) / 100;
+}
+
+export function isBusinessStop(purpose: TripStopPurpose): boolean {
+  return purpose !== 'personal';
+}
+
+/**
+ * Total and deductible miles for a trip, with each stop's share.
+ */
+export function computeTripMileage(
+  stops: TripStopMiles[],
+  options: { roundTrip: boolean; returnMiles?: number | null }
+): TripMileage {
+  const returnMiles = options.roundTrip ? Math.max(0, options.returnMiles ?? 0) : 0;
+  const businessStops = stops.filter(stop => isBusinessStop(stop.purpose)).length;
+  const returnShare = businessStops > 0 ? returnMiles / businessStops : 0;
+
+  const allocated = stops.map(stop => {
+    const legMiles = Math.max(0, stop.legMiles);
+    return {
+      legMiles: roundMiles(legMiles),
+      allocatedMiles: isBusinessStop(stop.purpose) ? roundMiles(legMiles + returnShare) : 0,
+    };
+  });
+
+  const legTotal = stops.reduce((sum, stop) => sum + Math.max(0, stop.legMiles), 0);
+  const deductibleLegs = stops
+    .filter(stop => isBusinessStop(stop.purpose))
+    .reduce((sum, stop) => sum + Math.max(0, stop.legMiles), 0);
+
+  return {
+    totalMiles: roundMiles(legTotal + returnMiles),
+    deductibleMiles: roundMiles(deductibleLegs + (businessStops > 0 ? returnMiles : 0)),
+    returnMiles: roundMiles(returnMiles),
+    stops: allocated,
+  };
+}
+
+/**
+ * The UTC calendar day a trip or purchase falls on: [start, end).
+ */
+export function getTripDayWindow(date: Date): { start: Date; end: Date } {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+/**
+ * A trip or purchase date as its calendar day (UTC midnight). A YYYY-MM-DD
+ * string is that day; a timestamp is the UTC day it falls on.
+ */
+export function toCalendarDay(date: Date | string): Date {
+  return getTripDayWindow(typeof date === 'string' ? new Date(date) : date).start;
+}
+
+/**
+ * Split a stop's mileage cost across the items bought there, in cents.
+ * Leftover cents go to the first items so the parts add up exactly.
+ */
+export function splitMileageCost(cost: number, itemCount: number): number[] {
+  if (itemCount <= 0) return [];
+  const cents = Math.round(cost * 100);
+  const base = Math.floor(cents / itemCount);
+  const remainder = cents - base * itemCount;
+  return Array.from({ length: itemCount }, (_, i) => (base + (i < remainder ? 1 : 0)) / 100);
+}
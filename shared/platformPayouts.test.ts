@@ -0,0 +1,43 @@
+/**
+ * Platform Payouts Tests
+ */
+
+import { comparePlatformPayouts, CHRONO24_ASKING_DISCOUNT, MIN_COMPS_FOR_RECOMMENDATION } from './platformPayouts';
+
+describe('Platform payouts', () => {
+  it('should discount asking prices before fees and shipping', () => {
+    const comparison = comparePlatformPayouts([
+      { platform: 'chrono24', expectedPrice: 1000, isAskingPrice: true, compCount: 6, source: 'chrono24_asking' },
+    ], { category: 'Watches', costBasis: 500 });
+
+    const chrono24 = comparison.platforms[0];
+    expect(chrono24.expectedPrice).toBe(1000 * CHRONO24_ASKING_DISCOUNT);
+    expect(chrono24.fees.totalFees).toBe(55.25);
+    expect(chrono24.shipping).toBe(25);
+    expect(chrono24.netPayout).toBe(769.75);
+    expect(chrono24.netProfit).toBe(269.75);
+  });
+
+  it('should sort by net payout and recommend the best platform with enough comps', () => {
+    const comparison = comparePlatformPayouts([
+      { platform: 'ebay', expectedPrice: 120, compCount: MIN_COMPS_FOR_RECOMMENDATION, source: 'ebay_sold' },
+      { platform: 'mercari', expectedPrice: 150, compCount: MIN_COMPS_FOR_RECOMMENDATION - 1, source: 'mercari_sold' },
+      { platform: 'poshmark', expectedPrice: null, compCount: 0, source: 'poshmark_sold' },
+    ]);
+
+    expect(comparison.platforms.map(p => p.platform)).toEqual(['mercari', 'ebay']);
+    expect(comparison.recommended).toBe('ebay');
+    expect(comparison.recommendationReason).toBe('eBay is the only platform with enough comps');
+  });
+
+  it('should not recommend a platform without enough comps', () => {
+    const comparison = comparePlatformPayouts([
+      { platform: 'ebay', expectedPrice: 120, compCount: 2, source: 'ebay_sold' },
+    ]);
+
+    expect(comparison.platforms).toHaveLength(1);
+    expect(comparison.recommended).toBeNull();
+    expect(comparison.recommendationReason).toBe(`Not enough comps to recommend a platform (need ${MIN_COMPS_FOR_RECOMMENDATION}+)`);
+    expect(comparePlatformPayouts([]).recommendationReason).toBe('No platform price data found');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Cross-Platform Net Payout
+ *
+ * Compares what an item nets on each marketplace we have price data for.
+ * Each platform's expected price comes from its own comps; fees come from
+ * the shared fee schedule and seller-paid shipping from TYPICAL_SELLER_SHIPPING.
+ * Asking-price sources (Chrono24) are discounted by CHRONO24_ASKING_DISCOUNT
+ * toward a realistic sale price first.
+ *
+ * The recommendation is the platform with the highest net payout, provided
+ * it is backed by at least MIN_COMPS_FOR_RECOMMENDATION comps.
+ */
+
+import { calculateFeeBreakdown, FEE_SCHEDULES, type FeeBreakdown, type FeePlatform } from './feeSchedule';
+
+// Typical seller-paid outbound shipping per platform (buyer-paid = 0)
+export const TYPICAL_SELLER_SHIPPING: Partial<Record<FeePlatform, number>> = {
+  ebay: 0, // buyer pays shipping (app default)
+  mercari: 8, // most Mercari sellers offer free shipping
+  poshmark: 0, // buyer pays the flat-rate label
+  facebook: 0,
+  offerup: 0,
+  stockx: 0, // prepaid label supplied by StockX
+  chrono24: 25, // insured watch shipping
+};
+
+// Chrono24 shows asking prices; discount them toward a realistic sale price
+export const CHRONO24_ASKING_DISCOUNT = 0.85;
+
+export const MIN_COMPS_FOR_RECOMMENDATION = 3;
+
+export interface PlatformPriceInput {
+  platform: FeePlatform;
+  expectedPrice: number | null; // median sold (or asking) price
+  isAskingPrice?: boolean; // expectedPrice is an asking price - discounted before fees
+  compCount: number;
+  source: string; // e.g. "ebay_sold", "mercari_sold", "chrono24_asking"
+}
+
+export interface PlatformPayout {
+  platform: FeePlatform;
+  label: string;
+  expectedPrice: number;
+  compCount: number;
+  source: string;
+  fees: FeeBreakdown;
+  shipping: number;
+  netPayout: number; // expectedPrice - fees - shipping
+  netProfit: number | null; // netPayout - cost basis (null when cost unknown)
+}
+
+export interface PlatformPayoutComparison {
+  platforms: PlatformPayout[]; // sorted by netPayout, highest first
+  recommended: FeePlatform | null;
+  recommendationReason: string;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function medianPrice(prices: number[]): number | null {
+  const valid = prices.filter(p => p > 0).sort((a, b) => a - b);
+  if (valid.length === 0) return null;
+  const mid = Math.floor(valid.length / 2);
+  return valid.length % 2 === 0 ? (valid[mid - 1] + valid[mid]) / 2 : valid[mid];
+}
+
+export function comparePlatformPayouts(
+  inputs: PlatformPriceInput[],
+  options: { category?: string | null; costBasis?: number | null } = {}
+): PlatformPayoutComparison {
+  const costBasis = options.costBasis ?? null;
+
+  const platforms: PlatformPayout[] = inputs
+    .filter(input => input.expectedPrice !== null && input.expectedPrice > 0)
+    .map(input => {
+      const expectedPrice = roundMoney(input.expectedPrice! * (input.isAskingPrice ? CHRONO24_ASKING_DISCOUNT : 1));
+      const fees = calculateFeeBreakdown({ platform: input.platform, category: options.category, salePrice: expectedPrice });
+      const shipping = TYPICAL_SELLER_SHIPPING[input.platform] ?? 0;
+      const netPayout = roundMoney(expectedPrice - fees.totalFees - shipping);
+      return {
+        platform: input.platform,
+        label: FEE_SCHEDULES[input.platform].label,
+        expectedPrice,
+        compCount: input.compCount,
+        source: input.source,
+        fees,
+        shipping,
+        netPayout,
+        netProfit: costBasis !== null ? roundMoney(netPayout - costBasis) : null,
+      };
+    })
+    .sort((a, b) => b.netPayout - a.netPayout);
+
+  const best = platforms.find(p => p.compCount >= MIN_COMPS_FOR_RECOMMENDATION);
+  if (!best) {
+    return {
+      platforms,
+      recommended: null,
+      recommendationReason: platforms.length === 0
+        ? 'No platform price data found'
+        : `Not enough comps to recommend a platform (need ${MIN_COMPS_FOR_RECOMMENDATION}+)`,
+    };
+  }
+
+  const runnerUp = platforms.find(p => p !== best && p.compCount >= MIN_COMPS_FOR_RECOMMENDATION);
+  const recommendationReason = runnerUp
+    ? `${best.label} nets $${(best.netPayout - runnerUp.netPayout).toFixed(2)} more than ${runnerUp.label}`
+    : `${best.label} is the only platform with enough comps`;
+
+  return { platforms, recommended: best.platform, recommendationReason };
+}
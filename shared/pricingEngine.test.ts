@@ -0,0 +1,29 @@
+/**
+ * Pricing Engine Tests
+ */
+
+import { calculatePricing, getTargetProfit, MIN_TARGET_PROFIT } from './pricingEngine';
+import { DEFAULT_DECISION_PROFILE } from './decisionEngine';
+
+describe('Pricing engine target profit', () => {
+  it('should keep the $15 floor for cheap items', () => {
+    expect(getTargetProfit(40)).toBe(MIN_TARGET_PROFIT);
+    expect(getTargetProfit(40, DEFAULT_DECISION_PROFILE)).toBe(MIN_TARGET_PROFIT);
+    expect(getTargetProfit(200)).toBe(50);
+  });
+
+  it('should let a profile raise the minimum and margin threshold', () => {
+    const profile = { ...DEFAULT_DECISION_PROFILE, version: 2, minNetProfit: 30, marginThreshold: 0.4 };
+
+    expect(getTargetProfit(40, profile)).toBe(30);
+    expect(getTargetProfit(200, profile)).toBe(80);
+  });
+
+  it('should price with the profile passed to calculatePricing', () => {
+    const profile = { ...DEFAULT_DECISION_PROFILE, version: 2, minNetProfit: 30, marginThreshold: 0.4 };
+    const base = { medianSoldPrice: 200, soldCompCount: 6, priceSource: 'sold_comps' as const };
+
+    expect(calculatePricing(base).targetProfit).toBe(50);
+    expect(calculatePricing({ ...base, profile }).targetProfit).toBe(80);
+  });
+});
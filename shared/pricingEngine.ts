@@ -11,6 +11,7 @@
  * 3. IQR trim
  * 4. Recompute trimmedMedian, CV, range
  * 5. Reject outliers again (2.5x/0.4x thresholds)
+ * 5.5. Recency-weighted median + price trend when sold dates are known (shared/compTrend.ts)
  * 6. Compute expectedResale (median)
  * 7. Apply category ceiling
  * 8. Apply sanity ratio clamp
@@ -23,18 +24,26 @@
  * 3. Max Buy Price = Net After Fees − Target Profit
  * 4. Target Profit = MAX($15, Expected Resale × 0.25)
  * 
+ * calculatePricing and the scan price guide pass the user's DecisionProfile to
+ * getTargetProfit, so its margin threshold and minimum net profit can raise
+ * the target.
+ * 
  * CONFIDENCE LEVELS (strict):
  * - HIGH: ≥5 comps + CV ≤ 0.30 + spread ≤ 2.2 + no ceiling/clamp applied
  * - MODERATE: 2-4 comps OR high variance OR ceiling applied
  * - LOW: 0-1 comps OR AI estimate OR sanity clamp applied
  */
 
+import type { DecisionProfile } from "./decisionEngine";
+import { analyzeCompTrend, type MarketTrend } from "./compTrend";
+
 // DEPRECATED: Use getCategoryFeeMultiplier(category) for category-specific fees
 // Kept for backward compatibility - default 13% fee (0.87 multiplier)
 export const PLATFORM_FEE_MULTIPLIER = 0.87;
 export const DEFAULT_SHIPPING_ALLOWANCE = 6; // $6 default
 
 // Category-specific fee rates - 6 core categories (Watches have higher processing fees)
+// Flat estimates only - itemized per-platform fees live in shared/feeSchedule.ts
 export const CATEGORY_FEE_RATES: Record<string, number> = {
   'Shoes': 0.13,
   'Watches': 0.15,
@@ -55,6 +64,15 @@ export function getCategoryFeeMultiplier(category?: string): number {
 export const MIN_TARGET_PROFIT = 15; // $15 minimum
 export const MIN_MARGIN_PERCENT = 0.25; // 25% minimum
 
+/**
+ * Target Profit = MAX($15 or profile minimum, margin threshold × expected resale)
+ * The $15 floor always applies; a profile can only raise it.
+ */
+export function getTargetProfit(expectedResale: number, profile?: DecisionProfile): number {
+  const percentBasedProfit = expectedResale * (profile?.marginThreshold ?? MIN_MARGIN_PERCENT);
+  return Math.max(MIN_TARGET_PROFIT, profile?.minNetProfit ?? 0, percentBasedProfit);
+}
+
 // Confidence thresholds
 export const HIGH_CONFIDENCE_MIN_COMPS = 5;
 export const HIGH_CONFIDENCE_MAX_CV = 0.30;
@@ -288,6 +306,8 @@ export interface CompProcessingResult {
   spread: number;
   lowComp: number;
   highComp: number;
+  weightedMedian: number; // recency-weighted median of finalComps (= trimmedMedian without dates)
+  trend: MarketTrend | null; // null when no sold dates were supplied
 }
 
 /**
@@ -326,7 +346,10 @@ export function normalizeResaleRange(
  * 
  * NEW: Step 1.5 - Percentile trim (15% top/bottom) when >5 comps
  */
-export function processComps(rawPrices: number[]): CompProcessingResult {
+export function processComps(
+  rawPrices: number[],
+  options?: { soldDates?: (string | null | undefined)[]; category?: string }
+): CompProcessingResult {
   const originalComps = rawPrices.filter(p => p > 0);
   
   if (originalComps.length === 0) {
@@ -339,6 +362,8 @@ export function processComps(rawPrices: number[]): CompProcessingResult {
       spread: Infinity,
       lowComp: 0,
       highComp: 0,
+      weightedMedian: 0,
+      trend: null,
     };
   }
   
@@ -359,6 +384,17 @@ export function processComps(rawPrices: number[]): CompProcessingResult {
   const lowComp = finalComps.length > 0 ? Math.min(...finalComps) : 0;
   const highComp = finalComps.length > 0 ? Math.max(...finalComps) : 0;
   
+  // Step 5.5: Recency weighting - only when sold dates line up with rawPrices.
+  // Trims are value-based, so the surviving comps are the ones inside [lowComp, highComp].
+  let trend: MarketTrend | null = null;
+  const soldDates = options?.soldDates;
+  if (soldDates && soldDates.length === rawPrices.length && finalComps.length > 0) {
+    const survivors = rawPrices
+      .map((price, i) => ({ price, dateSold: soldDates[i] }))
+      .filter(c => c.price > 0 && c.price >= lowComp && c.price <= highComp);
+    trend = analyzeCompTrend(survivors, { category: options?.category });
+  }
+  
   return {
     originalComps,
     iqrFilteredComps,
@@ -368,6 +404,8 @@ export function processComps(rawPrices: number[]): CompProcessingResult {
     spread,
     lowComp,
     highComp,
+    weightedMedian: trend && trend.datedCompCount > 0 ? trend.weightedMedian : trimmedMedian,
+    trend,
   };
 }
 
@@ -379,6 +417,7 @@ export interface PricingInput {
   shippingAllowance?: number;
   soldCompCount?: number;
   priceSource: PriceSource;
+  profile?: DecisionProfile; // user's margin threshold and minimum profit raise the target
 }
 
 export interface PricingResult {
@@ -421,6 +460,7 @@ export function calculatePricing(input: PricingInput): PricingResult {
     shippingAllowance: customShipping,
     soldCompCount: providedCount,
     priceSource,
+    profile,
   } = input;
 
   const shippingAllowance = customShipping ?? getShippingAllowance(category);
@@ -437,6 +477,8 @@ export function calculatePricing(input: PricingInput): PricingResult {
       iqrFilteredComps: [],
       finalComps: [],
       trimmedMedian: median,
+      weightedMedian: median,
+      trend: null,
       cv: 1,
       spread: Infinity,
       lowComp: median,
@@ -514,9 +556,8 @@ export function calculatePricing(input: PricingInput): PricingResult {
   const feeMultiplier = getCategoryFeeMultiplier(category);
   const netAfterFees = Math.round(expectedResale * feeMultiplier * 100) / 100;
 
-  // Target Profit = MAX($15, 25% of expected resale)
-  const percentBasedProfit = expectedResale * MIN_MARGIN_PERCENT;
-  const targetProfit = Math.max(MIN_TARGET_PROFIT, percentBasedProfit);
+  // Target Profit = MAX($15, 25% of expected resale), raised by the profile
+  const targetProfit = getTargetProfit(expectedResale, profile);
 
   // Max Buy = Net After Fees - Target Profit (with 20% safety reduction)
   let maxBuyPrice = Math.floor((netAfterFees - targetProfit) * 0.8);
@@ -0,0 +1,70 @@
+/**
+ * Receipts Tests
+ */
+
+import { normalizeReceiptExtraction, proposeFromReceipt } from './receipts';
+
+describe('Receipts', () => {
+  it('should split the receipt total across units so prices add up exactly', () => {
+    const extraction = normalizeReceiptExtraction({
+      merchant: 'Maple Street Estate Sale',
+      date: '2026-05-02',
+      subtotal: '$22.00',
+      tax: 1.54,
+      total: '23.54',
+      lineItems: [
+        { description: 'Pyrex bowl', quantity: 1, amount: 12 },
+        { description: 'Paperback books', quantity: 5, amount: '10' },
+      ],
+    });
+    const proposal = proposeFromReceipt(extraction);
+
+    expect(proposal.kind).toBe('inventory');
+    expect(proposal.items).toHaveLength(6);
+    expect(proposal.items.reduce((sum, item) => sum + item.purchasePrice, 0)).toBeCloseTo(23.54, 2);
+    expect(proposal.items[0].purchasePrice).toBeCloseTo(12.84, 2);
+    expect(proposal.warnings).toEqual([]);
+  });
+
+  it('should only charge proposed units their share when a line is capped', () => {
+    const proposal = proposeFromReceipt(normalizeReceiptExtraction({
+      merchant: 'Goodwill Bins',
+      total: 64.8,
+      lineItems: [{ description: 'Vintage tee', quantity: 60, amount: 60 }],
+    }));
+
+    expect(proposal.items).toHaveLength(50);
+    expect(proposal.items.every(item => item.purchasePrice === 1.08)).toBe(true);
+    expect(proposal.expense.amount).toBe(64.8);
+    expect(proposal.itemsTotal).toBe(54);
+    expect(proposal.warnings).toContain('Items not proposed account for $10.80 of the total - add them by hand.');
+  });
+
+  it('should only charge proposed units their share when the receipt is truncated', () => {
+    const proposal = proposeFromReceipt(normalizeReceiptExtraction({
+      merchant: 'Estate auction',
+      total: 240,
+      lineItems: [
+        { description: 'Pyrex bowl', quantity: 40, amount: 80 },
+        { description: 'Paperback books', quantity: 40, amount: 80 },
+        { description: 'Records', quantity: 40, amount: 80 },
+      ],
+    }));
+
+    expect(proposal.items).toHaveLength(100);
+    expect(proposal.items.reduce((sum, item) => sum + item.purchasePrice, 0)).toBeCloseTo(200, 2);
+    expect(proposal.warnings).toContain('Items not proposed account for $40.00 of the total - add them by hand.');
+  });
+
+  it('should suggest an expense category from the merchant', () => {
+    const proposal = proposeFromReceipt(normalizeReceiptExtraction({
+      merchant: 'USPS',
+      total: 18.4,
+      lineItems: [{ description: 'Priority mail boxes', amount: 18.4 }],
+    }));
+
+    expect(proposal.kind).toBe('expense');
+    expect(proposal.expense.category).toBe('shipping_supplies');
+    expect(proposal.expense.amount).toBe(18.4);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Receipts - OCR Normalization & Proposals
+ *
+ * A scanned receipt (merchant, date, totals, line items) becomes a proposal
+ * the user confirms before anything is saved:
+ * - EXPENSE: one businessExpenses row in the category the merchant and items
+ *   suggest (shipping store → shipping_supplies, office store → office_supplies, ...)
+ * - INVENTORY: one inventory item per unit bought, for sourcing receipts
+ *   (estate sales, thrift stores, auctions)
+ *
+ * INVENTORY COST BASIS: sales tax (and any receipt-level fee or discount) is
+ * part of what the items cost, so the receipt total is spread across the items
+ * in proportion to their line prices. Rounding leftovers go to the largest
+ * shares, so the purchase prices always add up to the receipt total exactly.
+ * When a receipt has more units than MAX_UNITS_PER_LINE or MAX_RECEIPT_ITEMS
+ * allow, the proposed items only get their own share; the rest of the total
+ * stays with the units that were left out.
+ */
+
+import type { ExpenseCategory } from './schema';
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  amount: number; // line total (quantity × unit price), before tax
+}
+
+export interface ReceiptExtraction {
+  merchant: string | null;
+  date: string | null; // YYYY-MM-DD
+  subtotal: number | null;
+  tax: number | null;
+  total: number | null;
+  lineItems: ReceiptLineItem[];
+}
+
+export const receiptProposalKinds = ['expense', 'inventory'] as const;
+export type ReceiptProposalKind = typeof receiptProposalKinds[number];
+
+export interface ReceiptItemProposal {
+  title: string;
+  basePrice: number; // unit price from the receipt
+  taxShare: number; // share of tax/fees/discounts
+  purchasePrice: number; // basePrice + taxShare
+}
+
+export interface ReceiptProposal {
+  kind: ReceiptProposalKind; // suggested; both shapes are always filled in
+  total: number;
+  itemsTotal: number; // what the proposed items cost - less than total when units were left out
+  expense: {
+    category: ExpenseCategory;
+    description: string;
+    amount: number;
+    date: string | null;
+  };
+  items: ReceiptItemProposal[];
+  warnings: string[];
+}
+
+export const MAX_RECEIPT_ITEMS = 100;
+const MAX_UNITS_PER_LINE = 50;
+
+// Merchants and words that mean "this receipt is inventory"
+const SOURCING_KEYWORDS = [
+  'estate', 'thrift', 'goodwill', 'savers', 'salvation army', 'value village',
+  'yard sale', 'garage sale', 'flea', 'auction', 'restore', 'consign', 'liquidat',
+  'bins', 'swap meet', 'rummage',
+];
+
+// Checked in order; first match wins
+const CATEGORY_KEYWORDS: { category: ExpenseCategory; keywords: string[] }[] = [
+  { category: 'shipping_supplies', keywords: ['usps', 'post office', 'postal', 'ups store', 'fedex', 'uline', 'pirate ship', 'mailer', 'bubble', 'packing', 'shipping', 'tape', 'box'] },
+  { category: 'office_supplies', keywords: ['staples', 'office depot', 'officemax', 'ink', 'toner', 'paper', 'pen', 'folder'] },
+  { category: 'storage', keywords: ['storage', 'cubesmart', 'extra space', 'shelving', 'shelf', 'bin', 'tote'] },
+  { category: 'equipment', keywords: ['best buy', 'camera', 'tripod', 'scale', 'light box', 'lightbox', 'ring light', 'printer', 'phone'] },
+  { category: 'software', keywords: ['subscription', 'software', 'app store', 'google play', 'license'] },
+  { category: 'education', keywords: ['course', 'book', 'udemy', 'class'] },
+];
+
+// Keywords match at the start of a word ("box" finds "boxes", not "xbox")
+function hasKeyword(text: string, keywords: string[]): boolean {
+  return keywords.some(keyword => new RegExp(`\\b${keyword}`).test(text));
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toDateString(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().split('T')[0];
+}
+
+/**
+ * Coerce whatever an OCR provider returned into a ReceiptExtraction.
+ * Money may arrive as "$1,234.50"; unreadable values become null.
+ */
+export function normalizeReceiptExtraction(raw: unknown): ReceiptExtraction {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const rawLines = Array.isArray(data.lineItems) ? data.lineItems : [];
+
+  const lineItems: ReceiptLineItem[] = [];
+  for (const entry of rawLines) {
+    if (!entry || typeof entry !== 'object') continue;
+    const line = entry as Record<string, unknown>;
+    const description = typeof line.description === 'string' ? line.description.trim() : '';
+    const amount = toNumber(line.amount);
+    if (!description || amount === null) continue;
+    const quantity = Math.max(1, Math.round(toNumber(line.quantity) ?? 1));
+    lineItems.push({ description, quantity, amount: roundCents(amount) });
+  }
+
+  const money = (key: string) => {
+    const value = toNumber(data[key]);
+    return value === null ? null : roundCents(value);
+  };
+
+  return {
+    merchant: typeof data.merchant === 'string' && data.merchant.trim() ? data.merchant.trim() : null,
+    date: toDateString(data.date),
+    subtotal: money('subtotal'),
+    tax: money('tax'),
+    total: money('total'),
+    lineItems,
+  };
+}
+
+/**
+ * What the receipt paid in total. Falls back to subtotal + tax, then the line items.
+ */
+export function getReceiptTotal(extraction: ReceiptExtraction): number {
+  if (extraction.total !== null && extraction.total > 0) return extraction.total;
+  const lineSum = extraction.lineItems.reduce((sum, line) => sum + line.amount, 0);
+  const subtotal = extraction.subtotal ?? lineSum;
+  return roundCents(subtotal + (extraction.tax ?? 0));
+}
+
+export function isSourcingReceipt(extraction: ReceiptExtraction): boolean {
+  const merchant = (extraction.merchant || '').toLowerCase();
+  return hasKeyword(merchant, SOURCING_KEYWORDS);
+}
+
+export function suggestExpenseCategory(extraction: ReceiptExtraction): ExpenseCategory {
+  const merchant = (extraction.merchant || '').toLowerCase();
+  const lines = extraction.lineItems.map(line => line.description.toLowerCase()).join(' ');
+
+  // Merchant name is the stronger signal; line items break ties
+  for (const text of [merchant, lines]) {
+    for (const { category, keywords } of CATEGORY_KEYWORDS) {
+      if (hasKeyword(text, keywords)) return category;
+    }
+  }
+  return 'other';
+}
+
+/**
+ * Spread a total across amounts in proportion, in cents, summing exactly.
+ * With no positive amounts the total is split evenly.
+ */
+export function allocateReceiptTotal(amounts: number[], total: number): number[] {
+  if (amounts.length === 0) return [];
+  const totalCents = Math.round(total * 100);
+  const base = amounts.reduce((sum, amount) => sum + Math.max(0, amount), 0);
+  const weights = base > 0 ? amounts.map(amount => Math.max(0, amount) / base) : amounts.map(() => 1 / amounts.length);
+
+  const exact = weights.map(weight => weight * totalCents);
+  const cents = exact.map(value => Math.floor(value));
+  let remainder = totalCents - cents.reduce((sum, value) => sum + value, 0);
+
+  // Largest remainder first; ties keep receipt order
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    cents[order[i].index] += 1;
+  }
+
+  return cents.map(value => value / 100);
+}
+
+/**
+ * Build the expense and inventory proposals for a scanned receipt.
+ */
+export function proposeFromReceipt(extraction: ReceiptExtraction): ReceiptProposal {
+  const warnings: string[] = [];
+  const total = getReceiptTotal(extraction);
+  if (extraction.total === null) {
+    warnings.push('No total found on the receipt - using the line items plus tax.');
+  }
+
+  // One inventory item per unit; discounts and other non-positive lines only move the total
+  const units: { title: string; basePrice: number }[] = [];
+  let omittedBase = 0; // line value of units past the caps
+  for (const line of extraction.lineItems) {
+    if (line.amount <= 0) continue;
+    const quantity = Math.min(line.quantity, MAX_UNITS_PER_LINE);
+    const unitPrice = roundCents(line.amount / line.quantity);
+    if (quantity < line.quantity) {
+      warnings.push(`"${line.description}" lists ${line.quantity} units - only the first ${MAX_UNITS_PER_LINE} were split out.`);
+      omittedBase += line.amount - unitPrice * quantity;
+    }
+    for (let i = 0; i < quantity; i++) {
+      units.push({ title: line.description, basePrice: unitPrice });
+    }
+  }
+  if (units.length > MAX_RECEIPT_ITEMS) {
+    warnings.push(`Receipt has ${units.length} items - only the first ${MAX_RECEIPT_ITEMS} are proposed.`);
+    omittedBase += units.slice(MAX_RECEIPT_ITEMS).reduce((sum, unit) => sum + unit.basePrice, 0);
+    units.length = MAX_RECEIPT_ITEMS;
+  }
+  if (units.length === 0) {
+    warnings.push('No line items could be read - add items by hand or save it as an expense.');
+  }
+
+  const lineSum = roundCents(extraction.lineItems.reduce((sum, line) => sum + line.amount, 0));
+  if (extraction.subtotal !== null && Math.abs(extraction.subtotal - lineSum) > 0.01 && extraction.lineItems.length > 0) {
+    warnings.push(`Line items add up to $${lineSum.toFixed(2)} but the subtotal reads $${extraction.subtotal.toFixed(2)}.`);
+  }
+
+  // Units left out keep their share of the total, so the proposed items
+  // aren't charged for them
+  const amounts = units.map(unit => unit.basePrice);
+  const shares = allocateReceiptTotal(omittedBase > 0 ? [...amounts, omittedBase] : amounts, total);
+  const prices = shares.slice(0, units.length);
+  const itemsTotal = roundCents(prices.reduce((sum, price) => sum + price, 0));
+  if (omittedBase > 0 && units.length > 0) {
+    warnings.push(`Items not proposed account for $${roundCents(total - itemsTotal).toFixed(2)} of the total - add them by hand.`);
+  }
+  const items = units.map((unit, i) => ({
+    title: unit.title,
+    basePrice: unit.basePrice,
+    taxShare: roundCents(prices[i] - unit.basePrice),
+    purchasePrice: prices[i],
+  }));
+
+  const category = suggestExpenseCategory(extraction);
+  const merchant = extraction.merchant || 'Receipt';
+  const description = extraction.lineItems.length === 1
+    ? `${merchant}: ${extraction.lineItems[0].description}`
+    : merchant;
+
+  return {
+    kind: isSourcingReceipt(extraction) ? 'inventory' : 'expense',
+    total,
+    itemsTotal,
+    expense: {
+      category,
+      description: description.slice(0, 500),
+      amount: total,
+      date: extraction.date,
+    },
+    items,
+    warnings,
+  };
+}
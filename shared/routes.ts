@@ -1,5 +1,16 @@
 import { z } from 'zod';
-import { items, inventoryItems, inventoryStatuses, businessExpenses, sourcingLocations } from './schema';
+import { items, inventoryItems, inventoryStatuses, inventoryStatusHistory, businessExpenses, sourcingLocations, decisionProfiles, subscriptionTiers, auctionWatches, priceAlerts, priceAlertListings, scanCategories, type MileageTripWithStops, type Receipt, type AgingRecommendation, type AgingRecommendationWithItem } from './schema';
+import type { ReplayResult } from './decisionReplay';
+import { tripStopPurposes } from './mileage';
+import { MAX_RECEIPT_ITEMS, type ReceiptProposal } from './receipts';
+import { lotAllocationMethods, type LotSummary } from './lots';
+import type { CashFlowForecast } from './cashFlowForecast';
+import type { SourcingScorecardsResponse } from './sourcingScorecards';
+import { importFields, importFormats, MAX_IMPORT_CSV_LENGTH, type ImportPreview } from './inventoryImport';
+import { exportDatasets, exportFileFormats, journalStyles } from './dataExport';
+import { savedSearchConditions } from './savedSearch';
+import { DEFAULT_SNIPE_REMINDER_MINUTES, SNIPE_REMINDER_MINUTES, type SnipePlanResponse } from './snipePlanner';
+import { analyticsIntervals, analyticsSlices, MAX_ANALYTICS_PERIODS, type AnalyticsSeriesResponse, type SalesBreakdown } from './analytics';
 
 export const expenseCategories = [
   'mileage',
@@ -30,6 +41,7 @@ export const salePlatforms = [
   'facebook',
   'offerup',
   'whatnot',
+  'stockx',
   'other',
 ] as const;
 
@@ -44,8 +56,75 @@ export const errorSchemas = {
   internal: z.object({
     message: z.string(),
   }),
+  conflict: z.object({
+    message: z.string(),
+  }),
 };
 
+export const decisionProfileInput = z.object({
+  marginThreshold: z.number().min(0.05).max(0.9),
+  minNetProfit: z.number().min(0).max(10000),
+  fixedCosts: z.number().min(0).max(1000),
+  defaultOutboundShipping: z.number().min(0).max(1000),
+  defaultPlatform: z.enum(salePlatforms),
+  platformFeeRates: z.record(z.enum(salePlatforms), z.number().min(0).max(0.5)),
+});
+
+export const mileageTripInput = z.object({
+  date: z.string(), // YYYY-MM-DD
+  startLocation: z.string().min(1).max(100).default('Home'),
+  roundTrip: z.boolean().default(true),
+  returnMiles: z.number().min(0).max(1000).optional().nullable(),
+  notes: z.string().max(500).optional().nullable(),
+  stops: z.array(z.object({
+    sourcingLocationId: z.number().int().optional().nullable(),
+    label: z.string().max(100).optional().nullable(), // required when no sourcing location
+    purpose: z.enum(tripStopPurposes).default('sourcing'),
+    legMiles: z.number().min(0).max(1000),
+  })).min(1).max(20),
+});
+
+// Confirming a scanned receipt - the user may have edited the proposal
+export const receiptApplyInput = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('expense'),
+    category: z.enum(expenseCategories),
+    description: z.string().min(1).max(500),
+    amount: z.string(),
+    date: z.string(), // YYYY-MM-DD
+    notes: z.string().max(1000).optional().nullable(),
+  }),
+  z.object({
+    kind: z.literal('inventory'),
+    purchaseDate: z.string(), // YYYY-MM-DD
+    category: z.string().max(100).optional().nullable(),
+    sourceLocationId: z.number().int().optional().nullable(),
+    items: z.array(z.object({
+      title: z.string().min(1).max(300),
+      purchasePrice: z.string(),
+    })).min(1).max(MAX_RECEIPT_ITEMS),
+  }),
+]);
+
+const lotItemInput = z.object({
+  title: z.string().min(1).max(300),
+  estimatedResale: z.string().optional().nullable(),
+  allocationWeight: z.number().min(0).max(10000).optional().nullable(),
+  category: z.string().max(100).optional().nullable(),
+  condition: z.string().max(100).optional().nullable(),
+});
+
+export const lotInput = z.object({
+  name: z.string().min(1).max(200),
+  totalCost: z.string(),
+  tax: z.string().optional().nullable(),
+  sourceLocationId: z.number().int().optional().nullable(),
+  purchaseDate: z.string().optional(), // YYYY-MM-DD, defaults to today
+  allocationMethod: z.enum(lotAllocationMethods).default('even'),
+  notes: z.string().max(1000).optional().nullable(),
+  items: z.array(lotItemInput).max(200).default([]),
+});
+
 export const api = {
   auth: {
     register: {
@@ -127,6 +206,7 @@ export const api = {
         watchDialStyle: z.string().nullable().optional(),
         watchBezelColor: z.string().nullable().optional(),
         scanMode: z.enum(['flip', 'buy']).optional(),
+        sourceLocationId: z.number().int().optional().nullable(),
       }),
       responses: {
         200: z.custom<typeof items.$inferSelect>(),
@@ -194,6 +274,7 @@ export const api = {
         imageUrl: z.string().optional().nullable(),
         estimatedResale: z.string().optional().nullable(),
         purchasePrice: z.string(),
+        purchaseDate: z.string().optional(), // YYYY-MM-DD, defaults to today
         feesEstimate: z.string().optional().nullable(),
         shippingEstimate: z.string().optional().nullable(),
         condition: z.string().optional().nullable(),
@@ -216,8 +297,10 @@ export const api = {
       path: '/api/inventory/:id',
       input: z.object({
         status: z.enum(inventoryStatuses).optional(),
+        statusNote: z.string().max(500).optional().nullable(), // recorded in the status history
         listedDate: z.string().optional().nullable(),
         soldDate: z.string().optional().nullable(),
+        purchaseDate: z.string().optional(), // YYYY-MM-DD
         actualSalePrice: z.string().optional().nullable(),
         outboundShippingActual: z.string().optional().nullable(),
         notes: z.string().optional().nullable(),
@@ -229,6 +312,16 @@ export const api = {
       }),
       responses: {
         200: z.custom<typeof inventoryItems.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    history: {
+      method: 'GET' as const,
+      path: '/api/inventory/:id/history',
+      responses: {
+        200: z.array(z.custom<typeof inventoryStatusHistory.$inferSelect>()),
         404: errorSchemas.notFound,
       },
     },
@@ -240,6 +333,60 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    import: {
+      method: 'POST' as const,
+      path: '/api/inventory/import',
+      // CSV text; a dry run only previews, otherwise the "new" rows are saved
+      input: z.object({
+        csv: z.string().min(1).max(MAX_IMPORT_CSV_LENGTH),
+        format: z.enum(['auto', ...importFormats]).default('auto'),
+        mapping: z.record(z.enum(importFields), z.string()).optional(),
+        dryRun: z.boolean().default(true),
+      }),
+      responses: {
+        200: z.object({
+          preview: z.custom<ImportPreview>(),
+          imported: z.number(),
+        }),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  aging: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/inventory/aging',
+      responses: {
+        200: z.array(z.custom<AgingRecommendationWithItem>()),
+      },
+    },
+    run: {
+      method: 'POST' as const,
+      path: '/api/inventory/aging/run',
+      responses: {
+        200: z.object({ stale: z.number(), updated: z.number(), created: z.number() }),
+      },
+    },
+    apply: {
+      method: 'POST' as const,
+      path: '/api/inventory/aging/:id/apply',
+      input: z.object({
+        price: z.number().positive().max(1000000).optional(), // markdown only; defaults to the suggested price
+      }),
+      responses: {
+        200: z.custom<AgingRecommendation>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    dismiss: {
+      method: 'POST' as const,
+      path: '/api/inventory/aging/:id/dismiss',
+      responses: {
+        200: z.custom<AgingRecommendation>(),
+        404: errorSchemas.notFound,
+      },
+    },
   },
   expenses: {
     list: {
@@ -300,6 +447,271 @@ export const api = {
       },
     },
   },
+  decisionProfile: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/decision-profile',
+      responses: {
+        200: z.object({
+          version: z.number(),
+          marginThreshold: z.number(),
+          minNetProfit: z.number(),
+          fixedCosts: z.number(),
+          defaultOutboundShipping: z.number(),
+          defaultPlatform: z.string(),
+          platformFeeRates: z.record(z.number()),
+        }),
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/decision-profile',
+      input: decisionProfileInput,
+      responses: {
+        200: z.object({ version: z.number() }),
+        400: errorSchemas.validation,
+      },
+    },
+    history: {
+      method: 'GET' as const,
+      path: '/api/decision-profile/history',
+      responses: {
+        200: z.array(z.custom<typeof decisionProfiles.$inferSelect>()),
+      },
+    },
+    replay: {
+      method: 'POST' as const,
+      path: '/api/decision-profile/replay',
+      // Proposed thresholds; omitted fields fall back to the active profile
+      input: decisionProfileInput.partial(),
+      responses: {
+        200: z.custom<ReplayResult>(),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  mileage: {
+    rate: {
+      method: 'GET' as const,
+      path: '/api/mileage/rate',
+      responses: {
+        200: z.object({ effectiveDate: z.string(), rate: z.number() }),
+      },
+    },
+    trips: {
+      method: 'GET' as const,
+      path: '/api/mileage/trips',
+      responses: {
+        200: z.array(z.custom<MileageTripWithStops>()),
+      },
+    },
+    createTrip: {
+      method: 'POST' as const,
+      path: '/api/mileage/trips',
+      input: mileageTripInput,
+      responses: {
+        201: z.custom<MileageTripWithStops>(),
+        400: errorSchemas.validation,
+      },
+    },
+    updateTrip: {
+      method: 'PUT' as const,
+      path: '/api/mileage/trips/:id',
+      input: mileageTripInput,
+      responses: {
+        200: z.custom<MileageTripWithStops>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    deleteTrip: {
+      method: 'DELETE' as const,
+      path: '/api/mileage/trips/:id',
+      responses: {
+        200: z.object({ success: z.boolean() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    byLocation: {
+      method: 'GET' as const,
+      path: '/api/mileage/locations',
+      responses: {
+        200: z.array(z.object({
+          sourcingLocationId: z.number(),
+          tripCount: z.number(),
+          miles: z.number(),
+          mileageCost: z.number(),
+          itemsCharged: z.number(),
+          inventoryCost: z.number(),
+        })),
+      },
+    },
+  },
+  analytics: {
+    summary: {
+      method: 'GET' as const,
+      path: '/api/analytics',
+      responses: {
+        200: z.custom<SalesBreakdown>(),
+      },
+    },
+    series: {
+      method: 'GET' as const,
+      path: '/api/analytics/series',
+      // Query string; from/to override the default "last N periods" range
+      input: z.object({
+        interval: z.enum(analyticsIntervals).default('week'),
+        slice: z.enum(analyticsSlices).default('none'),
+        periods: z.coerce.number().int().min(1).max(MAX_ANALYTICS_PERIODS).default(12),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        limit: z.coerce.number().int().min(1).max(20).optional(),
+      }),
+      responses: {
+        200: z.custom<AnalyticsSeriesResponse>(),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  forecast: {
+    cashFlow: {
+      method: 'GET' as const,
+      path: '/api/forecast/cash-flow',
+      responses: {
+        200: z.custom<CashFlowForecast>(),
+      },
+    },
+  },
+  lots: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/lots',
+      responses: {
+        200: z.array(z.custom<LotSummary>()),
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/lots/:id',
+      responses: {
+        200: z.custom<LotSummary>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/lots',
+      input: lotInput,
+      responses: {
+        201: z.custom<LotSummary>(),
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/lots/:id',
+      input: lotInput.omit({ items: true, allocationMethod: true }).partial().extend({
+        allocationMethod: z.enum(lotAllocationMethods).optional(),
+      }),
+      responses: {
+        200: z.custom<LotSummary>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/lots/:id',
+      responses: {
+        200: z.object({ success: z.boolean() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    addItems: {
+      method: 'POST' as const,
+      path: '/api/lots/:id/items',
+      input: z.object({
+        itemIds: z.array(z.number().int()).max(200).default([]), // existing inventory items
+        items: z.array(lotItemInput).max(200).default([]), // new items
+      }),
+      responses: {
+        200: z.custom<LotSummary>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    removeItem: {
+      method: 'DELETE' as const,
+      path: '/api/lots/:id/items/:itemId',
+      responses: {
+        200: z.custom<LotSummary>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    setWeights: {
+      method: 'PUT' as const,
+      path: '/api/lots/:id/weights',
+      input: z.object({
+        weights: z.array(z.object({
+          itemId: z.number().int(),
+          weight: z.number().min(0).max(10000),
+        })).min(1).max(200),
+      }),
+      responses: {
+        200: z.custom<LotSummary>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  receipts: {
+    uploadUrl: {
+      method: 'POST' as const,
+      path: '/api/receipts/upload-url',
+      responses: {
+        200: z.object({ uploadURL: z.string(), objectPath: z.string() }),
+      },
+    },
+    scan: {
+      method: 'POST' as const,
+      path: '/api/receipts/scan',
+      input: z.object({
+        objectPath: z.string().startsWith('/objects/'),
+      }),
+      responses: {
+        201: z.object({
+          receipt: z.custom<Receipt>(),
+          proposal: z.custom<ReceiptProposal>(),
+        }),
+        400: errorSchemas.validation,
+        503: errorSchemas.internal,
+      },
+    },
+    list: {
+      method: 'GET' as const,
+      path: '/api/receipts',
+      responses: {
+        200: z.array(z.custom<Receipt>()),
+      },
+    },
+    image: {
+      method: 'GET' as const,
+      path: '/api/receipts/:id/image',
+    },
+    apply: {
+      method: 'POST' as const,
+      path: '/api/receipts/:id/apply',
+      input: receiptApplyInput,
+      responses: {
+        201: z.object({
+          expense: z.custom<typeof businessExpenses.$inferSelect>().optional(),
+          items: z.array(z.custom<typeof inventoryItems.$inferSelect>()).optional(),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
   sourcingLocations: {
     list: {
       method: 'GET' as const,
@@ -344,6 +756,179 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    scorecards: {
+      method: 'GET' as const,
+      path: '/api/sourcing-locations/scorecards',
+      // Query string; tz is the IANA time zone for the day/time heatmap
+      input: z.object({
+        tz: z.string().max(64).optional(),
+      }),
+      responses: {
+        200: z.custom<SourcingScorecardsResponse>(),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  extension: {
+    // Chrome extension token - status, issue (replaces any previous one), revoke
+    token: {
+      method: 'GET' as const,
+      path: '/api/extension/token',
+      responses: {
+        200: z.object({
+          hasToken: z.boolean(),
+          createdAt: z.string().nullable(),
+          lastUsedAt: z.string().nullable(),
+        }),
+      },
+    },
+    createToken: {
+      method: 'POST' as const,
+      path: '/api/extension/token',
+      responses: {
+        // The token is only ever returned here
+        200: z.object({ token: z.string(), createdAt: z.string() }),
+      },
+    },
+    revokeToken: {
+      method: 'DELETE' as const,
+      path: '/api/extension/token',
+      responses: {
+        200: z.object({ success: z.boolean() }),
+      },
+    },
+    // Called by the extension with `Authorization: Bearer <token>`
+    me: {
+      method: 'GET' as const,
+      path: '/api/extension/me',
+      responses: {
+        200: z.object({
+          username: z.string(),
+          tier: z.enum(subscriptionTiers),
+          scansRemaining: z.number(),
+          scansLimit: z.number(),
+        }),
+        401: errorSchemas.notFound,
+      },
+    },
+  },
+  priceAlerts: {
+    // Saved search - alert on new listings that would be a FLIP (server/price-alert-checker.ts)
+    createSearch: {
+      method: 'POST' as const,
+      path: '/api/price-alerts/searches',
+      input: z.object({
+        searchQuery: z.string().trim().min(2, "Enter at least 2 characters").max(120),
+        category: z.enum(scanCategories).default('Other'),
+        condition: z.enum(savedSearchConditions).default('any'),
+        maxPrice: z.number().positive().max(100000).optional(),
+        minMarginPercent: z.number().min(0).max(90).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof priceAlerts.$inferSelect>(),
+        400: errorSchemas.validation,
+      },
+    },
+    // Deals a saved search has notified about, newest first
+    listings: {
+      method: 'GET' as const,
+      path: '/api/price-alerts/:id/listings',
+      responses: {
+        200: z.array(z.custom<typeof priceAlertListings.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  snipe: {
+    // Item comes from scan history; current bid, bid count, end time and
+    // shipping default to the live eBay listing when the scan has one
+    plan: {
+      method: 'POST' as const,
+      path: '/api/snipe/plan',
+      input: z.object({
+        itemId: z.number().int(),
+        currentBid: z.number().min(0).max(1000000).optional(),
+        bidCount: z.number().int().min(0).optional(),
+        shipping: z.number().min(0).max(10000).optional(),
+        endsAt: z.string().datetime().optional(),
+      }),
+      responses: {
+        200: z.custom<SnipePlanResponse>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    settings: {
+      method: 'GET' as const,
+      path: '/api/snipe/settings',
+      responses: {
+        200: z.object({ salesTaxRate: z.number() }),
+      },
+    },
+    updateSettings: {
+      method: 'PUT' as const,
+      path: '/api/snipe/settings',
+      input: z.object({
+        salesTaxRate: z.number().min(0).max(0.2), // 0.0825 = 8.25%
+      }),
+      responses: {
+        200: z.object({ salesTaxRate: z.number() }),
+        400: errorSchemas.validation,
+      },
+    },
+    watches: {
+      method: 'GET' as const,
+      path: '/api/snipe/watches',
+      responses: {
+        200: z.array(z.custom<typeof auctionWatches.$inferSelect>()),
+      },
+    },
+    saveWatch: {
+      method: 'POST' as const,
+      path: '/api/snipe/watches',
+      input: z.object({
+        itemId: z.number().int(),
+        currentBid: z.number().min(0).max(1000000),
+        bidCount: z.number().int().min(0).default(0),
+        shipping: z.number().min(0).max(10000).default(0),
+        endsAt: z.string().datetime(),
+        remindMinutesBefore: z.number().int().refine(
+          (minutes) => (SNIPE_REMINDER_MINUTES as readonly number[]).includes(minutes),
+          { message: "Unsupported reminder time" }
+        ).default(DEFAULT_SNIPE_REMINDER_MINUTES),
+      }),
+      responses: {
+        200: z.custom<typeof auctionWatches.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    deleteWatch: {
+      method: 'DELETE' as const,
+      path: '/api/snipe/watches/:id',
+      responses: {
+        200: z.object({ success: z.boolean() }),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  exports: {
+    download: {
+      method: 'GET' as const,
+      path: '/api/export/download',
+      // Query string; streams a file attachment (CSV, XLSX or JSON)
+      input: z.object({
+        dataset: z.enum(exportDatasets),
+        format: z.enum(exportFileFormats).default('csv'),
+        journalStyle: z.enum(journalStyles).default('quickbooks'),
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        category: z.string().min(1).max(100).optional(),
+      }),
+      responses: {
+        400: errorSchemas.validation,
+      },
+    },
   },
 };
 
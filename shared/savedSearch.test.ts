@@ -0,0 +1,35 @@
+/**
+ * Saved Search Tests
+ */
+
+import { DEFAULT_DECISION_PROFILE } from './decisionEngine';
+import { decideSavedSearchListing } from './savedSearch';
+
+describe('Saved search alerts', () => {
+  const criteria = { category: 'Watches', maxPrice: 100, minMarginPercent: null };
+  const comps = { medianPrice: 200, soldCount: 8 };
+
+  it('should flag a FLIP within the max price as a deal', () => {
+    const result = decideSavedSearchListing({ price: 60, shippingIn: 0 }, criteria, comps, DEFAULT_DECISION_PROFILE);
+    expect(result.isDeal).toBe(true);
+    expect(result.decision.verdict).toBe('flip');
+    expect(result.decision.marginPercent).toBe(54.8);
+  });
+
+  it('should hold a FLIP to the search minimum margin and max price', () => {
+    expect(decideSavedSearchListing({ price: 60, shippingIn: 0 }, { ...criteria, minMarginPercent: 60 }, comps, DEFAULT_DECISION_PROFILE))
+      .toMatchObject({ isDeal: false, reason: 'Margin 54.8% under 60%' });
+    expect(decideSavedSearchListing({ price: 120, shippingIn: 0 }, criteria, { medianPrice: 400, soldCount: 8 }, DEFAULT_DECISION_PROFILE).isDeal)
+      .toBe(false);
+  });
+
+  it('should not notify on SKIPs or listings without comps', () => {
+    const skip = decideSavedSearchListing({ price: 60, shippingIn: 0 }, criteria, { medianPrice: 70, soldCount: 8 }, DEFAULT_DECISION_PROFILE);
+    expect(skip.isDeal).toBe(false);
+    expect(skip.decision.verdict).toBe('skip');
+
+    const noComps = decideSavedSearchListing({ price: 60, shippingIn: 0 }, criteria, { medianPrice: null, soldCount: 0 }, DEFAULT_DECISION_PROFILE);
+    expect(noComps.isDeal).toBe(false);
+    expect(noComps.decision.dataSourceConfidence).toBe('none');
+  });
+});
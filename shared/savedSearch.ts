@@ -0,0 +1,78 @@
+/**
+ * Saved Search Alerts - new eBay listings that would be a FLIP
+ *
+ * A saved search is a price alert with a query instead of one eBay item:
+ * query, category, condition, max listing price and an optional minimum
+ * margin. The checker pulls new listings for it, prices each one through the
+ * comp providers and decides it with calculateDecision at the listing price
+ * (plus shipping) and the user's decision profile.
+ *
+ * A listing is a deal when:
+ * 1. It's within the max price (listing price, before shipping)
+ * 2. The verdict is FLIP - the profile's margin and profit gates passed
+ * 3. The margin also clears the search's minMarginPercent, when set
+ *
+ * Comp confidence follows the sold comp count: MIN_CONFIDENT_COMPS or more
+ * is high, fewer is low, none means no verdict.
+ */
+
+import { calculateDecision, type DecisionProfile, type DecisionResult } from './decisionEngine';
+
+export const savedSearchConditions = ['any', 'new', 'used'] as const;
+export type SavedSearchCondition = typeof savedSearchConditions[number];
+
+export const MIN_CONFIDENT_COMPS = 5;
+export const MAX_SAVED_SEARCHES = 10; // per user - each one costs comp lookups every cycle
+
+export interface SavedSearchCriteria {
+  category: string;
+  maxPrice: number | null;
+  minMarginPercent: number | null; // 30 = 30%
+}
+
+export interface SavedSearchListing {
+  price: number;
+  shippingIn: number;
+}
+
+export interface SavedSearchComps {
+  medianPrice: number | null;
+  soldCount: number;
+}
+
+export interface SavedSearchDecision {
+  decision: DecisionResult;
+  isDeal: boolean;
+  reason: string;
+}
+
+export function decideSavedSearchListing(
+  listing: SavedSearchListing,
+  criteria: SavedSearchCriteria,
+  comps: SavedSearchComps,
+  profile: DecisionProfile
+): SavedSearchDecision {
+  const hasComps = comps.medianPrice !== null && comps.medianPrice > 0 && comps.soldCount > 0;
+  const decision = calculateDecision({
+    buyPrice: listing.price,
+    shippingIn: listing.shippingIn,
+    expectedSalePrice: hasComps ? comps.medianPrice : null,
+    profile,
+    salePlatform: profile.defaultPlatform,
+    category: criteria.category,
+    dataSourceConfidence: !hasComps ? 'none' : comps.soldCount >= MIN_CONFIDENT_COMPS ? 'high' : 'low',
+    compCount: comps.soldCount,
+    compConfidence: comps.soldCount >= MIN_CONFIDENT_COMPS ? 'high' : 'low',
+  });
+
+  if (criteria.maxPrice !== null && listing.price > criteria.maxPrice) {
+    return { decision, isDeal: false, reason: `Over max price ($${criteria.maxPrice.toFixed(2)})` };
+  }
+  if (decision.verdict !== 'flip') {
+    return { decision, isDeal: false, reason: decision.skipReason ? `${decision.label} (${decision.skipReason})` : decision.label };
+  }
+  if (criteria.minMarginPercent !== null && decision.marginPercent < criteria.minMarginPercent) {
+    return { decision, isDeal: false, reason: `Margin ${decision.marginPercent}% under ${criteria.minMarginPercent}%` };
+  }
+  return { decision, isDeal: true, reason: `${decision.marginPercent}% margin` };
+}
@@ -0,0 +1,35 @@
+/**
+ * Schedule C Tests
+ */
+
+import { buildScheduleC } from './scheduleC';
+
+describe('Schedule C', () => {
+  const inventory = [
+    { id: 1, title: 'Lamp', status: 'sold', purchasePrice: '10', purchaseDate: '2024-06-01T12:00:00', soldDate: '2025-03-01T12:00:00', actualSalePrice: '50', platformFeeActual: '6.50', outboundShippingActual: '8' },
+    { id: 2, title: 'Jacket', status: 'listed', purchasePrice: '20', purchaseDate: '2025-02-01T12:00:00' },
+    { id: 3, title: 'Mug', status: 'written_off', purchasePrice: '5', purchaseDate: '2025-01-05T12:00:00', disposedDate: '2025-05-01T12:00:00' },
+    { id: 4, title: 'Shoes', status: 'delivered', purchasePrice: '30', purchaseDate: '2025-04-01T12:00:00', soldDate: '2026-01-03T12:00:00', actualSalePrice: '90' },
+  ];
+
+  it('should compute COGS from beginning and ending inventory', () => {
+    const report = buildScheduleC(2025, inventory, []);
+
+    expect(report.cogs.beginningInventory).toBe(10);
+    expect(report.cogs.purchases).toBe(55);
+    expect(report.cogs.endingInventory).toBe(50); // jacket + shoes sold next year
+    expect(report.cogs.costOfGoodsSold).toBe(15); // lamp + written-off mug
+    expect(report.income.grossReceipts).toBe(50);
+  });
+
+  it('should map expenses to lines and exclude inventory cost', () => {
+    const report = buildScheduleC(2025, inventory, [
+      { id: 1, category: 'mileage', description: 'Trip', amount: '14', date: '2025-03-01T12:00:00' },
+      { id: 2, category: 'inventory_cost', description: 'Bulk lot', amount: '100', date: '2025-03-02T12:00:00' },
+    ]);
+
+    expect(report.expenseLines.map(l => [l.line, l.amount])).toEqual([['9', 14], ['10', 6.5], ['27a', 8]]);
+    expect(report.excludedExpenses.amount).toBe(100);
+    expect(report.netProfit).toBe(50 - 15 - 28.5);
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Schedule C Tax Engine
+ *
+ * Builds a Schedule C (Profit or Loss From Business) for one tax year from
+ * inventory items and business expenses - never from scan records.
+ *
+ * INCOME (Part I):
+ * - Line 1 gross receipts = actual sale price of items sold in the year
+ *   (sold / shipped / delivered with a soldDate in the year)
+ * - Line 4 = COGS from Part III
+ *
+ * COST OF GOODS SOLD (Part III), at cost:
+ * - Line 35 beginning inventory = items on hand at Jan 1
+ * - Line 36 purchases = items bought during the year
+ * - Line 41 ending inventory = items on hand at Dec 31
+ * - Line 42 COGS = 35 + 36 - 41 (sold, donated and written-off items leave
+ *   inventory on their sold/disposed date)
+ *
+ * EXPENSES (Part II):
+ * - Each expense category maps to one line (EXPENSE_CATEGORY_LINES)
+ * - Platform fees on sales go to line 10 (actual fee, else the fee schedule)
+ * - Outbound shipping on sales goes to line 27a (actual, else the estimate)
+ * - 'inventory_cost' expenses are excluded: COGS already comes from inventory
+ *
+ * Dates are compared in local time, matching how the app stamps them.
+ */
+
+import { calculateFeeBreakdown } from './feeSchedule';
+import { isDisposedStatus, isSoldStatus } from './inventoryLifecycle';
+import type { ExpenseCategory } from './schema';
+
+export type ScheduleCLine = '9' | '10' | '13' | '18' | '20b' | '22' | '27a';
+
+export const SCHEDULE_C_LINES: Record<ScheduleCLine, string> = {
+  '9': 'Car and truck expenses',
+  '10': 'Commissions and fees',
+  '13': 'Depreciation and section 179 expense',
+  '18': 'Office expense',
+  '20b': 'Rent or lease - other business property',
+  '22': 'Supplies',
+  '27a': 'Other expenses',
+};
+
+export const EXPENSE_CATEGORY_LINES: Record<ExpenseCategory, { line: ScheduleCLine; label: string } | null> = {
+  mileage: { line: '9', label: 'Standard mileage' },
+  shipping_supplies: { line: '22', label: 'Shipping supplies' },
+  platform_fees: { line: '10', label: 'Platform fees (recorded expenses)' },
+  inventory_cost: null, // reported through COGS (Part III)
+  software: { line: '27a', label: 'Software & subscriptions' },
+  equipment: { line: '13', label: 'Equipment' },
+  office_supplies: { line: '18', label: 'Office supplies' },
+  storage: { line: '20b', label: 'Storage' },
+  education: { line: '27a', label: 'Education' },
+  other: { line: '27a', label: 'Other' },
+};
+
+const SALE_FEES_LABEL = 'Platform fees on sales';
+const SALE_SHIPPING_LABEL = 'Postage & shipping on sales';
+
+type DateValue = Date | string | null | undefined;
+
+export interface ScheduleCInventoryInput {
+  id: number;
+  title: string;
+  category?: string | null;
+  status: string;
+  purchasePrice: string | number;
+  purchaseDate?: DateValue;
+  soldDate?: DateValue;
+  disposedDate?: DateValue;
+  createdAt?: DateValue;
+  updatedAt?: DateValue;
+  actualSalePrice?: string | number | null;
+  platformFeeActual?: string | number | null;
+  outboundShippingActual?: string | number | null;
+  shippingEstimate?: string | number | null;
+  salePlatform?: string | null;
+}
+
+export interface ScheduleCExpenseInput {
+  id: number;
+  category: string;
+  description: string;
+  amount: string | number;
+  date: DateValue;
+  miles?: string | number | null;
+}
+
+export interface ScheduleCLineTotal {
+  line: ScheduleCLine;
+  description: string;
+  amount: number;
+  breakdown: { label: string; amount: number }[];
+}
+
+export interface ScheduleCSale {
+  inventoryItemId: number;
+  title: string;
+  category: string | null;
+  platform: string | null;
+  purchaseDate: string | null;
+  soldDate: string;
+  salePrice: number;
+  cost: number;
+  fees: number;
+  feesEstimated: boolean;
+  shipping: number;
+  shippingEstimated: boolean;
+  netProfit: number;
+}
+
+export interface ScheduleCInventoryEntry {
+  inventoryItemId: number;
+  title: string;
+  status: string;
+  date: string | null; // purchase date, or disposed date for disposals
+  cost: number;
+}
+
+export interface ScheduleCExpenseEntry {
+  expenseId: number;
+  date: string | null;
+  category: string;
+  description: string;
+  line: ScheduleCLine | null; // null = excluded
+  amount: number;
+  miles: number | null;
+}
+
+export interface ScheduleCReport {
+  taxYear: number;
+  income: {
+    grossReceipts: number; // line 1
+    costOfGoodsSold: number; // line 4
+    grossProfit: number; // line 5 / 7
+  };
+  cogs: {
+    beginningInventory: number; // line 35
+    purchases: number; // line 36
+    subtotal: number; // line 40
+    endingInventory: number; // line 41
+    costOfGoodsSold: number; // line 42
+  };
+  expenseLines: ScheduleCLineTotal[];
+  totalExpenses: number; // line 28
+  netProfit: number; // line 31
+  excludedExpenses: { count: number; amount: number };
+  appendix: {
+    sales: ScheduleCSale[];
+    disposals: ScheduleCInventoryEntry[];
+    purchases: ScheduleCInventoryEntry[];
+    endingInventory: ScheduleCInventoryEntry[];
+    expenses: ScheduleCExpenseEntry[];
+  };
+  warnings: string[];
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(num) ? null : num;
+}
+
+function toDate(value: DateValue): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date | null): string | null {
+  if (!date) return null;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function getAcquiredDate(item: ScheduleCInventoryInput): Date | null {
+  return toDate(item.purchaseDate) ?? toDate(item.createdAt);
+}
+
+// When the item left inventory (sale or disposal); null while it is still on hand
+function getExitDate(item: ScheduleCInventoryInput): Date | null {
+  if (isSoldStatus(item.status)) return toDate(item.soldDate) ?? toDate(item.updatedAt);
+  if (isDisposedStatus(item.status)) return toDate(item.disposedDate) ?? toDate(item.updatedAt);
+  return null;
+}
+
+function isOnHandAt(item: ScheduleCInventoryInput, instant: Date): boolean {
+  const acquired = getAcquiredDate(item);
+  if (!acquired || acquired >= instant) return false;
+  const exited = getExitDate(item);
+  return !exited || exited >= instant;
+}
+
+function isWithin(date: Date | null, start: Date, end: Date): date is Date {
+  return !!date && date >= start && date < end;
+}
+
+function sortByLine(a: ScheduleCLineTotal, b: ScheduleCLineTotal): number {
+  return parseFloat(a.line) - parseFloat(b.line) || a.line.localeCompare(b.line);
+}
+
+/**
+ * Build the Schedule C for a tax year.
+ * Pass all of the user's inventory (COGS needs items from earlier years) and
+ * the expenses filed under this tax year.
+ */
+export function buildScheduleC(
+  taxYear: number,
+  inventory: ScheduleCInventoryInput[],
+  expenses: ScheduleCExpenseInput[]
+): ScheduleCReport {
+  const yearStart = new Date(taxYear, 0, 1);
+  const yearEnd = new Date(taxYear + 1, 0, 1);
+  const warnings: string[] = [];
+
+  // ---- Part III: COGS ----
+  let beginningInventory = 0;
+  let purchasesTotal = 0;
+  let endingInventoryTotal = 0;
+  const purchases: ScheduleCInventoryEntry[] = [];
+  const endingInventory: ScheduleCInventoryEntry[] = [];
+  const disposals: ScheduleCInventoryEntry[] = [];
+  let undatedItems = 0;
+
+  for (const item of inventory) {
+    const cost = toNumber(item.purchasePrice) ?? 0;
+    const acquired = getAcquiredDate(item);
+    if (!acquired) {
+      undatedItems++;
+      continue;
+    }
+
+    if (isOnHandAt(item, yearStart)) beginningInventory += cost;
+    if (isWithin(acquired, yearStart, yearEnd)) {
+      purchasesTotal += cost;
+      purchases.push({ inventoryItemId: item.id, title: item.title, status: item.status, date: formatDay(acquired), cost });
+    }
+    if (isOnHandAt(item, yearEnd)) {
+      endingInventoryTotal += cost;
+      endingInventory.push({ inventoryItemId: item.id, title: item.title, status: item.status, date: formatDay(acquired), cost });
+    }
+
+    const exited = getExitDate(item);
+    if (isDisposedStatus(item.status) && isWithin(exited, yearStart, yearEnd)) {
+      disposals.push({ inventoryItemId: item.id, title: item.title, status: item.status, date: formatDay(exited), cost });
+    }
+  }
+
+  if (undatedItems > 0) {
+    warnings.push(`${undatedItems} inventory item(s) have no purchase date and were left out of COGS.`);
+  }
+
+  const cogsSubtotal = beginningInventory + purchasesTotal;
+  const costOfGoodsSold = cogsSubtotal - endingInventoryTotal;
+
+  // ---- Part I: sales ----
+  const sales: ScheduleCSale[] = [];
+  let grossReceipts = 0;
+  let saleFees = 0;
+  let saleShipping = 0;
+  let estimatedFeeCount = 0;
+  let estimatedShippingCount = 0;
+  let missingPriceCount = 0;
+
+  for (const item of inventory) {
+    if (!isSoldStatus(item.status)) continue;
+    const soldDate = getExitDate(item);
+    if (!isWithin(soldDate, yearStart, yearEnd)) continue;
+
+    const salePrice = toNumber(item.actualSalePrice);
+    if (salePrice === null) {
+      missingPriceCount++;
+      continue;
+    }
+
+    const actualFee = toNumber(item.platformFeeActual);
+    const fees = actualFee ?? calculateFeeBreakdown({
+      platform: item.salePlatform,
+      category: item.category,
+      salePrice,
+    }).totalFees;
+    const actualShipping = toNumber(item.outboundShippingActual);
+    const shipping = actualShipping ?? toNumber(item.shippingEstimate) ?? 0;
+    const cost = toNumber(item.purchasePrice) ?? 0;
+
+    if (actualFee === null) estimatedFeeCount++;
+    if (actualShipping === null && shipping > 0) estimatedShippingCount++;
+
+    grossReceipts += salePrice;
+    saleFees += fees;
+    saleShipping += shipping;
+    sales.push({
+      inventoryItemId: item.id,
+      title: item.title,
+      category: item.category ?? null,
+      platform: item.salePlatform ?? null,
+      purchaseDate: formatDay(getAcquiredDate(item)),
+      soldDate: formatDay(soldDate)!,
+      salePrice,
+      cost,
+      fees: roundMoney(fees),
+      feesEstimated: actualFee === null,
+      shipping: roundMoney(shipping),
+      shippingEstimated: actualShipping === null && shipping > 0,
+      netProfit: roundMoney(salePrice - cost - fees - shipping),
+    });
+  }
+
+  if (missingPriceCount > 0) {
+    warnings.push(`${missingPriceCount} sold item(s) have no sale price recorded; their cost is in COGS but no receipts were counted.`);
+  }
+  if (estimatedFeeCount > 0) {
+    warnings.push(`${estimatedFeeCount} sale(s) have no actual platform fee; the platform fee schedule was used.`);
+  }
+  if (estimatedShippingCount > 0) {
+    warnings.push(`${estimatedShippingCount} sale(s) have no actual shipping cost; the shipping estimate was used.`);
+  }
+
+  // ---- Part II: expenses ----
+  const lines = new Map<ScheduleCLine, ScheduleCLineTotal>();
+  const addToLine = (line: ScheduleCLine, label: string, amount: number) => {
+    if (amount === 0) return;
+    const total = lines.get(line) ?? { line, description: SCHEDULE_C_LINES[line], amount: 0, breakdown: [] };
+    total.amount += amount;
+    const part = total.breakdown.find(b => b.label === label);
+    if (part) {
+      part.amount += amount;
+    } else {
+      total.breakdown.push({ label, amount });
+    }
+    lines.set(line, total);
+  };
+
+  addToLine('10', SALE_FEES_LABEL, saleFees);
+  addToLine('27a', SALE_SHIPPING_LABEL, saleShipping);
+
+  const expenseEntries: ScheduleCExpenseEntry[] = [];
+  const excludedExpenses = { count: 0, amount: 0 };
+
+  for (const expense of expenses) {
+    const amount = toNumber(expense.amount) ?? 0;
+    const mapping = EXPENSE_CATEGORY_LINES[expense.category as ExpenseCategory]
+      ?? (expense.category === 'inventory_cost' ? null : EXPENSE_CATEGORY_LINES.other);
+
+    if (mapping) {
+      addToLine(mapping.line, mapping.label, amount);
+    } else {
+      excludedExpenses.count++;
+      excludedExpenses.amount += amount;
+    }
+
+    expenseEntries.push({
+      expenseId: expense.id,
+      date: formatDay(toDate(expense.date)),
+      category: expense.category,
+      description: expense.description,
+      line: mapping?.line ?? null,
+      amount,
+      miles: toNumber(expense.miles),
+    });
+  }
+
+  if (excludedExpenses.count > 0) {
+    warnings.push(`${excludedExpenses.count} "inventory cost" expense(s) were excluded; inventory purchases are reported through COGS.`);
+  }
+
+  const expenseLines = Array.from(lines.values())
+    .map(line => ({
+      ...line,
+      amount: roundMoney(line.amount),
+      breakdown: line.breakdown.map(b => ({ label: b.label, amount: roundMoney(b.amount) })),
+    }))
+    .sort(sortByLine);
+  const totalExpenses = expenseLines.reduce((sum, line) => sum + line.amount, 0);
+  const grossProfit = grossReceipts - costOfGoodsSold;
+
+  const byDate = <T extends { date: string | null }>(a: T, b: T) => (a.date ?? '').localeCompare(b.date ?? '');
+
+  return {
+    taxYear,
+    income: {
+      grossReceipts: roundMoney(grossReceipts),
+      costOfGoodsSold: roundMoney(costOfGoodsSold),
+      grossProfit: roundMoney(grossProfit),
+    },
+    cogs: {
+      beginningInventory: roundMoney(beginningInventory),
+      purchases: roundMoney(purchasesTotal),
+      subtotal: roundMoney(cogsSubtotal),
+      endingInventory: roundMoney(endingInventoryTotal),
+      costOfGoodsSold: roundMoney(costOfGoodsSold),
+    },
+    expenseLines,
+    totalExpenses: roundMoney(totalExpenses),
+    netProfit: roundMoney(grossProfit - totalExpenses),
+    excludedExpenses: { count: excludedExpenses.count, amount: roundMoney(excludedExpenses.amount) },
+    appendix: {
+      sales: sales.sort((a, b) => a.soldDate.localeCompare(b.soldDate)),
+      disposals: disposals.sort(byDate),
+      purchases: purchases.sort(byDate),
+      endingInventory: endingInventory.sort(byDate),
+      expenses: expenseEntries.sort(byDate),
+    },
+    warnings,
+  };
+}
@@ -116,6 +116,8 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
   // Category-specific profit percentage settings for batch scanning
   categoryProfitPercents: jsonb("category_profit_percents").$type<Record<string, number>>(),
+  // Sales tax charged on the user's purchases (0.0825 = 8.25%) - snipe planner bids
+  salesTaxRate: numeric("sales_tax_rate").notNull().default("0"),
   // OAuth provider IDs for social login
   googleId: text("google_id").unique(),
   appleId: text("apple_id").unique(),
@@ -132,6 +134,15 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Chrome extension tokens - one per user; only the SHA-256 hash is stored
+export const extensionTokens = pgTable("extension_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  tokenHash: text("token_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
 // Push notification subscriptions
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: serial("id").primaryKey(),
@@ -247,6 +258,26 @@ export const insertProfitGoalSchema = createInsertSchema(profitGoals).omit({
 export type ProfitGoal = typeof profitGoals.$inferSelect;
 export type InsertProfitGoal = z.infer<typeof insertProfitGoalSchema>;
 
+// Per-user decision profiles (versioned - every save inserts a new row)
+// The highest version for a user is the active profile; older versions are kept
+// so decisionTrace entries on historical scans can still be explained.
+export const decisionProfiles = pgTable("decision_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  version: integer("version").notNull(),
+  marginThreshold: numeric("margin_threshold").notNull(), // 0.25 = 25%
+  minNetProfit: numeric("min_net_profit").notNull().default("0"),
+  fixedCosts: numeric("fixed_costs").notNull(), // packaging, labels, etc.
+  defaultOutboundShipping: numeric("default_outbound_shipping").notNull().default("0"),
+  defaultPlatform: text("default_platform").notNull().default('ebay'),
+  platformFeeRates: jsonb("platform_fee_rates").$type<Record<string, number>>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userVersionUnique: uniqueIndex("decision_profiles_user_version_idx").on(table.userId, table.version),
+}));
+
+export type DecisionProfileRecord = typeof decisionProfiles.$inferSelect;
+
 export const items = pgTable("items", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
@@ -273,6 +304,7 @@ export const items = pgTable("items", {
   tax: numeric("tax"),
   category: text("category"),
   scanMode: text("scan_mode"), // "flip" (reseller) | "buy" (collector)
+  sourceLocationId: integer("source_location_id").references(() => sourcingLocations.id, { onDelete: 'set null' }), // where the user was when they scanned
   recommendation: text("recommendation"),
   userDecision: text("user_decision"),
   expiresAt: timestamp("expires_at"), // null = never expires (Pro), set for Free tier (7 days)
@@ -343,6 +375,8 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
 
+export type ExtensionToken = typeof extensionTokens.$inferSelect;
+
 export const insertItemSchema = createInsertSchema(items).omit({
   id: true,
   userId: true,
@@ -364,8 +398,19 @@ export const insertItemSchema = createInsertSchema(items).omit({
   recommendation: true,
 });
 
-// Inventory statuses
-export const inventoryStatuses = ['bought', 'listed', 'sold'] as const;
+// Inventory statuses (allowed transitions live in shared/inventoryLifecycle.ts)
+export const inventoryStatuses = [
+  'bought',
+  'needs_cleaning',
+  'photographed',
+  'listed',
+  'sold',
+  'shipped',
+  'delivered',
+  'returned',
+  'donated',
+  'written_off',
+] as const;
 export type InventoryStatus = typeof inventoryStatuses[number];
 
 // Inventory items - items user owns or plans to flip
@@ -381,10 +426,11 @@ export const inventoryItems = pgTable("inventory_items", {
   purchasePrice: numeric("purchase_price").notNull(),
   feesEstimate: numeric("fees_estimate"), // platform fees estimate
   shippingEstimate: numeric("shipping_estimate"), // outbound shipping estimate
-  status: text("status").notNull().default('bought'), // bought | listed | sold
+  status: text("status").notNull().default('bought'), // InventoryStatus
   purchaseDate: timestamp("purchase_date").defaultNow(),
   listedDate: timestamp("listed_date"),
   soldDate: timestamp("sold_date"),
+  disposedDate: timestamp("disposed_date"), // donated or written off - cost becomes a loss
   actualSalePrice: numeric("actual_sale_price"),
   outboundShippingActual: numeric("outbound_shipping_actual"),
   condition: text("condition"),
@@ -393,8 +439,14 @@ export const inventoryItems = pgTable("inventory_items", {
   sourceLocationId: integer("source_location_id"), // where item was purchased (references sourcingLocations)
   sourceLocationName: text("source_location_name"), // denormalized for quick display (e.g., "Goodwill")
   storageLocation: text("storage_location"), // where item is stored (e.g., "Bin A", "Garage shelf 2")
-  salePlatform: text("sale_platform"), // 'ebay' | 'mercari' | 'poshmark' | 'facebook' | 'offerup' | 'other'
+  salePlatform: text("sale_platform"), // 'ebay' | 'mercari' | 'poshmark' | 'facebook' | 'offerup' | 'whatnot' | 'stockx' | 'other'
   platformFeeActual: numeric("platform_fee_actual"), // actual fee charged on sale
+  mileageCost: numeric("mileage_cost"), // share of the sourcing trip's mileage (analytics, not tax basis)
+  mileageTripStopId: integer("mileage_trip_stop_id"), // trip stop that charged mileageCost
+  receiptId: integer("receipt_id"), // scanned receipt the item was created from (references receipts)
+  lotId: integer("lot_id").references(() => lots.id, { onDelete: 'set null' }), // purchasePrice is allocated from the lot
+  allocationWeight: numeric("allocation_weight"), // share of the lot cost under 'manual' allocation
+  externalId: text("external_id"), // marketplace order/listing id from a CSV import (dedupe key)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -409,6 +461,75 @@ export const insertInventoryItemSchema = createInsertSchema(inventoryItems).omit
 export type InventoryItem = typeof inventoryItems.$inferSelect;
 export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
 
+// Lots - one purchase (box lot, storage unit, bulk auction) split into many inventory items.
+// The lot's cost + tax is allocated to its items' purchasePrice (LotAllocationMethod).
+export const lots = pgTable("lots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  totalCost: numeric("total_cost").notNull(), // what was paid, before tax
+  tax: numeric("tax").notNull().default('0'),
+  sourceLocationId: integer("source_location_id").references(() => sourcingLocations.id, { onDelete: 'set null' }),
+  sourceLocationName: text("source_location_name"),
+  purchaseDate: timestamp("purchase_date").notNull().defaultNow(),
+  allocationMethod: text("allocation_method").notNull().default('even'), // LotAllocationMethod
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("lots_user_idx").on(table.userId, table.purchaseDate),
+}));
+
+export type Lot = typeof lots.$inferSelect;
+export type LotWithItems = Lot & { items: InventoryItem[] };
+
+// Inventory status history - append-only, one row per status change
+export const inventoryStatusHistory = pgTable("inventory_status_history", {
+  id: serial("id").primaryKey(),
+  // Audit trail - outlives the item; null once the item is deleted
+  inventoryItemId: integer("inventory_item_id").references(() => inventoryItems.id, { onDelete: 'set null' }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  fromStatus: text("from_status"), // null for the initial 'bought' entry
+  toStatus: text("to_status").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  itemIdx: index("inventory_status_history_item_idx").on(table.inventoryItemId, table.createdAt),
+  userIdx: index("inventory_status_history_user_idx").on(table.userId),
+}));
+
+export type InventoryStatusHistoryEntry = typeof inventoryStatusHistory.$inferSelect;
+
+// Aging recommendations - what to do with listed items that sat past their typical time-to-sell.
+// Written by the daily aging job (AgingAction); at most one open row per inventory item.
+export const agingRecommendations = pgTable("aging_recommendations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  inventoryItemId: integer("inventory_item_id").notNull().references(() => inventoryItems.id, { onDelete: 'cascade' }),
+  action: text("action").notNull(), // AgingAction
+  status: text("status").notNull().default('open'), // AgingRecommendationStatus
+  daysListed: integer("days_listed").notNull(),
+  typicalDaysToSell: integer("typical_days_to_sell").notNull(),
+  ageRatio: numeric("age_ratio").notNull(), // daysListed / typicalDaysToSell
+  askingPrice: numeric("asking_price"), // estimatedResale when recommended
+  suggestedPrice: numeric("suggested_price"),
+  breakEvenPrice: numeric("break_even_price"),
+  targetPlatform: text("target_platform"), // crosslist only (FeePlatform)
+  compMedian: numeric("comp_median"),
+  compCount: integer("comp_count").notNull().default(0),
+  reason: text("reason").notNull(),
+  notifiedAt: timestamp("notified_at"),
+  resolvedAt: timestamp("resolved_at"), // applied or dismissed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("aging_recommendations_user_idx").on(table.userId, table.status),
+  itemIdx: index("aging_recommendations_item_idx").on(table.inventoryItemId, table.createdAt),
+}));
+
+export type AgingRecommendation = typeof agingRecommendations.$inferSelect;
+export type AgingRecommendationWithItem = AgingRecommendation & { item: InventoryItem };
+
 // ============ EXPENSE TRACKING SYSTEM ============
 // Expense categories for Schedule C tax reporting
 export const expenseCategories = [
@@ -480,6 +601,73 @@ export const insertSourcingLocationSchema = createInsertSchema(sourcingLocations
 export type SourcingLocation = typeof sourcingLocations.$inferSelect;
 export type InsertSourcingLocation = z.infer<typeof insertSourcingLocationSchema>;
 
+// Mileage trips - one drive from a start point through one or more stops.
+// Each trip owns a 'mileage' businessExpenses row holding the deduction.
+export const mileageTrips = pgTable("mileage_trips", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  expenseId: integer("expense_id").references(() => businessExpenses.id, { onDelete: 'set null' }),
+  date: timestamp("trip_date").notNull(),
+  taxYear: integer("tax_year").notNull(),
+  startLocation: text("start_location").notNull().default('Home'),
+  roundTrip: boolean("round_trip").notNull().default(true),
+  returnMiles: numeric("return_miles"), // last stop back to start (round trips)
+  totalMiles: numeric("total_miles").notNull(),
+  deductibleMiles: numeric("deductible_miles").notNull(),
+  mileageRate: numeric("mileage_rate").notNull(), // IRS rate in force on the trip date
+  amount: numeric("amount").notNull(), // deductibleMiles × mileageRate
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userDateIdx: index("mileage_trips_user_date_idx").on(table.userId, table.date),
+}));
+
+export const mileageTripStops = pgTable("mileage_trip_stops", {
+  id: serial("id").primaryKey(),
+  tripId: integer("trip_id").notNull().references(() => mileageTrips.id, { onDelete: 'cascade' }),
+  stopOrder: integer("stop_order").notNull(),
+  sourcingLocationId: integer("sourcing_location_id").references(() => sourcingLocations.id, { onDelete: 'set null' }),
+  label: text("label").notNull(), // location name, or e.g. "Post office"
+  purpose: text("purpose").notNull().default('sourcing'), // TripStopPurpose
+  legMiles: numeric("leg_miles").notNull(), // from the previous stop (or the start)
+  allocatedMiles: numeric("allocated_miles").notNull(), // leg + share of the return leg; 0 if personal
+  mileageCost: numeric("mileage_cost").notNull(),
+}, (table) => ({
+  tripIdx: index("mileage_trip_stops_trip_idx").on(table.tripId),
+  locationIdx: index("mileage_trip_stops_location_idx").on(table.sourcingLocationId),
+}));
+
+export type MileageTrip = typeof mileageTrips.$inferSelect;
+export type MileageTripStop = typeof mileageTripStops.$inferSelect;
+export type MileageTripWithStops = MileageTrip & { stops: MileageTripStop[] };
+
+// Scanned receipts - the uploaded image in object storage and what OCR read off it.
+// Applying a receipt creates one expense or a batch of inventory items.
+export const receiptStatuses = ['scanned', 'applied'] as const;
+export type ReceiptStatus = typeof receiptStatuses[number];
+
+export const receipts = pgTable("receipts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  objectPath: text("object_path").notNull(), // /objects/uploads/<uuid>
+  status: text("status").notNull().default('scanned'), // ReceiptStatus
+  ocrProvider: text("ocr_provider").notNull(),
+  merchant: text("merchant"),
+  receiptDate: text("receipt_date"), // YYYY-MM-DD as printed
+  total: numeric("total"),
+  extraction: jsonb("extraction").notNull(), // ReceiptExtraction
+  appliedAs: text("applied_as"), // ReceiptProposalKind
+  expenseId: integer("expense_id").references(() => businessExpenses.id, { onDelete: 'set null' }),
+  itemCount: integer("item_count"), // inventory items created
+  createdAt: timestamp("created_at").defaultNow(),
+  appliedAt: timestamp("applied_at"),
+}, (table) => ({
+  userCreatedIdx: index("receipts_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+export type Receipt = typeof receipts.$inferSelect;
+
 // Photo scan sessions for camera-based identification
 export const scanSessions = pgTable("scan_sessions", {
   id: serial("id").primaryKey(),
@@ -633,19 +821,22 @@ export interface ScanCandidate {
   brandDetected?: string | null;  // Locked brand from objectType (Funko, LEGO, etc.)
 }
 
-// Cache for sold comps to avoid repeated scraping
+// Shared comp cache (server/cache-service.ts) - survives restarts and is shared across instances
 export const compsCache = pgTable("comps_cache", {
   id: serial("id").primaryKey(),
-  queryKey: text("query_key").notNull().unique(), // hash of title + category
-  comps: jsonb("comps").notNull(), // array of comp objects
-  lowPrice: numeric("low_price"),
-  medianPrice: numeric("median_price"),
-  highPrice: numeric("high_price"),
-  spreadPercent: numeric("spread_percent"),
-  message: text("message"), // reliability warning message
+  queryKey: text("query_key").notNull().unique(), // namespaced key, e.g. "comps:nike dunk low:shoes"
+  namespace: text("namespace").notNull().default('comps'), // comps | sold_listings | mercari | ebay
+  // Defaults only let db:push add the columns to a populated table: a pre-existing
+  // row lands past its stale window, so it's never served and the next write replaces it
+  data: jsonb("data").notNull().default({}), // cached provider result
+  category: text("category"),
   createdAt: timestamp("created_at").defaultNow(),
-  expiresAt: timestamp("expires_at").notNull(),
-});
+  expiresAt: timestamp("expires_at").notNull(), // fresh until
+  staleUntil: timestamp("stale_until").notNull().defaultNow(), // served stale (revalidating) or as last-known-good until
+}, (table) => ({
+  namespaceIdx: index("comps_cache_namespace_idx").on(table.namespace),
+  staleUntilIdx: index("comps_cache_stale_until_idx").on(table.staleUntil),
+}));
 
 // Batch scanning sessions for Pro users
 export const batchSessionStatuses = ['active', 'processing', 'completed', 'cancelled'] as const;
@@ -670,7 +861,7 @@ export const batchItems = pgTable("batch_items", {
   id: serial("id").primaryKey(),
   batchId: integer("batch_id").notNull().references(() => batchSessions.id),
   userId: integer("user_id").notNull().references(() => users.id),
-  inputType: text("input_type").notNull(), // "url" | "camera"
+  inputType: text("input_type").notNull(), // "url" | "camera" | "photo"
   inputValue: text("input_value").notNull(), // URL or image identifier
   status: text("status").notNull().default('pending'), // pending | processing | completed | failed
   itemId: integer("item_id").references(() => items.id), // linked item after processing
@@ -683,10 +874,19 @@ export const batchItems = pgTable("batch_items", {
   decisionScore: integer("decision_score"), // 0-100
   marginPercent: numeric("margin_percent"), // Calculated margin percentage
   userAction: text("user_action"), // "accepted" | "skipped" | null (pending action)
-  errorMessage: text("error_message"), // if failed
+  errorMessage: text("error_message"), // if failed (or the last error while retrying)
+  attempts: integer("attempts").notNull().default(0), // job queue claims, including the current one
+  nextAttemptAt: timestamp("next_attempt_at"), // retry backoff - not claimed before this
+  lockedAt: timestamp("locked_at"), // when a queue worker claimed it; stale locks are released
   createdAt: timestamp("created_at").defaultNow(),
   processedAt: timestamp("processed_at"),
-});
+}, (table) => ({
+  queueIdx: index("batch_items_queue_idx").on(table.status, table.nextAttemptAt),
+}));
+
+// URL items are cheap to queue; photos are stored inline, so they stay capped lower
+export const MAX_BATCH_ITEMS = 200;
+export const MAX_BATCH_PHOTOS = 20;
 
 export type BatchSession = typeof batchSessions.$inferSelect;
 export type BatchItem = typeof batchItems.$inferSelect;
@@ -738,11 +938,12 @@ export type PartnerProgramSettings = typeof partnerProgramSettings.$inferSelect;
 export interface SoldComp {
   soldPrice: number;
   shippingCost: string; // "Free" or numeric
-  dateSold: string; // relative or date string
+  dateSold: string | null; // relative or date string, null when the source doesn't say
   condition: string;
   totalPrice?: number; // soldPrice + shipping (calculated)
   title?: string; // Comp listing title for filtering
   imageUrl?: string; // Comp image URL
+  source?: string; // comp provider id (set by the comp provider registry)
 }
 
 // Re-export as CompLike for backward compatibility with comp-filter
@@ -755,6 +956,17 @@ export interface ConditionStats {
   highPrice: number | null;
 }
 
+// What one comp provider contributed to a merged CompsResult
+export interface CompSourceSummary {
+  id: string; // provider id, matches SoldComp.source
+  label: string;
+  platform: string; // marketplace the prices come from
+  priceKind: 'sold' | 'asking';
+  compCount: number; // comps kept after cross-source dedupe
+  durationMs: number;
+  error?: string;
+}
+
 export interface CompsResult {
   comps: SoldComp[];
   lowPrice: number | null;
@@ -766,7 +978,7 @@ export interface CompsResult {
   variance?: number | null; // price variance for confidence calculation
   message?: string; // for graceful fallback messages
   searchQuery?: string; // the query used to find comps
-  source?: 'api' | 'serpapi' | 'finding_api' | 'marketplace_insights' | 'pricecharting' | 'browse' | 'fallback' | 'chrono24' | 'google' | 'none'; // where comps came from
+  source?: 'api' | 'serpapi' | 'finding_api' | 'marketplace_insights' | 'pricecharting' | 'browse' | 'fallback' | 'chrono24' | 'google' | 'merged' | 'none'; // where comps came from
   ebaySearchUrl?: string; // deep-link to eBay sold search
   chrono24SearchUrl?: string; // deep-link to Chrono24 search (watches only)
   // Condition-separated pricing for new vs used items
@@ -777,6 +989,8 @@ export interface CompsResult {
   // For watches: cleaned comp count after filtering parts/repair/bundles and IQR outlier trimming
   // Use this for confidence gating instead of comps.length
   cleanedCompCount?: number;
+  // Per-provider attribution when source is 'merged'
+  sources?: CompSourceSummary[];
 }
 
 // Mystery Flip of the Day - daily random listing for engagement
@@ -823,7 +1037,12 @@ export const priceAlerts = pgTable("price_alerts", {
   ebayItemId: text("ebay_item_id"), // eBay item ID for tracking
   title: text("title").notNull(),
   originalPrice: numeric("original_price").notNull(),
-  maxBuyPrice: numeric("max_buy_price"), // user's threshold
+  maxBuyPrice: numeric("max_buy_price"), // user's threshold (saved search: max listing price)
+  // Saved search - set instead of ebayItemId to alert on new listings that would be a FLIP
+  searchQuery: text("search_query"),
+  category: text("category"), // comps + eBay category filter
+  condition: text("condition"), // SavedSearchCondition
+  minMarginPercent: numeric("min_margin_percent"), // on top of the decision profile's FLIP threshold
   currentPrice: numeric("current_price"),
   lastChecked: timestamp("last_checked"),
   alertTriggered: boolean("alert_triggered").default(false),
@@ -843,6 +1062,51 @@ export const insertPriceAlertSchema = createInsertSchema(priceAlerts).omit({
 });
 export type InsertPriceAlert = z.infer<typeof insertPriceAlertSchema>;
 
+// Listings a saved search has already decided - each is checked and notified once
+export const priceAlertListings = pgTable("price_alert_listings", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => priceAlerts.id, { onDelete: 'cascade' }),
+  ebayItemId: text("ebay_item_id").notNull(),
+  title: text("title").notNull(),
+  url: text("url"),
+  imageUrl: text("image_url"),
+  price: numeric("price").notNull(),
+  shippingIn: numeric("shipping_in").notNull().default("0"),
+  verdict: text("verdict").notNull(), // "flip" | "skip"
+  marginPercent: numeric("margin_percent"),
+  netProfit: numeric("net_profit"),
+  expectedSalePrice: numeric("expected_sale_price"),
+  notifiedAt: timestamp("notified_at"), // null = not a deal for this search
+  seenAt: timestamp("seen_at").defaultNow().notNull(),
+}, (table) => ({
+  alertItemUnique: uniqueIndex("price_alert_listings_alert_item_idx").on(table.alertId, table.ebayItemId),
+}));
+
+export type PriceAlertListing = typeof priceAlertListings.$inferSelect;
+
+// Snipe planner watch list - eBay auctions the user plans to bid on, with a
+// push reminder shortly before each ends (server/auction-reminder-job.ts)
+export const auctionWatches = pgTable("auction_watches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  itemId: integer("item_id").notNull().references(() => items.id, { onDelete: 'cascade' }), // scan the max buy comes from
+  ebayItemId: text("ebay_item_id"), // for refreshing the current bid
+  title: text("title").notNull(),
+  currentBid: numeric("current_bid").notNull(),
+  bidCount: integer("bid_count").notNull().default(0),
+  shippingIn: numeric("shipping_in").notNull().default("0"), // buyer-paid
+  maxBid: numeric("max_bid"), // from the snipe planner; null = no bid clears the target
+  endsAt: timestamp("ends_at").notNull(),
+  remindMinutesBefore: integer("remind_minutes_before").notNull().default(5),
+  reminderSentAt: timestamp("reminder_sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userItemUnique: uniqueIndex("auction_watches_user_item_idx").on(table.userId, table.itemId),
+  endsAtIdx: index("auction_watches_ends_at_idx").on(table.endsAt),
+}));
+
+export type AuctionWatch = typeof auctionWatches.$inferSelect;
+
 // Brand Library - top brands per category for logo recognition
 export const brandLibraryCategories = ['tools', 'shoes', 'electronics', 'gaming', 'apparel'] as const;
 export type BrandLibraryCategory = typeof brandLibraryCategories[number];
@@ -0,0 +1,41 @@
+/**
+ * Snipe Planner Tests
+ */
+
+import { getBidIncrement, getMinimumBid, getStopAtBid, planSnipeBid } from './snipePlanner';
+
+describe('Snipe planner', () => {
+  it('should follow eBay bid increments and open at the starting price', () => {
+    expect(getBidIncrement(0.99)).toBe(0.05);
+    expect(getBidIncrement(1)).toBe(0.25);
+    expect(getMinimumBid(24.99)).toBe(25.49);
+    expect(getMinimumBid(12, 0)).toBe(12);
+  });
+
+  it('should take sales tax on bid and shipping out of the max bid', () => {
+    const plan = planSnipeBid({ maxBuy: 120, shippingIn: 10, salesTaxRate: 0.0825, currentBid: 95, bidCount: 4 });
+    expect(plan).toMatchObject({
+      maxBid: 110.09,
+      minimumBid: 96,
+      canBid: true,
+      stopAt: 107.59,
+      headroom: 14.09,
+      salesTaxAtMaxBid: 9.91,
+      allInAtMaxBid: 130,
+    });
+  });
+
+  it('should stop where the next valid bid would pass the max bid', () => {
+    expect(getStopAtBid(101)).toBe(99.99);
+    expect(getStopAtBid(0.04)).toBeNull();
+
+    const plan = planSnipeBid({ maxBuy: 50, shippingIn: 0, salesTaxRate: 0, currentBid: 49.75, bidCount: 3 });
+    expect(plan.canBid).toBe(false);
+    expect(plan.stopAt).toBe(49);
+  });
+
+  it('should not plan a bid without a max buy', () => {
+    const plan = planSnipeBid({ maxBuy: null, shippingIn: 5, salesTaxRate: 0.07, currentBid: 10, bidCount: 0 });
+    expect(plan).toMatchObject({ maxBid: null, minimumBid: 10, canBid: false, stopAt: null });
+  });
+});
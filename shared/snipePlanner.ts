@@ -0,0 +1,137 @@
+/**
+ * Snipe Planner - highest eBay auction bid that still clears the margin target
+ *
+ * The decision engine's maxBuy is the most the item itself can cost (after
+ * buyer-paid shipping, fees and the user's margin target). At auction that
+ * budget also has to cover sales tax, which eBay charges on the item and
+ * the shipping, and bids only move in eBay's increments:
+ *
+ * - maxBid: (maxBuy + shipping) / (1 + taxRate) - shipping, down to the cent.
+ *   Proxy bidding means you pay at most your max, so this is the bid to place
+ * - stopAt: working back through the increment table, the highest current
+ *   bid from which the next valid bid (current + increment) is still ≤ maxBid.
+ *   Past it there's no bid left that clears the target
+ */
+
+export interface BidIncrementTier {
+  from: number; // current bid at or above
+  increment: number;
+}
+
+// eBay US bid increments
+export const EBAY_BID_INCREMENTS: BidIncrementTier[] = [
+  { from: 0, increment: 0.05 },
+  { from: 1, increment: 0.25 },
+  { from: 5, increment: 0.5 },
+  { from: 25, increment: 1 },
+  { from: 100, increment: 2.5 },
+  { from: 250, increment: 5 },
+  { from: 500, increment: 10 },
+  { from: 1000, increment: 25 },
+  { from: 2500, increment: 50 },
+  { from: 5000, increment: 100 },
+];
+
+export const SNIPE_REMINDER_MINUTES = [2, 5, 10, 30, 60] as const;
+export const DEFAULT_SNIPE_REMINDER_MINUTES = 5;
+
+export interface SnipePlanInput {
+  maxBuy: number | null; // decision engine max buy for this shipping cost
+  shippingIn: number; // buyer-paid shipping
+  salesTaxRate: number; // 0.0825 = 8.25%, charged on item + shipping
+  currentBid: number;
+  bidCount?: number; // 0 = no bids yet; the current price is the opening bid
+}
+
+export interface SnipePlan {
+  maxBid: number | null; // null when there's no budget (no comps or maxBuy ≤ 0)
+  minimumBid: number; // lowest bid eBay accepts right now
+  bidIncrement: number; // at the current bid
+  canBid: boolean; // a valid bid exists that clears the target
+  stopAt: number | null;
+  headroom: number | null; // maxBid - minimumBid
+  salesTaxAtMaxBid: number | null;
+  allInAtMaxBid: number | null; // bid + shipping + tax if you win at your max
+}
+
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+export function getBidIncrement(currentBid: number): number {
+  let increment = EBAY_BID_INCREMENTS[0].increment;
+  for (const tier of EBAY_BID_INCREMENTS) {
+    if (currentBid >= tier.from) increment = tier.increment;
+  }
+  return increment;
+}
+
+/**
+ * Lowest bid eBay accepts: the opening price until someone bids, then the
+ * current bid plus one increment.
+ */
+export function getMinimumBid(currentBid: number, bidCount: number = 1): number {
+  if (bidCount === 0) return toCents(currentBid);
+  return toCents(currentBid + getBidIncrement(currentBid));
+}
+
+/**
+ * Highest current bid from which a bid of at most maxBid is still valid.
+ */
+export function getStopAtBid(maxBid: number): number | null {
+  let stopAt: number | null = null;
+  EBAY_BID_INCREMENTS.forEach((tier, i) => {
+    const nextFrom = EBAY_BID_INCREMENTS[i + 1]?.from ?? Infinity;
+    const candidate = Math.min(nextFrom - 0.01, maxBid - tier.increment);
+    if (candidate >= tier.from && (stopAt === null || candidate > stopAt)) {
+      stopAt = toCents(candidate);
+    }
+  });
+  return stopAt;
+}
+
+export function planSnipeBid(input: SnipePlanInput): SnipePlan {
+  const { shippingIn, currentBid } = input;
+  const salesTaxRate = Math.max(0, input.salesTaxRate);
+  const minimumBid = getMinimumBid(currentBid, input.bidCount);
+  const bidIncrement = getBidIncrement(currentBid);
+
+  const budget = input.maxBuy !== null && input.maxBuy > 0 ? input.maxBuy + shippingIn : 0;
+  const maxBid = Math.floor((budget / (1 + salesTaxRate) - shippingIn) * 100) / 100;
+
+  if (maxBid <= 0) {
+    return {
+      maxBid: null,
+      minimumBid,
+      bidIncrement,
+      canBid: false,
+      stopAt: null,
+      headroom: null,
+      salesTaxAtMaxBid: null,
+      allInAtMaxBid: null,
+    };
+  }
+
+  const salesTaxAtMaxBid = toCents((maxBid + shippingIn) * salesTaxRate);
+  return {
+    maxBid,
+    minimumBid,
+    bidIncrement,
+    canBid: maxBid >= minimumBid,
+    stopAt: getStopAtBid(maxBid),
+    headroom: toCents(maxBid - minimumBid),
+    salesTaxAtMaxBid,
+    allInAtMaxBid: toCents(maxBid + shippingIn + salesTaxAtMaxBid),
+  };
+}
+
+/**
+ * Snipe planner response for one scanned item.
+ */
+export interface SnipePlanResponse {
+  item: { id: number; title: string; ebayItemId: string | null };
+  listing: { currentBid: number; bidCount: number; shippingIn: number; endsAt: string | null };
+  verdict: 'flip' | 'skip'; // decision engine at the current bid
+  expectedSalePrice: number | null;
+  maxBuy: number | null;
+  salesTaxRate: number;
+  plan: SnipePlan;
+}
@@ -0,0 +1,41 @@
+/**
+ * Sourcing Scorecards Tests
+ */
+
+import { EMPTY_SOURCING_TOTALS, buildSourcingHeatmap, buildSourcingScorecard, rankSourcingScorecards } from './sourcingScorecards';
+
+describe('Sourcing scorecards', () => {
+  const rows = [
+    { dayOfWeek: 6, hour: 9, itemsBought: 4, spend: 40, itemsSold: 3, profit: 60 },
+    { dayOfWeek: 6, hour: 15, itemsBought: 2, spend: 20, itemsSold: 1, profit: 50 },
+    { dayOfWeek: 2, hour: 12, itemsBought: 3, spend: 30, itemsSold: 3, profit: 30 },
+    { dayOfWeek: 2, hour: null, itemsBought: 1, spend: 5, itemsSold: 0, profit: 0 },
+  ];
+
+  it('should pick the best day/time slot only from slots with enough sales', () => {
+    const heatmap = buildSourcingHeatmap(rows);
+
+    expect(heatmap.cells).toHaveLength(28);
+    expect(heatmap.best).toEqual({ dayOfWeek: 6, bucket: 'morning', avgProfit: 20 }); // Sat afternoon has 1 sale
+    expect(heatmap.bestDay).toEqual({ dayOfWeek: 6, avgProfit: 27.5 });
+    expect(heatmap.untimedItems).toBe(1);
+    expect(heatmap.days[2].itemsBought).toBe(4); // untimed purchase still counts toward Tuesday
+  });
+
+  it('should net mileage out of realized profit and rank by it', () => {
+    const goodwill = buildSourcingScorecard({ id: 1, name: 'Goodwill', type: 'thrift' }, {
+      ...EMPTY_SOURCING_TOTALS,
+      itemsBought: 10, spend: 95, itemsSold: 7, revenue: 300, soldCost: 70, fees: 40, shipping: 50,
+      daysToSellTotal: 70, scans: 20, hits: 5, mileageCost: 21.5, miles: 32, tripCount: 3,
+    }, rows);
+    const unused = buildSourcingScorecard({ id: 2, name: 'Estate', type: 'estate_sale' }, EMPTY_SOURCING_TOTALS, []);
+
+    expect(goodwill.realizedProfit).toBe(140);
+    expect(goodwill.roi).toBe(2);
+    expect(goodwill.hitRate).toBe(0.25);
+    expect(goodwill.avgDaysToSell).toBe(10);
+    expect(goodwill.netProfit).toBe(118.5);
+    expect(unused.roi).toBeNull();
+    expect(rankSourcingScorecards([unused, goodwill]).map(s => s.name)).toEqual(['Goodwill', 'Estate']);
+  });
+});
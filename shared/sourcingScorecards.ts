@@ -0,0 +1,239 @@
+/**
+ * Sourcing Location Scorecards & Day/Time Heatmap
+ *
+ * Per sourcing location ("is this Goodwill worth the drive?"):
+ * - spend / itemsBought: inventory bought there (purchasePrice, any status)
+ * - realizedProfit / roi: sold items only, same math as @shared/analytics -
+ *   sale - purchase - platform fees - outbound shipping, ÷ cost of those items
+ * - hitRate: scans tagged at the location that became flips - the user
+ *   marked FLIP or the scan was added to inventory
+ * - avgDaysToSell: purchaseDate → soldDate
+ * - mileageCost: mileage trip stops at the location (see mileageTrips)
+ * - netProfit: realizedProfit - mileageCost
+ *
+ * HEATMAP: items bought by day of week × time of day, in the user's time
+ * zone, from purchaseDate. Purchase dates entered without a time (exactly
+ * midnight) count toward their day but no time slot. The best slot is the
+ * one with the highest realized profit per item sold, among slots with at
+ * least MIN_HEATMAP_SALES sales.
+ */
+
+export const HEATMAP_TIME_BUCKETS = [
+  { key: 'morning', label: 'Morning', startHour: 0 }, // before 11am
+  { key: 'midday', label: 'Midday', startHour: 11 },
+  { key: 'afternoon', label: 'Afternoon', startHour: 14 },
+  { key: 'evening', label: 'Evening', startHour: 17 },
+] as const;
+export type HeatmapTimeBucket = typeof HEATMAP_TIME_BUCKETS[number]['key'];
+
+// Postgres EXTRACT(DOW): 0 = Sunday
+export const DAY_OF_WEEK_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export const MIN_HEATMAP_SALES = 3;
+
+export interface SourcingRawTotals {
+  itemsBought: number;
+  spend: number;
+  itemsSold: number;
+  revenue: number;
+  soldCost: number; // purchase price of the items sold
+  fees: number;
+  shipping: number;
+  daysToSellTotal: number;
+  scans: number;
+  hits: number;
+  mileageCost: number;
+  miles: number;
+  tripCount: number;
+}
+
+export const EMPTY_SOURCING_TOTALS: SourcingRawTotals = {
+  itemsBought: 0,
+  spend: 0,
+  itemsSold: 0,
+  revenue: 0,
+  soldCost: 0,
+  fees: 0,
+  shipping: 0,
+  daysToSellTotal: 0,
+  scans: 0,
+  hits: 0,
+  mileageCost: 0,
+  miles: 0,
+  tripCount: 0,
+};
+
+export interface SourcingHeatmapRow {
+  dayOfWeek: number; // 0-6
+  hour: number | null; // local hour, null when the purchase date has no time
+  itemsBought: number;
+  spend: number;
+  itemsSold: number;
+  profit: number;
+}
+
+interface HeatmapTotals {
+  itemsBought: number;
+  spend: number;
+  itemsSold: number;
+  profit: number;
+  avgProfit: number | null; // realized profit per item sold
+}
+
+export interface SourcingHeatmapCell extends HeatmapTotals {
+  dayOfWeek: number;
+  bucket: HeatmapTimeBucket;
+}
+
+export interface SourcingHeatmapDay extends HeatmapTotals {
+  dayOfWeek: number;
+}
+
+export interface SourcingHeatmap {
+  cells: SourcingHeatmapCell[]; // every day × bucket, Sunday morning first
+  days: SourcingHeatmapDay[];
+  best: { dayOfWeek: number; bucket: HeatmapTimeBucket; avgProfit: number } | null;
+  bestDay: { dayOfWeek: number; avgProfit: number } | null;
+  untimedItems: number; // counted in days but not cells
+}
+
+export interface SourcingScorecard {
+  locationId: number;
+  name: string;
+  type: string;
+  itemsBought: number;
+  spend: number;
+  itemsSold: number;
+  revenue: number;
+  realizedProfit: number;
+  roi: number | null;
+  scans: number;
+  hits: number;
+  hitRate: number | null;
+  avgDaysToSell: number | null;
+  mileageCost: number;
+  miles: number;
+  tripCount: number;
+  netProfit: number; // realizedProfit - mileageCost
+  heatmap: SourcingHeatmap;
+}
+
+export interface SourcingScorecardsResponse {
+  timeZone: string;
+  locations: SourcingScorecard[];
+  heatmap: SourcingHeatmap; // all purchases, tagged with a location or not
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ratio(numerator: number, denominator: number, places = 3): number | null {
+  if (denominator <= 0) return null;
+  const scale = 10 ** places;
+  return Math.round((numerator / denominator) * scale) / scale;
+}
+
+export function getTimeBucket(hour: number): HeatmapTimeBucket {
+  let bucket: HeatmapTimeBucket = HEATMAP_TIME_BUCKETS[0].key;
+  for (const candidate of HEATMAP_TIME_BUCKETS) {
+    if (hour >= candidate.startHour) bucket = candidate.key;
+  }
+  return bucket;
+}
+
+function finalizeTotals(totals: Omit<HeatmapTotals, 'avgProfit'>): HeatmapTotals {
+  return {
+    itemsBought: totals.itemsBought,
+    spend: roundMoney(totals.spend),
+    itemsSold: totals.itemsSold,
+    profit: roundMoney(totals.profit),
+    avgProfit: totals.itemsSold > 0 ? roundMoney(totals.profit / totals.itemsSold) : null,
+  };
+}
+
+export function buildSourcingHeatmap(rows: SourcingHeatmapRow[]): SourcingHeatmap {
+  const empty = () => ({ itemsBought: 0, spend: 0, itemsSold: 0, profit: 0 });
+  const cellSums = new Map<string, ReturnType<typeof empty>>();
+  const daySums = DAY_OF_WEEK_LABELS.map(empty);
+  let untimedItems = 0;
+
+  const add = (target: ReturnType<typeof empty>, row: SourcingHeatmapRow) => {
+    target.itemsBought += row.itemsBought;
+    target.spend += row.spend;
+    target.itemsSold += row.itemsSold;
+    target.profit += row.profit;
+  };
+
+  for (const row of rows) {
+    if (row.dayOfWeek < 0 || row.dayOfWeek > 6) continue;
+    add(daySums[row.dayOfWeek], row);
+    if (row.hour === null) {
+      untimedItems += row.itemsBought;
+      continue;
+    }
+    const key = `${row.dayOfWeek}:${getTimeBucket(row.hour)}`;
+    if (!cellSums.has(key)) cellSums.set(key, empty());
+    add(cellSums.get(key)!, row);
+  }
+
+  const cells: SourcingHeatmapCell[] = [];
+  for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+    for (const { key: bucket } of HEATMAP_TIME_BUCKETS) {
+      cells.push({ dayOfWeek, bucket, ...finalizeTotals(cellSums.get(`${dayOfWeek}:${bucket}`) ?? empty()) });
+    }
+  }
+  const days = daySums.map((sums, dayOfWeek) => ({ dayOfWeek, ...finalizeTotals(sums) }));
+
+  const qualifies = (totals: HeatmapTotals) => totals.itemsSold >= MIN_HEATMAP_SALES && totals.avgProfit !== null;
+  const bestCell = cells.filter(qualifies).sort((a, b) => b.avgProfit! - a.avgProfit! || b.itemsSold - a.itemsSold)[0];
+  const bestDay = days.filter(qualifies).sort((a, b) => b.avgProfit! - a.avgProfit! || b.itemsSold - a.itemsSold)[0];
+
+  return {
+    cells,
+    days,
+    best: bestCell ? { dayOfWeek: bestCell.dayOfWeek, bucket: bestCell.bucket, avgProfit: bestCell.avgProfit! } : null,
+    bestDay: bestDay ? { dayOfWeek: bestDay.dayOfWeek, avgProfit: bestDay.avgProfit! } : null,
+    untimedItems,
+  };
+}
+
+export function buildSourcingScorecard(
+  location: { id: number; name: string; type: string },
+  raw: SourcingRawTotals,
+  heatmapRows: SourcingHeatmapRow[]
+): SourcingScorecard {
+  const realizedProfit = raw.revenue - raw.soldCost - raw.fees - raw.shipping;
+  return {
+    locationId: location.id,
+    name: location.name,
+    type: location.type,
+    itemsBought: raw.itemsBought,
+    spend: roundMoney(raw.spend),
+    itemsSold: raw.itemsSold,
+    revenue: roundMoney(raw.revenue),
+    realizedProfit: roundMoney(realizedProfit),
+    roi: ratio(realizedProfit, raw.soldCost),
+    scans: raw.scans,
+    hits: raw.hits,
+    hitRate: ratio(raw.hits, raw.scans),
+    avgDaysToSell: ratio(raw.daysToSellTotal, raw.itemsSold, 1),
+    mileageCost: roundMoney(raw.mileageCost),
+    miles: Math.round(raw.miles * 10) / 10,
+    tripCount: raw.tripCount,
+    netProfit: roundMoney(realizedProfit - raw.mileageCost),
+    heatmap: buildSourcingHeatmap(heatmapRows),
+  };
+}
+
+/**
+ * Most net profit first; locations with no purchases go last.
+ */
+export function rankSourcingScorecards(scorecards: SourcingScorecard[]): SourcingScorecard[] {
+  return [...scorecards].sort((a, b) =>
+    Number(b.itemsBought > 0) - Number(a.itemsBought > 0)
+    || b.netProfit - a.netProfit
+    || b.spend - a.spend
+    || a.name.localeCompare(b.name)
+  );
+}